@@ -0,0 +1,54 @@
+using ActoEngine.WebApi.Features.Context;
+using ActoEngine.WebApi.Features.ErDiagram;
+using ActoEngine.WebApi.Features.ImpactAnalysis;
+using ActoEngine.WebApi.Features.Notifications;
+using ActoEngine.WebApi.Features.Projects;
+using ActoEngine.WebApi.Features.Schema;
+using ActoEngine.WebApi.Features.Users;
+using NSubstitute;
+
+namespace ActoEngine.Tests.Builders;
+
+/// <summary>
+/// Fluent builder that centralises <see cref="ContextService"/> construction
+/// for tests. Every dependency defaults to a fresh substitute; tests pass in
+/// only the ones they set up or assert on.
+/// </summary>
+public sealed class ContextServiceBuilder
+{
+    private IContextRepository _contextRepo = Substitute.For<IContextRepository>();
+    private ISchemaRepository _schemaRepo = Substitute.For<ISchemaRepository>();
+    private IUserRepository _userRepo = Substitute.For<IUserRepository>();
+    private IProjectRepository _projectRepo = Substitute.For<IProjectRepository>();
+    private IErDiagramRepository _erDiagramRepo = Substitute.For<IErDiagramRepository>();
+    private INotificationService _notificationService = Substitute.For<INotificationService>();
+    private IDependencyRepository _dependencyRepo = Substitute.For<IDependencyRepository>();
+
+    public static ContextServiceBuilder Create() => new();
+
+    public ContextServiceBuilder WithContextRepository(IContextRepository contextRepo) { _contextRepo = contextRepo; return this; }
+
+    public ContextServiceBuilder WithSchemaRepository(ISchemaRepository schemaRepo) { _schemaRepo = schemaRepo; return this; }
+
+    public ContextServiceBuilder WithUserRepository(IUserRepository userRepo) { _userRepo = userRepo; return this; }
+
+    public ContextServiceBuilder WithProjectRepository(IProjectRepository projectRepo) { _projectRepo = projectRepo; return this; }
+
+    public ContextServiceBuilder WithErDiagramRepository(IErDiagramRepository erDiagramRepo) { _erDiagramRepo = erDiagramRepo; return this; }
+
+    public ContextServiceBuilder WithNotificationService(INotificationService notificationService) { _notificationService = notificationService; return this; }
+
+    public ContextServiceBuilder WithDependencyRepository(IDependencyRepository dependencyRepo) { _dependencyRepo = dependencyRepo; return this; }
+
+    public ContextService Build()
+    {
+        return new ContextService(
+            _contextRepo,
+            _schemaRepo,
+            _userRepo,
+            _projectRepo,
+            _erDiagramRepo,
+            _notificationService,
+            _dependencyRepo);
+    }
+}
@@ -0,0 +1,175 @@
+using ActoEngine.Tests.Builders;
+using ActoEngine.WebApi.Features.Context;
+using NSubstitute;
+
+namespace ActoEngine.Tests.Context;
+
+/// <summary>
+/// Tests for <see cref="ContextCompleteness"/> scoring and per-project rules on <see cref="ContextService"/>.
+/// </summary>
+public class ContextCompletenessTests
+{
+    private readonly IContextRepository _contextRepo = Substitute.For<IContextRepository>();
+    private readonly ContextService _service;
+
+    public ContextCompletenessTests()
+    {
+        _service = ContextServiceBuilder.Create()
+            .WithContextRepository(_contextRepo)
+            .Build();
+    }
+
+    [Theory]
+    [InlineData("TABLE", 47)]    // purpose 35 of 75
+    [InlineData("COLUMN", 39)]   // purpose 35 of 90
+    [InlineData("SP", 39)]
+    public void Score_WithDefaults_WeighsPurposeMost(string entityType, int expected)
+    {
+        var context = new EntityContext { EntityType = entityType, EntityName = "Orders", Purpose = "Order headers" };
+
+        Assert.Equal(expected, ContextCompleteness.Score(context, ContextCompleteness.Defaults()));
+    }
+
+    [Fact]
+    public void Score_WithCustomRules_UsesConfiguredWeights()
+    {
+        var rules = new ContextCompletenessRules
+        {
+            Fields = new()
+            {
+                ["TABLE"] =
+                [
+                    new() { Field = "Purpose", Weight = 50, Required = true },
+                    new() { Field = "RetentionPolicy", Weight = 50 }
+                ]
+            }
+        };
+        var context = new EntityContext { EntityType = "TABLE", EntityName = "Orders", RetentionPolicy = "7 years" };
+
+        Assert.Equal(50, ContextCompleteness.Score(context, rules));
+        Assert.False(ContextCompleteness.IsDocumented(context, rules));
+    }
+
+    [Fact]
+    public void Score_ForTypeMissingFromRules_FallsBackToDefaults()
+    {
+        var rules = new ContextCompletenessRules
+        {
+            Fields = new() { ["TABLE"] = [new() { Field = "Purpose", Weight = 100 }] }
+        };
+        var context = new EntityContext { EntityType = "VIEW", EntityName = "vOrders", Purpose = "Open orders" };
+
+        Assert.Equal(47, ContextCompleteness.Score(context, rules));
+    }
+
+    [Fact]
+    public void IsDocumented_WithoutRequiredFields_NeedsAnyScoredField()
+    {
+        var rules = new ContextCompletenessRules
+        {
+            Fields = new() { ["COLUMN"] = [new() { Field = "Sensitivity", Weight = 10 }] }
+        };
+
+        Assert.True(ContextCompleteness.IsDocumented(
+            new EntityContext { EntityType = "COLUMN", EntityName = "Email", Sensitivity = "PII" }, rules));
+        Assert.False(ContextCompleteness.IsDocumented(
+            new EntityContext { EntityType = "COLUMN", EntityName = "Email", Purpose = "Login" }, rules));
+    }
+
+    [Fact]
+    public void Validate_ReportsBadThresholdsFieldsAndWeights()
+    {
+        var rules = new ContextCompletenessRules
+        {
+            GoodThreshold = 40,
+            FairThreshold = 60,
+            Fields = new()
+            {
+                ["TABLE"] = [new() { Field = "Owner", Weight = 0 }],
+                ["INDEX"] = []
+            }
+        };
+
+        var errors = ContextCompleteness.Validate(rules);
+
+        Assert.Contains(errors, e => e.StartsWith("Fair threshold"));
+        Assert.Contains(errors, e => e.Contains("'Owner' is not a scorable context field"));
+        Assert.Contains(errors, e => e.Contains("at least one field needs a weight above 0"));
+        Assert.Contains(errors, e => e.Contains("Unknown entity type 'INDEX'"));
+        Assert.Empty(ContextCompleteness.Validate(ContextCompleteness.Defaults()));
+    }
+
+    [Fact]
+    public void BuildCoverageStats_CountsDocumentedAndAveragesScores()
+    {
+        ContextCoverageGroup[] groups =
+        [
+            new() { EntityType = "TABLE", EntityCount = 1, HasPurpose = true, HasBusinessDomain = true, HasBusinessImpact = true },
+            new() { EntityType = "TABLE", EntityCount = 2, HasBusinessDomain = true },
+            new() { EntityType = "TABLE", EntityCount = 3 }
+        ];
+
+        var table = Assert.Single(ContextService.BuildCoverageStats(groups, ContextCompleteness.Defaults()), s => s.EntityType == "TABLE");
+
+        Assert.Equal(6, table.Total);
+        Assert.Equal(1, table.Documented);
+        Assert.Equal(16.67m, table.CoveragePercentage);
+        Assert.Equal(25.67m, table.AvgCompleteness);   // (100 + 2 * 27 + 3 * 0) / 6
+    }
+
+    [Fact]
+    public async Task GetTopDocumentedEntitiesAsync_SkipsUndocumentedAndRanksByScore()
+    {
+        _contextRepo.GetTopDocumentedCandidatesAsync(1, Arg.Any<CancellationToken>()).Returns(
+        [
+            new TopDocumentedCandidate { EntityType = "TABLE", EntityId = 1, EntityName = "Orders", HasPurpose = true, CriticalityLevel = 5 },
+            new TopDocumentedCandidate { EntityType = "TABLE", EntityId = 2, EntityName = "Audit", HasBusinessDomain = true },
+            new TopDocumentedCandidate { EntityType = "TABLE", EntityId = 3, EntityName = "Customers", HasPurpose = true, HasBusinessDomain = true, ExpertCount = 2 }
+        ]);
+
+        var top = await _service.GetTopDocumentedEntitiesAsync(1);
+
+        Assert.Equal(["Customers", "Orders"], top.Select(e => e.EntityName));
+        Assert.Equal([73, 47], top.Select(e => e.CompletenessScore));
+        Assert.Equal(2, top[0].ExpertCount);
+    }
+
+    [Fact]
+    public async Task GetCompletenessRulesAsync_WithoutSavedRules_ReturnsDefaults()
+    {
+        _contextRepo.GetCompletenessRulesAsync(1, Arg.Any<CancellationToken>()).Returns((ContextCompletenessRulesRow?)null);
+
+        var settings = await _service.GetCompletenessRulesAsync(1);
+
+        Assert.True(settings.IsDefault);
+        Assert.Equal(80, settings.Rules.GoodThreshold);
+        Assert.Equal(["Purpose", "BusinessDomain", "BusinessImpact", "Sensitivity"], settings.Rules.Fields["COLUMN"].Select(f => f.Field));
+    }
+
+    [Fact]
+    public async Task GetCompletenessRulesAsync_ReadsSavedJson()
+    {
+        _contextRepo.GetCompletenessRulesAsync(1, Arg.Any<CancellationToken>()).Returns(new ContextCompletenessRulesRow
+        {
+            ProjectId = 1,
+            RulesJson = """{"fields":{"SP":[{"field":"DataFlow","weight":10,"required":true}]},"goodThreshold":90,"fairThreshold":60}""",
+            UpdatedBy = 5,
+            UpdatedAt = DateTime.UtcNow
+        });
+
+        var settings = await _service.GetCompletenessRulesAsync(1);
+
+        Assert.False(settings.IsDefault);
+        Assert.Equal(90, settings.Rules.GoodThreshold);
+        Assert.True(Assert.Single(settings.Rules.Fields["SP"]).Required);
+    }
+
+    [Fact]
+    public async Task SaveCompletenessRulesAsync_WithInvalidRules_Throws()
+    {
+        var rules = new ContextCompletenessRules { GoodThreshold = 0 };
+
+        await Assert.ThrowsAsync<ArgumentException>(() => _service.SaveCompletenessRulesAsync(1, rules, 5));
+        await _contextRepo.DidNotReceiveWithAnyArgs().UpsertCompletenessRulesAsync(default, default!, default);
+    }
+}
@@ -0,0 +1,174 @@
+using System.IO.Compression;
+using System.Text;
+using ActoEngine.Tests.Builders;
+using ActoEngine.WebApi.Features.Context;
+using NSubstitute;
+
+namespace ActoEngine.Tests.Context;
+
+/// <summary>
+/// Tests for context exports — <see cref="ContextService.MatchesExportFilter"/> and the file formats of <see cref="ContextExportWriter"/>.
+/// </summary>
+public class ContextExportTests
+{
+    [Fact]
+    public void MatchesExportFilter_SensitivityFilterIgnoresCase()
+    {
+        var filter = new ContextExportFilter { Sensitivities = ["pii", "FINANCIAL"] };
+
+        Assert.True(ContextService.MatchesExportFilter(Row(sensitivity: "PII"), filter));
+        Assert.True(ContextService.MatchesExportFilter(Row(sensitivity: "FINANCIAL"), filter));
+        Assert.False(ContextService.MatchesExportFilter(Row(sensitivity: "INTERNAL"), filter));
+        Assert.False(ContextService.MatchesExportFilter(Row(), filter));
+    }
+
+    [Fact]
+    public void MatchesExportFilter_CriticalityExcludesUndocumentedEntities()
+    {
+        var filter = new ContextExportFilter { MinCriticality = 4 };
+
+        Assert.True(ContextService.MatchesExportFilter(Row(criticality: 5), filter));
+        Assert.False(ContextService.MatchesExportFilter(Row(criticality: 3), filter));
+        Assert.False(ContextService.MatchesExportFilter(Row(), filter));
+    }
+
+    [Theory]
+    [InlineData(0, true)]
+    [InlineData(50, true)]
+    [InlineData(100, false)]
+    public void MatchesExportFilter_CompletenessRangeIsInclusive(int score, bool expected)
+    {
+        var filter = new ContextExportFilter { MinCompleteness = 0, MaxCompleteness = 50 };
+
+        Assert.Equal(expected, ContextService.MatchesExportFilter(Row(completeness: score), filter));
+    }
+
+    [Fact]
+    public async Task ExportContextAsync_WithMoreEntitiesThanTheCap_ThrowsInsteadOfTruncating()
+    {
+        var contextRepo = Substitute.For<IContextRepository>();
+        contextRepo.GetContextGridRowsAsync(1, Arg.Any<IReadOnlyCollection<string>>(), false, Arg.Any<int>(), Arg.Any<CancellationToken>())
+            .Returns(call => Enumerable.Range(1, call.ArgAt<int>(3))
+                .Select(id => new ContextGridRow { EntityType = "COLUMN", EntityId = id, EntityName = $"C{id}" })
+                .ToList());
+        var service = ContextServiceBuilder.Create().WithContextRepository(contextRepo).Build();
+
+        var ex = await Assert.ThrowsAsync<ArgumentException>(() => service.ExportContextAsync(1, "csv", new ContextExportFilter()));
+
+        Assert.Contains("more than 100,000 entities", ex.Message, StringComparison.Ordinal);
+    }
+
+    [Fact]
+    public void Csv_QuotesSpecialCharactersAndAddsExpertsColumn()
+    {
+        var row = Row(purpose: "Order lines, \"final\"");
+        row.Experts = [Expert("alice"), Expert("bob")];
+
+        var file = ContextExportWriter.Write("csv", [row], includeExperts: true, includeHistory: false, "export");
+        var lines = Encoding.UTF8.GetString(file.Content).TrimStart('\uFEFF').Split("\r\n");
+
+        Assert.Equal("export.csv", file.FileName);
+        Assert.StartsWith("Entity type,Table,Name,Purpose,", lines[0]);
+        Assert.EndsWith(",Experts", lines[0]);
+        Assert.StartsWith("COLUMN,Orders,CustomerId,\"Order lines, \"\"final\"\"\",", lines[1]);
+        Assert.EndsWith(",\"alice, bob\"", lines[1]);
+    }
+
+    [Fact]
+    public void Csv_WithHistory_IsZippedWithHistoryFile()
+    {
+        var row = Row(purpose: "Orders");
+        row.History = [new ContextHistoryEntry { EntityType = "COLUMN", EntityId = 7, FieldName = "Purpose", NewValue = "Orders", ChangedByUsername = "alice" }];
+
+        var file = ContextExportWriter.Write("csv", [row], includeExperts: false, includeHistory: true, "export");
+
+        using var archive = new ZipArchive(new MemoryStream(file.Content));
+        Assert.Equal("export.zip", file.FileName);
+        Assert.Equal(["context.csv", "history.csv"], archive.Entries.Select(e => e.FullName).Order());
+        using var reader = new StreamReader(archive.GetEntry("history.csv")!.Open());
+        Assert.Contains("COLUMN,Orders,CustomerId,Purpose,,Orders,", reader.ReadToEnd());
+    }
+
+    [Theory]
+    [InlineData("=HYPERLINK(\"http://x\")", "\"'=HYPERLINK(\"\"http://x\"\")\"")]
+    [InlineData("+1+1", "'+1+1")]
+    [InlineData("-2", "'-2")]
+    [InlineData("@SUM(A1)", "'@SUM(A1)")]
+    [InlineData("\tcmd", "'\tcmd")]
+    [InlineData("Plain text", "Plain text")]
+    public void Csv_PrefixesFormulaCellsWithQuote(string purpose, string expected)
+    {
+        var table = ContextExportWriter.BuildContextTable([Row(purpose: purpose)], includeExperts: false);
+
+        var lines = Encoding.UTF8.GetString(ContextExportWriter.ToCsv(table)).TrimStart('\uFEFF').Split("\r\n");
+
+        Assert.StartsWith($"COLUMN,Orders,CustomerId,{expected},", lines[1]);
+    }
+
+    [Fact]
+    public void Csv_History_PrefixesFormulaCellsWithQuote()
+    {
+        var row = Row(purpose: "Orders");
+        row.History = [new ContextHistoryEntry { EntityType = "COLUMN", EntityId = 7, FieldName = "Purpose", OldValue = "@cmd", NewValue = "=1+1", ChangedByUsername = "alice" }];
+
+        var csv = Encoding.UTF8.GetString(ContextExportWriter.ToCsv(ContextExportWriter.BuildHistoryTable([row])));
+
+        Assert.Contains("COLUMN,Orders,CustomerId,Purpose,'@cmd,'=1+1,", csv);
+    }
+
+    [Fact]
+    public void Xlsx_ContainsOneWorksheetPerSheetWithInlineStrings()
+    {
+        var row = Row(purpose: "Tab\there & <there>\u0001", criticality: 4);
+
+        var file = ContextExportWriter.Write("xlsx", [row], includeExperts: false, includeHistory: true, "export");
+
+        using var archive = new ZipArchive(new MemoryStream(file.Content));
+        Assert.NotNull(archive.GetEntry("[Content_Types].xml"));
+        Assert.NotNull(archive.GetEntry("xl/worksheets/sheet2.xml"));
+        using var reader = new StreamReader(archive.GetEntry("xl/worksheets/sheet1.xml")!.Open());
+        var sheet = reader.ReadToEnd();
+        Assert.Contains("Tab\there &amp; &lt;there&gt;</t>", sheet);
+        Assert.Contains("<c r=\"F2\"><v>4</v></c>", sheet);
+    }
+
+    [Theory]
+    [InlineData(0, 0, "A1")]
+    [InlineData(25, 1, "Z2")]
+    [InlineData(26, 9, "AA10")]
+    [InlineData(701, 0, "ZZ1")]
+    public void CellReference_UsesSpreadsheetColumnLetters(int column, int row, string expected)
+    {
+        Assert.Equal(expected, ContextExportWriter.CellReference(column, row));
+    }
+
+    private static ContextExportRow Row(string? purpose = null, string? sensitivity = null, int? criticality = null, int completeness = 0)
+    {
+        return new ContextExportRow
+        {
+            Entity = new ContextGridRow
+            {
+                EntityType = "COLUMN",
+                EntityId = 7,
+                EntityName = "CustomerId",
+                ParentName = "Orders",
+                Purpose = purpose,
+                Sensitivity = sensitivity,
+                CriticalityLevel = criticality
+            },
+            CompletenessScore = completeness
+        };
+    }
+
+    private static ContextExportExpert Expert(string username)
+    {
+        return new ContextExportExpert
+        {
+            EntityType = "COLUMN",
+            EntityId = 7,
+            UserId = username.Length,
+            ExpertiseLevel = "EXPERT",
+            Username = username
+        };
+    }
+}
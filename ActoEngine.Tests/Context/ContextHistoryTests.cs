@@ -0,0 +1,81 @@
+using ActoEngine.WebApi.Features.Context;
+
+namespace ActoEngine.Tests.Context;
+
+/// <summary>
+/// Tests for the context history helpers on <see cref="ContextService"/> — field diffs and restoring recorded values.
+/// </summary>
+public class ContextHistoryTests
+{
+    [Fact]
+    public void DiffContext_ReportsOnlyChangedFields()
+    {
+        var before = Context(purpose: "Orders", sensitivity: "INTERNAL");
+        var after = Context(purpose: "Customer orders", sensitivity: "INTERNAL");
+
+        var changes = ContextService.DiffContext(before, after);
+
+        var change = Assert.Single(changes);
+        Assert.Equal(("Purpose", "Orders", "Customer orders"), change);
+    }
+
+    [Fact]
+    public void DiffContext_TracksNonTextFields()
+    {
+        var before = Context();
+        var after = Context();
+        after.CriticalityLevel = 5;
+        after.IsDeprecated = true;
+
+        var changes = ContextService.DiffContext(before, after);
+
+        Assert.Equal(["CriticalityLevel", "IsDeprecated"], changes.Select(c => c.Field));
+        Assert.Contains(("IsDeprecated", "False", "True"), changes);
+    }
+
+    [Fact]
+    public void ApplyHistoryValue_OverridesOnlyTheRestoredField()
+    {
+        var request = ContextService.ToSaveRequest(Context(purpose: "Current", sensitivity: "PII"));
+
+        ContextService.ApplyHistoryValue(request, "Purpose", "Previous");
+
+        Assert.Equal("Previous", request.Purpose);
+        Assert.Equal("PII", request.Sensitivity);
+    }
+
+    [Fact]
+    public void ApplyHistoryValue_ParsesStoredNumbersAndFlags()
+    {
+        var request = ContextService.ToSaveRequest(Context());
+
+        ContextService.ApplyHistoryValue(request, "CriticalityLevel", "4");
+        ContextService.ApplyHistoryValue(request, "IsDeprecated", "True");
+
+        Assert.Equal(4, request.CriticalityLevel);
+        Assert.True(request.IsDeprecated);
+    }
+
+    [Fact]
+    public void ApplyHistoryValue_UnknownField_Throws()
+    {
+        var request = ContextService.ToSaveRequest(Context());
+
+        Assert.Throws<ArgumentException>(() => ContextService.ApplyHistoryValue(request, "ExpertUserIds", "1"));
+        Assert.False(ContextService.IsRestorableField("ExpertUserIds"));
+    }
+
+    private static EntityContext Context(string? purpose = null, string? sensitivity = null)
+    {
+        return new EntityContext
+        {
+            ContextId = 1,
+            ProjectId = 1,
+            EntityType = "TABLE",
+            EntityId = 10,
+            EntityName = "Orders",
+            Purpose = purpose,
+            Sensitivity = sensitivity
+        };
+    }
+}
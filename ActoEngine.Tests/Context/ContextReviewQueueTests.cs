@@ -0,0 +1,121 @@
+using ActoEngine.Tests.Builders;
+using ActoEngine.WebApi.Features.Context;
+using ActoEngine.WebApi.Features.Notifications;
+using NSubstitute;
+
+namespace ActoEngine.Tests.Context;
+
+/// <summary>
+/// Tests for the stale-context review queue on <see cref="ContextService"/> — owner digests and confirmations.
+/// </summary>
+public class ContextReviewQueueTests
+{
+    private readonly IContextRepository _contextRepo = Substitute.For<IContextRepository>();
+    private readonly INotificationService _notificationService = Substitute.For<INotificationService>();
+    private readonly ContextService _service;
+
+    public ContextReviewQueueTests()
+    {
+        _service = ContextServiceBuilder.Create()
+            .WithContextRepository(_contextRepo)
+            .WithNotificationService(_notificationService)
+            .Build();
+    }
+
+    [Fact]
+    public async Task SendReviewDigestAsync_SendsOneNotificationPerOwnerOrExpert()
+    {
+        _contextRepo.GetContextReviewQueueAsync(1, 90, Arg.Any<int>(), Arg.Any<CancellationToken>())
+            .Returns([Item("TABLE", 1, "Orders"), Item("COLUMN", 2, "Email", parent: "Customers"), Item("SP", 3, "usp_Expert"), Item("SP", 4, "usp_Unowned")]);
+        _contextRepo.GetProjectExpertDetailsAsync(1, Arg.Any<IReadOnlyCollection<string>>(), Arg.Any<CancellationToken>())
+            .Returns([
+                Expert("TABLE", 1, userId: 10, "OWNER"),
+                Expert("COLUMN", 2, userId: 10, "OWNER"),
+                Expert("COLUMN", 2, userId: 20, "OWNER"),
+                Expert("SP", 3, userId: 30, "EXPERT"),
+                Expert("SP", 4, userId: 40, "FAMILIAR")
+            ]);
+
+        var result = await _service.SendReviewDigestAsync(1, 90);
+
+        Assert.Equal(4, result.StaleEntities);
+        Assert.Equal(3, result.NotifiedOwners);
+        Assert.Equal(1, result.EntitiesWithoutOwner);
+        await _notificationService.Received(1).CreateForUserAsync(
+            10, 1, ContextService.ReviewDigestNotificationType,
+            "2 entities you look after need a context review",
+            Arg.Is<string>(m => m.Contains("Orders, Customers.Email")),
+            Arg.Any<CancellationToken>());
+        await _notificationService.Received(1).CreateForUserAsync(
+            20, 1, ContextService.ReviewDigestNotificationType,
+            "1 entity you look after needs a context review",
+            Arg.Any<string>(),
+            Arg.Any<CancellationToken>());
+        await _notificationService.Received(1).CreateForUserAsync(
+            30, 1, ContextService.ReviewDigestNotificationType,
+            "1 entity you look after needs a context review",
+            Arg.Is<string>(m => m.Contains("usp_Expert")),
+            Arg.Any<CancellationToken>());
+        await _notificationService.DidNotReceive().CreateForUserAsync(
+            40, Arg.Any<int?>(), Arg.Any<string>(), Arg.Any<string>(), Arg.Any<string>(), Arg.Any<CancellationToken>());
+    }
+
+    [Fact]
+    public async Task SendReviewDigestAsync_WithEmptyQueue_NotifiesNobody()
+    {
+        _contextRepo.GetContextReviewQueueAsync(1, 90, Arg.Any<int>(), Arg.Any<CancellationToken>())
+            .Returns(new List<ContextReviewItem>());
+
+        var result = await _service.SendReviewDigestAsync(1, 90);
+
+        Assert.Equal(0, result.StaleEntities);
+        await _notificationService.DidNotReceiveWithAnyArgs().CreateForUserAsync(default, default, default!, default!, default!, default);
+    }
+
+    [Fact]
+    public void BuildReviewDigest_ListsFirstFiveAndCountsTheRest()
+    {
+        var items = Enumerable.Range(1, 7).Select(i => Item("TABLE", i, $"T{i}")).ToList();
+
+        var (title, message) = ContextService.BuildReviewDigest(items);
+
+        Assert.Equal("7 entities you look after need a context review", title);
+        Assert.EndsWith("T1, T2, T3, T4, T5 and 2 more.", message);
+    }
+
+    [Fact]
+    public void BuildReviewDigest_KeepsMessageWithinNotificationLimit()
+    {
+        var items = Enumerable.Range(1, 5).Select(i => Item("TABLE", i, new string('x', 200))).ToList();
+
+        var (_, message) = ContextService.BuildReviewDigest(items);
+
+        Assert.Equal(500, message.Length);
+        Assert.EndsWith("...", message);
+    }
+
+    [Fact]
+    public async Task ConfirmContextAccurateAsync_WithoutContext_Throws()
+    {
+        _contextRepo.MarkContextReviewedAsync(1, "TABLE", 5, 10, Arg.Any<CancellationToken>()).Returns(false);
+
+        await Assert.ThrowsAsync<KeyNotFoundException>(() => _service.ConfirmContextAccurateAsync(1, "TABLE", 5, 10));
+    }
+
+    private static ContextReviewItem Item(string type, int id, string name, string? parent = null)
+    {
+        return new ContextReviewItem { EntityType = type, EntityId = id, EntityName = name, ParentName = parent };
+    }
+
+    private static ContextExportExpert Expert(string type, int id, int userId, string level)
+    {
+        return new ContextExportExpert
+        {
+            EntityType = type,
+            EntityId = id,
+            UserId = userId,
+            ExpertiseLevel = level,
+            Username = $"user{userId}"
+        };
+    }
+}
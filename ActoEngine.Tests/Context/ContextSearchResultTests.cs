@@ -0,0 +1,89 @@
+using ActoEngine.WebApi.Features.Context;
+
+namespace ActoEngine.Tests.Context;
+
+/// <summary>
+/// Tests for <see cref="ContextService.BuildSearchResult"/> and <see cref="ContextService.BuildSnippet"/> — scoring and highlights.
+/// </summary>
+public class ContextSearchResultTests
+{
+    [Theory]
+    [InlineData("Orders", 100)]
+    [InlineData("ord", 80)]
+    [InlineData("der", 60)]
+    public void NameMatch_ScoresExactOverPrefixOverContains(string term, int expected)
+    {
+        var result = ContextService.BuildSearchResult(1, Row("Orders"), term);
+
+        Assert.Equal(expected, result.MatchScore);
+        Assert.Empty(result.Highlights);
+    }
+
+    [Fact]
+    public void ContextMatch_AddsLabelledHighlight()
+    {
+        var row = Row("Customers", purpose: "Master list of customers who placed an order", domain: "Sales");
+
+        var result = ContextService.BuildSearchResult(1, row, "placed");
+
+        Assert.Equal(40, result.MatchScore);
+        Assert.Equal(["Purpose: Master list of customers who placed an order"], result.Highlights);
+        Assert.NotNull(result.Context);
+        Assert.Equal("Sales", result.Context.BusinessDomain);
+    }
+
+    [Fact]
+    public void SeveralMatchingFields_AddBonusCappedAt100()
+    {
+        var row = Row("Payroll", purpose: "Payroll runs", domain: "Payroll", impact: "Payroll is late");
+
+        var result = ContextService.BuildSearchResult(1, row, "payroll");
+
+        Assert.Equal(100, result.MatchScore);
+        Assert.Equal(3, result.Highlights.Count);
+    }
+
+    [Fact]
+    public void Undocumented_HasNoContext()
+    {
+        var result = ContextService.BuildSearchResult(1, Row("Orders"), "ord");
+
+        Assert.Null(result.Context);
+    }
+
+    [Fact]
+    public void Snippet_TrimsLongTextAroundMatch()
+    {
+        var text = new string('a', 100) + " invoice " + new string('b', 100);
+
+        var snippet = ContextService.BuildSnippet(text, "INVOICE");
+
+        Assert.NotNull(snippet);
+        Assert.StartsWith("…", snippet);
+        Assert.EndsWith("…", snippet);
+        Assert.Contains("invoice", snippet);
+    }
+
+    [Fact]
+    public void Snippet_CollapsesWhitespaceAndReturnsNullWithoutMatch()
+    {
+        Assert.Equal("tracks refunds", ContextService.BuildSnippet("tracks\n   refunds", "refunds"));
+        Assert.Null(ContextService.BuildSnippet("tracks refunds", "invoice"));
+        Assert.Null(ContextService.BuildSnippet(null, "invoice"));
+    }
+
+    private static ContextSearchRow Row(string name, string? purpose = null, string? domain = null, string? impact = null)
+    {
+        var documented = purpose != null || domain != null || impact != null;
+        return new ContextSearchRow
+        {
+            EntityType = "TABLE",
+            EntityId = 10,
+            EntityName = name,
+            ContextId = documented ? 5 : null,
+            Purpose = purpose,
+            BusinessDomain = domain,
+            BusinessImpact = impact
+        };
+    }
+}
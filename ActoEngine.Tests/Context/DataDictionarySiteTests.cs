@@ -0,0 +1,141 @@
+using System.IO.Compression;
+using ActoEngine.WebApi.Features.Context;
+using ActoEngine.WebApi.Features.ErDiagram;
+
+namespace ActoEngine.Tests.Context;
+
+/// <summary>
+/// Tests for the static data dictionary site generated by <see cref="DataDictionarySiteWriter"/>.
+/// </summary>
+public class DataDictionarySiteTests
+{
+    [Fact]
+    public void Write_CreatesIndexAssetsAndOnePagePerTableAndProcedure()
+    {
+        var file = DataDictionarySiteWriter.Write(Content(), "dictionary");
+
+        var entries = ReadEntries(file);
+        Assert.Equal("dictionary.zip", file.FileName);
+        Assert.Equal("application/zip", file.ContentType);
+        Assert.Equal(
+            ["assets/search-index.js", "assets/search.js", "assets/style.css", "index.html", "procedures/30.html", "tables/1.html", "tables/2.html"],
+            entries.Keys.Order());
+    }
+
+    [Fact]
+    public void TablePage_ListsColumnsRelationshipsAndProcedures()
+    {
+        var page = ReadEntries(DataDictionarySiteWriter.Write(Content(), "dictionary"))["tables/1.html"];
+
+        Assert.Contains("<tr id=\"column-11\">", page);
+        Assert.Contains("<span class=\"badge sensitivity-pii\">PII</span>", page);
+        Assert.Contains("<p class=\"notice\">Contains <span class=\"badge sensitivity-pii\">PII</span> columns</p>", page);
+        Assert.Contains("<a href=\"../tables/2.html#column-21\">Customers.CustomerId</a>", page);
+        Assert.Contains("Logical · confirmed", page);
+        Assert.Contains("<a href=\"../procedures/30.html\">usp_GetOrders</a> <span class=\"muted\">SELECT</span>", page);
+        Assert.Contains("Alice Smith <span class=\"badge\">OWNER</span>", page);
+    }
+
+    [Fact]
+    public void Pages_HtmlEncodeContext()
+    {
+        var page = ReadEntries(DataDictionarySiteWriter.Write(Content(), "dictionary"))["procedures/30.html"];
+
+        Assert.Contains("Returns &lt;open&gt; orders &amp; totals", page);
+        Assert.DoesNotContain("<open>", page);
+        Assert.Contains("<a href=\"../tables/1.html\">Orders</a>", page);
+    }
+
+    [Fact]
+    public void Index_GroupsByBusinessDomainWithUnassignedLast()
+    {
+        var index = ReadEntries(DataDictionarySiteWriter.Write(Content(), "dictionary"))["index.html"];
+
+        var orders = index.IndexOf("id=\"domain-orders\"", StringComparison.Ordinal);
+        var unassigned = index.IndexOf("id=\"domain-unassigned\"", StringComparison.Ordinal);
+        Assert.True(orders >= 0 && unassigned > orders);
+        Assert.Contains("<body data-root=\"\">", index);
+    }
+
+    [Fact]
+    public void SearchIndex_LinksColumnsToTheirTableAnchor()
+    {
+        var script = ReadEntries(DataDictionarySiteWriter.Write(Content(), "dictionary"))["assets/search-index.js"];
+
+        Assert.StartsWith("window.DATA_DICTIONARY_INDEX = [", script);
+        Assert.Contains("\"name\":\"Orders.Email\",\"url\":\"tables/1.html#column-11\"", script);
+    }
+
+    private static Dictionary<string, string> ReadEntries(ContextExportFile file)
+    {
+        using var archive = new ZipArchive(new MemoryStream(file.Content));
+        return archive.Entries.ToDictionary(e => e.FullName, e =>
+        {
+            using var reader = new StreamReader(e.Open());
+            return reader.ReadToEnd();
+        });
+    }
+
+    private static DataDictionaryContent Content()
+    {
+        var orders = Row("TABLE", 1, "Orders", purpose: "Customer orders", domain: "ORDERS");
+        orders.Experts = [new ContextExportExpert { EntityType = "TABLE", EntityId = 1, UserId = 5, ExpertiseLevel = "OWNER", Username = "alice", FullName = "Alice Smith" }];
+
+        return new DataDictionaryContent
+        {
+            ProjectName = "Shop",
+            GeneratedAt = new DateTime(2024, 1, 2, 3, 4, 0, DateTimeKind.Utc),
+            Entities =
+            [
+                orders,
+                Row("TABLE", 2, "Customers"),
+                Row("COLUMN", 10, "CustomerId", parent: "Orders"),
+                Row("COLUMN", 11, "Email", parent: "Orders", sensitivity: "PII"),
+                Row("COLUMN", 21, "CustomerId", parent: "Customers"),
+                Row("SP", 30, "usp_GetOrders", purpose: "Returns <open> orders & totals", domain: "ORDERS")
+            ],
+            Columns =
+            [
+                new ColumnInfo { TableId = 1, ColumnId = 10, ColumnName = "CustomerId", DataType = "int" },
+                new ColumnInfo { TableId = 1, ColumnId = 11, ColumnName = "Email", DataType = "nvarchar(200)", IsNullable = true },
+                new ColumnInfo { TableId = 2, ColumnId = 21, ColumnName = "CustomerId", DataType = "int", IsPrimaryKey = true }
+            ],
+            Relationships =
+            [
+                new DataDictionaryRelationship
+                {
+                    SourceTableId = 1,
+                    SourceColumnId = 10,
+                    SourceColumnName = "CustomerId",
+                    TargetTableId = 2,
+                    TargetColumnId = 21,
+                    TargetColumnName = "CustomerId",
+                    IsLogical = true,
+                    Status = "CONFIRMED"
+                }
+            ],
+            Dependencies =
+            [
+                new DataDictionaryDependency { SourceType = "SP", SourceId = 30, TargetType = "TABLE", TargetId = 1, DependencyType = "SELECT" },
+                new DataDictionaryDependency { SourceType = "SP", SourceId = 30, TargetType = "COLUMN", TargetId = 11, DependencyType = "SELECT" }
+            ]
+        };
+    }
+
+    private static ContextExportRow Row(string type, int id, string name, string? parent = null, string? purpose = null, string? domain = null, string? sensitivity = null)
+    {
+        return new ContextExportRow
+        {
+            Entity = new ContextGridRow
+            {
+                EntityType = type,
+                EntityId = id,
+                EntityName = name,
+                ParentName = parent,
+                Purpose = purpose,
+                BusinessDomain = domain,
+                Sensitivity = sensitivity
+            }
+        };
+    }
+}
@@ -0,0 +1,217 @@
+using ActoEngine.Tests.Builders;
+using ActoEngine.WebApi.Features.Context;
+using ActoEngine.WebApi.Features.ImpactAnalysis;
+using ActoEngine.WebApi.Features.ImpactAnalysis.Domain;
+using NSubstitute;
+
+namespace ActoEngine.Tests.Context;
+
+/// <summary>
+/// Tests for the deprecation board on <see cref="ContextService"/> — remaining references, overdue warnings and lifecycle updates.
+/// </summary>
+public class DeprecationBoardTests
+{
+    private static readonly DateTime Today = new(2026, 6, 15);
+
+    private readonly IContextRepository _contextRepo = Substitute.For<IContextRepository>();
+    private readonly IDependencyRepository _dependencyRepo = Substitute.For<IDependencyRepository>();
+    private readonly ContextService _service;
+
+    public DeprecationBoardTests()
+    {
+        _service = ContextServiceBuilder.Create()
+            .WithContextRepository(_contextRepo)
+            .WithDependencyRepository(_dependencyRepo)
+            .Build();
+    }
+
+    [Fact]
+    public void BuildDeprecationBoard_MatchesPageMappingsByQualifiedName()
+    {
+        var board = ContextService.BuildDeprecationBoard(
+            [Entity("SP", 1, "usp_GetOrders", schema: "sales")],
+            [],
+            [
+                Mapping(1, "[sales].[usp_GetOrders]"),
+                Mapping(2, "sales.usp_getorders"),
+                Mapping(3, "usp_GetOrders"),      // dbo.usp_GetOrders, a different procedure
+                Mapping(4, "sales.usp_GetOrdersV2")
+            ],
+            Today);
+
+        Assert.Equal([1, 2], Assert.Single(board.Items).PageMappings.Select(m => m.MappingId));
+    }
+
+    [Fact]
+    public void BuildDeprecationBoard_GroupsDependencyTypesPerDependent()
+    {
+        var board = ContextService.BuildDeprecationBoard(
+            [Entity("TABLE", 5, "OrdersOld")],
+            [
+                Dependent("TABLE", 5, "SP", 10, "usp_Archive", "SELECT"),
+                Dependent("TABLE", 5, "SP", 10, "usp_Archive", "DELETE"),
+                Dependent("TABLE", 5, "SP", 11, "usp_Report", "SELECT"),
+                Dependent("TABLE", 6, "SP", 12, "usp_Other", "SELECT")
+            ],
+            [],
+            Today);
+
+        var item = Assert.Single(board.Items);
+        Assert.Equal(["usp_Archive", "usp_Report"], item.Dependents.Select(d => d.EntityName));
+        Assert.Equal(["SELECT", "DELETE"], item.Dependents[0].DependencyTypes);
+    }
+
+    [Fact]
+    public void BuildDeprecationBoard_WarnsWhenOverdueAndStillReferenced()
+    {
+        var board = ContextService.BuildDeprecationBoard(
+            [
+                Entity("SP", 1, "usp_Overdue", targetDate: Today.AddDays(-1)),
+                Entity("SP", 2, "usp_OverdueUnused", targetDate: Today.AddDays(-1)),
+                Entity("SP", 3, "usp_OnTrack", targetDate: Today),
+                Entity("SP", 4, "usp_Dropped", status: DeprecationStatuses.Dropped)
+            ],
+            [
+                Dependent("SP", 1, "SP", 10, "usp_Caller", "EXEC"),
+                Dependent("SP", 3, "SP", 10, "usp_Caller", "EXEC"),
+                Dependent("SP", 4, "SP", 11, "usp_AlsoDeprecated", "EXEC", sourceDeprecated: true)
+            ],
+            [Mapping(1, "dbo.usp_Overdue"), Mapping(2, "dbo.usp_Dropped")],
+            Today);
+
+        var byName = board.Items.ToDictionary(i => i.EntityName);
+        Assert.Equal("Past its removal date (2026-06-14) and still referenced by 1 dependent and 1 page mapping", byName["usp_Overdue"].Warning);
+        Assert.True(byName["usp_OverdueUnused"].IsOverdue);
+        Assert.Null(byName["usp_OverdueUnused"].Warning);
+        Assert.False(byName["usp_OnTrack"].IsOverdue);
+        Assert.Equal("Marked dropped but still referenced by 1 page mapping", byName["usp_Dropped"].Warning);
+        Assert.Equal(2, board.WarningCount);
+        Assert.Equal(3, board.StatusCounts[DeprecationStatuses.Announced]);
+    }
+
+    [Fact]
+    public async Task GetDeprecationBoardAsync_IncludesTransitiveDependents()
+    {
+        _contextRepo.GetDeprecatedEntitiesAsync(1, Arg.Any<CancellationToken>())
+            .Returns([Entity("TABLE", 5, "OrdersOld"), Entity("SP", 11, "usp_OldReport")]);
+        _dependencyRepo.GetDownstreamDependentsAsync(1, "TABLE", 5, Arg.Any<CancellationToken>())
+            .Returns([
+                Downstream("TABLE", 5, "SP", 10, "usp_Archive", depth: 1),
+                Downstream("SP", 10, "SP", 20, "usp_NightlyJob", depth: 2),
+                Downstream("TABLE", 5, "SP", 11, "usp_OldReport", depth: 1)
+            ]);
+        _dependencyRepo.GetDownstreamDependentsAsync(1, "SP", 11, Arg.Any<CancellationToken>()).Returns([]);
+        _contextRepo.GetActivePageMappingsAsync(1, Arg.Any<CancellationToken>()).Returns([]);
+
+        var board = await _service.GetDeprecationBoardAsync(1);
+
+        var dependents = board.Items.Single(i => i.EntityName == "OrdersOld").Dependents;
+        Assert.Equal(["usp_Archive", "usp_NightlyJob", "usp_OldReport"], dependents.Select(d => d.EntityName));
+        Assert.Equal([1, 2, 1], dependents.Select(d => d.Depth));
+        Assert.True(dependents[2].IsDeprecated);
+        Assert.Empty(board.Items.Single(i => i.EntityName == "usp_OldReport").Dependents);
+    }
+
+    [Fact]
+    public async Task UpdateDeprecationLifecycleAsync_RecordsChangedFields()
+    {
+        _contextRepo.GetDeprecatedEntityAsync(1, "SP", 7, Arg.Any<CancellationToken>())
+            .Returns(Entity("SP", 7, "usp_Legacy", targetDate: new DateTime(2026, 9, 1)));
+        _contextRepo.GetDeprecatedEntitiesAsync(1, Arg.Any<CancellationToken>())
+            .Returns([Entity("SP", 7, "usp_Legacy", status: DeprecationStatuses.Migrating, targetDate: new DateTime(2026, 9, 1))]);
+        _contextRepo.GetActivePageMappingsAsync(1, Arg.Any<CancellationToken>()).Returns([]);
+
+        var item = await _service.UpdateDeprecationLifecycleAsync(
+            1, "SP", 7, new UpdateDeprecationRequest { Status = "migrating", TargetRemovalDate = new DateTime(2026, 9, 1) }, 5);
+
+        Assert.Equal(DeprecationStatuses.Migrating, item.Status);
+        await _contextRepo.Received(1).UpdateDeprecationLifecycleAsync(
+            1, "SP", 7, DeprecationStatuses.Migrating, new DateTime(2026, 9, 1), Arg.Any<CancellationToken>());
+        await _contextRepo.Received(1).RecordContextChangeAsync(
+            1, "SP", 7, "DeprecationStatus", DeprecationStatuses.Announced, DeprecationStatuses.Migrating, 5, null, Arg.Any<CancellationToken>());
+        await _contextRepo.DidNotReceive().RecordContextChangeAsync(
+            Arg.Any<int>(), Arg.Any<string>(), Arg.Any<int>(), Arg.Is("TargetRemovalDate"),
+            Arg.Any<string?>(), Arg.Any<string?>(), Arg.Any<int>(), Arg.Any<string?>(), Arg.Any<CancellationToken>());
+    }
+
+    [Fact]
+    public async Task UpdateDeprecationLifecycleAsync_RejectsUnknownStatusAndNonDeprecatedEntities()
+    {
+        await Assert.ThrowsAsync<ArgumentException>(() => _service.UpdateDeprecationLifecycleAsync(
+            1, "SP", 7, new UpdateDeprecationRequest { Status = "RETIRED" }, 5));
+        await Assert.ThrowsAsync<KeyNotFoundException>(() => _service.UpdateDeprecationLifecycleAsync(
+            1, "SP", 7, new UpdateDeprecationRequest { Status = "DROPPED" }, 5));
+    }
+
+    private static DeprecatedEntityRow Entity(
+        string type,
+        int id,
+        string name,
+        string schema = "dbo",
+        string status = DeprecationStatuses.Announced,
+        DateTime? targetDate = null)
+    {
+        return new DeprecatedEntityRow
+        {
+            EntityType = type,
+            EntityId = id,
+            EntityName = name,
+            SchemaName = schema,
+            DeprecationStatus = status,
+            TargetRemovalDate = targetDate
+        };
+    }
+
+    private static DeprecationDependentRow Dependent(
+        string targetType,
+        int targetId,
+        string sourceType,
+        int sourceId,
+        string sourceName,
+        string dependencyType,
+        bool sourceDeprecated = false)
+    {
+        return new DeprecationDependentRow
+        {
+            TargetType = targetType,
+            TargetId = targetId,
+            SourceType = sourceType,
+            SourceId = sourceId,
+            SourceName = sourceName,
+            DependencyType = dependencyType,
+            SourceIsDeprecated = sourceDeprecated
+        };
+    }
+
+    private static DependencyGraphRow Downstream(
+        string targetType,
+        int targetId,
+        string sourceType,
+        int sourceId,
+        string sourceName,
+        int depth)
+    {
+        return new DependencyGraphRow
+        {
+            TargetEntityType = targetType,
+            TargetEntityId = targetId,
+            SourceEntityType = sourceType,
+            SourceEntityId = sourceId,
+            SourceEntityName = sourceName,
+            DependencyType = "SELECT",
+            Depth = depth
+        };
+    }
+
+    private static DeprecationPageMapping Mapping(int id, string storedProcedure)
+    {
+        return new DeprecationPageMapping
+        {
+            MappingId = id,
+            DomainName = "Sales",
+            PageName = $"Page{id}",
+            StoredProcedure = storedProcedure,
+            Status = "approved"
+        };
+    }
+}
@@ -0,0 +1,140 @@
+using ActoEngine.Tests.Builders;
+using ActoEngine.WebApi.Features.Context;
+using ActoEngine.WebApi.Features.Context.Dtos;
+using ActoEngine.WebApi.Features.Schema;
+using NSubstitute;
+
+namespace ActoEngine.Tests.Context;
+
+/// <summary>
+/// Tests for <see cref="SensitivityClassifier"/> rule packs and the project-wide scan on <see cref="ContextService"/>.
+/// </summary>
+public class SensitivityClassifierTests
+{
+    private readonly IContextRepository _contextRepo = Substitute.For<IContextRepository>();
+    private readonly ISchemaRepository _schemaRepo = Substitute.For<ISchemaRepository>();
+    private readonly ContextService _service;
+
+    public SensitivityClassifierTests()
+    {
+        _service = ContextServiceBuilder.Create()
+            .WithContextRepository(_contextRepo)
+            .WithSchemaRepository(_schemaRepo)
+            .Build();
+    }
+
+    [Theory]
+    [InlineData("CustomerEmail", "nvarchar(200)", "PII", "Email addresses")]
+    [InlineData("contact_phone", "varchar(20)", "PII", "Phone numbers")]
+    [InlineData("EmployeeSSN", "char(9)", "PII", "National IDs")]
+    [InlineData("passportno", "varchar(20)", "PII", "National IDs")]
+    [InlineData("CreditCardNumber", "varchar(19)", "FINANCIAL", "Card numbers")]
+    [InlineData("AnnualSalary", "decimal(18,2)", "FINANCIAL", "Salary")]
+    public void Classify_MatchesBuiltInPacks(string columnName, string dataType, string sensitivity, string rulePack)
+    {
+        var proposal = Assert.Single(SensitivityClassifier.Classify([Column(1, columnName, dataType)], SensitivityClassifier.DefaultRulePacks));
+
+        Assert.Equal(sensitivity, proposal.ProposedSensitivity);
+        Assert.Equal(rulePack, proposal.RulePack);
+        Assert.NotEmpty(proposal.Reasons);
+    }
+
+    [Theory]
+    [InlineData("ShippingMethod", "varchar(20)")]   // "pin" inside a word is not a keyword hit
+    [InlineData("SalaryGrade", "varchar(10)")]      // Salary pack only applies to numeric columns
+    [InlineData("OrderTotal", "decimal(18,2)")]
+    public void Classify_IgnoresNonMatches(string columnName, string dataType)
+    {
+        Assert.Empty(SensitivityClassifier.Classify([Column(1, columnName, dataType)], SensitivityClassifier.DefaultRulePacks));
+    }
+
+    [Fact]
+    public void Classify_ExplainsTheMatch()
+    {
+        var proposal = Assert.Single(SensitivityClassifier.Classify([Column(1, "BaseSalary", "money")], SensitivityClassifier.DefaultRulePacks));
+
+        Assert.Equal("Salary: name contains \"salary\" on a money column", Assert.Single(proposal.Reasons));
+    }
+
+    [Fact]
+    public void SplitWords_HandlesCamelCaseAcronymsAndSeparators()
+    {
+        Assert.Equal(["customer", "ssn", "hash"], SensitivityClassifier.SplitWords("CustomerSSNHash"));
+        Assert.Equal(["e", "mail", "address"], SensitivityClassifier.SplitWords("e_mail_Address"));
+    }
+
+    [Fact]
+    public void ResolveRulePacks_ReplacesAddsAndDisablesPacks()
+    {
+        var settings = new SensitivityClassifierSettings
+        {
+            RulePacks =
+            [
+                new SensitivityRulePack { Name = "salary", Sensitivity = "SENSITIVE", Keywords = ["salary"] },
+                new SensitivityRulePack { Name = "Health", Sensitivity = "SENSITIVE", Keywords = ["diagnosis"] }
+            ],
+            DisabledRulePacks = ["Phone numbers"]
+        };
+
+        var packs = SensitivityClassifier.ResolveRulePacks(settings);
+
+        Assert.DoesNotContain(packs, p => p.Name == "Phone numbers");
+        Assert.Equal("SENSITIVE", Assert.Single(packs, p => p.Name.Equals("salary", StringComparison.OrdinalIgnoreCase)).Sensitivity);
+        Assert.Equal("Health", packs[^1].Name);
+    }
+
+    [Fact]
+    public void ResolveRulePacks_WithUnknownLevel_Throws()
+    {
+        var settings = new SensitivityClassifierSettings
+        {
+            RulePacks = [new SensitivityRulePack { Name = "Bad", Sensitivity = "SECRET", Keywords = ["x"] }]
+        };
+
+        Assert.Throws<ArgumentException>(() => SensitivityClassifier.ResolveRulePacks(settings));
+    }
+
+    [Fact]
+    public async Task ScanSensitivityAsync_SkipsAlreadyTaggedAndRejectedColumns()
+    {
+        _contextRepo.GetSensitivityScanColumnsAsync(1, Arg.Any<CancellationToken>()).Returns(
+        [
+            Column(1, "Email", "nvarchar(200)"),
+            Column(2, "WorkEmail", "nvarchar(200)", current: "PII"),
+            Column(3, "HomePhone", "varchar(20)"),
+            Column(4, "OrderTotal", "decimal(18,2)")
+        ]);
+        _contextRepo.GetSensitivityRejectionsAsync(1, Arg.Any<CancellationToken>())
+            .Returns([new SensitivityDecision { ColumnId = 3, Sensitivity = "pii" }]);
+
+        var result = await _service.ScanSensitivityAsync(1, SensitivityClassifier.DefaultRulePacks);
+
+        Assert.Equal(4, result.ScannedColumns);
+        Assert.Equal(1, result.RejectedProposals);
+        Assert.Equal(1, Assert.Single(result.Proposals).ColumnId);
+    }
+
+    [Fact]
+    public async Task AcceptSensitivityProposalsAsync_KeepsOtherContextFields()
+    {
+        var existing = new EntityContext { EntityType = "COLUMN", EntityId = 7, EntityName = "Email", Purpose = "Login address" };
+        _schemaRepo.GetColumnByIdAsync(7).Returns(new ColumnMetadataDto { ColumnId = 7, ColumnName = "Email", DataType = "nvarchar" });
+        _contextRepo.GetContextAsync(1, "COLUMN", 7, Arg.Any<CancellationToken>()).Returns(existing);
+        _contextRepo.UpsertContextAsync(1, "COLUMN", 7, Arg.Any<string>(), Arg.Any<SaveContextRequest>(), 5, Arg.Any<CancellationToken>())
+            .Returns(new EntityContext { EntityType = "COLUMN", EntityId = 7, EntityName = "Email", Purpose = "Login address", Sensitivity = "PII" });
+
+        var results = await _service.AcceptSensitivityProposalsAsync(1, [new SensitivityDecision { ColumnId = 7, Sensitivity = "pii" }], 5);
+
+        Assert.True(Assert.Single(results).Success);
+        await _contextRepo.Received(1).UpsertContextAsync(
+            1, "COLUMN", 7, "Email",
+            Arg.Is<SaveContextRequest>(r => r.Sensitivity == "PII" && r.Purpose == "Login address"),
+            5,
+            Arg.Any<CancellationToken>());
+    }
+
+    private static SensitivityScanColumn Column(int id, string name, string dataType, string? current = null)
+    {
+        return new SensitivityScanColumn { ColumnId = id, ColumnName = name, TableName = "People", DataType = dataType, CurrentSensitivity = current };
+    }
+}
@@ -0,0 +1,86 @@
+using ActoEngine.WebApi.Features.ErDiagram;
+
+namespace ActoEngine.Tests.ErDiagram;
+
+/// <summary>
+/// Tests for <see cref="ErDiagramViewService.NormalizeLayout"/> — the layout
+/// rules applied before a saved view is written.
+/// </summary>
+public class ErDiagramViewLayoutTests
+{
+    private static ErDiagramViewLayout Layout(params int[] focusTableIds) => new()
+    {
+        FocusTableIds = [.. focusTableIds],
+        Hops = 2,
+        Direction = "LR"
+    };
+
+    [Fact]
+    public void NoFocusTables_Throws()
+    {
+        Assert.Throws<ArgumentException>(() => ErDiagramViewService.NormalizeLayout(Layout()));
+    }
+
+    [Fact]
+    public void UnknownDirection_Throws()
+    {
+        var layout = Layout(1);
+        layout.Direction = "RL";
+
+        Assert.Throws<ArgumentException>(() => ErDiagramViewService.NormalizeLayout(layout));
+    }
+
+    [Fact]
+    public void Direction_IsUppercased()
+    {
+        var layout = Layout(1);
+        layout.Direction = "tb";
+
+        Assert.Equal("TB", ErDiagramViewService.NormalizeLayout(layout).Direction);
+    }
+
+    [Theory]
+    [InlineData(0, 1)]
+    [InlineData(2, 2)]
+    [InlineData(9, 3)]
+    public void Hops_AreClampedToNeighborhoodRange(int requested, int expected)
+    {
+        var layout = Layout(1);
+        layout.Hops = requested;
+
+        Assert.Equal(expected, ErDiagramViewService.NormalizeLayout(layout).Hops);
+    }
+
+    [Fact]
+    public void FocusTables_AreDeduplicated()
+    {
+        var result = ErDiagramViewService.NormalizeLayout(Layout(4, 4, 7));
+
+        Assert.Equal([4, 7], result.FocusTableIds);
+    }
+
+    [Fact]
+    public void HiddenTables_ExcludeFocusTablesAndDuplicates()
+    {
+        var layout = Layout(1);
+        layout.HiddenTableIds = [1, 5, 5, 6];
+
+        Assert.Equal([5, 6], ErDiagramViewService.NormalizeLayout(layout).HiddenTableIds);
+    }
+
+    [Fact]
+    public void NonFinitePositions_AreDropped()
+    {
+        var layout = Layout(1);
+        layout.Positions = new Dictionary<int, ErNodePosition>
+        {
+            [1] = new() { X = 10, Y = 20 },
+            [2] = new() { X = double.NaN, Y = 0 }
+        };
+
+        var result = ErDiagramViewService.NormalizeLayout(layout);
+
+        Assert.Single(result.Positions);
+        Assert.Equal(10, result.Positions[1].X);
+    }
+}
@@ -0,0 +1,100 @@
+using ActoEngine.WebApi.Features.ErDiagram;
+
+namespace ActoEngine.Tests.ErDiagram;
+
+/// <summary>
+/// Tests for <see cref="ErJoinPathFinder"/> — shortest join chains over FK edges.
+/// </summary>
+public class ErJoinPathFinderTests
+{
+    // Orders(1).CustomerId -> Customers(2).Id, OrderLines(3).OrderId -> Orders(1).Id, Customers(2).RegionId -> Regions(4).Id
+    private static readonly List<ErEdge> Schema =
+    [
+        Edge("fk-orders-customers", 1, 11, "CustomerId", 2, 21, "Id"),
+        Edge("fk-lines-orders", 3, 31, "OrderId", 1, 10, "Id"),
+        Edge("fk-customers-regions", 2, 22, "RegionId", 4, 41, "Id")
+    ];
+
+    [Fact]
+    public void SameTable_ReturnsEmptyPath()
+    {
+        var path = ErJoinPathFinder.FindShortestPath(Schema, 1, 1, maxHops: 3);
+
+        Assert.NotNull(path);
+        Assert.Empty(path);
+    }
+
+    [Fact]
+    public void DirectFk_ReturnsSingleHopInFkDirection()
+    {
+        var path = ErJoinPathFinder.FindShortestPath(Schema, 1, 2, maxHops: 3);
+
+        var hop = Assert.Single(path!);
+        Assert.Equal("fk-orders-customers", hop.EdgeId);
+        Assert.Equal("CustomerId", hop.FromColumnName);
+        Assert.Equal("Id", hop.ToColumnName);
+    }
+
+    [Fact]
+    public void WalkingAgainstFk_SwapsJoinColumns()
+    {
+        var path = ErJoinPathFinder.FindShortestPath(Schema, 2, 1, maxHops: 3);
+
+        var hop = Assert.Single(path!);
+        Assert.Equal(2, hop.FromTableId);
+        Assert.Equal("Id", hop.FromColumnName);
+        Assert.Equal(1, hop.ToTableId);
+        Assert.Equal("CustomerId", hop.ToColumnName);
+    }
+
+    [Fact]
+    public void MultiHop_ReturnsOrderedChain()
+    {
+        var path = ErJoinPathFinder.FindShortestPath(Schema, 3, 4, maxHops: 5);
+
+        Assert.NotNull(path);
+        Assert.Equal(["fk-lines-orders", "fk-orders-customers", "fk-customers-regions"], path.Select(h => h.EdgeId));
+        Assert.Equal([1, 2, 4], path.Select(h => h.ToTableId));
+    }
+
+    [Fact]
+    public void PathLongerThanMaxHops_ReturnsNull()
+    {
+        Assert.Null(ErJoinPathFinder.FindShortestPath(Schema, 3, 4, maxHops: 2));
+    }
+
+    [Fact]
+    public void DisconnectedTables_ReturnNull()
+    {
+        Assert.Null(ErJoinPathFinder.FindShortestPath(Schema, 1, 99, maxHops: 5));
+    }
+
+    [Fact]
+    public void ShortcutEdge_IsPreferredOverLongerChain()
+    {
+        var edges = new List<ErEdge>(Schema)
+        {
+            Edge("logical-7", 3, 32, "RegionId", 4, 41, "Id", "LOGICAL")
+        };
+
+        var path = ErJoinPathFinder.FindShortestPath(edges, 3, 4, maxHops: 5);
+
+        var hop = Assert.Single(path!);
+        Assert.Equal("logical-7", hop.EdgeId);
+        Assert.Equal("LOGICAL", hop.RelationshipType);
+    }
+
+    private static ErEdge Edge(
+        string id, int sourceTableId, int sourceColumnId, string sourceColumn,
+        int targetTableId, int targetColumnId, string targetColumn, string relationshipType = "PHYSICAL") => new()
+        {
+            Id = id,
+            SourceTableId = sourceTableId,
+            SourceColumnId = sourceColumnId,
+            SourceColumnName = sourceColumn,
+            TargetTableId = targetTableId,
+            TargetColumnId = targetColumnId,
+            TargetColumnName = targetColumn,
+            RelationshipType = relationshipType
+        };
+}
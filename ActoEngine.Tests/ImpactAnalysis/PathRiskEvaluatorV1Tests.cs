@@ -53,6 +53,24 @@ public class PathRiskEvaluatorV1Tests
         Assert.Equal(2, scored.RiskScore);
     }
 
+    [Fact]
+    public void Evaluate_ScoresRenameLikeDelete()
+    {
+        var path = CreatePath(
+            pathId: "p4",
+            maxDependencyType: DependencyType.Select,
+            maxCriticality: 2,
+            depth: 1);
+
+        var renamed = _evaluator.Evaluate(path, ChangeType.Rename);
+        var deleted = _evaluator.Evaluate(path, ChangeType.Delete);
+
+        // Name-bound consumers break on rename exactly as they do on drop: 4 * 3 * 2 * 1.0 = 24.
+        Assert.Equal(24, renamed.RiskScore);
+        Assert.Equal(deleted.RiskScore, renamed.RiskScore);
+        Assert.Equal(ImpactLevel.Medium, renamed.ImpactLevel);
+    }
+
     [Fact]
     public void Evaluate_ThrowsWhenPathIsNull()
     {
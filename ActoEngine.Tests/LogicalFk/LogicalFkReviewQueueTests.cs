@@ -0,0 +1,122 @@
+using ActoEngine.WebApi.Features.LogicalFk;
+
+namespace ActoEngine.Tests.LogicalFk;
+
+/// <summary>
+/// Tests for <see cref="LogicalFkService.BuildReviewQueue"/> — ordering, evidence and ambiguity flags.
+/// </summary>
+public class LogicalFkReviewQueueTests
+{
+    [Fact]
+    public void OrdersByConfidenceDescending()
+    {
+        List<LogicalFkDto> suggested =
+        [
+            Fk(1, 10, 100, 20, 200, 0.55m),
+            Fk(2, 11, 110, 21, 210, 0.90m),
+            Fk(3, 12, 120, 22, 220, 0.70m)
+        ];
+
+        var queue = LogicalFkService.BuildReviewQueue(suggested, []);
+
+        Assert.Equal([2, 3, 1], queue.Select(i => i.LogicalFkId));
+    }
+
+    [Fact]
+    public void AttachesEvidenceFromMatchingCandidate()
+    {
+        List<LogicalFkDto> suggested = [Fk(1, 10, 100, 20, 200, 0.95m, "CORROBORATED")];
+        List<LogicalFkCandidate> candidates = [Candidate(10, 100, 20, 200, "Naming and SP JOIN agree", "NAME_CONVENTION", "SP_JOIN")];
+
+        var item = Assert.Single(LogicalFkService.BuildReviewQueue(suggested, candidates));
+
+        Assert.Equal("Naming and SP JOIN agree", item.Reason);
+        Assert.Equal(["NAME_CONVENTION", "SP_JOIN"], item.DiscoveryMethods);
+    }
+
+    [Fact]
+    public void WithoutCandidate_FallsBackToStoredDiscoveryMethod()
+    {
+        List<LogicalFkDto> suggested = [Fk(1, 10, 100, 20, 200, 0.70m, "NAME_CONVENTION")];
+
+        var item = Assert.Single(LogicalFkService.BuildReviewQueue(suggested, []));
+
+        Assert.Null(item.Reason);
+        Assert.Equal(["NAME_CONVENTION"], item.DiscoveryMethods);
+    }
+
+    [Fact]
+    public void SameSourceColumn_TwoTargetColumnsInSameTable_IsAmbiguous()
+    {
+        List<LogicalFkDto> suggested =
+        [
+            Fk(1, 10, 100, 20, 200, 0.70m),
+            Fk(2, 10, 100, 20, 201, 0.70m),
+            Fk(3, 10, 101, 20, 200, 0.70m)
+        ];
+
+        var queue = LogicalFkService.BuildReviewQueue(suggested, []);
+
+        Assert.True(queue.Single(i => i.LogicalFkId == 1).IsAmbiguous);
+        Assert.True(queue.Single(i => i.LogicalFkId == 2).IsAmbiguous);
+        Assert.False(queue.Single(i => i.LogicalFkId == 3).IsAmbiguous);
+    }
+
+    [Fact]
+    public void SameSourceColumn_DifferentTargetTables_IsNotAmbiguous()
+    {
+        List<LogicalFkDto> suggested =
+        [
+            Fk(1, 10, 100, 20, 200, 0.70m),
+            Fk(2, 10, 100, 30, 300, 0.70m)
+        ];
+
+        var queue = LogicalFkService.BuildReviewQueue(suggested, []);
+
+        Assert.All(queue, i => Assert.False(i.IsAmbiguous));
+    }
+
+    private static LogicalFkDto Fk(
+        int id, int sourceTableId, int sourceColumnId, int targetTableId, int targetColumnId,
+        decimal confidence, string discoveryMethod = "NAME_CONVENTION")
+    {
+        return new LogicalFkDto
+        {
+            LogicalFkId = id,
+            ProjectId = 1,
+            SourceTableId = sourceTableId,
+            SourceTableName = $"T{sourceTableId}",
+            SourceColumnIds = [sourceColumnId],
+            SourceColumnNames = [$"c{sourceColumnId}"],
+            TargetTableId = targetTableId,
+            TargetTableName = $"T{targetTableId}",
+            TargetColumnIds = [targetColumnId],
+            TargetColumnNames = [$"c{targetColumnId}"],
+            DiscoveryMethod = discoveryMethod,
+            ConfidenceScore = confidence,
+            Status = "SUGGESTED"
+        };
+    }
+
+    private static LogicalFkCandidate Candidate(
+        int sourceTableId, int sourceColumnId, int targetTableId, int targetColumnId,
+        string reason, params string[] methods)
+    {
+        return new LogicalFkCandidate
+        {
+            SourceTableId = sourceTableId,
+            SourceTableName = $"T{sourceTableId}",
+            SourceColumnId = sourceColumnId,
+            SourceColumnName = $"c{sourceColumnId}",
+            SourceDataType = "int",
+            TargetTableId = targetTableId,
+            TargetTableName = $"T{targetTableId}",
+            TargetColumnId = targetColumnId,
+            TargetColumnName = $"c{targetColumnId}",
+            TargetDataType = "int",
+            ConfidenceScore = 0.95m,
+            Reason = reason,
+            DiscoveryMethods = [.. methods]
+        };
+    }
+}
@@ -0,0 +1,124 @@
+using ActoEngine.WebApi.Features.SpBuilder;
+
+namespace ActoEngine.Tests.SpBuilder;
+
+public class PgSqlTemplateRendererTests
+{
+    private readonly PgSqlTemplateRenderer _renderer = new();
+
+    private static SpColumnConfig Column(string name, string dataType = "INT", bool isPrimaryKey = false, bool isIdentity = false, bool isNullable = false)
+    {
+        return new SpColumnConfig
+        {
+            ColumnName = name,
+            DataType = dataType,
+            MaxLength = dataType == "NVARCHAR" ? 100 : null,
+            IsPrimaryKey = isPrimaryKey,
+            IsIdentity = isIdentity,
+            IsNullable = isNullable,
+            DefaultValue = ""
+        };
+    }
+
+    private static List<SpColumnConfig> CustomerColumns(params SpColumnConfig[] extra)
+    {
+        return
+        [
+            Column("CustomerId", isPrimaryKey: true, isIdentity: true),
+            Column("Name", "NVARCHAR"),
+            .. extra
+        ];
+    }
+
+    [Theory]
+    [InlineData("PostgreSQL", SqlDialect.PostgreSql)]
+    [InlineData("postgres", SqlDialect.PostgreSql)]
+    [InlineData("SqlServer", SqlDialect.SqlServer)]
+    [InlineData(null, SqlDialect.SqlServer)]
+    public void ResolveDialect_MapsProjectDatabaseType(string? databaseType, SqlDialect expected)
+    {
+        Assert.Equal(expected, SpTemplateRendererUtilities.ResolveDialect(databaseType));
+    }
+
+    [Fact]
+    public void RenderCud_ReturnsNewIdentityFromPlpgsqlFunction()
+    {
+        var sql = _renderer.RenderCud("public", "Customer", CustomerColumns(), new CudSpOptions());
+
+        Assert.StartsWith("CREATE OR REPLACE FUNCTION \"public\".\"usp_Customer_CUD\"(", sql, StringComparison.Ordinal);
+        Assert.Contains("p_Name varchar(100) DEFAULT NULL", sql, StringComparison.Ordinal);
+        Assert.Contains("RETURNS integer", sql, StringComparison.Ordinal);
+        Assert.Contains("LANGUAGE plpgsql", sql, StringComparison.Ordinal);
+        Assert.Contains("ELSIF p_Action = 'U' THEN", sql, StringComparison.Ordinal);
+        Assert.Contains("RETURNING \"CustomerId\" INTO v_new_id;", sql, StringComparison.Ordinal);
+        Assert.Contains("RAISE EXCEPTION 'usp_Customer_CUD failed: %', SQLERRM USING ERRCODE = SQLSTATE;", sql, StringComparison.Ordinal);
+        Assert.DoesNotContain("TRY", sql, StringComparison.Ordinal);
+    }
+
+    [Fact]
+    public void RenderSelect_ReturnsTableWithOffsetPagination()
+    {
+        var opts = new SelectSpOptions
+        {
+            IncludePagination = true,
+            Filters = [new FilterColumn { ColumnName = "Name", Operator = FilterOperator.Like }]
+        };
+
+        var sql = _renderer.RenderSelect("public", "Customer", CustomerColumns(), opts);
+
+        Assert.Contains("RETURNS TABLE (", sql, StringComparison.Ordinal);
+        Assert.Contains("\"TotalRecords\" bigint", sql, StringComparison.Ordinal);
+        Assert.Contains("RETURN QUERY", sql, StringComparison.Ordinal);
+        Assert.Contains("(p_Name IS NULL OR \"Name\"::text ILIKE '%' || COALESCE(p_Name, '') || '%')", sql, StringComparison.Ordinal);
+        Assert.Contains("LIMIT p_PageSize OFFSET (p_PageNumber - 1) * p_PageSize;", sql, StringComparison.Ordinal);
+    }
+
+    [Fact]
+    public void RenderSelect_WithKeysetOnNonUniqueColumn_AppendsPrimaryKeyTieBreaker()
+    {
+        var opts = new SelectSpOptions { IncludePagination = true, UseKeysetPagination = true, OrderByColumns = ["Name"] };
+
+        var sql = _renderer.RenderSelect("public", "Customer", CustomerColumns(), opts);
+
+        Assert.Contains("(p_AfterName IS NULL OR (\"Name\", \"CustomerId\") > (p_AfterName, p_AfterCustomerId))", sql, StringComparison.Ordinal);
+        Assert.Contains("ORDER BY\n        \"Name\",\n        \"CustomerId\"\n    LIMIT p_PageSize;", sql, StringComparison.Ordinal);
+    }
+
+    [Fact]
+    public void RenderSelect_WithJoinedColumnMissingDataType_Throws()
+    {
+        var opts = new SelectSpOptions
+        {
+            Joins = [new SelectJoin { TableName = "Region", SchemaName = "public", Alias = "r", On = [new SelectJoinCondition { BaseColumn = "CustomerId", JoinColumn = "CustomerId" }] }],
+            OutputColumns = [new SelectOutputColumn { Source = "r", ColumnName = "RegionName" }]
+        };
+
+        Assert.Throws<ArgumentException>(() => _renderer.RenderSelect("public", "Customer", CustomerColumns(), opts));
+    }
+
+    [Fact]
+    public void RenderSoftDelete_UsesBooleanFlagAndRestoreParameter()
+    {
+        var cols = CustomerColumns(Column("IsDeleted", "BIT"), Column("DeletedAt", "DATETIME2", isNullable: true));
+
+        var sql = _renderer.RenderSoftDelete("public", "Customer", cols, new SoftDeleteSpOptions());
+
+        Assert.Contains("p_Restore boolean DEFAULT FALSE", sql, StringComparison.Ordinal);
+        Assert.Contains("\"IsDeleted\" = TRUE,", sql, StringComparison.Ordinal);
+        Assert.Contains("\"DeletedAt\" = (now() AT TIME ZONE 'utc')", sql, StringComparison.Ordinal);
+        Assert.DoesNotContain("DELETE FROM", sql, StringComparison.Ordinal);
+    }
+
+    [Fact]
+    public void RenderBulkTvp_UnnestsCompositeTypeArray()
+    {
+        var sql = _renderer.RenderBulkTvp("sales", "Customer", CustomerColumns(), new BulkTvpSpOptions());
+        var type = _renderer.RenderBulkTvpTableType("sales", "Customer", CustomerColumns(), new BulkTvpSpOptions());
+
+        Assert.StartsWith("CREATE TYPE \"sales\".\"CustomerTableType\" AS (", type, StringComparison.Ordinal);
+        Assert.DoesNotContain("CREATE TYPE", sql, StringComparison.Ordinal);
+        Assert.Contains("p_Rows \"sales\".\"CustomerTableType\"[]", sql, StringComparison.Ordinal);
+        Assert.Contains("FROM unnest(p_Rows) AS source", sql, StringComparison.Ordinal);
+        Assert.Contains("WHERE NOT EXISTS (", sql, StringComparison.Ordinal);
+    }
+}
@@ -0,0 +1,95 @@
+using ActoEngine.WebApi.Api.ApiModels;
+using ActoEngine.WebApi.Features.Projects;
+using ActoEngine.WebApi.Features.Schema;
+using ActoEngine.WebApi.Features.SpBuilder;
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.Extensions.Logging;
+using NSubstitute;
+
+namespace ActoEngine.Tests.SpBuilder;
+
+public class SpBuilderControllerTests
+{
+    private readonly ISchemaRepository _schemaRepo = Substitute.For<ISchemaRepository>();
+    private readonly IProjectRepository _projectRepo = Substitute.For<IProjectRepository>();
+
+    [Fact]
+    public async Task Generate_ReturnsBadRequest_WhenComputedColumnHasNoAlias()
+    {
+        var controller = CreateController();
+
+        var result = await controller.Generate(SelectRequest(new SelectSpOptions
+        {
+            OutputColumns = [new SelectOutputColumn { Expression = "UPPER(t.[Name])" }]
+        }));
+
+        var payload = AssertBadRequest(result);
+        Assert.StartsWith("Computed columns need an alias.", payload.Message, StringComparison.Ordinal);
+    }
+
+    [Fact]
+    public async Task Generate_ReturnsBadRequest_WhenKeysetPaginationIsCombinedWithDynamicSort()
+    {
+        var controller = CreateController();
+        var opts = new SelectSpOptions { IncludePagination = true, UseKeysetPagination = true, SortableColumns = ["Name"] };
+        var expected = Assert.Throws<ArgumentException>(
+            () => new SpTemplateRenderer().RenderSelect("dbo", "Customer", Columns(), opts));
+
+        var result = await controller.Generate(SelectRequest(opts));
+
+        Assert.Equal(expected.Message, AssertBadRequest(result).Message);
+    }
+
+    [Fact]
+    public async Task Generate_ReturnsServerError_WhenProjectLookupFails()
+    {
+        _projectRepo.GetByIdAsync(Arg.Any<int>(), Arg.Any<CancellationToken>())
+            .Returns(Task.FromException<PublicProjectDto?>(new InvalidOperationException("Timeout expired obtaining a connection from the pool")));
+        var controller = CreateController();
+
+        var result = await controller.Generate(SelectRequest(new SelectSpOptions()));
+
+        var error = Assert.IsType<ObjectResult>(result.Result);
+        Assert.Equal(500, error.StatusCode);
+        var payload = Assert.IsType<ApiResponse<GeneratedSpResponse>>(error.Value);
+        Assert.DoesNotContain("pool", payload.Message, StringComparison.OrdinalIgnoreCase);
+    }
+
+    private static ApiResponse<GeneratedSpResponse> AssertBadRequest(ActionResult<ApiResponse<GeneratedSpResponse>> result)
+    {
+        var badRequest = Assert.IsType<BadRequestObjectResult>(result.Result);
+        var payload = Assert.IsType<ApiResponse<GeneratedSpResponse>>(badRequest.Value);
+        Assert.False(payload.Status);
+        return payload;
+    }
+
+    private static List<SpColumnConfig> Columns()
+    {
+        return
+        [
+            new SpColumnConfig { ColumnName = "CustomerId", DataType = "INT", IsPrimaryKey = true, IsIdentity = true, DefaultValue = "" },
+            new SpColumnConfig { ColumnName = "Name", DataType = "NVARCHAR", MaxLength = 100, DefaultValue = "" }
+        ];
+    }
+
+    private static SpGenerationRequest SelectRequest(SelectSpOptions opts)
+    {
+        return new SpGenerationRequest
+        {
+            TableName = "Customer",
+            Type = SpType.Select,
+            Columns = Columns(),
+            SelectOptions = opts
+        };
+    }
+
+    private SpBuilderController CreateController()
+    {
+        return new SpBuilderController(
+            new SpBuilderService(_schemaRepo, _projectRepo),
+            Substitute.For<ISpConfigService>(),
+            _schemaRepo,
+            _projectRepo,
+            Substitute.For<ILogger<SpBuilderController>>());
+    }
+}
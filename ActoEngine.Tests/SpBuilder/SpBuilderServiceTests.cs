@@ -0,0 +1,66 @@
+using ActoEngine.WebApi.Features.Projects;
+using ActoEngine.WebApi.Features.Schema;
+using ActoEngine.WebApi.Features.SpBuilder;
+using NSubstitute;
+
+namespace ActoEngine.Tests.SpBuilder;
+
+public class SpBuilderServiceTests
+{
+    private readonly SpBuilderService _service = new(Substitute.For<ISchemaRepository>(), Substitute.For<IProjectRepository>());
+
+    private static SpColumnConfig Column(string name, string dataType = "INT", bool isPrimaryKey = false)
+    {
+        return new SpColumnConfig
+        {
+            ColumnName = name,
+            DataType = dataType,
+            IsPrimaryKey = isPrimaryKey,
+            IsIdentity = isPrimaryKey,
+            DefaultValue = ""
+        };
+    }
+
+    private static SpGenerationRequest SoftDeleteRequest(params SpColumnConfig[] extra)
+    {
+        return new SpGenerationRequest
+        {
+            TableName = "Customer",
+            Type = SpType.SoftDelete,
+            Columns = [Column("CustomerId", isPrimaryKey: true), .. extra],
+            SoftDeleteOptions = new SoftDeleteSpOptions { DeletedByColumn = "DeletedBy" }
+        };
+    }
+
+    [Fact]
+    public async Task GenerateStoredProcedure_SoftDeleteWithOneFlagColumn_DoesNotWarnAboutTheOther()
+    {
+        var response = await _service.GenerateStoredProcedure(SoftDeleteRequest(Column("IsDeleted", "BIT"), Column("DeletedBy")));
+
+        Assert.Empty(response.Warnings);
+    }
+
+    [Fact]
+    public async Task GenerateStoredProcedure_SoftDeleteWithoutDeletedByColumn_WarnsAboutIt()
+    {
+        var response = await _service.GenerateStoredProcedure(SoftDeleteRequest(Column("DeletedAt", "DATETIME2")));
+
+        Assert.Equal(["⚠️ Column 'DeletedBy' not found on Customer; it will be skipped."], response.Warnings);
+    }
+
+    [Fact]
+    public async Task GenerateStoredProcedure_BulkTvp_ReturnsTableTypeAsItsOwnItem()
+    {
+        var response = await _service.GenerateStoredProcedure(new SpGenerationRequest
+        {
+            TableName = "Customer",
+            Type = SpType.BulkTvp,
+            Columns = [Column("CustomerId", isPrimaryKey: true), Column("Score")]
+        });
+
+        Assert.NotNull(response.TableType);
+        Assert.Equal("TableType", response.TableType.SpType);
+        Assert.StartsWith("CREATE TYPE [dbo].[CustomerTableType] AS TABLE (", response.TableType.Code, StringComparison.Ordinal);
+        Assert.StartsWith("CREATE PROCEDURE", response.StoredProcedure!.Code, StringComparison.Ordinal);
+    }
+}
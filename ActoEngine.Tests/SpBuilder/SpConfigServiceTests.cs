@@ -0,0 +1,280 @@
+using System.Text.Json;
+using ActoEngine.WebApi.Features.Projects;
+using ActoEngine.WebApi.Features.Schema;
+using ActoEngine.WebApi.Features.SpBuilder;
+using Microsoft.Extensions.Logging;
+using NSubstitute;
+
+namespace ActoEngine.Tests.SpBuilder;
+
+/// <summary>
+/// Tests for regenerating saved SP Builder configurations on <see cref="SpConfigService"/> after a schema resync.
+/// </summary>
+public class SpConfigServiceTests
+{
+    private const int ProjectId = 7;
+    private static readonly JsonSerializerOptions JsonOptions = new(JsonSerializerDefaults.Web);
+
+    private readonly ISpConfigRepository _repository = Substitute.For<ISpConfigRepository>();
+    private readonly ISchemaRepository _schemaRepo = Substitute.For<ISchemaRepository>();
+    private readonly List<SpConfigRow> _configs = [];
+    private readonly List<SpConfigVersionRow> _versions = [];
+    private readonly SpConfigService _service;
+
+    public SpConfigServiceTests()
+    {
+        var projectRepo = Substitute.For<IProjectRepository>();
+        _service = new SpConfigService(
+            _repository,
+            new SpBuilderService(_schemaRepo, projectRepo),
+            _schemaRepo,
+            projectRepo,
+            Substitute.For<ILogger<SpConfigService>>());
+
+        _repository.GetByProjectAsync(ProjectId, Arg.Any<string?>(), Arg.Any<string?>(), Arg.Any<CancellationToken>()).Returns(_ => _configs.ToList());
+        _repository.GetCurrentVersionsAsync(ProjectId, Arg.Any<CancellationToken>()).Returns(_ => _versions.ToList());
+    }
+
+    [Fact]
+    public async Task RegenerateAsync_UnchangedTable_IsOkWithProcedure()
+    {
+        Saved(1, "Customer", SelectConfig(filter: "Name"));
+        _schemaRepo.GetStoredTableSchemaAsync(ProjectId, "Customer", "dbo").Returns(Table("Customer", ("CustomerId", "int"), ("Name", "nvarchar")));
+
+        var result = Assert.Single((await _service.RegenerateAsync(ProjectId, new RegenerateSpConfigsRequest())).Results);
+
+        Assert.Equal(SpConfigRegenerationStatus.Ok, result.Status);
+        Assert.Empty(result.Errors);
+        Assert.Equal("[dbo].[usp_Customer_Select]", result.StoredProcedure?.SpName);
+    }
+
+    [Fact]
+    public async Task RegenerateAsync_AddedAndRetypedColumns_IsChangedButStillGenerates()
+    {
+        Saved(1, "Customer", SelectConfig(filter: "Name"));
+        _schemaRepo.GetStoredTableSchemaAsync(ProjectId, "Customer", "dbo")
+            .Returns(Table("Customer", ("CustomerId", "bigint"), ("Name", "nvarchar"), ("Email", "nvarchar")));
+
+        var result = Assert.Single((await _service.RegenerateAsync(ProjectId, new RegenerateSpConfigsRequest())).Results);
+
+        Assert.Equal(SpConfigRegenerationStatus.Changed, result.Status);
+        Assert.Equal(["Email"], result.AddedColumns);
+        Assert.Equal(["CustomerId (int → bigint)"], result.RetypedColumns);
+        Assert.NotNull(result.StoredProcedure);
+    }
+
+    [Fact]
+    public async Task RegenerateAsync_FilterColumnDropped_IsInvalidWithoutProcedure()
+    {
+        Saved(1, "Customer", SelectConfig(filter: "Name"));
+        _schemaRepo.GetStoredTableSchemaAsync(ProjectId, "Customer", "dbo").Returns(Table("Customer", ("CustomerId", "int")));
+
+        var result = Assert.Single((await _service.RegenerateAsync(ProjectId, new RegenerateSpConfigsRequest())).Results);
+
+        Assert.Equal(SpConfigRegenerationStatus.Invalid, result.Status);
+        Assert.Equal(["Name"], result.RemovedColumns);
+        Assert.Equal(["Filter column 'Name' no longer exists."], result.Errors);
+        Assert.Null(result.StoredProcedure);
+    }
+
+    [Fact]
+    public async Task RegenerateAsync_TableDropped_IsInvalid()
+    {
+        Saved(1, "Customer", SelectConfig(filter: "Name"));
+        _schemaRepo.GetStoredTableSchemaAsync(ProjectId, "Customer", "dbo")
+            .Returns(Task.FromException<TableSchemaResponse>(new InvalidOperationException("Table 'dbo.Customer' not found")));
+
+        var result = Assert.Single((await _service.RegenerateAsync(ProjectId, new RegenerateSpConfigsRequest())).Results);
+
+        Assert.Equal(SpConfigRegenerationStatus.Invalid, result.Status);
+        Assert.Contains("no longer in the synced schema", Assert.Single(result.Errors), StringComparison.Ordinal);
+    }
+
+    [Fact]
+    public async Task RegenerateAsync_WithConfigIds_OnlyRegeneratesThose()
+    {
+        Saved(1, "Customer", SelectConfig(filter: "Name"));
+        Saved(2, "Customer", SelectConfig(filter: null));
+        _schemaRepo.GetStoredTableSchemaAsync(ProjectId, "Customer", "dbo").Returns(Table("Customer", ("CustomerId", "int"), ("Name", "nvarchar")));
+
+        var response = await _service.RegenerateAsync(ProjectId, new RegenerateSpConfigsRequest { ConfigIds = [2] });
+
+        Assert.Equal(2, Assert.Single(response.Results).ConfigId);
+    }
+
+    [Fact]
+    public void FindMissingReferences_IgnoresAuditColumnsTheTableNeverHad()
+    {
+        var config = new SavedSpConfig { Type = SpType.Audit, AuditOptions = new AuditSpOptions() };
+
+        var missing = SpConfigService.FindMissingReferences(
+            config, ["Id", "CreatedBy", "CreatedAt"], ["Id", "CreatedAt"], NoJoins);
+
+        Assert.Equal(["Audit column 'CreatedBy' no longer exists."], missing);
+    }
+
+    [Fact]
+    public void FindMissingReferences_ReportsDroppedOrderByColumn()
+    {
+        var config = new SavedSpConfig
+        {
+            Type = SpType.Select,
+            SelectOptions = new SelectSpOptions { OrderByColumns = ["CreatedAt", "Email"] }
+        };
+
+        var missing = SpConfigService.FindMissingReferences(config, ["Id", "CreatedAt", "Email"], ["Id", "CreatedAt"], NoJoins);
+
+        Assert.Equal(["Order by column 'Email' no longer exists."], missing);
+    }
+
+    [Fact]
+    public void FindMissingReferences_ReportsDroppedJoinedTableAndColumns()
+    {
+        var config = new SavedSpConfig
+        {
+            Type = SpType.Select,
+            SelectOptions = new SelectSpOptions
+            {
+                Joins =
+                [
+                    RegionJoin("r"),
+                    new SelectJoin { TableName = "Country", Alias = "c", On = [new SelectJoinCondition { BaseColumn = "CustomerId", JoinColumn = "CustomerId" }] }
+                ],
+                OutputColumns =
+                [
+                    new SelectOutputColumn { Source = "r", ColumnName = "RegionName", DataType = "nvarchar" },
+                    new SelectOutputColumn { Source = "r", Expression = "UPPER(r.Code)", Alias = "Code" }
+                ]
+            }
+        };
+        var joined = new Dictionary<string, IReadOnlyCollection<string>?>(StringComparer.OrdinalIgnoreCase)
+        {
+            ["r"] = ["Code"],
+            ["c"] = null
+        };
+
+        var missing = SpConfigService.FindMissingReferences(config, ["CustomerId"], ["CustomerId"], joined);
+
+        Assert.Equal(
+        [
+            "Join 'r' column 'r.RegionId' no longer exists.",
+            "Output column 'r.RegionName' no longer exists.",
+            "Joined table dbo.Country ('c') is no longer in the synced schema."
+        ], missing);
+    }
+
+    [Fact]
+    public async Task RegenerateAsync_JoinedColumnDropped_IsInvalidWithoutProcedure()
+    {
+        var config = SelectConfig(filter: null);
+        config.SelectOptions!.Joins = [RegionJoin("r")];
+        config.SelectOptions.OutputColumns = [new SelectOutputColumn { Source = "r", ColumnName = "RegionName", DataType = "nvarchar" }];
+        Saved(1, "Customer", config);
+        _schemaRepo.GetStoredTableSchemaAsync(ProjectId, "Customer", "dbo").Returns(Table("Customer", ("CustomerId", "int"), ("Name", "nvarchar")));
+        _schemaRepo.GetStoredTableSchemaAsync(ProjectId, "Region", "dbo").Returns(Table("Region", ("RegionId", "int")));
+
+        var result = Assert.Single((await _service.RegenerateAsync(ProjectId, new RegenerateSpConfigsRequest())).Results);
+
+        Assert.Equal(SpConfigRegenerationStatus.Invalid, result.Status);
+        Assert.Equal(["Output column 'r.RegionName' no longer exists."], result.Errors);
+        Assert.Null(result.StoredProcedure);
+    }
+
+    [Fact]
+    public async Task RegenerateAsync_UnreadableVersion_IsInvalidInsteadOfDefaultCud()
+    {
+        Saved(1, "Customer", SelectConfig(filter: "Name"));
+        _versions[0].ConfigJson = "{ not json";
+        _schemaRepo.GetStoredTableSchemaAsync(ProjectId, "Customer", "dbo").Returns(Table("Customer", ("CustomerId", "int"), ("Name", "nvarchar")));
+
+        var result = Assert.Single((await _service.RegenerateAsync(ProjectId, new RegenerateSpConfigsRequest())).Results);
+
+        Assert.Equal(SpConfigRegenerationStatus.Invalid, result.Status);
+        Assert.Equal(SpType.Select, result.Type);
+        Assert.Equal(["Version 1 of this configuration could not be read."], result.Errors);
+        Assert.Null(result.StoredProcedure);
+    }
+
+    [Fact]
+    public void ApplyColumnOverrides_KeepsSavedChoicesAndDefaultsNewColumns()
+    {
+        List<SpColumnConfig> columns =
+        [
+            new() { ColumnName = "Name", DataType = "nvarchar", DefaultValue = "" },
+            new() { ColumnName = "Email", DataType = "nvarchar", DefaultValue = "" }
+        ];
+
+        SpConfigService.ApplyColumnOverrides(columns, [new SavedSpColumn { ColumnName = "name", IncludeInUpdate = false }]);
+
+        Assert.False(columns[0].IncludeInUpdate);
+        Assert.True(columns[1].IncludeInUpdate);
+    }
+
+    private void Saved(int configId, string table, SavedSpConfig config)
+    {
+        _configs.Add(new SpConfigRow
+        {
+            ConfigId = configId,
+            ProjectId = ProjectId,
+            SchemaName = "dbo",
+            TableName = table,
+            Name = $"Config {configId}",
+            SpType = config.Type.ToString(),
+            CurrentVersion = 1
+        });
+        _versions.Add(new SpConfigVersionRow
+        {
+            ConfigId = configId,
+            VersionNumber = 1,
+            ConfigJson = JsonSerializer.Serialize(config, JsonOptions)
+        });
+    }
+
+    private static readonly Dictionary<string, IReadOnlyCollection<string>?> NoJoins = new();
+
+    private static SelectJoin RegionJoin(string alias)
+    {
+        return new SelectJoin
+        {
+            TableName = "Region",
+            Alias = alias,
+            On = [new SelectJoinCondition { BaseColumn = "CustomerId", JoinColumn = "RegionId" }]
+        };
+    }
+
+    private static SavedSpConfig SelectConfig(string? filter)
+    {
+        return new SavedSpConfig
+        {
+            Type = SpType.Select,
+            Columns =
+            [
+                new SavedSpColumn { ColumnName = "CustomerId", DataType = "int", IncludeInCreate = false, IncludeInUpdate = false },
+                new SavedSpColumn { ColumnName = "Name", DataType = "nvarchar" }
+            ],
+            SelectOptions = new SelectSpOptions
+            {
+                Filters = filter == null ? [] : [new FilterColumn { ColumnName = filter, Operator = FilterOperator.Equals }]
+            }
+        };
+    }
+
+    private static TableSchemaResponse Table(string name, params (string Name, string Type)[] columns)
+    {
+        return new TableSchemaResponse
+        {
+            TableName = name,
+            SchemaName = "dbo",
+            PrimaryKeys = [columns[0].Name],
+            Columns = [.. columns.Select((c, i) => new ColumnSchema
+            {
+                SchemaName = "dbo",
+                ColumnName = c.Name,
+                DataType = c.Type,
+                MaxLength = c.Type == "nvarchar" ? 100 : null,
+                IsPrimaryKey = i == 0,
+                IsIdentity = i == 0
+            })]
+        };
+    }
+}
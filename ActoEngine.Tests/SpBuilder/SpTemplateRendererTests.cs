@@ -0,0 +1,256 @@
+using ActoEngine.WebApi.Features.SpBuilder;
+
+namespace ActoEngine.Tests.SpBuilder;
+
+public class SpTemplateRendererTests
+{
+    private readonly SpTemplateRenderer _renderer = new();
+
+    private static SpColumnConfig Column(string name, string dataType = "INT", bool isPrimaryKey = false, bool isIdentity = false, bool isNullable = false)
+    {
+        return new SpColumnConfig
+        {
+            ColumnName = name,
+            DataType = dataType,
+            MaxLength = dataType == "NVARCHAR" ? 100 : null,
+            IsPrimaryKey = isPrimaryKey,
+            IsIdentity = isIdentity,
+            IsNullable = isNullable,
+            DefaultValue = ""
+        };
+    }
+
+    private static List<SpColumnConfig> CustomerColumns(params SpColumnConfig[] extra)
+    {
+        return
+        [
+            Column("CustomerId", isPrimaryKey: true, isIdentity: true),
+            Column("Name", "NVARCHAR"),
+            .. extra
+        ];
+    }
+
+    [Fact]
+    public void RenderUpsert_MergesOnPrimaryKey()
+    {
+        var sql = _renderer.RenderUpsert("dbo", "Customer", CustomerColumns(), new UpsertSpOptions { OutputAction = true });
+
+        Assert.Contains("CREATE PROCEDURE [dbo].[usp_Customer_Upsert]", sql, StringComparison.Ordinal);
+        Assert.Contains("MERGE INTO [dbo].[Customer] WITH (HOLDLOCK) AS target", sql, StringComparison.Ordinal);
+        Assert.Contains("ON target.[CustomerId] = source.[CustomerId]", sql, StringComparison.Ordinal);
+        Assert.Contains("target.[Name] = source.[Name]", sql, StringComparison.Ordinal);
+        Assert.Contains("INSERT ([Name])", sql, StringComparison.Ordinal);
+        Assert.Contains("OUTPUT $action AS [MergeAction];", sql, StringComparison.Ordinal);
+    }
+
+    [Fact]
+    public void RenderUpsert_WithUnknownMatchColumn_Throws()
+    {
+        var opts = new UpsertSpOptions { MatchColumns = ["Email"] };
+
+        Assert.Throws<ArgumentException>(() => _renderer.RenderUpsert("dbo", "Customer", CustomerColumns(), opts));
+    }
+
+    [Fact]
+    public void RenderSoftDelete_FlagsRowAndSupportsRestore()
+    {
+        var cols = CustomerColumns(Column("IsDeleted", "BIT"), Column("DeletedAt", "DATETIME2", isNullable: true));
+
+        var sql = _renderer.RenderSoftDelete("dbo", "Customer", cols, new SoftDeleteSpOptions());
+
+        Assert.Contains("@Restore BIT = 0", sql, StringComparison.Ordinal);
+        Assert.Contains("[IsDeleted] = 1,", sql, StringComparison.Ordinal);
+        Assert.Contains("[DeletedAt] = SYSUTCDATETIME()", sql, StringComparison.Ordinal);
+        Assert.Contains("[DeletedAt] = NULL", sql, StringComparison.Ordinal);
+        Assert.DoesNotContain("DELETE FROM", sql, StringComparison.Ordinal);
+    }
+
+    [Fact]
+    public void RenderSoftDelete_WithoutFlagColumns_Throws()
+    {
+        Assert.Throws<ArgumentException>(() =>
+            _renderer.RenderSoftDelete("dbo", "Customer", CustomerColumns(), new SoftDeleteSpOptions()));
+    }
+
+    [Fact]
+    public void RenderBulkTvp_SkipsExistingRowsOnInsert()
+    {
+        var sql = _renderer.RenderBulkTvp("sales", "Customer", CustomerColumns(), new BulkTvpSpOptions());
+
+        Assert.DoesNotContain("CREATE TYPE", sql, StringComparison.Ordinal);
+        Assert.DoesNotContain("\nGO\n", sql, StringComparison.Ordinal);
+        Assert.Contains("@Rows [sales].[CustomerTableType] READONLY", sql, StringComparison.Ordinal);
+        Assert.Contains("INNER JOIN @Rows AS source", sql, StringComparison.Ordinal);
+        Assert.Contains("WHERE NOT EXISTS (", sql, StringComparison.Ordinal);
+    }
+
+    [Fact]
+    public void RenderBulkTvpTableType_DefinesTypeWithNullableIdentity()
+    {
+        var sql = _renderer.RenderBulkTvpTableType("sales", "Customer", CustomerColumns(), new BulkTvpSpOptions());
+
+        Assert.StartsWith("CREATE TYPE [sales].[CustomerTableType] AS TABLE (", sql, StringComparison.Ordinal);
+        Assert.Contains("[CustomerId] INT NULL", sql, StringComparison.Ordinal);
+        Assert.DoesNotContain("GO", sql, StringComparison.Ordinal);
+    }
+
+    [Fact]
+    public void RenderAudit_StampsAuditColumnsInsteadOfTakingParameters()
+    {
+        var cols = CustomerColumns(
+            Column("CreatedBy"),
+            Column("CreatedAt", "DATETIME2"),
+            Column("ModifiedBy", isNullable: true),
+            Column("ModifiedAt", "DATETIME2", isNullable: true));
+
+        var sql = _renderer.RenderAudit("dbo", "Customer", cols, new AuditSpOptions());
+
+        Assert.Contains("@UserId INT", sql, StringComparison.Ordinal);
+        Assert.Contains("[ModifiedBy] = @UserId", sql, StringComparison.Ordinal);
+        Assert.Contains("[ModifiedAt] = SYSUTCDATETIME()", sql, StringComparison.Ordinal);
+        Assert.DoesNotContain("@CreatedAt", sql, StringComparison.Ordinal);
+        Assert.DoesNotContain("@ModifiedBy", sql, StringComparison.Ordinal);
+    }
+
+    [Fact]
+    public void RenderAudit_DefaultsColumnParametersToNull()
+    {
+        var cols = CustomerColumns(Column("CreatedBy"), Column("ModifiedBy", isNullable: true));
+
+        var sql = _renderer.RenderAudit("dbo", "Customer", cols, new AuditSpOptions());
+
+        Assert.Contains("@CustomerId INT = NULL", sql, StringComparison.Ordinal);
+        Assert.Contains("@Name NVARCHAR(100) = NULL", sql, StringComparison.Ordinal);
+        Assert.Contains("@UserId INT,", sql, StringComparison.Ordinal);
+    }
+
+    [Fact]
+    public void RenderSelect_WithJoin_QualifiesColumnsAndAliasesOutputs()
+    {
+        var cols = CustomerColumns(Column("RegionId"));
+        var opts = new SelectSpOptions
+        {
+            Joins =
+            [
+                new SelectJoin
+                {
+                    TableName = "Region",
+                    Alias = "r",
+                    JoinType = SelectJoinType.Left,
+                    On = [new SelectJoinCondition { BaseColumn = "RegionId", JoinColumn = "RegionId" }]
+                }
+            ],
+            OutputColumns =
+            [
+                new SelectOutputColumn { ColumnName = "Name" },
+                new SelectOutputColumn { Source = "r", ColumnName = "Name", Alias = "RegionName" },
+                new SelectOutputColumn { Expression = "UPPER(t.[Name])", Alias = "NameUpper" }
+            ],
+            Filters = [new FilterColumn { ColumnName = "Name", Operator = FilterOperator.Like }]
+        };
+
+        var sql = _renderer.RenderSelect("dbo", "Customer", cols, opts);
+
+        Assert.Contains("FROM [dbo].[Customer] AS t", sql, StringComparison.Ordinal);
+        Assert.Contains("LEFT JOIN [dbo].[Region] AS r", sql, StringComparison.Ordinal);
+        Assert.Contains("ON r.[RegionId] = t.[RegionId]", sql, StringComparison.Ordinal);
+        Assert.Contains("r.[Name] AS [RegionName]", sql, StringComparison.Ordinal);
+        Assert.Contains("UPPER(t.[Name]) AS [NameUpper]", sql, StringComparison.Ordinal);
+        Assert.Contains("t.[Name] LIKE", sql, StringComparison.Ordinal);
+    }
+
+    [Fact]
+    public void RenderSelect_WithDuplicateOutputNames_Throws()
+    {
+        var opts = new SelectSpOptions
+        {
+            Joins = [new SelectJoin { TableName = "Region", Alias = "r", On = [new SelectJoinCondition { BaseColumn = "CustomerId", JoinColumn = "CustomerId" }] }],
+            OutputColumns =
+            [
+                new SelectOutputColumn { ColumnName = "Name" },
+                new SelectOutputColumn { Source = "r", ColumnName = "Name" }
+            ]
+        };
+
+        Assert.Throws<ArgumentException>(() => _renderer.RenderSelect("dbo", "Customer", CustomerColumns(), opts));
+    }
+
+    [Fact]
+    public void RenderSelect_WithSortableColumns_ValidatesAgainstWhitelist()
+    {
+        var opts = new SelectSpOptions { SortableColumns = ["Name"] };
+
+        var sql = _renderer.RenderSelect("dbo", "Customer", CustomerColumns(), opts);
+
+        Assert.Contains("@SortColumn NOT IN (N'Name')", sql, StringComparison.Ordinal);
+        Assert.Contains("CASE WHEN @SortColumn = N'Name' AND @SortDirection = 'DESC' THEN [Name] END DESC", sql, StringComparison.Ordinal);
+    }
+
+    [Fact]
+    public void RenderSelect_WithQuoteInSortableColumnName_EscapesStringLiterals()
+    {
+        var opts = new SelectSpOptions { SortableColumns = ["O'Brien"] };
+
+        var sql = _renderer.RenderSelect("dbo", "Customer", CustomerColumns(Column("O'Brien", "NVARCHAR")), opts);
+
+        Assert.Contains("@SortColumn NOT IN (N'O''Brien')", sql, StringComparison.Ordinal);
+        Assert.Contains("CASE WHEN @SortColumn = N'O''Brien' AND @SortDirection = 'ASC'", sql, StringComparison.Ordinal);
+    }
+
+    [Fact]
+    public void RenderSelect_WithUnknownSortableColumn_Throws()
+    {
+        var opts = new SelectSpOptions { SortableColumns = ["Email"] };
+
+        Assert.Throws<ArgumentException>(() => _renderer.RenderSelect("dbo", "Customer", CustomerColumns(), opts));
+    }
+
+    [Fact]
+    public void RenderSelect_WithKeysetPagination_SeeksInsteadOfOffset()
+    {
+        var opts = new SelectSpOptions
+        {
+            IncludePagination = true,
+            UseKeysetPagination = true,
+            IncludeTotalCount = true,
+            OrderByColumns = ["Name", "CustomerId"]
+        };
+
+        var sql = _renderer.RenderSelect("dbo", "Customer", CustomerColumns(), opts);
+
+        Assert.Contains("SELECT TOP (@PageSize)", sql, StringComparison.Ordinal);
+        Assert.Contains("@AfterName NVARCHAR(100) = NULL", sql, StringComparison.Ordinal);
+        Assert.Contains("(@AfterName IS NULL OR [Name] > @AfterName OR ([Name] = @AfterName AND [CustomerId] > @AfterCustomerId))", sql, StringComparison.Ordinal);
+        Assert.Contains("SELECT COUNT(*) AS TotalRecords", sql, StringComparison.Ordinal);
+        Assert.DoesNotContain("OFFSET", sql, StringComparison.Ordinal);
+    }
+
+    [Fact]
+    public void RenderSelect_WithKeysetOnNonUniqueColumn_AppendsPrimaryKeyTieBreaker()
+    {
+        var opts = new SelectSpOptions { IncludePagination = true, UseKeysetPagination = true, OrderByColumns = ["Name"] };
+
+        var sql = _renderer.RenderSelect("dbo", "Customer", CustomerColumns(), opts);
+
+        Assert.Contains("@AfterCustomerId INT = NULL", sql, StringComparison.Ordinal);
+        Assert.Contains("(@AfterName IS NULL OR [Name] > @AfterName OR ([Name] = @AfterName AND [CustomerId] > @AfterCustomerId))", sql, StringComparison.Ordinal);
+        Assert.Contains("ORDER BY\n        [Name],\n        [CustomerId];", sql, StringComparison.Ordinal);
+    }
+
+    [Fact]
+    public void RenderSelect_WithKeysetOnTableWithoutPrimaryKey_Throws()
+    {
+        var cols = new List<SpColumnConfig> { Column("LastName", "NVARCHAR"), Column("CreatedAt", "DATETIME2") };
+        var opts = new SelectSpOptions { IncludePagination = true, UseKeysetPagination = true, OrderByColumns = ["LastName"] };
+
+        Assert.Throws<ArgumentException>(() => _renderer.RenderSelect("dbo", "Customer", cols, opts));
+    }
+
+    [Fact]
+    public void RenderSelect_WithKeysetAndDynamicSort_Throws()
+    {
+        var opts = new SelectSpOptions { IncludePagination = true, UseKeysetPagination = true, SortableColumns = ["Name"] };
+
+        Assert.Throws<ArgumentException>(() => _renderer.RenderSelect("dbo", "Customer", CustomerColumns(), opts));
+    }
+}
@@ -10,3 +10,64 @@ public class BatchSettings
     /// </summary>
     public int MaxBatchSize { get; set; } = 100;
 }
+
+/// <summary>
+/// Configuration for the stale-context review queue
+/// </summary>
+public class ContextReviewSettings
+{
+    /// <summary>
+    /// Days since the last update or "still accurate" confirmation before context is stale
+    /// </summary>
+    public int StaleAfterDays { get; set; } = 90;
+
+    /// <summary>
+    /// Longest an entity can be snoozed out of the review queue
+    /// </summary>
+    public int MaxSnoozeDays { get; set; } = 180;
+}
+
+/// <summary>
+/// Configuration for the project-wide sensitivity classifier
+/// </summary>
+public class SensitivityClassifierSettings
+{
+    /// <summary>
+    /// Extra rule packs; a pack with the same name as a built-in pack replaces it
+    /// </summary>
+    public List<SensitivityRulePack> RulePacks { get; set; } = [];
+
+    /// <summary>
+    /// Names of built-in or configured packs to skip
+    /// </summary>
+    public List<string> DisabledRulePacks { get; set; } = [];
+}
+
+/// <summary>
+/// Named set of column-name keywords and patterns that propose one sensitivity level
+/// </summary>
+public class SensitivityRulePack
+{
+    public string Name { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Proposed level: PUBLIC, INTERNAL, PII, FINANCIAL or SENSITIVE
+    /// </summary>
+    public string Sensitivity { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Words matched against the column name's words (CustomerEmail, customer_email → customer, email).
+    /// Multi-word keywords match consecutive words.
+    /// </summary>
+    public List<string> Keywords { get; set; } = [];
+
+    /// <summary>
+    /// Case-insensitive regular expressions matched against the column name with separators removed
+    /// </summary>
+    public List<string> NamePatterns { get; set; } = [];
+
+    /// <summary>
+    /// Base data types (varchar, decimal, ...) the pack applies to; any type when empty
+    /// </summary>
+    public List<string> DataTypes { get; set; } = [];
+}
@@ -0,0 +1,189 @@
+namespace ActoEngine.WebApi.Features.Context;
+
+/// <summary>
+/// Scores context against a project's <see cref="ContextCompletenessRules"/>
+/// </summary>
+public static class ContextCompleteness
+{
+    public static readonly string[] EntityTypes = ["TABLE", "COLUMN", "SP", "FUNCTION", "VIEW"];
+
+    /// <summary>
+    /// Context fields that can be scored → their value. Names match EntityContext properties.
+    /// </summary>
+    private static readonly Dictionary<string, Func<EntityContext, string?>> ScorableFields = new()
+    {
+        ["Purpose"] = c => c.Purpose,
+        ["BusinessImpact"] = c => c.BusinessImpact,
+        ["BusinessDomain"] = c => c.BusinessDomain,
+        ["Sensitivity"] = c => c.Sensitivity,
+        ["DataSource"] = c => c.DataSource,
+        ["ValidationRules"] = c => c.ValidationRules,
+        ["RetentionPolicy"] = c => c.RetentionPolicy,
+        ["DataFlow"] = c => c.DataFlow,
+        ["Frequency"] = c => c.Frequency
+    };
+
+    public static IReadOnlyCollection<string> FieldNames => ScorableFields.Keys;
+
+    /// <summary>
+    /// Built-in rules: purpose (required) 35, business domain 20, business impact 20,
+    /// plus sensitivity for columns and data flow for stored procedures at 15
+    /// </summary>
+    public static ContextCompletenessRules Defaults()
+    {
+        return new ContextCompletenessRules
+        {
+            Fields = EntityTypes.ToDictionary(type => type, type =>
+            {
+                List<CompletenessFieldRule> fields =
+                [
+                    new() { Field = "Purpose", Weight = 35, Required = true },
+                    new() { Field = "BusinessDomain", Weight = 20 },
+                    new() { Field = "BusinessImpact", Weight = 20 }
+                ];
+                if (type == "COLUMN") fields.Add(new() { Field = "Sensitivity", Weight = 15 });
+                if (type == "SP") fields.Add(new() { Field = "DataFlow", Weight = 15 });
+                return fields;
+            }),
+            GoodThreshold = 80,
+            FairThreshold = 50
+        };
+    }
+
+    /// <summary>
+    /// Weighted share of the entity type's scored fields that are filled, 0-100
+    /// </summary>
+    public static int Score(EntityContext context, ContextCompletenessRules rules)
+    {
+        return Score(context.EntityType, FilledFields(context), rules);
+    }
+
+    /// <summary>
+    /// <see cref="Score(EntityContext, ContextCompletenessRules)"/> from filled-field flags
+    /// </summary>
+    public static int Score(ContextFieldFlags flags, ContextCompletenessRules rules)
+    {
+        return Score(flags.EntityType, FilledFields(flags), rules);
+    }
+
+    /// <summary>
+    /// Every required field is filled; without required fields, any scored field is
+    /// </summary>
+    public static bool IsDocumented(EntityContext context, ContextCompletenessRules rules)
+    {
+        return IsDocumented(context.EntityType, FilledFields(context), rules);
+    }
+
+    /// <summary>
+    /// <see cref="IsDocumented(EntityContext, ContextCompletenessRules)"/> from filled-field flags
+    /// </summary>
+    public static bool IsDocumented(ContextFieldFlags flags, ContextCompletenessRules rules)
+    {
+        return IsDocumented(flags.EntityType, FilledFields(flags), rules);
+    }
+
+    /// <summary>
+    /// Problems that make the rules unusable; empty when they are valid
+    /// </summary>
+    public static List<string> Validate(ContextCompletenessRules rules)
+    {
+        var errors = new List<string>();
+
+        if (rules.GoodThreshold is < 1 or > 100)
+        {
+            errors.Add("Good threshold must be between 1 and 100");
+        }
+        if (rules.FairThreshold < 0 || rules.FairThreshold >= rules.GoodThreshold)
+        {
+            errors.Add("Fair threshold must be at least 0 and below the good threshold");
+        }
+
+        foreach (var (entityType, fields) in rules.Fields)
+        {
+            if (!EntityTypes.Contains(entityType))
+            {
+                errors.Add($"Unknown entity type '{entityType}'");
+                continue;
+            }
+
+            foreach (var field in fields)
+            {
+                if (!ScorableFields.ContainsKey(field.Field))
+                {
+                    errors.Add($"{entityType}: '{field.Field}' is not a scorable context field");
+                }
+                if (field.Weight is < 0 or > 100)
+                {
+                    errors.Add($"{entityType}: weight of {field.Field} must be between 0 and 100");
+                }
+            }
+
+            if (fields.GroupBy(f => f.Field).Any(g => g.Count() > 1))
+            {
+                errors.Add($"{entityType}: a field is listed more than once");
+            }
+            if (fields.Sum(f => f.Weight) <= 0)
+            {
+                errors.Add($"{entityType}: at least one field needs a weight above 0");
+            }
+        }
+
+        return errors;
+    }
+
+    /// <summary>
+    /// The type's configured fields, falling back to the built-in ones for types the rules leave out
+    /// </summary>
+    private static List<CompletenessFieldRule> FieldsFor(string entityType, ContextCompletenessRules rules)
+    {
+        if (rules.Fields.TryGetValue(entityType, out var fields))
+        {
+            return fields;
+        }
+
+        return Defaults().Fields.TryGetValue(entityType, out var defaults) ? defaults : [];
+    }
+
+    private static int Score(string entityType, HashSet<string> filled, ContextCompletenessRules rules)
+    {
+        var fields = FieldsFor(entityType, rules);
+        var maxScore = fields.Sum(f => f.Weight);
+        if (maxScore <= 0)
+        {
+            return 0;
+        }
+
+        var score = fields.Where(f => filled.Contains(f.Field)).Sum(f => f.Weight);
+        return (int)Math.Round((double)score / maxScore * 100);
+    }
+
+    private static bool IsDocumented(string entityType, HashSet<string> filled, ContextCompletenessRules rules)
+    {
+        var fields = FieldsFor(entityType, rules);
+        var required = fields.Where(f => f.Required).ToList();
+
+        return required.Count > 0
+            ? required.All(f => filled.Contains(f.Field))
+            : fields.Any(f => filled.Contains(f.Field));
+    }
+
+    private static HashSet<string> FilledFields(EntityContext context)
+    {
+        return [.. ScorableFields.Where(f => !string.IsNullOrWhiteSpace(f.Value(context))).Select(f => f.Key)];
+    }
+
+    private static HashSet<string> FilledFields(ContextFieldFlags flags)
+    {
+        var filled = new HashSet<string>();
+        if (flags.HasPurpose) filled.Add("Purpose");
+        if (flags.HasBusinessImpact) filled.Add("BusinessImpact");
+        if (flags.HasBusinessDomain) filled.Add("BusinessDomain");
+        if (flags.HasSensitivity) filled.Add("Sensitivity");
+        if (flags.HasDataSource) filled.Add("DataSource");
+        if (flags.HasValidationRules) filled.Add("ValidationRules");
+        if (flags.HasRetentionPolicy) filled.Add("RetentionPolicy");
+        if (flags.HasDataFlow) filled.Add("DataFlow");
+        if (flags.HasFrequency) filled.Add("Frequency");
+        return filled;
+    }
+}
@@ -18,11 +18,15 @@ namespace ActoEngine.WebApi.Features.Context;
 public class ContextController(
     IContextService contextService,
     ILogger<ContextController> logger,
-    IOptions<BatchSettings> batchSettings) : ControllerBase
+    IOptions<BatchSettings> batchSettings,
+    IOptions<ContextReviewSettings> reviewSettings,
+    IOptions<SensitivityClassifierSettings> classifierSettings) : ControllerBase
 {
     private readonly IContextService _contextService = contextService;
     private readonly ILogger<ContextController> _logger = logger;
     private readonly BatchSettings _batchSettings = batchSettings.Value;
+    private readonly ContextReviewSettings _reviewSettings = reviewSettings.Value;
+    private readonly SensitivityClassifierSettings _classifierSettings = classifierSettings.Value;
 
     #region Context CRUD
 
@@ -192,8 +196,9 @@ public class ContextController(
                 fullRequest,
                 userId.Value);
 
-            // Calculate completeness
-            var completeness = CalculateCompleteness(context);
+            // Calculate completeness with the project's rules
+            var completenessSettings = await _contextService.GetCompletenessRulesAsync(projectId);
+            var completeness = _contextService.CalculateCompletenessScore(context, completenessSettings.Rules);
 
             return Ok(ApiResponse<QuickSaveResponse>.Success(
                 new QuickSaveResponse
@@ -216,16 +221,80 @@ public class ContextController(
         }
     }
 
-    private static int CalculateCompleteness(EntityContext context)
+    #endregion
+
+    #region History
+
+    /// <summary>
+    /// Get the field-level change history for an entity, newest first
+    /// </summary>
+    /// <param name="projectId">Project ID</param>
+    /// <param name="entityType">Entity type</param>
+    /// <param name="entityId">Entity ID</param>
+    [HttpGet("{entityType:regex(^(TABLE|COLUMN|SP|FUNCTION|VIEW)$)}/{entityId:int}/history")]
+    [RequirePermission("Contexts:Read")]
+    [ProducesResponseType(typeof(IEnumerable<ContextHistoryEntry>), StatusCodes.Status200OK)]
+    public async Task<IActionResult> GetHistory(
+        int projectId,
+        string entityType,
+        int entityId)
+    {
+        try
+        {
+            var history = await _contextService.GetContextHistoryAsync(projectId, entityType, entityId);
+            return Ok(ApiResponse<IEnumerable<ContextHistoryEntry>>.Success(history, "Context history retrieved successfully"));
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error getting context history for {EntityType} {EntityId}", entityType, entityId);
+            return StatusCode(500, ApiResponse<object>.Failure("An error occurred while retrieving context history"));
+        }
+    }
+
+    /// <summary>
+    /// Restore the value a field had before the given change
+    /// </summary>
+    /// <param name="projectId">Project ID</param>
+    /// <param name="entityType">Entity type</param>
+    /// <param name="entityId">Entity ID</param>
+    /// <param name="historyId">History entry whose old value is restored</param>
+    [HttpPost("{entityType:regex(^(TABLE|COLUMN|SP|FUNCTION|VIEW)$)}/{entityId:int}/history/{historyId:int}/restore")]
+    [RequirePermission("Contexts:Update")]
+    [ProducesResponseType(typeof(EntityContext), StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<IActionResult> RestoreFromHistory(
+        int projectId,
+        string entityType,
+        int entityId,
+        int historyId)
     {
-        var fields = new[]
+        try
+        {
+            var userId = HttpContext.GetUserId();
+            if (userId == null)
+            {
+                return Unauthorized(ApiResponse<object>.Failure("User not authenticated"));
+            }
+
+            var context = await _contextService.RestoreContextFieldAsync(
+                projectId, entityType, entityId, historyId, userId.Value);
+
+            return Ok(ApiResponse<EntityContext>.Success(context, "Previous value restored"));
+        }
+        catch (KeyNotFoundException ex)
         {
-            context.Purpose,
-            context.BusinessImpact,
-            context.BusinessDomain
-        };
-        var filled = fields.Count(f => !string.IsNullOrWhiteSpace(f));
-        return (int)Math.Round((filled / (double)fields.Length) * 100);
+            return NotFound(ApiResponse<object>.Failure(ex.Message));
+        }
+        catch (ArgumentException ex)
+        {
+            return BadRequest(ApiResponse<object>.Failure(ex.Message));
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error restoring context history {HistoryId} for {EntityType} {EntityId}", historyId, entityType, entityId);
+            return StatusCode(500, ApiResponse<object>.Failure("An error occurred while restoring context"));
+        }
     }
 
     #endregion
@@ -359,6 +428,47 @@ public class ContextController(
 
     #region Bulk Operations
 
+    /// <summary>
+    /// Entities with their full context, for the bulk context editor grid
+    /// </summary>
+    /// <param name="projectId">Project ID</param>
+    /// <param name="type">Entity types to include (TABLE, COLUMN, SP, FUNCTION, VIEW); all when omitted</param>
+    /// <param name="undocumentedOnly">Only entities without a purpose</param>
+    /// <param name="limit">Maximum number of rows (1-10000)</param>
+    [HttpGet("grid")]
+    [RequirePermission("Contexts:Read")]
+    [ProducesResponseType(typeof(IEnumerable<ContextGridRow>), StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    public async Task<IActionResult> GetContextGrid(
+        int projectId,
+        [FromQuery] List<string>? type,
+        [FromQuery] bool undocumentedOnly = false,
+        [FromQuery] int limit = 5000)
+    {
+        try
+        {
+            if (limit < 1 || limit > 10000)
+            {
+                return BadRequest(ApiResponse<object>.Failure("Limit must be between 1 and 10000"));
+            }
+
+            var entityTypes = (type ?? []).Select(t => t.Trim().ToUpperInvariant()).Distinct().ToList();
+            var unknownTypes = entityTypes.Where(t => !SearchableEntityTypes.Contains(t)).ToList();
+            if (unknownTypes.Count > 0)
+            {
+                return BadRequest(ApiResponse<object>.Failure($"Unknown entity type(s): {string.Join(", ", unknownTypes)}"));
+            }
+
+            var rows = await _contextService.GetContextGridAsync(projectId, entityTypes, undocumentedOnly, limit);
+            return Ok(ApiResponse<IEnumerable<ContextGridRow>>.Success(rows, "Context grid retrieved successfully"));
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error getting context grid for project {ProjectId}", projectId);
+            return StatusCode(500, ApiResponse<object>.Failure("An error occurred while retrieving the context grid"));
+        }
+    }
+
     /// <summary>
     /// Bulk import context entries
     /// </summary>
@@ -394,6 +504,527 @@ public class ContextController(
 
     #endregion
 
+    #region Export
+
+    /// <summary>
+    /// Export context as a downloadable JSON, CSV or XLSX file
+    /// </summary>
+    /// <param name="projectId">Project ID</param>
+    /// <param name="type">Entity types to include (TABLE, COLUMN, SP, FUNCTION, VIEW); all when omitted</param>
+    /// <param name="domain">Business domains to include; all when omitted</param>
+    /// <param name="sensitivity">Sensitivity levels to include; all when omitted</param>
+    /// <param name="minCriticality">Minimum criticality level (1-5)</param>
+    /// <param name="minCompleteness">Minimum completeness score (0-100)</param>
+    /// <param name="maxCompleteness">Maximum completeness score (0-100)</param>
+    /// <param name="includeExperts">Add each entity's experts</param>
+    /// <param name="includeHistory">Add the field change history (a second sheet for XLSX, a second file for CSV)</param>
+    /// <param name="format">json, csv or xlsx</param>
+    [HttpGet("export")]
+    [RequirePermission("Contexts:Read")]
+    [ProducesResponseType(typeof(FileContentResult), StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    public async Task<IActionResult> ExportContext(
+        int projectId,
+        [FromQuery] List<string>? type,
+        [FromQuery] List<string>? domain,
+        [FromQuery] List<string>? sensitivity,
+        [FromQuery] int? minCriticality,
+        [FromQuery] int? minCompleteness,
+        [FromQuery] int? maxCompleteness,
+        [FromQuery] bool includeExperts = false,
+        [FromQuery] bool includeHistory = false,
+        [FromQuery] string format = "csv")
+    {
+        try
+        {
+            if (!ContextExportWriter.Formats.Contains(format))
+            {
+                return BadRequest(ApiResponse<object>.Failure("Format must be json, csv or xlsx"));
+            }
+
+            var entityTypes = (type ?? []).Select(t => t.Trim().ToUpperInvariant()).Distinct().ToList();
+            var unknownTypes = entityTypes.Where(t => !SearchableEntityTypes.Contains(t)).ToList();
+            if (unknownTypes.Count > 0)
+            {
+                return BadRequest(ApiResponse<object>.Failure($"Unknown entity type(s): {string.Join(", ", unknownTypes)}"));
+            }
+
+            if (minCriticality is < 1 or > 5)
+            {
+                return BadRequest(ApiResponse<object>.Failure("Minimum criticality must be between 1 and 5"));
+            }
+
+            if (minCompleteness is < 0 or > 100 || maxCompleteness is < 0 or > 100 || minCompleteness > maxCompleteness)
+            {
+                return BadRequest(ApiResponse<object>.Failure("Completeness must be a range between 0 and 100"));
+            }
+
+            var filter = new ContextExportFilter
+            {
+                EntityTypes = entityTypes,
+                Domains = (domain ?? []).Where(d => !string.IsNullOrWhiteSpace(d)).Select(d => d.Trim()).Distinct().ToList(),
+                Sensitivities = (sensitivity ?? []).Where(s => !string.IsNullOrWhiteSpace(s)).Select(s => s.Trim()).Distinct().ToList(),
+                MinCriticality = minCriticality,
+                MinCompleteness = minCompleteness,
+                MaxCompleteness = maxCompleteness,
+                IncludeExperts = includeExperts,
+                IncludeHistory = includeHistory
+            };
+
+            var file = await _contextService.ExportContextAsync(projectId, format, filter);
+            return File(file.Content, file.ContentType, file.FileName);
+        }
+        catch (ArgumentException ex)
+        {
+            return BadRequest(ApiResponse<object>.Failure(ex.Message));
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error exporting context for project {ProjectId}", projectId);
+            return StatusCode(500, ApiResponse<object>.Failure("An error occurred while exporting context"));
+        }
+    }
+
+    /// <summary>
+    /// Publish the project's data dictionary: a zipped static HTML site of every table, column and
+    /// stored procedure with its context, experts and relationships, browsable without an account
+    /// </summary>
+    /// <param name="projectId">Project ID</param>
+    [HttpGet("data-dictionary")]
+    [RequirePermission("Contexts:Read")]
+    [ProducesResponseType(typeof(FileContentResult), StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<IActionResult> PublishDataDictionary(int projectId)
+    {
+        try
+        {
+            var file = await _contextService.PublishDataDictionaryAsync(projectId);
+            return File(file.Content, file.ContentType, file.FileName);
+        }
+        catch (KeyNotFoundException ex)
+        {
+            return NotFound(ApiResponse<object>.Failure(ex.Message));
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error publishing data dictionary for project {ProjectId}", projectId);
+            return StatusCode(500, ApiResponse<object>.Failure("An error occurred while publishing the data dictionary"));
+        }
+    }
+
+    #endregion
+
+    #region Review Queue
+
+    /// <summary>
+    /// Get stale documented entities in review priority order (criticality × reference count)
+    /// </summary>
+    /// <param name="projectId">Project ID</param>
+    /// <param name="limit">Maximum number of entities (1-500)</param>
+    [HttpGet("review-queue")]
+    [RequirePermission("Contexts:Read")]
+    [ProducesResponseType(typeof(List<ContextReviewItem>), StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    public async Task<IActionResult> GetReviewQueue(int projectId, [FromQuery] int limit = 200)
+    {
+        try
+        {
+            if (limit is < 1 or > 500)
+            {
+                return BadRequest(ApiResponse<object>.Failure("Limit must be between 1 and 500"));
+            }
+
+            var items = await _contextService.GetReviewQueueAsync(projectId, _reviewSettings.StaleAfterDays, limit);
+            return Ok(ApiResponse<List<ContextReviewItem>>.Success(items, "Review queue retrieved successfully"));
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error getting context review queue for project {ProjectId}", projectId);
+            return StatusCode(500, ApiResponse<object>.Failure("An error occurred while retrieving the review queue"));
+        }
+    }
+
+    /// <summary>
+    /// Confirm an entity's context is still accurate, resetting its staleness without editing it
+    /// </summary>
+    /// <param name="projectId">Project ID</param>
+    /// <param name="entityType">Entity type</param>
+    /// <param name="entityId">Entity ID</param>
+    [HttpPost("{entityType:regex(^(TABLE|COLUMN|SP|FUNCTION|VIEW)$)}/{entityId:int}/review/confirm")]
+    [RequirePermission("Contexts:Update")]
+    [ProducesResponseType(StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<IActionResult> ConfirmContextAccurate(int projectId, string entityType, int entityId)
+    {
+        try
+        {
+            var userId = HttpContext.GetUserId();
+            if (userId == null)
+            {
+                return Unauthorized(ApiResponse<object>.Failure("User not authenticated"));
+            }
+
+            await _contextService.ConfirmContextAccurateAsync(projectId, entityType, entityId, userId.Value);
+            return Ok(ApiResponse<object>.Success(new { }, "Context confirmed as still accurate"));
+        }
+        catch (KeyNotFoundException ex)
+        {
+            return NotFound(ApiResponse<object>.Failure(ex.Message));
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error confirming context for {EntityType} {EntityId}", entityType, entityId);
+            return StatusCode(500, ApiResponse<object>.Failure("An error occurred while confirming context"));
+        }
+    }
+
+    /// <summary>
+    /// Hide an entity from the review queue for a number of days
+    /// </summary>
+    /// <param name="projectId">Project ID</param>
+    /// <param name="entityType">Entity type</param>
+    /// <param name="entityId">Entity ID</param>
+    /// <param name="request">Snooze length in days</param>
+    [HttpPost("{entityType:regex(^(TABLE|COLUMN|SP|FUNCTION|VIEW)$)}/{entityId:int}/review/snooze")]
+    [RequirePermission("Contexts:Update")]
+    [ProducesResponseType(typeof(SnoozeContextReviewResponse), StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<IActionResult> SnoozeContextReview(
+        int projectId,
+        string entityType,
+        int entityId,
+        [FromBody] SnoozeContextReviewRequest request)
+    {
+        try
+        {
+            if (!ModelState.IsValid || request.Days > _reviewSettings.MaxSnoozeDays)
+            {
+                return BadRequest(ApiResponse<object>.Failure($"Snooze must be between 1 and {_reviewSettings.MaxSnoozeDays} days"));
+            }
+
+            var snoozedUntil = await _contextService.SnoozeContextReviewAsync(projectId, entityType, entityId, request.Days);
+            return Ok(ApiResponse<SnoozeContextReviewResponse>.Success(
+                new SnoozeContextReviewResponse { SnoozedUntil = snoozedUntil },
+                $"Snoozed for {request.Days} day(s)"));
+        }
+        catch (KeyNotFoundException ex)
+        {
+            return NotFound(ApiResponse<object>.Failure(ex.Message));
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error snoozing context review for {EntityType} {EntityId}", entityType, entityId);
+            return StatusCode(500, ApiResponse<object>.Failure("An error occurred while snoozing the review"));
+        }
+    }
+
+    /// <summary>
+    /// Send every owner or expert of a stale entity one digest notification listing what needs review.
+    /// Digests are not scheduled; they go out only when this is called.
+    /// </summary>
+    /// <param name="projectId">Project ID</param>
+    [HttpPost("review-queue/notify")]
+    [RequirePermission("Contexts:Update")]
+    [ProducesResponseType(typeof(ContextReviewDigestResult), StatusCodes.Status200OK)]
+    public async Task<IActionResult> SendReviewDigest(int projectId)
+    {
+        try
+        {
+            var result = await _contextService.SendReviewDigestAsync(projectId, _reviewSettings.StaleAfterDays);
+            return Ok(ApiResponse<ContextReviewDigestResult>.Success(result, $"Notified {result.NotifiedOwners} owner(s)"));
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error sending context review digest for project {ProjectId}", projectId);
+            return StatusCode(500, ApiResponse<object>.Failure("An error occurred while notifying owners"));
+        }
+    }
+
+    #endregion
+
+    #region Sensitivity Classification
+
+    /// <summary>
+    /// Scan every column of the project and propose sensitivity tags from the configured rule packs
+    /// </summary>
+    /// <param name="projectId">Project ID</param>
+    [HttpGet("sensitivity/proposals")]
+    [RequirePermission("Contexts:Read")]
+    [ProducesResponseType(typeof(SensitivityScanResult), StatusCodes.Status200OK)]
+    public async Task<IActionResult> GetSensitivityProposals(int projectId)
+    {
+        try
+        {
+            var rulePacks = SensitivityClassifier.ResolveRulePacks(_classifierSettings);
+            var result = await _contextService.ScanSensitivityAsync(projectId, rulePacks);
+            return Ok(ApiResponse<SensitivityScanResult>.Success(result, $"{result.Proposals.Count} sensitivity tag(s) proposed"));
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error scanning column sensitivity for project {ProjectId}", projectId);
+            return StatusCode(500, ApiResponse<object>.Failure("An error occurred while scanning column sensitivity"));
+        }
+    }
+
+    /// <summary>
+    /// Save accepted proposals as the columns' context sensitivity
+    /// </summary>
+    /// <param name="projectId">Project ID</param>
+    /// <param name="request">Columns and the tag to apply to each</param>
+    [HttpPost("sensitivity/proposals/accept")]
+    [RequirePermission("Contexts:Update")]
+    [ProducesResponseType(typeof(IEnumerable<BulkImportResult>), StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    public async Task<IActionResult> AcceptSensitivityProposals(int projectId, [FromBody] SensitivityDecisionRequest request)
+    {
+        try
+        {
+            var invalid = ValidateSensitivityDecisions(request);
+            if (invalid != null)
+            {
+                return invalid;
+            }
+
+            var userId = HttpContext.GetUserId();
+            if (userId == null)
+            {
+                return Unauthorized(ApiResponse<object>.Failure("User not authenticated"));
+            }
+
+            var results = await _contextService.AcceptSensitivityProposalsAsync(projectId, request.Decisions, userId.Value);
+            return Ok(ApiResponse<IEnumerable<BulkImportResult>>.Success(
+                results,
+                $"Applied {results.Count(r => r.Success)} of {results.Count} sensitivity tag(s)"));
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error accepting sensitivity proposals for project {ProjectId}", projectId);
+            return StatusCode(500, ApiResponse<object>.Failure("An error occurred while applying sensitivity tags"));
+        }
+    }
+
+    /// <summary>
+    /// Reject proposals so the classifier no longer proposes them
+    /// </summary>
+    /// <param name="projectId">Project ID</param>
+    /// <param name="request">Columns and the rejected tag for each</param>
+    [HttpPost("sensitivity/proposals/reject")]
+    [RequirePermission("Contexts:Update")]
+    [ProducesResponseType(StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    public async Task<IActionResult> RejectSensitivityProposals(int projectId, [FromBody] SensitivityDecisionRequest request)
+    {
+        try
+        {
+            var invalid = ValidateSensitivityDecisions(request);
+            if (invalid != null)
+            {
+                return invalid;
+            }
+
+            var userId = HttpContext.GetUserId();
+            if (userId == null)
+            {
+                return Unauthorized(ApiResponse<object>.Failure("User not authenticated"));
+            }
+
+            var rejected = await _contextService.RejectSensitivityProposalsAsync(projectId, request.Decisions, userId.Value);
+            return Ok(ApiResponse<object>.Success(new { rejected }, $"Rejected {rejected} proposal(s)"));
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error rejecting sensitivity proposals for project {ProjectId}", projectId);
+            return StatusCode(500, ApiResponse<object>.Failure("An error occurred while rejecting proposals"));
+        }
+    }
+
+    private BadRequestObjectResult? ValidateSensitivityDecisions(SensitivityDecisionRequest request)
+    {
+        if (!ModelState.IsValid)
+        {
+            return BadRequest(ApiResponse<object>.Failure("Invalid request data", [.. ModelState.Values.SelectMany(v => v.Errors.Select(e => e.ErrorMessage))]));
+        }
+
+        if (request.Decisions.Count > 1000)
+        {
+            return BadRequest(ApiResponse<object>.Failure("At most 1000 decisions can be sent at once"));
+        }
+
+        var unknown = request.Decisions
+            .Select(d => d.Sensitivity)
+            .Where(s => !SensitivityClassifier.SensitivityLevels.Contains(s))
+            .Distinct()
+            .ToList();
+        if (unknown.Count > 0)
+        {
+            return BadRequest(ApiResponse<object>.Failure($"Unknown sensitivity level(s): {string.Join(", ", unknown)}"));
+        }
+
+        return null;
+    }
+
+    #endregion
+
+    #region Completeness Rules
+
+    /// <summary>
+    /// Get the completeness rules in effect for the project (its own, or the built-in defaults)
+    /// </summary>
+    /// <param name="projectId">Project ID</param>
+    [HttpGet("completeness-rules")]
+    [RequirePermission("Contexts:Read")]
+    [ProducesResponseType(typeof(ContextCompletenessSettings), StatusCodes.Status200OK)]
+    public async Task<IActionResult> GetCompletenessRules(int projectId)
+    {
+        try
+        {
+            var settings = await _contextService.GetCompletenessRulesAsync(projectId);
+            return Ok(ApiResponse<ContextCompletenessSettings>.Success(settings, "Completeness rules retrieved successfully"));
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error getting completeness rules for project {ProjectId}", projectId);
+            return StatusCode(500, ApiResponse<object>.Failure("An error occurred while retrieving completeness rules"));
+        }
+    }
+
+    /// <summary>
+    /// Replace the project's completeness rules: scored fields and weights per entity type, and thresholds
+    /// </summary>
+    /// <param name="projectId">Project ID</param>
+    /// <param name="rules">New rules</param>
+    [HttpPut("completeness-rules")]
+    [RequirePermission("Projects:Update")]
+    [ProducesResponseType(typeof(ContextCompletenessSettings), StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    public async Task<IActionResult> SaveCompletenessRules(int projectId, [FromBody] ContextCompletenessRules rules)
+    {
+        try
+        {
+            var errors = ContextCompleteness.Validate(rules);
+            if (!ModelState.IsValid || errors.Count > 0)
+            {
+                return BadRequest(ApiResponse<object>.Failure(
+                    "Invalid completeness rules",
+                    [.. ModelState.Values.SelectMany(v => v.Errors.Select(e => e.ErrorMessage)), .. errors]));
+            }
+
+            var userId = HttpContext.GetUserId();
+            if (userId == null)
+            {
+                return Unauthorized(ApiResponse<object>.Failure("User not authenticated"));
+            }
+
+            var settings = await _contextService.SaveCompletenessRulesAsync(projectId, rules, userId.Value);
+            return Ok(ApiResponse<ContextCompletenessSettings>.Success(settings, "Completeness rules saved"));
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error saving completeness rules for project {ProjectId}", projectId);
+            return StatusCode(500, ApiResponse<object>.Failure("An error occurred while saving completeness rules"));
+        }
+    }
+
+    /// <summary>
+    /// Go back to the built-in completeness rules
+    /// </summary>
+    /// <param name="projectId">Project ID</param>
+    [HttpDelete("completeness-rules")]
+    [RequirePermission("Projects:Update")]
+    [ProducesResponseType(typeof(ContextCompletenessSettings), StatusCodes.Status200OK)]
+    public async Task<IActionResult> ResetCompletenessRules(int projectId)
+    {
+        try
+        {
+            var settings = await _contextService.ResetCompletenessRulesAsync(projectId);
+            return Ok(ApiResponse<ContextCompletenessSettings>.Success(settings, "Completeness rules reset to defaults"));
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error resetting completeness rules for project {ProjectId}", projectId);
+            return StatusCode(500, ApiResponse<object>.Failure("An error occurred while resetting completeness rules"));
+        }
+    }
+
+    #endregion
+
+    #region Deprecation Board
+
+    /// <summary>
+    /// Deprecated entities with their lifecycle stage, replacement and remaining references
+    /// </summary>
+    /// <param name="projectId">Project ID</param>
+    [HttpGet("deprecations")]
+    [RequirePermission("Contexts:Read")]
+    [ProducesResponseType(typeof(DeprecationBoard), StatusCodes.Status200OK)]
+    public async Task<IActionResult> GetDeprecationBoard(int projectId)
+    {
+        try
+        {
+            var board = await _contextService.GetDeprecationBoardAsync(projectId);
+            return Ok(ApiResponse<DeprecationBoard>.Success(board, $"{board.Items.Count} deprecated entities"));
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error getting deprecation board for project {ProjectId}", projectId);
+            return StatusCode(500, ApiResponse<object>.Failure("An error occurred while retrieving the deprecation board"));
+        }
+    }
+
+    /// <summary>
+    /// Change a deprecated entity's lifecycle stage and target removal date
+    /// </summary>
+    /// <param name="projectId">Project ID</param>
+    /// <param name="entityType">Entity type</param>
+    /// <param name="entityId">Entity ID</param>
+    /// <param name="request">New status and removal date</param>
+    [HttpPut("{entityType:regex(^(TABLE|COLUMN|SP|FUNCTION|VIEW)$)}/{entityId:int}/deprecation")]
+    [RequirePermission("Contexts:Update")]
+    [ProducesResponseType(typeof(DeprecationBoardItem), StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<IActionResult> UpdateDeprecationLifecycle(
+        int projectId,
+        string entityType,
+        int entityId,
+        [FromBody] UpdateDeprecationRequest request)
+    {
+        try
+        {
+            if (!ModelState.IsValid)
+            {
+                return BadRequest(ApiResponse<object>.Failure(
+                    "Invalid request",
+                    [.. ModelState.Values.SelectMany(v => v.Errors.Select(e => e.ErrorMessage))]));
+            }
+
+            var userId = HttpContext.GetUserId();
+            if (userId == null)
+            {
+                return Unauthorized(ApiResponse<object>.Failure("User not authenticated"));
+            }
+
+            var item = await _contextService.UpdateDeprecationLifecycleAsync(projectId, entityType, entityId, request, userId.Value);
+            return Ok(ApiResponse<DeprecationBoardItem>.Success(item, "Deprecation status updated"));
+        }
+        catch (ArgumentException ex)
+        {
+            return BadRequest(ApiResponse<object>.Failure(ex.Message));
+        }
+        catch (KeyNotFoundException ex)
+        {
+            return NotFound(ApiResponse<object>.Failure(ex.Message));
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error updating deprecation for {EntityType} {EntityId}", entityType, entityId);
+            return StatusCode(500, ApiResponse<object>.Failure("An error occurred while updating the deprecation"));
+        }
+    }
+
+    #endregion
+
     #region Statistics
 
     /// <summary>
@@ -426,7 +1057,7 @@ public class ContextController(
     {
         try
         {
-            var entities = await _contextService.GetStaleContextEntitiesAsync(projectId);
+            var entities = await _contextService.GetStaleContextEntitiesAsync(projectId, _reviewSettings.StaleAfterDays);
             return Ok(ApiResponse<object>.Success(entities, "Stale entities retrieved successfully"));
         }
         catch (Exception ex)
@@ -512,7 +1143,7 @@ public class ContextController(
         try
         {
             var coverage = await _contextService.GetContextCoverageAsync(projectId);
-            var stale = await _contextService.GetStaleContextEntitiesAsync(projectId);
+            var stale = await _contextService.GetStaleContextEntitiesAsync(projectId, _reviewSettings.StaleAfterDays);
             var topDocumented = await _contextService.GetTopDocumentedEntitiesAsync(projectId, 5);
             var criticalUndocumented = await _contextService.GetCriticalUndocumentedAsync(projectId);
 
@@ -535,6 +1166,64 @@ public class ContextController(
 
     #endregion
 
+    #region Search
+
+    private static readonly HashSet<string> SearchableEntityTypes = ["TABLE", "COLUMN", "SP", "FUNCTION", "VIEW"];
+
+    /// <summary>
+    /// Search entities by name and by documented purpose, domain or sensitivity
+    /// </summary>
+    /// <param name="projectId">Project ID</param>
+    /// <param name="q">Search text, at least 2 characters</param>
+    /// <param name="type">Entity types to include (TABLE, COLUMN, SP, FUNCTION, VIEW); all when omitted</param>
+    /// <param name="domain">Business domains to include; all when omitted</param>
+    /// <param name="minCompleteness">Minimum completeness score (0-100)</param>
+    /// <param name="limit">Maximum number of results (1-100)</param>
+    [HttpGet("search")]
+    [RequirePermission("Contexts:Read")]
+    [ProducesResponseType(typeof(IEnumerable<ContextSearchResult>), StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    public async Task<IActionResult> Search(
+        int projectId,
+        [FromQuery] string? q,
+        [FromQuery] List<string>? type,
+        [FromQuery] List<string>? domain,
+        [FromQuery] int? minCompleteness,
+        [FromQuery] int limit = 25)
+    {
+        try
+        {
+            if (string.IsNullOrWhiteSpace(q) || q.Trim().Length < 2)
+            {
+                return BadRequest(ApiResponse<object>.Failure("Search text must be at least 2 characters"));
+            }
+
+            if (limit < 1 || limit > 100)
+            {
+                return BadRequest(ApiResponse<object>.Failure("Limit must be between 1 and 100"));
+            }
+
+            var entityTypes = (type ?? []).Select(t => t.Trim().ToUpperInvariant()).Distinct().ToList();
+            var unknownTypes = entityTypes.Where(t => !SearchableEntityTypes.Contains(t)).ToList();
+            if (unknownTypes.Count > 0)
+            {
+                return BadRequest(ApiResponse<object>.Failure($"Unknown entity type(s): {string.Join(", ", unknownTypes)}"));
+            }
+
+            var domains = (domain ?? []).Where(d => !string.IsNullOrWhiteSpace(d)).Select(d => d.Trim()).Distinct().ToList();
+
+            var results = await _contextService.SearchAsync(projectId, q, entityTypes, domains, minCompleteness, limit);
+            return Ok(ApiResponse<IEnumerable<ContextSearchResult>>.Success(results, "Search completed"));
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error searching context for project {ProjectId}", projectId);
+            return StatusCode(500, ApiResponse<object>.Failure("An error occurred while searching"));
+        }
+    }
+
+    #endregion
+
     #region Helper Methods
 
     /// <summary>
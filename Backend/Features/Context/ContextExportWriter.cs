@@ -0,0 +1,450 @@
+using System.IO.Compression;
+using System.Text;
+using System.Text.Json;
+using System.Xml;
+
+namespace ActoEngine.WebApi.Features.Context;
+
+/// <summary>
+/// Serializes exported context rows as JSON, CSV or XLSX.
+/// Column headers match the frontend import wizard so an export can be edited and imported back.
+/// </summary>
+public static class ContextExportWriter
+{
+    public static readonly IReadOnlySet<string> Formats = new HashSet<string>(StringComparer.OrdinalIgnoreCase) { "json", "csv", "xlsx" };
+
+    private const string XlsxContentType = "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+    private const string SpreadsheetNs = "http://schemas.openxmlformats.org/spreadsheetml/2006/main";
+    private const string RelationshipNs = "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+    private const string PackageRelationshipNs = "http://schemas.openxmlformats.org/package/2006/relationships";
+
+    private static readonly JsonSerializerOptions JsonOptions = new(JsonSerializerDefaults.Web) { WriteIndented = true };
+
+    private static readonly string[] HistoryHeaders =
+        ["Entity type", "Table", "Name", "Field", "Old value", "New value", "Changed at", "Changed by", "Reason"];
+
+    /// <summary>
+    /// Builds the export file. CSV exports that include history are zipped with a second history CSV.
+    /// </summary>
+    public static ContextExportFile Write(string format, IReadOnlyList<ContextExportRow> rows, bool includeExperts, bool includeHistory, string baseFileName)
+    {
+        switch (format.ToLowerInvariant())
+        {
+            case "json":
+                return new ContextExportFile
+                {
+                    Content = JsonSerializer.SerializeToUtf8Bytes(rows.Select(r => ToJson(r, includeExperts, includeHistory)), JsonOptions),
+                    ContentType = "application/json",
+                    FileName = $"{baseFileName}.json"
+                };
+
+            case "csv":
+                var contextCsv = ToCsv(BuildContextTable(rows, includeExperts));
+                if (!includeHistory)
+                {
+                    return new ContextExportFile
+                    {
+                        Content = contextCsv,
+                        ContentType = "text/csv; charset=utf-8",
+                        FileName = $"{baseFileName}.csv"
+                    };
+                }
+
+                return new ContextExportFile
+                {
+                    Content = Zip(new Dictionary<string, byte[]>
+                    {
+                        ["context.csv"] = contextCsv,
+                        ["history.csv"] = ToCsv(BuildHistoryTable(rows))
+                    }),
+                    ContentType = "application/zip",
+                    FileName = $"{baseFileName}.zip"
+                };
+
+            case "xlsx":
+                var sheets = new List<(string Name, List<List<object?>> Table)> { ("Context", BuildContextTable(rows, includeExperts)) };
+                if (includeHistory)
+                {
+                    sheets.Add(("History", BuildHistoryTable(rows)));
+                }
+
+                return new ContextExportFile
+                {
+                    Content = ToXlsx(sheets),
+                    ContentType = XlsxContentType,
+                    FileName = $"{baseFileName}.xlsx"
+                };
+
+            default:
+                throw new ArgumentException($"Unsupported export format '{format}'", nameof(format));
+        }
+    }
+
+    #region Tables
+
+    /// <summary>
+    /// Header row followed by one row per entity. Numbers stay numeric so spreadsheets can sort and filter them.
+    /// </summary>
+    internal static List<List<object?>> BuildContextTable(IReadOnlyList<ContextExportRow> rows, bool includeExperts)
+    {
+        var header = new List<object?>
+        {
+            "Entity type", "Table", "Name", "Purpose", "Business impact", "Criticality", "Domain", "Sensitivity",
+            "Data source", "Validation rules", "Retention policy", "Data flow", "Frequency", "Deprecated",
+            "Deprecation reason", "Replaced by", "Completeness", "Last updated"
+        };
+        if (includeExperts)
+        {
+            header.Add("Experts");
+        }
+
+        var table = new List<List<object?>> { header };
+        foreach (var row in rows)
+        {
+            var e = row.Entity;
+            var cells = new List<object?>
+            {
+                e.EntityType, e.ParentName, e.EntityName, e.Purpose, e.BusinessImpact, e.CriticalityLevel,
+                e.BusinessDomain, e.Sensitivity, e.DataSource, e.ValidationRules, e.RetentionPolicy, e.DataFlow,
+                e.Frequency, e.IsDeprecated == true ? "Yes" : "No", e.DeprecationReason, e.ReplacedBy,
+                row.CompletenessScore, e.LastContextUpdate?.ToString("yyyy-MM-dd HH:mm:ss")
+            };
+            if (includeExperts)
+            {
+                // Usernames, so the import wizard can resolve them
+                cells.Add(string.Join(", ", row.Experts.Select(x => x.Username)));
+            }
+            table.Add(cells);
+        }
+
+        return table;
+    }
+
+    internal static List<List<object?>> BuildHistoryTable(IReadOnlyList<ContextExportRow> rows)
+    {
+        var table = new List<List<object?>> { [.. HistoryHeaders] };
+        foreach (var row in rows)
+        {
+            foreach (var change in row.History)
+            {
+                table.Add(
+                [
+                    row.Entity.EntityType, row.Entity.ParentName, row.Entity.EntityName, change.FieldName,
+                    change.OldValue, change.NewValue, change.ChangedAt.ToString("yyyy-MM-dd HH:mm:ss"),
+                    change.ChangedByFullName ?? change.ChangedByUsername, change.ChangeReason
+                ]);
+            }
+        }
+
+        return table;
+    }
+
+    private static object ToJson(ContextExportRow row, bool includeExperts, bool includeHistory)
+    {
+        var e = row.Entity;
+        return new
+        {
+            e.EntityType,
+            e.EntityId,
+            e.EntityName,
+            e.ParentName,
+            e.Purpose,
+            e.BusinessImpact,
+            e.CriticalityLevel,
+            e.BusinessDomain,
+            e.Sensitivity,
+            e.DataSource,
+            e.ValidationRules,
+            e.RetentionPolicy,
+            e.DataFlow,
+            e.Frequency,
+            IsDeprecated = e.IsDeprecated ?? false,
+            e.DeprecationReason,
+            e.ReplacedBy,
+            e.LastContextUpdate,
+            row.CompletenessScore,
+            Experts = includeExperts
+                ? row.Experts.Select(x => new { x.UserId, x.Username, x.FullName, x.ExpertiseLevel })
+                : null,
+            History = includeHistory
+                ? row.History.Select(h => new
+                {
+                    h.FieldName,
+                    h.OldValue,
+                    h.NewValue,
+                    h.ChangedAt,
+                    ChangedBy = h.ChangedByUsername,
+                    h.ChangeReason
+                })
+                : null
+        };
+    }
+
+    #endregion
+
+    #region CSV
+
+    /// <summary>
+    /// RFC 4180 CSV with a UTF-8 byte order mark so Excel detects the encoding
+    /// </summary>
+    internal static byte[] ToCsv(List<List<object?>> table)
+    {
+        var sb = new StringBuilder();
+        foreach (var row in table)
+        {
+            sb.AppendJoin(',', row.Select(cell => EscapeCsv(cell is string text ? NeutraliseFormula(text) : FormatCell(cell))));
+            sb.Append("\r\n");
+        }
+
+        return [.. Encoding.UTF8.GetPreamble(), .. Encoding.UTF8.GetBytes(sb.ToString())];
+    }
+
+    private static string EscapeCsv(string value)
+    {
+        return value.IndexOfAny([',', '"', '\r', '\n']) >= 0
+            ? $"\"{value.Replace("\"", "\"\"")}\""
+            : value;
+    }
+
+    /// <summary>
+    /// Spreadsheet apps evaluate text starting with =, +, -, @, tab or CR as a formula; a leading quote keeps it literal.
+    /// The frontend's spreadsheetFile.ts applies the same rule to its CSVs and strips the quote on import.
+    /// </summary>
+    private static string NeutraliseFormula(string value)
+    {
+        return value.Length > 0 && value[0] is '=' or '+' or '-' or '@' or '\t' or '\r'
+            ? $"'{value}"
+            : value;
+    }
+
+    private static string FormatCell(object? cell) => cell switch
+    {
+        null => string.Empty,
+        IFormattable formattable => formattable.ToString(null, System.Globalization.CultureInfo.InvariantCulture),
+        _ => cell.ToString() ?? string.Empty
+    };
+
+    #endregion
+
+    #region XLSX
+
+    /// <summary>
+    /// Minimal SpreadsheetML workbook: inline strings, a bold frozen header row and an auto filter per sheet.
+    /// </summary>
+    internal static byte[] ToXlsx(IReadOnlyList<(string Name, List<List<object?>> Table)> sheets)
+    {
+        using var stream = new MemoryStream();
+        using (var archive = new ZipArchive(stream, ZipArchiveMode.Create, leaveOpen: true))
+        {
+            WriteXml(archive, "[Content_Types].xml", w =>
+            {
+                w.WriteStartElement("Types", "http://schemas.openxmlformats.org/package/2006/content-types");
+                WriteDefault(w, "rels", "application/vnd.openxmlformats-package.relationships+xml");
+                WriteDefault(w, "xml", "application/xml");
+                WriteOverride(w, "/xl/workbook.xml", "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml");
+                WriteOverride(w, "/xl/styles.xml", "application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml");
+                for (var i = 1; i <= sheets.Count; i++)
+                {
+                    WriteOverride(w, $"/xl/worksheets/sheet{i}.xml", "application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml");
+                }
+                w.WriteEndElement();
+            });
+
+            WriteXml(archive, "_rels/.rels", w =>
+            {
+                w.WriteStartElement("Relationships", PackageRelationshipNs);
+                WriteRelationship(w, "rId1", "http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument", "xl/workbook.xml");
+                w.WriteEndElement();
+            });
+
+            WriteXml(archive, "xl/workbook.xml", w =>
+            {
+                w.WriteStartElement("workbook", SpreadsheetNs);
+                w.WriteAttributeString("xmlns", "r", null, RelationshipNs);
+                w.WriteStartElement("sheets", SpreadsheetNs);
+                for (var i = 0; i < sheets.Count; i++)
+                {
+                    w.WriteStartElement("sheet", SpreadsheetNs);
+                    w.WriteAttributeString("name", sheets[i].Name);
+                    w.WriteAttributeString("sheetId", (i + 1).ToString());
+                    w.WriteAttributeString("id", RelationshipNs, $"rId{i + 1}");
+                    w.WriteEndElement();
+                }
+                w.WriteEndElement();
+                w.WriteEndElement();
+            });
+
+            WriteXml(archive, "xl/_rels/workbook.xml.rels", w =>
+            {
+                w.WriteStartElement("Relationships", PackageRelationshipNs);
+                for (var i = 1; i <= sheets.Count; i++)
+                {
+                    WriteRelationship(w, $"rId{i}", "http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet", $"worksheets/sheet{i}.xml");
+                }
+                WriteRelationship(w, $"rId{sheets.Count + 1}", "http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles", "styles.xml");
+                w.WriteEndElement();
+            });
+
+            WriteXml(archive, "xl/styles.xml", w =>
+            {
+                w.WriteStartElement("styleSheet", SpreadsheetNs);
+                w.WriteStartElement("fonts", SpreadsheetNs);
+                w.WriteAttributeString("count", "2");
+                w.WriteStartElement("font", SpreadsheetNs);
+                w.WriteEndElement();
+                w.WriteStartElement("font", SpreadsheetNs);
+                w.WriteStartElement("b", SpreadsheetNs);
+                w.WriteEndElement();
+                w.WriteEndElement();
+                w.WriteEndElement();
+                w.WriteRaw("<fills count=\"1\"><fill><patternFill patternType=\"none\"/></fill></fills>");
+                w.WriteRaw("<borders count=\"1\"><border/></borders>");
+                w.WriteRaw("<cellStyleXfs count=\"1\"><xf/></cellStyleXfs>");
+                w.WriteRaw("<cellXfs count=\"2\"><xf/><xf fontId=\"1\" applyFont=\"1\"/></cellXfs>");
+                w.WriteEndElement();
+            });
+
+            for (var i = 0; i < sheets.Count; i++)
+            {
+                var table = sheets[i].Table;
+                WriteXml(archive, $"xl/worksheets/sheet{i + 1}.xml", w => WriteSheet(w, table));
+            }
+        }
+
+        return stream.ToArray();
+    }
+
+    private static void WriteSheet(XmlWriter w, List<List<object?>> table)
+    {
+        var columnCount = table.Count > 0 ? table.Max(r => r.Count) : 0;
+
+        w.WriteStartElement("worksheet", SpreadsheetNs);
+        if (table.Count > 1)
+        {
+            w.WriteRaw("<sheetViews><sheetView workbookViewId=\"0\"><pane ySplit=\"1\" topLeftCell=\"A2\" activePane=\"bottomLeft\" state=\"frozen\"/></sheetView></sheetViews>");
+        }
+
+        w.WriteStartElement("sheetData", SpreadsheetNs);
+        for (var r = 0; r < table.Count; r++)
+        {
+            w.WriteStartElement("row", SpreadsheetNs);
+            w.WriteAttributeString("r", (r + 1).ToString());
+            for (var c = 0; c < table[r].Count; c++)
+            {
+                var value = table[r][c];
+                if (value is null || (value is string s && s.Length == 0))
+                {
+                    continue;
+                }
+
+                w.WriteStartElement("c", SpreadsheetNs);
+                w.WriteAttributeString("r", CellReference(c, r));
+                if (r == 0)
+                {
+                    w.WriteAttributeString("s", "1");
+                }
+
+                if (value is int or long or decimal or double)
+                {
+                    w.WriteElementString("v", SpreadsheetNs, FormatCell(value));
+                }
+                else
+                {
+                    w.WriteAttributeString("t", "inlineStr");
+                    w.WriteStartElement("is", SpreadsheetNs);
+                    w.WriteStartElement("t", SpreadsheetNs);
+                    w.WriteAttributeString("xml", "space", null, "preserve");
+                    w.WriteString(SanitizeXml(FormatCell(value)));
+                    w.WriteEndElement();
+                    w.WriteEndElement();
+                }
+                w.WriteEndElement();
+            }
+            w.WriteEndElement();
+        }
+        w.WriteEndElement();
+
+        if (table.Count > 1 && columnCount > 0)
+        {
+            w.WriteStartElement("autoFilter", SpreadsheetNs);
+            w.WriteAttributeString("ref", $"A1:{CellReference(columnCount - 1, table.Count - 1)}");
+            w.WriteEndElement();
+        }
+        w.WriteEndElement();
+    }
+
+    /// <summary>
+    /// Zero-based column and row to an A1 reference: (27, 0) → "AB1"
+    /// </summary>
+    internal static string CellReference(int column, int row)
+    {
+        var letters = string.Empty;
+        for (var n = column + 1; n > 0; n = (n - 1) / 26)
+        {
+            letters = (char)('A' + (n - 1) % 26) + letters;
+        }
+        return $"{letters}{row + 1}";
+    }
+
+    /// <summary>
+    /// Drops characters XML 1.0 cannot represent (control characters pasted into descriptions)
+    /// </summary>
+    private static string SanitizeXml(string value)
+    {
+        return value.Any(ch => !XmlConvert.IsXmlChar(ch) && !char.IsSurrogate(ch))
+            ? string.Concat(value.Where(ch => XmlConvert.IsXmlChar(ch) || char.IsSurrogate(ch)))
+            : value;
+    }
+
+    private static void WriteXml(ZipArchive archive, string entryName, Action<XmlWriter> write)
+    {
+        var entry = archive.CreateEntry(entryName, CompressionLevel.Optimal);
+        using var entryStream = entry.Open();
+        using var writer = XmlWriter.Create(entryStream, new XmlWriterSettings { Encoding = new UTF8Encoding(false) });
+        writer.WriteStartDocument(true);
+        write(writer);
+        writer.WriteEndDocument();
+    }
+
+    private static void WriteDefault(XmlWriter w, string extension, string contentType)
+    {
+        w.WriteStartElement("Default", "http://schemas.openxmlformats.org/package/2006/content-types");
+        w.WriteAttributeString("Extension", extension);
+        w.WriteAttributeString("ContentType", contentType);
+        w.WriteEndElement();
+    }
+
+    private static void WriteOverride(XmlWriter w, string partName, string contentType)
+    {
+        w.WriteStartElement("Override", "http://schemas.openxmlformats.org/package/2006/content-types");
+        w.WriteAttributeString("PartName", partName);
+        w.WriteAttributeString("ContentType", contentType);
+        w.WriteEndElement();
+    }
+
+    private static void WriteRelationship(XmlWriter w, string id, string type, string target)
+    {
+        w.WriteStartElement("Relationship", PackageRelationshipNs);
+        w.WriteAttributeString("Id", id);
+        w.WriteAttributeString("Type", type);
+        w.WriteAttributeString("Target", target);
+        w.WriteEndElement();
+    }
+
+    #endregion
+
+    internal static byte[] Zip(Dictionary<string, byte[]> files)
+    {
+        using var stream = new MemoryStream();
+        using (var archive = new ZipArchive(stream, ZipArchiveMode.Create, leaveOpen: true))
+        {
+            foreach (var (name, content) in files)
+            {
+                var entry = archive.CreateEntry(name, CompressionLevel.Optimal);
+                using var entryStream = entry.Open();
+                entryStream.Write(content);
+            }
+        }
+        return stream.ToArray();
+    }
+}
@@ -1,4 +1,5 @@
 using System.ComponentModel.DataAnnotations;
+using ActoEngine.WebApi.Features.ErDiagram;
 
 namespace ActoEngine.WebApi.Features.Context;
 
@@ -32,6 +33,10 @@ public class SaveContextRequest
 
     // Experts
     public List<int>? ExpertUserIds { get; set; }
+
+    // Recorded against every field this save changes
+    [StringLength(500)]
+    public string? ChangeReason { get; set; }
 }
 
 /// <summary>
@@ -107,6 +112,137 @@ public class BulkImportResult
     public string? Error { get; set; }
 }
 
+/// <summary>
+/// One row of the bulk context editor: entity metadata with its full context (null fields when undocumented)
+/// </summary>
+public class ContextGridRow
+{
+    public required string EntityType { get; set; }
+    public int EntityId { get; set; }
+    public required string EntityName { get; set; }
+    public string? ParentName { get; set; }
+
+    public int? ContextId { get; set; }
+    public string? Purpose { get; set; }
+    public string? BusinessImpact { get; set; }
+    public int? CriticalityLevel { get; set; }
+    public string? BusinessDomain { get; set; }
+    public string? Sensitivity { get; set; }
+    public string? DataSource { get; set; }
+    public string? ValidationRules { get; set; }
+    public string? RetentionPolicy { get; set; }
+    public string? DataFlow { get; set; }
+    public string? Frequency { get; set; }
+    public bool? IsDeprecated { get; set; }
+    public string? DeprecationReason { get; set; }
+    public string? ReplacedBy { get; set; }
+    public DateTime? LastContextUpdate { get; set; }
+
+    public List<int> ExpertUserIds { get; set; } = [];
+}
+
+/// <summary>
+/// Expert assignment used to fill <see cref="ContextGridRow.ExpertUserIds"/>
+/// </summary>
+public class ContextGridExpert
+{
+    public required string EntityType { get; set; }
+    public int EntityId { get; set; }
+    public int UserId { get; set; }
+}
+
+/// <summary>
+/// Filters and options for a context export. Empty lists match everything.
+/// </summary>
+public class ContextExportFilter
+{
+    public List<string> EntityTypes { get; set; } = [];
+    public List<string> Domains { get; set; } = [];
+    public List<string> Sensitivities { get; set; } = [];
+    public int? MinCriticality { get; set; }
+    public int? MinCompleteness { get; set; }
+    public int? MaxCompleteness { get; set; }
+    public bool IncludeExperts { get; set; }
+    public bool IncludeHistory { get; set; }
+}
+
+/// <summary>
+/// Expert assignment with user details, for exports
+/// </summary>
+public class ContextExportExpert
+{
+    public required string EntityType { get; set; }
+    public int EntityId { get; set; }
+    public int UserId { get; set; }
+    public required string ExpertiseLevel { get; set; }
+    public required string Username { get; set; }
+    public string? FullName { get; set; }
+}
+
+/// <summary>
+/// One exported entity: its context, completeness and optionally experts and history
+/// </summary>
+public class ContextExportRow
+{
+    public required ContextGridRow Entity { get; set; }
+    public int CompletenessScore { get; set; }
+    public List<ContextExportExpert> Experts { get; set; } = [];
+    public List<ContextHistoryEntry> History { get; set; } = [];
+}
+
+/// <summary>
+/// A generated export file ready to be returned from the API
+/// </summary>
+public class ContextExportFile
+{
+    public required byte[] Content { get; set; }
+    public required string ContentType { get; set; }
+    public required string FileName { get; set; }
+}
+
+/// <summary>
+/// Everything rendered into the published data dictionary site
+/// </summary>
+public class DataDictionaryContent
+{
+    public required string ProjectName { get; set; }
+    public DateTime GeneratedAt { get; set; }
+
+    // TABLE, COLUMN and SP rows with their experts
+    public List<ContextExportRow> Entities { get; set; } = [];
+
+    // Physical column metadata, used to place columns on their table page
+    public List<ColumnInfo> Columns { get; set; } = [];
+    public List<DataDictionaryRelationship> Relationships { get; set; } = [];
+    public List<DataDictionaryDependency> Dependencies { get; set; } = [];
+}
+
+/// <summary>
+/// Column-level relationship between two tables, physical (FK constraint) or logical (detected/confirmed)
+/// </summary>
+public class DataDictionaryRelationship
+{
+    public int SourceTableId { get; set; }
+    public int SourceColumnId { get; set; }
+    public required string SourceColumnName { get; set; }
+    public int TargetTableId { get; set; }
+    public int TargetColumnId { get; set; }
+    public required string TargetColumnName { get; set; }
+    public bool IsLogical { get; set; }
+    public string? Status { get; set; } // Logical only: SUGGESTED or CONFIRMED
+}
+
+/// <summary>
+/// Stored procedure dependency on a table, column or another procedure
+/// </summary>
+public class DataDictionaryDependency
+{
+    public required string SourceType { get; set; }
+    public int SourceId { get; set; }
+    public required string TargetType { get; set; }
+    public int TargetId { get; set; }
+    public required string DependencyType { get; set; } // SELECT, INSERT, UPDATE, DELETE, EXEC
+}
 
 /// <summary>
 /// Context coverage statistics
@@ -120,6 +256,90 @@ public class ContextCoverageStats
     public decimal? AvgCompleteness { get; set; }
 }
 
+/// <summary>
+/// Whether each scorable context field is filled, so completeness can be scored without loading the text
+/// </summary>
+public class ContextFieldFlags
+{
+    public required string EntityType { get; set; }
+    public bool HasPurpose { get; set; }
+    public bool HasBusinessImpact { get; set; }
+    public bool HasBusinessDomain { get; set; }
+    public bool HasSensitivity { get; set; }
+    public bool HasDataSource { get; set; }
+    public bool HasValidationRules { get; set; }
+    public bool HasRetentionPolicy { get; set; }
+    public bool HasDataFlow { get; set; }
+    public bool HasFrequency { get; set; }
+}
+
+/// <summary>
+/// Number of entities of one type that have the same fields filled
+/// </summary>
+public class ContextCoverageGroup : ContextFieldFlags
+{
+    public int EntityCount { get; set; }
+}
+
+/// <summary>
+/// Entity with context, ranked by the project's rules for the top documented list
+/// </summary>
+public class TopDocumentedCandidate : ContextFieldFlags
+{
+    public int EntityId { get; set; }
+    public required string EntityName { get; set; }
+    public string? Purpose { get; set; }
+    public string? BusinessDomain { get; set; }
+    public int? CriticalityLevel { get; set; }
+    public int ExpertCount { get; set; }
+}
+
+/// <summary>
+/// Per-project completeness rules: the weighted fields scored for each entity type and the
+/// score thresholds for "good" and "fair". Stored as JSON in ContextCompletenessRules.RulesJson.
+/// </summary>
+public class ContextCompletenessRules
+{
+    /// <summary>
+    /// Entity type (TABLE, COLUMN, SP, FUNCTION, VIEW) → fields that count toward its score
+    /// </summary>
+    public Dictionary<string, List<CompletenessFieldRule>> Fields { get; set; } = [];
+
+    public int GoodThreshold { get; set; } = 80;
+    public int FairThreshold { get; set; } = 50;
+}
+
+/// <summary>
+/// One scored context field. Required fields must all be filled for the entity to count as documented.
+/// </summary>
+public class CompletenessFieldRule
+{
+    public required string Field { get; set; } // EntityContext property name, e.g. "Purpose"
+    public int Weight { get; set; }
+    public bool Required { get; set; }
+}
+
+/// <summary>
+/// Completeness rules in effect for a project
+/// </summary>
+public class ContextCompletenessSettings
+{
+    public required ContextCompletenessRules Rules { get; set; }
+    public bool IsDefault { get; set; } // True when the project has not customised the rules
+    public DateTime? UpdatedAt { get; set; }
+}
+
+/// <summary>
+/// Row shape of ContextCompletenessRules; RulesJson is deserialized by the service
+/// </summary>
+public class ContextCompletenessRulesRow
+{
+    public int ProjectId { get; set; }
+    public string RulesJson { get; set; } = "{}";
+    public int UpdatedBy { get; set; }
+    public DateTime UpdatedAt { get; set; }
+}
+
 /// <summary>
 /// Minimal request for quick context entry
 /// </summary>
@@ -183,6 +403,217 @@ public class StaleContextEntity
     public int DaysSinceUpdate { get; set; }
 }
 
+/// <summary>
+/// Stale documented entity waiting in the review queue.
+/// Priority is criticality × (references + 1), so unreferenced entities still rank by criticality.
+/// </summary>
+public class ContextReviewItem
+{
+    public required string EntityType { get; set; }
+    public int EntityId { get; set; }
+    public required string EntityName { get; set; }
+    public string? ParentName { get; set; } // Owning table for columns
+    public string? Purpose { get; set; }
+    public int CriticalityLevel { get; set; }
+    public int ReferenceCount { get; set; }
+    public int PriorityScore { get; set; }
+    public DateTime? LastContextUpdate { get; set; }
+    public DateTime? LastReviewedAt { get; set; }
+    public string? LastReviewedByName { get; set; }
+    public int DaysSinceVerified { get; set; } // Since the later of the last update and the last review
+    public List<string> OwnerNames { get; set; } = []; // OWNER and EXPERT level experts, the digest recipients
+}
+
+/// <summary>
+/// Request to hide an entity from the review queue for a number of days
+/// </summary>
+public class SnoozeContextReviewRequest
+{
+    [Range(1, 365)]
+    public int Days { get; set; }
+}
+
+public class SnoozeContextReviewResponse
+{
+    public DateTime SnoozedUntil { get; set; }
+}
+
+/// <summary>
+/// Outcome of sending the stale-context digest to entity owners
+/// </summary>
+public class ContextReviewDigestResult
+{
+    public int StaleEntities { get; set; }
+    public int NotifiedOwners { get; set; }
+    public int EntitiesWithoutOwner { get; set; }
+}
+
+/// <summary>
+/// Column as seen by the sensitivity classifier: name, type and current tag
+/// </summary>
+public class SensitivityScanColumn
+{
+    public int ColumnId { get; set; }
+    public required string ColumnName { get; set; }
+    public required string TableName { get; set; }
+    public required string DataType { get; set; }
+    public string? CurrentSensitivity { get; set; }
+}
+
+/// <summary>
+/// Proposed sensitivity tag for one column, with the reason from every matching rule pack
+/// </summary>
+public class SensitivityProposal
+{
+    public int ColumnId { get; set; }
+    public required string ColumnName { get; set; }
+    public required string TableName { get; set; }
+    public required string DataType { get; set; }
+    public string? CurrentSensitivity { get; set; }
+    public required string ProposedSensitivity { get; set; }
+    public required string RulePack { get; set; } // Highest-precedence matching pack
+    public List<string> Reasons { get; set; } = [];
+}
+
+/// <summary>
+/// Outcome of a project-wide sensitivity scan
+/// </summary>
+public class SensitivityScanResult
+{
+    public int ScannedColumns { get; set; }
+    public int RejectedProposals { get; set; } // Matches hidden because they were rejected before
+    public List<string> RulePacks { get; set; } = [];
+    public List<SensitivityProposal> Proposals { get; set; } = [];
+}
+
+/// <summary>
+/// Accept or reject decision for one column's proposed tag
+/// </summary>
+public class SensitivityDecision
+{
+    [Required]
+    public int ColumnId { get; set; }
+
+    [Required]
+    public required string Sensitivity { get; set; }
+}
+
+public class SensitivityDecisionRequest
+{
+    [Required]
+    [MinLength(1)]
+    public List<SensitivityDecision> Decisions { get; set; } = [];
+}
+
+/// <summary>
+/// Lifecycle stages of a deprecated entity, in order
+/// </summary>
+public static class DeprecationStatuses
+{
+    public const string Announced = "ANNOUNCED";
+    public const string Migrating = "MIGRATING";
+    public const string ReadyToDrop = "READY_TO_DROP";
+    public const string Dropped = "DROPPED";
+
+    public static readonly IReadOnlyList<string> All = [Announced, Migrating, ReadyToDrop, Dropped];
+}
+
+/// <summary>
+/// Deprecated context with its lifecycle fields
+/// </summary>
+public class DeprecatedEntityRow
+{
+    public required string EntityType { get; set; }
+    public int EntityId { get; set; }
+    public required string EntityName { get; set; }
+    public string? SchemaName { get; set; }
+    public string? ParentName { get; set; } // Owning table for columns
+    public string? DeprecationReason { get; set; }
+    public string? ReplacedBy { get; set; }
+    public required string DeprecationStatus { get; set; }
+    public DateTime? TargetRemovalDate { get; set; }
+    public DateTime? DeprecationUpdatedAt { get; set; }
+    public DateTime? LastContextUpdate { get; set; }
+}
+
+/// <summary>
+/// One dependency edge on a path to a deprecated entity
+/// </summary>
+public class DeprecationDependentRow
+{
+    public required string TargetType { get; set; } // The deprecated entity, not the next hop
+    public int TargetId { get; set; }
+    public required string SourceType { get; set; }
+    public int SourceId { get; set; }
+    public string? SourceName { get; set; }
+    public required string DependencyType { get; set; }
+    public int Depth { get; set; } = 1;
+    public bool SourceIsDeprecated { get; set; }
+}
+
+/// <summary>
+/// Entity that still depends on a deprecated one
+/// </summary>
+public class DeprecationDependent
+{
+    public required string EntityType { get; set; }
+    public int EntityId { get; set; }
+    public required string EntityName { get; set; }
+    public List<string> DependencyTypes { get; set; } = [];
+    public int Depth { get; set; } = 1; // 1 = references it directly; higher = through other dependents
+    public bool IsDeprecated { get; set; } // Going away too, so it doesn't block on its own
+}
+
+/// <summary>
+/// Patcher page mapping (candidate or approved) that still names a deprecated procedure
+/// </summary>
+public class DeprecationPageMapping
+{
+    public int MappingId { get; set; }
+    public required string DomainName { get; set; }
+    public required string PageName { get; set; }
+    public required string StoredProcedure { get; set; }
+    public required string Status { get; set; }
+}
+
+/// <summary>
+/// Card on the deprecation board
+/// </summary>
+public class DeprecationBoardItem
+{
+    public required string EntityType { get; set; }
+    public int EntityId { get; set; }
+    public required string EntityName { get; set; }
+    public string? ParentName { get; set; }
+    public string? DeprecationReason { get; set; }
+    public string? ReplacedBy { get; set; }
+    public required string Status { get; set; }
+    public DateTime? TargetRemovalDate { get; set; }
+    public DateTime? StatusUpdatedAt { get; set; }
+    public List<DeprecationDependent> Dependents { get; set; } = [];
+    public List<DeprecationPageMapping> PageMappings { get; set; } = [];
+    public bool IsOverdue { get; set; } // Past its target removal date and not dropped
+    public string? Warning { get; set; } // Set when overdue or dropped while still referenced
+}
+
+public class DeprecationBoard
+{
+    public List<DeprecationBoardItem> Items { get; set; } = [];
+    public Dictionary<string, int> StatusCounts { get; set; } = [];
+    public int WarningCount { get; set; }
+}
+
+/// <summary>
+/// Move a deprecated entity to another lifecycle stage and/or change its removal date
+/// </summary>
+public class UpdateDeprecationRequest
+{
+    [Required]
+    public required string Status { get; set; }
+
+    public DateTime? TargetRemovalDate { get; set; }
+}
+
 /// <summary>
 /// Top documented entity with completeness metrics
 /// </summary>
@@ -209,4 +640,53 @@ public class CriticalUndocumentedEntity
     public required string EntityName { get; set; }
     public required string Reason { get; set; }
     public int ReferenceCount { get; set; }
-}
\ No newline at end of file
+}
+/// <summary>
+/// Entity matched by a context search, with its context (if documented) and the snippets that matched
+/// </summary>
+public class ContextSearchResult
+{
+    public required string EntityType { get; set; }
+    public int EntityId { get; set; }
+    public required string EntityName { get; set; }
+    public string? ParentName { get; set; } // Owning table for columns
+    public EntityContext? Context { get; set; }
+    public int CompletenessScore { get; set; }
+    public int MatchScore { get; set; } // 0-100
+    public List<string> Highlights { get; set; } = [];
+}
+
+/// <summary>
+/// Raw search row: entity metadata LEFT JOINed to its context
+/// </summary>
+public class ContextSearchRow
+{
+    public required string EntityType { get; set; }
+    public int EntityId { get; set; }
+    public required string EntityName { get; set; }
+    public string? ParentName { get; set; }
+
+    public int? ContextId { get; set; }
+    public string? Purpose { get; set; }
+    public string? BusinessImpact { get; set; }
+    public int? CriticalityLevel { get; set; }
+    public string? BusinessDomain { get; set; }
+    public string? Sensitivity { get; set; }
+    public string? DataFlow { get; set; }
+    public bool? IsDeprecated { get; set; }
+    public DateTime? LastContextUpdate { get; set; }
+}
+
+/// <summary>
+/// Context history entry with the name of the user who made the change
+/// </summary>
+public class ContextHistoryEntry : ContextHistory
+{
+    public string? ChangedByUsername { get; set; }
+    public string? ChangedByFullName { get; set; }
+
+    /// <summary>
+    /// True when the old value can be written back to the field
+    /// </summary>
+    public bool IsRestorable { get; set; }
+}
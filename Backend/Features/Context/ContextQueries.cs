@@ -108,6 +108,10 @@ public static class ContextQueries
             IsDeprecated = @IsDeprecated,
             DeprecationReason = @DeprecationReason,
             ReplacedBy = @ReplacedBy,
+            -- Un-deprecating ends the lifecycle; a later deprecation starts again at ANNOUNCED
+            DeprecationStatus = CASE WHEN @IsDeprecated = 1 THEN DeprecationStatus END,
+            TargetRemovalDate = CASE WHEN @IsDeprecated = 1 THEN TargetRemovalDate END,
+            DeprecationUpdatedAt = CASE WHEN @IsDeprecated = 1 THEN DeprecationUpdatedAt END,
             LastContextUpdate = GETUTCDATE(),
             ContextUpdatedBy = @UserId
         WHERE ProjectId = @ProjectId
@@ -249,14 +253,30 @@ public static class ContextQueries
             ch.ChangedBy,
             ch.ChangedAt,
             ch.ChangeReason,
-            u.Username,
-            u.FullName
+            u.Username as ChangedByUsername,
+            u.FullName as ChangedByFullName
         FROM ContextHistory ch
         JOIN Users u ON ch.ChangedBy = u.UserID
         WHERE ch.EntityType = @EntityType
           AND ch.EntityId = @EntityId
           AND ch.ProjectId = @ProjectId
-        ORDER BY ch.ChangedAt DESC;";
+        ORDER BY ch.ChangedAt DESC, ch.HistoryId DESC;";
+
+    public const string GetContextHistoryEntry = @"
+        SELECT
+            ch.HistoryId,
+            ch.ProjectId,
+            ch.EntityType,
+            ch.EntityId,
+            ch.FieldName,
+            ch.OldValue,
+            ch.NewValue,
+            ch.ChangedBy,
+            ch.ChangedAt,
+            ch.ChangeReason
+        FROM ContextHistory ch
+        WHERE ch.HistoryId = @HistoryId
+          AND ch.ProjectId = @ProjectId;";
 
     #endregion
 
@@ -278,109 +298,91 @@ public static class ContextQueries
         GROUP BY t.TableId, t.TableName, t.CriticalityLevel
         ORDER BY t.CriticalityLevel DESC, COUNT(DISTINCT fk.ForeignKeyId) DESC";
 
-    public const string GetContextCoverage = @"
-        WITH TableStats AS (
-            SELECT 
-                'TABLE' as EntityType,
-                COUNT(*) as Total,
-                SUM(CASE WHEN ec.Purpose IS NOT NULL THEN 1 ELSE 0 END) as Documented,
-                AVG(CASE 
-                    WHEN ec.Purpose IS NOT NULL 
-                        AND ec.BusinessDomain IS NOT NULL THEN 100.0
-                    WHEN ec.Purpose IS NOT NULL THEN 60.0
-                    ELSE 0.0
-                END) as AvgCompleteness
+    // Same staleness rule as the review queue, so confirming or snoozing drops an entity from both
+    public const string GetStaleContextEntities = @"
+        SELECT
+            ec.EntityType,
+            ec.EntityId,
+            ec.EntityName,
+            ec.LastContextUpdate,
+            DATEDIFF(day, ISNULL(v.LastVerifiedAt, ec.CreatedAt), GETUTCDATE()) as DaysSinceUpdate
+        FROM EntityContext ec" + LastVerifiedApply + @"
+        WHERE ec.ProjectId = @ProjectId" + StaleReviewCondition + @"
+        ORDER BY DaysSinceUpdate DESC;";
+
+    // Filled-field flags only; completeness is scored in ContextCompleteness with the project's rules
+    public const string GetContextCoverageGroups = @"
+        WITH Entities AS (
+            SELECT 'TABLE' as EntityType, tm.TableId as EntityId
             FROM TablesMetadata tm
-            LEFT JOIN EntityContext ec ON 
-                ec.ProjectId = tm.ProjectId AND
-                ec.EntityType = 'TABLE' AND
-                ec.EntityId = tm.TableId
             WHERE tm.ProjectId = @ProjectId
-        ),
-        ColumnStats AS (
-            SELECT 
-                'COLUMN' as EntityType,
-                COUNT(*) as Total,
-                SUM(CASE WHEN ec.Purpose IS NOT NULL THEN 1 ELSE 0 END) as Documented,
-                AVG(CASE 
-                    WHEN ec.Purpose IS NOT NULL 
-                        AND ec.Sensitivity IS NOT NULL THEN 100.0
-                    WHEN ec.Purpose IS NOT NULL THEN 70.0
-                    ELSE 0.0
-                END) as AvgCompleteness
+
+            UNION ALL
+
+            SELECT 'COLUMN', cm.ColumnId
             FROM ColumnsMetadata cm
             JOIN TablesMetadata tm ON cm.TableId = tm.TableId
-            LEFT JOIN EntityContext ec ON 
-                ec.ProjectId = tm.ProjectId AND
-                ec.EntityType = 'COLUMN' AND
-                ec.EntityId = cm.ColumnId
             WHERE tm.ProjectId = @ProjectId
-        ),
-        SpStats AS (
-            SELECT 
-                'SP' as EntityType,
-                COUNT(*) as Total,
-                SUM(CASE WHEN ec.Purpose IS NOT NULL THEN 1 ELSE 0 END) as Documented,
-                AVG(CASE 
-                    WHEN ec.Purpose IS NOT NULL 
-                        AND ec.DataFlow IS NOT NULL THEN 100.0
-                    WHEN ec.Purpose IS NOT NULL THEN 60.0
-                    ELSE 0.0
-                END) as AvgCompleteness
+
+            UNION ALL
+
+            SELECT 'SP', sm.SpId
             FROM SpMetadata sm
-            LEFT JOIN EntityContext ec ON 
-                ec.ProjectId = sm.ProjectId AND
-                ec.EntityType = 'SP' AND
-                ec.EntityId = sm.SpId
             WHERE sm.ProjectId = @ProjectId
+        ),
+        Flags AS (
+            SELECT
+                e.EntityType,
+                CAST(CASE WHEN NULLIF(LTRIM(RTRIM(ec.Purpose)), '') IS NOT NULL THEN 1 ELSE 0 END AS BIT) as HasPurpose,
+                CAST(CASE WHEN NULLIF(LTRIM(RTRIM(ec.BusinessImpact)), '') IS NOT NULL THEN 1 ELSE 0 END AS BIT) as HasBusinessImpact,
+                CAST(CASE WHEN NULLIF(LTRIM(RTRIM(ec.BusinessDomain)), '') IS NOT NULL THEN 1 ELSE 0 END AS BIT) as HasBusinessDomain,
+                CAST(CASE WHEN NULLIF(LTRIM(RTRIM(ec.Sensitivity)), '') IS NOT NULL THEN 1 ELSE 0 END AS BIT) as HasSensitivity,
+                CAST(CASE WHEN NULLIF(LTRIM(RTRIM(ec.DataSource)), '') IS NOT NULL THEN 1 ELSE 0 END AS BIT) as HasDataSource,
+                CAST(CASE WHEN NULLIF(LTRIM(RTRIM(ec.ValidationRules)), '') IS NOT NULL THEN 1 ELSE 0 END AS BIT) as HasValidationRules,
+                CAST(CASE WHEN NULLIF(LTRIM(RTRIM(ec.RetentionPolicy)), '') IS NOT NULL THEN 1 ELSE 0 END AS BIT) as HasRetentionPolicy,
+                CAST(CASE WHEN NULLIF(LTRIM(RTRIM(ec.DataFlow)), '') IS NOT NULL THEN 1 ELSE 0 END AS BIT) as HasDataFlow,
+                CAST(CASE WHEN NULLIF(LTRIM(RTRIM(ec.Frequency)), '') IS NOT NULL THEN 1 ELSE 0 END AS BIT) as HasFrequency
+            FROM Entities e
+            LEFT JOIN EntityContext ec ON
+                ec.ProjectId = @ProjectId AND
+                ec.EntityType = e.EntityType AND
+                ec.EntityId = e.EntityId
         )
-        SELECT * FROM TableStats
-        UNION ALL
-        SELECT * FROM ColumnStats
-        UNION ALL
-        SELECT * FROM SpStats;";
-
-    public const string GetStaleContextEntities = @"
-        SELECT 
-            ec.EntityType,
-            ec.EntityId,
-            ec.EntityName,
-            ec.LastContextUpdate,
-            DATEDIFF(day, ec.LastContextUpdate, GETUTCDATE()) as DaysSinceUpdate
-        FROM EntityContext ec
-        WHERE ec.ProjectId = @ProjectId 
-        ORDER BY DaysSinceUpdate DESC;";
+        SELECT
+            EntityType,
+            HasPurpose, HasBusinessImpact, HasBusinessDomain, HasSensitivity, HasDataSource,
+            HasValidationRules, HasRetentionPolicy, HasDataFlow, HasFrequency,
+            COUNT(*) as EntityCount
+        FROM Flags
+        GROUP BY
+            EntityType,
+            HasPurpose, HasBusinessImpact, HasBusinessDomain, HasSensitivity, HasDataSource,
+            HasValidationRules, HasRetentionPolicy, HasDataFlow, HasFrequency;";
 
-    public const string GetTopDocumentedEntities = @"
-        SELECT TOP (@Limit)
+    public const string GetTopDocumentedCandidates = @"
+        SELECT
             ec.EntityType,
             ec.EntityId,
             ec.EntityName,
             ec.Purpose,
             ec.BusinessDomain,
             ec.CriticalityLevel,
-            CASE 
-                WHEN ec.Purpose IS NOT NULL 
-                    AND ec.BusinessDomain IS NOT NULL THEN 100
-                WHEN ec.Purpose IS NOT NULL THEN 60
-                ELSE 0
-            END as CompletenessScore,
-            ISNULL(COUNT(ee.ExpertId), 0) as ExpertCount
+            CAST(CASE WHEN NULLIF(LTRIM(RTRIM(ec.Purpose)), '') IS NOT NULL THEN 1 ELSE 0 END AS BIT) as HasPurpose,
+            CAST(CASE WHEN NULLIF(LTRIM(RTRIM(ec.BusinessImpact)), '') IS NOT NULL THEN 1 ELSE 0 END AS BIT) as HasBusinessImpact,
+            CAST(CASE WHEN NULLIF(LTRIM(RTRIM(ec.BusinessDomain)), '') IS NOT NULL THEN 1 ELSE 0 END AS BIT) as HasBusinessDomain,
+            CAST(CASE WHEN NULLIF(LTRIM(RTRIM(ec.Sensitivity)), '') IS NOT NULL THEN 1 ELSE 0 END AS BIT) as HasSensitivity,
+            CAST(CASE WHEN NULLIF(LTRIM(RTRIM(ec.DataSource)), '') IS NOT NULL THEN 1 ELSE 0 END AS BIT) as HasDataSource,
+            CAST(CASE WHEN NULLIF(LTRIM(RTRIM(ec.ValidationRules)), '') IS NOT NULL THEN 1 ELSE 0 END AS BIT) as HasValidationRules,
+            CAST(CASE WHEN NULLIF(LTRIM(RTRIM(ec.RetentionPolicy)), '') IS NOT NULL THEN 1 ELSE 0 END AS BIT) as HasRetentionPolicy,
+            CAST(CASE WHEN NULLIF(LTRIM(RTRIM(ec.DataFlow)), '') IS NOT NULL THEN 1 ELSE 0 END AS BIT) as HasDataFlow,
+            CAST(CASE WHEN NULLIF(LTRIM(RTRIM(ec.Frequency)), '') IS NOT NULL THEN 1 ELSE 0 END AS BIT) as HasFrequency,
+            (SELECT COUNT(*)
+             FROM EntityExperts ee
+             WHERE ee.ProjectId = ec.ProjectId
+               AND ee.EntityType = ec.EntityType
+               AND ee.EntityId = ec.EntityId) as ExpertCount
         FROM EntityContext ec
-        LEFT JOIN EntityExperts ee ON 
-            ee.EntityType = ec.EntityType 
-            AND ee.EntityId = ec.EntityId
-            AND ee.ProjectId = @ProjectId
-        WHERE ec.ProjectId = @ProjectId 
-          AND ec.Purpose IS NOT NULL
-        GROUP BY 
-            ec.EntityType,
-            ec.EntityId,
-            ec.EntityName,
-            ec.Purpose,
-            ec.BusinessDomain,
-            ec.CriticalityLevel
-        ORDER BY CompletenessScore DESC, CriticalityLevel DESC;";
+        WHERE ec.ProjectId = @ProjectId;";
 
     public const string GetCriticalUndocumented = @"
         -- CTE for FK counts
@@ -439,6 +441,390 @@ public static class ContextQueries
 
     #endregion
 
+    #region Search
+
+    // @Pattern / @Prefix are LIKE patterns escaped with '\'.
+    // Views have no metadata table, so they are only searchable once they have context.
+    public const string SearchEntities = @"
+        WITH Entities AS (
+            SELECT 'TABLE' as EntityType, tm.TableId as EntityId, tm.TableName as EntityName, CAST(NULL AS NVARCHAR(100)) as ParentName
+            FROM TablesMetadata tm
+            WHERE tm.ProjectId = @ProjectId
+
+            UNION ALL
+
+            SELECT 'COLUMN', cm.ColumnId, cm.ColumnName, tm.TableName
+            FROM ColumnsMetadata cm
+            JOIN TablesMetadata tm ON cm.TableId = tm.TableId
+            WHERE tm.ProjectId = @ProjectId
+
+            UNION ALL
+
+            SELECT 'SP', sm.SpId, sm.ProcedureName, NULL
+            FROM SpMetadata sm
+            WHERE sm.ProjectId = @ProjectId
+
+            UNION ALL
+
+            SELECT 'FUNCTION', fm.FunctionId, fm.FunctionName, NULL
+            FROM FunctionMetadata fm
+            WHERE fm.ProjectId = @ProjectId
+
+            UNION ALL
+
+            SELECT 'VIEW', vc.EntityId, vc.EntityName, NULL
+            FROM EntityContext vc
+            WHERE vc.ProjectId = @ProjectId
+              AND vc.EntityType = 'VIEW'
+        )
+        SELECT TOP (@Limit)
+            e.EntityType,
+            e.EntityId,
+            e.EntityName,
+            e.ParentName,
+            ec.ContextId,
+            ec.Purpose,
+            ec.BusinessImpact,
+            ec.CriticalityLevel,
+            ec.BusinessDomain,
+            ec.Sensitivity,
+            ec.DataFlow,
+            ec.IsDeprecated,
+            ec.LastContextUpdate
+        FROM Entities e
+        LEFT JOIN EntityContext ec ON
+            ec.ProjectId = @ProjectId AND
+            ec.EntityType = e.EntityType AND
+            ec.EntityId = e.EntityId
+        WHERE (
+                e.EntityName LIKE @Pattern ESCAPE '\'
+                OR ec.Purpose LIKE @Pattern ESCAPE '\'
+                OR ec.BusinessImpact LIKE @Pattern ESCAPE '\'
+                OR ec.BusinessDomain LIKE @Pattern ESCAPE '\'
+                OR ec.Sensitivity LIKE @Pattern ESCAPE '\'
+            )
+          AND (@FilterTypes = 0 OR e.EntityType IN @Types)
+          AND (@FilterDomains = 0 OR ec.BusinessDomain IN @Domains)
+        ORDER BY
+            CASE
+                WHEN e.EntityName = @Query THEN 0
+                WHEN e.EntityName LIKE @Prefix ESCAPE '\' THEN 1
+                WHEN e.EntityName LIKE @Pattern ESCAPE '\' THEN 2
+                ELSE 3
+            END,
+            LEN(e.EntityName),
+            e.EntityName;";
+
+    #endregion
+
+    #region Bulk Editing
+
+    public const string GetContextGridRows = @"
+        WITH Entities AS (
+            SELECT 'TABLE' as EntityType, tm.TableId as EntityId, tm.TableName as EntityName, CAST(NULL AS NVARCHAR(100)) as ParentName
+            FROM TablesMetadata tm
+            WHERE tm.ProjectId = @ProjectId
+
+            UNION ALL
+
+            SELECT 'COLUMN', cm.ColumnId, cm.ColumnName, tm.TableName
+            FROM ColumnsMetadata cm
+            JOIN TablesMetadata tm ON cm.TableId = tm.TableId
+            WHERE tm.ProjectId = @ProjectId
+
+            UNION ALL
+
+            SELECT 'SP', sm.SpId, sm.ProcedureName, NULL
+            FROM SpMetadata sm
+            WHERE sm.ProjectId = @ProjectId
+
+            UNION ALL
+
+            SELECT 'FUNCTION', fm.FunctionId, fm.FunctionName, NULL
+            FROM FunctionMetadata fm
+            WHERE fm.ProjectId = @ProjectId
+
+            UNION ALL
+
+            SELECT 'VIEW', vc.EntityId, vc.EntityName, NULL
+            FROM EntityContext vc
+            WHERE vc.ProjectId = @ProjectId
+              AND vc.EntityType = 'VIEW'
+        )
+        SELECT TOP (@Limit)
+            e.EntityType,
+            e.EntityId,
+            e.EntityName,
+            e.ParentName,
+            ec.ContextId,
+            ec.Purpose,
+            ec.BusinessImpact,
+            ec.CriticalityLevel,
+            ec.BusinessDomain,
+            ec.Sensitivity,
+            ec.DataSource,
+            ec.ValidationRules,
+            ec.RetentionPolicy,
+            ec.DataFlow,
+            ec.Frequency,
+            ec.IsDeprecated,
+            ec.DeprecationReason,
+            ec.ReplacedBy,
+            ec.LastContextUpdate
+        FROM Entities e
+        LEFT JOIN EntityContext ec ON
+            ec.ProjectId = @ProjectId AND
+            ec.EntityType = e.EntityType AND
+            ec.EntityId = e.EntityId
+        WHERE (@FilterTypes = 0 OR e.EntityType IN @Types)
+          AND (@UndocumentedOnly = 0 OR ec.Purpose IS NULL OR LTRIM(RTRIM(ec.Purpose)) = '')
+        ORDER BY e.EntityType, ISNULL(e.ParentName, e.EntityName), e.EntityName;";
+
+    public const string GetProjectExpertAssignments = @"
+        SELECT EntityType, EntityId, UserId
+        FROM EntityExperts
+        WHERE ProjectId = @ProjectId
+          AND (@FilterTypes = 0 OR EntityType IN @Types);";
+
+    #endregion
+
+    #region Export
+
+    public const string GetProjectExpertDetails = @"
+        SELECT
+            ee.EntityType,
+            ee.EntityId,
+            ee.UserId,
+            ee.ExpertiseLevel,
+            u.Username,
+            u.FullName
+        FROM EntityExperts ee
+        JOIN Users u ON ee.UserId = u.UserID
+        WHERE ee.ProjectId = @ProjectId
+          AND (@FilterTypes = 0 OR ee.EntityType IN @Types)
+        ORDER BY
+            CASE ee.ExpertiseLevel
+                WHEN 'OWNER' THEN 1
+                WHEN 'EXPERT' THEN 2
+                WHEN 'FAMILIAR' THEN 3
+                WHEN 'CONTRIBUTOR' THEN 4
+                ELSE 5
+            END,
+            u.Username;";
+
+    public const string GetProjectContextHistory = @"
+        SELECT
+            ch.HistoryId,
+            ch.ProjectId,
+            ch.EntityType,
+            ch.EntityId,
+            ch.FieldName,
+            ch.OldValue,
+            ch.NewValue,
+            ch.ChangedBy,
+            ch.ChangedAt,
+            ch.ChangeReason,
+            u.Username as ChangedByUsername,
+            u.FullName as ChangedByFullName
+        FROM ContextHistory ch
+        JOIN Users u ON ch.ChangedBy = u.UserID
+        WHERE ch.ProjectId = @ProjectId
+          AND (@FilterTypes = 0 OR ch.EntityType IN @Types)
+        ORDER BY ch.ChangedAt DESC, ch.HistoryId DESC;";
+
+    public const string GetProjectSpDependencies = @"
+        SELECT DISTINCT
+            d.SourceType,
+            d.SourceId,
+            d.TargetType,
+            d.TargetId,
+            d.DependencyType
+        FROM Dependencies d
+        WHERE d.ProjectId = @ProjectId
+          AND d.SourceType = 'SP'
+          AND d.TargetType IN ('TABLE', 'COLUMN', 'SP');";
+
+    #endregion
+
+    #region Review Queue
+
+    // Later of LastContextUpdate / LastReviewedAt as v.LastVerifiedAt
+    private const string LastVerifiedApply = @"
+        CROSS APPLY (
+            SELECT CASE
+                WHEN ec.LastReviewedAt IS NOT NULL AND (ec.LastContextUpdate IS NULL OR ec.LastReviewedAt > ec.LastContextUpdate)
+                    THEN ec.LastReviewedAt
+                ELSE ec.LastContextUpdate
+            END AS LastVerifiedAt
+        ) v";
+
+    // Stale = documented context last verified more than @StaleAfterDays ago, and not snoozed
+    private const string StaleReviewCondition = @"
+          AND ec.Purpose IS NOT NULL AND LTRIM(RTRIM(ec.Purpose)) <> ''
+          AND (ec.ReviewSnoozedUntil IS NULL OR ec.ReviewSnoozedUntil <= GETUTCDATE())
+          AND ISNULL(v.LastVerifiedAt, ec.CreatedAt) < DATEADD(day, -@StaleAfterDays, GETUTCDATE())";
+
+    public const string GetContextReviewQueue = @"
+        WITH RefCounts AS (
+            SELECT d.TargetType, d.TargetId, COUNT(DISTINCT CONCAT(d.SourceType, ':', d.SourceId)) AS ReferenceCount
+            FROM Dependencies d
+            WHERE d.ProjectId = @ProjectId
+            GROUP BY d.TargetType, d.TargetId
+        )
+        SELECT TOP (@Limit)
+            ec.EntityType,
+            ec.EntityId,
+            ec.EntityName,
+            tm.TableName AS ParentName,
+            ec.Purpose,
+            ISNULL(ec.CriticalityLevel, 3) AS CriticalityLevel,
+            ISNULL(rc.ReferenceCount, 0) AS ReferenceCount,
+            ISNULL(ec.CriticalityLevel, 3) * (ISNULL(rc.ReferenceCount, 0) + 1) AS PriorityScore,
+            ec.LastContextUpdate,
+            ec.LastReviewedAt,
+            ISNULL(ru.FullName, ru.Username) AS LastReviewedByName,
+            DATEDIFF(day, ISNULL(v.LastVerifiedAt, ec.CreatedAt), GETUTCDATE()) AS DaysSinceVerified
+        FROM EntityContext ec" + LastVerifiedApply + @"
+        LEFT JOIN RefCounts rc ON rc.TargetType = ec.EntityType AND rc.TargetId = ec.EntityId
+        LEFT JOIN ColumnsMetadata cm ON ec.EntityType = 'COLUMN' AND cm.ColumnId = ec.EntityId
+        LEFT JOIN TablesMetadata tm ON tm.TableId = cm.TableId
+        LEFT JOIN Users ru ON ru.UserID = ec.LastReviewedBy
+        WHERE ec.ProjectId = @ProjectId" + StaleReviewCondition + @"
+        ORDER BY PriorityScore DESC, DaysSinceVerified DESC, ec.EntityName;";
+
+    public const string MarkContextReviewed = @"
+        UPDATE EntityContext
+        SET LastReviewedAt = GETUTCDATE(),
+            LastReviewedBy = @UserId,
+            ReviewSnoozedUntil = NULL
+        WHERE ProjectId = @ProjectId
+          AND EntityType = @EntityType
+          AND EntityId = @EntityId;";
+
+    public const string SnoozeContextReview = @"
+        UPDATE EntityContext
+        SET ReviewSnoozedUntil = @SnoozedUntil
+        WHERE ProjectId = @ProjectId
+          AND EntityType = @EntityType
+          AND EntityId = @EntityId;";
+
+    #endregion
+
+    #region Sensitivity Classification
+
+    public const string GetSensitivityScanColumns = @"
+        SELECT
+            cm.ColumnId,
+            cm.ColumnName,
+            tm.TableName,
+            cm.DataType,
+            ec.Sensitivity AS CurrentSensitivity
+        FROM ColumnsMetadata cm
+        JOIN TablesMetadata tm ON cm.TableId = tm.TableId
+        LEFT JOIN EntityContext ec ON
+            ec.ProjectId = @ProjectId AND
+            ec.EntityType = 'COLUMN' AND
+            ec.EntityId = cm.ColumnId
+        WHERE tm.ProjectId = @ProjectId
+        ORDER BY tm.TableName, cm.ColumnOrder, cm.ColumnName;";
+
+    public const string GetSensitivityRejections = @"
+        SELECT ColumnId, Sensitivity
+        FROM SensitivityProposalRejections
+        WHERE ProjectId = @ProjectId;";
+
+    // Only columns of the project are recorded; repeated rejections are ignored
+    public const string RejectSensitivityProposal = @"
+        INSERT INTO SensitivityProposalRejections (ProjectId, ColumnId, Sensitivity, RejectedBy, RejectedAt)
+        SELECT @ProjectId, cm.ColumnId, @Sensitivity, @UserId, GETUTCDATE()
+        FROM ColumnsMetadata cm
+        JOIN TablesMetadata tm ON cm.TableId = tm.TableId
+        WHERE cm.ColumnId = @ColumnId
+          AND tm.ProjectId = @ProjectId
+          AND NOT EXISTS (
+              SELECT 1 FROM SensitivityProposalRejections r
+              WHERE r.ProjectId = @ProjectId
+                AND r.ColumnId = @ColumnId
+                AND r.Sensitivity = @Sensitivity
+          );";
+
+    #endregion
+
+    #region Completeness Rules
+
+    public const string GetCompletenessRules = @"
+        SELECT ProjectId, RulesJson, UpdatedBy, UpdatedAt
+        FROM ContextCompletenessRules
+        WHERE ProjectId = @ProjectId;";
+
+    public const string UpsertCompletenessRules = @"
+        UPDATE ContextCompletenessRules
+        SET RulesJson = @RulesJson,
+            UpdatedBy = @UserId,
+            UpdatedAt = GETUTCDATE()
+        WHERE ProjectId = @ProjectId;
+
+        IF @@ROWCOUNT = 0
+        BEGIN
+            INSERT INTO ContextCompletenessRules (ProjectId, RulesJson, UpdatedBy, UpdatedAt)
+            VALUES (@ProjectId, @RulesJson, @UserId, GETUTCDATE());
+        END;
+
+        SELECT ProjectId, RulesJson, UpdatedBy, UpdatedAt
+        FROM ContextCompletenessRules
+        WHERE ProjectId = @ProjectId;";
+
+    public const string DeleteCompletenessRules = @"
+        DELETE FROM ContextCompletenessRules
+        WHERE ProjectId = @ProjectId;";
+
+    #endregion
+
+    #region Deprecation Board
+
+    // Pass @EntityType = NULL for every deprecated entity, or a type and @EntityId for one.
+    // Context deprecated before lifecycle tracking has no status and reads as ANNOUNCED.
+    public const string GetDeprecatedEntities = @"
+        SELECT
+            ec.EntityType,
+            ec.EntityId,
+            ec.EntityName,
+            COALESCE(sm.SchemaName, tm.SchemaName) AS SchemaName,
+            ctm.TableName AS ParentName,
+            ec.DeprecationReason,
+            ec.ReplacedBy,
+            ISNULL(ec.DeprecationStatus, 'ANNOUNCED') AS DeprecationStatus,
+            ec.TargetRemovalDate,
+            ec.DeprecationUpdatedAt,
+            ec.LastContextUpdate
+        FROM EntityContext ec
+        LEFT JOIN SpMetadata sm ON ec.EntityType = 'SP' AND sm.SpId = ec.EntityId
+        LEFT JOIN TablesMetadata tm ON ec.EntityType = 'TABLE' AND tm.TableId = ec.EntityId
+        LEFT JOIN ColumnsMetadata cm ON ec.EntityType = 'COLUMN' AND cm.ColumnId = ec.EntityId
+        LEFT JOIN TablesMetadata ctm ON ctm.TableId = cm.TableId
+        WHERE ec.ProjectId = @ProjectId
+          AND ec.IsDeprecated = 1
+          AND (@EntityType IS NULL OR (ec.EntityType = @EntityType AND ec.EntityId = @EntityId))
+        ORDER BY CASE WHEN ec.TargetRemovalDate IS NULL THEN 1 ELSE 0 END, ec.TargetRemovalDate, ec.EntityName;";
+
+    public const string GetActivePageMappings = @"
+        SELECT MappingId, DomainName, PageName, StoredProcedure, Status
+        FROM PageMappings
+        WHERE ProjectId = @ProjectId
+          AND Status <> @IgnoredStatus;";
+
+    public const string UpdateDeprecationLifecycle = @"
+        UPDATE EntityContext
+        SET DeprecationStatus = @Status,
+            TargetRemovalDate = @TargetRemovalDate,
+            DeprecationUpdatedAt = GETUTCDATE()
+        WHERE ProjectId = @ProjectId
+          AND EntityType = @EntityType
+          AND EntityId = @EntityId
+          AND IsDeprecated = 1;";
+
+    #endregion
+
     #region Smart Suggestions
 
     public const string GetPotentialExperts = @"
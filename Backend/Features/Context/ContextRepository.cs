@@ -1,4 +1,5 @@
 using ActoEngine.WebApi.Features.Context.Dtos;
+using ActoEngine.WebApi.Features.Patcher;
 using ActoEngine.WebApi.Features.Users;
 using ActoEngine.WebApi.Infrastructure.Database;
 using ActoEngine.WebApi.Shared;
@@ -26,15 +27,47 @@ public interface IContextRepository
 
     // Context History
     Task RecordContextChangeAsync(int projectId, string entityType, int entityId, string fieldName, string? oldValue, string? newValue, int changedBy, string? changeReason = null, CancellationToken cancellationToken = default);
-    Task<List<ContextHistory>> GetContextHistoryAsync(int projectId, string entityType, int entityId, CancellationToken cancellationToken = default);
+    Task<List<ContextHistoryEntry>> GetContextHistoryAsync(int projectId, string entityType, int entityId, CancellationToken cancellationToken = default);
+    Task<ContextHistory?> GetContextHistoryEntryAsync(int projectId, int historyId, CancellationToken cancellationToken = default);
 
     // Statistics
     Task<List<ContextGap>> GetContextGapsAsync(int projectId, int limit, CancellationToken cancellationToken = default);
-    Task<List<ContextCoverageStats>> GetContextCoverageAsync(int projectId, CancellationToken cancellationToken = default);
-    Task<List<StaleContextEntity>> GetStaleContextEntitiesAsync(int projectId, CancellationToken cancellationToken = default);
-    Task<List<TopDocumentedEntity>> GetTopDocumentedEntitiesAsync(int projectId, int limit = 10, CancellationToken cancellationToken = default);
+    Task<List<StaleContextEntity>> GetStaleContextEntitiesAsync(int projectId, int staleAfterDays, CancellationToken cancellationToken = default);
     Task<List<CriticalUndocumentedEntity>> GetCriticalUndocumentedAsync(int projectId, CancellationToken cancellationToken = default);
+    Task<List<ContextCoverageGroup>> GetContextCoverageGroupsAsync(int projectId, CancellationToken cancellationToken = default);
+    Task<List<TopDocumentedCandidate>> GetTopDocumentedCandidatesAsync(int projectId, CancellationToken cancellationToken = default);
 
+    // Search
+    Task<List<ContextSearchRow>> SearchEntitiesAsync(int projectId, string query, IReadOnlyCollection<string> entityTypes, IReadOnlyCollection<string> domains, int limit, CancellationToken cancellationToken = default);
+
+    // Bulk Editing
+    Task<List<ContextGridRow>> GetContextGridRowsAsync(int projectId, IReadOnlyCollection<string> entityTypes, bool undocumentedOnly, int limit, CancellationToken cancellationToken = default);
+
+    // Export
+    Task<List<ContextExportExpert>> GetProjectExpertDetailsAsync(int projectId, IReadOnlyCollection<string> entityTypes, CancellationToken cancellationToken = default);
+    Task<List<ContextHistoryEntry>> GetProjectContextHistoryAsync(int projectId, IReadOnlyCollection<string> entityTypes, CancellationToken cancellationToken = default);
+    Task<List<DataDictionaryDependency>> GetProjectSpDependenciesAsync(int projectId, CancellationToken cancellationToken = default);
+
+    // Review Queue
+    Task<List<ContextReviewItem>> GetContextReviewQueueAsync(int projectId, int staleAfterDays, int limit, CancellationToken cancellationToken = default);
+    Task<bool> MarkContextReviewedAsync(int projectId, string entityType, int entityId, int userId, CancellationToken cancellationToken = default);
+    Task<bool> SnoozeContextReviewAsync(int projectId, string entityType, int entityId, DateTime snoozedUntil, CancellationToken cancellationToken = default);
+
+    // Sensitivity Classification
+    Task<List<SensitivityScanColumn>> GetSensitivityScanColumnsAsync(int projectId, CancellationToken cancellationToken = default);
+    Task<List<SensitivityDecision>> GetSensitivityRejectionsAsync(int projectId, CancellationToken cancellationToken = default);
+    Task<bool> RejectSensitivityProposalAsync(int projectId, int columnId, string sensitivity, int userId, CancellationToken cancellationToken = default);
+
+    // Completeness Rules
+    Task<ContextCompletenessRulesRow?> GetCompletenessRulesAsync(int projectId, CancellationToken cancellationToken = default);
+    Task<ContextCompletenessRulesRow> UpsertCompletenessRulesAsync(int projectId, string rulesJson, int userId, CancellationToken cancellationToken = default);
+    Task DeleteCompletenessRulesAsync(int projectId, CancellationToken cancellationToken = default);
+
+    // Deprecation Board
+    Task<List<DeprecatedEntityRow>> GetDeprecatedEntitiesAsync(int projectId, CancellationToken cancellationToken = default);
+    Task<DeprecatedEntityRow?> GetDeprecatedEntityAsync(int projectId, string entityType, int entityId, CancellationToken cancellationToken = default);
+    Task<List<DeprecationPageMapping>> GetActivePageMappingsAsync(int projectId, CancellationToken cancellationToken = default);
+    Task<bool> UpdateDeprecationLifecycleAsync(int projectId, string entityType, int entityId, string status, DateTime? targetRemovalDate, CancellationToken cancellationToken = default);
 
     // Smart Suggestions
     Task<List<UserSuggestion>> GetPotentialExpertsAsync(string entityType, int entityId, CancellationToken cancellationToken = default);
@@ -320,15 +353,23 @@ public class ContextRepository(
         }
     }
 
-    public async Task<List<ContextHistory>> GetContextHistoryAsync(int projectId, string entityType, int entityId, CancellationToken cancellationToken = default)
+    public async Task<List<ContextHistoryEntry>> GetContextHistoryAsync(int projectId, string entityType, int entityId, CancellationToken cancellationToken = default)
     {
-        var history = await QueryAsync<ContextHistory>(
+        var history = await QueryAsync<ContextHistoryEntry>(
             ContextQueries.GetContextHistory,
             new { ProjectId = projectId, EntityType = entityType, EntityId = entityId },
             cancellationToken);
         return [.. history];
     }
 
+    public async Task<ContextHistory?> GetContextHistoryEntryAsync(int projectId, int historyId, CancellationToken cancellationToken = default)
+    {
+        return await QueryFirstOrDefaultAsync<ContextHistory>(
+            ContextQueries.GetContextHistoryEntry,
+            new { ProjectId = projectId, HistoryId = historyId },
+            cancellationToken);
+    }
+
     #endregion
 
     #region Statistics
@@ -342,44 +383,305 @@ public class ContextRepository(
         return [.. gaps];
     }
 
-    public async Task<List<ContextCoverageStats>> GetContextCoverageAsync(int projectId, CancellationToken cancellationToken = default)
+    public async Task<List<StaleContextEntity>> GetStaleContextEntitiesAsync(int projectId, int staleAfterDays, CancellationToken cancellationToken = default)
     {
-        var stats = await QueryAsync<ContextCoverageStats>(
-            ContextQueries.GetContextCoverage,
-            new { ProjectId = projectId },
+        var entities = await QueryAsync<StaleContextEntity>(
+            ContextQueries.GetStaleContextEntities,
+            new { ProjectId = projectId, StaleAfterDays = staleAfterDays },
             cancellationToken);
-        return [.. stats];
+        return [.. entities];
     }
 
-    public async Task<List<StaleContextEntity>> GetStaleContextEntitiesAsync(int projectId, CancellationToken cancellationToken = default)
+    public async Task<List<CriticalUndocumentedEntity>> GetCriticalUndocumentedAsync(int projectId, CancellationToken cancellationToken = default)
     {
-        var entities = await QueryAsync<StaleContextEntity>(
-            ContextQueries.GetStaleContextEntities,
+        var entities = await QueryAsync<CriticalUndocumentedEntity>(
+            ContextQueries.GetCriticalUndocumented,
             new { ProjectId = projectId },
             cancellationToken);
         return [.. entities];
     }
 
-    public async Task<List<TopDocumentedEntity>> GetTopDocumentedEntitiesAsync(int projectId, int limit = 10, CancellationToken cancellationToken = default)
+    public async Task<List<ContextCoverageGroup>> GetContextCoverageGroupsAsync(int projectId, CancellationToken cancellationToken = default)
     {
-        var entities = await QueryAsync<TopDocumentedEntity>(
-            ContextQueries.GetTopDocumentedEntities,
-            new { ProjectId = projectId, Limit = limit },
+        var groups = await QueryAsync<ContextCoverageGroup>(
+            ContextQueries.GetContextCoverageGroups,
+            new { ProjectId = projectId },
             cancellationToken);
-        return [.. entities];
+        return [.. groups];
     }
 
-    public async Task<List<CriticalUndocumentedEntity>> GetCriticalUndocumentedAsync(int projectId, CancellationToken cancellationToken = default)
+    public async Task<List<TopDocumentedCandidate>> GetTopDocumentedCandidatesAsync(int projectId, CancellationToken cancellationToken = default)
     {
-        var entities = await QueryAsync<CriticalUndocumentedEntity>(
-            ContextQueries.GetCriticalUndocumented,
+        var candidates = await QueryAsync<TopDocumentedCandidate>(
+            ContextQueries.GetTopDocumentedCandidates,
             new { ProjectId = projectId },
             cancellationToken);
-        return [.. entities];
+        return [.. candidates];
+    }
+
+    #endregion
+
+    #region Search
+
+    public async Task<List<ContextSearchRow>> SearchEntitiesAsync(
+        int projectId,
+        string query,
+        IReadOnlyCollection<string> entityTypes,
+        IReadOnlyCollection<string> domains,
+        int limit,
+        CancellationToken cancellationToken = default)
+    {
+        var escaped = EscapeLikeTerm(query);
+        var rows = await QueryAsync<ContextSearchRow>(
+            ContextQueries.SearchEntities,
+            new
+            {
+                ProjectId = projectId,
+                Query = query,
+                Pattern = $"%{escaped}%",
+                Prefix = $"{escaped}%",
+                FilterTypes = entityTypes.Count > 0 ? 1 : 0,
+                Types = entityTypes,
+                FilterDomains = domains.Count > 0 ? 1 : 0,
+                Domains = domains,
+                Limit = limit
+            },
+            cancellationToken);
+        return [.. rows];
+    }
+
+    private static string EscapeLikeTerm(string term)
+    {
+        return term
+            .Replace("\\", "\\\\")
+            .Replace("%", "\\%")
+            .Replace("_", "\\_")
+            .Replace("[", "\\[");
     }
 
     #endregion
 
+    #region Bulk Editing
+
+    public async Task<List<ContextGridRow>> GetContextGridRowsAsync(
+        int projectId,
+        IReadOnlyCollection<string> entityTypes,
+        bool undocumentedOnly,
+        int limit,
+        CancellationToken cancellationToken = default)
+    {
+        var filter = new
+        {
+            ProjectId = projectId,
+            FilterTypes = entityTypes.Count > 0 ? 1 : 0,
+            Types = entityTypes,
+            UndocumentedOnly = undocumentedOnly ? 1 : 0,
+            Limit = limit
+        };
+
+        var rows = (await QueryAsync<ContextGridRow>(ContextQueries.GetContextGridRows, filter, cancellationToken)).ToList();
+        var experts = await QueryAsync<ContextGridExpert>(ContextQueries.GetProjectExpertAssignments, filter, cancellationToken);
+
+        var expertsByEntity = experts
+            .GroupBy(e => (e.EntityType, e.EntityId))
+            .ToDictionary(g => g.Key, g => g.Select(e => e.UserId).ToList());
+
+        foreach (var row in rows)
+        {
+            if (expertsByEntity.TryGetValue((row.EntityType, row.EntityId), out var userIds))
+            {
+                row.ExpertUserIds = userIds;
+            }
+        }
+
+        return rows;
+    }
+
+    #endregion
+
+    #region Export
+
+    public async Task<List<ContextExportExpert>> GetProjectExpertDetailsAsync(
+        int projectId,
+        IReadOnlyCollection<string> entityTypes,
+        CancellationToken cancellationToken = default)
+    {
+        var experts = await QueryAsync<ContextExportExpert>(
+            ContextQueries.GetProjectExpertDetails,
+            new { ProjectId = projectId, FilterTypes = entityTypes.Count > 0 ? 1 : 0, Types = entityTypes },
+            cancellationToken);
+        return [.. experts];
+    }
+
+    public async Task<List<ContextHistoryEntry>> GetProjectContextHistoryAsync(
+        int projectId,
+        IReadOnlyCollection<string> entityTypes,
+        CancellationToken cancellationToken = default)
+    {
+        var history = await QueryAsync<ContextHistoryEntry>(
+            ContextQueries.GetProjectContextHistory,
+            new { ProjectId = projectId, FilterTypes = entityTypes.Count > 0 ? 1 : 0, Types = entityTypes },
+            cancellationToken);
+        return [.. history];
+    }
+
+    public async Task<List<DataDictionaryDependency>> GetProjectSpDependenciesAsync(int projectId, CancellationToken cancellationToken = default)
+    {
+        var dependencies = await QueryAsync<DataDictionaryDependency>(
+            ContextQueries.GetProjectSpDependencies,
+            new { ProjectId = projectId },
+            cancellationToken);
+        return [.. dependencies];
+    }
+
+    #endregion
+
+    #region Review Queue
+
+    public async Task<List<ContextReviewItem>> GetContextReviewQueueAsync(
+        int projectId,
+        int staleAfterDays,
+        int limit,
+        CancellationToken cancellationToken = default)
+    {
+        var items = await QueryAsync<ContextReviewItem>(
+            ContextQueries.GetContextReviewQueue,
+            new { ProjectId = projectId, StaleAfterDays = staleAfterDays, Limit = limit },
+            cancellationToken);
+        return [.. items];
+    }
+
+    public async Task<bool> MarkContextReviewedAsync(int projectId, string entityType, int entityId, int userId, CancellationToken cancellationToken = default)
+    {
+        var affected = await ExecuteAsync(
+            ContextQueries.MarkContextReviewed,
+            new { ProjectId = projectId, EntityType = entityType, EntityId = entityId, UserId = userId },
+            cancellationToken);
+        return affected > 0;
+    }
+
+    public async Task<bool> SnoozeContextReviewAsync(int projectId, string entityType, int entityId, DateTime snoozedUntil, CancellationToken cancellationToken = default)
+    {
+        var affected = await ExecuteAsync(
+            ContextQueries.SnoozeContextReview,
+            new { ProjectId = projectId, EntityType = entityType, EntityId = entityId, SnoozedUntil = snoozedUntil },
+            cancellationToken);
+        return affected > 0;
+    }
+
+    #endregion
+
+    #region Sensitivity Classification
+
+    public async Task<List<SensitivityScanColumn>> GetSensitivityScanColumnsAsync(int projectId, CancellationToken cancellationToken = default)
+    {
+        var columns = await QueryAsync<SensitivityScanColumn>(
+            ContextQueries.GetSensitivityScanColumns,
+            new { ProjectId = projectId },
+            cancellationToken);
+        return [.. columns];
+    }
+
+    public async Task<List<SensitivityDecision>> GetSensitivityRejectionsAsync(int projectId, CancellationToken cancellationToken = default)
+    {
+        var rejections = await QueryAsync<SensitivityDecision>(
+            ContextQueries.GetSensitivityRejections,
+            new { ProjectId = projectId },
+            cancellationToken);
+        return [.. rejections];
+    }
+
+    public async Task<bool> RejectSensitivityProposalAsync(int projectId, int columnId, string sensitivity, int userId, CancellationToken cancellationToken = default)
+    {
+        var affected = await ExecuteAsync(
+            ContextQueries.RejectSensitivityProposal,
+            new { ProjectId = projectId, ColumnId = columnId, Sensitivity = sensitivity, UserId = userId },
+            cancellationToken);
+        return affected > 0;
+    }
+
+    #endregion
+
+    #region Completeness Rules
+
+    public async Task<ContextCompletenessRulesRow?> GetCompletenessRulesAsync(int projectId, CancellationToken cancellationToken = default)
+    {
+        return await QueryFirstOrDefaultAsync<ContextCompletenessRulesRow>(
+            ContextQueries.GetCompletenessRules,
+            new { ProjectId = projectId },
+            cancellationToken);
+    }
+
+    public async Task<ContextCompletenessRulesRow> UpsertCompletenessRulesAsync(int projectId, string rulesJson, int userId, CancellationToken cancellationToken = default)
+    {
+        var row = await QueryFirstOrDefaultAsync<ContextCompletenessRulesRow>(
+            ContextQueries.UpsertCompletenessRules,
+            new { ProjectId = projectId, RulesJson = rulesJson, UserId = userId },
+            cancellationToken);
+        return row ?? throw new InvalidOperationException($"Failed to save completeness rules for project {projectId}");
+    }
+
+    public async Task DeleteCompletenessRulesAsync(int projectId, CancellationToken cancellationToken = default)
+    {
+        await ExecuteAsync(
+            ContextQueries.DeleteCompletenessRules,
+            new { ProjectId = projectId },
+            cancellationToken);
+    }
+
+    #endregion
+
+    #region Deprecation Board
+
+    public async Task<List<DeprecatedEntityRow>> GetDeprecatedEntitiesAsync(int projectId, CancellationToken cancellationToken = default)
+    {
+        var rows = await QueryAsync<DeprecatedEntityRow>(
+            ContextQueries.GetDeprecatedEntities,
+            new { ProjectId = projectId, EntityType = (string?)null, EntityId = 0 },
+            cancellationToken);
+        return [.. rows];
+    }
+
+    public async Task<DeprecatedEntityRow?> GetDeprecatedEntityAsync(int projectId, string entityType, int entityId, CancellationToken cancellationToken = default)
+    {
+        return await QueryFirstOrDefaultAsync<DeprecatedEntityRow>(
+            ContextQueries.GetDeprecatedEntities,
+            new { ProjectId = projectId, EntityType = entityType, EntityId = entityId },
+            cancellationToken);
+    }
+
+    public async Task<List<DeprecationPageMapping>> GetActivePageMappingsAsync(int projectId, CancellationToken cancellationToken = default)
+    {
+        var rows = await QueryAsync<DeprecationPageMapping>(
+            ContextQueries.GetActivePageMappings,
+            new { ProjectId = projectId, IgnoredStatus = PageMappingConstants.StatusIgnored },
+            cancellationToken);
+        return [.. rows];
+    }
+
+    public async Task<bool> UpdateDeprecationLifecycleAsync(
+        int projectId,
+        string entityType,
+        int entityId,
+        string status,
+        DateTime? targetRemovalDate,
+        CancellationToken cancellationToken = default)
+    {
+        var affected = await ExecuteAsync(
+            ContextQueries.UpdateDeprecationLifecycle,
+            new
+            {
+                ProjectId = projectId,
+                EntityType = entityType,
+                EntityId = entityId,
+                Status = status,
+                TargetRemovalDate = targetRemovalDate?.Date
+            },
+            cancellationToken);
+        return affected > 0;
+    }
+
+    #endregion
 
     #region Smart Suggestions
 
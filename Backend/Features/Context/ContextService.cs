@@ -1,6 +1,12 @@
 using ActoEngine.WebApi.Features.Context.Dtos;
+using ActoEngine.WebApi.Features.ErDiagram;
+using ActoEngine.WebApi.Features.ImpactAnalysis;
+using ActoEngine.WebApi.Features.Notifications;
+using ActoEngine.WebApi.Features.Patcher.Engine;
+using ActoEngine.WebApi.Features.Projects;
 using ActoEngine.WebApi.Features.Schema;
 using ActoEngine.WebApi.Features.Users;
+using System.Text.Json;
 using System.Text.RegularExpressions;
 
 namespace ActoEngine.WebApi.Features.Context;
@@ -14,6 +20,10 @@ public interface IContextService
     // Save Context
     Task<EntityContext> SaveContextAsync(int projectId, string entityType, int entityId, SaveContextRequest request, int userId);
 
+    // History
+    Task<List<ContextHistoryEntry>> GetContextHistoryAsync(int projectId, string entityType, int entityId);
+    Task<EntityContext> RestoreContextFieldAsync(int projectId, string entityType, int entityId, int historyId, int userId);
+
     // Suggestions
     Task<ContextSuggestions> GetContextSuggestionsAsync(int projectId, string entityType, int entityId, EntityContext? existingContext = null);
 
@@ -24,14 +34,42 @@ public interface IContextService
 
     // Statistics & Insights
     Task<List<ContextCoverageStats>> GetContextCoverageAsync(int projectId);
-    Task<List<StaleContextEntity>> GetStaleContextEntitiesAsync(int projectId);
+    Task<List<StaleContextEntity>> GetStaleContextEntitiesAsync(int projectId, int staleAfterDays);
     Task<List<TopDocumentedEntity>> GetTopDocumentedEntitiesAsync(int projectId, int limit = 10);
     Task<List<CriticalUndocumentedEntity>> GetCriticalUndocumentedAsync(int projectId);
-    int CalculateCompletenessScore(EntityContext context);
+    int CalculateCompletenessScore(EntityContext context, ContextCompletenessRules rules);
     Task<List<ContextGap>> GetContextGapsAsync(int projectId, int limit, CancellationToken cancellationToken = default);
 
+    // Search
+    Task<List<ContextSearchResult>> SearchAsync(int projectId, string query, IReadOnlyCollection<string> entityTypes, IReadOnlyCollection<string> domains, int? minCompleteness, int limit = 25);
+
     // Bulk Operations
+    Task<List<ContextGridRow>> GetContextGridAsync(int projectId, IReadOnlyCollection<string> entityTypes, bool undocumentedOnly, int limit);
     Task<List<BulkImportResult>> BulkImportContextAsync(int projectId, List<BulkContextEntry> entries, int userId);
+
+    // Export
+    Task<ContextExportFile> ExportContextAsync(int projectId, string format, ContextExportFilter filter);
+    Task<ContextExportFile> PublishDataDictionaryAsync(int projectId);
+
+    // Review Queue
+    Task<List<ContextReviewItem>> GetReviewQueueAsync(int projectId, int staleAfterDays, int limit);
+    Task ConfirmContextAccurateAsync(int projectId, string entityType, int entityId, int userId);
+    Task<DateTime> SnoozeContextReviewAsync(int projectId, string entityType, int entityId, int days);
+    Task<ContextReviewDigestResult> SendReviewDigestAsync(int projectId, int staleAfterDays);
+
+    // Sensitivity Classification
+    Task<SensitivityScanResult> ScanSensitivityAsync(int projectId, IReadOnlyList<SensitivityRulePack> rulePacks);
+    Task<List<BulkImportResult>> AcceptSensitivityProposalsAsync(int projectId, List<SensitivityDecision> decisions, int userId);
+    Task<int> RejectSensitivityProposalsAsync(int projectId, List<SensitivityDecision> decisions, int userId);
+
+    // Completeness Rules
+    Task<ContextCompletenessSettings> GetCompletenessRulesAsync(int projectId);
+    Task<ContextCompletenessSettings> SaveCompletenessRulesAsync(int projectId, ContextCompletenessRules rules, int userId);
+    Task<ContextCompletenessSettings> ResetCompletenessRulesAsync(int projectId);
+
+    // Deprecation Board
+    Task<DeprecationBoard> GetDeprecationBoardAsync(int projectId);
+    Task<DeprecationBoardItem> UpdateDeprecationLifecycleAsync(int projectId, string entityType, int entityId, UpdateDeprecationRequest request, int userId);
 }
 
 /// <summary>
@@ -40,12 +78,20 @@ public interface IContextService
 public partial class ContextService(
     IContextRepository contextRepo,
     ISchemaRepository schemaRepo,
-    IUserRepository userRepo)
+    IUserRepository userRepo,
+    IProjectRepository projectRepo,
+    IErDiagramRepository erDiagramRepo,
+    INotificationService notificationService,
+    IDependencyRepository dependencyRepo)
     : IContextService
 {
     private readonly IContextRepository _contextRepo = contextRepo;
     private readonly ISchemaRepository _schemaRepo = schemaRepo;
     private readonly IUserRepository _userRepo = userRepo;
+    private readonly IProjectRepository _projectRepo = projectRepo;
+    private readonly IErDiagramRepository _erDiagramRepo = erDiagramRepo;
+    private readonly INotificationService _notificationService = notificationService;
+    private readonly IDependencyRepository _dependencyRepo = dependencyRepo;
 
     #region Get Context
 
@@ -63,7 +109,8 @@ public partial class ContextService(
         };
         var experts = await _contextRepo.GetExpertsAsync(projectId, entityType, entityId);
         var suggestions = await GetContextSuggestionsAsync(projectId, entityType, entityId, context);
-        var completeness = CalculateCompletenessScore(context);
+        var rules = await GetProjectCompletenessRulesAsync(projectId);
+        var completeness = CalculateCompletenessScore(context, rules);
 
         return new ContextResponse
         {
@@ -88,6 +135,7 @@ public partial class ContextService(
 
         // Map contexts by key (Type-Id)
         var contextMap = contexts.ToDictionary(k => $"{k.EntityType}-{k.EntityId}", v => v);
+        var rules = await GetProjectCompletenessRulesAsync(projectId);
 
         // 2. Build responses
         foreach (var entity in entities)
@@ -95,7 +143,7 @@ public partial class ContextService(
             if (contextMap.TryGetValue($"{entity.EntityType}-{entity.EntityId}", out var context))
             {
                 // Has context
-                var completeness = CalculateCompletenessScore(context);
+                var completeness = CalculateCompletenessScore(context, rules);
                 responses.Add(new ContextResponse
                 {
                     Context = context,
@@ -162,7 +210,7 @@ public partial class ContextService(
         // Record changes in history
         if (oldContext != null)
         {
-            await RecordContextChangesAsync(projectId, entityType, entityId, oldContext, context, userId);
+            await RecordContextChangesAsync(projectId, entityType, entityId, oldContext, context, userId, request.ChangeReason);
         }
 
         // Update experts if provided
@@ -188,46 +236,138 @@ public partial class ContextService(
         int entityId,
         EntityContext oldContext,
         EntityContext newContext,
-        int userId)
+        int userId,
+        string? changeReason)
     {
-        var changes = new List<(string Field, string? OldValue, string? NewValue)>();
-
-        // Compare fields
-        if (oldContext.Purpose != newContext.Purpose)
+        foreach (var (field, oldValue, newValue) in DiffContext(oldContext, newContext))
         {
-            changes.Add(("Purpose", oldContext.Purpose, newContext.Purpose));
-        }
-
-        if (oldContext.BusinessImpact != newContext.BusinessImpact)
-        {
-            changes.Add(("BusinessImpact", oldContext.BusinessImpact, newContext.BusinessImpact));
+            await _contextRepo.RecordContextChangeAsync(
+                projectId, entityType, entityId, field, oldValue, newValue, userId, changeReason);
         }
+    }
 
+    /// <summary>
+    /// History field name → setter that writes a recorded value back into a save request.
+    /// Field names match the EntityContext property names stored in ContextHistory.FieldName.
+    /// </summary>
+    private static readonly Dictionary<string, Action<SaveContextRequest, string?>> HistoryFieldSetters = new()
+    {
+        ["Purpose"] = (r, v) => r.Purpose = v,
+        ["BusinessImpact"] = (r, v) => r.BusinessImpact = v,
+        ["CriticalityLevel"] = (r, v) => r.CriticalityLevel = int.TryParse(v, out var level) ? level : null,
+        ["BusinessDomain"] = (r, v) => r.BusinessDomain = v,
+        ["Sensitivity"] = (r, v) => r.Sensitivity = v,
+        ["DataSource"] = (r, v) => r.DataSource = v,
+        ["ValidationRules"] = (r, v) => r.ValidationRules = v,
+        ["RetentionPolicy"] = (r, v) => r.RetentionPolicy = v,
+        ["DataFlow"] = (r, v) => r.DataFlow = v,
+        ["Frequency"] = (r, v) => r.Frequency = v,
+        ["IsDeprecated"] = (r, v) => r.IsDeprecated = bool.TryParse(v, out var deprecated) && deprecated,
+        ["DeprecationReason"] = (r, v) => r.DeprecationReason = v,
+        ["ReplacedBy"] = (r, v) => r.ReplacedBy = v
+    };
 
+    /// <summary>
+    /// Fields whose value differs between two versions of a context, in a stable order
+    /// </summary>
+    internal static List<(string Field, string? OldValue, string? NewValue)> DiffContext(EntityContext oldContext, EntityContext newContext)
+    {
+        (string Field, string? OldValue, string? NewValue)[] fields =
+        [
+            ("Purpose", oldContext.Purpose, newContext.Purpose),
+            ("BusinessImpact", oldContext.BusinessImpact, newContext.BusinessImpact),
+            ("CriticalityLevel", oldContext.CriticalityLevel.ToString(), newContext.CriticalityLevel.ToString()),
+            ("BusinessDomain", oldContext.BusinessDomain, newContext.BusinessDomain),
+            ("Sensitivity", oldContext.Sensitivity, newContext.Sensitivity),
+            ("DataSource", oldContext.DataSource, newContext.DataSource),
+            ("ValidationRules", oldContext.ValidationRules, newContext.ValidationRules),
+            ("RetentionPolicy", oldContext.RetentionPolicy, newContext.RetentionPolicy),
+            ("DataFlow", oldContext.DataFlow, newContext.DataFlow),
+            ("Frequency", oldContext.Frequency, newContext.Frequency),
+            ("IsDeprecated", oldContext.IsDeprecated.ToString(), newContext.IsDeprecated.ToString()),
+            ("DeprecationReason", oldContext.DeprecationReason, newContext.DeprecationReason),
+            ("ReplacedBy", oldContext.ReplacedBy, newContext.ReplacedBy)
+        ];
+
+        return [.. fields.Where(f => f.OldValue != f.NewValue)];
+    }
 
-        if (oldContext.CriticalityLevel != newContext.CriticalityLevel)
+    /// <summary>
+    /// Save request carrying every field of the current context, so an update changes only what is overridden
+    /// </summary>
+    internal static SaveContextRequest ToSaveRequest(EntityContext context)
+    {
+        return new SaveContextRequest
         {
-            changes.Add(("CriticalityLevel",
-                oldContext.CriticalityLevel.ToString(),
-                newContext.CriticalityLevel.ToString()));
-        }
+            Purpose = context.Purpose,
+            BusinessImpact = context.BusinessImpact,
+            CriticalityLevel = context.CriticalityLevel,
+            BusinessDomain = context.BusinessDomain,
+            Sensitivity = context.Sensitivity,
+            DataSource = context.DataSource,
+            ValidationRules = context.ValidationRules,
+            RetentionPolicy = context.RetentionPolicy,
+            DataFlow = context.DataFlow,
+            Frequency = context.Frequency,
+            IsDeprecated = context.IsDeprecated,
+            DeprecationReason = context.DeprecationReason,
+            ReplacedBy = context.ReplacedBy
+        };
+    }
 
-        if (oldContext.BusinessDomain != newContext.BusinessDomain)
+    internal static bool IsRestorableField(string fieldName) => HistoryFieldSetters.ContainsKey(fieldName);
+
+    /// <summary>
+    /// Write a recorded history value back into a save request
+    /// </summary>
+    /// <exception cref="ArgumentException">The field is not tracked in context history</exception>
+    internal static void ApplyHistoryValue(SaveContextRequest request, string fieldName, string? value)
+    {
+        if (!HistoryFieldSetters.TryGetValue(fieldName, out var setter))
         {
-            changes.Add(("BusinessDomain", oldContext.BusinessDomain, newContext.BusinessDomain));
+            throw new ArgumentException($"Field '{fieldName}' cannot be restored");
         }
+        setter(request, value);
+    }
+
+    #endregion
+
+    #region Context History
 
-        if (oldContext.Sensitivity != newContext.Sensitivity)
+    /// <summary>
+    /// Field-level change history for an entity, newest first
+    /// </summary>
+    public async Task<List<ContextHistoryEntry>> GetContextHistoryAsync(int projectId, string entityType, int entityId)
+    {
+        var history = await _contextRepo.GetContextHistoryAsync(projectId, entityType, entityId);
+        foreach (var entry in history)
         {
-            changes.Add(("Sensitivity", oldContext.Sensitivity, newContext.Sensitivity));
+            entry.IsRestorable = IsRestorableField(entry.FieldName);
         }
+        return history;
+    }
 
-        // Record each change
-        foreach (var (field, oldValue, newValue) in changes)
+    /// <summary>
+    /// Put back the value a field had before the given change; the restore is itself recorded in history
+    /// </summary>
+    /// <exception cref="KeyNotFoundException">The change or the entity's context does not exist</exception>
+    /// <exception cref="ArgumentException">The changed field cannot be restored</exception>
+    public async Task<EntityContext> RestoreContextFieldAsync(int projectId, string entityType, int entityId, int historyId, int userId)
+    {
+        var entry = await _contextRepo.GetContextHistoryEntryAsync(projectId, historyId);
+        if (entry == null || entry.EntityType != entityType || entry.EntityId != entityId)
         {
-            await _contextRepo.RecordContextChangeAsync(
-                projectId, entityType, entityId, field, oldValue, newValue, userId);
+            throw new KeyNotFoundException($"History entry {historyId} not found for {entityType} {entityId}");
         }
+
+        var current = await _contextRepo.GetContextAsync(projectId, entityType, entityId)
+            ?? throw new KeyNotFoundException($"Context not found for {entityType} with ID {entityId}");
+
+        var request = ToSaveRequest(current);
+        ApplyHistoryValue(request, entry.FieldName, entry.OldValue);
+        request.ChangeReason = $"Restored value from before change #{entry.HistoryId} ({entry.ChangedAt:yyyy-MM-dd HH:mm} UTC)";
+
+        return await SaveContextAsync(projectId, entityType, entityId, request, userId);
     }
 
     #endregion
@@ -444,39 +584,80 @@ public partial class ContextService(
 
     #region Statistics & Insights
 
+    private static readonly string[] CoverageEntityTypes = ["TABLE", "COLUMN", "SP"];
+
     /// <summary>
-    /// Get context coverage statistics
+    /// Get context coverage statistics, scored with the project's completeness rules
     /// </summary>
     public async Task<List<ContextCoverageStats>> GetContextCoverageAsync(int projectId)
     {
-        var stats = await _contextRepo.GetContextCoverageAsync(projectId);
+        var groups = await _contextRepo.GetContextCoverageGroupsAsync(projectId);
+        var rules = await GetProjectCompletenessRulesAsync(projectId);
+
+        return BuildCoverageStats(groups, rules);
+    }
 
-        // Calculate coverage percentages
-        foreach (var stat in stats)
+    /// <summary>
+    /// Per-type coverage: documented = every required field filled; average completeness
+    /// includes undocumented entities at 0
+    /// </summary>
+    internal static List<ContextCoverageStats> BuildCoverageStats(IEnumerable<ContextCoverageGroup> groups, ContextCompletenessRules rules)
+    {
+        var byType = groups.ToLookup(g => g.EntityType);
+
+        return [.. CoverageEntityTypes.Select(type =>
         {
+            var typeGroups = byType[type].ToList();
+            var stat = new ContextCoverageStats
+            {
+                EntityType = type,
+                Total = typeGroups.Sum(g => g.EntityCount),
+                Documented = typeGroups.Where(g => ContextCompleteness.IsDocumented(g, rules)).Sum(g => g.EntityCount)
+            };
+
             if (stat.Total > 0)
             {
+                var scoreSum = typeGroups.Sum(g => (decimal)ContextCompleteness.Score(g, rules) * g.EntityCount);
                 stat.CoveragePercentage = Math.Round((decimal)stat.Documented / stat.Total * 100, 2);
+                stat.AvgCompleteness = Math.Round(scoreSum / stat.Total, 2);
             }
-        }
 
-        return stats;
+            return stat;
+        })];
     }
 
     /// <summary>
     /// Get entities with stale context
     /// </summary>
-    public async Task<List<StaleContextEntity>> GetStaleContextEntitiesAsync(int projectId)
+    public async Task<List<StaleContextEntity>> GetStaleContextEntitiesAsync(int projectId, int staleAfterDays)
     {
-        return await _contextRepo.GetStaleContextEntitiesAsync(projectId);
+        return await _contextRepo.GetStaleContextEntitiesAsync(projectId, staleAfterDays);
     }
 
     /// <summary>
-    /// Get top documented entities
+    /// Get top documented entities, most complete (by the project's rules) and most critical first
     /// </summary>
     public async Task<List<TopDocumentedEntity>> GetTopDocumentedEntitiesAsync(int projectId, int limit = 10)
     {
-        return await _contextRepo.GetTopDocumentedEntitiesAsync(projectId, limit);
+        var candidates = await _contextRepo.GetTopDocumentedCandidatesAsync(projectId);
+        var rules = await GetProjectCompletenessRulesAsync(projectId);
+
+        return [.. candidates
+            .Where(c => ContextCompleteness.IsDocumented(c, rules))
+            .Select(c => new TopDocumentedEntity
+            {
+                EntityType = c.EntityType,
+                EntityId = c.EntityId,
+                EntityName = c.EntityName,
+                Purpose = c.Purpose,
+                BusinessDomain = c.BusinessDomain,
+                CriticalityLevel = c.CriticalityLevel ?? 3,
+                CompletenessScore = ContextCompleteness.Score(c, rules),
+                ExpertCount = c.ExpertCount
+            })
+            .OrderByDescending(e => e.CompletenessScore)
+            .ThenByDescending(e => e.CriticalityLevel)
+            .Take(limit)];
     }
 
     /// <summary>
@@ -488,70 +669,169 @@ public partial class ContextService(
     }
 
     /// <summary>
-    /// Calculate completeness score for context
+    /// Calculate completeness score for context with the given project rules
     /// </summary>
-    public int CalculateCompletenessScore(EntityContext context)
+    public int CalculateCompletenessScore(EntityContext context, ContextCompletenessRules rules)
     {
-        var score = 0;
-        var maxScore = 0;
+        return ContextCompleteness.Score(context, rules);
+    }
 
-        // Purpose (35 points)
-        maxScore += 35;
-        if (!string.IsNullOrWhiteSpace(context.Purpose))
+    public async Task<List<ContextGap>> GetContextGapsAsync(int projectId, int limit, CancellationToken cancellationToken = default)
+    {
+        if (limit <= 0 || limit > 100)
         {
-            score += 35;
+            throw new ArgumentOutOfRangeException(nameof(limit), "Limit must be between 1 and 100.");
         }
+        return await _contextRepo.GetContextGapsAsync(projectId, limit, cancellationToken);
+    }
+
+    #endregion
+
+    #region Search
+
+    private const int SearchSnippetRadius = 40;
 
-        // Business Domain (20 points)
-        maxScore += 20;
-        if (!string.IsNullOrWhiteSpace(context.BusinessDomain))
+    /// <summary>
+    /// Search entities by name and documented purpose, domain or sensitivity, best matches first
+    /// </summary>
+    public async Task<List<ContextSearchResult>> SearchAsync(
+        int projectId,
+        string query,
+        IReadOnlyCollection<string> entityTypes,
+        IReadOnlyCollection<string> domains,
+        int? minCompleteness,
+        int limit = 25)
+    {
+        var term = query.Trim();
+        if (term.Length < 2)
         {
-            score += 20;
+            return [];
         }
 
-        // Business Impact (20 points - important for "what breaks")
-        maxScore += 20;
-        if (!string.IsNullOrWhiteSpace(context.BusinessImpact))
+        // SQL orders by name match only; over-fetch so context matches survive re-ranking
+        var rows = await _contextRepo.SearchEntitiesAsync(projectId, term, entityTypes, domains, limit * 4);
+
+        var rules = await GetProjectCompletenessRulesAsync(projectId);
+        var results = rows.Select(row => BuildSearchResult(projectId, row, term)).ToList();
+        foreach (var result in results.Where(r => r.Context != null))
         {
-            score += 20;
+            result.CompletenessScore = CalculateCompletenessScore(result.Context!, rules);
         }
 
-        // Type-specific scoring
-        if (context.EntityType == "COLUMN")
+        return [.. results
+            .Where(r => minCompleteness == null || r.CompletenessScore >= minCompleteness)
+            .OrderByDescending(r => r.MatchScore)
+            .ThenByDescending(r => r.CompletenessScore)
+            .ThenBy(r => r.EntityName, StringComparer.OrdinalIgnoreCase)
+            .Take(limit)];
+    }
+
+    /// <summary>
+    /// Score a search row and collect the context snippets that contain the term.
+    /// Name matches score 100/80/60 (exact/prefix/contains), context fields 40 down to 25;
+    /// every further matching field adds 5, capped at 100.
+    /// </summary>
+    internal static ContextSearchResult BuildSearchResult(int projectId, ContextSearchRow row, string term)
+    {
+        var scores = new List<int>();
+        var highlights = new List<string>();
+
+        if (row.EntityName.Equals(term, StringComparison.OrdinalIgnoreCase))
         {
-            // Sensitivity (15 points)
-            maxScore += 15;
-            if (!string.IsNullOrWhiteSpace(context.Sensitivity))
-            {
-                score += 15;
-            }
+            scores.Add(100);
+        }
+        else if (row.EntityName.StartsWith(term, StringComparison.OrdinalIgnoreCase))
+        {
+            scores.Add(80);
         }
-        else if (context.EntityType == "SP")
+        else if (row.EntityName.Contains(term, StringComparison.OrdinalIgnoreCase))
+        {
+            scores.Add(60);
+        }
+
+        (string Label, string? Value, int Score)[] fields =
+        [
+            ("Purpose", row.Purpose, 40),
+            ("Domain", row.BusinessDomain, 35),
+            ("Sensitivity", row.Sensitivity, 30),
+            ("Business impact", row.BusinessImpact, 25)
+        ];
+        foreach (var (label, value, score) in fields)
         {
-            // Data Flow (15 points)
-            maxScore += 15;
-            if (!string.IsNullOrWhiteSpace(context.DataFlow))
+            var snippet = BuildSnippet(value, term);
+            if (snippet == null)
             {
-                score += 15;
+                continue;
             }
+            scores.Add(score);
+            highlights.Add($"{label}: {snippet}");
         }
 
-        return maxScore > 0 ? (int)Math.Round((double)score / maxScore * 100) : 0;
+        return new ContextSearchResult
+        {
+            EntityType = row.EntityType,
+            EntityId = row.EntityId,
+            EntityName = row.EntityName,
+            ParentName = row.ParentName,
+            Context = row.ContextId == null ? null : new EntityContext
+            {
+                ContextId = row.ContextId.Value,
+                ProjectId = projectId,
+                EntityType = row.EntityType,
+                EntityId = row.EntityId,
+                EntityName = row.EntityName,
+                Purpose = row.Purpose,
+                BusinessImpact = row.BusinessImpact,
+                CriticalityLevel = row.CriticalityLevel ?? 3,
+                BusinessDomain = row.BusinessDomain,
+                Sensitivity = row.Sensitivity,
+                DataFlow = row.DataFlow,
+                IsDeprecated = row.IsDeprecated ?? false,
+                LastContextUpdate = row.LastContextUpdate
+            },
+            MatchScore = scores.Count == 0 ? 0 : Math.Min(100, scores.Max() + (5 * (scores.Count - 1))),
+            Highlights = highlights
+        };
     }
 
-    public async Task<List<ContextGap>> GetContextGapsAsync(int projectId, int limit, CancellationToken cancellationToken = default)
+    /// <summary>
+    /// Single-line excerpt of the text around the first occurrence of the term, or null when absent
+    /// </summary>
+    internal static string? BuildSnippet(string? text, string term)
     {
-        if (limit <= 0 || limit > 100)
+        if (string.IsNullOrWhiteSpace(text))
         {
-            throw new ArgumentOutOfRangeException(nameof(limit), "Limit must be between 1 and 100.");
+            return null;
         }
-        return await _contextRepo.GetContextGapsAsync(projectId, limit, cancellationToken);
+
+        var flat = MultipleSpacesRegex().Replace(text.Trim(), " ");
+        var index = flat.IndexOf(term, StringComparison.OrdinalIgnoreCase);
+        if (index < 0)
+        {
+            return null;
+        }
+
+        var start = Math.Max(0, index - SearchSnippetRadius);
+        var end = Math.Min(flat.Length, index + term.Length + SearchSnippetRadius);
+        return $"{(start > 0 ? "\u2026" : "")}{flat[start..end].Trim()}{(end < flat.Length ? "\u2026" : "")}";
     }
 
     #endregion
 
     #region Bulk Operations
 
+    /// <summary>
+    /// Entities with their full context and expert ids, for the bulk context editor
+    /// </summary>
+    public async Task<List<ContextGridRow>> GetContextGridAsync(
+        int projectId,
+        IReadOnlyCollection<string> entityTypes,
+        bool undocumentedOnly,
+        int limit)
+    {
+        return await _contextRepo.GetContextGridRowsAsync(projectId, entityTypes, undocumentedOnly, limit);
+    }
+
     /// <summary>
     /// Bulk import context entries
     /// </summary>
@@ -595,6 +875,619 @@ public partial class ContextService(
 
     #endregion
 
+    #region Export
+
+    internal const int MaxExportRows = 100000;
+
+    /// <summary>
+    /// Export the project's context, filtered, as a JSON, CSV or XLSX file
+    /// </summary>
+    /// <exception cref="ArgumentException">More entities of the requested types than one export holds</exception>
+    public async Task<ContextExportFile> ExportContextAsync(int projectId, string format, ContextExportFilter filter)
+    {
+        // One extra row tells a full export from a cut-off one; a partial file would pass for complete
+        var gridRows = await _contextRepo.GetContextGridRowsAsync(projectId, filter.EntityTypes, false, MaxExportRows + 1);
+        if (gridRows.Count > MaxExportRows)
+        {
+            throw new ArgumentException(
+                $"The project has more than {MaxExportRows:N0} entities of the selected types. Export fewer entity types at a time.");
+        }
+
+        var rules = await GetProjectCompletenessRulesAsync(projectId);
+
+        var rows = gridRows
+            .Select(row => ToExportRow(row, rules))
+            .Where(row => MatchesExportFilter(row, filter))
+            .ToList();
+
+        if (filter.IncludeExperts && rows.Count > 0)
+        {
+            var experts = (await _contextRepo.GetProjectExpertDetailsAsync(projectId, filter.EntityTypes))
+                .ToLookup(e => (e.EntityType, e.EntityId));
+            foreach (var row in rows)
+            {
+                row.Experts = [.. experts[(row.Entity.EntityType, row.Entity.EntityId)]];
+            }
+        }
+
+        if (filter.IncludeHistory && rows.Count > 0)
+        {
+            var history = (await _contextRepo.GetProjectContextHistoryAsync(projectId, filter.EntityTypes))
+                .ToLookup(h => (h.EntityType, h.EntityId));
+            foreach (var row in rows)
+            {
+                row.History = [.. history[(row.Entity.EntityType, row.Entity.EntityId)]];
+            }
+        }
+
+        var baseFileName = $"context-export-{projectId}-{DateTime.UtcNow:yyyyMMdd-HHmm}";
+        return ContextExportWriter.Write(format, rows, filter.IncludeExperts, filter.IncludeHistory, baseFileName);
+    }
+
+    /// <summary>
+    /// Applies the domain, sensitivity, criticality and completeness filters of an export.
+    /// Entities without context have no criticality, so a criticality filter excludes them.
+    /// </summary>
+    internal static bool MatchesExportFilter(ContextExportRow row, ContextExportFilter filter)
+    {
+        var entity = row.Entity;
+
+        if (filter.Domains.Count > 0 &&
+            !filter.Domains.Contains(entity.BusinessDomain ?? string.Empty, StringComparer.OrdinalIgnoreCase))
+        {
+            return false;
+        }
+
+        if (filter.Sensitivities.Count > 0 &&
+            !filter.Sensitivities.Contains(entity.Sensitivity ?? string.Empty, StringComparer.OrdinalIgnoreCase))
+        {
+            return false;
+        }
+
+        if (filter.MinCriticality.HasValue && (entity.CriticalityLevel ?? 0) < filter.MinCriticality.Value)
+        {
+            return false;
+        }
+
+        if (filter.MinCompleteness.HasValue && row.CompletenessScore < filter.MinCompleteness.Value)
+        {
+            return false;
+        }
+
+        return !filter.MaxCompleteness.HasValue || row.CompletenessScore <= filter.MaxCompleteness.Value;
+    }
+
+    private static ContextExportRow ToExportRow(ContextGridRow row, ContextCompletenessRules rules)
+    {
+        return new ContextExportRow
+        {
+            Entity = row,
+            CompletenessScore = ContextCompleteness.Score(ToEntityContext(row), rules)
+        };
+    }
+
+    /// <summary>
+    /// Context fields of a grid row, for scoring
+    /// </summary>
+    private static EntityContext ToEntityContext(ContextGridRow row)
+    {
+        return new EntityContext
+        {
+            EntityType = row.EntityType,
+            EntityId = row.EntityId,
+            EntityName = row.EntityName,
+            Purpose = row.Purpose,
+            BusinessImpact = row.BusinessImpact,
+            CriticalityLevel = row.CriticalityLevel ?? 3,
+            BusinessDomain = row.BusinessDomain,
+            Sensitivity = row.Sensitivity,
+            DataSource = row.DataSource,
+            ValidationRules = row.ValidationRules,
+            RetentionPolicy = row.RetentionPolicy,
+            DataFlow = row.DataFlow,
+            Frequency = row.Frequency
+        };
+    }
+
+    #endregion
+
+    #region Data Dictionary
+
+    private static readonly string[] DataDictionaryEntityTypes = ["TABLE", "COLUMN", "SP"];
+
+    /// <summary>
+    /// Publish every table, column and stored procedure with its context, experts and
+    /// relationships as a static HTML site (zip) that can be browsed without an account
+    /// </summary>
+    public async Task<ContextExportFile> PublishDataDictionaryAsync(int projectId)
+    {
+        var project = await _projectRepo.GetByIdAsync(projectId)
+            ?? throw new KeyNotFoundException($"Project {projectId} not found");
+
+        var gridRows = await _contextRepo.GetContextGridRowsAsync(projectId, DataDictionaryEntityTypes, false, MaxExportRows);
+        var rules = await GetProjectCompletenessRulesAsync(projectId);
+        var entities = gridRows.Select(row => ToExportRow(row, rules)).ToList();
+
+        var experts = (await _contextRepo.GetProjectExpertDetailsAsync(projectId, DataDictionaryEntityTypes))
+            .ToLookup(e => (e.EntityType, e.EntityId));
+        foreach (var entity in entities)
+        {
+            entity.Experts = [.. experts[(entity.Entity.EntityType, entity.Entity.EntityId)]];
+        }
+
+        var tableIds = entities.Where(e => e.Entity.EntityType == "TABLE").Select(e => e.Entity.EntityId).ToList();
+        var columns = await _erDiagramRepo.GetColumnsByTableIdsAsync(tableIds);
+
+        var physicalFks = await _erDiagramRepo.GetPhysicalFksAsync(projectId);
+        var logicalFks = await _erDiagramRepo.GetLogicalFksAsync(projectId);
+        var relationships = physicalFks
+            .Select(fk => ToRelationship(fk, isLogical: false, status: null))
+            .Concat(logicalFks.Select(fk => ToRelationship(fk, isLogical: true, status: fk.Status)))
+            .ToList();
+
+        var content = new DataDictionaryContent
+        {
+            ProjectName = project.ProjectName,
+            GeneratedAt = DateTime.UtcNow,
+            Entities = entities,
+            Columns = columns,
+            Relationships = relationships,
+            Dependencies = await _contextRepo.GetProjectSpDependenciesAsync(projectId)
+        };
+
+        var baseFileName = $"data-dictionary-{projectId}-{DateTime.UtcNow:yyyyMMdd-HHmm}";
+        return DataDictionarySiteWriter.Write(content, baseFileName);
+    }
+
+    private static DataDictionaryRelationship ToRelationship(RawFkEdge fk, bool isLogical, string? status)
+    {
+        return new DataDictionaryRelationship
+        {
+            SourceTableId = fk.SourceTableId,
+            SourceColumnId = fk.SourceColumnId,
+            SourceColumnName = fk.SourceColumnName,
+            TargetTableId = fk.TargetTableId,
+            TargetColumnId = fk.TargetColumnId,
+            TargetColumnName = fk.TargetColumnName,
+            IsLogical = isLogical,
+            Status = status
+        };
+    }
+
+    #endregion
+
+    #region Review Queue
+
+    public const string ReviewDigestNotificationType = "CONTEXT_REVIEW_DIGEST";
+    private const int MaxDigestEntities = 10000;
+    private const int DigestNamesShown = 5;
+
+    // Experts added while documenting, in the bulk grid or by import are EXPERT, so digests cannot wait for an OWNER
+    private static readonly HashSet<string> DigestRecipientLevels = ["OWNER", "EXPERT"];
+
+    /// <summary>
+    /// Stale documented entities in priority order (criticality × references), with their owners
+    /// </summary>
+    public async Task<List<ContextReviewItem>> GetReviewQueueAsync(int projectId, int staleAfterDays, int limit)
+    {
+        var items = await _contextRepo.GetContextReviewQueueAsync(projectId, staleAfterDays, limit);
+        if (items.Count == 0) return items;
+
+        var owners = await GetOwnersAsync(projectId, items);
+        foreach (var item in items)
+        {
+            item.OwnerNames = [.. owners[(item.EntityType, item.EntityId)].Select(o => o.FullName ?? o.Username)];
+        }
+        return items;
+    }
+
+    /// <summary>
+    /// Record that the context is still accurate: staleness restarts from now without editing any field
+    /// </summary>
+    /// <exception cref="KeyNotFoundException">The entity has no context</exception>
+    public async Task ConfirmContextAccurateAsync(int projectId, string entityType, int entityId, int userId)
+    {
+        if (!await _contextRepo.MarkContextReviewedAsync(projectId, entityType, entityId, userId))
+        {
+            throw new KeyNotFoundException($"Context not found for {entityType} with ID {entityId}");
+        }
+    }
+
+    /// <summary>
+    /// Hide an entity from the review queue for the given number of days
+    /// </summary>
+    /// <exception cref="KeyNotFoundException">The entity has no context</exception>
+    public async Task<DateTime> SnoozeContextReviewAsync(int projectId, string entityType, int entityId, int days)
+    {
+        var snoozedUntil = DateTime.UtcNow.AddDays(days);
+        if (!await _contextRepo.SnoozeContextReviewAsync(projectId, entityType, entityId, snoozedUntil))
+        {
+            throw new KeyNotFoundException($"Context not found for {entityType} with ID {entityId}");
+        }
+        return snoozedUntil;
+    }
+
+    /// <summary>
+    /// Send each owner or expert one notification listing their stale entities, most urgent first.
+    /// Nothing schedules this; it runs only when the review queue's notify endpoint is called.
+    /// </summary>
+    public async Task<ContextReviewDigestResult> SendReviewDigestAsync(int projectId, int staleAfterDays)
+    {
+        var items = await _contextRepo.GetContextReviewQueueAsync(projectId, staleAfterDays, MaxDigestEntities);
+        var result = new ContextReviewDigestResult { StaleEntities = items.Count };
+        if (items.Count == 0) return result;
+
+        var owners = await GetOwnersAsync(projectId, items);
+        result.EntitiesWithoutOwner = items.Count(i => !owners.Contains((i.EntityType, i.EntityId)));
+
+        var digests = items
+            .SelectMany(item => owners[(item.EntityType, item.EntityId)].Select(owner => (owner.UserId, Item: item)))
+            .GroupBy(x => x.UserId, x => x.Item);
+
+        foreach (var digest in digests)
+        {
+            var (title, message) = BuildReviewDigest([.. digest]);
+            await _notificationService.CreateForUserAsync(digest.Key, projectId, ReviewDigestNotificationType, title, message);
+            result.NotifiedOwners++;
+        }
+
+        return result;
+    }
+
+    /// <summary>
+    /// Digest title and message for one owner; items are already in priority order
+    /// </summary>
+    internal static (string Title, string Message) BuildReviewDigest(IReadOnlyList<ContextReviewItem> items)
+    {
+        var names = items
+            .Take(DigestNamesShown)
+            .Select(i => string.IsNullOrEmpty(i.ParentName) ? i.EntityName : $"{i.ParentName}.{i.EntityName}");
+        var more = items.Count > DigestNamesShown ? $" and {items.Count - DigestNamesShown} more" : string.Empty;
+
+        var title = items.Count == 1
+            ? "1 entity you look after needs a context review"
+            : $"{items.Count} entities you look after need a context review";
+        var message = $"Confirm the documentation is still accurate, update it or snooze it: {string.Join(", ", names)}{more}.";
+
+        return (title, message.Length <= 500 ? message : message[..497] + "...");
+    }
+
+    private async Task<ILookup<(string EntityType, int EntityId), ContextExportExpert>> GetOwnersAsync(int projectId, List<ContextReviewItem> items)
+    {
+        var entityTypes = items.Select(i => i.EntityType).Distinct().ToList();
+        var experts = await _contextRepo.GetProjectExpertDetailsAsync(projectId, entityTypes);
+        return experts
+            .Where(e => DigestRecipientLevels.Contains(e.ExpertiseLevel))
+            .ToLookup(e => (e.EntityType, e.EntityId));
+    }
+
+    #endregion
+
+    #region Sensitivity Classification
+
+    /// <summary>
+    /// Classify every column of the project. Columns already carrying the proposed tag and
+    /// proposals rejected before are left out.
+    /// </summary>
+    public async Task<SensitivityScanResult> ScanSensitivityAsync(int projectId, IReadOnlyList<SensitivityRulePack> rulePacks)
+    {
+        var columns = await _contextRepo.GetSensitivityScanColumnsAsync(projectId);
+        var rejections = await _contextRepo.GetSensitivityRejectionsAsync(projectId);
+        var rejected = rejections
+            .Select(r => (r.ColumnId, r.Sensitivity.ToUpperInvariant()))
+            .ToHashSet();
+
+        var result = new SensitivityScanResult
+        {
+            ScannedColumns = columns.Count,
+            RulePacks = [.. rulePacks.Select(p => p.Name)]
+        };
+
+        foreach (var proposal in SensitivityClassifier.Classify(columns, rulePacks))
+        {
+            if (string.Equals(proposal.CurrentSensitivity, proposal.ProposedSensitivity, StringComparison.OrdinalIgnoreCase))
+            {
+                continue;
+            }
+
+            if (rejected.Contains((proposal.ColumnId, proposal.ProposedSensitivity)))
+            {
+                result.RejectedProposals++;
+                continue;
+            }
+
+            result.Proposals.Add(proposal);
+        }
+
+        return result;
+    }
+
+    /// <summary>
+    /// Save accepted tags as each column's context sensitivity, keeping its other fields.
+    /// Goes through <see cref="SaveContextAsync"/> so every change is recorded in history.
+    /// </summary>
+    public async Task<List<BulkImportResult>> AcceptSensitivityProposalsAsync(int projectId, List<SensitivityDecision> decisions, int userId)
+    {
+        var results = new List<BulkImportResult>();
+
+        foreach (var decision in decisions)
+        {
+            try
+            {
+                var current = await _contextRepo.GetContextAsync(projectId, "COLUMN", decision.ColumnId);
+                var request = current != null ? ToSaveRequest(current) : new SaveContextRequest();
+                request.Sensitivity = decision.Sensitivity.ToUpperInvariant();
+                request.ChangeReason = "Accepted sensitivity classifier proposal";
+
+                var saved = await SaveContextAsync(projectId, "COLUMN", decision.ColumnId, request, userId);
+                results.Add(new BulkImportResult { EntityName = saved.EntityName, Success = true });
+            }
+            catch (Exception ex)
+            {
+                results.Add(new BulkImportResult
+                {
+                    EntityName = $"COLUMN {decision.ColumnId}",
+                    Success = false,
+                    Error = ex.Message
+                });
+            }
+        }
+
+        return results;
+    }
+
+    /// <summary>
+    /// Record rejected proposals so the classifier stops proposing them; returns how many were new
+    /// </summary>
+    public async Task<int> RejectSensitivityProposalsAsync(int projectId, List<SensitivityDecision> decisions, int userId)
+    {
+        var recorded = 0;
+        foreach (var decision in decisions)
+        {
+            if (await _contextRepo.RejectSensitivityProposalAsync(projectId, decision.ColumnId, decision.Sensitivity.ToUpperInvariant(), userId))
+            {
+                recorded++;
+            }
+        }
+        return recorded;
+    }
+
+    #endregion
+
+    #region Completeness Rules
+
+    private static readonly JsonSerializerOptions CompletenessJsonOptions = new(JsonSerializerDefaults.Web);
+
+    /// <summary>
+    /// Completeness rules in effect for the project: its saved rules, or the built-in defaults
+    /// </summary>
+    public async Task<ContextCompletenessSettings> GetCompletenessRulesAsync(int projectId)
+    {
+        var row = await _contextRepo.GetCompletenessRulesAsync(projectId);
+        return ToCompletenessSettings(row);
+    }
+
+    /// <summary>
+    /// Replace the project's completeness rules
+    /// </summary>
+    /// <exception cref="ArgumentException">The rules are invalid</exception>
+    public async Task<ContextCompletenessSettings> SaveCompletenessRulesAsync(int projectId, ContextCompletenessRules rules, int userId)
+    {
+        var errors = ContextCompleteness.Validate(rules);
+        if (errors.Count > 0)
+        {
+            throw new ArgumentException(string.Join("; ", errors));
+        }
+
+        var row = await _contextRepo.UpsertCompletenessRulesAsync(
+            projectId, JsonSerializer.Serialize(rules, CompletenessJsonOptions), userId);
+        return ToCompletenessSettings(row);
+    }
+
+    /// <summary>
+    /// Drop the project's saved rules so the built-in defaults apply again
+    /// </summary>
+    public async Task<ContextCompletenessSettings> ResetCompletenessRulesAsync(int projectId)
+    {
+        await _contextRepo.DeleteCompletenessRulesAsync(projectId);
+        return ToCompletenessSettings(null);
+    }
+
+    private async Task<ContextCompletenessRules> GetProjectCompletenessRulesAsync(int projectId)
+    {
+        return (await GetCompletenessRulesAsync(projectId)).Rules;
+    }
+
+    private static ContextCompletenessSettings ToCompletenessSettings(ContextCompletenessRulesRow? row)
+    {
+        if (row == null)
+        {
+            return new ContextCompletenessSettings { Rules = ContextCompleteness.Defaults(), IsDefault = true };
+        }
+
+        return new ContextCompletenessSettings
+        {
+            Rules = JsonSerializer.Deserialize<ContextCompletenessRules>(row.RulesJson, CompletenessJsonOptions)
+                ?? ContextCompleteness.Defaults(),
+            IsDefault = false,
+            UpdatedAt = row.UpdatedAt
+        };
+    }
+
+    #endregion
+
+    #region Deprecation Board
+
+    /// <summary>
+    /// Every deprecated entity with what still references it: direct and transitive dependents
+    /// from the impact analysis traversal and, for procedures, Patcher page mappings that are not ignored
+    /// </summary>
+    public async Task<DeprecationBoard> GetDeprecationBoardAsync(int projectId)
+    {
+        var entities = await _contextRepo.GetDeprecatedEntitiesAsync(projectId);
+        if (entities.Count == 0)
+        {
+            return BuildDeprecationBoard(entities, [], [], DateTime.UtcNow.Date);
+        }
+
+        var deprecatedKeys = entities.Select(e => (e.EntityType, e.EntityId)).ToHashSet();
+        var dependents = new List<DeprecationDependentRow>();
+        foreach (var entity in entities)
+        {
+            var rows = await _dependencyRepo.GetDownstreamDependentsAsync(projectId, entity.EntityType, entity.EntityId);
+            dependents.AddRange(rows.Select(r => new DeprecationDependentRow
+            {
+                TargetType = entity.EntityType,
+                TargetId = entity.EntityId,
+                SourceType = r.SourceEntityType,
+                SourceId = r.SourceEntityId,
+                SourceName = r.SourceEntityName,
+                DependencyType = r.DependencyType,
+                Depth = r.Depth,
+                SourceIsDeprecated = deprecatedKeys.Contains((r.SourceEntityType, r.SourceEntityId))
+            }));
+        }
+
+        var mappings = entities.Any(e => e.EntityType == "SP")
+            ? await _contextRepo.GetActivePageMappingsAsync(projectId)
+            : [];
+
+        return BuildDeprecationBoard(entities, dependents, mappings, DateTime.UtcNow.Date);
+    }
+
+    /// <summary>
+    /// Move a deprecated entity through its lifecycle, recording the change in its history
+    /// </summary>
+    /// <exception cref="ArgumentException">Unknown status</exception>
+    /// <exception cref="KeyNotFoundException">The entity is not deprecated</exception>
+    public async Task<DeprecationBoardItem> UpdateDeprecationLifecycleAsync(
+        int projectId,
+        string entityType,
+        int entityId,
+        UpdateDeprecationRequest request,
+        int userId)
+    {
+        var status = request.Status.Trim().ToUpperInvariant();
+        if (!DeprecationStatuses.All.Contains(status))
+        {
+            throw new ArgumentException($"Unknown deprecation status '{request.Status}'. Expected one of: {string.Join(", ", DeprecationStatuses.All)}");
+        }
+
+        var existing = await _contextRepo.GetDeprecatedEntityAsync(projectId, entityType, entityId)
+            ?? throw new KeyNotFoundException($"{entityType} with ID {entityId} is not deprecated");
+
+        var targetDate = request.TargetRemovalDate?.Date;
+        await _contextRepo.UpdateDeprecationLifecycleAsync(projectId, entityType, entityId, status, targetDate);
+
+        if (existing.DeprecationStatus != status)
+        {
+            await _contextRepo.RecordContextChangeAsync(
+                projectId, entityType, entityId, "DeprecationStatus", existing.DeprecationStatus, status, userId);
+        }
+        if (existing.TargetRemovalDate?.Date != targetDate)
+        {
+            await _contextRepo.RecordContextChangeAsync(
+                projectId, entityType, entityId, "TargetRemovalDate",
+                existing.TargetRemovalDate?.ToString("yyyy-MM-dd"), targetDate?.ToString("yyyy-MM-dd"), userId);
+        }
+
+        var board = await GetDeprecationBoardAsync(projectId);
+        return board.Items.First(i => i.EntityType == entityType && i.EntityId == entityId);
+    }
+
+    internal static DeprecationBoard BuildDeprecationBoard(
+        List<DeprecatedEntityRow> entities,
+        List<DeprecationDependentRow> dependents,
+        List<DeprecationPageMapping> mappings,
+        DateTime today)
+    {
+        var dependentsByTarget = dependents.ToLookup(d => (d.TargetType, d.TargetId));
+        var mappingsByProcedure = mappings.ToLookup(
+            m => PatchManifestBuilder.NormalizeQualifiedName(null, m.StoredProcedure),
+            StringComparer.OrdinalIgnoreCase);
+
+        var items = entities.Select(entity =>
+        {
+            var item = new DeprecationBoardItem
+            {
+                EntityType = entity.EntityType,
+                EntityId = entity.EntityId,
+                EntityName = entity.EntityName,
+                ParentName = entity.ParentName,
+                DeprecationReason = entity.DeprecationReason,
+                ReplacedBy = entity.ReplacedBy,
+                Status = entity.DeprecationStatus,
+                TargetRemovalDate = entity.TargetRemovalDate,
+                StatusUpdatedAt = entity.DeprecationUpdatedAt,
+                Dependents = [.. dependentsByTarget[(entity.EntityType, entity.EntityId)]
+                    .GroupBy(d => (d.SourceType, d.SourceId))
+                    .Select(g => new DeprecationDependent
+                    {
+                        EntityType = g.Key.SourceType,
+                        EntityId = g.Key.SourceId,
+                        EntityName = g.First().SourceName ?? $"{g.Key.SourceType} #{g.Key.SourceId}",
+                        DependencyTypes = [.. g.Select(d => d.DependencyType).Distinct(StringComparer.OrdinalIgnoreCase)],
+                        Depth = g.Min(d => d.Depth),
+                        IsDeprecated = g.First().SourceIsDeprecated
+                    })
+                    .OrderBy(d => d.IsDeprecated)
+                    .ThenBy(d => d.Depth)
+                    .ThenBy(d => d.EntityName)],
+                PageMappings = entity.EntityType == "SP"
+                    ? [.. mappingsByProcedure[PatchManifestBuilder.NormalizeQualifiedName(entity.SchemaName, entity.EntityName)]
+                        .OrderBy(m => m.DomainName)
+                        .ThenBy(m => m.PageName)]
+                    : []
+            };
+
+            item.IsOverdue = item.Status != DeprecationStatuses.Dropped
+                && item.TargetRemovalDate.HasValue
+                && item.TargetRemovalDate.Value.Date < today;
+            item.Warning = BuildDeprecationWarning(item);
+            return item;
+        }).ToList();
+
+        return new DeprecationBoard
+        {
+            Items = items,
+            StatusCounts = DeprecationStatuses.All.ToDictionary(status => status, status => items.Count(i => i.Status == status)),
+            WarningCount = items.Count(i => i.Warning != null)
+        };
+    }
+
+    /// <summary>
+    /// Dependents that are deprecated themselves don't block removal; everything else does
+    /// </summary>
+    private static string? BuildDeprecationWarning(DeprecationBoardItem item)
+    {
+        var blockingDependents = item.Dependents.Count(d => !d.IsDeprecated);
+        var references = new List<string>();
+        if (blockingDependents > 0)
+        {
+            references.Add(blockingDependents == 1 ? "1 dependent" : $"{blockingDependents} dependents");
+        }
+        if (item.PageMappings.Count > 0)
+        {
+            references.Add(item.PageMappings.Count == 1 ? "1 page mapping" : $"{item.PageMappings.Count} page mappings");
+        }
+
+        if (references.Count == 0)
+        {
+            return null;
+        }
+
+        var referencedBy = string.Join(" and ", references);
+        if (item.Status == DeprecationStatuses.Dropped)
+        {
+            return $"Marked dropped but still referenced by {referencedBy}";
+        }
+        return item.IsOverdue
+            ? $"Past its removal date ({item.TargetRemovalDate:yyyy-MM-dd}) and still referenced by {referencedBy}"
+            : null;
+    }
+
+    #endregion
+
     [GeneratedRegex("([A-Z])")]
     private static partial Regex UppercaseLetterRegex();
     [GeneratedRegex(@"^(tbl_|sp_|fn_|vw_)")]
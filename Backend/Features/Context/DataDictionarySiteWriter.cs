@@ -0,0 +1,649 @@
+using System.Net;
+using System.Text;
+using System.Text.Json;
+using System.Text.RegularExpressions;
+using ActoEngine.WebApi.Features.ErDiagram;
+
+namespace ActoEngine.WebApi.Features.Context;
+
+/// <summary>
+/// Renders documented context as a static data dictionary site: a zip of plain HTML pages with
+/// cross-links, an index by business domain and client-side search. No server or account is
+/// needed to browse it, so it can be shared as a file or dropped on any static host.
+/// </summary>
+public static partial class DataDictionarySiteWriter
+{
+    private const string Unassigned = "Unassigned";
+
+    private static readonly JsonSerializerOptions JsonOptions = new(JsonSerializerDefaults.Web);
+
+    private static readonly (string Label, Func<ContextGridRow, string?> Value)[] TableFields =
+    [
+        ("Purpose", r => r.Purpose),
+        ("Business impact", r => r.BusinessImpact),
+        ("Data source", r => r.DataSource),
+        ("Validation rules", r => r.ValidationRules),
+        ("Retention policy", r => r.RetentionPolicy),
+        ("Deprecation reason", r => r.DeprecationReason),
+        ("Replaced by", r => r.ReplacedBy)
+    ];
+
+    private static readonly (string Label, Func<ContextGridRow, string?> Value)[] ProcedureFields =
+    [
+        ("Purpose", r => r.Purpose),
+        ("Business impact", r => r.BusinessImpact),
+        ("Data flow", r => r.DataFlow),
+        ("Frequency", r => r.Frequency),
+        ("Deprecation reason", r => r.DeprecationReason),
+        ("Replaced by", r => r.ReplacedBy)
+    ];
+
+    /// <summary>
+    /// Builds the zipped site. Pages live at index.html, tables/{id}.html and procedures/{id}.html.
+    /// </summary>
+    public static ContextExportFile Write(DataDictionaryContent content, string baseFileName)
+    {
+        var site = new Site(content);
+        var files = new Dictionary<string, byte[]>
+        {
+            ["index.html"] = Encode(RenderIndex(site)),
+            ["assets/style.css"] = Encode(Stylesheet),
+            ["assets/search.js"] = Encode(SearchScript),
+            ["assets/search-index.js"] = Encode($"window.DATA_DICTIONARY_INDEX = {JsonSerializer.Serialize(BuildSearchIndex(site), JsonOptions)};")
+        };
+
+        foreach (var table in site.Tables)
+        {
+            files[TablePath(table.Entity.EntityId)] = Encode(RenderTable(site, table));
+        }
+
+        foreach (var procedure in site.Procedures)
+        {
+            files[ProcedurePath(procedure.Entity.EntityId)] = Encode(RenderProcedure(site, procedure));
+        }
+
+        return new ContextExportFile
+        {
+            Content = ContextExportWriter.Zip(files),
+            ContentType = "application/zip",
+            FileName = $"{baseFileName}.zip"
+        };
+    }
+
+    internal static string TablePath(int tableId) => $"tables/{tableId}.html";
+
+    internal static string ProcedurePath(int spId) => $"procedures/{spId}.html";
+
+    internal static string ColumnPath(int tableId, int columnId) => $"{TablePath(tableId)}#column-{columnId}";
+
+    #region Pages
+
+    private static string RenderIndex(Site site)
+    {
+        var body = new StringBuilder();
+        var documented = site.Content.Entities.Count(e => !string.IsNullOrWhiteSpace(e.Entity.Purpose));
+
+        body.Append("<h1>Data dictionary</h1>");
+        body.Append("<dl class=\"stats\">");
+        AppendStat(body, "Tables", site.Tables.Count);
+        AppendStat(body, "Columns", site.ColumnRows.Count);
+        AppendStat(body, "Stored procedures", site.Procedures.Count);
+        AppendStat(body, "Documented", site.Content.Entities.Count == 0 ? 0 : documented * 100 / site.Content.Entities.Count, "%");
+        body.Append("</dl>");
+
+        var domains = site.Content.Entities
+            .GroupBy(e => string.IsNullOrWhiteSpace(e.Entity.BusinessDomain) ? Unassigned : e.Entity.BusinessDomain!.Trim().ToUpperInvariant())
+            .OrderBy(g => g.Key == Unassigned)
+            .ThenBy(g => g.Key, StringComparer.OrdinalIgnoreCase)
+            .ToList();
+
+        body.Append("<h2>By business domain</h2><nav class=\"domain-nav\">");
+        foreach (var domain in domains)
+        {
+            body.Append($"<a href=\"#domain-{Slug(domain.Key)}\">{Html(domain.Key)} <span class=\"count\">{domain.Count()}</span></a>");
+        }
+        body.Append("</nav>");
+
+        foreach (var domain in domains)
+        {
+            body.Append($"<section id=\"domain-{Slug(domain.Key)}\"><h3>{Html(domain.Key)}</h3>");
+            if (domain.Key == Unassigned)
+            {
+                body.Append("<p class=\"muted\">Entities without a business domain.</p>");
+            }
+            AppendEntityList(body, site, domain.OrderBy(e => e.Entity.EntityType == "COLUMN").ThenBy(e => DisplayName(e.Entity), StringComparer.OrdinalIgnoreCase), "");
+            body.Append("</section>");
+        }
+
+        body.Append("<h2 id=\"tables\">All tables</h2>");
+        AppendEntityList(body, site, site.Tables, "");
+        body.Append("<h2 id=\"procedures\">All stored procedures</h2>");
+        AppendEntityList(body, site, site.Procedures, "");
+
+        return Layout(site, "Data dictionary", "", body.ToString());
+    }
+
+    private static string RenderTable(Site site, ContextExportRow table)
+    {
+        var tableId = table.Entity.EntityId;
+        var body = new StringBuilder();
+
+        AppendHeading(body, table, "Table");
+
+        var columnSensitivities = site.ColumnsOf(tableId)
+            .Select(c => c.Row?.Entity.Sensitivity)
+            .Where(s => !string.IsNullOrWhiteSpace(s) && !IsPublicSensitivity(s!))
+            .Select(s => s!.ToUpperInvariant())
+            .Distinct()
+            .ToList();
+        if (columnSensitivities.Count > 0)
+        {
+            body.Append("<p class=\"notice\">Contains ");
+            body.Append(string.Join(" ", columnSensitivities.Select(SensitivityBadge)));
+            body.Append(" columns</p>");
+        }
+
+        AppendContextFields(body, table, TableFields);
+        AppendExperts(body, table.Experts);
+
+        body.Append("<h2>Columns</h2><table class=\"grid\"><thead><tr>");
+        body.Append("<th>Column</th><th>Type</th><th>Key</th><th>Nullable</th><th>Sensitivity</th><th>Purpose</th><th>Experts</th>");
+        body.Append("</tr></thead><tbody>");
+        foreach (var (column, row) in site.ColumnsOf(tableId))
+        {
+            var context = row?.Entity;
+            var keys = new List<string>();
+            if (column.IsPrimaryKey) keys.Add("PK");
+            if (column.IsForeignKey) keys.Add("FK");
+
+            body.Append($"<tr id=\"column-{column.ColumnId}\"{(context?.IsDeprecated == true ? " class=\"deprecated\"" : "")}>");
+            body.Append($"<td class=\"name\">{Html(column.ColumnName)}</td>");
+            body.Append($"<td><code>{Html(column.DataType)}</code></td>");
+            body.Append($"<td>{string.Join(" ", keys)}</td>");
+            body.Append($"<td>{(column.IsNullable ? "Yes" : "No")}</td>");
+            body.Append($"<td>{(context?.Sensitivity is string sensitivity && !string.IsNullOrWhiteSpace(sensitivity) ? SensitivityBadge(sensitivity) : "")}</td>");
+            body.Append($"<td>{Html(context?.Purpose)}</td>");
+            body.Append($"<td>{Html(string.Join(", ", (row?.Experts ?? []).Select(ExpertName)))}</td>");
+            body.Append("</tr>");
+        }
+        body.Append("</tbody></table>");
+
+        var outgoing = site.Content.Relationships.Where(r => r.SourceTableId == tableId).ToList();
+        var incoming = site.Content.Relationships.Where(r => r.TargetTableId == tableId).ToList();
+        if (outgoing.Count + incoming.Count > 0)
+        {
+            body.Append("<h2>Relationships</h2><table class=\"grid\"><thead><tr>");
+            body.Append("<th>Column</th><th></th><th>Related column</th><th>Kind</th>");
+            body.Append("</tr></thead><tbody>");
+            foreach (var relationship in outgoing)
+            {
+                AppendRelationship(body, site, relationship.SourceColumnName, "references", relationship.TargetTableId, relationship.TargetColumnId, relationship.TargetColumnName, relationship);
+            }
+            foreach (var relationship in incoming)
+            {
+                AppendRelationship(body, site, relationship.TargetColumnName, "referenced by", relationship.SourceTableId, relationship.SourceColumnId, relationship.SourceColumnName, relationship);
+            }
+            body.Append("</tbody></table>");
+        }
+
+        var columnIds = site.ColumnsOf(tableId).Select(c => c.Column.ColumnId).ToHashSet();
+        var usedBy = site.Content.Dependencies
+            .Where(d => (d.TargetType == "TABLE" && d.TargetId == tableId) || (d.TargetType == "COLUMN" && columnIds.Contains(d.TargetId)))
+            .Where(d => site.ProcedureName(d.SourceId).Length > 0)
+            .GroupBy(d => d.SourceId)
+            .Select(g => (ProcedureId: g.Key, Operations: g.Select(d => d.DependencyType).Distinct().Order()))
+            .ToList();
+        if (usedBy.Count > 0)
+        {
+            body.Append("<h2>Used by stored procedures</h2><ul class=\"links\">");
+            foreach (var (procedureId, operations) in usedBy.OrderBy(u => site.ProcedureName(u.ProcedureId), StringComparer.OrdinalIgnoreCase))
+            {
+                body.Append($"<li>{ProcedureLink(site, procedureId, "../")} <span class=\"muted\">{Html(string.Join(", ", operations))}</span></li>");
+            }
+            body.Append("</ul>");
+        }
+
+        return Layout(site, table.Entity.EntityName, "../", body.ToString());
+    }
+
+    private static string RenderProcedure(Site site, ContextExportRow procedure)
+    {
+        var spId = procedure.Entity.EntityId;
+        var body = new StringBuilder();
+
+        AppendHeading(body, procedure, "Stored procedure");
+        AppendContextFields(body, procedure, ProcedureFields);
+        AppendExperts(body, procedure.Experts);
+
+        var uses = site.Content.Dependencies
+            .Where(d => d.SourceId == spId)
+            .Select(d => (d.DependencyType, Link: d.TargetType switch
+            {
+                "TABLE" => TableLink(site, d.TargetId, "../"),
+                "COLUMN" => ColumnLink(site, d.TargetId, "../"),
+                _ => ProcedureLink(site, d.TargetId, "../")
+            }))
+            .Where(u => u.Link.Length > 0)
+            .Distinct()
+            .ToList();
+        if (uses.Count > 0)
+        {
+            body.Append("<h2>Uses</h2><ul class=\"links\">");
+            foreach (var use in uses.OrderBy(u => u.DependencyType).ThenBy(u => u.Link, StringComparer.OrdinalIgnoreCase))
+            {
+                body.Append($"<li>{use.Link} <span class=\"muted\">{Html(use.DependencyType)}</span></li>");
+            }
+            body.Append("</ul>");
+        }
+
+        var calledBy = site.Content.Dependencies
+            .Where(d => d.TargetType == "SP" && d.TargetId == spId && d.SourceId != spId && site.ProcedureName(d.SourceId).Length > 0)
+            .Select(d => d.SourceId)
+            .Distinct()
+            .OrderBy(site.ProcedureName, StringComparer.OrdinalIgnoreCase)
+            .ToList();
+        if (calledBy.Count > 0)
+        {
+            body.Append("<h2>Called by</h2><ul class=\"links\">");
+            foreach (var callerId in calledBy)
+            {
+                body.Append($"<li>{ProcedureLink(site, callerId, "../")}</li>");
+            }
+            body.Append("</ul>");
+        }
+
+        return Layout(site, procedure.Entity.EntityName, "../", body.ToString());
+    }
+
+    private static string Layout(Site site, string title, string root, string body)
+    {
+        var project = Html(site.Content.ProjectName);
+        return $"""
+            <!DOCTYPE html>
+            <html lang="en">
+            <head>
+            <meta charset="utf-8">
+            <meta name="viewport" content="width=device-width, initial-scale=1">
+            <title>{Html(title)} · {project}</title>
+            <link rel="stylesheet" href="{root}assets/style.css">
+            </head>
+            <body data-root="{root}">
+            <header>
+            <a class="brand" href="{root}index.html">{project} data dictionary</a>
+            <div class="search"><input id="search" type="search" placeholder="Search tables, columns and procedures" autocomplete="off"><ol id="search-results" hidden></ol></div>
+            </header>
+            <main>
+            {body}
+            </main>
+            <footer>Generated {site.Content.GeneratedAt:yyyy-MM-dd HH:mm} UTC</footer>
+            <script src="{root}assets/search-index.js"></script>
+            <script src="{root}assets/search.js"></script>
+            </body>
+            </html>
+            """;
+    }
+
+    #endregion
+
+    #region Fragments
+
+    private static void AppendHeading(StringBuilder body, ContextExportRow row, string kind)
+    {
+        var entity = row.Entity;
+        body.Append($"<p class=\"kind\">{kind}</p><h1>{Html(entity.EntityName)}</h1><p class=\"badges\">");
+        body.Append(Badges(entity));
+        body.Append($"<span class=\"badge\">{row.CompletenessScore}% documented</span></p>");
+        if (string.IsNullOrWhiteSpace(entity.Purpose))
+        {
+            body.Append("<p class=\"muted\">Not documented yet.</p>");
+        }
+    }
+
+    private static void AppendContextFields(StringBuilder body, ContextExportRow row, (string Label, Func<ContextGridRow, string?> Value)[] fields)
+    {
+        var values = fields
+            .Select(f => (f.Label, Value: f.Value(row.Entity)))
+            .Where(f => !string.IsNullOrWhiteSpace(f.Value))
+            .ToList();
+        if (values.Count == 0) return;
+
+        body.Append("<dl class=\"fields\">");
+        foreach (var (label, value) in values)
+        {
+            body.Append($"<dt>{label}</dt><dd>{Html(value)}</dd>");
+        }
+        body.Append("</dl>");
+    }
+
+    private static void AppendExperts(StringBuilder body, List<ContextExportExpert> experts)
+    {
+        if (experts.Count == 0) return;
+
+        body.Append("<h2>Experts</h2><ul class=\"experts\">");
+        foreach (var expert in experts)
+        {
+            body.Append($"<li>{Html(ExpertName(expert))} <span class=\"badge\">{Html(expert.ExpertiseLevel)}</span></li>");
+        }
+        body.Append("</ul>");
+    }
+
+    private static void AppendEntityList(StringBuilder body, Site site, IEnumerable<ContextExportRow> rows, string root)
+    {
+        body.Append("<ul class=\"entities\">");
+        foreach (var row in rows)
+        {
+            var entity = row.Entity;
+            var link = entity.EntityType switch
+            {
+                "TABLE" => TableLink(site, entity.EntityId, root),
+                "COLUMN" => ColumnLink(site, entity.EntityId, root),
+                _ => ProcedureLink(site, entity.EntityId, root)
+            };
+            body.Append($"<li><span class=\"type\">{Html(entity.EntityType)}</span> {link} {Badges(entity)}");
+            if (!string.IsNullOrWhiteSpace(entity.Purpose))
+            {
+                body.Append($"<div class=\"purpose\">{Html(Truncate(entity.Purpose, 200))}</div>");
+            }
+            body.Append("</li>");
+        }
+        body.Append("</ul>");
+    }
+
+    private static void AppendRelationship(StringBuilder body, Site site, string columnName, string direction, int otherTableId, int otherColumnId, string otherColumnName, DataDictionaryRelationship relationship)
+    {
+        var kind = relationship.IsLogical
+            ? $"<span class=\"badge logical\">Logical{(string.IsNullOrEmpty(relationship.Status) ? "" : " · " + Html(relationship.Status.ToLowerInvariant()))}</span>"
+            : "<span class=\"badge\">Physical</span>";
+        var otherTable = site.TableName(otherTableId);
+        var target = otherTable is null
+            ? Html(otherColumnName)
+            : $"<a href=\"../{ColumnPath(otherTableId, otherColumnId)}\">{Html(otherTable)}.{Html(otherColumnName)}</a>";
+
+        body.Append($"<tr><td class=\"name\">{Html(columnName)}</td><td class=\"muted\">{direction}</td><td>{target}</td><td>{kind}</td></tr>");
+    }
+
+    private static void AppendStat(StringBuilder body, string label, int value, string suffix = "")
+    {
+        body.Append($"<div><dt>{label}</dt><dd>{value}{suffix}</dd></div>");
+    }
+
+    private static string Badges(ContextGridRow entity)
+    {
+        var badges = new StringBuilder();
+        if (!string.IsNullOrWhiteSpace(entity.Sensitivity)) badges.Append(SensitivityBadge(entity.Sensitivity));
+        if (entity.CriticalityLevel is int criticality) badges.Append($"<span class=\"badge criticality-{criticality}\">Criticality {criticality}</span>");
+        if (!string.IsNullOrWhiteSpace(entity.BusinessDomain)) badges.Append($"<span class=\"badge\">{Html(entity.BusinessDomain)}</span>");
+        if (entity.IsDeprecated == true) badges.Append("<span class=\"badge deprecated\">Deprecated</span>");
+        return badges.ToString();
+    }
+
+    internal static string SensitivityBadge(string sensitivity)
+    {
+        return $"<span class=\"badge sensitivity-{Slug(sensitivity)}\">{Html(sensitivity.ToUpperInvariant())}</span>";
+    }
+
+    private static string TableLink(Site site, int tableId, string root)
+    {
+        var name = site.TableName(tableId);
+        return name is null ? "" : $"<a href=\"{root}{TablePath(tableId)}\">{Html(name)}</a>";
+    }
+
+    private static string ColumnLink(Site site, int columnId, string root)
+    {
+        if (!site.ColumnsById.TryGetValue(columnId, out var column)) return "";
+        var table = site.TableName(column.TableId) ?? "";
+        return $"<a href=\"{root}{ColumnPath(column.TableId, columnId)}\">{Html(table)}.{Html(column.ColumnName)}</a>";
+    }
+
+    private static string ProcedureLink(Site site, int spId, string root)
+    {
+        var name = site.ProcedureName(spId);
+        return string.IsNullOrEmpty(name) ? "" : $"<a href=\"{root}{ProcedurePath(spId)}\">{Html(name)}</a>";
+    }
+
+    #endregion
+
+    #region Search index
+
+    /// <summary>
+    /// Search entries for every page and column, with URLs relative to the site root
+    /// </summary>
+    internal static List<DataDictionarySearchEntry> BuildSearchIndex(Site site)
+    {
+        var entries = new List<DataDictionarySearchEntry>();
+        foreach (var row in site.Content.Entities)
+        {
+            var entity = row.Entity;
+            string? url = entity.EntityType switch
+            {
+                "TABLE" => TablePath(entity.EntityId),
+                "SP" => ProcedurePath(entity.EntityId),
+                "COLUMN" when site.ColumnsById.TryGetValue(entity.EntityId, out var column) => ColumnPath(column.TableId, column.ColumnId),
+                _ => null
+            };
+            if (url is null) continue;
+
+            entries.Add(new DataDictionarySearchEntry
+            {
+                Type = entity.EntityType,
+                Name = DisplayName(entity),
+                Url = url,
+                Purpose = Truncate(entity.Purpose, 160),
+                Domain = entity.BusinessDomain,
+                Sensitivity = entity.Sensitivity
+            });
+        }
+        return entries;
+    }
+
+    internal class DataDictionarySearchEntry
+    {
+        public required string Type { get; set; }
+        public required string Name { get; set; }
+        public required string Url { get; set; }
+        public string? Purpose { get; set; }
+        public string? Domain { get; set; }
+        public string? Sensitivity { get; set; }
+    }
+
+    #endregion
+
+    #region Helpers
+
+    /// <summary>
+    /// Lookups over the site content, built once per publish
+    /// </summary>
+    internal sealed class Site
+    {
+        public Site(DataDictionaryContent content)
+        {
+            Content = content;
+            Tables = [.. content.Entities.Where(e => e.Entity.EntityType == "TABLE").OrderBy(e => e.Entity.EntityName, StringComparer.OrdinalIgnoreCase)];
+            Procedures = [.. content.Entities.Where(e => e.Entity.EntityType == "SP").OrderBy(e => e.Entity.EntityName, StringComparer.OrdinalIgnoreCase)];
+            ColumnRows = content.Entities.Where(e => e.Entity.EntityType == "COLUMN").ToDictionary(e => e.Entity.EntityId);
+            ColumnsById = content.Columns.ToDictionary(c => c.ColumnId);
+            _tableNames = Tables.ToDictionary(t => t.Entity.EntityId, t => t.Entity.EntityName);
+            _procedureNames = Procedures.ToDictionary(p => p.Entity.EntityId, p => p.Entity.EntityName);
+            _columnsByTable = content.Columns.ToLookup(c => c.TableId);
+        }
+
+        private readonly Dictionary<int, string> _tableNames;
+        private readonly Dictionary<int, string> _procedureNames;
+        private readonly ILookup<int, ColumnInfo> _columnsByTable;
+
+        public DataDictionaryContent Content { get; }
+        public List<ContextExportRow> Tables { get; }
+        public List<ContextExportRow> Procedures { get; }
+        public Dictionary<int, ContextExportRow> ColumnRows { get; }
+        public Dictionary<int, ColumnInfo> ColumnsById { get; }
+
+        public string? TableName(int tableId) => _tableNames.GetValueOrDefault(tableId);
+
+        public string ProcedureName(int spId) => _procedureNames.GetValueOrDefault(spId) ?? string.Empty;
+
+        public IEnumerable<(ColumnInfo Column, ContextExportRow? Row)> ColumnsOf(int tableId)
+        {
+            return _columnsByTable[tableId].Select(c => (c, ColumnRows.GetValueOrDefault(c.ColumnId)));
+        }
+    }
+
+    private static string DisplayName(ContextGridRow entity)
+    {
+        return string.IsNullOrEmpty(entity.ParentName) ? entity.EntityName : $"{entity.ParentName}.{entity.EntityName}";
+    }
+
+    private static string ExpertName(ContextExportExpert expert)
+    {
+        return string.IsNullOrWhiteSpace(expert.FullName) ? expert.Username : expert.FullName;
+    }
+
+    private static bool IsPublicSensitivity(string sensitivity)
+    {
+        return sensitivity.Equals("PUBLIC", StringComparison.OrdinalIgnoreCase) || sensitivity.Equals("INTERNAL", StringComparison.OrdinalIgnoreCase);
+    }
+
+    private static string? Truncate(string? value, int length)
+    {
+        if (value is null || value.Length <= length) return value;
+        return value[..(length - 1)].TrimEnd() + "…";
+    }
+
+    private static string Html(string? value) => WebUtility.HtmlEncode(value ?? string.Empty);
+
+    internal static string Slug(string value) => NonSlugCharsRegex().Replace(value.Trim().ToLowerInvariant(), "-");
+
+    private static byte[] Encode(string value) => Encoding.UTF8.GetBytes(value);
+
+    [GeneratedRegex("[^a-z0-9]+")]
+    private static partial Regex NonSlugCharsRegex();
+
+    #endregion
+
+    #region Assets
+
+    private const string Stylesheet = """
+        :root { --fg: #1f2933; --muted: #6b7280; --border: #e5e7eb; --accent: #2563eb; --bg-soft: #f8fafc; }
+        * { box-sizing: border-box; }
+        body { margin: 0; font: 14px/1.5 system-ui, -apple-system, "Segoe UI", sans-serif; color: var(--fg); }
+        header { position: sticky; top: 0; display: flex; gap: 24px; align-items: center; padding: 10px 32px; background: #fff; border-bottom: 1px solid var(--border); z-index: 1; }
+        header .brand { font-weight: 600; color: var(--fg); text-decoration: none; white-space: nowrap; }
+        main { max-width: 1100px; margin: 0 auto; padding: 24px 32px 48px; }
+        footer { padding: 16px 32px; color: var(--muted); font-size: 12px; border-top: 1px solid var(--border); }
+        a { color: var(--accent); text-decoration: none; }
+        a:hover { text-decoration: underline; }
+        h1 { margin: 0 0 8px; font-size: 24px; }
+        h2 { margin-top: 32px; font-size: 18px; border-bottom: 1px solid var(--border); padding-bottom: 4px; }
+        h3 { font-size: 15px; margin-bottom: 4px; }
+        code { font-size: 12px; }
+        .kind, .muted, .count { color: var(--muted); }
+        .kind { margin: 0; text-transform: uppercase; font-size: 11px; letter-spacing: .05em; }
+        .notice { padding: 8px 12px; background: #fff7ed; border: 1px solid #fed7aa; border-radius: 6px; }
+        .badges { display: flex; flex-wrap: wrap; gap: 6px; }
+        .badge { display: inline-block; padding: 0 8px; margin-right: 4px; border-radius: 999px; border: 1px solid var(--border); background: var(--bg-soft); font-size: 11px; line-height: 20px; }
+        .badge.sensitivity-pii, .badge.sensitivity-sensitive { background: #fee2e2; border-color: #fca5a5; color: #991b1b; }
+        .badge.sensitivity-financial { background: #fef3c7; border-color: #fcd34d; color: #92400e; }
+        .badge.sensitivity-internal { background: #e0e7ff; border-color: #a5b4fc; color: #3730a3; }
+        .badge.sensitivity-public { background: #dcfce7; border-color: #86efac; color: #166534; }
+        .badge.criticality-4, .badge.criticality-5 { background: #ffe4e6; border-color: #fda4af; }
+        .badge.deprecated { background: #f3f4f6; color: var(--muted); text-decoration: line-through; }
+        .badge.logical { border-style: dashed; }
+        .stats { display: flex; gap: 32px; margin: 16px 0; }
+        .stats dt { color: var(--muted); font-size: 12px; }
+        .stats dd { margin: 0; font-size: 22px; font-weight: 600; }
+        .fields dt { font-weight: 600; margin-top: 12px; }
+        .fields dd { margin: 2px 0 0; white-space: pre-wrap; }
+        .domain-nav { display: flex; flex-wrap: wrap; gap: 8px; }
+        .domain-nav a { padding: 4px 10px; border: 1px solid var(--border); border-radius: 6px; }
+        ul.entities, ul.links, ul.experts { list-style: none; padding: 0; }
+        ul.entities li { padding: 6px 0; border-bottom: 1px solid var(--border); }
+        ul.links li, ul.experts li { padding: 2px 0; }
+        .type { display: inline-block; min-width: 64px; color: var(--muted); font-size: 11px; }
+        .purpose { color: var(--muted); margin-left: 68px; }
+        table.grid { width: 100%; border-collapse: collapse; }
+        table.grid th, table.grid td { text-align: left; vertical-align: top; padding: 6px 8px; border-bottom: 1px solid var(--border); }
+        table.grid th { background: var(--bg-soft); font-size: 12px; }
+        table.grid td.name { font-weight: 600; white-space: nowrap; }
+        tr.deprecated td.name { text-decoration: line-through; color: var(--muted); }
+        tr:target { background: #eff6ff; }
+        .search { position: relative; flex: 1; max-width: 480px; }
+        .search input { width: 100%; padding: 6px 10px; border: 1px solid var(--border); border-radius: 6px; font: inherit; }
+        #search-results { position: absolute; left: 0; right: 0; margin: 4px 0 0; padding: 0; list-style: none; max-height: 60vh; overflow-y: auto; background: #fff; border: 1px solid var(--border); border-radius: 6px; box-shadow: 0 8px 24px rgba(0,0,0,.08); }
+        #search-results li a { display: block; padding: 6px 10px; color: var(--fg); }
+        #search-results li a:hover, #search-results li a.active { background: var(--bg-soft); text-decoration: none; }
+        #search-results .purpose { margin: 0; font-size: 12px; }
+        """;
+
+    private const string SearchScript = """
+        (function () {
+          var index = window.DATA_DICTIONARY_INDEX || [];
+          var root = document.body.getAttribute("data-root") || "";
+          var input = document.getElementById("search");
+          var list = document.getElementById("search-results");
+          var active = -1;
+
+          function score(entry, terms) {
+            var name = entry.name.toLowerCase();
+            var text = [entry.purpose, entry.domain, entry.sensitivity, entry.type].join(" ").toLowerCase();
+            var total = 0;
+            for (var i = 0; i < terms.length; i++) {
+              var term = terms[i];
+              if (name === term || name.endsWith("." + term)) total += 100;
+              else if (name.indexOf(term) === 0) total += 50;
+              else if (name.indexOf(term) >= 0) total += 25;
+              else if (text.indexOf(term) >= 0) total += 10;
+              else return 0;
+            }
+            return total;
+          }
+
+          function escape(value) {
+            var div = document.createElement("div");
+            div.textContent = value || "";
+            return div.innerHTML;
+          }
+
+          function render() {
+            var terms = input.value.trim().toLowerCase().split(/\s+/).filter(Boolean);
+            active = -1;
+            if (terms.length === 0) { list.hidden = true; list.innerHTML = ""; return; }
+            var matches = index
+              .map(function (entry) { return { entry: entry, score: score(entry, terms) }; })
+              .filter(function (m) { return m.score > 0; })
+              .sort(function (a, b) { return b.score - a.score || a.entry.name.localeCompare(b.entry.name); })
+              .slice(0, 25);
+            list.innerHTML = matches.length === 0
+              ? '<li class="muted" style="padding:6px 10px">No matches</li>'
+              : matches.map(function (m) {
+                  var e = m.entry;
+                  return '<li><a href="' + root + e.url + '"><span class="type">' + escape(e.type) + '</span> ' + escape(e.name) +
+                    (e.purpose ? '<div class="purpose">' + escape(e.purpose) + '</div>' : '') + '</a></li>';
+                }).join("");
+            list.hidden = false;
+          }
+
+          input.addEventListener("input", render);
+          input.addEventListener("keydown", function (event) {
+            var links = list.querySelectorAll("a");
+            if (event.key === "Escape") { input.value = ""; render(); return; }
+            if (links.length === 0) return;
+            if (event.key === "ArrowDown" || event.key === "ArrowUp") {
+              event.preventDefault();
+              if (active >= 0) links[active].classList.remove("active");
+              active = (active + (event.key === "ArrowDown" ? 1 : links.length - 1)) % links.length;
+              links[active].classList.add("active");
+              links[active].scrollIntoView({ block: "nearest" });
+            } else if (event.key === "Enter") {
+              window.location.href = links[Math.max(active, 0)].href;
+            }
+          });
+          document.addEventListener("keydown", function (event) {
+            if (event.key === "/" && document.activeElement !== input) { event.preventDefault(); input.focus(); }
+          });
+          document.addEventListener("click", function (event) {
+            if (!event.target.closest(".search")) list.hidden = true;
+          });
+        })();
+        """;
+
+    #endregion
+}
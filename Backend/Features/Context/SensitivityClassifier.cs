@@ -0,0 +1,218 @@
+using System.Text.RegularExpressions;
+
+namespace ActoEngine.WebApi.Features.Context;
+
+/// <summary>
+/// Proposes sensitivity tags for columns by matching their names and data types against rule packs
+/// </summary>
+public static partial class SensitivityClassifier
+{
+    public static readonly IReadOnlySet<string> SensitivityLevels =
+        new HashSet<string>(["PUBLIC", "INTERNAL", "PII", "FINANCIAL", "SENSITIVE"], StringComparer.OrdinalIgnoreCase);
+
+    private static readonly string[] TextTypes = ["char", "varchar", "nchar", "nvarchar", "text", "ntext"];
+    private static readonly string[] NumericTypes = ["decimal", "numeric", "money", "smallmoney", "int", "bigint", "float", "real"];
+
+    private static readonly TimeSpan PatternTimeout = TimeSpan.FromMilliseconds(100);
+
+    /// <summary>
+    /// Built-in packs, in precedence order: when several packs match a column, the first one's level is proposed
+    /// </summary>
+    public static readonly IReadOnlyList<SensitivityRulePack> DefaultRulePacks =
+    [
+        new()
+        {
+            Name = "Email addresses",
+            Sensitivity = "PII",
+            Keywords = ["email", "e mail", "mail address"],
+            NamePatterns = ["email"]
+        },
+        new()
+        {
+            Name = "Phone numbers",
+            Sensitivity = "PII",
+            Keywords = ["phone", "telephone", "mobile", "cell phone", "fax", "msisdn"],
+            NamePatterns = ["phone", "mobile(no|num|number)$", "msisdn"]
+        },
+        new()
+        {
+            Name = "National IDs",
+            Sensitivity = "PII",
+            Keywords = ["ssn", "social security", "national id", "tax id", "tin", "passport", "nino", "aadhaar"],
+            NamePatterns = ["^ssn|ssn$", "socialsecurity", "nationalid", "taxid", "passport(no|num|number)?$"]
+        },
+        new()
+        {
+            Name = "Card numbers",
+            Sensitivity = "FINANCIAL",
+            Keywords = ["card number", "card no", "credit card", "debit card", "pan", "cvv", "cvc"],
+            NamePatterns = ["card(num|number|no)$", "(credit|debit)card", "^cvv|^cvc"],
+            DataTypes = [.. TextTypes, "bigint", "numeric", "decimal"]
+        },
+        new()
+        {
+            Name = "Salary",
+            Sensitivity = "FINANCIAL",
+            Keywords = ["salary", "salaries", "wage", "wages", "pay rate", "payroll", "compensation", "bonus", "income"],
+            NamePatterns = ["salary", "wage", "payrate", "payroll"],
+            DataTypes = [.. NumericTypes]
+        }
+    ];
+
+    /// <summary>
+    /// Built-in packs overlaid with configured ones (same name replaces), minus disabled packs
+    /// </summary>
+    /// <exception cref="ArgumentException">A pack has an unknown sensitivity level or an invalid pattern</exception>
+    public static List<SensitivityRulePack> ResolveRulePacks(SensitivityClassifierSettings settings)
+    {
+        var packs = DefaultRulePacks.ToList();
+        foreach (var pack in settings.RulePacks)
+        {
+            var index = packs.FindIndex(p => p.Name.Equals(pack.Name, StringComparison.OrdinalIgnoreCase));
+            if (index >= 0) packs[index] = pack;
+            else packs.Add(pack);
+        }
+
+        packs.RemoveAll(p => settings.DisabledRulePacks.Contains(p.Name, StringComparer.OrdinalIgnoreCase));
+
+        foreach (var pack in packs)
+        {
+            if (!SensitivityLevels.Contains(pack.Sensitivity))
+            {
+                throw new ArgumentException($"Rule pack '{pack.Name}' has unknown sensitivity '{pack.Sensitivity}'");
+            }
+            foreach (var pattern in pack.NamePatterns)
+            {
+                try
+                {
+                    _ = new Regex(pattern, RegexOptions.IgnoreCase, PatternTimeout);
+                }
+                catch (ArgumentException ex)
+                {
+                    throw new ArgumentException($"Rule pack '{pack.Name}' has an invalid pattern '{pattern}': {ex.Message}");
+                }
+            }
+        }
+
+        return packs;
+    }
+
+    /// <summary>
+    /// One proposal per column matched by at least one pack, carrying every matching pack's reason
+    /// </summary>
+    public static List<SensitivityProposal> Classify(IEnumerable<SensitivityScanColumn> columns, IReadOnlyList<SensitivityRulePack> rulePacks)
+    {
+        var compiled = rulePacks.Select(CompiledPack.From).ToList();
+        var proposals = new List<SensitivityProposal>();
+
+        foreach (var column in columns)
+        {
+            var words = SplitWords(column.ColumnName);
+            var compactName = string.Concat(words);
+            var baseType = BaseDataType(column.DataType);
+
+            SensitivityProposal? proposal = null;
+            foreach (var pack in compiled)
+            {
+                var reason = pack.Match(words, compactName, baseType);
+                if (reason == null) continue;
+
+                proposal ??= new SensitivityProposal
+                {
+                    ColumnId = column.ColumnId,
+                    ColumnName = column.ColumnName,
+                    TableName = column.TableName,
+                    DataType = column.DataType,
+                    CurrentSensitivity = column.CurrentSensitivity,
+                    ProposedSensitivity = pack.Pack.Sensitivity.ToUpperInvariant(),
+                    RulePack = pack.Pack.Name
+                };
+                proposal.Reasons.Add(reason);
+            }
+
+            if (proposal != null) proposals.Add(proposal);
+        }
+
+        return proposals;
+    }
+
+    /// <summary>
+    /// Lower-case words of a column name: CustomerSSN → customer, ssn; e_mail_Address → e, mail, address
+    /// </summary>
+    internal static List<string> SplitWords(string name)
+    {
+        return [.. NameWordRegex().Matches(name).Select(m => m.Value.ToLowerInvariant())];
+    }
+
+    private static string BaseDataType(string dataType)
+    {
+        var paren = dataType.IndexOf('(');
+        return (paren >= 0 ? dataType[..paren] : dataType).Trim().ToLowerInvariant();
+    }
+
+    private sealed class CompiledPack
+    {
+        public required SensitivityRulePack Pack { get; init; }
+        public required List<(string Keyword, string[] Words)> Keywords { get; init; }
+        public required List<(string Pattern, Regex Regex)> Patterns { get; init; }
+
+        public static CompiledPack From(SensitivityRulePack pack) => new()
+        {
+            Pack = pack,
+            Keywords = [.. pack.Keywords.Select(k => (k, SplitWords(k).ToArray())).Where(k => k.Item2.Length > 0)],
+            Patterns = [.. pack.NamePatterns.Select(p => (p, new Regex(p, RegexOptions.IgnoreCase | RegexOptions.CultureInvariant, PatternTimeout)))]
+        };
+
+        public string? Match(List<string> words, string compactName, string baseType)
+        {
+            if (Pack.DataTypes.Count > 0 && !Pack.DataTypes.Contains(baseType, StringComparer.OrdinalIgnoreCase))
+            {
+                return null;
+            }
+
+            var typeNote = Pack.DataTypes.Count > 0 ? $" on a {baseType} column" : "";
+
+            foreach (var (keyword, keywordWords) in Keywords)
+            {
+                if (ContainsSequence(words, keywordWords))
+                {
+                    return $"{Pack.Name}: name contains \"{keyword}\"{typeNote}";
+                }
+            }
+
+            foreach (var (pattern, regex) in Patterns)
+            {
+                try
+                {
+                    if (regex.IsMatch(compactName))
+                    {
+                        return $"{Pack.Name}: name matches /{pattern}/{typeNote}";
+                    }
+                }
+                catch (RegexMatchTimeoutException)
+                {
+                    // A runaway configured pattern just doesn't match
+                }
+            }
+
+            return null;
+        }
+
+        private static bool ContainsSequence(List<string> words, string[] sequence)
+        {
+            for (var start = 0; start + sequence.Length <= words.Count; start++)
+            {
+                var matched = true;
+                for (var i = 0; i < sequence.Length && matched; i++)
+                {
+                    matched = words[start + i] == sequence[i];
+                }
+                if (matched) return true;
+            }
+            return false;
+        }
+    }
+
+    [GeneratedRegex("[A-Z]+(?![a-z])|[A-Z]?[a-z]+|[0-9]+")]
+    private static partial Regex NameWordRegex();
+}
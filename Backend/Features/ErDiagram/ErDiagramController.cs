@@ -1,5 +1,6 @@
 using ActoEngine.WebApi.Api.ApiModels;
 using ActoEngine.WebApi.Api.Attributes;
+using ActoEngine.WebApi.Shared.Extensions;
 using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Mvc;
 
@@ -15,8 +16,11 @@ namespace ActoEngine.WebApi.Features.ErDiagram;
 [Route("api/er-diagram")]
 public class ErDiagramController(
     IErDiagramService erDiagramService,
+    IErDiagramViewService viewService,
     ILogger<ErDiagramController> logger) : ControllerBase
 {
+    private const int MaxFocusTables = 10;
+
     /// <summary>
     /// Get ER diagram data for a neighborhood around a focus table (2-hop radius).
     /// Returns tables as nodes and physical + logical FKs as edges.
@@ -48,4 +52,266 @@ public class ErDiagramController(
             return StatusCode(500, ApiResponse<object>.Failure("An error occurred while building the ER diagram"));
         }
     }
+
+    /// <summary>
+    /// Get one combined ER diagram for several focus tables (e.g. ?tableIds=1&amp;tableIds=7).
+    /// Each table's neighborhood is merged; unknown table ids are skipped.
+    /// </summary>
+    [HttpGet("projects/{projectId}/neighborhood")]
+    [RequirePermission("Schema:Read")]
+    [ProducesResponseType(typeof(ApiResponse<ErDiagramResponse>), StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(typeof(ApiResponse<object>), StatusCodes.Status404NotFound)]
+    public async Task<IActionResult> GetMultiNeighborhood(
+        int projectId,
+        [FromQuery] List<int> tableIds,
+        [FromQuery] int hops = 2,
+        CancellationToken cancellationToken = default)
+    {
+        try
+        {
+            if (tableIds.Count == 0)
+            {
+                return BadRequest(ApiResponse<object>.Failure("At least one table id is required"));
+            }
+
+            if (tableIds.Count > MaxFocusTables)
+            {
+                return BadRequest(ApiResponse<object>.Failure($"At most {MaxFocusTables} focus tables are supported"));
+            }
+
+            // Cap hops at 3 for performance
+            hops = Math.Clamp(hops, 1, 3);
+
+            var result = await erDiagramService.GetNeighborhoodAsync(projectId, tableIds, hops, cancellationToken);
+            if (result == null)
+            {
+                return NotFound(ApiResponse<object>.Failure($"None of the requested tables were found in project {projectId}"));
+            }
+
+            return Ok(ApiResponse<ErDiagramResponse>.Success(
+                result,
+                $"ER diagram with {result.Nodes.Count} tables and {result.Edges.Count} relationships"));
+        }
+        catch (Exception ex)
+        {
+            logger.LogError(ex, "Error building ER diagram for tables {TableIds} in project {ProjectId}", string.Join(",", tableIds), projectId);
+            return StatusCode(500, ApiResponse<object>.Failure("An error occurred while building the ER diagram"));
+        }
+    }
+
+    /// <summary>
+    /// Get the shortest join path between two tables over physical and confirmed logical FKs.
+    /// </summary>
+    [HttpGet("projects/{projectId}/join-path")]
+    [RequirePermission("Schema:Read")]
+    [ProducesResponseType(typeof(ApiResponse<ErJoinPathResponse>), StatusCodes.Status200OK)]
+    [ProducesResponseType(typeof(ApiResponse<object>), StatusCodes.Status404NotFound)]
+    public async Task<IActionResult> GetJoinPath(
+        int projectId,
+        [FromQuery] int fromTableId,
+        [FromQuery] int toTableId,
+        [FromQuery] int maxHops = 6,
+        CancellationToken cancellationToken = default)
+    {
+        try
+        {
+            var result = await erDiagramService.GetJoinPathAsync(projectId, fromTableId, toTableId, maxHops, cancellationToken);
+            if (result == null)
+            {
+                return NotFound(ApiResponse<object>.Failure($"Tables {fromTableId} and {toTableId} were not both found in project {projectId}"));
+            }
+
+            var message = result.Hops.Count > 0 || fromTableId == toTableId
+                ? $"Join path with {result.Hops.Count} hop(s)"
+                : "No join path found between these tables";
+            return Ok(ApiResponse<ErJoinPathResponse>.Success(result, message));
+        }
+        catch (Exception ex)
+        {
+            logger.LogError(ex, "Error finding join path from table {FromTableId} to {ToTableId} in project {ProjectId}", fromTableId, toTableId, projectId);
+            return StatusCode(500, ApiResponse<object>.Failure("An error occurred while finding the join path"));
+        }
+    }
+
+    // ============================================
+    // SAVED VIEWS
+    // ============================================
+
+    /// <summary>
+    /// List the saved diagram views of a project
+    /// </summary>
+    [HttpGet("projects/{projectId}/views")]
+    [RequirePermission("Schema:Read")]
+    [ProducesResponseType(typeof(ApiResponse<List<ErDiagramViewResponse>>), StatusCodes.Status200OK)]
+    public async Task<IActionResult> GetViews(int projectId, CancellationToken cancellationToken = default)
+    {
+        try
+        {
+            var views = await viewService.GetViewsAsync(projectId, cancellationToken);
+            return Ok(ApiResponse<List<ErDiagramViewResponse>>.Success(views, $"Retrieved {views.Count} view(s)"));
+        }
+        catch (Exception ex)
+        {
+            logger.LogError(ex, "Error listing ER diagram views for project {ProjectId}", projectId);
+            return StatusCode(500, ApiResponse<object>.Failure("An error occurred while retrieving diagram views"));
+        }
+    }
+
+    /// <summary>
+    /// Get one saved diagram view, including its layout
+    /// </summary>
+    [HttpGet("projects/{projectId}/views/{viewId}")]
+    [RequirePermission("Schema:Read")]
+    [ProducesResponseType(typeof(ApiResponse<ErDiagramViewResponse>), StatusCodes.Status200OK)]
+    [ProducesResponseType(typeof(ApiResponse<object>), StatusCodes.Status404NotFound)]
+    public async Task<IActionResult> GetView(int projectId, int viewId, CancellationToken cancellationToken = default)
+    {
+        try
+        {
+            var view = await viewService.GetViewAsync(projectId, viewId, cancellationToken);
+            if (view == null)
+            {
+                return NotFound(ApiResponse<object>.Failure($"View {viewId} not found in project {projectId}"));
+            }
+
+            return Ok(ApiResponse<ErDiagramViewResponse>.Success(view, "View retrieved successfully"));
+        }
+        catch (Exception ex)
+        {
+            logger.LogError(ex, "Error retrieving ER diagram view {ViewId} in project {ProjectId}", viewId, projectId);
+            return StatusCode(500, ApiResponse<object>.Failure("An error occurred while retrieving the diagram view"));
+        }
+    }
+
+    /// <summary>
+    /// Save the current diagram as a new named view
+    /// </summary>
+    [HttpPost("projects/{projectId}/views")]
+    [RequirePermission("Schema:Read")]
+    [ProducesResponseType(typeof(ApiResponse<ErDiagramViewResponse>), StatusCodes.Status201Created)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(StatusCodes.Status409Conflict)]
+    public async Task<IActionResult> CreateView(
+        int projectId,
+        [FromBody] SaveErDiagramViewRequest request,
+        CancellationToken cancellationToken = default)
+    {
+        try
+        {
+            if (!ModelState.IsValid)
+            {
+                return BadRequest(ApiResponse<object>.Failure("Invalid request data",
+                    [.. ModelState.Values.SelectMany(v => v.Errors.Select(e => e.ErrorMessage))]));
+            }
+
+            var userId = HttpContext.GetUserId();
+            if (userId == null)
+            {
+                return Unauthorized(ApiResponse<object>.Failure("User not authenticated"));
+            }
+
+            var view = await viewService.CreateViewAsync(projectId, request, userId.Value, cancellationToken);
+            return StatusCode(201, ApiResponse<ErDiagramViewResponse>.Success(view, "View saved"));
+        }
+        catch (ArgumentException ex)
+        {
+            return BadRequest(ApiResponse<object>.Failure(ex.Message));
+        }
+        catch (InvalidOperationException ex)
+        {
+            return Conflict(ApiResponse<object>.Failure(ex.Message));
+        }
+        catch (Exception ex)
+        {
+            logger.LogError(ex, "Error saving ER diagram view in project {ProjectId}", projectId);
+            return StatusCode(500, ApiResponse<object>.Failure("An error occurred while saving the diagram view"));
+        }
+    }
+
+    /// <summary>
+    /// Overwrite a saved view (creator or admin only)
+    /// </summary>
+    [HttpPut("projects/{projectId}/views/{viewId}")]
+    [RequirePermission("Schema:Read")]
+    [ProducesResponseType(typeof(ApiResponse<ErDiagramViewResponse>), StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(typeof(ApiResponse<object>), StatusCodes.Status404NotFound)]
+    [ProducesResponseType(StatusCodes.Status409Conflict)]
+    public async Task<IActionResult> UpdateView(
+        int projectId,
+        int viewId,
+        [FromBody] SaveErDiagramViewRequest request,
+        CancellationToken cancellationToken = default)
+    {
+        try
+        {
+            if (!ModelState.IsValid)
+            {
+                return BadRequest(ApiResponse<object>.Failure("Invalid request data",
+                    [.. ModelState.Values.SelectMany(v => v.Errors.Select(e => e.ErrorMessage))]));
+            }
+
+            var userId = HttpContext.GetUserId();
+            if (userId == null)
+            {
+                return Unauthorized(ApiResponse<object>.Failure("User not authenticated"));
+            }
+
+            var isAdmin = HttpContext.User.FindFirst("role")?.Value == "Admin";
+            var view = await viewService.UpdateViewAsync(projectId, viewId, request, userId.Value, isAdmin, cancellationToken);
+            if (view == null)
+            {
+                return NotFound(ApiResponse<object>.Failure("View not found or you don't have permission to edit it"));
+            }
+
+            return Ok(ApiResponse<ErDiagramViewResponse>.Success(view, "View updated"));
+        }
+        catch (ArgumentException ex)
+        {
+            return BadRequest(ApiResponse<object>.Failure(ex.Message));
+        }
+        catch (InvalidOperationException ex)
+        {
+            return Conflict(ApiResponse<object>.Failure(ex.Message));
+        }
+        catch (Exception ex)
+        {
+            logger.LogError(ex, "Error updating ER diagram view {ViewId} in project {ProjectId}", viewId, projectId);
+            return StatusCode(500, ApiResponse<object>.Failure("An error occurred while updating the diagram view"));
+        }
+    }
+
+    /// <summary>
+    /// Delete a saved view (creator or admin only)
+    /// </summary>
+    [HttpDelete("projects/{projectId}/views/{viewId}")]
+    [RequirePermission("Schema:Read")]
+    [ProducesResponseType(typeof(ApiResponse<object>), StatusCodes.Status200OK)]
+    [ProducesResponseType(typeof(ApiResponse<object>), StatusCodes.Status404NotFound)]
+    public async Task<IActionResult> DeleteView(int projectId, int viewId, CancellationToken cancellationToken = default)
+    {
+        try
+        {
+            var userId = HttpContext.GetUserId();
+            if (userId == null)
+            {
+                return Unauthorized(ApiResponse<object>.Failure("User not authenticated"));
+            }
+
+            var isAdmin = HttpContext.User.FindFirst("role")?.Value == "Admin";
+            var deleted = await viewService.DeleteViewAsync(projectId, viewId, userId.Value, isAdmin, cancellationToken);
+            if (!deleted)
+            {
+                return NotFound(ApiResponse<object>.Failure("View not found or you don't have permission to delete it"));
+            }
+
+            return Ok(ApiResponse<object>.Success(new { }, "View deleted"));
+        }
+        catch (Exception ex)
+        {
+            logger.LogError(ex, "Error deleting ER diagram view {ViewId} in project {ProjectId}", viewId, projectId);
+            return StatusCode(500, ApiResponse<object>.Failure("An error occurred while deleting the diagram view"));
+        }
+    }
 }
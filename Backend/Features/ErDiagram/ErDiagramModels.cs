@@ -1,3 +1,5 @@
+using System.ComponentModel.DataAnnotations;
+
 namespace ActoEngine.WebApi.Features.ErDiagram;
 
 /// <summary>
@@ -6,6 +8,11 @@ namespace ActoEngine.WebApi.Features.ErDiagram;
 public class ErDiagramResponse
 {
     public required int FocusTableId { get; set; }
+
+    /// <summary>
+    /// All focus tables, in the order requested. FocusTableId is the first of these.
+    /// </summary>
+    public List<int> FocusTableIds { get; set; } = [];
     public required List<ErNode> Nodes { get; set; } = [];
     public required List<ErEdge> Edges { get; set; } = [];
 }
@@ -75,6 +82,40 @@ public class ErEdge
     public DateTime? CreatedAt { get; set; }
 }
 
+/// <summary>
+/// Shortest join chain between two tables, plus the diagram of the tables along it
+/// </summary>
+public class ErJoinPathResponse
+{
+    public required int FromTableId { get; set; }
+    public required int ToTableId { get; set; }
+
+    /// <summary>
+    /// Ordered joins from FromTableId to ToTableId. Empty when the tables are not connected.
+    /// </summary>
+    public required List<ErJoinHop> Hops { get; set; } = [];
+    public required ErDiagramResponse Diagram { get; set; }
+}
+
+/// <summary>
+/// One join along a path, oriented in walking direction (which may be against the FK direction)
+/// </summary>
+public class ErJoinHop
+{
+    public required string EdgeId { get; set; }
+    public required int FromTableId { get; set; }
+    public required int FromColumnId { get; set; }
+    public required string FromColumnName { get; set; }
+    public required int ToTableId { get; set; }
+    public required int ToColumnId { get; set; }
+    public required string ToColumnName { get; set; }
+
+    /// <summary>
+    /// "PHYSICAL" or "LOGICAL"
+    /// </summary>
+    public required string RelationshipType { get; set; }
+}
+
 public class TableInfo
 {
     public int TableId { get; set; }
@@ -113,3 +154,76 @@ public class RawLogicalFkEdge : RawFkEdge
     public int? ConfirmedBy { get; set; }
     public DateTime CreatedAt { get; set; }
 }
+
+// ============================================
+// SAVED VIEWS
+// ============================================
+
+/// <summary>
+/// Canvas state captured by a saved view. Serialized into ErDiagramViews.LayoutJson.
+/// </summary>
+public class ErDiagramViewLayout
+{
+    public List<int> FocusTableIds { get; set; } = [];
+    public int Hops { get; set; } = 2;
+
+    /// <summary>
+    /// Dagre rank direction: "LR" or "TB"
+    /// </summary>
+    public string Direction { get; set; } = "LR";
+
+    /// <summary>
+    /// Manual node positions keyed by table id
+    /// </summary>
+    public Dictionary<int, ErNodePosition> Positions { get; set; } = [];
+    public List<int> HiddenTableIds { get; set; } = [];
+}
+
+public class ErNodePosition
+{
+    public double X { get; set; }
+    public double Y { get; set; }
+}
+
+public class SaveErDiagramViewRequest
+{
+    [Required(ErrorMessage = "Name is required")]
+    [StringLength(100, MinimumLength = 1, ErrorMessage = "Name must be between 1 and 100 characters")]
+    public string Name { get; set; } = default!;
+
+    [StringLength(500, ErrorMessage = "Description must be at most 500 characters")]
+    public string? Description { get; set; }
+
+    [Required(ErrorMessage = "Layout is required")]
+    public ErDiagramViewLayout Layout { get; set; } = default!;
+}
+
+public class ErDiagramViewResponse
+{
+    public int ViewId { get; set; }
+    public int ProjectId { get; set; }
+    public string Name { get; set; } = string.Empty;
+    public string? Description { get; set; }
+    public ErDiagramViewLayout Layout { get; set; } = new();
+    public int CreatedBy { get; set; }
+    public string CreatedByName { get; set; } = string.Empty;
+    public DateTime CreatedAt { get; set; }
+    public DateTime? UpdatedAt { get; set; }
+}
+
+/// <summary>
+/// Row shape of ErDiagramViews; LayoutJson is deserialized by the service
+/// </summary>
+public class ErDiagramViewRow
+{
+    public int ViewId { get; set; }
+    public int ProjectId { get; set; }
+    public string Name { get; set; } = string.Empty;
+    public string? Description { get; set; }
+    public string LayoutJson { get; set; } = "{}";
+    public int CreatedBy { get; set; }
+    public string CreatedByName { get; set; } = string.Empty;
+    public int? UpdatedBy { get; set; }
+    public DateTime CreatedAt { get; set; }
+    public DateTime? UpdatedAt { get; set; }
+}
@@ -3,7 +3,10 @@ namespace ActoEngine.WebApi.Features.ErDiagram;
 
 internal static class ErDiagramQueries
 {
-    public const string GetTableInfo = "SELECT TableId, TableName, SchemaName FROM TablesMetadata WHERE TableId = @TableId AND ProjectId = @ProjectId";
+    public const string GetProjectTablesByIds = @"
+        SELECT TableId, TableName, SchemaName
+        FROM TablesMetadata
+        WHERE ProjectId = @ProjectId AND TableId IN @TableIds";
 
     /// <summary>
     /// Get all physical FK edges for a project.
@@ -60,4 +63,46 @@ internal static class ErDiagramQueries
         FROM ColumnsMetadata
         WHERE TableId IN @TableIds
         ORDER BY ColumnOrder";
+
+    private const string ViewColumns = @"
+            v.ViewId, v.ProjectId, v.Name, v.Description, v.LayoutJson,
+            v.CreatedBy, ISNULL(u.FullName, u.Username) AS CreatedByName,
+            v.UpdatedBy, v.CreatedAt, v.UpdatedAt";
+
+    public const string GetViewsByProject = @"
+        SELECT" + ViewColumns + @"
+        FROM ErDiagramViews v
+        LEFT JOIN Users u ON u.UserID = v.CreatedBy
+        WHERE v.ProjectId = @ProjectId
+        ORDER BY v.Name";
+
+    public const string GetViewById = @"
+        SELECT" + ViewColumns + @"
+        FROM ErDiagramViews v
+        LEFT JOIN Users u ON u.UserID = v.CreatedBy
+        WHERE v.ProjectId = @ProjectId AND v.ViewId = @ViewId";
+
+    public const string ViewNameExists = @"
+        SELECT CASE WHEN EXISTS (
+            SELECT 1 FROM ErDiagramViews
+            WHERE ProjectId = @ProjectId AND Name = @Name AND ViewId <> ISNULL(@ExcludeViewId, 0)
+        ) THEN 1 ELSE 0 END";
+
+    public const string InsertView = @"
+        INSERT INTO ErDiagramViews (ProjectId, Name, Description, LayoutJson, CreatedBy, CreatedAt)
+        OUTPUT INSERTED.ViewId
+        VALUES (@ProjectId, @Name, @Description, @LayoutJson, @CreatedBy, GETUTCDATE())";
+
+    public const string UpdateView = @"
+        UPDATE ErDiagramViews
+        SET Name = @Name,
+            Description = @Description,
+            LayoutJson = @LayoutJson,
+            UpdatedBy = @UpdatedBy,
+            UpdatedAt = GETUTCDATE()
+        WHERE ProjectId = @ProjectId AND ViewId = @ViewId";
+
+    public const string DeleteView = @"
+        DELETE FROM ErDiagramViews
+        WHERE ProjectId = @ProjectId AND ViewId = @ViewId";
 }
@@ -6,7 +6,7 @@ namespace ActoEngine.WebApi.Features.ErDiagram;
 
 public interface IErDiagramRepository
 {
-    Task<TableInfo?> GetTableInfoAsync(int projectId, int tableId, CancellationToken cancellationToken = default);
+    Task<List<TableInfo>> GetProjectTablesByIdsAsync(int projectId, IEnumerable<int> tableIds, CancellationToken cancellationToken = default);
     Task<List<RawFkEdge>> GetPhysicalFksAsync(int projectId, CancellationToken cancellationToken = default);
     Task<List<RawLogicalFkEdge>> GetLogicalFksAsync(int projectId, CancellationToken cancellationToken = default);
     Task<List<TableInfo>> GetTablesByIdsAsync(IEnumerable<int> tableIds, CancellationToken cancellationToken = default);
@@ -18,12 +18,16 @@ public class ErDiagramRepository(
     ILogger<ErDiagramRepository> logger)
     : BaseRepository(connectionFactory, logger), IErDiagramRepository
 {
-    public async Task<TableInfo?> GetTableInfoAsync(int projectId, int tableId, CancellationToken cancellationToken = default)
+    public async Task<List<TableInfo>> GetProjectTablesByIdsAsync(int projectId, IEnumerable<int> tableIds, CancellationToken cancellationToken = default)
     {
-        return await QueryFirstOrDefaultAsync<TableInfo>(
-            ErDiagramQueries.GetTableInfo,
-            new { ProjectId = projectId, TableId = tableId },
+        var ids = tableIds?.ToList() ?? [];
+        if (ids.Count == 0) return [];
+
+        var result = await QueryAsync<TableInfo>(
+            ErDiagramQueries.GetProjectTablesByIds,
+            new { ProjectId = projectId, TableIds = ids },
             cancellationToken);
+        return [.. result];
     }
 
     public async Task<List<RawFkEdge>> GetPhysicalFksAsync(int projectId, CancellationToken cancellationToken = default)
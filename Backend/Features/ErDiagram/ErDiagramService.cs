@@ -6,11 +6,13 @@ namespace ActoEngine.WebApi.Features.ErDiagram;
 public interface IErDiagramService
 {
     Task<ErDiagramResponse?> GetNeighborhoodAsync(int projectId, int focusTableId, int hops, CancellationToken cancellationToken = default);
+    Task<ErDiagramResponse?> GetNeighborhoodAsync(int projectId, IReadOnlyCollection<int> focusTableIds, int hops, CancellationToken cancellationToken = default);
+    Task<ErJoinPathResponse?> GetJoinPathAsync(int projectId, int fromTableId, int toTableId, int maxHops, CancellationToken cancellationToken = default);
 }
 
 /// <summary>
 /// Assembles ER diagram data by combining physical FK + logical FK relationships
-/// into a neighborhood graph around a focus table.
+/// into a neighborhood graph around one or more focus tables.
 /// </summary>
 public class ErDiagramService(
     IErDiagramRepository repository,
@@ -19,19 +21,33 @@ public class ErDiagramService(
     /// <summary>
     /// Build a neighborhood graph: start at focusTableId, follow FK edges up to N hops.
     /// </summary>
-    public async Task<ErDiagramResponse?> GetNeighborhoodAsync(
+    public Task<ErDiagramResponse?> GetNeighborhoodAsync(
         int projectId, int focusTableId, int hops, CancellationToken cancellationToken = default)
+    {
+        return GetNeighborhoodAsync(projectId, [focusTableId], hops, cancellationToken);
+    }
+
+    /// <summary>
+    /// Build a combined neighborhood graph: every focus table starts at depth 0,
+    /// and each other table gets its distance to the nearest focus table.
+    /// Focus tables that do not belong to the project are ignored.
+    /// </summary>
+    public async Task<ErDiagramResponse?> GetNeighborhoodAsync(
+        int projectId, IReadOnlyCollection<int> focusTableIds, int hops, CancellationToken cancellationToken = default)
     {
         var boundedHops = Math.Clamp(hops, 0, 10);
 
-        // Verify focus table exists and belongs to the project
-        var focusTable = await repository.GetTableInfoAsync(projectId, focusTableId, cancellationToken);
+        // Verify focus tables exist and belong to the project
+        var focusTables = await repository.GetProjectTablesByIdsAsync(projectId, focusTableIds.Distinct(), cancellationToken);
 
-        if (focusTable == null) return null;
+        if (focusTables.Count == 0) return null;
+
+        // Keep the caller's order so the first focus table stays the layout anchor
+        var focusIds = focusTableIds.Distinct().Where(id => focusTables.Any(t => t.TableId == id)).ToList();
 
         // Track visited tables and their depth
-        var visited = new Dictionary<int, int> { { focusTableId, 0 } };
-        var frontier = new HashSet<int> { focusTableId };
+        var visited = focusIds.ToDictionary(id => id, _ => 0);
+        var frontier = new HashSet<int>(focusIds);
 
         // Get ALL physical FK edges for this project (efficient single query)
         var physicalEdgesTask = repository.GetPhysicalFksAsync(projectId, cancellationToken);
@@ -76,6 +92,74 @@ public class ErDiagramService(
             if (frontier.Count == 0) break;
         }
 
+        var response = await BuildResponseAsync(focusIds, visited, physicalEdges, logicalEdges, cancellationToken);
+
+        logger.LogInformation(
+            "ER diagram for tables {FocusTableIds}: {NodeCount} nodes, {EdgeCount} edges ({Hops} hops)",
+            string.Join(",", focusIds), response.Nodes.Count, response.Edges.Count, boundedHops);
+
+        return response;
+    }
+
+    /// <summary>
+    /// Find the shortest chain of joins between two tables.
+    /// Only physical FKs and confirmed logical FKs are followed; suggestions are not trusted for joins.
+    /// Returns an empty hop list when the tables are not connected within maxHops.
+    /// </summary>
+    public async Task<ErJoinPathResponse?> GetJoinPathAsync(
+        int projectId, int fromTableId, int toTableId, int maxHops, CancellationToken cancellationToken = default)
+    {
+        var endpoints = await repository.GetProjectTablesByIdsAsync(projectId, [fromTableId, toTableId], cancellationToken);
+        if (endpoints.Count != (fromTableId == toTableId ? 1 : 2)) return null;
+
+        var physicalEdgesTask = repository.GetPhysicalFksAsync(projectId, cancellationToken);
+        var logicalEdgesTask = repository.GetLogicalFksAsync(projectId, cancellationToken);
+        await Task.WhenAll(physicalEdgesTask, logicalEdgesTask);
+        var physicalEdges = await physicalEdgesTask;
+        var confirmedLogicalEdges = (await logicalEdgesTask).Where(e => e.Status == "CONFIRMED").ToList();
+
+        // Physical edges go first so they win ties against logical ones
+        var candidates = physicalEdges.Select(ToPhysicalEdge)
+            .Concat(confirmedLogicalEdges.Select(ToLogicalEdge));
+        var hops = ErJoinPathFinder.FindShortestPath(candidates, fromTableId, toTableId, Math.Clamp(maxHops, 1, 10)) ?? [];
+
+        // Depth is the position along the path, so the layout reads from start to end
+        var visited = new Dictionary<int, int> { { fromTableId, 0 } };
+        foreach (var hop in hops)
+        {
+            visited.TryAdd(hop.ToTableId, visited.Count);
+        }
+        visited.TryAdd(toTableId, visited.Count);
+
+        var diagram = await BuildResponseAsync([.. new[] { fromTableId, toTableId }.Distinct()], visited, physicalEdges, confirmedLogicalEdges, cancellationToken);
+
+        // Only the edges on the path belong in a path diagram
+        var hopEdgeIds = hops.Select(h => h.EdgeId).ToHashSet();
+        diagram.Edges = [.. diagram.Edges.Where(e => hopEdgeIds.Contains(e.Id))];
+
+        logger.LogInformation(
+            "Join path from table {FromTableId} to {ToTableId}: {HopCount} hop(s)",
+            fromTableId, toTableId, hops.Count);
+
+        return new ErJoinPathResponse
+        {
+            FromTableId = fromTableId,
+            ToTableId = toTableId,
+            Hops = hops,
+            Diagram = diagram
+        };
+    }
+
+    /// <summary>
+    /// Load tables and columns for the visited set and keep only edges whose endpoints were both visited.
+    /// </summary>
+    private async Task<ErDiagramResponse> BuildResponseAsync(
+        List<int> focusIds,
+        Dictionary<int, int> visited,
+        List<RawFkEdge> physicalEdges,
+        List<RawLogicalFkEdge> logicalEdges,
+        CancellationToken cancellationToken)
+    {
         var tableIds = visited.Keys.ToList();
 
         // Load table + column data for all visited tables
@@ -116,17 +200,7 @@ public class ErDiagramService(
             if (!visited.ContainsKey(edge.SourceTableId) || !visited.ContainsKey(edge.TargetTableId))
                 continue;
 
-            edges.Add(new ErEdge
-            {
-                Id = $"phys-{edge.SourceTableId}-{edge.SourceColumnId}-{edge.TargetTableId}-{edge.TargetColumnId}",
-                SourceTableId = edge.SourceTableId,
-                SourceColumnId = edge.SourceColumnId,
-                SourceColumnName = edge.SourceColumnName,
-                TargetTableId = edge.TargetTableId,
-                TargetColumnId = edge.TargetColumnId,
-                TargetColumnName = edge.TargetColumnName,
-                RelationshipType = "PHYSICAL"
-            });
+            edges.Add(ToPhysicalEdge(edge));
         }
 
         foreach (var edge in logicalEdges)
@@ -134,37 +208,52 @@ public class ErDiagramService(
             if (!visited.ContainsKey(edge.SourceTableId) || !visited.ContainsKey(edge.TargetTableId))
                 continue;
 
-            edges.Add(new ErEdge
-            {
-                Id = $"logical-{edge.LogicalForeignKeyId}",
-                SourceTableId = edge.SourceTableId,
-                SourceColumnId = edge.SourceColumnId,
-                SourceColumnName = edge.SourceColumnName,
-                TargetTableId = edge.TargetTableId,
-                TargetColumnId = edge.TargetColumnId,
-                TargetColumnName = edge.TargetColumnName,
-                RelationshipType = "LOGICAL",
-                Status = edge.Status,
-                ConfidenceScore = edge.ConfidenceScore,
-                LogicalFkId = edge.LogicalForeignKeyId,
-                DiscoveryMethod = edge.DiscoveryMethod,
-                ConfirmedAt = edge.ConfirmedAt,
-                ConfirmedBy = edge.ConfirmedBy,
-                CreatedAt = edge.CreatedAt
-            });
+            edges.Add(ToLogicalEdge(edge));
         }
 
-        logger.LogInformation(
-            "ER diagram for table {FocusTableId}: {NodeCount} nodes, {EdgeCount} edges ({Hops} hops)",
-            focusTableId, nodes.Count, edges.Count, boundedHops);
-
         return new ErDiagramResponse
         {
-            FocusTableId = focusTableId,
+            FocusTableId = focusIds[0],
+            FocusTableIds = focusIds,
             Nodes = nodes,
             Edges = edges
         };
     }
-}
 
+    private static ErEdge ToPhysicalEdge(RawFkEdge edge)
+    {
+        return new ErEdge
+        {
+            Id = $"phys-{edge.SourceTableId}-{edge.SourceColumnId}-{edge.TargetTableId}-{edge.TargetColumnId}",
+            SourceTableId = edge.SourceTableId,
+            SourceColumnId = edge.SourceColumnId,
+            SourceColumnName = edge.SourceColumnName,
+            TargetTableId = edge.TargetTableId,
+            TargetColumnId = edge.TargetColumnId,
+            TargetColumnName = edge.TargetColumnName,
+            RelationshipType = "PHYSICAL"
+        };
+    }
 
+    private static ErEdge ToLogicalEdge(RawLogicalFkEdge edge)
+    {
+        return new ErEdge
+        {
+            Id = $"logical-{edge.LogicalForeignKeyId}",
+            SourceTableId = edge.SourceTableId,
+            SourceColumnId = edge.SourceColumnId,
+            SourceColumnName = edge.SourceColumnName,
+            TargetTableId = edge.TargetTableId,
+            TargetColumnId = edge.TargetColumnId,
+            TargetColumnName = edge.TargetColumnName,
+            RelationshipType = "LOGICAL",
+            Status = edge.Status,
+            ConfidenceScore = edge.ConfidenceScore,
+            LogicalFkId = edge.LogicalForeignKeyId,
+            DiscoveryMethod = edge.DiscoveryMethod,
+            ConfirmedAt = edge.ConfirmedAt,
+            ConfirmedBy = edge.ConfirmedBy,
+            CreatedAt = edge.CreatedAt
+        };
+    }
+}
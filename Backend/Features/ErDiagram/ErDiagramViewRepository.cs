@@ -0,0 +1,74 @@
+using ActoEngine.WebApi.Infrastructure.Database;
+using ActoEngine.WebApi.Shared;
+
+namespace ActoEngine.WebApi.Features.ErDiagram;
+
+public interface IErDiagramViewRepository
+{
+    Task<List<ErDiagramViewRow>> GetByProjectAsync(int projectId, CancellationToken cancellationToken = default);
+    Task<ErDiagramViewRow?> GetByIdAsync(int projectId, int viewId, CancellationToken cancellationToken = default);
+    Task<bool> NameExistsAsync(int projectId, string name, int? excludeViewId = null, CancellationToken cancellationToken = default);
+    Task<int> CreateAsync(int projectId, string name, string? description, string layoutJson, int userId, CancellationToken cancellationToken = default);
+    Task<bool> UpdateAsync(int projectId, int viewId, string name, string? description, string layoutJson, int userId, CancellationToken cancellationToken = default);
+    Task<bool> DeleteAsync(int projectId, int viewId, CancellationToken cancellationToken = default);
+}
+
+public class ErDiagramViewRepository(
+    IDbConnectionFactory connectionFactory,
+    ILogger<ErDiagramViewRepository> logger)
+    : BaseRepository(connectionFactory, logger), IErDiagramViewRepository
+{
+    public async Task<List<ErDiagramViewRow>> GetByProjectAsync(int projectId, CancellationToken cancellationToken = default)
+    {
+        var result = await QueryAsync<ErDiagramViewRow>(
+            ErDiagramQueries.GetViewsByProject,
+            new { ProjectId = projectId },
+            cancellationToken);
+        return [.. result];
+    }
+
+    public async Task<ErDiagramViewRow?> GetByIdAsync(int projectId, int viewId, CancellationToken cancellationToken = default)
+    {
+        return await QueryFirstOrDefaultAsync<ErDiagramViewRow>(
+            ErDiagramQueries.GetViewById,
+            new { ProjectId = projectId, ViewId = viewId },
+            cancellationToken);
+    }
+
+    public async Task<bool> NameExistsAsync(int projectId, string name, int? excludeViewId = null, CancellationToken cancellationToken = default)
+    {
+        var exists = await ExecuteScalarAsync<int>(
+            ErDiagramQueries.ViewNameExists,
+            new { ProjectId = projectId, Name = name, ExcludeViewId = excludeViewId },
+            cancellationToken);
+        return exists == 1;
+    }
+
+    public async Task<int> CreateAsync(
+        int projectId, string name, string? description, string layoutJson, int userId, CancellationToken cancellationToken = default)
+    {
+        return await ExecuteScalarAsync<int>(
+            ErDiagramQueries.InsertView,
+            new { ProjectId = projectId, Name = name, Description = description, LayoutJson = layoutJson, CreatedBy = userId },
+            cancellationToken);
+    }
+
+    public async Task<bool> UpdateAsync(
+        int projectId, int viewId, string name, string? description, string layoutJson, int userId, CancellationToken cancellationToken = default)
+    {
+        var rows = await ExecuteAsync(
+            ErDiagramQueries.UpdateView,
+            new { ProjectId = projectId, ViewId = viewId, Name = name, Description = description, LayoutJson = layoutJson, UpdatedBy = userId },
+            cancellationToken);
+        return rows > 0;
+    }
+
+    public async Task<bool> DeleteAsync(int projectId, int viewId, CancellationToken cancellationToken = default)
+    {
+        var rows = await ExecuteAsync(
+            ErDiagramQueries.DeleteView,
+            new { ProjectId = projectId, ViewId = viewId },
+            cancellationToken);
+        return rows > 0;
+    }
+}
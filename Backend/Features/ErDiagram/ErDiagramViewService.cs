@@ -0,0 +1,160 @@
+using System.Text.Json;
+
+namespace ActoEngine.WebApi.Features.ErDiagram;
+
+/// <summary>
+/// Service contract for saved ER diagram views
+/// </summary>
+public interface IErDiagramViewService
+{
+    Task<List<ErDiagramViewResponse>> GetViewsAsync(int projectId, CancellationToken cancellationToken = default);
+    Task<ErDiagramViewResponse?> GetViewAsync(int projectId, int viewId, CancellationToken cancellationToken = default);
+    Task<ErDiagramViewResponse> CreateViewAsync(int projectId, SaveErDiagramViewRequest request, int userId, CancellationToken cancellationToken = default);
+    Task<ErDiagramViewResponse?> UpdateViewAsync(int projectId, int viewId, SaveErDiagramViewRequest request, int userId, bool isAdmin, CancellationToken cancellationToken = default);
+    Task<bool> DeleteViewAsync(int projectId, int viewId, int userId, bool isAdmin, CancellationToken cancellationToken = default);
+}
+
+/// <summary>
+/// Stores named ER diagram layouts per project. Any project member can open a view;
+/// only its creator or an admin can change or delete it.
+/// </summary>
+public class ErDiagramViewService(
+    IErDiagramViewRepository repository,
+    ILogger<ErDiagramViewService> logger) : IErDiagramViewService
+{
+    private static readonly JsonSerializerOptions JsonOptions = new(JsonSerializerDefaults.Web);
+
+    private const int MinHops = 1;
+    private const int MaxHops = 3;
+
+    public async Task<List<ErDiagramViewResponse>> GetViewsAsync(int projectId, CancellationToken cancellationToken = default)
+    {
+        var rows = await repository.GetByProjectAsync(projectId, cancellationToken);
+        return [.. rows.Select(ToResponse)];
+    }
+
+    public async Task<ErDiagramViewResponse?> GetViewAsync(int projectId, int viewId, CancellationToken cancellationToken = default)
+    {
+        var row = await repository.GetByIdAsync(projectId, viewId, cancellationToken);
+        return row == null ? null : ToResponse(row);
+    }
+
+    public async Task<ErDiagramViewResponse> CreateViewAsync(
+        int projectId, SaveErDiagramViewRequest request, int userId, CancellationToken cancellationToken = default)
+    {
+        var name = request.Name.Trim();
+        var layout = NormalizeLayout(request.Layout);
+
+        if (await repository.NameExistsAsync(projectId, name, null, cancellationToken))
+        {
+            throw new InvalidOperationException($"A view named '{name}' already exists in this project.");
+        }
+
+        var viewId = await repository.CreateAsync(
+            projectId, name, request.Description, JsonSerializer.Serialize(layout, JsonOptions), userId, cancellationToken);
+        logger.LogInformation("Created ER diagram view {ViewId} in project {ProjectId} by user {UserId}", viewId, projectId, userId);
+
+        return await GetViewAsync(projectId, viewId, cancellationToken)
+            ?? throw new InvalidOperationException($"Created view {viewId} could not be loaded.");
+    }
+
+    public async Task<ErDiagramViewResponse?> UpdateViewAsync(
+        int projectId, int viewId, SaveErDiagramViewRequest request, int userId, bool isAdmin, CancellationToken cancellationToken = default)
+    {
+        var existing = await repository.GetByIdAsync(projectId, viewId, cancellationToken);
+        if (existing == null) return null;
+
+        if (existing.CreatedBy != userId && !isAdmin)
+        {
+            logger.LogWarning("User {UserId} attempted to update ER diagram view {ViewId} owned by {OwnerId}",
+                userId, viewId, existing.CreatedBy);
+            return null;
+        }
+
+        var name = request.Name.Trim();
+        var layout = NormalizeLayout(request.Layout);
+
+        if (await repository.NameExistsAsync(projectId, name, viewId, cancellationToken))
+        {
+            throw new InvalidOperationException($"A view named '{name}' already exists in this project.");
+        }
+
+        var updated = await repository.UpdateAsync(
+            projectId, viewId, name, request.Description, JsonSerializer.Serialize(layout, JsonOptions), userId, cancellationToken);
+
+        return updated ? await GetViewAsync(projectId, viewId, cancellationToken) : null;
+    }
+
+    public async Task<bool> DeleteViewAsync(int projectId, int viewId, int userId, bool isAdmin, CancellationToken cancellationToken = default)
+    {
+        var existing = await repository.GetByIdAsync(projectId, viewId, cancellationToken);
+        if (existing == null) return false;
+
+        if (existing.CreatedBy != userId && !isAdmin)
+        {
+            logger.LogWarning("User {UserId} attempted to delete ER diagram view {ViewId} owned by {OwnerId}",
+                userId, viewId, existing.CreatedBy);
+            return false;
+        }
+
+        return await repository.DeleteAsync(projectId, viewId, cancellationToken);
+    }
+
+    /// <summary>
+    /// Validate and tidy a layout before it is stored: at least one focus table,
+    /// hops within the neighborhood endpoint's range, a known direction, and no
+    /// duplicate or focus tables in the hidden list.
+    /// </summary>
+    internal static ErDiagramViewLayout NormalizeLayout(ErDiagramViewLayout layout)
+    {
+        var focusTableIds = layout.FocusTableIds.Where(id => id > 0).Distinct().ToList();
+        if (focusTableIds.Count == 0)
+        {
+            throw new ArgumentException("A view needs at least one focus table.");
+        }
+
+        var direction = layout.Direction?.Trim().ToUpperInvariant();
+        if (direction is not ("LR" or "TB"))
+        {
+            throw new ArgumentException($"Unsupported layout direction '{layout.Direction}'. Use LR or TB.");
+        }
+
+        return new ErDiagramViewLayout
+        {
+            FocusTableIds = focusTableIds,
+            Hops = Math.Clamp(layout.Hops, MinHops, MaxHops),
+            Direction = direction,
+            Positions = layout.Positions
+                .Where(p => double.IsFinite(p.Value.X) && double.IsFinite(p.Value.Y))
+                .ToDictionary(p => p.Key, p => p.Value),
+            HiddenTableIds = [.. layout.HiddenTableIds.Distinct().Where(id => !focusTableIds.Contains(id))]
+        };
+    }
+
+    private ErDiagramViewResponse ToResponse(ErDiagramViewRow row)
+    {
+        ErDiagramViewLayout layout;
+        try
+        {
+            layout = JsonSerializer.Deserialize<ErDiagramViewLayout>(row.LayoutJson, JsonOptions) ?? new();
+        }
+        catch (JsonException ex)
+        {
+            logger.LogWarning(ex, "ER diagram view {ViewId} has an unreadable layout; returning an empty layout", row.ViewId);
+            layout = new();
+        }
+
+        return new ErDiagramViewResponse
+        {
+            ViewId = row.ViewId,
+            ProjectId = row.ProjectId,
+            Name = row.Name,
+            Description = row.Description,
+            Layout = layout,
+            CreatedBy = row.CreatedBy,
+            CreatedByName = row.CreatedByName,
+            CreatedAt = row.CreatedAt,
+            UpdatedAt = row.UpdatedAt
+        };
+    }
+}
@@ -0,0 +1,97 @@
+namespace ActoEngine.WebApi.Features.ErDiagram;
+
+/// <summary>
+/// Breadth-first search over FK edges, treating every edge as joinable in both directions.
+/// </summary>
+internal static class ErJoinPathFinder
+{
+    /// <summary>
+    /// Returns the joins of the shortest path from one table to another, an empty list when
+    /// both are the same table, or null when no path exists within maxHops.
+    /// When several shortest paths exist, the one using earlier edges wins.
+    /// </summary>
+    public static List<ErJoinHop>? FindShortestPath(IEnumerable<ErEdge> edges, int fromTableId, int toTableId, int maxHops)
+    {
+        if (fromTableId == toTableId) return [];
+
+        var adjacency = new Dictionary<int, List<ErJoinHop>>();
+        foreach (var edge in edges)
+        {
+            if (edge.SourceTableId == edge.TargetTableId) continue; // self-references never shorten a path
+
+            AddHop(adjacency, new ErJoinHop
+            {
+                EdgeId = edge.Id,
+                FromTableId = edge.SourceTableId,
+                FromColumnId = edge.SourceColumnId,
+                FromColumnName = edge.SourceColumnName,
+                ToTableId = edge.TargetTableId,
+                ToColumnId = edge.TargetColumnId,
+                ToColumnName = edge.TargetColumnName,
+                RelationshipType = edge.RelationshipType
+            });
+            AddHop(adjacency, new ErJoinHop
+            {
+                EdgeId = edge.Id,
+                FromTableId = edge.TargetTableId,
+                FromColumnId = edge.TargetColumnId,
+                FromColumnName = edge.TargetColumnName,
+                ToTableId = edge.SourceTableId,
+                ToColumnId = edge.SourceColumnId,
+                ToColumnName = edge.SourceColumnName,
+                RelationshipType = edge.RelationshipType
+            });
+        }
+
+        // Remember the hop that first reached each table, then walk back from the target
+        var reachedBy = new Dictionary<int, ErJoinHop?> { { fromTableId, null } };
+        var frontier = new List<int> { fromTableId };
+
+        for (int depth = 1; depth <= maxHops && frontier.Count > 0; depth++)
+        {
+            var nextFrontier = new List<int>();
+
+            foreach (var tableId in frontier)
+            {
+                foreach (var hop in adjacency.GetValueOrDefault(tableId, []))
+                {
+                    if (!reachedBy.TryAdd(hop.ToTableId, hop)) continue;
+
+                    if (hop.ToTableId == toTableId)
+                    {
+                        return BuildPath(reachedBy, toTableId);
+                    }
+
+                    nextFrontier.Add(hop.ToTableId);
+                }
+            }
+
+            frontier = nextFrontier;
+        }
+
+        return null;
+    }
+
+    private static void AddHop(Dictionary<int, List<ErJoinHop>> adjacency, ErJoinHop hop)
+    {
+        if (!adjacency.TryGetValue(hop.FromTableId, out var hops))
+        {
+            hops = [];
+            adjacency[hop.FromTableId] = hops;
+        }
+        hops.Add(hop);
+    }
+
+    private static List<ErJoinHop> BuildPath(Dictionary<int, ErJoinHop?> reachedBy, int toTableId)
+    {
+        var path = new List<ErJoinHop>();
+        var current = reachedBy[toTableId];
+        while (current != null)
+        {
+            path.Add(current);
+            current = reachedBy[current.FromTableId];
+        }
+        path.Reverse();
+        return path;
+    }
+}
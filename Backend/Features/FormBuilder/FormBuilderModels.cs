@@ -1,4 +1,5 @@
 using ActoEngine.WebApi.Features.Schema;
+using ActoEngine.WebApi.Features.SpBuilder;
 
 namespace ActoEngine.WebApi.Features.FormBuilder
 {
@@ -41,6 +42,7 @@ namespace ActoEngine.WebApi.Features.FormBuilder
         public required string JavaScript { get; set; }
         public List<GeneratedSpInfo> StoredProcedures { get; set; } = [];
         public required string FileName { get; set; }
+        public SqlDialect Dialect { get; set; } // From the project's DatabaseType
         public List<string>? Warnings { get; set; }
     }
 
@@ -1,3 +1,4 @@
+using ActoEngine.WebApi.Features.Projects;
 using ActoEngine.WebApi.Features.SpBuilder;
 using System.Text.Json;
 
@@ -17,12 +18,14 @@ namespace ActoEngine.WebApi.Features.FormBuilder
         ICodeTemplateRepository codeTemplateRepo,
         IGenerationHistoryRepository generationHistoryRepo,
         ITemplateRenderService templateService,
+        IProjectRepository projectRepo,
         ILogger<FormBuilderService> logger) : IFormBuilderService
     {
         private readonly IFormConfigRepository _formConfigRepo = formConfigRepo;
         private readonly ICodeTemplateRepository _codeTemplateRepo = codeTemplateRepo;
         private readonly IGenerationHistoryRepository _generationHistoryRepo = generationHistoryRepo;
         private readonly ITemplateRenderService _templateService = templateService;
+        private readonly IProjectRepository _projectRepo = projectRepo;
         private readonly ILogger<FormBuilderService> _logger = logger;        // ============================================
         // Delete Form Configuration
         // ============================================
@@ -183,8 +186,16 @@ namespace ActoEngine.WebApi.Features.FormBuilder
                 }
 
                 // Generate stored procedures if requested
+                // The SQL dialect follows the project's database
+                var project = await _projectRepo.GetByIdAsync(config.ProjectId);
+                var dialect = SpTemplateRendererUtilities.ResolveDialect(project?.DatabaseType);
                 var storedProcedures = new List<GeneratedSpInfo>();
-                if (request.GenerateStoredProcedures)
+                var warnings = new List<string>();
+                if (request.GenerateStoredProcedures && dialect == SqlDialect.PostgreSql)
+                {
+                    storedProcedures.AddRange(GeneratePgSqlFunctions(config, warnings));
+                }
+                else if (request.GenerateStoredProcedures)
                 {
                     storedProcedures.Add(new GeneratedSpInfo
                     {
@@ -209,6 +220,8 @@ namespace ActoEngine.WebApi.Features.FormBuilder
                     JavaScript = javascript,
                     StoredProcedures = storedProcedures,
                     FileName = formName,
+                    Dialect = dialect,
+                    Warnings = warnings.Count > 0 ? warnings : null,
                     Success = true
                 };
             }
@@ -448,6 +461,62 @@ $(document).ready(function() {
             return sb.ToString();
         }
 
+        private static List<GeneratedSpInfo> GeneratePgSqlFunctions(FormConfig config, List<string> warnings)
+        {
+            var renderer = new PgSqlTemplateRenderer();
+            var prefix = config.Options?.SpPrefix ?? "usp";
+            var fields = config.Groups?.SelectMany(g => g.Fields).ToList() ?? [];
+            var columns = fields.Select(f => new SpColumnConfig
+            {
+                ColumnName = f.ColumnName,
+                DataType = f.DataType,
+                MaxLength = f.MaxLength,
+                IsNullable = !f.Required,
+                IsPrimaryKey = f.IsPrimaryKey,
+                IsIdentity = f.IsIdentity,
+                IncludeInCreate = f.IncludeInInsert,
+                IncludeInUpdate = f.IncludeInUpdate,
+                DefaultValue = f.DefaultValue ?? ""
+            }).ToList();
+            var pkField = fields.FirstOrDefault(f => f.IsPrimaryKey);
+
+            var functions = new List<GeneratedSpInfo>();
+            try
+            {
+                functions.Add(new GeneratedSpInfo
+                {
+                    SpName = $"{prefix}_{config.TableName}_CUD",
+                    SpType = "CUD",
+                    Code = renderer.RenderCud("public", config.TableName, columns, new CudSpOptions
+                    {
+                        SpPrefix = prefix,
+                        IncludeErrorHandling = config.Options?.IncludeErrorHandling ?? true
+                    }),
+                    FileName = $"{prefix}_{config.TableName}_CUD.sql"
+                });
+
+                functions.Add(new GeneratedSpInfo
+                {
+                    SpName = $"{prefix}_{config.TableName}_Select",
+                    SpType = "SELECT",
+                    Code = renderer.RenderSelect("public", config.TableName, columns, new SelectSpOptions
+                    {
+                        SpPrefix = prefix,
+                        Filters = pkField != null
+                            ? [new FilterColumn { ColumnName = pkField.ColumnName, Operator = FilterOperator.Equals }]
+                            : []
+                    }),
+                    FileName = $"{prefix}_{config.TableName}_Select.sql"
+                });
+            }
+            catch (ArgumentException ex)
+            {
+                warnings.Add($"PostgreSQL functions could not be generated: {ex.Message}");
+            }
+
+            return functions;
+        }
+
         private static string MapToSqlType(string dataType)
         {
             return dataType?.ToUpper() switch
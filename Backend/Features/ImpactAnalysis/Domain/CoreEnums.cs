@@ -14,7 +14,8 @@ public enum ChangeType
 {
     Create,
     Modify,
-    Delete
+    Delete,
+    Rename
 }
 
 public enum DependencyType
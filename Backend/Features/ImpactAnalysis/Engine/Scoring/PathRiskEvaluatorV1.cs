@@ -35,6 +35,7 @@ public sealed class PathRiskEvaluatorV1 : IPathRiskEvaluator
     private static readonly IReadOnlyDictionary<ChangeType, int> ChangeTypeMultipliersSource = new Dictionary<ChangeType, int>
     {
         { ChangeType.Delete, 3 },
+        { ChangeType.Rename, 3 }, // every name-bound reference breaks, same as a drop
         { ChangeType.Modify, 2 },
         { ChangeType.Create, 1 }
     };
@@ -58,6 +58,26 @@ public class LogicalFkController(
         }
     }
 
+    /// <summary>
+    /// Get the SUGGESTED logical FKs awaiting review, highest confidence first, with detection evidence
+    /// </summary>
+    [HttpGet("review-queue")]
+    [RequirePermission("Schema:Read")]
+    [ProducesResponseType(typeof(ApiResponse<List<LogicalFkReviewItem>>), StatusCodes.Status200OK)]
+    public async Task<IActionResult> GetReviewQueue(int projectId)
+    {
+        try
+        {
+            var items = await logicalFkService.GetReviewQueueAsync(projectId);
+            return Ok(ApiResponse<List<LogicalFkReviewItem>>.Success(items, "Review queue retrieved"));
+        }
+        catch (Exception ex)
+        {
+            logger.LogError(ex, "Error getting logical FK review queue for project {ProjectId}", projectId);
+            return StatusCode(500, ApiResponse<object>.Failure("An error occurred while retrieving the review queue"));
+        }
+    }
+
     /// <summary>
     /// Get logical FKs related to a specific table (as source or target)
     /// </summary>
@@ -243,6 +263,76 @@ public class LogicalFkController(
         }
     }
 
+    /// <summary>
+    /// Confirm many suggested logical FKs with shared notes
+    /// </summary>
+    [HttpPut("bulk/confirm")]
+    [RequirePermission("Schema:Update")]
+    [ProducesResponseType(typeof(ApiResponse<BulkLogicalFkStatusResult>), StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    public async Task<IActionResult> BulkConfirm(
+        int projectId,
+        [FromBody] BulkUpdateLogicalFkStatusRequest request)
+    {
+        try
+        {
+            if (!ModelState.IsValid)
+            {
+                return BadRequest(ApiResponse<object>.Failure("Invalid request data",
+                    [.. ModelState.Values.SelectMany(v => v.Errors.Select(e => e.ErrorMessage))]));
+            }
+
+            var userId = HttpContext.GetUserId();
+            if (userId == null)
+            {
+                return Unauthorized(ApiResponse<object>.Failure("User not authenticated"));
+            }
+
+            var result = await logicalFkService.BulkConfirmAsync(projectId, request.LogicalFkIds, userId.Value, request.Notes);
+            return Ok(ApiResponse<BulkLogicalFkStatusResult>.Success(result, $"{result.UpdatedIds.Count} logical FK(s) confirmed"));
+        }
+        catch (Exception ex)
+        {
+            logger.LogError(ex, "Error bulk confirming logical FKs for project {ProjectId}", projectId);
+            return StatusCode(500, ApiResponse<object>.Failure("An error occurred"));
+        }
+    }
+
+    /// <summary>
+    /// Reject many suggested logical FKs with shared notes
+    /// </summary>
+    [HttpPut("bulk/reject")]
+    [RequirePermission("Schema:Update")]
+    [ProducesResponseType(typeof(ApiResponse<BulkLogicalFkStatusResult>), StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    public async Task<IActionResult> BulkReject(
+        int projectId,
+        [FromBody] BulkUpdateLogicalFkStatusRequest request)
+    {
+        try
+        {
+            if (!ModelState.IsValid)
+            {
+                return BadRequest(ApiResponse<object>.Failure("Invalid request data",
+                    [.. ModelState.Values.SelectMany(v => v.Errors.Select(e => e.ErrorMessage))]));
+            }
+
+            var userId = HttpContext.GetUserId();
+            if (userId == null)
+            {
+                return Unauthorized(ApiResponse<object>.Failure("User not authenticated"));
+            }
+
+            var result = await logicalFkService.BulkRejectAsync(projectId, request.LogicalFkIds, userId.Value, request.Notes);
+            return Ok(ApiResponse<BulkLogicalFkStatusResult>.Success(result, $"{result.UpdatedIds.Count} logical FK(s) rejected"));
+        }
+        catch (Exception ex)
+        {
+            logger.LogError(ex, "Error bulk rejecting logical FKs for project {ProjectId}", projectId);
+            return StatusCode(500, ApiResponse<object>.Failure("An error occurred"));
+        }
+    }
+
     /// <summary>
     /// Delete a logical FK
     /// </summary>
@@ -1,3 +1,5 @@
+using System.ComponentModel.DataAnnotations;
+
 namespace ActoEngine.WebApi.Features.LogicalFk;
 
 /// <summary>
@@ -104,6 +106,43 @@ public class UpdateLogicalFkStatusRequest
     public string? Notes { get; set; }
 }
 
+/// <summary>
+/// Request to confirm or reject many logical FKs at once, with shared notes
+/// </summary>
+public class BulkUpdateLogicalFkStatusRequest
+{
+    [Required]
+    [MinLength(1)]
+    [MaxLength(500)]
+    public List<int> LogicalFkIds { get; set; } = [];
+
+    [StringLength(500)]
+    public string? Notes { get; set; }
+}
+
+/// <summary>
+/// Outcome of a bulk confirm/reject; ids that were not found in the project are reported, not failed
+/// </summary>
+public class BulkLogicalFkStatusResult
+{
+    public List<int> UpdatedIds { get; set; } = [];
+    public List<int> NotFoundIds { get; set; } = [];
+}
+
+/// <summary>
+/// SUGGESTED logical FK enriched with the detection evidence for the review queue
+/// </summary>
+public class LogicalFkReviewItem : LogicalFkDto
+{
+    public string? Reason { get; set; }
+    public List<string> DiscoveryMethods { get; set; } = [];
+
+    /// <summary>
+    /// True when the same source column has suggestions for more than one target column in the same table
+    /// </summary>
+    public bool IsAmbiguous { get; set; }
+}
+
 /// <summary>
 /// Physical foreign key details
 /// </summary>
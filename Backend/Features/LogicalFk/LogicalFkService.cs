@@ -17,6 +17,9 @@ public interface ILogicalFkService
     Task<LogicalFkDto> CreateManualAsync(int projectId, CreateLogicalFkRequest request, int userId, CancellationToken cancellationToken = default);
     Task<LogicalFkDto> ConfirmAsync(int projectId, int logicalFkId, int userId, string? notes = null, CancellationToken cancellationToken = default);
     Task<LogicalFkDto> RejectAsync(int projectId, int logicalFkId, int userId, string? notes = null, CancellationToken cancellationToken = default);
+    Task<BulkLogicalFkStatusResult> BulkConfirmAsync(int projectId, IReadOnlyCollection<int> logicalFkIds, int userId, string? notes = null, CancellationToken cancellationToken = default);
+    Task<BulkLogicalFkStatusResult> BulkRejectAsync(int projectId, IReadOnlyCollection<int> logicalFkIds, int userId, string? notes = null, CancellationToken cancellationToken = default);
+    Task<List<LogicalFkReviewItem>> GetReviewQueueAsync(int projectId, CancellationToken cancellationToken = default);
     Task DeleteAsync(int projectId, int logicalFkId, CancellationToken cancellationToken = default);
     Task<List<LogicalFkCandidate>> DetectCandidatesAsync(int projectId, CancellationToken cancellationToken = default);
     Task<List<PhysicalFkDto>> GetPhysicalFksByTableAsync(int projectId, int tableId, CancellationToken cancellationToken = default);
@@ -141,6 +144,22 @@ public partial class LogicalFkService(
             ?? throw new InvalidOperationException("Failed to retrieve rejected logical FK.");
     }
 
+    public Task<BulkLogicalFkStatusResult> BulkConfirmAsync(int projectId, IReadOnlyCollection<int> logicalFkIds, int userId, string? notes = null, CancellationToken cancellationToken = default)
+        => BulkUpdateStatusAsync(logicalFkIds, id => ConfirmAsync(projectId, id, userId, notes, cancellationToken));
+
+    public Task<BulkLogicalFkStatusResult> BulkRejectAsync(int projectId, IReadOnlyCollection<int> logicalFkIds, int userId, string? notes = null, CancellationToken cancellationToken = default)
+        => BulkUpdateStatusAsync(logicalFkIds, id => RejectAsync(projectId, id, userId, notes, cancellationToken));
+
+    /// <summary>
+    /// SUGGESTED logical FKs, highest confidence first, with the persisted detection evidence attached
+    /// </summary>
+    public async Task<List<LogicalFkReviewItem>> GetReviewQueueAsync(int projectId, CancellationToken cancellationToken = default)
+    {
+        var suggested = await logicalFkRepository.GetByProjectAsync(projectId, "SUGGESTED", cancellationToken);
+        var candidates = await logicalFkRepository.GetPersistedSuggestedCandidatesAsync(projectId, cancellationToken);
+        return BuildReviewQueue(suggested, candidates);
+    }
+
     public async Task DeleteAsync(int projectId, int logicalFkId, CancellationToken cancellationToken = default)
     {
         // Check existence and ownership
@@ -530,6 +549,94 @@ public partial class LogicalFkService(
 
     #region Private Helpers
 
+    /// <summary>
+    /// Applies one status change per id through the single-item path so confirmed FKs
+    /// still feed Dependencies. Ids missing from the project are collected instead of failing the batch.
+    /// </summary>
+    private static async Task<BulkLogicalFkStatusResult> BulkUpdateStatusAsync(
+        IReadOnlyCollection<int> logicalFkIds,
+        Func<int, Task<LogicalFkDto>> updateAsync)
+    {
+        var result = new BulkLogicalFkStatusResult();
+
+        foreach (var id in logicalFkIds.Distinct())
+        {
+            try
+            {
+                await updateAsync(id);
+                result.UpdatedIds.Add(id);
+            }
+            catch (KeyNotFoundException)
+            {
+                result.NotFoundIds.Add(id);
+            }
+        }
+
+        return result;
+    }
+
+    /// <summary>
+    /// Attaches reason and discovery methods from the matching candidate (single-column FKs only),
+    /// and flags suggestions whose source column points at more than one column of the same target table.
+    /// </summary>
+    internal static List<LogicalFkReviewItem> BuildReviewQueue(
+        IReadOnlyList<LogicalFkDto> suggested,
+        IReadOnlyList<LogicalFkCandidate> candidates)
+    {
+        var candidatesByKey = candidates
+            .GroupBy(c => c.CanonicalKey)
+            .ToDictionary(g => g.Key, g => g.First());
+
+        static string? SingleColumnKey(LogicalFkDto fk)
+            => fk.SourceColumnIds.Count == 1 && fk.TargetColumnIds.Count == 1
+                ? $"{fk.SourceTableId}:{fk.SourceColumnIds[0]}\u2192{fk.TargetTableId}:{fk.TargetColumnIds[0]}"
+                : null;
+
+        static string AmbiguityGroupKey(LogicalFkDto fk)
+            => $"{fk.SourceTableId}:{string.Join(",", fk.SourceColumnIds)}\u2192{fk.TargetTableId}";
+
+        var ambiguousGroups = suggested
+            .GroupBy(AmbiguityGroupKey)
+            .Where(g => g.Count() > 1)
+            .Select(g => g.Key)
+            .ToHashSet();
+
+        return [.. suggested
+            .Select(fk =>
+            {
+                var key = SingleColumnKey(fk);
+                var candidate = key != null && candidatesByKey.TryGetValue(key, out var match) ? match : null;
+
+                return new LogicalFkReviewItem
+                {
+                    LogicalFkId = fk.LogicalFkId,
+                    ProjectId = fk.ProjectId,
+                    SourceTableId = fk.SourceTableId,
+                    SourceTableName = fk.SourceTableName,
+                    SourceColumnIds = fk.SourceColumnIds,
+                    SourceColumnNames = fk.SourceColumnNames,
+                    TargetTableId = fk.TargetTableId,
+                    TargetTableName = fk.TargetTableName,
+                    TargetColumnIds = fk.TargetColumnIds,
+                    TargetColumnNames = fk.TargetColumnNames,
+                    DiscoveryMethod = fk.DiscoveryMethod,
+                    ConfidenceScore = fk.ConfidenceScore,
+                    Status = fk.Status,
+                    ConfirmedBy = fk.ConfirmedBy,
+                    ConfirmedAt = fk.ConfirmedAt,
+                    Notes = fk.Notes,
+                    CreatedAt = fk.CreatedAt,
+                    Reason = candidate != null && !string.IsNullOrEmpty(candidate.Reason) ? candidate.Reason : null,
+                    DiscoveryMethods = candidate != null && candidate.DiscoveryMethods.Count > 0
+                        ? candidate.DiscoveryMethods
+                        : [fk.DiscoveryMethod],
+                    IsAmbiguous = ambiguousGroups.Contains(AmbiguityGroupKey(fk))
+                };
+            })
+            .OrderByDescending(item => item.ConfidenceScore)
+            .ThenBy(item => item.SourceTableName)];
+    }
+
     /// <summary>
     /// Feed a confirmed logical FK into the Dependencies table for impact analysis
     /// </summary>
@@ -10,6 +10,7 @@ public interface INotificationService
     Task<bool> MarkAsReadAsync(int userId, int notificationId, CancellationToken cancellationToken = default);
     Task<int> MarkAllAsReadAsync(int userId, CancellationToken cancellationToken = default);
     Task CreateForProjectMembersAsync(int projectId, string type, string title, string message, CancellationToken cancellationToken = default);
+    Task<int> CreateForUserAsync(int userId, int? projectId, string type, string title, string message, CancellationToken cancellationToken = default);
 }
 
 public class NotificationService(
@@ -37,6 +38,19 @@ public class NotificationService(
         return await repository.MarkAllAsReadAsync(userId, cancellationToken);
     }
 
+    public async Task<int> CreateForUserAsync(int userId, int? projectId, string type, string title, string message, CancellationToken cancellationToken = default)
+    {
+        var request = new CreateNotificationRequest
+        {
+            ProjectId = projectId,
+            Type = type,
+            Title = title,
+            Message = message
+        };
+
+        return await repository.CreateAsync(userId, request, cancellationToken);
+    }
+
     public async Task CreateForProjectMembersAsync(int projectId, string type, string title, string message, CancellationToken cancellationToken = default)
     {
         try
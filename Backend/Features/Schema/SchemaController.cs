@@ -166,10 +166,11 @@ public class DatabaseBrowserController(
     }
 
     /// <summary>
-    /// Get all stored procedures for a project
+    /// Get all stored procedures for a project, including their full definitions.
+    /// Use /stored-procedures-metadata when only ids and names are needed.
     /// </summary>
     /// <param name="projectId">The project ID</param>
-    /// <returns>List of stored procedures</returns>
+    /// <returns>List of stored procedures with definitions</returns>
     [HttpGet("projects/{projectId}/stored-procedures")]
     [ProducesResponseType(typeof(ApiResponse<List<StoredProcedureMetadataDto>>), StatusCodes.Status200OK)]
     [ProducesResponseType(typeof(ApiResponse<object>), StatusCodes.Status404NotFound)]
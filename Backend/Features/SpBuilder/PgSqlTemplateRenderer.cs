@@ -0,0 +1,924 @@
+using System.Text;
+
+namespace ActoEngine.WebApi.Features.SpBuilder;
+
+/// <summary>
+/// PL/pgSQL counterpart of <see cref="SpTemplateRenderer"/>. Procedures become functions so they can
+/// return generated keys and rows, and parameters take a p_ prefix so they never shadow column names.
+/// Functions run inside the caller's transaction, so IncludeTransaction has nothing to add here.
+/// </summary>
+public class PgSqlTemplateRenderer : ISpTemplateRenderer
+{
+    private const string ParamPrefix = "p_";
+    private const string SelectBaseAlias = "t";
+
+    public SqlDialect Dialect => SqlDialect.PostgreSql;
+
+    public string QualifiedName(string schemaName, string name)
+    {
+        return $"{SpTemplateRendererUtilities.QuoteIdentifier(schemaName)}.{SpTemplateRendererUtilities.QuoteIdentifier(name)}";
+    }
+
+    public string ParameterRef(string name)
+    {
+        return ParamPrefix + name;
+    }
+
+    public string RenderCud(string schemaName, string tableName, List<SpColumnConfig> cols, CudSpOptions opts)
+    {
+        var actionParam = ParamPrefix + SpTemplateRendererUtilities.ValidateSqlIdentifier(opts.ActionParamName, nameof(opts.ActionParamName));
+        var (fnName, plainName, qualifiedTable) = BuildFunctionNames(schemaName, tableName, opts.SpPrefix, "CUD");
+        var pkCols = cols.Where(c => c.IsPrimaryKey).ToList();
+        var createCols = opts.GenerateCreate ? cols.Where(c => c.IncludeInCreate && !c.IsIdentity).ToList() : [];
+        var updateCols = opts.GenerateUpdate ? cols.Where(c => c.IncludeInUpdate && !c.IsIdentity && !c.IsPrimaryKey).ToList() : [];
+        var identityCol = cols.FirstOrDefault(c => c.IsIdentity);
+
+        var activeActions = new List<string>();
+        if (opts.GenerateCreate) activeActions.Add("'C' = Create");
+        if (opts.GenerateUpdate) activeActions.Add("'U' = Update");
+        if (opts.GenerateDelete) activeActions.Add("'D' = Delete");
+        if (activeActions.Count == 0)
+        {
+            throw new ArgumentException("No CUD operations enabled; at least one of GenerateCreate/GenerateUpdate/GenerateDelete must be true");
+        }
+
+        var branches = new List<(string Action, string Label, string Statement)>();
+        var returnsIdentity = false;
+
+        if (opts.GenerateCreate && createCols.Count > 0)
+        {
+            returnsIdentity = identityCol != null;
+            branches.Add(("C", "CREATE", BuildInsert(qualifiedTable, [.. createCols.Select(Quote)], [.. createCols.Select(ParamRef)], identityCol)));
+        }
+
+        if (opts.GenerateUpdate && updateCols.Count > 0 && pkCols.Count > 0)
+        {
+            branches.Add(("U", "UPDATE", BuildUpdate(qualifiedTable, [.. updateCols.Select(c => $"{Quote(c)} = {ParamRef(c)}")], KeyConditions(pkCols))));
+        }
+
+        if (opts.GenerateDelete && pkCols.Count > 0)
+        {
+            branches.Add(("D", "DELETE",
+                $"        DELETE FROM {qualifiedTable}\n" +
+                "        WHERE\n" +
+                $"{JoinIndented(KeyConditions(pkCols), "            ", " AND")};"));
+        }
+
+        if (branches.Count == 0)
+        {
+            var missingPrereqs = new List<string>();
+            if (opts.GenerateCreate && createCols.Count == 0) missingPrereqs.Add("Create requested but no creatable columns are available.");
+            if (opts.GenerateUpdate && pkCols.Count == 0) missingPrereqs.Add("Update requested but no primary key columns are available.");
+            if (opts.GenerateUpdate && updateCols.Count == 0) missingPrereqs.Add("Update requested but no updatable columns are available.");
+            if (opts.GenerateDelete && pkCols.Count == 0) missingPrereqs.Add("Delete requested but no primary key columns are available.");
+
+            var requestedFlags = $"Requested flags: Create={opts.GenerateCreate}, Update={opts.GenerateUpdate}, Delete={opts.GenerateDelete}.";
+            var reasons = missingPrereqs.Count == 0 ? "No executable C/U/D branches can be produced." : string.Join(" ", missingPrereqs);
+            throw new ArgumentException($"{requestedFlags} {reasons}");
+        }
+
+        var parameters = new List<string> { $"{actionParam} char(1) -- {string.Join(", ", activeActions)}" };
+        parameters.AddRange(BuildColumnParameters([.. pkCols.Union(createCols.Where(c => !c.IsPrimaryKey)).Union(updateCols)]));
+
+        return AssembleIdentityFunction(fnName, plainName, parameters, BuildActionBranches(actionParam, branches), returnsIdentity ? identityCol : null, opts.IncludeErrorHandling);
+    }
+
+    public string RenderSelect(string schemaName, string tableName, List<SpColumnConfig> cols, SelectSpOptions opts)
+    {
+        if (cols == null || cols.Count == 0)
+        {
+            throw new ArgumentException("Columns collection cannot be empty when rendering SELECT function.", nameof(cols));
+        }
+
+        var (fnName, plainName, qualifiedTable) = BuildFunctionNames(schemaName, tableName, opts.SpPrefix, "Select");
+        var pkCols = cols.Where(c => c.IsPrimaryKey).ToList();
+        var orderByCols = opts.OrderByColumns.Count != 0
+            ? opts.OrderByColumns
+            : [.. pkCols.Select(c => c.ColumnName)];
+
+        if (orderByCols.Count == 0)
+        {
+            orderByCols.Add(cols[0].ColumnName); // Fallback
+        }
+
+        var keyset = opts.IncludePagination && opts.UseKeysetPagination;
+        var offset = opts.IncludePagination && !keyset;
+        if (keyset && opts.SortableColumns.Count != 0)
+        {
+            throw new ArgumentException("Keyset pagination seeks on a fixed sort order and cannot be combined with dynamic sort columns.", nameof(opts));
+        }
+
+        var baseAlias = opts.Joins.Count != 0 ? SelectBaseAlias : null;
+        var joinClauses = BuildJoinClauses(cols, opts.Joins);
+        var fromClause = baseAlias != null ? $"FROM {qualifiedTable} AS {baseAlias}" : $"FROM {qualifiedTable}";
+        if (joinClauses.Length > 0)
+        {
+            fromClause += "\n" + joinClauses;
+        }
+
+        var outputs = BuildSelectOutputs(cols, opts, baseAlias);
+        var sortable = opts.SortableColumns
+            .Select(name => outputs.FirstOrDefault(o => string.Equals(o.Name, name, StringComparison.OrdinalIgnoreCase))
+                ?? throw new ArgumentException($"Sortable column '{name}' is not one of the output columns.", nameof(opts.SortableColumns)))
+            .ToList();
+        var keyCols = keyset ? SpTemplateRendererUtilities.ResolveKeysetColumns(cols, orderByCols, tableName) : [];
+        if (keyset)
+        {
+            // The seek and the ORDER BY must agree, primary key tie-breaker included
+            orderByCols = [.. keyCols.Select(c => c.ColumnName)];
+        }
+
+        var parameters = BuildFilterParameters(opts.Filters, cols);
+        if (sortable.Count > 0)
+        {
+            parameters.Add($"{ParamPrefix}SortColumn text DEFAULT NULL");
+            parameters.Add($"{ParamPrefix}SortDirection text DEFAULT 'ASC'");
+        }
+        foreach (var col in keyCols)
+        {
+            parameters.Add($"{ParamPrefix}After{ParamName(col)} {SpTemplateRendererUtilities.GetPgSqlType(col)} DEFAULT NULL");
+        }
+        if (offset)
+        {
+            parameters.Add($"{ParamPrefix}PageNumber integer DEFAULT 1");
+        }
+        if (opts.IncludePagination)
+        {
+            parameters.Add($"{ParamPrefix}PageSize integer DEFAULT 50");
+        }
+
+        var includeTotalCount = opts.IncludeTotalCount ?? offset;
+        var returnColumns = outputs.Select(o => $"{SpTemplateRendererUtilities.QuoteIdentifier(o.Name)} {o.Type}").ToList();
+        var selectItems = outputs.Select(o => o.SelectItem).ToList();
+        if (includeTotalCount)
+        {
+            // Counts the whole filtered set, not just the current page, once per call
+            var countWhere = BuildWhereFilters(opts.Filters, baseAlias);
+            var countQuery = "SELECT COUNT(*)\n" + fromClause + (countWhere.Length > 0 ? "\n" + countWhere : "");
+            returnColumns.Add("\"TotalRecords\" bigint");
+            selectItems.Add($"(\n{Indent(countQuery, "    ")}\n) AS \"TotalRecords\"");
+        }
+
+        var body = new StringBuilder();
+        if (sortable.Count > 0)
+        {
+            var whitelist = string.Join(", ", sortable.Select(o => $"'{SpTemplateRendererUtilities.EscapeStringLiteral(o.Name)}'"));
+            body.AppendLine($"    IF {ParamPrefix}SortColumn IS NOT NULL AND {ParamPrefix}SortColumn NOT IN ({whitelist}) THEN");
+            body.AppendLine($"        RAISE EXCEPTION 'Invalid {ParamPrefix}SortColumn value: %', {ParamPrefix}SortColumn USING ERRCODE = '22023';");
+            body.AppendLine("    END IF;");
+            body.AppendLine($"    IF upper({ParamPrefix}SortDirection) NOT IN ('ASC', 'DESC') THEN");
+            body.AppendLine($"        RAISE EXCEPTION 'Invalid {ParamPrefix}SortDirection value: %', {ParamPrefix}SortDirection USING ERRCODE = '22023';");
+            body.AppendLine("    END IF;");
+            body.AppendLine();
+        }
+
+        body.AppendLine("    RETURN QUERY");
+        body.AppendLine("    SELECT");
+        body.AppendLine(JoinIndented(selectItems.Select(item => Indent(item, "        ").TrimStart()), "        "));
+        body.AppendLine(Indent(fromClause, "    "));
+
+        var keysetCondition = keyCols.Count > 0 ? BuildKeysetCondition(keyCols, baseAlias) : null;
+        var whereClause = BuildWhereFilters(opts.Filters, baseAlias, keysetCondition);
+        if (whereClause.Length > 0)
+        {
+            body.AppendLine(Indent(whereClause, "    "));
+        }
+
+        // Dynamic sort first, then the fixed order as a tie-breaker
+        var orderItems = sortable
+            .SelectMany(o => new[]
+            {
+                $"CASE WHEN {ParamPrefix}SortColumn = '{SpTemplateRendererUtilities.EscapeStringLiteral(o.Name)}' AND upper({ParamPrefix}SortDirection) = 'ASC' THEN {o.Expression} END ASC",
+                $"CASE WHEN {ParamPrefix}SortColumn = '{SpTemplateRendererUtilities.EscapeStringLiteral(o.Name)}' AND upper({ParamPrefix}SortDirection) = 'DESC' THEN {o.Expression} END DESC"
+            })
+            .Concat(orderByCols.Select(name =>
+                QualifyColumn(SpTemplateRendererUtilities.ValidateSqlIdentifier(name, "orderByColumns"), baseAlias)));
+
+        body.AppendLine("    ORDER BY");
+        body.Append(JoinIndented(orderItems, "        "));
+        if (offset)
+        {
+            body.Append($"\n    LIMIT {ParamPrefix}PageSize OFFSET ({ParamPrefix}PageNumber - 1) * {ParamPrefix}PageSize");
+        }
+        else if (keyset)
+        {
+            body.Append($"\n    LIMIT {ParamPrefix}PageSize");
+        }
+        body.Append(';');
+
+        // RETURNS TABLE columns are variables too; let unqualified names in the query mean columns
+        return AssembleFunction(
+            fnName,
+            plainName,
+            parameters,
+            $"TABLE (\n{JoinIndented(returnColumns, "    ")}\n)",
+            body.ToString(),
+            opts.IncludeErrorHandling,
+            preamble: "#variable_conflict use_column");
+    }
+
+    public string RenderUpsert(string schemaName, string tableName, List<SpColumnConfig> cols, UpsertSpOptions opts)
+    {
+        if (!opts.UpdateWhenMatched && !opts.InsertWhenNotMatched)
+        {
+            throw new ArgumentException("No MERGE actions enabled; at least one of UpdateWhenMatched/InsertWhenNotMatched must be true");
+        }
+
+        var (fnName, plainName, qualifiedTable) = BuildFunctionNames(schemaName, tableName, opts.SpPrefix, "Upsert");
+        var matchCols = opts.MatchColumns.Count != 0
+            ? [.. opts.MatchColumns.Select(name => SpTemplateRendererUtilities.FindColumn(cols, name)
+                ?? throw new ArgumentException($"Match column '{name}' does not exist on table '{tableName}'.", nameof(opts.MatchColumns)))]
+            : cols.Where(c => c.IsPrimaryKey).ToList();
+
+        if (matchCols.Count == 0)
+        {
+            throw new ArgumentException("Upsert requires match columns or a primary key to join source and target rows.");
+        }
+
+        var insertCols = opts.InsertWhenNotMatched ? cols.Where(c => c.IncludeInCreate && !c.IsIdentity).ToList() : [];
+        var updateCols = opts.UpdateWhenMatched
+            ? cols.Where(c => c.IncludeInUpdate && !c.IsIdentity && !c.IsPrimaryKey && !matchCols.Contains(c)).ToList()
+            : [];
+
+        if (insertCols.Count == 0 && updateCols.Count == 0)
+        {
+            throw new ArgumentException("Upsert has no insertable or updatable columns.");
+        }
+
+        var sourceCols = matchCols.Union(insertCols).Union(updateCols).ToList();
+
+        var body = new StringBuilder();
+        body.AppendLine(opts.OutputAction
+            ? "    -- MERGE needs PostgreSQL 15+; RETURNING merge_action() needs 17+"
+            : "    -- MERGE needs PostgreSQL 15+");
+        body.AppendLine($"    MERGE INTO {qualifiedTable} AS target");
+        body.AppendLine("    USING (SELECT");
+        body.AppendLine(JoinIndented(sourceCols.Select(c => $"{ParamRef(c)} AS {Quote(c)}"), "        "));
+        body.AppendLine("    ) AS source");
+        body.AppendLine($"    ON {string.Join(" AND ", matchCols.Select(c => $"target.{Quote(c)} = source.{Quote(c)}"))}");
+
+        if (updateCols.Count > 0)
+        {
+            // MERGE SET targets cannot be qualified with the alias
+            body.AppendLine("    WHEN MATCHED THEN");
+            body.AppendLine("        UPDATE SET");
+            body.AppendLine(JoinIndented(updateCols.Select(c => $"{Quote(c)} = source.{Quote(c)}"), "            "));
+        }
+
+        if (insertCols.Count > 0)
+        {
+            body.AppendLine("    WHEN NOT MATCHED THEN");
+            body.AppendLine($"        INSERT ({string.Join(", ", insertCols.Select(Quote))})");
+            body.AppendLine($"        VALUES ({string.Join(", ", insertCols.Select(c => $"source.{Quote(c)}"))})");
+        }
+
+        if (opts.OutputAction)
+        {
+            body.AppendLine("    RETURNING merge_action() INTO v_action;");
+            body.AppendLine();
+            body.Append("    RETURN v_action;");
+        }
+
+        var code = opts.OutputAction ? body.ToString() : body.ToString().TrimEnd() + ";";
+
+        return AssembleFunction(
+            fnName,
+            plainName,
+            BuildColumnParameters(sourceCols),
+            opts.OutputAction ? "text" : "void",
+            code,
+            opts.IncludeErrorHandling,
+            opts.OutputAction ? ["v_action text"] : null);
+    }
+
+    public string RenderSoftDelete(string schemaName, string tableName, List<SpColumnConfig> cols, SoftDeleteSpOptions opts)
+    {
+        var (fnName, plainName, qualifiedTable) = BuildFunctionNames(schemaName, tableName, opts.SpPrefix, "SoftDelete");
+        var isDeletedCol = SpTemplateRendererUtilities.FindColumn(cols, opts.IsDeletedColumn);
+        var deletedAtCol = SpTemplateRendererUtilities.FindColumn(cols, opts.DeletedAtColumn);
+        var deletedByCol = SpTemplateRendererUtilities.FindColumn(cols, opts.DeletedByColumn);
+        var pkCols = cols.Where(c => c.IsPrimaryKey).ToList();
+
+        if (isDeletedCol == null && deletedAtCol == null)
+        {
+            throw new ArgumentException(
+                $"Soft delete requires a '{opts.IsDeletedColumn}' or '{opts.DeletedAtColumn}' column on table '{tableName}'.",
+                nameof(opts));
+        }
+        if (pkCols.Count == 0)
+        {
+            throw new ArgumentException("Soft delete requires primary key columns to identify the row.");
+        }
+
+        var deleteSet = new List<string>();
+        var restoreSet = new List<string>();
+        if (isDeletedCol != null)
+        {
+            deleteSet.Add($"{Quote(isDeletedCol)} = {FlagLiteral(isDeletedCol, true)}");
+            restoreSet.Add($"{Quote(isDeletedCol)} = {FlagLiteral(isDeletedCol, false)}");
+        }
+        if (deletedAtCol != null)
+        {
+            deleteSet.Add($"{Quote(deletedAtCol)} = {CurrentTimestamp(deletedAtCol, useUtc: true)}");
+            restoreSet.Add($"{Quote(deletedAtCol)} = NULL");
+        }
+        if (deletedByCol != null)
+        {
+            deleteSet.Add($"{Quote(deletedByCol)} = {ParamPrefix}DeletedBy");
+            restoreSet.Add($"{Quote(deletedByCol)} = NULL");
+        }
+
+        // Only touch rows in the opposite state so repeated calls are no-ops
+        var notDeleted = isDeletedCol != null ? $"{Quote(isDeletedCol)} = {FlagLiteral(isDeletedCol, false)}" : $"{Quote(deletedAtCol!)} IS NULL";
+        var deleted = isDeletedCol != null ? $"{Quote(isDeletedCol)} = {FlagLiteral(isDeletedCol, true)}" : $"{Quote(deletedAtCol!)} IS NOT NULL";
+        var keyConditions = KeyConditions(pkCols);
+
+        var body = opts.GenerateRestore
+            ? $"    IF {ParamPrefix}Restore THEN -- RESTORE\n" +
+              $"{BuildUpdate(qualifiedTable, restoreSet, [.. keyConditions, deleted])}\n" +
+              "    ELSE -- SOFT DELETE\n" +
+              $"{BuildUpdate(qualifiedTable, deleteSet, [.. keyConditions, notDeleted])}\n" +
+              "    END IF;"
+            : $"    -- SOFT DELETE\n{BuildUpdate(qualifiedTable, deleteSet, [.. keyConditions, notDeleted], "    ")}";
+
+        // Keys stay required; parameters after them need defaults
+        var parameters = pkCols.Select(c => $"{ParamRef(c)} {SpTemplateRendererUtilities.GetPgSqlType(c)}").ToList();
+        if (deletedByCol != null)
+        {
+            parameters.Add($"{ParamPrefix}DeletedBy {SpTemplateRendererUtilities.GetPgSqlType(deletedByCol)} DEFAULT NULL");
+        }
+        if (opts.GenerateRestore)
+        {
+            parameters.Add($"{ParamPrefix}Restore boolean DEFAULT FALSE -- TRUE = undo a soft delete");
+        }
+
+        return AssembleFunction(fnName, plainName, parameters, "void", body, opts.IncludeErrorHandling);
+    }
+
+    public string RenderBulkTvp(string schemaName, string tableName, List<SpColumnConfig> cols, BulkTvpSpOptions opts)
+    {
+        var (fnName, plainName, qualifiedTable) = BuildFunctionNames(schemaName, tableName, opts.SpPrefix, "Bulk");
+        var (qualifiedType, pkCols, insertCols, updateCols) = ResolveBulkTvp(schemaName, tableName, cols, opts);
+
+        // PostgreSQL has no table-valued parameters; rows arrive as an array of a composite type
+        var keyJoin = string.Join(" AND ", pkCols.Select(c => $"target.{Quote(c)} = source.{Quote(c)}"));
+        var rowsSource = $"unnest({ParamPrefix}Rows) AS source";
+        var sections = new List<string>();
+
+        if (updateCols.Count > 0)
+        {
+            sections.Add(
+                "    -- UPDATE existing rows\n" +
+                $"    UPDATE {qualifiedTable} AS target\n" +
+                "    SET\n" +
+                $"{JoinIndented(updateCols.Select(c => $"{Quote(c)} = source.{Quote(c)}"), "        ")}\n" +
+                $"    FROM {rowsSource}\n" +
+                $"    WHERE {keyJoin};");
+        }
+
+        if (insertCols.Count > 0)
+        {
+            // When rows are also updated, only insert the ones that did not match
+            var notExists = updateCols.Count > 0
+                ? "\n    WHERE NOT EXISTS (\n" +
+                  $"        SELECT 1 FROM {qualifiedTable} AS target\n" +
+                  $"        WHERE {keyJoin}\n" +
+                  "    )"
+                : "";
+            sections.Add(
+                "    -- INSERT new rows\n" +
+                $"    INSERT INTO {qualifiedTable} (\n" +
+                $"{JoinIndented(insertCols.Select(Quote), "        ")}\n" +
+                "    )\n" +
+                "    SELECT\n" +
+                $"{JoinIndented(insertCols.Select(c => $"source.{Quote(c)}"), "        ")}\n" +
+                $"    FROM {rowsSource}{notExists};");
+        }
+
+        return AssembleFunction(
+            fnName,
+            plainName,
+            [$"{ParamPrefix}Rows {qualifiedType}[]"],
+            "void",
+            string.Join("\n    \n", sections),
+            opts.IncludeErrorHandling);
+    }
+
+    /// <summary>
+    /// Composite type for the function's row array; must exist before the function is created
+    /// </summary>
+    public string RenderBulkTvpTableType(string schemaName, string tableName, List<SpColumnConfig> cols, BulkTvpSpOptions opts)
+    {
+        var (qualifiedType, pkCols, insertCols, updateCols) = ResolveBulkTvp(schemaName, tableName, cols, opts);
+
+        var typeCols = cols.Where(c => pkCols.Contains(c) || insertCols.Contains(c) || updateCols.Contains(c)).ToList();
+        return
+            $"CREATE TYPE {qualifiedType} AS (\n" +
+            $"{JoinIndented(typeCols.Select(c => $"{Quote(c)} {SpTemplateRendererUtilities.GetPgSqlType(c)}"), "    ")}\n" +
+            ");\n";
+    }
+
+    private (string QualifiedType, List<SpColumnConfig> PkCols, List<SpColumnConfig> InsertCols, List<SpColumnConfig> UpdateCols) ResolveBulkTvp(
+        string schemaName, string tableName, List<SpColumnConfig> cols, BulkTvpSpOptions opts)
+    {
+        if (!opts.GenerateInsert && !opts.GenerateUpdate)
+        {
+            throw new ArgumentException("No bulk operations enabled; at least one of GenerateInsert/GenerateUpdate must be true");
+        }
+
+        var validatedSchema = SpTemplateRendererUtilities.ValidateSqlIdentifier(schemaName, nameof(schemaName));
+        var typeName = string.IsNullOrWhiteSpace(opts.TableTypeName)
+            ? $"{SpTemplateRendererUtilities.ValidateSqlIdentifier(tableName, nameof(tableName))}TableType"
+            : SpTemplateRendererUtilities.ValidateSqlIdentifier(opts.TableTypeName, nameof(opts.TableTypeName));
+        var qualifiedType = QualifiedName(validatedSchema, typeName);
+
+        var pkCols = cols.Where(c => c.IsPrimaryKey).ToList();
+        var insertCols = opts.GenerateInsert ? cols.Where(c => c.IncludeInCreate && !c.IsIdentity).ToList() : [];
+        var updateCols = opts.GenerateUpdate ? cols.Where(c => c.IncludeInUpdate && !c.IsIdentity && !c.IsPrimaryKey).ToList() : [];
+
+        if (opts.GenerateUpdate && pkCols.Count == 0)
+        {
+            throw new ArgumentException("Bulk update requires primary key columns to match rows.");
+        }
+        if (insertCols.Count == 0 && updateCols.Count == 0)
+        {
+            throw new ArgumentException("Bulk function has no insertable or updatable columns.");
+        }
+
+        return (qualifiedType, pkCols, insertCols, updateCols);
+    }
+
+    public string RenderAudit(string schemaName, string tableName, List<SpColumnConfig> cols, AuditSpOptions opts)
+    {
+        var (fnName, plainName, qualifiedTable) = BuildFunctionNames(schemaName, tableName, opts.SpPrefix, "Audit");
+        var actionParam = ParamPrefix + SpTemplateRendererUtilities.ValidateSqlIdentifier(opts.ActionParamName, nameof(opts.ActionParamName));
+        var userParam = ParamPrefix + SpTemplateRendererUtilities.ValidateSqlIdentifier(opts.UserParamName, nameof(opts.UserParamName));
+        var createdBy = SpTemplateRendererUtilities.FindColumn(cols, opts.CreatedByColumn);
+        var createdAt = SpTemplateRendererUtilities.FindColumn(cols, opts.CreatedAtColumn);
+        var modifiedBy = SpTemplateRendererUtilities.FindColumn(cols, opts.ModifiedByColumn);
+        var modifiedAt = SpTemplateRendererUtilities.FindColumn(cols, opts.ModifiedAtColumn);
+        var auditCols = new[] { createdBy, createdAt, modifiedBy, modifiedAt }.OfType<SpColumnConfig>().ToList();
+
+        if (auditCols.Count == 0)
+        {
+            throw new ArgumentException($"None of the configured audit columns exist on table '{tableName}'.", nameof(opts));
+        }
+
+        var pkCols = cols.Where(c => c.IsPrimaryKey).ToList();
+        var createCols = cols.Where(c => c.IncludeInCreate && !c.IsIdentity && !auditCols.Contains(c)).ToList();
+        var updateCols = cols.Where(c => c.IncludeInUpdate && !c.IsIdentity && !c.IsPrimaryKey && !auditCols.Contains(c)).ToList();
+        var identityCol = cols.FirstOrDefault(c => c.IsIdentity);
+
+        var insertColumns = createCols.Select(Quote).ToList();
+        var insertValues = createCols.Select(ParamRef).ToList();
+        if (createdBy != null) { insertColumns.Add(Quote(createdBy)); insertValues.Add(userParam); }
+        if (createdAt != null) { insertColumns.Add(Quote(createdAt)); insertValues.Add(CurrentTimestamp(createdAt, opts.UseUtc)); }
+
+        var setClause = updateCols.Select(c => $"{Quote(c)} = {ParamRef(c)}").ToList();
+        if (modifiedBy != null) setClause.Add($"{Quote(modifiedBy)} = {userParam}");
+        if (modifiedAt != null) setClause.Add($"{Quote(modifiedAt)} = {CurrentTimestamp(modifiedAt, opts.UseUtc)}");
+
+        var branches = new List<(string Action, string Label, string Statement)>();
+        var activeActions = new List<string>();
+        var returnsIdentity = false;
+
+        if (insertColumns.Count > 0)
+        {
+            returnsIdentity = identityCol != null;
+            activeActions.Add("'C' = Create");
+            branches.Add(("C", "CREATE", BuildInsert(qualifiedTable, insertColumns, insertValues, identityCol)));
+        }
+
+        if (setClause.Count > 0 && pkCols.Count > 0)
+        {
+            activeActions.Add("'U' = Update");
+            branches.Add(("U", "UPDATE", BuildUpdate(qualifiedTable, setClause, KeyConditions(pkCols))));
+        }
+
+        if (branches.Count == 0)
+        {
+            throw new ArgumentException("Audit function has no insertable or updatable columns.");
+        }
+
+        // Type the user parameter after the column it is stamped into
+        var userCol = createdBy ?? modifiedBy;
+        var userType = userCol != null ? SpTemplateRendererUtilities.GetPgSqlType(userCol) : "text";
+        var parameters = new List<string>
+        {
+            $"{actionParam} char(1) -- {string.Join(", ", activeActions)}",
+            $"{userParam} {userType}"
+        };
+        parameters.AddRange(BuildColumnParameters([.. pkCols.Union(createCols.Where(c => !c.IsPrimaryKey)).Union(updateCols)]));
+
+        return AssembleIdentityFunction(fnName, plainName, parameters, BuildActionBranches(actionParam, branches), returnsIdentity ? identityCol : null, opts.IncludeErrorHandling);
+    }
+
+    // Helper methods
+    private (string FnName, string PlainName, string QualifiedTable) BuildFunctionNames(string schemaName, string tableName, string? spPrefix, string suffix)
+    {
+        var validatedPrefix = SpTemplateRendererUtilities.ValidateSqlIdentifier(spPrefix ?? "usp", nameof(spPrefix));
+        var validatedSchema = SpTemplateRendererUtilities.ValidateSqlIdentifier(schemaName, nameof(schemaName));
+        var validatedTableName = SpTemplateRendererUtilities.ValidateSqlIdentifier(tableName, nameof(tableName));
+        var plainName = $"{validatedPrefix}_{validatedTableName}_{suffix}";
+
+        return (QualifiedName(validatedSchema, plainName), plainName, QualifiedName(validatedSchema, validatedTableName));
+    }
+
+    private static string AssembleFunction(
+        string fnName,
+        string plainName,
+        List<string> parameters,
+        string returns,
+        string body,
+        bool includeErrorHandling,
+        List<string>? declarations = null,
+        string? preamble = null)
+    {
+        var sb = new StringBuilder();
+        if (parameters.Count > 0)
+        {
+            sb.AppendLine($"CREATE OR REPLACE FUNCTION {fnName}(");
+            sb.AppendLine(JoinParameters(parameters));
+            sb.AppendLine(")");
+        }
+        else
+        {
+            sb.AppendLine($"CREATE OR REPLACE FUNCTION {fnName}()");
+        }
+        sb.AppendLine($"RETURNS {returns}");
+        sb.AppendLine("LANGUAGE plpgsql");
+        sb.AppendLine("AS $$");
+        if (preamble != null)
+        {
+            sb.AppendLine(preamble);
+        }
+        if (declarations is { Count: > 0 })
+        {
+            sb.AppendLine("DECLARE");
+            foreach (var declaration in declarations)
+            {
+                sb.AppendLine($"    {declaration};");
+            }
+        }
+        sb.AppendLine("BEGIN");
+        sb.AppendLine(body);
+        if (includeErrorHandling)
+        {
+            // The block's changes are already rolled back here; re-raise with the function name for context
+            sb.AppendLine("EXCEPTION");
+            sb.AppendLine("    WHEN OTHERS THEN");
+            sb.AppendLine($"        RAISE EXCEPTION '{plainName} failed: %', SQLERRM USING ERRCODE = SQLSTATE;");
+        }
+        sb.AppendLine("END;");
+        sb.AppendLine("$$;");
+
+        return sb.ToString();
+    }
+
+    /// <summary>
+    /// Action-switch functions return the new identity value from the create branch (NULL otherwise)
+    /// </summary>
+    private static string AssembleIdentityFunction(string fnName, string plainName, List<string> parameters, string branches, SpColumnConfig? identityCol, bool includeErrorHandling)
+    {
+        if (identityCol == null)
+        {
+            return AssembleFunction(fnName, plainName, parameters, "void", branches, includeErrorHandling);
+        }
+
+        var identityType = SpTemplateRendererUtilities.GetPgSqlType(identityCol);
+        return AssembleFunction(
+            fnName,
+            plainName,
+            parameters,
+            identityType,
+            $"{branches}\n    \n    RETURN v_new_id;",
+            includeErrorHandling,
+            [$"v_new_id {identityType}"]);
+    }
+
+    private static string BuildActionBranches(string actionParam, List<(string Action, string Label, string Statement)> branches)
+    {
+        var sb = new StringBuilder();
+        for (var i = 0; i < branches.Count; i++)
+        {
+            var (action, label, statement) = branches[i];
+            sb.AppendLine($"    {(i == 0 ? "IF" : "ELSIF")} {actionParam} = '{action}' THEN -- {label}");
+            sb.AppendLine(statement);
+        }
+        sb.Append("    END IF;");
+
+        return sb.ToString();
+    }
+
+    private static string BuildInsert(string qualifiedTable, List<string> columns, List<string> values, SpColumnConfig? identityCol)
+    {
+        var returning = identityCol != null ? $"\n        RETURNING {Quote(identityCol)} INTO v_new_id" : "";
+        return
+            $"        INSERT INTO {qualifiedTable} (\n" +
+            $"{JoinIndented(columns, "            ")}\n" +
+            "        )\n" +
+            "        VALUES (\n" +
+            $"{JoinIndented(values, "            ")}\n" +
+            $"        ){returning};";
+    }
+
+    private static string BuildUpdate(string qualifiedTable, List<string> setClause, List<string> conditions, string indent = "        ")
+    {
+        return
+            $"{indent}UPDATE {qualifiedTable}\n" +
+            $"{indent}SET\n" +
+            $"{JoinIndented(setClause, indent + "    ")}\n" +
+            $"{indent}WHERE\n" +
+            $"{JoinIndented(conditions, indent + "    ", " AND")};";
+    }
+
+    private static List<string> KeyConditions(List<SpColumnConfig> keyCols)
+    {
+        return [.. keyCols.Select(c => $"{Quote(c)} = {ParamRef(c)}")];
+    }
+
+    /// <summary>
+    /// Every column parameter defaults to NULL: PostgreSQL requires defaults on all parameters
+    /// after the first defaulted one, and each action only reads some of them.
+    /// </summary>
+    private static List<string> BuildColumnParameters(List<SpColumnConfig> cols)
+    {
+        return [.. cols.Select(c => $"{ParamRef(c)} {SpTemplateRendererUtilities.GetPgSqlType(c)} DEFAULT NULL")];
+    }
+
+    /// <summary>
+    /// Required filters come first so the optional ones can default to NULL
+    /// </summary>
+    private static List<string> BuildFilterParameters(List<FilterColumn> filters, List<SpColumnConfig> allCols)
+    {
+        var parameters = new List<string>();
+        foreach (var filter in filters.OrderBy(f => f.IsOptional))
+        {
+            var col = SpTemplateRendererUtilities.FindColumn(allCols, filter.ColumnName)
+                ?? throw new ArgumentException($"Filter column '{filter.ColumnName}' does not exist on the base table.", nameof(filters));
+            var parameterName = ParamRef(col);
+            var type = SpTemplateRendererUtilities.GetPgSqlType(col);
+            var suffix = filter.IsOptional ? " DEFAULT NULL" : "";
+
+            switch (filter.Operator)
+            {
+                case FilterOperator.Between:
+                    parameters.Add($"{parameterName}Start {type}{suffix}");
+                    parameters.Add($"{parameterName}End {type}{suffix}");
+                    break;
+                case FilterOperator.In:
+                    parameters.Add($"{parameterName} {type}[]{suffix}");
+                    break;
+                case FilterOperator.Like:
+                    parameters.Add($"{parameterName} text{suffix}");
+                    break;
+                default:
+                    parameters.Add($"{parameterName} {type}{suffix}");
+                    break;
+            }
+        }
+
+        return parameters;
+    }
+
+    private static string BuildWhereFilters(List<FilterColumn> filters, string? baseAlias, string? extraCondition = null)
+    {
+        if (filters.Count == 0 && extraCondition == null)
+        {
+            return "";
+        }
+
+        var lines = new List<string> { "WHERE 1=1" };
+        foreach (var filter in filters)
+        {
+            var name = SpTemplateRendererUtilities.ValidateSqlIdentifier(filter.ColumnName, nameof(filter.ColumnName));
+            var parameterName = ParamPrefix + name;
+            var column = QualifyColumn(name, baseAlias);
+
+            var condition = filter.Operator switch
+            {
+                FilterOperator.Equals => $"{column} = {parameterName}",
+                FilterOperator.Like => $"{column}::text ILIKE '%' || COALESCE({parameterName}, '') || '%'",
+                FilterOperator.GreaterThan => $"{column} > {parameterName}",
+                FilterOperator.LessThan => $"{column} < {parameterName}",
+                FilterOperator.Between => $"{column} BETWEEN {parameterName}Start AND {parameterName}End",
+                FilterOperator.In => $"{column} = ANY({parameterName})",
+                _ => throw new ArgumentException($"Unsupported filter operator '{filter.Operator}'.", nameof(filters))
+            };
+
+            if (filter.IsOptional)
+            {
+                var skip = filter.Operator switch
+                {
+                    FilterOperator.Between => $"{parameterName}Start IS NULL OR {parameterName}End IS NULL",
+                    FilterOperator.In => $"{parameterName} IS NULL OR cardinality({parameterName}) = 0",
+                    _ => $"{parameterName} IS NULL"
+                };
+                condition = $"({skip} OR {condition})";
+            }
+
+            lines.Add($"    AND {condition}");
+        }
+
+        if (extraCondition != null)
+        {
+            lines.Add($"    AND {extraCondition}");
+        }
+
+        return string.Join("\n", lines);
+    }
+
+    private sealed record SelectOutput(string Name, string Expression, string SelectItem, string Type);
+
+    private static string QualifyColumn(string columnName, string? alias)
+    {
+        var quoted = SpTemplateRendererUtilities.QuoteIdentifier(columnName);
+        return alias != null ? $"{alias}.{quoted}" : quoted;
+    }
+
+    private string BuildJoinClauses(List<SpColumnConfig> cols, List<SelectJoin> joins)
+    {
+        var aliases = new HashSet<string>(StringComparer.OrdinalIgnoreCase) { SelectBaseAlias };
+        var lines = new List<string>();
+
+        foreach (var join in joins)
+        {
+            var alias = SpTemplateRendererUtilities.ValidateSqlIdentifier(join.Alias, nameof(join.Alias));
+            if (!aliases.Add(alias))
+            {
+                throw new ArgumentException($"Join alias '{alias}' is used more than once or is reserved for the base table.", nameof(joins));
+            }
+            if (join.On.Count == 0)
+            {
+                throw new ArgumentException($"Join '{alias}' has no ON columns.", nameof(joins));
+            }
+
+            var joinSchema = SpTemplateRendererUtilities.ValidateSqlIdentifier(
+                string.IsNullOrWhiteSpace(join.SchemaName) ? "public" : join.SchemaName,
+                nameof(join.SchemaName));
+            var joinTable = SpTemplateRendererUtilities.ValidateSqlIdentifier(join.TableName, nameof(join.TableName));
+            var conditions = join.On.Select(c =>
+            {
+                var baseCol = SpTemplateRendererUtilities.FindColumn(cols, c.BaseColumn)
+                    ?? throw new ArgumentException($"Join '{alias}' references unknown base column '{c.BaseColumn}'.", nameof(joins));
+                var joinCol = SpTemplateRendererUtilities.ValidateSqlIdentifier(c.JoinColumn, nameof(c.JoinColumn));
+                return $"{QualifyColumn(joinCol, alias)} = {QualifyColumn(baseCol.ColumnName, SelectBaseAlias)}";
+            });
+
+            var keyword = join.JoinType == SelectJoinType.Left ? "LEFT JOIN" : "INNER JOIN";
+            lines.Add($"{keyword} {QualifiedName(joinSchema, joinTable)} AS {alias}");
+            lines.Add($"    ON {string.Join("\n    AND ", conditions)}");
+        }
+
+        return string.Join("\n", lines);
+    }
+
+    /// <summary>
+    /// The SELECT list with each item's output name, sort expression and declared type.
+    /// Items are cast to the declared type because RETURN QUERY must match RETURNS TABLE exactly.
+    /// </summary>
+    private static List<SelectOutput> BuildSelectOutputs(List<SpColumnConfig> cols, SelectSpOptions opts, string? baseAlias)
+    {
+        if (opts.OutputColumns.Count == 0)
+        {
+            return [.. cols.Select(c =>
+            {
+                var expression = QualifyColumn(c.ColumnName, baseAlias);
+                var type = SpTemplateRendererUtilities.GetPgSqlType(c);
+                return new SelectOutput(c.ColumnName, expression, $"{expression}::{type}", type);
+            })];
+        }
+
+        var joinAliases = new HashSet<string>(opts.Joins.Select(j => j.Alias.Trim()), StringComparer.OrdinalIgnoreCase);
+        var outputs = new List<SelectOutput>();
+
+        foreach (var output in opts.OutputColumns)
+        {
+            var alias = string.IsNullOrWhiteSpace(output.Alias)
+                ? null
+                : SpTemplateRendererUtilities.ValidateSqlIdentifier(output.Alias, nameof(output.Alias));
+            string name;
+            string expression;
+            string type;
+
+            if (!string.IsNullOrWhiteSpace(output.Expression))
+            {
+                // The expression's type is unknown, so computed columns come back as text
+                name = alias ?? throw new ArgumentException("Computed columns need an alias.", nameof(opts.OutputColumns));
+                expression = $"({SpTemplateRendererUtilities.ValidateComputedExpression(output.Expression)})";
+                type = "text";
+            }
+            else if (string.IsNullOrWhiteSpace(output.Source))
+            {
+                var col = SpTemplateRendererUtilities.FindColumn(cols, output.ColumnName)
+                    ?? throw new ArgumentException($"Output column '{output.ColumnName}' does not exist on the base table.", nameof(opts.OutputColumns));
+                name = alias ?? col.ColumnName;
+                expression = QualifyColumn(col.ColumnName, baseAlias);
+                type = SpTemplateRendererUtilities.GetPgSqlType(col);
+            }
+            else
+            {
+                var source = output.Source.Trim();
+                if (!joinAliases.Contains(source))
+                {
+                    throw new ArgumentException($"Output column source '{source}' is not a join alias.", nameof(opts.OutputColumns));
+                }
+                var columnName = SpTemplateRendererUtilities.ValidateSqlIdentifier(output.ColumnName ?? "", nameof(output.ColumnName));
+                if (string.IsNullOrWhiteSpace(output.DataType))
+                {
+                    throw new ArgumentException($"Joined column '{source}.{columnName}' needs a data type to be returned from a PostgreSQL function.", nameof(opts.OutputColumns));
+                }
+                name = alias ?? columnName;
+                expression = QualifyColumn(columnName, source);
+                type = SpTemplateRendererUtilities.GetPgSqlType(output.DataType);
+            }
+
+            if (outputs.Any(o => string.Equals(o.Name, name, StringComparison.OrdinalIgnoreCase)))
+            {
+                throw new ArgumentException($"Output column name '{name}' is used more than once; give one of them an alias.", nameof(opts.OutputColumns));
+            }
+
+            outputs.Add(new SelectOutput(name, expression, $"{expression}::{type}", type));
+        }
+
+        return outputs;
+    }
+
+    /// <summary>
+    /// Rows strictly after the p_After* values in key order, as a row-value comparison
+    /// </summary>
+    private static string BuildKeysetCondition(List<SpColumnConfig> keyCols, string? baseAlias)
+    {
+        var columns = keyCols.Select(c => QualifyColumn(c.ColumnName, baseAlias)).ToList();
+        var values = keyCols.Select(c => $"{ParamPrefix}After{ParamName(c)}").ToList();
+        var seek = keyCols.Count == 1
+            ? $"{columns[0]} > {values[0]}"
+            : $"({string.Join(", ", columns)}) > ({string.Join(", ", values)})";
+
+        return $"({values[0]} IS NULL OR {seek})";
+    }
+
+    /// <summary>
+    /// Current time for a timestamp column; timestamptz stores an absolute instant, so UTC only matters without a zone
+    /// </summary>
+    private static string CurrentTimestamp(SpColumnConfig col, bool useUtc)
+    {
+        if (SpTemplateRendererUtilities.GetPgSqlType(col) == "timestamptz")
+        {
+            return "now()";
+        }
+
+        return useUtc ? "(now() AT TIME ZONE 'utc')" : "LOCALTIMESTAMP";
+    }
+
+    /// <summary>
+    /// Flag columns ported from SQL Server may be integers rather than booleans
+    /// </summary>
+    private static string FlagLiteral(SpColumnConfig col, bool value)
+    {
+        if (SpTemplateRendererUtilities.GetPgSqlType(col) == "boolean")
+        {
+            return value ? "TRUE" : "FALSE";
+        }
+
+        return value ? "1" : "0";
+    }
+
+    private static string JoinIndented(IEnumerable<string> items, string indent, string separator = ",")
+    {
+        return string.Join($"{separator}\n", items.Select(item => indent + item));
+    }
+
+    private static string JoinParameters(List<string> parameters)
+    {
+        // A trailing comment must follow the comma, not swallow it
+        return string.Join("\n", parameters.Select((p, i) =>
+        {
+            var comma = i < parameters.Count - 1 ? "," : "";
+            var commentAt = p.IndexOf(" -- ", StringComparison.Ordinal);
+            return commentAt < 0
+                ? $"    {p}{comma}"
+                : $"    {p[..commentAt]}{comma}{p[commentAt..]}";
+        }));
+    }
+
+    private static string Indent(string text, string indent)
+    {
+        return string.Join("\n", text.Split('\n').Select(line => line.Length > 0 ? indent + line : line));
+    }
+
+    private static string Quote(SpColumnConfig col)
+    {
+        return SpTemplateRendererUtilities.QuoteIdentifier(col.ColumnName);
+    }
+
+    private static string ParamName(SpColumnConfig col)
+    {
+        return SpTemplateRendererUtilities.ValidateSqlIdentifier(col.ColumnName, nameof(col.ColumnName));
+    }
+
+    private static string ParamRef(SpColumnConfig col)
+    {
+        return ParamPrefix + ParamName(col);
+    }
+}
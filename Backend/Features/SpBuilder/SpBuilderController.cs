@@ -2,6 +2,7 @@ using ActoEngine.WebApi.Api.ApiModels;
 using ActoEngine.WebApi.Api.Attributes;
 using ActoEngine.WebApi.Features.Projects;
 using ActoEngine.WebApi.Features.Schema;
+using ActoEngine.WebApi.Shared.Extensions;
 using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Mvc;
 
@@ -12,13 +13,14 @@ namespace ActoEngine.WebApi.Features.SpBuilder;
 [Route("api/[controller]")]
 public class SpBuilderController(
     ISpBuilderService spBuilder,
+    ISpConfigService spConfigs,
     ISchemaRepository schemaRepo,
     IProjectRepository projectRepo,
     ILogger<SpBuilderController> log) : ControllerBase
 {
 
     /// <summary>
-    /// Generate CUD or SELECT stored procedure
+    /// Generate a CUD, SELECT, upsert, soft-delete, bulk TVP or audit stored procedure
     /// </summary>
     [HttpPost("generate")]
     [RequirePermission("StoredProcedures:Create")]
@@ -43,6 +45,10 @@ public class SpBuilderController(
                 result,
                 $"Generated {req.Type} SP: {spName}"));
         }
+        catch (ArgumentException ex)
+        {
+            return BadRequest(ApiResponse<GeneratedSpResponse>.Failure(ex.Message));
+        }
         catch (Exception ex)
         {
             log.LogError(ex, "Failed generating SP: {Table}", req.TableName);
@@ -138,7 +144,7 @@ public class SpBuilderController(
                 SchemaName = req.SchemaName
             });
 
-            var cols = MapSchemaToColumns(schema);
+            var cols = SpTemplateRendererUtilities.MapSchemaToColumns(schema);
 
             var result = await spBuilder.GenerateStoredProcedure(new SpGenerationRequest
             {
@@ -182,7 +188,7 @@ public class SpBuilderController(
                 SchemaName = req.SchemaName
             });
 
-            var cols = MapSchemaToColumns(schema);
+            var cols = SpTemplateRendererUtilities.MapSchemaToColumns(schema);
 
             var result = await spBuilder.GenerateStoredProcedure(new SpGenerationRequest
             {
@@ -207,22 +213,240 @@ public class SpBuilderController(
         }
     }
 
-    // Helper
-    private static List<SpColumnConfig> MapSchemaToColumns(TableSchemaResponse schema)
+    /// <summary>
+    /// List saved SP Builder configurations, optionally for one table
+    /// </summary>
+    [HttpGet("projects/{projectId}/configs")]
+    [RequirePermission("StoredProcedures:Read")]
+    [ProducesResponseType(typeof(ApiResponse<List<SpConfigListItem>>), StatusCodes.Status200OK)]
+    public async Task<IActionResult> GetConfigs(
+        int projectId,
+        [FromQuery] string? schemaName = null,
+        [FromQuery] string? tableName = null,
+        CancellationToken cancellationToken = default)
+    {
+        try
+        {
+            var configs = await spConfigs.GetConfigsAsync(projectId, schemaName, tableName, cancellationToken);
+            return Ok(ApiResponse<List<SpConfigListItem>>.Success(configs, $"Retrieved {configs.Count} configuration(s)"));
+        }
+        catch (Exception ex)
+        {
+            log.LogError(ex, "Error listing SP Builder configs for project {ProjectId}", projectId);
+            return StatusCode(500, ApiResponse<object>.Failure("An error occurred while retrieving saved configurations"));
+        }
+    }
+
+    /// <summary>
+    /// Get a saved configuration at its current or a specific version
+    /// </summary>
+    [HttpGet("projects/{projectId}/configs/{configId}")]
+    [RequirePermission("StoredProcedures:Read")]
+    [ProducesResponseType(typeof(ApiResponse<SpConfigResponse>), StatusCodes.Status200OK)]
+    [ProducesResponseType(typeof(ApiResponse<object>), StatusCodes.Status404NotFound)]
+    public async Task<IActionResult> GetConfig(
+        int projectId,
+        int configId,
+        [FromQuery] int? version = null,
+        CancellationToken cancellationToken = default)
+    {
+        try
+        {
+            var config = await spConfigs.GetConfigAsync(projectId, configId, version, cancellationToken);
+            if (config == null)
+            {
+                return NotFound(ApiResponse<object>.Failure(version == null
+                    ? $"Configuration {configId} not found in project {projectId}"
+                    : $"Version {version} of configuration {configId} not found in project {projectId}"));
+            }
+
+            return Ok(ApiResponse<SpConfigResponse>.Success(config, "Configuration retrieved successfully"));
+        }
+        catch (Exception ex)
+        {
+            log.LogError(ex, "Error retrieving SP Builder config {ConfigId} in project {ProjectId}", configId, projectId);
+            return StatusCode(500, ApiResponse<object>.Failure("An error occurred while retrieving the configuration"));
+        }
+    }
+
+    /// <summary>
+    /// Version history of a saved configuration, newest first
+    /// </summary>
+    [HttpGet("projects/{projectId}/configs/{configId}/versions")]
+    [RequirePermission("StoredProcedures:Read")]
+    [ProducesResponseType(typeof(ApiResponse<List<SpConfigVersionItem>>), StatusCodes.Status200OK)]
+    [ProducesResponseType(typeof(ApiResponse<object>), StatusCodes.Status404NotFound)]
+    public async Task<IActionResult> GetConfigVersions(int projectId, int configId, CancellationToken cancellationToken = default)
+    {
+        try
+        {
+            var versions = await spConfigs.GetVersionsAsync(projectId, configId, cancellationToken);
+            if (versions == null)
+            {
+                return NotFound(ApiResponse<object>.Failure($"Configuration {configId} not found in project {projectId}"));
+            }
+
+            return Ok(ApiResponse<List<SpConfigVersionItem>>.Success(versions, $"Retrieved {versions.Count} version(s)"));
+        }
+        catch (Exception ex)
+        {
+            log.LogError(ex, "Error listing versions of SP Builder config {ConfigId} in project {ProjectId}", configId, projectId);
+            return StatusCode(500, ApiResponse<object>.Failure("An error occurred while retrieving configuration versions"));
+        }
+    }
+
+    /// <summary>
+    /// Save the current SP Builder options as a new named configuration
+    /// </summary>
+    [HttpPost("projects/{projectId}/configs")]
+    [RequirePermission("StoredProcedures:Create")]
+    [ProducesResponseType(typeof(ApiResponse<SpConfigResponse>), StatusCodes.Status201Created)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(StatusCodes.Status409Conflict)]
+    public async Task<IActionResult> CreateConfig(
+        int projectId,
+        [FromBody] SaveSpConfigRequest request,
+        CancellationToken cancellationToken = default)
     {
-        return [.. schema.Columns.Select(c => new SpColumnConfig
-        {
-            ColumnName = c.ColumnName,
-            DataType = c.DataType,
-            MaxLength = c.MaxLength,
-            Precision = c.Precision,
-            Scale = c.Scale,
-            IsNullable = c.IsNullable,
-            IsPrimaryKey = c.IsPrimaryKey,
-            IsIdentity = c.IsIdentity,
-            IncludeInCreate = !c.IsIdentity,
-            IncludeInUpdate = !c.IsIdentity && !c.IsPrimaryKey,
-            DefaultValue = c.DefaultValue
-        })];
+        try
+        {
+            if (!ModelState.IsValid)
+            {
+                return BadRequest(ApiResponse<object>.Failure("Invalid request data",
+                    [.. ModelState.Values.SelectMany(v => v.Errors.Select(e => e.ErrorMessage))]));
+            }
+
+            var userId = HttpContext.GetUserId();
+            if (userId == null)
+            {
+                return Unauthorized(ApiResponse<object>.Failure("User not authenticated"));
+            }
+
+            var config = await spConfigs.CreateConfigAsync(projectId, request, userId.Value, cancellationToken);
+            return StatusCode(201, ApiResponse<SpConfigResponse>.Success(config, "Configuration saved"));
+        }
+        catch (ArgumentException ex)
+        {
+            return BadRequest(ApiResponse<object>.Failure(ex.Message));
+        }
+        catch (InvalidOperationException ex)
+        {
+            return Conflict(ApiResponse<object>.Failure(ex.Message));
+        }
+        catch (Exception ex)
+        {
+            log.LogError(ex, "Error saving SP Builder config in project {ProjectId}", projectId);
+            return StatusCode(500, ApiResponse<object>.Failure("An error occurred while saving the configuration"));
+        }
+    }
+
+    /// <summary>
+    /// Save a new version of an existing configuration
+    /// </summary>
+    [HttpPost("projects/{projectId}/configs/{configId}/versions")]
+    [RequirePermission("StoredProcedures:Update")]
+    [ProducesResponseType(typeof(ApiResponse<SpConfigResponse>), StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(typeof(ApiResponse<object>), StatusCodes.Status404NotFound)]
+    [ProducesResponseType(StatusCodes.Status409Conflict)]
+    public async Task<IActionResult> SaveConfigVersion(
+        int projectId,
+        int configId,
+        [FromBody] SaveSpConfigRequest request,
+        CancellationToken cancellationToken = default)
+    {
+        try
+        {
+            if (!ModelState.IsValid)
+            {
+                return BadRequest(ApiResponse<object>.Failure("Invalid request data",
+                    [.. ModelState.Values.SelectMany(v => v.Errors.Select(e => e.ErrorMessage))]));
+            }
+
+            var userId = HttpContext.GetUserId();
+            if (userId == null)
+            {
+                return Unauthorized(ApiResponse<object>.Failure("User not authenticated"));
+            }
+
+            var config = await spConfigs.SaveVersionAsync(projectId, configId, request, userId.Value, cancellationToken);
+            if (config == null)
+            {
+                return NotFound(ApiResponse<object>.Failure($"Configuration {configId} not found in project {projectId}"));
+            }
+
+            return Ok(ApiResponse<SpConfigResponse>.Success(config, $"Saved version {config.Version}"));
+        }
+        catch (ArgumentException ex)
+        {
+            return BadRequest(ApiResponse<object>.Failure(ex.Message));
+        }
+        catch (InvalidOperationException ex)
+        {
+            return Conflict(ApiResponse<object>.Failure(ex.Message));
+        }
+        catch (Exception ex)
+        {
+            log.LogError(ex, "Error saving a version of SP Builder config {ConfigId} in project {ProjectId}", configId, projectId);
+            return StatusCode(500, ApiResponse<object>.Failure("An error occurred while saving the configuration"));
+        }
+    }
+
+    /// <summary>
+    /// Delete a saved configuration and its history (creator or admin only)
+    /// </summary>
+    [HttpDelete("projects/{projectId}/configs/{configId}")]
+    [RequirePermission("StoredProcedures:Delete")]
+    [ProducesResponseType(typeof(ApiResponse<object>), StatusCodes.Status200OK)]
+    [ProducesResponseType(typeof(ApiResponse<object>), StatusCodes.Status404NotFound)]
+    public async Task<IActionResult> DeleteConfig(int projectId, int configId, CancellationToken cancellationToken = default)
+    {
+        try
+        {
+            var userId = HttpContext.GetUserId();
+            if (userId == null)
+            {
+                return Unauthorized(ApiResponse<object>.Failure("User not authenticated"));
+            }
+
+            var isAdmin = HttpContext.User.FindFirst("role")?.Value == "Admin";
+            var deleted = await spConfigs.DeleteConfigAsync(projectId, configId, userId.Value, isAdmin, cancellationToken);
+            if (!deleted)
+            {
+                return NotFound(ApiResponse<object>.Failure("Configuration not found or you don't have permission to delete it"));
+            }
+
+            return Ok(ApiResponse<object>.Success(new { }, "Configuration deleted"));
+        }
+        catch (Exception ex)
+        {
+            log.LogError(ex, "Error deleting SP Builder config {ConfigId} in project {ProjectId}", configId, projectId);
+            return StatusCode(500, ApiResponse<object>.Failure("An error occurred while deleting the configuration"));
+        }
+    }
+
+    /// <summary>
+    /// Regenerate saved configurations against the current schema and report which no longer validate
+    /// </summary>
+    [HttpPost("projects/{projectId}/configs/regenerate")]
+    [RequirePermission("StoredProcedures:Create")]
+    [ProducesResponseType(typeof(ApiResponse<RegenerateSpConfigsResponse>), StatusCodes.Status200OK)]
+    public async Task<IActionResult> RegenerateConfigs(
+        int projectId,
+        [FromBody] RegenerateSpConfigsRequest request,
+        CancellationToken cancellationToken = default)
+    {
+        try
+        {
+            var result = await spConfigs.RegenerateAsync(projectId, request, cancellationToken);
+            var invalid = result.Results.Count(r => r.Status == SpConfigRegenerationStatus.Invalid);
+            return Ok(ApiResponse<RegenerateSpConfigsResponse>.Success(result,
+                $"Regenerated {result.Results.Count - invalid} of {result.Results.Count} configuration(s)"));
+        }
+        catch (Exception ex)
+        {
+            log.LogError(ex, "Error regenerating SP Builder configs in project {ProjectId}", projectId);
+            return StatusCode(500, ApiResponse<object>.Failure("An error occurred while regenerating saved configurations"));
+        }
     }
 }
\ No newline at end of file
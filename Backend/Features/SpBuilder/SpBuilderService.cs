@@ -14,13 +14,20 @@ public class SpBuilderService(ISchemaRepository schemaRepo, IProjectRepository p
     private readonly ISchemaRepository _schemaRepo = schemaRepo;
     private readonly IProjectRepository _projectRepo = projectRepo;
     private readonly SpTemplateRenderer _renderer = new();
+    private readonly PgSqlTemplateRenderer _pgRenderer = new();
 
-    public Task<GeneratedSpResponse> GenerateStoredProcedure(SpGenerationRequest req)
+    public async Task<GeneratedSpResponse> GenerateStoredProcedure(SpGenerationRequest req)
     {
+        // The dialect follows the project's database; unknown projects keep the T-SQL output
+        var project = await _projectRepo.GetByIdAsync(req.ProjectId);
+        var dialect = SpTemplateRendererUtilities.ResolveDialect(project?.DatabaseType);
+        ISpTemplateRenderer renderer = dialect == SqlDialect.PostgreSql ? _pgRenderer : _renderer;
+
         var response = new GeneratedSpResponse
         {
             TableName = req.TableName,
             Type = req.Type,
+            Dialect = dialect,
             Warnings = [],
             GeneratedAt = DateTime.UtcNow
         };
@@ -34,12 +41,21 @@ public class SpBuilderService(ISchemaRepository schemaRepo, IProjectRepository p
         // Generate stored procedure based on type
         response.StoredProcedure = req.Type switch
         {
-            SpType.Cud => GenerateCudSp(req),
-            SpType.Select => GenerateSelectSp(req),
+            SpType.Cud => GenerateCudSp(req, renderer),
+            SpType.Select => GenerateSelectSp(req, response, renderer),
+            SpType.Upsert => GenerateUpsertSp(req, renderer),
+            SpType.SoftDelete => GenerateSoftDeleteSp(req, response, renderer),
+            SpType.BulkTvp => GenerateBulkTvpSp(req, renderer),
+            SpType.Audit => GenerateAuditSp(req, response, renderer),
             _ => GenerateUnsupportedSp(req, response)
         };
 
-        return Task.FromResult(response);
+        if (req.Type == SpType.BulkTvp && (req.BulkTvpOptions ?? new BulkTvpSpOptions()).GenerateTableType)
+        {
+            response.TableType = GenerateBulkTvpTableType(req, renderer);
+        }
+
+        return response;
     }
 
     private static GeneratedSpItem GenerateUnsupportedSp(SpGenerationRequest req, GeneratedSpResponse response)
@@ -50,44 +66,60 @@ public class SpBuilderService(ISchemaRepository schemaRepo, IProjectRepository p
         {
             SpName = $"Unsupported_{req.TableName}",
             SpType = "Unsupported",
-            Code = $"-- ERROR: Unsupported SpType '{req.Type}' was requested for table '{req.TableName}'.\n-- Supported types: Cud, Select",
+            Code = $"-- ERROR: Unsupported SpType '{req.Type}' was requested for table '{req.TableName}'.\n-- Supported types: Cud, Select, Upsert, SoftDelete, BulkTvp, Audit",
             FileName = $"Unsupported_{req.TableName}.sql",
-            Description = $"Unsupported SpType '{req.Type}' was requested. Please use 'Cud' or 'Select'."
+            Description = $"Unsupported SpType '{req.Type}' was requested. Please use 'Cud', 'Select', 'Upsert', 'SoftDelete', 'BulkTvp' or 'Audit'."
         };
     }
 
-    private GeneratedSpItem GenerateCudSp(SpGenerationRequest req)
+    private static GeneratedSpItem GenerateCudSp(SpGenerationRequest req, ISpTemplateRenderer renderer)
     {
         var opts = req.CudOptions ?? new CudSpOptions();
-        var code = _renderer.RenderCud(req.SchemaName, req.TableName, req.Columns, opts);
+        var code = renderer.RenderCud(req.SchemaName, req.TableName, req.Columns, opts);
 
         return new GeneratedSpItem
         {
-            SpName = $"[{req.SchemaName}].[{opts.SpPrefix}_{req.TableName}_CUD]",
+            SpName = renderer.QualifiedName(req.SchemaName, $"{opts.SpPrefix}_{req.TableName}_CUD"),
             SpType = "CUD",
             Code = code,
             FileName = $"{opts.SpPrefix}_{req.TableName}_CUD.sql",
-            Description = "Handles Create, Update, Delete operations. Pass @Action = 'C'/'U'/'D'"
+            Description = $"Handles Create, Update, Delete operations. Pass {renderer.ParameterRef(opts.ActionParamName)} = 'C'/'U'/'D'"
         };
     }
 
-    private GeneratedSpItem GenerateSelectSp(SpGenerationRequest req)
+    private static GeneratedSpItem GenerateSelectSp(SpGenerationRequest req, GeneratedSpResponse response, ISpTemplateRenderer renderer)
     {
         var opts = req.SelectOptions ?? new SelectSpOptions();
-        var code = _renderer.RenderSelect(req.SchemaName, req.TableName, req.Columns, opts);
+        var code = renderer.RenderSelect(req.SchemaName, req.TableName, req.Columns, opts);
 
-        var desc = opts.IncludePagination
-            ? "Select with filters and pagination"
-            : "Select with optional filters";
+        var desc = !opts.IncludePagination
+            ? "Select with optional filters"
+            : opts.UseKeysetPagination
+                ? "Select with filters and keyset pagination"
+                : "Select with filters and pagination";
 
         if (opts.Filters.Count != 0)
         {
             desc += $". Filters: {string.Join(", ", opts.Filters.Select(f => f.ColumnName))}";
         }
+        if (opts.Joins.Count != 0)
+        {
+            desc += $". Joins: {string.Join(", ", opts.Joins.Select(j => j.TableName))}";
+        }
+        if (opts.SortableColumns.Count != 0)
+        {
+            desc += $". Sortable by {renderer.ParameterRef("SortColumn")}: {string.Join(", ", opts.SortableColumns)}";
+        }
+
+        // RETURNS TABLE needs a type per column and an expression's type is not known up front
+        if (renderer.Dialect == SqlDialect.PostgreSql && opts.OutputColumns.Any(o => !string.IsNullOrWhiteSpace(o.Expression)))
+        {
+            response.Warnings.Add("⚠️ Computed columns are returned as text in PostgreSQL; cast them in the caller if needed.");
+        }
 
         return new GeneratedSpItem
         {
-            SpName = $"[{req.SchemaName}].[{opts.SpPrefix}_{req.TableName}_Select]",
+            SpName = renderer.QualifiedName(req.SchemaName, $"{opts.SpPrefix}_{req.TableName}_Select"),
             SpType = "Select",
             Code = code,
             FileName = $"{opts.SpPrefix}_{req.TableName}_Select.sql",
@@ -95,6 +127,117 @@ public class SpBuilderService(ISchemaRepository schemaRepo, IProjectRepository p
         };
     }
 
+    private static GeneratedSpItem GenerateUpsertSp(SpGenerationRequest req, ISpTemplateRenderer renderer)
+    {
+        var opts = req.UpsertOptions ?? new UpsertSpOptions();
+        var code = renderer.RenderUpsert(req.SchemaName, req.TableName, req.Columns, opts);
+
+        var actions = new List<string>();
+        if (opts.UpdateWhenMatched) actions.Add("updates matching rows");
+        if (opts.InsertWhenNotMatched) actions.Add("inserts new rows");
+        var matchOn = opts.MatchColumns.Count != 0 ? string.Join(", ", opts.MatchColumns) : "primary key";
+
+        return new GeneratedSpItem
+        {
+            SpName = renderer.QualifiedName(req.SchemaName, $"{opts.SpPrefix}_{req.TableName}_Upsert"),
+            SpType = "Upsert",
+            Code = code,
+            FileName = $"{opts.SpPrefix}_{req.TableName}_Upsert.sql",
+            Description = $"MERGE upsert that {string.Join(" and ", actions)}. Matches on: {matchOn}"
+        };
+    }
+
+    private static GeneratedSpItem GenerateSoftDeleteSp(SpGenerationRequest req, GeneratedSpResponse response, ISpTemplateRenderer renderer)
+    {
+        var opts = req.SoftDeleteOptions ?? new SoftDeleteSpOptions();
+        // Either flag column is enough on its own; only warn when the table has neither
+        if (SpTemplateRendererUtilities.FindColumn(req.Columns, opts.IsDeletedColumn) == null
+            && SpTemplateRendererUtilities.FindColumn(req.Columns, opts.DeletedAtColumn) == null)
+        {
+            AddMissingColumnWarnings(req.Columns, response, opts.IsDeletedColumn, opts.DeletedAtColumn);
+        }
+        AddMissingColumnWarnings(req.Columns, response, opts.DeletedByColumn);
+        var code = renderer.RenderSoftDelete(req.SchemaName, req.TableName, req.Columns, opts);
+
+        return new GeneratedSpItem
+        {
+            SpName = renderer.QualifiedName(req.SchemaName, $"{opts.SpPrefix}_{req.TableName}_SoftDelete"),
+            SpType = "SoftDelete",
+            Code = code,
+            FileName = $"{opts.SpPrefix}_{req.TableName}_SoftDelete.sql",
+            Description = opts.GenerateRestore
+                ? $"Flags a row as deleted. Pass {renderer.ParameterRef("Restore")} = {(renderer.Dialect == SqlDialect.PostgreSql ? "TRUE" : "1")} to undo"
+                : "Flags a row as deleted instead of removing it"
+        };
+    }
+
+    private static GeneratedSpItem GenerateBulkTvpSp(SpGenerationRequest req, ISpTemplateRenderer renderer)
+    {
+        var opts = req.BulkTvpOptions ?? new BulkTvpSpOptions();
+        var code = renderer.RenderBulkTvp(req.SchemaName, req.TableName, req.Columns, opts);
+        var typeName = string.IsNullOrWhiteSpace(opts.TableTypeName) ? $"{req.TableName}TableType" : opts.TableTypeName.Trim();
+
+        var desc = opts.GenerateInsert && opts.GenerateUpdate
+            ? "Bulk insert/update"
+            : opts.GenerateInsert ? "Bulk insert" : "Bulk update";
+
+        return new GeneratedSpItem
+        {
+            SpName = renderer.QualifiedName(req.SchemaName, $"{opts.SpPrefix}_{req.TableName}_Bulk"),
+            SpType = "BulkTvp",
+            Code = code,
+            FileName = $"{opts.SpPrefix}_{req.TableName}_Bulk.sql",
+            Description = renderer.Dialect == SqlDialect.PostgreSql
+                ? $"{desc} from an array of the {renderer.QualifiedName(req.SchemaName, typeName)} composite type ({renderer.ParameterRef("Rows")})"
+                : $"{desc} from a [{req.SchemaName}].[{typeName}] table-valued parameter (@Rows)"
+        };
+    }
+
+    private static GeneratedSpItem GenerateBulkTvpTableType(SpGenerationRequest req, ISpTemplateRenderer renderer)
+    {
+        var opts = req.BulkTvpOptions ?? new BulkTvpSpOptions();
+        var typeName = string.IsNullOrWhiteSpace(opts.TableTypeName) ? $"{req.TableName}TableType" : opts.TableTypeName.Trim();
+
+        return new GeneratedSpItem
+        {
+            SpName = renderer.QualifiedName(req.SchemaName, typeName),
+            SpType = "TableType",
+            Code = renderer.RenderBulkTvpTableType(req.SchemaName, req.TableName, req.Columns, opts),
+            FileName = $"{typeName}.sql",
+            Description = renderer.Dialect == SqlDialect.PostgreSql
+                ? "Composite type for the bulk function's rows; create it before the function"
+                : "Table type for the bulk procedure's @Rows parameter; create it before the procedure"
+        };
+    }
+
+    private static GeneratedSpItem GenerateAuditSp(SpGenerationRequest req, GeneratedSpResponse response, ISpTemplateRenderer renderer)
+    {
+        var opts = req.AuditOptions ?? new AuditSpOptions();
+        AddMissingColumnWarnings(req.Columns, response,
+            opts.CreatedByColumn, opts.CreatedAtColumn, opts.ModifiedByColumn, opts.ModifiedAtColumn);
+        var code = renderer.RenderAudit(req.SchemaName, req.TableName, req.Columns, opts);
+
+        return new GeneratedSpItem
+        {
+            SpName = renderer.QualifiedName(req.SchemaName, $"{opts.SpPrefix}_{req.TableName}_Audit"),
+            SpType = "Audit",
+            Code = code,
+            FileName = $"{opts.SpPrefix}_{req.TableName}_Audit.sql",
+            Description = $"Create/Update that stamps audit columns from {renderer.ParameterRef(opts.UserParamName)}. Pass {renderer.ParameterRef(opts.ActionParamName)} = 'C'/'U'"
+        };
+    }
+
+    private static void AddMissingColumnWarnings(List<SpColumnConfig> cols, GeneratedSpResponse response, params string?[] columnNames)
+    {
+        foreach (var name in columnNames.Where(n => !string.IsNullOrWhiteSpace(n)))
+        {
+            if (SpTemplateRendererUtilities.FindColumn(cols, name) == null)
+            {
+                response.Warnings.Add($"⚠️ Column '{name}' not found on {response.TableName}; it will be skipped.");
+            }
+        }
+    }
+
     public async Task<TableSchemaResponse> GetTableSchema(TableSchemaRequest req)
     {
         // Use cached schema metadata instead of querying the target database
@@ -0,0 +1,86 @@
+namespace ActoEngine.WebApi.Features.SpBuilder;
+
+public static class SpConfigQueries
+{
+    private const string ConfigColumns = @"
+            c.ConfigId, c.ProjectId, c.SchemaName, c.TableName, c.Name, c.SpType, c.CurrentVersion,
+            c.CreatedBy, c.CreatedAt, c.UpdatedAt,
+            ISNULL(cu.FullName, cu.Username) AS CreatedByName,
+            ISNULL(uu.FullName, uu.Username) AS UpdatedByName";
+
+    public const string GetConfigsByProject = @"
+        SELECT" + ConfigColumns + @"
+        FROM SpBuilderConfigs c
+        LEFT JOIN Users cu ON cu.UserID = c.CreatedBy
+        LEFT JOIN Users uu ON uu.UserID = c.UpdatedBy
+        WHERE c.ProjectId = @ProjectId
+          AND (@SchemaName IS NULL OR c.SchemaName = @SchemaName)
+          AND (@TableName IS NULL OR c.TableName = @TableName)
+        ORDER BY c.SchemaName, c.TableName, c.Name";
+
+    public const string GetConfigById = @"
+        SELECT" + ConfigColumns + @"
+        FROM SpBuilderConfigs c
+        LEFT JOIN Users cu ON cu.UserID = c.CreatedBy
+        LEFT JOIN Users uu ON uu.UserID = c.UpdatedBy
+        WHERE c.ProjectId = @ProjectId AND c.ConfigId = @ConfigId";
+
+    public const string ConfigNameExists = @"
+        SELECT CASE WHEN EXISTS (
+            SELECT 1 FROM SpBuilderConfigs
+            WHERE ProjectId = @ProjectId AND SchemaName = @SchemaName AND TableName = @TableName
+              AND Name = @Name AND ConfigId <> ISNULL(@ExcludeConfigId, 0)
+        ) THEN 1 ELSE 0 END";
+
+    public const string InsertConfig = @"
+        INSERT INTO SpBuilderConfigs (ProjectId, SchemaName, TableName, Name, SpType, CurrentVersion, CreatedBy, CreatedAt)
+        OUTPUT INSERTED.ConfigId
+        VALUES (@ProjectId, @SchemaName, @TableName, @Name, @SpType, 1, @CreatedBy, GETUTCDATE())";
+
+    // Incrementing inside the UPDATE keeps concurrent saves from sharing a version number
+    public const string BumpConfigVersion = @"
+        UPDATE SpBuilderConfigs
+        SET Name = @Name,
+            SpType = @SpType,
+            CurrentVersion = CurrentVersion + 1,
+            UpdatedBy = @UpdatedBy,
+            UpdatedAt = GETUTCDATE()
+        OUTPUT INSERTED.CurrentVersion
+        WHERE ProjectId = @ProjectId AND ConfigId = @ConfigId";
+
+    public const string InsertVersion = @"
+        INSERT INTO SpBuilderConfigVersions (ConfigId, VersionNumber, ConfigJson, Note, CreatedBy, CreatedAt)
+        VALUES (@ConfigId, @VersionNumber, @ConfigJson, @Note, @CreatedBy, GETUTCDATE())";
+
+    private const string VersionColumns = @"
+            v.ConfigId, v.VersionNumber, v.ConfigJson, v.Note, v.CreatedBy, v.CreatedAt,
+            ISNULL(u.FullName, u.Username) AS CreatedByName";
+
+    public const string GetVersion = @"
+        SELECT" + VersionColumns + @"
+        FROM SpBuilderConfigVersions v
+        INNER JOIN SpBuilderConfigs c ON c.ConfigId = v.ConfigId
+        LEFT JOIN Users u ON u.UserID = v.CreatedBy
+        WHERE c.ProjectId = @ProjectId AND v.ConfigId = @ConfigId
+          AND v.VersionNumber = ISNULL(@VersionNumber, c.CurrentVersion)";
+
+    public const string GetVersions = @"
+        SELECT v.VersionNumber, v.Note, v.CreatedAt,
+               ISNULL(u.FullName, u.Username) AS CreatedByName
+        FROM SpBuilderConfigVersions v
+        INNER JOIN SpBuilderConfigs c ON c.ConfigId = v.ConfigId
+        LEFT JOIN Users u ON u.UserID = v.CreatedBy
+        WHERE c.ProjectId = @ProjectId AND v.ConfigId = @ConfigId
+        ORDER BY v.VersionNumber DESC";
+
+    public const string GetCurrentVersionsByProject = @"
+        SELECT" + VersionColumns + @"
+        FROM SpBuilderConfigVersions v
+        INNER JOIN SpBuilderConfigs c ON c.ConfigId = v.ConfigId AND v.VersionNumber = c.CurrentVersion
+        LEFT JOIN Users u ON u.UserID = v.CreatedBy
+        WHERE c.ProjectId = @ProjectId";
+
+    public const string DeleteConfig = @"
+        DELETE FROM SpBuilderConfigs
+        WHERE ProjectId = @ProjectId AND ConfigId = @ConfigId";
+}
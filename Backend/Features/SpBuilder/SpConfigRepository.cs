@@ -0,0 +1,141 @@
+using ActoEngine.WebApi.Infrastructure.Database;
+using ActoEngine.WebApi.Shared;
+using Dapper;
+
+namespace ActoEngine.WebApi.Features.SpBuilder;
+
+public interface ISpConfigRepository
+{
+    Task<List<SpConfigRow>> GetByProjectAsync(int projectId, string? schemaName = null, string? tableName = null, CancellationToken cancellationToken = default);
+    Task<SpConfigRow?> GetByIdAsync(int projectId, int configId, CancellationToken cancellationToken = default);
+    Task<bool> NameExistsAsync(int projectId, string schemaName, string tableName, string name, int? excludeConfigId = null, CancellationToken cancellationToken = default);
+    Task<int> CreateAsync(int projectId, string schemaName, string tableName, string name, string spType, string configJson, string? note, int userId, CancellationToken cancellationToken = default);
+    Task<int?> AddVersionAsync(int projectId, int configId, string name, string spType, string configJson, string? note, int userId, CancellationToken cancellationToken = default);
+    Task<SpConfigVersionRow?> GetVersionAsync(int projectId, int configId, int? versionNumber = null, CancellationToken cancellationToken = default);
+    Task<List<SpConfigVersionItem>> GetVersionsAsync(int projectId, int configId, CancellationToken cancellationToken = default);
+    Task<List<SpConfigVersionRow>> GetCurrentVersionsAsync(int projectId, CancellationToken cancellationToken = default);
+    Task<bool> DeleteAsync(int projectId, int configId, CancellationToken cancellationToken = default);
+}
+
+public class SpConfigRepository(
+    IDbConnectionFactory connectionFactory,
+    ILogger<SpConfigRepository> logger)
+    : BaseRepository(connectionFactory, logger), ISpConfigRepository
+{
+    public async Task<List<SpConfigRow>> GetByProjectAsync(
+        int projectId, string? schemaName = null, string? tableName = null, CancellationToken cancellationToken = default)
+    {
+        var result = await QueryAsync<SpConfigRow>(
+            SpConfigQueries.GetConfigsByProject,
+            new { ProjectId = projectId, SchemaName = schemaName, TableName = tableName },
+            cancellationToken);
+        return [.. result];
+    }
+
+    public async Task<SpConfigRow?> GetByIdAsync(int projectId, int configId, CancellationToken cancellationToken = default)
+    {
+        return await QueryFirstOrDefaultAsync<SpConfigRow>(
+            SpConfigQueries.GetConfigById,
+            new { ProjectId = projectId, ConfigId = configId },
+            cancellationToken);
+    }
+
+    public async Task<bool> NameExistsAsync(
+        int projectId, string schemaName, string tableName, string name, int? excludeConfigId = null, CancellationToken cancellationToken = default)
+    {
+        var exists = await ExecuteScalarAsync<int>(
+            SpConfigQueries.ConfigNameExists,
+            new { ProjectId = projectId, SchemaName = schemaName, TableName = tableName, Name = name, ExcludeConfigId = excludeConfigId },
+            cancellationToken);
+        return exists == 1;
+    }
+
+    public async Task<int> CreateAsync(
+        int projectId, string schemaName, string tableName, string name, string spType, string configJson, string? note, int userId,
+        CancellationToken cancellationToken = default)
+    {
+        return await ExecuteInTransactionAsync(async (connection, transaction) =>
+        {
+            var configId = await connection.QuerySingleAsync<int>(
+                new CommandDefinition(
+                    SpConfigQueries.InsertConfig,
+                    new { ProjectId = projectId, SchemaName = schemaName, TableName = tableName, Name = name, SpType = spType, CreatedBy = userId },
+                    transaction,
+                    cancellationToken: cancellationToken));
+
+            await connection.ExecuteAsync(
+                new CommandDefinition(
+                    SpConfigQueries.InsertVersion,
+                    new { ConfigId = configId, VersionNumber = 1, ConfigJson = configJson, Note = note, CreatedBy = userId },
+                    transaction,
+                    cancellationToken: cancellationToken));
+
+            return configId;
+        }, cancellationToken);
+    }
+
+    /// <summary>
+    /// Appends a version and makes it current; returns the new version number, or null when the config does not exist
+    /// </summary>
+    public async Task<int?> AddVersionAsync(
+        int projectId, int configId, string name, string spType, string configJson, string? note, int userId,
+        CancellationToken cancellationToken = default)
+    {
+        return await ExecuteInTransactionAsync(async (connection, transaction) =>
+        {
+            var version = await connection.QuerySingleOrDefaultAsync<int?>(
+                new CommandDefinition(
+                    SpConfigQueries.BumpConfigVersion,
+                    new { ProjectId = projectId, ConfigId = configId, Name = name, SpType = spType, UpdatedBy = userId },
+                    transaction,
+                    cancellationToken: cancellationToken));
+
+            if (version == null) return null;
+
+            await connection.ExecuteAsync(
+                new CommandDefinition(
+                    SpConfigQueries.InsertVersion,
+                    new { ConfigId = configId, VersionNumber = version, ConfigJson = configJson, Note = note, CreatedBy = userId },
+                    transaction,
+                    cancellationToken: cancellationToken));
+
+            return version;
+        }, cancellationToken);
+    }
+
+    public async Task<SpConfigVersionRow?> GetVersionAsync(
+        int projectId, int configId, int? versionNumber = null, CancellationToken cancellationToken = default)
+    {
+        return await QueryFirstOrDefaultAsync<SpConfigVersionRow>(
+            SpConfigQueries.GetVersion,
+            new { ProjectId = projectId, ConfigId = configId, VersionNumber = versionNumber },
+            cancellationToken);
+    }
+
+    public async Task<List<SpConfigVersionItem>> GetVersionsAsync(int projectId, int configId, CancellationToken cancellationToken = default)
+    {
+        var result = await QueryAsync<SpConfigVersionItem>(
+            SpConfigQueries.GetVersions,
+            new { ProjectId = projectId, ConfigId = configId },
+            cancellationToken);
+        return [.. result];
+    }
+
+    public async Task<List<SpConfigVersionRow>> GetCurrentVersionsAsync(int projectId, CancellationToken cancellationToken = default)
+    {
+        var result = await QueryAsync<SpConfigVersionRow>(
+            SpConfigQueries.GetCurrentVersionsByProject,
+            new { ProjectId = projectId },
+            cancellationToken);
+        return [.. result];
+    }
+
+    public async Task<bool> DeleteAsync(int projectId, int configId, CancellationToken cancellationToken = default)
+    {
+        var rows = await ExecuteAsync(
+            SpConfigQueries.DeleteConfig,
+            new { ProjectId = projectId, ConfigId = configId },
+            cancellationToken);
+        return rows > 0;
+    }
+}
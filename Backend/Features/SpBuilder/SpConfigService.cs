@@ -0,0 +1,465 @@
+using System.Text.Json;
+using ActoEngine.WebApi.Features.Projects;
+using ActoEngine.WebApi.Features.Schema;
+
+namespace ActoEngine.WebApi.Features.SpBuilder;
+
+/// <summary>
+/// Service contract for saved SP Builder configurations
+/// </summary>
+public interface ISpConfigService
+{
+    Task<List<SpConfigListItem>> GetConfigsAsync(int projectId, string? schemaName = null, string? tableName = null, CancellationToken cancellationToken = default);
+    Task<SpConfigResponse?> GetConfigAsync(int projectId, int configId, int? version = null, CancellationToken cancellationToken = default);
+    Task<List<SpConfigVersionItem>?> GetVersionsAsync(int projectId, int configId, CancellationToken cancellationToken = default);
+    Task<SpConfigResponse> CreateConfigAsync(int projectId, SaveSpConfigRequest request, int userId, CancellationToken cancellationToken = default);
+    Task<SpConfigResponse?> SaveVersionAsync(int projectId, int configId, SaveSpConfigRequest request, int userId, CancellationToken cancellationToken = default);
+    Task<bool> DeleteConfigAsync(int projectId, int configId, int userId, bool isAdmin, CancellationToken cancellationToken = default);
+    Task<RegenerateSpConfigsResponse> RegenerateAsync(int projectId, RegenerateSpConfigsRequest request, CancellationToken cancellationToken = default);
+}
+
+/// <summary>
+/// Stores named SP Builder configurations per project and table. Every save appends a
+/// version, so any project member can iterate on a configuration without losing earlier
+/// ones; only its creator or an admin can delete it.
+/// </summary>
+public class SpConfigService(
+    ISpConfigRepository repository,
+    ISpBuilderService spBuilder,
+    ISchemaRepository schemaRepo,
+    IProjectRepository projectRepo,
+    ILogger<SpConfigService> logger) : ISpConfigService
+{
+    private static readonly JsonSerializerOptions JsonOptions = new(JsonSerializerDefaults.Web);
+
+    public async Task<List<SpConfigListItem>> GetConfigsAsync(
+        int projectId, string? schemaName = null, string? tableName = null, CancellationToken cancellationToken = default)
+    {
+        var rows = await repository.GetByProjectAsync(
+            projectId, NullIfBlank(schemaName), NullIfBlank(tableName), cancellationToken);
+        return [.. rows.Select(row => Fill(new SpConfigListItem(), row))];
+    }
+
+    public async Task<SpConfigResponse?> GetConfigAsync(
+        int projectId, int configId, int? version = null, CancellationToken cancellationToken = default)
+    {
+        var row = await repository.GetByIdAsync(projectId, configId, cancellationToken);
+        if (row == null) return null;
+
+        var versionRow = await repository.GetVersionAsync(projectId, configId, version, cancellationToken);
+        if (versionRow == null) return null;
+
+        var response = Fill(new SpConfigResponse(), row);
+        response.ProjectId = row.ProjectId;
+        response.Version = versionRow.VersionNumber;
+        response.Note = versionRow.Note;
+        response.Config = Deserialize(versionRow) ?? new();
+        return response;
+    }
+
+    public async Task<List<SpConfigVersionItem>?> GetVersionsAsync(int projectId, int configId, CancellationToken cancellationToken = default)
+    {
+        var row = await repository.GetByIdAsync(projectId, configId, cancellationToken);
+        return row == null ? null : await repository.GetVersionsAsync(projectId, configId, cancellationToken);
+    }
+
+    public async Task<SpConfigResponse> CreateConfigAsync(
+        int projectId, SaveSpConfigRequest request, int userId, CancellationToken cancellationToken = default)
+    {
+        var name = request.Name.Trim();
+        var schemaName = request.SchemaName.Trim();
+        var tableName = request.TableName.Trim();
+        var config = NormalizeConfig(request.Config);
+
+        if (await repository.NameExistsAsync(projectId, schemaName, tableName, name, null, cancellationToken))
+        {
+            throw new InvalidOperationException($"A configuration named '{name}' already exists for {schemaName}.{tableName}.");
+        }
+
+        var configId = await repository.CreateAsync(
+            projectId, schemaName, tableName, name, config.Type.ToString(),
+            JsonSerializer.Serialize(config, JsonOptions), NullIfBlank(request.Note), userId, cancellationToken);
+        logger.LogInformation("Created SP Builder config {ConfigId} for {Schema}.{Table} in project {ProjectId} by user {UserId}",
+            configId, schemaName, tableName, projectId, userId);
+
+        return await GetConfigAsync(projectId, configId, null, cancellationToken)
+            ?? throw new InvalidOperationException($"Created configuration {configId} could not be loaded.");
+    }
+
+    public async Task<SpConfigResponse?> SaveVersionAsync(
+        int projectId, int configId, SaveSpConfigRequest request, int userId, CancellationToken cancellationToken = default)
+    {
+        var existing = await repository.GetByIdAsync(projectId, configId, cancellationToken);
+        if (existing == null) return null;
+
+        // A configuration belongs to one table; saving it for another is a new configuration
+        if (!string.Equals(existing.SchemaName, request.SchemaName.Trim(), StringComparison.OrdinalIgnoreCase)
+            || !string.Equals(existing.TableName, request.TableName.Trim(), StringComparison.OrdinalIgnoreCase))
+        {
+            throw new ArgumentException(
+                $"Configuration '{existing.Name}' belongs to {existing.SchemaName}.{existing.TableName}; save it under a new name instead.");
+        }
+
+        var name = request.Name.Trim();
+        var config = NormalizeConfig(request.Config);
+
+        if (await repository.NameExistsAsync(projectId, existing.SchemaName, existing.TableName, name, configId, cancellationToken))
+        {
+            throw new InvalidOperationException($"A configuration named '{name}' already exists for {existing.SchemaName}.{existing.TableName}.");
+        }
+
+        var version = await repository.AddVersionAsync(
+            projectId, configId, name, config.Type.ToString(),
+            JsonSerializer.Serialize(config, JsonOptions), NullIfBlank(request.Note), userId, cancellationToken);
+        if (version == null) return null;
+
+        logger.LogInformation("Saved version {Version} of SP Builder config {ConfigId} in project {ProjectId} by user {UserId}",
+            version, configId, projectId, userId);
+        return await GetConfigAsync(projectId, configId, version, cancellationToken);
+    }
+
+    public async Task<bool> DeleteConfigAsync(int projectId, int configId, int userId, bool isAdmin, CancellationToken cancellationToken = default)
+    {
+        var existing = await repository.GetByIdAsync(projectId, configId, cancellationToken);
+        if (existing == null) return false;
+
+        if (existing.CreatedBy != userId && !isAdmin)
+        {
+            logger.LogWarning("User {UserId} attempted to delete SP Builder config {ConfigId} owned by {OwnerId}",
+                userId, configId, existing.CreatedBy);
+            return false;
+        }
+
+        return await repository.DeleteAsync(projectId, configId, cancellationToken);
+    }
+
+    /// <summary>
+    /// Regenerate saved configurations against the current stored schema. Configurations whose
+    /// referenced tables or columns are gone, whose options the renderer now rejects, or whose
+    /// saved version cannot be read are reported as invalid instead of producing SQL.
+    /// </summary>
+    public async Task<RegenerateSpConfigsResponse> RegenerateAsync(
+        int projectId, RegenerateSpConfigsRequest request, CancellationToken cancellationToken = default)
+    {
+        var project = await projectRepo.GetByIdAsync(projectId);
+        var configs = await repository.GetByProjectAsync(projectId, null, null, cancellationToken);
+        var versions = (await repository.GetCurrentVersionsAsync(projectId, cancellationToken))
+            .ToDictionary(v => v.ConfigId);
+
+        if (request.ConfigIds.Count > 0)
+        {
+            configs = [.. configs.Where(c => request.ConfigIds.Contains(c.ConfigId))];
+        }
+
+        // Configurations for the same table, and joins to it, share one schema lookup
+        var schemas = new Dictionary<(string Schema, string Table), TableSchemaResponse?>();
+        var results = new List<SpConfigRegenerationResult>();
+
+        foreach (var row in configs)
+        {
+            cancellationToken.ThrowIfCancellationRequested();
+            if (!versions.TryGetValue(row.ConfigId, out var versionRow)) continue;
+
+            results.Add(await RegenerateOneAsync(projectId, row, versionRow, schemas));
+        }
+
+        return new RegenerateSpConfigsResponse
+        {
+            Dialect = SpTemplateRendererUtilities.ResolveDialect(project?.DatabaseType),
+            Results = results,
+            GeneratedAt = DateTime.UtcNow
+        };
+    }
+
+    private async Task<SpConfigRegenerationResult> RegenerateOneAsync(
+        int projectId,
+        SpConfigRow row,
+        SpConfigVersionRow versionRow,
+        Dictionary<(string Schema, string Table), TableSchemaResponse?> schemas)
+    {
+        var config = Deserialize(versionRow);
+        var result = new SpConfigRegenerationResult
+        {
+            ConfigId = row.ConfigId,
+            Name = row.Name,
+            SchemaName = row.SchemaName,
+            TableName = row.TableName,
+            Type = config?.Type ?? (Enum.TryParse<SpType>(row.SpType, out var type) ? type : SpType.Cud),
+            Version = versionRow.VersionNumber
+        };
+
+        // Empty options would silently regenerate as a default CUD procedure
+        if (config == null)
+        {
+            result.Status = SpConfigRegenerationStatus.Invalid;
+            result.Errors.Add($"Version {versionRow.VersionNumber} of this configuration could not be read.");
+            return result;
+        }
+
+        var schema = await GetSchemaAsync(projectId, row.SchemaName, row.TableName, schemas);
+        if (schema == null)
+        {
+            result.Status = SpConfigRegenerationStatus.Invalid;
+            result.Errors.Add($"Table {row.SchemaName}.{row.TableName} is no longer in the synced schema.");
+            return result;
+        }
+
+        var columns = ApplyColumnOverrides(SpTemplateRendererUtilities.MapSchemaToColumns(schema), config.Columns);
+        var current = columns.ToDictionary(c => c.ColumnName, StringComparer.OrdinalIgnoreCase);
+        var saved = config.Columns
+            .GroupBy(c => c.ColumnName, StringComparer.OrdinalIgnoreCase)
+            .ToDictionary(g => g.Key, g => g.First(), StringComparer.OrdinalIgnoreCase);
+
+        result.AddedColumns = [.. current.Keys.Where(name => !saved.ContainsKey(name))];
+        result.RemovedColumns = [.. saved.Keys.Where(name => !current.ContainsKey(name))];
+        result.RetypedColumns = [.. saved.Values
+            .Where(c => !string.IsNullOrEmpty(c.DataType)
+                && current.TryGetValue(c.ColumnName, out var col)
+                && !string.Equals(c.DataType, col.DataType, StringComparison.OrdinalIgnoreCase))
+            .Select(c => $"{c.ColumnName} ({c.DataType} → {current[c.ColumnName].DataType})")];
+
+        var joinedColumns = new Dictionary<string, IReadOnlyCollection<string>?>(StringComparer.OrdinalIgnoreCase);
+        foreach (var join in config.SelectOptions?.Joins ?? [])
+        {
+            var joinedSchema = await GetSchemaAsync(projectId, join.SchemaName, join.TableName, schemas);
+            joinedColumns[join.Alias] = joinedSchema?.Columns.Select(c => c.ColumnName).ToList();
+        }
+
+        var missing = FindMissingReferences(config, saved.Keys, current.Keys, joinedColumns);
+        if (missing.Count > 0)
+        {
+            result.Status = SpConfigRegenerationStatus.Invalid;
+            result.Errors.AddRange(missing);
+            return result;
+        }
+
+        try
+        {
+            var generated = await spBuilder.GenerateStoredProcedure(new SpGenerationRequest
+            {
+                ProjectId = projectId,
+                TableName = row.TableName,
+                SchemaName = row.SchemaName,
+                Type = config.Type,
+                Columns = columns,
+                CudOptions = config.CudOptions,
+                SelectOptions = config.SelectOptions,
+                UpsertOptions = config.UpsertOptions,
+                SoftDeleteOptions = config.SoftDeleteOptions,
+                BulkTvpOptions = config.BulkTvpOptions,
+                AuditOptions = config.AuditOptions
+            });
+
+            result.StoredProcedure = generated.StoredProcedure;
+            result.TableType = generated.TableType;
+            result.Warnings = generated.Warnings;
+        }
+        catch (ArgumentException ex)
+        {
+            result.Status = SpConfigRegenerationStatus.Invalid;
+            result.Errors.Add(ex.Message);
+            return result;
+        }
+
+        result.Status = result.AddedColumns.Count > 0 || result.RemovedColumns.Count > 0 || result.RetypedColumns.Count > 0
+            ? SpConfigRegenerationStatus.Changed
+            : SpConfigRegenerationStatus.Ok;
+        return result;
+    }
+
+    private async Task<TableSchemaResponse?> GetSchemaAsync(
+        int projectId,
+        string schemaName,
+        string tableName,
+        Dictionary<(string Schema, string Table), TableSchemaResponse?> schemas)
+    {
+        var key = (schemaName.ToLowerInvariant(), tableName.ToLowerInvariant());
+        if (!schemas.TryGetValue(key, out var schema))
+        {
+            schema = await LoadSchemaAsync(projectId, schemaName, tableName);
+            schemas[key] = schema;
+        }
+
+        return schema;
+    }
+
+    private async Task<TableSchemaResponse?> LoadSchemaAsync(int projectId, string schemaName, string tableName)
+    {
+        try
+        {
+            return await schemaRepo.GetStoredTableSchemaAsync(projectId, tableName, schemaName);
+        }
+        catch (InvalidOperationException ex)
+        {
+            logger.LogInformation(ex, "Table {Schema}.{Table} not found while regenerating SP Builder configs in project {ProjectId}",
+                schemaName, tableName, projectId);
+            return null;
+        }
+    }
+
+    /// <summary>
+    /// Keep the saved create/update choices for columns that still exist; new columns get the defaults
+    /// </summary>
+    internal static List<SpColumnConfig> ApplyColumnOverrides(List<SpColumnConfig> columns, List<SavedSpColumn> saved)
+    {
+        foreach (var col in columns)
+        {
+            var match = saved.FirstOrDefault(s => string.Equals(s.ColumnName, col.ColumnName, StringComparison.OrdinalIgnoreCase));
+            if (match != null)
+            {
+                col.IncludeInCreate = match.IncludeInCreate;
+                col.IncludeInUpdate = match.IncludeInUpdate;
+            }
+        }
+
+        return columns;
+    }
+
+    /// <summary>
+    /// Tables and column names the options depend on that no longer exist. Optional audit and
+    /// soft-delete columns only count when they existed at save time, since those options name
+    /// columns a table may legitimately lack. <paramref name="joinedColumns"/> holds the current
+    /// columns of each joined table by join alias, or null when the table itself is gone.
+    /// </summary>
+    internal static List<string> FindMissingReferences(
+        SavedSpConfig config,
+        IEnumerable<string> savedColumns,
+        IEnumerable<string> currentColumns,
+        IReadOnlyDictionary<string, IReadOnlyCollection<string>?> joinedColumns)
+    {
+        var saved = new HashSet<string>(savedColumns, StringComparer.OrdinalIgnoreCase);
+        var current = new HashSet<string>(currentColumns, StringComparer.OrdinalIgnoreCase);
+        var missing = new List<string>();
+
+        void Require(string? column, string usage)
+        {
+            if (!string.IsNullOrWhiteSpace(column) && !current.Contains(column.Trim()))
+            {
+                missing.Add($"{usage} column '{column.Trim()}' no longer exists.");
+            }
+        }
+
+        void RequireIfSaved(string? column, string usage)
+        {
+            if (!string.IsNullOrWhiteSpace(column) && saved.Contains(column.Trim()))
+            {
+                Require(column, usage);
+            }
+        }
+
+        switch (config.Type)
+        {
+            case SpType.Select when config.SelectOptions != null:
+                var select = config.SelectOptions;
+                select.Filters.ForEach(f => Require(f.ColumnName, "Filter"));
+                select.OrderByColumns.ForEach(c => Require(c, "Order by"));
+                select.Joins.ForEach(j => j.On.ForEach(on => Require(on.BaseColumn, $"Join '{j.Alias}'")));
+                select.OutputColumns
+                    .Where(o => string.IsNullOrWhiteSpace(o.Source) && string.IsNullOrWhiteSpace(o.Expression))
+                    .ToList()
+                    .ForEach(o => Require(o.ColumnName, "Output"));
+                foreach (var join in select.Joins)
+                {
+                    if (!joinedColumns.TryGetValue(join.Alias, out var joined) || joined == null)
+                    {
+                        missing.Add($"Joined table {join.SchemaName}.{join.TableName} ('{join.Alias}') is no longer in the synced schema.");
+                        continue;
+                    }
+
+                    var joinedSet = new HashSet<string>(joined, StringComparer.OrdinalIgnoreCase);
+                    void RequireJoined(string? column, string usage)
+                    {
+                        if (!string.IsNullOrWhiteSpace(column) && !joinedSet.Contains(column.Trim()))
+                        {
+                            missing.Add($"{usage} column '{join.Alias}.{column.Trim()}' no longer exists.");
+                        }
+                    }
+
+                    join.On.ForEach(on => RequireJoined(on.JoinColumn, $"Join '{join.Alias}'"));
+                    select.OutputColumns
+                        .Where(o => string.Equals(o.Source?.Trim(), join.Alias, StringComparison.OrdinalIgnoreCase)
+                            && string.IsNullOrWhiteSpace(o.Expression))
+                        .ToList()
+                        .ForEach(o => RequireJoined(o.ColumnName, "Output"));
+                }
+                break;
+            case SpType.Upsert when config.UpsertOptions != null:
+                config.UpsertOptions.MatchColumns.ForEach(c => Require(c, "Match"));
+                break;
+            case SpType.SoftDelete when config.SoftDeleteOptions != null:
+                RequireIfSaved(config.SoftDeleteOptions.IsDeletedColumn, "Soft delete flag");
+                RequireIfSaved(config.SoftDeleteOptions.DeletedAtColumn, "Soft delete timestamp");
+                RequireIfSaved(config.SoftDeleteOptions.DeletedByColumn, "Soft delete user");
+                break;
+            case SpType.Audit when config.AuditOptions != null:
+                RequireIfSaved(config.AuditOptions.CreatedByColumn, "Audit");
+                RequireIfSaved(config.AuditOptions.CreatedAtColumn, "Audit");
+                RequireIfSaved(config.AuditOptions.ModifiedByColumn, "Audit");
+                RequireIfSaved(config.AuditOptions.ModifiedAtColumn, "Audit");
+                break;
+        }
+
+        return missing;
+    }
+
+    /// <summary>
+    /// Drop options that do not belong to the configuration's SP type and blank column entries
+    /// </summary>
+    internal static SavedSpConfig NormalizeConfig(SavedSpConfig config)
+    {
+        if (!Enum.IsDefined(config.Type))
+        {
+            throw new ArgumentException($"Unsupported SP type '{config.Type}'.");
+        }
+
+        return new SavedSpConfig
+        {
+            Type = config.Type,
+            Columns = [.. config.Columns.Where(c => !string.IsNullOrWhiteSpace(c.ColumnName))],
+            CudOptions = config.Type == SpType.Cud ? config.CudOptions ?? new() : null,
+            SelectOptions = config.Type == SpType.Select ? config.SelectOptions ?? new() : null,
+            UpsertOptions = config.Type == SpType.Upsert ? config.UpsertOptions ?? new() : null,
+            SoftDeleteOptions = config.Type == SpType.SoftDelete ? config.SoftDeleteOptions ?? new() : null,
+            BulkTvpOptions = config.Type == SpType.BulkTvp ? config.BulkTvpOptions ?? new() : null,
+            AuditOptions = config.Type == SpType.Audit ? config.AuditOptions ?? new() : null,
+            EditorState = config.EditorState
+        };
+    }
+
+    /// <summary>
+    /// The saved options, or null when the stored JSON cannot be read
+    /// </summary>
+    private SavedSpConfig? Deserialize(SpConfigVersionRow row)
+    {
+        try
+        {
+            return JsonSerializer.Deserialize<SavedSpConfig>(row.ConfigJson, JsonOptions);
+        }
+        catch (JsonException ex)
+        {
+            logger.LogWarning(ex, "Version {Version} of SP Builder config {ConfigId} is unreadable",
+                row.VersionNumber, row.ConfigId);
+            return null;
+        }
+    }
+
+    private static T Fill<T>(T item, SpConfigRow row) where T : SpConfigListItem
+    {
+        item.ConfigId = row.ConfigId;
+        item.SchemaName = row.SchemaName;
+        item.TableName = row.TableName;
+        item.Name = row.Name;
+        item.Type = Enum.TryParse<SpType>(row.SpType, out var type) ? type : SpType.Cud;
+        item.CurrentVersion = row.CurrentVersion;
+        item.CreatedByName = row.CreatedByName;
+        item.UpdatedByName = row.UpdatedByName;
+        item.CreatedAt = row.CreatedAt;
+        item.UpdatedAt = row.UpdatedAt;
+        return item;
+    }
+
+    private static string? NullIfBlank(string? value)
+    {
+        return string.IsNullOrWhiteSpace(value) ? null : value.Trim();
+    }
+}
@@ -19,7 +19,7 @@ public class SpSelectRenderer
 
         if (orderByCols.Count == 0)
         {
-            var firstCol = cols.FirstOrDefault() ?? throw new InvalidOperationException("Cannot determine ORDER BY columns because no columns were provided.");
+            var firstCol = cols.FirstOrDefault() ?? throw new ArgumentException("Cannot determine ORDER BY columns because no columns were provided.");
             orderByCols.Add(firstCol.ColumnName); // Fallback
         }
 
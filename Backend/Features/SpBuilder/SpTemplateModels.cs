@@ -1,3 +1,5 @@
+using System.ComponentModel.DataAnnotations;
+using System.Text.Json;
 using System.Text.Json.Serialization;
 
 namespace ActoEngine.WebApi.Features.SpBuilder;
@@ -5,8 +7,19 @@ namespace ActoEngine.WebApi.Features.SpBuilder;
 [JsonConverter(typeof(JsonStringEnumConverter))]
 public enum SpType
 {
-    Cud,       // Create, Update, Delete in ONE SP
-    Select     // Select with filters / reports
+    Cud,        // Create, Update, Delete in ONE SP
+    Select,     // Select with filters / reports
+    Upsert,     // MERGE-based insert or update
+    SoftDelete, // Flag rows as deleted instead of removing them
+    BulkTvp,    // Bulk insert/update from a table-valued parameter
+    Audit       // Create/Update that stamps audit columns
+}
+
+[JsonConverter(typeof(JsonStringEnumConverter))]
+public enum SqlDialect
+{
+    SqlServer,  // T-SQL stored procedures
+    PostgreSql  // PL/pgSQL functions
 }
 
 public class SpGenerationRequest
@@ -23,6 +36,10 @@ public class SpGenerationRequest
     public required List<SpColumnConfig> Columns { get; set; }
     public CudSpOptions? CudOptions { get; set; }
     public SelectSpOptions? SelectOptions { get; set; }
+    public UpsertSpOptions? UpsertOptions { get; set; }
+    public SoftDeleteSpOptions? SoftDeleteOptions { get; set; }
+    public BulkTvpSpOptions? BulkTvpOptions { get; set; }
+    public AuditSpOptions? AuditOptions { get; set; }
 }
 
 public class CudSpOptions
@@ -42,6 +59,89 @@ public class SelectSpOptions
     public List<FilterColumn> Filters { get; set; } = [];
     public List<string> OrderByColumns { get; set; } = [];
     public bool IncludePagination { get; set; } = false;
+    public bool UseKeysetPagination { get; set; } = false; // Seek on OrderByColumns instead of OFFSET/FETCH
+    public bool? IncludeTotalCount { get; set; } // Second result set; null = only with offset pagination
+    public List<SelectJoin> Joins { get; set; } = [];
+    public List<SelectOutputColumn> OutputColumns { get; set; } = []; // Empty = every base table column
+    public List<string> SortableColumns { get; set; } = []; // Whitelist for @SortColumn, by output name
+}
+
+public class SelectJoin
+{
+    public required string TableName { get; set; }
+    public string SchemaName { get; set; } = "dbo";
+    public required string Alias { get; set; }
+    public SelectJoinType JoinType { get; set; } = SelectJoinType.Inner;
+    public required List<SelectJoinCondition> On { get; set; }
+}
+
+public class SelectJoinCondition
+{
+    public required string BaseColumn { get; set; }
+    public required string JoinColumn { get; set; }
+}
+
+[JsonConverter(typeof(JsonStringEnumConverter))]
+public enum SelectJoinType
+{
+    Inner,
+    Left
+}
+
+public class SelectOutputColumn
+{
+    public string? Source { get; set; } // Join alias; empty = base table
+    public string? ColumnName { get; set; }
+    public string? Expression { get; set; } // Computed column; requires Alias
+    public string? Alias { get; set; }
+    public string? DataType { get; set; } // Joined column type; PostgreSQL declares it in RETURNS TABLE
+}
+
+public class UpsertSpOptions
+{
+    public string SpPrefix { get; set; } = "usp";
+    public bool IncludeErrorHandling { get; set; } = true;
+    public bool IncludeTransaction { get; set; } = true;
+    public List<string> MatchColumns { get; set; } = []; // Empty = primary key
+    public bool UpdateWhenMatched { get; set; } = true;
+    public bool InsertWhenNotMatched { get; set; } = true;
+    public bool OutputAction { get; set; } = false; // OUTPUT $action AS MergeAction
+}
+
+public class SoftDeleteSpOptions
+{
+    public string SpPrefix { get; set; } = "usp";
+    public bool IncludeErrorHandling { get; set; } = true;
+    public bool IncludeTransaction { get; set; } = true;
+    public string IsDeletedColumn { get; set; } = "IsDeleted";
+    public string DeletedAtColumn { get; set; } = "DeletedAt";
+    public string? DeletedByColumn { get; set; } // Optional; adds @DeletedBy
+    public bool GenerateRestore { get; set; } = true; // Adds @Restore BIT = 0
+}
+
+public class BulkTvpSpOptions
+{
+    public string SpPrefix { get; set; } = "usp";
+    public bool IncludeErrorHandling { get; set; } = true;
+    public bool IncludeTransaction { get; set; } = true;
+    public string? TableTypeName { get; set; } // Empty = {TableName}TableType
+    public bool GenerateTableType { get; set; } = true; // Also return the CREATE TYPE as GeneratedSpResponse.TableType
+    public bool GenerateInsert { get; set; } = true;
+    public bool GenerateUpdate { get; set; } = true;
+}
+
+public class AuditSpOptions
+{
+    public string SpPrefix { get; set; } = "usp";
+    public bool IncludeErrorHandling { get; set; } = true;
+    public bool IncludeTransaction { get; set; } = true;
+    public string ActionParamName { get; set; } = "Action"; // 'C', 'U'
+    public string UserParamName { get; set; } = "UserId";
+    public string? CreatedByColumn { get; set; } = "CreatedBy";
+    public string? CreatedAtColumn { get; set; } = "CreatedAt";
+    public string? ModifiedByColumn { get; set; } = "ModifiedBy";
+    public string? ModifiedAtColumn { get; set; } = "ModifiedAt";
+    public bool UseUtc { get; set; } = true; // SYSUTCDATETIME() vs SYSDATETIME()
 }
 
 public class FilterColumn
@@ -81,7 +181,9 @@ public class GeneratedSpResponse
 {
     public required string TableName { get; set; }
     public SpType Type { get; set; }
+    public SqlDialect Dialect { get; set; } // From the project's DatabaseType
     public GeneratedSpItem? StoredProcedure { get; set; }
+    public GeneratedSpItem? TableType { get; set; } // BulkTvp only: its own batch, deployed before the procedure
     public required List<string> Warnings { get; set; }
     public DateTime GeneratedAt { get; set; }
 }
@@ -89,7 +191,7 @@ public class GeneratedSpResponse
 public class GeneratedSpItem
 {
     public required string SpName { get; set; }
-    public required string SpType { get; set; } // "CUD" or "Select"
+    public required string SpType { get; set; } // "CUD", "Select", "Upsert", "SoftDelete", "BulkTvp", "Audit" or "TableType"
     public required string Code { get; set; }
     public required string FileName { get; set; }
     public required string Description { get; set; }
@@ -109,4 +211,155 @@ public class QuickGenerateRequest
     public SpType Type { get; set; }
     public CudSpOptions? CudOptions { get; set; }
     public SelectSpOptions? SelectOptions { get; set; }
-}
\ No newline at end of file
+}
+
+// ============================================
+// Saved configurations
+// ============================================
+
+/// <summary>
+/// One saved version of an SP Builder configuration: the generation options plus the
+/// table's columns as they were at save time, so drift can be detected later
+/// </summary>
+public class SavedSpConfig
+{
+    public SpType Type { get; set; }
+    public List<SavedSpColumn> Columns { get; set; } = [];
+    public CudSpOptions? CudOptions { get; set; }
+    public SelectSpOptions? SelectOptions { get; set; }
+    public UpsertSpOptions? UpsertOptions { get; set; }
+    public SoftDeleteSpOptions? SoftDeleteOptions { get; set; }
+    public BulkTvpSpOptions? BulkTvpOptions { get; set; }
+    public AuditSpOptions? AuditOptions { get; set; }
+    public JsonElement? EditorState { get; set; } // SP Builder form values; restored as-is by the UI
+}
+
+public class SavedSpColumn
+{
+    public required string ColumnName { get; set; }
+    public string DataType { get; set; } = string.Empty;
+    public bool IncludeInCreate { get; set; } = true;
+    public bool IncludeInUpdate { get; set; } = true;
+}
+
+public class SaveSpConfigRequest
+{
+    [Required(ErrorMessage = "Name is required")]
+    [StringLength(100, MinimumLength = 1, ErrorMessage = "Name must be between 1 and 100 characters")]
+    public string Name { get; set; } = default!;
+
+    [Required(ErrorMessage = "Schema name is required")]
+    [StringLength(128, ErrorMessage = "Schema name must be at most 128 characters")]
+    public string SchemaName { get; set; } = default!;
+
+    [Required(ErrorMessage = "Table name is required")]
+    [StringLength(128, ErrorMessage = "Table name must be at most 128 characters")]
+    public string TableName { get; set; } = default!;
+
+    [StringLength(500, ErrorMessage = "Note must be at most 500 characters")]
+    public string? Note { get; set; } // What changed in this version
+
+    [Required(ErrorMessage = "Config is required")]
+    public SavedSpConfig Config { get; set; } = default!;
+}
+
+/// <summary>
+/// Row shape of SpBuilderConfigs
+/// </summary>
+public class SpConfigRow
+{
+    public int ConfigId { get; set; }
+    public int ProjectId { get; set; }
+    public string SchemaName { get; set; } = string.Empty;
+    public string TableName { get; set; } = string.Empty;
+    public string Name { get; set; } = string.Empty;
+    public string SpType { get; set; } = string.Empty;
+    public int CurrentVersion { get; set; }
+    public int CreatedBy { get; set; }
+    public string CreatedByName { get; set; } = string.Empty;
+    public string? UpdatedByName { get; set; }
+    public DateTime CreatedAt { get; set; }
+    public DateTime? UpdatedAt { get; set; }
+}
+
+/// <summary>
+/// Row shape of SpBuilderConfigVersions; ConfigJson is deserialized by the service
+/// </summary>
+public class SpConfigVersionRow
+{
+    public int ConfigId { get; set; }
+    public int VersionNumber { get; set; }
+    public string ConfigJson { get; set; } = "{}";
+    public string? Note { get; set; }
+    public int CreatedBy { get; set; }
+    public string CreatedByName { get; set; } = string.Empty;
+    public DateTime CreatedAt { get; set; }
+}
+
+public class SpConfigListItem
+{
+    public int ConfigId { get; set; }
+    public string SchemaName { get; set; } = string.Empty;
+    public string TableName { get; set; } = string.Empty;
+    public string Name { get; set; } = string.Empty;
+    public SpType Type { get; set; }
+    public int CurrentVersion { get; set; }
+    public string CreatedByName { get; set; } = string.Empty;
+    public string? UpdatedByName { get; set; }
+    public DateTime CreatedAt { get; set; }
+    public DateTime? UpdatedAt { get; set; }
+}
+
+public class SpConfigResponse : SpConfigListItem
+{
+    public int ProjectId { get; set; }
+    public int Version { get; set; } // The version Config was loaded from
+    public string? Note { get; set; }
+    public SavedSpConfig Config { get; set; } = new();
+}
+
+public class SpConfigVersionItem
+{
+    public int VersionNumber { get; set; }
+    public string? Note { get; set; }
+    public string CreatedByName { get; set; } = string.Empty;
+    public DateTime CreatedAt { get; set; }
+}
+
+public class RegenerateSpConfigsRequest
+{
+    public List<int> ConfigIds { get; set; } = []; // Empty = every saved configuration in the project
+}
+
+[JsonConverter(typeof(JsonStringEnumConverter))]
+public enum SpConfigRegenerationStatus
+{
+    Ok,      // Regenerated; columns unchanged since the save
+    Changed, // Regenerated; columns were added, removed or retyped
+    Invalid  // Not regenerated; referenced columns are gone or the options no longer apply
+}
+
+public class SpConfigRegenerationResult
+{
+    public int ConfigId { get; set; }
+    public required string Name { get; set; }
+    public required string SchemaName { get; set; }
+    public required string TableName { get; set; }
+    public SpType Type { get; set; }
+    public int Version { get; set; }
+    public SpConfigRegenerationStatus Status { get; set; }
+    public List<string> AddedColumns { get; set; } = [];
+    public List<string> RemovedColumns { get; set; } = [];
+    public List<string> RetypedColumns { get; set; } = [];
+    public List<string> Errors { get; set; } = [];
+    public List<string> Warnings { get; set; } = [];
+    public GeneratedSpItem? StoredProcedure { get; set; }
+    public GeneratedSpItem? TableType { get; set; }
+}
+
+public class RegenerateSpConfigsResponse
+{
+    public SqlDialect Dialect { get; set; }
+    public required List<SpConfigRegenerationResult> Results { get; set; }
+    public DateTime GeneratedAt { get; set; }
+}
@@ -2,8 +2,37 @@ using System.Text;
 
 namespace ActoEngine.WebApi.Features.SpBuilder;
 
-public class SpTemplateRenderer
+/// <summary>
+/// Renders the SP Builder templates for one SQL dialect
+/// </summary>
+public interface ISpTemplateRenderer
 {
+    SqlDialect Dialect { get; }
+    string QualifiedName(string schemaName, string name);
+    string ParameterRef(string name);
+    string RenderCud(string schemaName, string tableName, List<SpColumnConfig> cols, CudSpOptions opts);
+    string RenderSelect(string schemaName, string tableName, List<SpColumnConfig> cols, SelectSpOptions opts);
+    string RenderUpsert(string schemaName, string tableName, List<SpColumnConfig> cols, UpsertSpOptions opts);
+    string RenderSoftDelete(string schemaName, string tableName, List<SpColumnConfig> cols, SoftDeleteSpOptions opts);
+    string RenderBulkTvp(string schemaName, string tableName, List<SpColumnConfig> cols, BulkTvpSpOptions opts);
+    string RenderBulkTvpTableType(string schemaName, string tableName, List<SpColumnConfig> cols, BulkTvpSpOptions opts);
+    string RenderAudit(string schemaName, string tableName, List<SpColumnConfig> cols, AuditSpOptions opts);
+}
+
+public class SpTemplateRenderer : ISpTemplateRenderer
+{
+    public SqlDialect Dialect => SqlDialect.SqlServer;
+
+    public string QualifiedName(string schemaName, string name)
+    {
+        return $"[{schemaName}].[{name}]";
+    }
+
+    public string ParameterRef(string name)
+    {
+        return $"@{name}";
+    }
+
     public string RenderCud(string schemaName, string tableName, List<SpColumnConfig> cols, CudSpOptions opts)
     {
         var validatedActionParamName = SpTemplateRendererUtilities.ValidateSqlIdentifier(
@@ -101,7 +130,7 @@ public class SpTemplateRenderer
 
             var requestedFlags = $"Requested flags: Create={opts.GenerateCreate}, Update={opts.GenerateUpdate}, Delete={opts.GenerateDelete}.";
             var reasons = missingPrereqs.Count == 0 ? "No executable C/U/D branches can be produced." : string.Join(" ", missingPrereqs);
-            throw new InvalidOperationException($"{requestedFlags} {reasons}");
+            throw new ArgumentException($"{requestedFlags} {reasons}");
         }
 
         var body = string.Join("\n    \n", bodySections);
@@ -125,20 +154,388 @@ public class SpTemplateRenderer
 
     private static (string Start, string End) BuildErrorHandling(CudSpOptions opts)
     {
-        if (!opts.IncludeErrorHandling)
+        return BuildErrorHandling(opts.IncludeErrorHandling, opts.IncludeTransaction);
+    }
+
+    private static (string Start, string End) BuildErrorHandling(bool includeErrorHandling, bool includeTransaction)
+    {
+        if (!includeErrorHandling)
             return ("    SET NOCOUNT ON;\n\n", "");
 
-        var start = opts.IncludeTransaction
+        var start = includeTransaction
             ? SpTemplateStore.ErrorHandlingStart
             : SpTemplateStore.ErrorHandlingStartNoTrans;
 
-        var end = opts.IncludeTransaction
+        var end = includeTransaction
             ? SpTemplateStore.ErrorHandlingEnd
             : SpTemplateStore.ErrorHandlingEndNoTrans;
 
         return (start, end + "\n");
     }
 
+    public string RenderUpsert(string schemaName, string tableName, List<SpColumnConfig> cols, UpsertSpOptions opts)
+    {
+        if (!opts.UpdateWhenMatched && !opts.InsertWhenNotMatched)
+        {
+            throw new ArgumentException("No MERGE actions enabled; at least one of UpdateWhenMatched/InsertWhenNotMatched must be true");
+        }
+
+        var (spName, qualifiedTable) = BuildProcedureNames(schemaName, tableName, opts.SpPrefix, "Upsert");
+        var matchCols = opts.MatchColumns.Count != 0
+            ? [.. opts.MatchColumns.Select(name => SpTemplateRendererUtilities.FindColumn(cols, name)
+                ?? throw new ArgumentException($"Match column '{name}' does not exist on table '{tableName}'.", nameof(opts.MatchColumns)))]
+            : cols.Where(c => c.IsPrimaryKey).ToList();
+
+        if (matchCols.Count == 0)
+        {
+            throw new ArgumentException("Upsert requires match columns or a primary key to join source and target rows.");
+        }
+
+        var insertCols = opts.InsertWhenNotMatched ? cols.Where(c => c.IncludeInCreate && !c.IsIdentity).ToList() : [];
+        var updateCols = opts.UpdateWhenMatched
+            ? cols.Where(c => c.IncludeInUpdate && !c.IsIdentity && !c.IsPrimaryKey && !matchCols.Contains(c)).ToList()
+            : [];
+
+        if (insertCols.Count == 0 && updateCols.Count == 0)
+        {
+            throw new ArgumentException("Upsert has no insertable or updatable columns.");
+        }
+
+        var sourceCols = matchCols.Union(insertCols).Union(updateCols).ToList();
+
+        var body = new StringBuilder();
+        body.AppendLine($"    MERGE INTO {qualifiedTable} WITH (HOLDLOCK) AS target");
+        body.AppendLine("    USING (SELECT");
+        body.AppendLine(JoinIndented(sourceCols.Select(c => $"@{ParamName(c)} AS {Bracket(c)}"), "        "));
+        body.AppendLine("    ) AS source");
+        body.AppendLine($"    ON {string.Join(" AND ", matchCols.Select(c => $"target.{Bracket(c)} = source.{Bracket(c)}"))}");
+
+        if (updateCols.Count > 0)
+        {
+            body.AppendLine("    WHEN MATCHED THEN");
+            body.AppendLine("        UPDATE SET");
+            body.AppendLine(JoinIndented(updateCols.Select(c => $"target.{Bracket(c)} = source.{Bracket(c)}"), "            "));
+        }
+
+        if (insertCols.Count > 0)
+        {
+            body.AppendLine("    WHEN NOT MATCHED BY TARGET THEN");
+            body.AppendLine($"        INSERT ({string.Join(", ", insertCols.Select(Bracket))})");
+            body.AppendLine($"        VALUES ({string.Join(", ", insertCols.Select(c => $"source.{Bracket(c)}"))})");
+        }
+
+        if (opts.OutputAction)
+        {
+            body.AppendLine("    OUTPUT $action AS [MergeAction]");
+        }
+
+        // MERGE must be terminated with a semicolon
+        var code = body.ToString().TrimEnd() + ";";
+
+        return AssembleProcedure(spName, BuildParameters(sourceCols), code, opts.IncludeErrorHandling, opts.IncludeTransaction);
+    }
+
+    public string RenderSoftDelete(string schemaName, string tableName, List<SpColumnConfig> cols, SoftDeleteSpOptions opts)
+    {
+        var (spName, qualifiedTable) = BuildProcedureNames(schemaName, tableName, opts.SpPrefix, "SoftDelete");
+        var isDeletedCol = SpTemplateRendererUtilities.FindColumn(cols, opts.IsDeletedColumn);
+        var deletedAtCol = SpTemplateRendererUtilities.FindColumn(cols, opts.DeletedAtColumn);
+        var deletedByCol = SpTemplateRendererUtilities.FindColumn(cols, opts.DeletedByColumn);
+        var pkCols = cols.Where(c => c.IsPrimaryKey).ToList();
+
+        if (isDeletedCol == null && deletedAtCol == null)
+        {
+            throw new ArgumentException(
+                $"Soft delete requires a '{opts.IsDeletedColumn}' or '{opts.DeletedAtColumn}' column on table '{tableName}'.",
+                nameof(opts));
+        }
+        if (pkCols.Count == 0)
+        {
+            throw new ArgumentException("Soft delete requires primary key columns to identify the row.");
+        }
+
+        var deleteSet = new List<string>();
+        var restoreSet = new List<string>();
+        if (isDeletedCol != null)
+        {
+            deleteSet.Add($"{Bracket(isDeletedCol)} = 1");
+            restoreSet.Add($"{Bracket(isDeletedCol)} = 0");
+        }
+        if (deletedAtCol != null)
+        {
+            deleteSet.Add($"{Bracket(deletedAtCol)} = SYSUTCDATETIME()");
+            restoreSet.Add($"{Bracket(deletedAtCol)} = NULL");
+        }
+        if (deletedByCol != null)
+        {
+            deleteSet.Add($"{Bracket(deletedByCol)} = @DeletedBy");
+            restoreSet.Add($"{Bracket(deletedByCol)} = NULL");
+        }
+
+        // Only touch rows in the opposite state so repeated calls are no-ops
+        var notDeleted = isDeletedCol != null ? $"{Bracket(isDeletedCol)} = 0" : $"{Bracket(deletedAtCol!)} IS NULL";
+        var deleted = isDeletedCol != null ? $"{Bracket(isDeletedCol)} = 1" : $"{Bracket(deletedAtCol!)} IS NOT NULL";
+        var keyConditions = pkCols.Select(c => $"{Bracket(c)} = @{ParamName(c)}").ToList();
+
+        string BuildUpdate(List<string> setClause, string stateCondition, string indent) =>
+            $"{indent}UPDATE {qualifiedTable}\n" +
+            $"{indent}SET\n" +
+            $"{JoinIndented(setClause, indent + "    ")}\n" +
+            $"{indent}WHERE\n" +
+            $"{JoinIndented([.. keyConditions, stateCondition], indent + "    ", " AND")};";
+
+        var body = opts.GenerateRestore
+            ? "    -- RESTORE\n" +
+              "    IF @Restore = 1\n" +
+              "    BEGIN\n" +
+              $"{BuildUpdate(restoreSet, deleted, "        ")}\n" +
+              "    END\n" +
+              "    -- SOFT DELETE\n" +
+              "    ELSE\n" +
+              "    BEGIN\n" +
+              $"{BuildUpdate(deleteSet, notDeleted, "        ")}\n" +
+              "    END"
+            : $"    -- SOFT DELETE\n{BuildUpdate(deleteSet, notDeleted, "    ")}";
+
+        var parameters = new List<string> { BuildParameters(pkCols) };
+        if (deletedByCol != null)
+        {
+            parameters.Add($"    @DeletedBy {SpTemplateRendererUtilities.GetSqlType(deletedByCol)} = NULL");
+        }
+        if (opts.GenerateRestore)
+        {
+            parameters.Add("    @Restore BIT = 0 -- 1 = undo a soft delete");
+        }
+
+        return AssembleProcedure(spName, string.Join(",\n", parameters), body, opts.IncludeErrorHandling, opts.IncludeTransaction);
+    }
+
+    public string RenderBulkTvp(string schemaName, string tableName, List<SpColumnConfig> cols, BulkTvpSpOptions opts)
+    {
+        var (spName, qualifiedTable) = BuildProcedureNames(schemaName, tableName, opts.SpPrefix, "Bulk");
+        var (qualifiedType, pkCols, insertCols, updateCols) = ResolveBulkTvp(schemaName, tableName, cols, opts);
+
+        var keyJoin = string.Join(" AND ", pkCols.Select(c => $"target.{Bracket(c)} = source.{Bracket(c)}"));
+        var sections = new List<string>();
+
+        if (updateCols.Count > 0)
+        {
+            sections.Add(
+                "    -- UPDATE existing rows\n" +
+                "    UPDATE target\n" +
+                "    SET\n" +
+                $"{JoinIndented(updateCols.Select(c => $"target.{Bracket(c)} = source.{Bracket(c)}"), "        ")}\n" +
+                $"    FROM {qualifiedTable} AS target\n" +
+                "    INNER JOIN @Rows AS source\n" +
+                $"        ON {keyJoin};");
+        }
+
+        if (insertCols.Count > 0)
+        {
+            // When rows are also updated, only insert the ones that did not match
+            var notExists = updateCols.Count > 0
+                ? "\n    WHERE NOT EXISTS (\n" +
+                  $"        SELECT 1 FROM {qualifiedTable} AS target\n" +
+                  $"        WHERE {keyJoin}\n" +
+                  "    )"
+                : "";
+            sections.Add(
+                "    -- INSERT new rows\n" +
+                $"    INSERT INTO {qualifiedTable} (\n" +
+                $"{JoinIndented(insertCols.Select(Bracket), "        ")}\n" +
+                "    )\n" +
+                "    SELECT\n" +
+                $"{JoinIndented(insertCols.Select(c => $"source.{Bracket(c)}"), "        ")}\n" +
+                $"    FROM @Rows AS source{notExists};");
+        }
+
+        return AssembleProcedure(
+            spName,
+            $"    @Rows {qualifiedType} READONLY",
+            string.Join("\n    \n", sections),
+            opts.IncludeErrorHandling,
+            opts.IncludeTransaction);
+    }
+
+    /// <summary>
+    /// CREATE TYPE for the procedure's @Rows parameter; a separate batch that must run before the procedure
+    /// </summary>
+    public string RenderBulkTvpTableType(string schemaName, string tableName, List<SpColumnConfig> cols, BulkTvpSpOptions opts)
+    {
+        var (qualifiedType, pkCols, insertCols, updateCols) = ResolveBulkTvp(schemaName, tableName, cols, opts);
+
+        // Keep the table's column order; identity keys are unknown for new rows, so they must be nullable
+        var typeCols = cols.Where(c => pkCols.Contains(c) || insertCols.Contains(c) || updateCols.Contains(c)).ToList();
+        return
+            $"CREATE TYPE {qualifiedType} AS TABLE (\n" +
+            $"{JoinIndented(typeCols.Select(c => $"{Bracket(c)} {SpTemplateRendererUtilities.GetSqlType(c)} {(c.IsNullable || c.IsIdentity ? "NULL" : "NOT NULL")}"), "    ")}\n" +
+            ");\n";
+    }
+
+    private static (string QualifiedType, List<SpColumnConfig> PkCols, List<SpColumnConfig> InsertCols, List<SpColumnConfig> UpdateCols) ResolveBulkTvp(
+        string schemaName, string tableName, List<SpColumnConfig> cols, BulkTvpSpOptions opts)
+    {
+        if (!opts.GenerateInsert && !opts.GenerateUpdate)
+        {
+            throw new ArgumentException("No bulk operations enabled; at least one of GenerateInsert/GenerateUpdate must be true");
+        }
+
+        var validatedSchema = SpTemplateRendererUtilities.ValidateSqlIdentifier(schemaName, nameof(schemaName));
+        var typeName = string.IsNullOrWhiteSpace(opts.TableTypeName)
+            ? $"{SpTemplateRendererUtilities.ValidateSqlIdentifier(tableName, nameof(tableName))}TableType"
+            : SpTemplateRendererUtilities.ValidateSqlIdentifier(opts.TableTypeName, nameof(opts.TableTypeName));
+        var qualifiedType = SpTemplateRendererUtilities.BracketQualifiedName($"{validatedSchema}.{typeName}");
+
+        var pkCols = cols.Where(c => c.IsPrimaryKey).ToList();
+        var insertCols = opts.GenerateInsert ? cols.Where(c => c.IncludeInCreate && !c.IsIdentity).ToList() : [];
+        var updateCols = opts.GenerateUpdate ? cols.Where(c => c.IncludeInUpdate && !c.IsIdentity && !c.IsPrimaryKey).ToList() : [];
+
+        if (opts.GenerateUpdate && pkCols.Count == 0)
+        {
+            throw new ArgumentException("Bulk update requires primary key columns to match rows.");
+        }
+        if (insertCols.Count == 0 && updateCols.Count == 0)
+        {
+            throw new ArgumentException("Bulk procedure has no insertable or updatable columns.");
+        }
+
+        return (qualifiedType, pkCols, insertCols, updateCols);
+    }
+
+    public string RenderAudit(string schemaName, string tableName, List<SpColumnConfig> cols, AuditSpOptions opts)
+    {
+        var (spName, qualifiedTable) = BuildProcedureNames(schemaName, tableName, opts.SpPrefix, "Audit");
+        var actionParam = SpTemplateRendererUtilities.ValidateSqlIdentifier(opts.ActionParamName, nameof(opts.ActionParamName));
+        var userParam = SpTemplateRendererUtilities.ValidateSqlIdentifier(opts.UserParamName, nameof(opts.UserParamName));
+        var createdBy = SpTemplateRendererUtilities.FindColumn(cols, opts.CreatedByColumn);
+        var createdAt = SpTemplateRendererUtilities.FindColumn(cols, opts.CreatedAtColumn);
+        var modifiedBy = SpTemplateRendererUtilities.FindColumn(cols, opts.ModifiedByColumn);
+        var modifiedAt = SpTemplateRendererUtilities.FindColumn(cols, opts.ModifiedAtColumn);
+        var auditCols = new[] { createdBy, createdAt, modifiedBy, modifiedAt }.OfType<SpColumnConfig>().ToList();
+
+        if (auditCols.Count == 0)
+        {
+            throw new ArgumentException($"None of the configured audit columns exist on table '{tableName}'.", nameof(opts));
+        }
+
+        var now = opts.UseUtc ? "SYSUTCDATETIME()" : "SYSDATETIME()";
+        var pkCols = cols.Where(c => c.IsPrimaryKey).ToList();
+        var createCols = cols.Where(c => c.IncludeInCreate && !c.IsIdentity && !auditCols.Contains(c)).ToList();
+        var updateCols = cols.Where(c => c.IncludeInUpdate && !c.IsIdentity && !c.IsPrimaryKey && !auditCols.Contains(c)).ToList();
+        var identityCol = cols.FirstOrDefault(c => c.IsIdentity);
+
+        var insertColumns = createCols.Select(Bracket).ToList();
+        var insertValues = createCols.Select(c => $"@{ParamName(c)}").ToList();
+        if (createdBy != null) { insertColumns.Add(Bracket(createdBy)); insertValues.Add($"@{userParam}"); }
+        if (createdAt != null) { insertColumns.Add(Bracket(createdAt)); insertValues.Add(now); }
+
+        var setClause = updateCols.Select(c => $"{Bracket(c)} = @{ParamName(c)}").ToList();
+        if (modifiedBy != null) setClause.Add($"{Bracket(modifiedBy)} = @{userParam}");
+        if (modifiedAt != null) setClause.Add($"{Bracket(modifiedAt)} = {now}");
+
+        var sections = new List<string>();
+        var activeActions = new List<string>();
+
+        if (insertColumns.Count > 0)
+        {
+            var returnIdentity = identityCol != null
+                ? $"\n        SELECT SCOPE_IDENTITY() AS {Bracket(identityCol)};"
+                : "";
+            activeActions.Add("'C' = Create");
+            sections.Add(
+                "    -- CREATE\n" +
+                $"    IF @{actionParam} = 'C'\n" +
+                "    BEGIN\n" +
+                $"        INSERT INTO {qualifiedTable} (\n" +
+                $"{JoinIndented(insertColumns, "            ")}\n" +
+                "        )\n" +
+                "        VALUES (\n" +
+                $"{JoinIndented(insertValues, "            ")}\n" +
+                $"        );{returnIdentity}\n" +
+                "    END");
+        }
+
+        if (setClause.Count > 0 && pkCols.Count > 0)
+        {
+            var keyword = sections.Count > 0 ? "    ELSE IF" : "    IF";
+            activeActions.Add("'U' = Update");
+            sections.Add(
+                "    -- UPDATE\n" +
+                $"{keyword} @{actionParam} = 'U'\n" +
+                "    BEGIN\n" +
+                $"        UPDATE {qualifiedTable}\n" +
+                "        SET\n" +
+                $"{JoinIndented(setClause, "            ")}\n" +
+                "        WHERE\n" +
+                $"{BuildWhereClause(pkCols)};\n" +
+                "    END");
+        }
+
+        if (sections.Count == 0)
+        {
+            throw new ArgumentException("Audit procedure has no insertable or updatable columns.");
+        }
+
+        // Type the user parameter after the column it is stamped into
+        var userCol = createdBy ?? modifiedBy;
+        var userType = userCol != null ? SpTemplateRendererUtilities.GetSqlType(userCol) : "NVARCHAR(128)";
+        var parameters = $"    @{actionParam} CHAR(1), -- {string.Join(", ", activeActions)}\n    @{userParam} {userType}";
+        // Each action reads only some of the column parameters, so callers may omit the rest
+        var columnParams = BuildParameters([.. pkCols.Union(createCols.Where(c => !c.IsPrimaryKey)).Union(updateCols)], defaultToNull: true);
+        if (columnParams.Length > 0)
+        {
+            parameters += ",\n" + columnParams;
+        }
+
+        return AssembleProcedure(spName, parameters, string.Join("\n    \n", sections), opts.IncludeErrorHandling, opts.IncludeTransaction);
+    }
+
+    private static (string SpName, string QualifiedTable) BuildProcedureNames(string schemaName, string tableName, string? spPrefix, string suffix)
+    {
+        var validatedPrefix = SpTemplateRendererUtilities.ValidateSqlIdentifier(spPrefix ?? "usp", nameof(spPrefix));
+        var validatedSchema = SpTemplateRendererUtilities.ValidateSqlIdentifier(schemaName, nameof(schemaName));
+        var validatedTableName = SpTemplateRendererUtilities.ValidateSqlIdentifier(tableName, nameof(tableName));
+
+        return (
+            SpTemplateRendererUtilities.BracketQualifiedName($"{validatedSchema}.{validatedPrefix}_{validatedTableName}_{suffix}"),
+            SpTemplateRendererUtilities.BracketQualifiedName($"{validatedSchema}.{validatedTableName}"));
+    }
+
+    private static string AssembleProcedure(string spName, string parameters, string body, bool includeErrorHandling, bool includeTransaction)
+    {
+        var (ehStart, ehEnd) = BuildErrorHandling(includeErrorHandling, includeTransaction);
+
+        var sb = new StringBuilder();
+        sb.AppendLine($"CREATE PROCEDURE {spName}");
+        if (!string.IsNullOrEmpty(parameters))
+        {
+            sb.AppendLine(parameters);
+        }
+        sb.AppendLine("AS");
+        sb.AppendLine("BEGIN");
+        sb.Append(ehStart);
+        sb.AppendLine(body);
+        sb.Append(ehEnd);
+        sb.AppendLine("END");
+
+        return sb.ToString();
+    }
+
+    private static string JoinIndented(IEnumerable<string> items, string indent, string separator = ",")
+    {
+        return string.Join($"{separator}\n", items.Select(item => indent + item));
+    }
+
+    private static string Bracket(SpColumnConfig col)
+    {
+        return SpTemplateRendererUtilities.BracketIdentifier(col.ColumnName);
+    }
+
+    private static string ParamName(SpColumnConfig col)
+    {
+        return SpTemplateRendererUtilities.ValidateSqlIdentifier(col.ColumnName, nameof(col.ColumnName));
+    }
+
     public string RenderSelect(string schemaName, string tableName, List<SpColumnConfig> cols, SelectSpOptions opts)
     {
         if (cols == null || cols.Count == 0)
@@ -146,13 +543,7 @@ public class SpTemplateRenderer
             throw new ArgumentException("Columns collection cannot be empty when rendering SELECT stored procedure.", nameof(cols));
         }
 
-        var validatedPrefix = SpTemplateRendererUtilities.ValidateSqlIdentifier(opts.SpPrefix ?? "usp", nameof(opts.SpPrefix));
-        var validatedTableName = SpTemplateRendererUtilities.ValidateSqlIdentifier(tableName, nameof(tableName));
-        var validatedSchema = SpTemplateRendererUtilities.ValidateSqlIdentifier(schemaName, nameof(schemaName));
-        var escapedPrefix = validatedPrefix.Replace("]", "]]");
-        var escapedTableName = validatedTableName.Replace("]", "]]");
-        var escapedSchema = validatedSchema.Replace("]", "]]");
-        var spName = $"[{escapedSchema}].[{escapedPrefix}_{escapedTableName}_Select]";
+        var (spName, qualifiedTable) = BuildProcedureNames(schemaName, tableName, opts.SpPrefix, "Select");
         var pkCols = cols.Where(c => c.IsPrimaryKey).ToList();
         var orderByCols = opts.OrderByColumns.Count != 0
             ? opts.OrderByColumns
@@ -160,55 +551,136 @@ public class SpTemplateRenderer
 
         if (orderByCols.Count == 0)
         {
-            var firstCol = cols.FirstOrDefault() ?? throw new InvalidOperationException("Cannot determine ORDER BY columns because no columns were provided.");
+            var firstCol = cols.FirstOrDefault() ?? throw new ArgumentException("Cannot determine ORDER BY columns because no columns were provided.");
             orderByCols.Add(firstCol.ColumnName); // Fallback
         }
 
-        var template = SpTemplateStore.SelectTemplate;
-        // Determine the exact table identifier used by the main SELECT's FROM clause,
-        // so the TOTAL COUNT query uses the same source. If the provided tableName is
-        // already schema-qualified (schema.Table), use that; otherwise default to dbo.
-        string mainFromIdentifier = SpTemplateRendererUtilities.BracketQualifiedName($"{validatedSchema}.{validatedTableName}");
-
-        template = template.Replace("{SP_NAME}", spName);
-        template = template.Replace("{TABLE_NAME}", mainFromIdentifier);
-        template = template.Replace("{SELECT_COLUMNS}", BuildSelectColumns(cols));
-        template = template.Replace("{ORDER_BY_CLAUSE}", BuildOrderByClause(orderByCols));
+        var keyset = opts.IncludePagination && opts.UseKeysetPagination;
+        var offset = opts.IncludePagination && !keyset;
+        if (keyset && opts.SortableColumns.Count != 0)
+        {
+            throw new ArgumentException("Keyset pagination seeks on a fixed sort order and cannot be combined with dynamic sort columns.", nameof(opts));
+        }
 
-        // Filters
-        if (opts.Filters.Count != 0)
+        // Base columns are qualified only when joins make names ambiguous
+        var baseAlias = opts.Joins.Count != 0 ? SelectBaseAlias : null;
+        var joinClauses = BuildJoinClauses(cols, opts.Joins);
+        var fromClause = baseAlias != null ? $"    FROM {qualifiedTable} AS {baseAlias}" : $"    FROM {qualifiedTable}";
+        if (joinClauses.Length > 0)
         {
-            template = template.Replace("{FILTER_PARAMETERS}", BuildFilterParameters(opts.Filters, cols));
-            template = template.Replace("{WHERE_FILTERS}", BuildWhereFilters(opts.Filters));
+            fromClause += "\n" + joinClauses;
         }
-        else
+
+        var outputs = BuildSelectOutputs(cols, opts, baseAlias);
+        var sortable = opts.SortableColumns
+            .Select(name => outputs.FirstOrDefault(o => string.Equals(o.Name, name, StringComparison.OrdinalIgnoreCase))
+                ?? throw new ArgumentException($"Sortable column '{name}' is not one of the output columns.", nameof(opts.SortableColumns)))
+            .ToList();
+        var keyCols = keyset ? SpTemplateRendererUtilities.ResolveKeysetColumns(cols, orderByCols, tableName) : [];
+        if (keyset)
         {
-            template = template.Replace("{FILTER_PARAMETERS}", "");
-            template = template.Replace("{WHERE_FILTERS}", "");
+            // The seek and the ORDER BY must agree, primary key tie-breaker included
+            orderByCols = [.. keyCols.Select(c => c.ColumnName)];
         }
 
-        // Pagination
+        var parameters = new List<string>();
+        var filterParams = BuildFilterParameters(opts.Filters, cols);
+        if (filterParams.Length > 0) parameters.Add(filterParams);
+        if (sortable.Count > 0)
+        {
+            parameters.Add("    @SortColumn NVARCHAR(128) = NULL");
+            parameters.Add("    @SortDirection VARCHAR(4) = 'ASC'");
+        }
+        foreach (var col in keyCols)
+        {
+            parameters.Add($"    @After{ParamName(col)} {SpTemplateRendererUtilities.GetSqlType(col)} = NULL");
+        }
+        if (offset)
+        {
+            parameters.Add("    @PageNumber INT = 1");
+        }
         if (opts.IncludePagination)
         {
-            template = template.Replace("{PAGINATION_PARAMS}", BuildPaginationParams(opts.Filters.Count != 0));
-            template = template.Replace("{PAGINATION_LOGIC}", BuildPaginationLogic());
-            template = template.Replace("{PAGINATION_FETCH}", BuildPaginationFetch());
-            // Use the same qualified identifier for count that the main SELECT intends to use
-            template = template.Replace("{TOTAL_COUNT}", BuildTotalCount(mainFromIdentifier, opts.Filters));
+            parameters.Add("    @PageSize INT = 50");
+        }
+
+        var sb = new StringBuilder();
+        sb.AppendLine($"CREATE PROCEDURE {spName}");
+        if (parameters.Count > 0)
+        {
+            sb.AppendLine(string.Join(",\n", parameters));
+        }
+        sb.AppendLine("AS");
+        sb.AppendLine("BEGIN");
+        sb.AppendLine("    SET NOCOUNT ON;");
+
+        if (sortable.Count > 0)
+        {
+            var whitelist = string.Join(", ", sortable.Select(o => $"N'{SpTemplateRendererUtilities.EscapeStringLiteral(o.Name)}'"));
+            sb.AppendLine();
+            sb.AppendLine($"    IF @SortColumn IS NOT NULL AND @SortColumn NOT IN ({whitelist})");
+            sb.AppendLine("        THROW 50001, 'Invalid @SortColumn value.', 1;");
+            sb.AppendLine("    IF @SortDirection NOT IN ('ASC', 'DESC')");
+            sb.AppendLine("        THROW 50002, 'Invalid @SortDirection value.', 1;");
+        }
+        if (offset)
+        {
+            sb.AppendLine();
+            sb.AppendLine("    DECLARE @Offset INT = (@PageNumber - 1) * @PageSize;");
+        }
+
+        sb.AppendLine();
+        sb.AppendLine(keyset ? "    SELECT TOP (@PageSize)" : "    SELECT");
+        sb.AppendLine(JoinIndented(outputs.Select(o => o.SelectItem), "        "));
+        sb.AppendLine(fromClause);
+
+        var keysetCondition = keyCols.Count > 0 ? BuildKeysetCondition(keyCols, baseAlias) : null;
+        var whereClause = BuildWhereFilters(opts.Filters, baseAlias, keysetCondition);
+        if (whereClause.Length > 0)
+        {
+            sb.AppendLine(whereClause);
         }
-        else
+
+        // Dynamic sort first, then the fixed order as a tie-breaker
+        var orderItems = sortable
+            .SelectMany(o => new[]
+            {
+                $"CASE WHEN @SortColumn = N'{SpTemplateRendererUtilities.EscapeStringLiteral(o.Name)}' AND @SortDirection = 'ASC' THEN {o.Expression} END ASC",
+                $"CASE WHEN @SortColumn = N'{SpTemplateRendererUtilities.EscapeStringLiteral(o.Name)}' AND @SortDirection = 'DESC' THEN {o.Expression} END DESC"
+            })
+            .Concat(orderByCols.Select(name =>
+                QualifyColumn(SpTemplateRendererUtilities.ValidateSqlIdentifier(name, "orderByColumns"), baseAlias)));
+
+        sb.AppendLine("    ORDER BY");
+        sb.Append(JoinIndented(orderItems, "        "));
+        if (offset)
         {
-            template = template.Replace("{PAGINATION_PARAMS}", "");
-            template = template.Replace("{PAGINATION_LOGIC}", "");
-            template = template.Replace("{PAGINATION_FETCH}", "");
-            template = template.Replace("{TOTAL_COUNT}", "");
+            sb.Append("\n    OFFSET @Offset ROWS\n    FETCH NEXT @PageSize ROWS ONLY");
         }
+        sb.AppendLine(";");
 
-        return template;
+        if (opts.IncludeTotalCount ?? offset)
+        {
+            // Count the whole filtered set, not just the current page
+            var countWhere = BuildWhereFilters(opts.Filters, baseAlias);
+            sb.AppendLine();
+            sb.AppendLine("    -- Total count");
+            sb.AppendLine("    SELECT COUNT(*) AS TotalRecords");
+            sb.Append(fromClause);
+            if (countWhere.Length > 0)
+            {
+                sb.Append("\n" + countWhere);
+            }
+            sb.AppendLine(";");
+        }
+
+        sb.AppendLine("END");
+
+        return sb.ToString();
     }
 
     // Helper methods
-    private static string BuildParameters(List<SpColumnConfig> cols)
+    private static string BuildParameters(List<SpColumnConfig> cols, bool defaultToNull = false)
     {
         if (cols.Count == 0)
         {
@@ -221,7 +693,7 @@ public class SpTemplateRenderer
             var col = cols[i];
             var paramName = SpTemplateRendererUtilities.ValidateSqlIdentifier(col.ColumnName, nameof(col.ColumnName));
             sb.Append($"    @{paramName} {SpTemplateRendererUtilities.GetSqlType(col)}");
-            if (col.IsNullable)
+            if (col.IsNullable || defaultToNull)
             {
                 sb.Append(" = NULL");
             }
@@ -301,39 +773,6 @@ public class SpTemplateRenderer
         return sb.ToString().TrimEnd();
     }
 
-    private static string BuildSelectColumns(List<SpColumnConfig> cols)
-    {
-        var sb = new StringBuilder();
-        for (int i = 0; i < cols.Count; i++)
-        {
-            sb.Append($"        {SpTemplateRendererUtilities.BracketIdentifier(cols[i].ColumnName)}");
-            if (i < cols.Count - 1)
-            {
-                sb.Append(',');
-            }
-
-            sb.AppendLine();
-        }
-        return sb.ToString().TrimEnd();
-    }
-
-    private static string BuildOrderByClause(List<string> cols)
-    {
-        var sb = new StringBuilder();
-        for (int i = 0; i < cols.Count; i++)
-        {
-            var orderByCol = SpTemplateRendererUtilities.ValidateSqlIdentifier(cols[i], "orderByColumns");
-            sb.Append($"        {SpTemplateRendererUtilities.BracketIdentifier(orderByCol)}");
-            if (i < cols.Count - 1)
-            {
-                sb.Append(',');
-            }
-
-            sb.AppendLine();
-        }
-        return sb.ToString().TrimEnd();
-    }
-
     private static string BuildFilterParameters(List<FilterColumn> filters, List<SpColumnConfig> allCols)
     {
         if (filters.Count == 0)
@@ -395,9 +834,137 @@ public class SpTemplateRenderer
         return sb.ToString().TrimEnd(',', '\n', '\r');
     }
 
-    private static string BuildWhereFilters(List<FilterColumn> filters)
+    private const string SelectBaseAlias = "t";
+
+    private sealed record SelectOutput(string Name, string Expression, string SelectItem);
+
+    private static string QualifyColumn(string columnName, string? alias)
     {
-        if (filters.Count == 0)
+        var bracketed = SpTemplateRendererUtilities.BracketIdentifier(columnName);
+        return alias != null ? $"{alias}.{bracketed}" : bracketed;
+    }
+
+    private static string BuildJoinClauses(List<SpColumnConfig> cols, List<SelectJoin> joins)
+    {
+        var aliases = new HashSet<string>(StringComparer.OrdinalIgnoreCase) { SelectBaseAlias };
+        var lines = new List<string>();
+
+        foreach (var join in joins)
+        {
+            var alias = SpTemplateRendererUtilities.ValidateSqlIdentifier(join.Alias, nameof(join.Alias));
+            if (!aliases.Add(alias))
+            {
+                throw new ArgumentException($"Join alias '{alias}' is used more than once or is reserved for the base table.", nameof(joins));
+            }
+            if (join.On.Count == 0)
+            {
+                throw new ArgumentException($"Join '{alias}' has no ON columns.", nameof(joins));
+            }
+
+            var joinSchema = SpTemplateRendererUtilities.ValidateSqlIdentifier(
+                string.IsNullOrWhiteSpace(join.SchemaName) ? "dbo" : join.SchemaName,
+                nameof(join.SchemaName));
+            var joinTable = SpTemplateRendererUtilities.ValidateSqlIdentifier(join.TableName, nameof(join.TableName));
+            var conditions = join.On.Select(c =>
+            {
+                var baseCol = SpTemplateRendererUtilities.FindColumn(cols, c.BaseColumn)
+                    ?? throw new ArgumentException($"Join '{alias}' references unknown base column '{c.BaseColumn}'.", nameof(joins));
+                var joinCol = SpTemplateRendererUtilities.ValidateSqlIdentifier(c.JoinColumn, nameof(c.JoinColumn));
+                return $"{QualifyColumn(joinCol, alias)} = {QualifyColumn(baseCol.ColumnName, SelectBaseAlias)}";
+            });
+
+            var keyword = join.JoinType == SelectJoinType.Left ? "LEFT JOIN" : "INNER JOIN";
+            lines.Add($"    {keyword} {SpTemplateRendererUtilities.BracketQualifiedName($"{joinSchema}.{joinTable}")} AS {alias}");
+            lines.Add($"        ON {string.Join("\n        AND ", conditions)}");
+        }
+
+        return string.Join("\n", lines);
+    }
+
+    /// <summary>
+    /// The SELECT list with each item's output name and the expression it sorts by
+    /// (ORDER BY expressions cannot refer to SELECT aliases).
+    /// </summary>
+    private static List<SelectOutput> BuildSelectOutputs(List<SpColumnConfig> cols, SelectSpOptions opts, string? baseAlias)
+    {
+        if (opts.OutputColumns.Count == 0)
+        {
+            return [.. cols.Select(c =>
+            {
+                var expression = QualifyColumn(c.ColumnName, baseAlias);
+                return new SelectOutput(c.ColumnName, expression, expression);
+            })];
+        }
+
+        var joinAliases = new HashSet<string>(opts.Joins.Select(j => j.Alias.Trim()), StringComparer.OrdinalIgnoreCase);
+        var outputs = new List<SelectOutput>();
+
+        foreach (var output in opts.OutputColumns)
+        {
+            var alias = string.IsNullOrWhiteSpace(output.Alias)
+                ? null
+                : SpTemplateRendererUtilities.ValidateSqlIdentifier(output.Alias, nameof(output.Alias));
+            string name;
+            string expression;
+
+            if (!string.IsNullOrWhiteSpace(output.Expression))
+            {
+                name = alias ?? throw new ArgumentException("Computed columns need an alias.", nameof(opts.OutputColumns));
+                expression = SpTemplateRendererUtilities.ValidateComputedExpression(output.Expression);
+            }
+            else if (string.IsNullOrWhiteSpace(output.Source))
+            {
+                var col = SpTemplateRendererUtilities.FindColumn(cols, output.ColumnName)
+                    ?? throw new ArgumentException($"Output column '{output.ColumnName}' does not exist on the base table.", nameof(opts.OutputColumns));
+                name = alias ?? col.ColumnName;
+                expression = QualifyColumn(col.ColumnName, baseAlias);
+            }
+            else
+            {
+                var source = output.Source.Trim();
+                if (!joinAliases.Contains(source))
+                {
+                    throw new ArgumentException($"Output column source '{source}' is not a join alias.", nameof(opts.OutputColumns));
+                }
+                var columnName = SpTemplateRendererUtilities.ValidateSqlIdentifier(output.ColumnName ?? "", nameof(output.ColumnName));
+                name = alias ?? columnName;
+                expression = QualifyColumn(columnName, source);
+            }
+
+            if (outputs.Any(o => string.Equals(o.Name, name, StringComparison.OrdinalIgnoreCase)))
+            {
+                throw new ArgumentException($"Output column name '{name}' is used more than once; give one of them an alias.", nameof(opts.OutputColumns));
+            }
+
+            var selectItem = alias != null
+                ? $"{expression} AS {SpTemplateRendererUtilities.BracketIdentifier(alias)}"
+                : expression;
+            outputs.Add(new SelectOutput(name, expression, selectItem));
+        }
+
+        return outputs;
+    }
+
+    /// <summary>
+    /// Rows strictly after the @After* values in key order: k1 > @k1 OR (k1 = @k1 AND k2 > @k2) ...
+    /// </summary>
+    private static string BuildKeysetCondition(List<SpColumnConfig> keyCols, string? baseAlias)
+    {
+        var branches = keyCols.Select((col, i) =>
+        {
+            var terms = keyCols.Take(i)
+                .Select(prev => $"{QualifyColumn(prev.ColumnName, baseAlias)} = @After{ParamName(prev)}")
+                .Append($"{QualifyColumn(col.ColumnName, baseAlias)} > @After{ParamName(col)}")
+                .ToList();
+            return terms.Count == 1 ? terms[0] : $"({string.Join(" AND ", terms)})";
+        });
+
+        return $"(@After{ParamName(keyCols[0])} IS NULL OR {string.Join(" OR ", branches)})";
+    }
+
+    private static string BuildWhereFilters(List<FilterColumn> filters, string? baseAlias, string? extraCondition = null)
+    {
+        if (filters.Count == 0 && extraCondition == null)
         {
             return "";
         }
@@ -408,7 +975,7 @@ public class SpTemplateRenderer
         foreach (var filter in filters)
         {
             var parameterName = SpTemplateRendererUtilities.ValidateSqlIdentifier(filter.ColumnName, nameof(filter.ColumnName));
-            var columnIdentifier = SpTemplateRendererUtilities.BracketIdentifier(parameterName);
+            var columnIdentifier = QualifyColumn(parameterName, baseAlias);
             if (filter.IsOptional)
             {
                 if (filter.Operator == FilterOperator.Between)
@@ -459,30 +1026,11 @@ public class SpTemplateRenderer
             sb.AppendLine();
         }
 
-        return sb.ToString().TrimEnd();
-    }
-
-    private static string BuildPaginationParams(bool hasFilters)
-    {
-        var comma = hasFilters ? "," : "";
-        return $"{comma}\n    @PageNumber INT = 1,\n    @PageSize INT = 50";
-    }
-
-    private static string BuildPaginationLogic()
-    {
-        return "    DECLARE @Offset INT = (@PageNumber - 1) * @PageSize;\n";
-    }
-
-    private static string BuildPaginationFetch()
-    {
-        return "\n    OFFSET @Offset ROWS\n    FETCH NEXT @PageSize ROWS ONLY";
-    }
+        if (extraCondition != null)
+        {
+            sb.AppendLine($"        AND {extraCondition}");
+        }
 
-    private static string BuildTotalCount(string schemaQualifiedTableName, List<FilterColumn> filters)
-    {
-        var whereClause = filters.Count != 0 ? BuildWhereFilters(filters) : "";
-        var fromIdentifier = schemaQualifiedTableName; // expected to be bracketed/escaped already
-        return $"\n    \n    -- Total count\n    SELECT COUNT(*) AS TotalRecords\n    FROM {fromIdentifier}\n{whereClause};";
+        return sb.ToString().TrimEnd();
     }
-
 }
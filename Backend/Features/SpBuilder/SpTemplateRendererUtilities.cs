@@ -1,4 +1,5 @@
 using System.Text.RegularExpressions;
+using ActoEngine.WebApi.Features.Schema;
 
 namespace ActoEngine.WebApi.Features.SpBuilder;
 
@@ -78,6 +79,104 @@ public static class SpTemplateRendererUtilities
         return $"[{trimmed}]";
     }
 
+    /// <summary>
+    /// Double-quotes a PostgreSQL identifier so mixed-case names keep their case.
+    /// Accepts identifiers that may already be quoted and normalizes them.
+    /// </summary>
+    /// <exception cref="ArgumentException">Thrown when identifier is null, empty, or whitespace.</exception>
+    public static string QuoteIdentifier(string identifier)
+    {
+        if (string.IsNullOrWhiteSpace(identifier))
+        {
+            throw new ArgumentException("Identifier cannot be null, empty, or whitespace.", nameof(identifier));
+        }
+
+        var trimmed = identifier.Trim();
+        if (trimmed.StartsWith('"') && trimmed.EndsWith('"') && trimmed.Length >= 2)
+        {
+            trimmed = trimmed[1..^1];
+        }
+
+        return $"\"{trimmed.Replace("\"", "\"\"")}\"";
+    }
+
+    /// <summary>
+    /// Escapes a value for use inside a single-quoted SQL string literal (both dialects).
+    /// </summary>
+    public static string EscapeStringLiteral(string value)
+    {
+        return value.Replace("'", "''");
+    }
+
+    /// <summary>
+    /// Picks the generation dialect for a project's DatabaseType. Unknown types fall back to SQL Server.
+    /// </summary>
+    public static SqlDialect ResolveDialect(string? databaseType)
+    {
+        return (databaseType?.Trim().ToLowerInvariant()) switch
+        {
+            "postgresql" or "postgres" or "npgsql" => SqlDialect.PostgreSql,
+            _ => SqlDialect.SqlServer
+        };
+    }
+
+    /// <summary>
+    /// Finds a column by name, ignoring case. Returns null when the name is blank or not on the table.
+    /// </summary>
+    public static SpColumnConfig? FindColumn(List<SpColumnConfig> cols, string? columnName)
+    {
+        if (string.IsNullOrWhiteSpace(columnName))
+        {
+            return null;
+        }
+
+        var trimmed = columnName.Trim();
+        return cols.FirstOrDefault(c => string.Equals(c.ColumnName, trimmed, StringComparison.OrdinalIgnoreCase));
+    }
+
+    /// <summary>
+    /// Seek columns for keyset pagination: the ORDER BY columns followed by any primary key column
+    /// not already among them, so rows sharing the last sort value of a page are not skipped.
+    /// </summary>
+    /// <exception cref="ArgumentException">Thrown when the table has no primary key or an ORDER BY column is not on the table.</exception>
+    public static List<SpColumnConfig> ResolveKeysetColumns(List<SpColumnConfig> cols, List<string> orderByCols, string tableName)
+    {
+        var pkCols = cols.Where(c => c.IsPrimaryKey).ToList();
+        if (pkCols.Count == 0)
+        {
+            throw new ArgumentException($"Keyset pagination needs a primary key to break ties, but table '{tableName}' has none.", "opts");
+        }
+
+        var keyCols = orderByCols
+            .Select(name => FindColumn(cols, name)
+                ?? throw new ArgumentException($"Keyset column '{name}' must be a column of table '{tableName}'.", "OrderByColumns"))
+            .ToList();
+        keyCols.AddRange(pkCols.Where(pk => !keyCols.Contains(pk)));
+
+        return keyCols;
+    }
+
+    /// <summary>
+    /// Column configs for a stored table schema, with the default create/update inclusion
+    /// </summary>
+    public static List<SpColumnConfig> MapSchemaToColumns(TableSchemaResponse schema)
+    {
+        return [.. schema.Columns.Select(c => new SpColumnConfig
+        {
+            ColumnName = c.ColumnName,
+            DataType = c.DataType,
+            MaxLength = c.MaxLength,
+            Precision = c.Precision,
+            Scale = c.Scale,
+            IsNullable = c.IsNullable,
+            IsPrimaryKey = c.IsPrimaryKey,
+            IsIdentity = c.IsIdentity,
+            IncludeInCreate = !c.IsIdentity,
+            IncludeInUpdate = !c.IsIdentity && !c.IsPrimaryKey,
+            DefaultValue = c.DefaultValue
+        })];
+    }
+
     public static string GetSqlType(SpColumnConfig col)
     {
         var dt = col.DataType.ToUpper();
@@ -100,5 +199,59 @@ public static class SpTemplateRendererUtilities
 
         return col.DataType;
     }
-}
 
+    public static string GetPgSqlType(SpColumnConfig col)
+    {
+        return GetPgSqlType(col.DataType, col.MaxLength, col.Precision, col.Scale);
+    }
+
+    /// <summary>
+    /// Maps a column type to PostgreSQL. SQL Server type names are translated;
+    /// PostgreSQL names (from projects synced from Postgres) pass through.
+    /// </summary>
+    public static string GetPgSqlType(string dataType, int? maxLength = null, int? precision = null, int? scale = null)
+    {
+        // -1 (MAX) or a missing length means unbounded
+        var sized = maxLength is > 0;
+
+        return dataType.Trim().ToUpperInvariant() switch
+        {
+            "INT" or "INTEGER" or "INT4" => "integer",
+            "BIGINT" or "INT8" => "bigint",
+            "SMALLINT" or "TINYINT" or "INT2" => "smallint",
+            "BIT" or "BOOLEAN" or "BOOL" => "boolean",
+            "DECIMAL" or "NUMERIC" => $"numeric({precision ?? 18},{scale ?? 2})",
+            "MONEY" => "numeric(19,4)",
+            "SMALLMONEY" => "numeric(10,4)",
+            "FLOAT" or "FLOAT8" or "DOUBLE PRECISION" => "double precision",
+            "REAL" or "FLOAT4" => "real",
+            "VARCHAR" or "NVARCHAR" or "CHARACTER VARYING" => sized ? $"varchar({maxLength})" : "text",
+            "CHAR" or "NCHAR" or "CHARACTER" or "BPCHAR" => sized ? $"char({maxLength})" : "char",
+            "TEXT" or "NTEXT" or "SYSNAME" => "text",
+            "DATETIME" or "DATETIME2" or "SMALLDATETIME" or "TIMESTAMP" or "TIMESTAMP WITHOUT TIME ZONE" => "timestamp",
+            "DATETIMEOFFSET" or "TIMESTAMPTZ" or "TIMESTAMP WITH TIME ZONE" => "timestamptz",
+            "DATE" => "date",
+            "TIME" or "TIME WITHOUT TIME ZONE" => "time",
+            "UNIQUEIDENTIFIER" or "UUID" => "uuid",
+            "BINARY" or "VARBINARY" or "IMAGE" or "BYTEA" => "bytea",
+            "XML" => "xml",
+            _ => dataType.Trim().ToLowerInvariant()
+        };
+    }
+
+    /// <summary>
+    /// Computed columns are free-form SQL, but must stay a single expression
+    /// </summary>
+    public static string ValidateComputedExpression(string expression)
+    {
+        var trimmed = expression.Trim();
+        if (trimmed.Contains(';') || trimmed.Contains("--") || trimmed.Contains("/*"))
+        {
+            throw new ArgumentException(
+                $"Computed expression '{trimmed}' may not contain statement separators or comments.",
+                nameof(expression));
+        }
+
+        return trimmed;
+    }
+}
@@ -0,0 +1,35 @@
+/*
+  V028: Saved ER diagram views.
+
+  A view is a named, per-project snapshot of the ER diagram canvas:
+  focus tables, hop count, layout direction, node positions and hidden tables.
+  The layout is stored as JSON so the canvas state can grow without schema changes.
+*/
+
+IF OBJECT_ID('dbo.ErDiagramViews', 'U') IS NULL
+BEGIN
+    CREATE TABLE dbo.ErDiagramViews (
+        ViewId          INT NOT NULL IDENTITY(1,1),
+        ProjectId       INT            NOT NULL,
+        Name            NVARCHAR(100)  NOT NULL,
+        Description     NVARCHAR(500)  NULL,
+        LayoutJson      NVARCHAR(MAX)  NOT NULL,
+        CreatedBy       INT            NOT NULL,
+        UpdatedBy       INT            NULL,
+        CreatedAt       DATETIME2      NOT NULL DEFAULT GETUTCDATE(),
+        UpdatedAt       DATETIME2      NULL,
+        CONSTRAINT PK_ErDiagramViews PRIMARY KEY (ViewId),
+        CONSTRAINT CK_ErDiagramViews_LayoutJson CHECK (ISJSON(LayoutJson) = 1),
+        CONSTRAINT FK_ErDiagramViews_Projects FOREIGN KEY (ProjectId) REFERENCES Projects(ProjectId) ON DELETE CASCADE,
+        CONSTRAINT FK_ErDiagramViews_CreatedBy FOREIGN KEY (CreatedBy) REFERENCES Users(UserID),
+        CONSTRAINT FK_ErDiagramViews_UpdatedBy FOREIGN KEY (UpdatedBy) REFERENCES Users(UserID),
+        CONSTRAINT UQ_ErDiagramViews_Project_Name UNIQUE (ProjectId, Name)
+    );
+END
+
+-- --- INDEXES ---
+
+IF NOT EXISTS (SELECT 1 FROM sys.indexes WHERE name = 'IX_ErDiagramViews_CreatedBy' AND object_id = OBJECT_ID('dbo.ErDiagramViews'))
+BEGIN
+    CREATE INDEX IX_ErDiagramViews_CreatedBy ON dbo.ErDiagramViews(CreatedBy);
+END
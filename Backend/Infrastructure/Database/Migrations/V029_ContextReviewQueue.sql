@@ -0,0 +1,23 @@
+/*
+  V029: Stale-context review queue.
+
+  Experts can confirm that documented context is still accurate without editing it,
+  or snooze an entity out of the queue for a number of days. Staleness is measured
+  from the later of LastContextUpdate and LastReviewedAt.
+*/
+
+IF COL_LENGTH('dbo.EntityContext', 'LastReviewedAt') IS NULL
+BEGIN
+    ALTER TABLE dbo.EntityContext ADD LastReviewedAt DATETIME2 NULL;
+END;
+
+IF COL_LENGTH('dbo.EntityContext', 'LastReviewedBy') IS NULL
+BEGIN
+    ALTER TABLE dbo.EntityContext ADD LastReviewedBy INT NULL
+        CONSTRAINT FK_EntityContext_LastReviewedBy FOREIGN KEY REFERENCES Users(UserID);
+END;
+
+IF COL_LENGTH('dbo.EntityContext', 'ReviewSnoozedUntil') IS NULL
+BEGIN
+    ALTER TABLE dbo.EntityContext ADD ReviewSnoozedUntil DATETIME2 NULL;
+END;
@@ -0,0 +1,23 @@
+/*
+  V030: Sensitivity classifier rejections.
+
+  The sensitivity classifier proposes PII / FINANCIAL / ... tags for columns from their
+  names and data types. Accepted proposals are saved as EntityContext.Sensitivity; rejected
+  ones are recorded here so the same tag is not proposed again for that column.
+*/
+
+IF OBJECT_ID('dbo.SensitivityProposalRejections', 'U') IS NULL
+BEGIN
+    CREATE TABLE dbo.SensitivityProposalRejections (
+        RejectionId     INT NOT NULL IDENTITY(1,1),
+        ProjectId       INT            NOT NULL,
+        ColumnId        INT            NOT NULL,
+        Sensitivity     NVARCHAR(50)   NOT NULL,
+        RejectedBy      INT            NOT NULL,
+        RejectedAt      DATETIME2      NOT NULL DEFAULT GETUTCDATE(),
+        CONSTRAINT PK_SensitivityProposalRejections PRIMARY KEY (RejectionId),
+        CONSTRAINT FK_SensitivityProposalRejections_ProjectId FOREIGN KEY (ProjectId) REFERENCES Projects(ProjectId),
+        CONSTRAINT FK_SensitivityProposalRejections_RejectedBy FOREIGN KEY (RejectedBy) REFERENCES Users(UserID),
+        CONSTRAINT UQ_SensitivityProposalRejections_Column UNIQUE (ProjectId, ColumnId, Sensitivity)
+    );
+END
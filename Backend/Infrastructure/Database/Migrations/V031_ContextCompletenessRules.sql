@@ -0,0 +1,21 @@
+/*
+  V031: Per-project context completeness rules.
+
+  Which EntityContext fields count toward completeness for each entity type, their weights,
+  which of them must be filled for an entity to count as documented, and the score thresholds
+  for "good" and "fair". Stored as JSON; projects without a row use the built-in defaults.
+*/
+
+IF OBJECT_ID('dbo.ContextCompletenessRules', 'U') IS NULL
+BEGIN
+    CREATE TABLE dbo.ContextCompletenessRules (
+        ProjectId       INT            NOT NULL,
+        RulesJson       NVARCHAR(MAX)  NOT NULL,
+        UpdatedBy       INT            NOT NULL,
+        UpdatedAt       DATETIME2      NOT NULL DEFAULT GETUTCDATE(),
+        CONSTRAINT PK_ContextCompletenessRules PRIMARY KEY (ProjectId),
+        CONSTRAINT CK_ContextCompletenessRules_RulesJson CHECK (ISJSON(RulesJson) = 1),
+        CONSTRAINT FK_ContextCompletenessRules_Projects FOREIGN KEY (ProjectId) REFERENCES Projects(ProjectId) ON DELETE CASCADE,
+        CONSTRAINT FK_ContextCompletenessRules_UpdatedBy FOREIGN KEY (UpdatedBy) REFERENCES Users(UserID)
+    );
+END
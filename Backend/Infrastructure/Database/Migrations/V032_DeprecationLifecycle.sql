@@ -0,0 +1,24 @@
+/*
+  V032: Deprecation lifecycle for deprecated entities.
+
+  Deprecated context moves through ANNOUNCED -> MIGRATING -> READY_TO_DROP -> DROPPED,
+  with an optional target removal date. Rows deprecated before this migration have no
+  status and are treated as ANNOUNCED.
+*/
+
+IF COL_LENGTH('dbo.EntityContext', 'DeprecationStatus') IS NULL
+BEGIN
+    ALTER TABLE dbo.EntityContext ADD DeprecationStatus NVARCHAR(20) NULL
+        CONSTRAINT CK_EntityContext_DeprecationStatus
+            CHECK (DeprecationStatus IN ('ANNOUNCED', 'MIGRATING', 'READY_TO_DROP', 'DROPPED'));
+END;
+
+IF COL_LENGTH('dbo.EntityContext', 'TargetRemovalDate') IS NULL
+BEGIN
+    ALTER TABLE dbo.EntityContext ADD TargetRemovalDate DATE NULL;
+END;
+
+IF COL_LENGTH('dbo.EntityContext', 'DeprecationUpdatedAt') IS NULL
+BEGIN
+    ALTER TABLE dbo.EntityContext ADD DeprecationUpdatedAt DATETIME2 NULL;
+END;
@@ -0,0 +1,56 @@
+/*
+  V033: Saved SP Builder configurations with version history.
+
+  A configuration is a named, per-project and per-table set of SP Builder options.
+  Every save appends a version; the configuration row points at the latest one so
+  earlier versions stay available to load or compare. Options are stored as JSON,
+  together with the column snapshot they were saved against, so saved procedures can
+  be regenerated and checked for column drift after a schema resync.
+*/
+
+IF OBJECT_ID('dbo.SpBuilderConfigs', 'U') IS NULL
+BEGIN
+    CREATE TABLE dbo.SpBuilderConfigs (
+        ConfigId        INT NOT NULL IDENTITY(1,1),
+        ProjectId       INT            NOT NULL,
+        SchemaName      NVARCHAR(128)  NOT NULL,
+        TableName       NVARCHAR(128)  NOT NULL,
+        Name            NVARCHAR(100)  NOT NULL,
+        SpType          NVARCHAR(20)   NOT NULL,
+        CurrentVersion  INT            NOT NULL DEFAULT 1,
+        CreatedBy       INT            NOT NULL,
+        UpdatedBy       INT            NULL,
+        CreatedAt       DATETIME2      NOT NULL DEFAULT GETUTCDATE(),
+        UpdatedAt       DATETIME2      NULL,
+        CONSTRAINT PK_SpBuilderConfigs PRIMARY KEY (ConfigId),
+        CONSTRAINT FK_SpBuilderConfigs_Projects FOREIGN KEY (ProjectId) REFERENCES Projects(ProjectId) ON DELETE CASCADE,
+        CONSTRAINT FK_SpBuilderConfigs_CreatedBy FOREIGN KEY (CreatedBy) REFERENCES Users(UserID),
+        CONSTRAINT FK_SpBuilderConfigs_UpdatedBy FOREIGN KEY (UpdatedBy) REFERENCES Users(UserID),
+        CONSTRAINT UQ_SpBuilderConfigs_Project_Table_Name UNIQUE (ProjectId, SchemaName, TableName, Name)
+    );
+END
+
+IF OBJECT_ID('dbo.SpBuilderConfigVersions', 'U') IS NULL
+BEGIN
+    CREATE TABLE dbo.SpBuilderConfigVersions (
+        ConfigVersionId INT NOT NULL IDENTITY(1,1),
+        ConfigId        INT            NOT NULL,
+        VersionNumber   INT            NOT NULL,
+        ConfigJson      NVARCHAR(MAX)  NOT NULL,
+        Note            NVARCHAR(500)  NULL,
+        CreatedBy       INT            NOT NULL,
+        CreatedAt       DATETIME2      NOT NULL DEFAULT GETUTCDATE(),
+        CONSTRAINT PK_SpBuilderConfigVersions PRIMARY KEY (ConfigVersionId),
+        CONSTRAINT CK_SpBuilderConfigVersions_ConfigJson CHECK (ISJSON(ConfigJson) = 1),
+        CONSTRAINT FK_SpBuilderConfigVersions_Configs FOREIGN KEY (ConfigId) REFERENCES SpBuilderConfigs(ConfigId) ON DELETE CASCADE,
+        CONSTRAINT FK_SpBuilderConfigVersions_CreatedBy FOREIGN KEY (CreatedBy) REFERENCES Users(UserID),
+        CONSTRAINT UQ_SpBuilderConfigVersions_Config_Version UNIQUE (ConfigId, VersionNumber)
+    );
+END
+
+-- --- INDEXES ---
+
+IF NOT EXISTS (SELECT 1 FROM sys.indexes WHERE name = 'IX_SpBuilderConfigs_CreatedBy' AND object_id = OBJECT_ID('dbo.SpBuilderConfigs'))
+BEGIN
+    CREATE INDEX IX_SpBuilderConfigs_CreatedBy ON dbo.SpBuilderConfigs(CreatedBy);
+END
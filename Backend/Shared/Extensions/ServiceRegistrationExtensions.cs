@@ -38,6 +38,8 @@ namespace ActoEngine.WebApi.Shared.Extensions
 
             // Configure batch settings from appsettings.json
             services.Configure<BatchSettings>(configuration.GetSection("BatchSettings"));
+            services.Configure<ContextReviewSettings>(configuration.GetSection("ContextReview"));
+            services.Configure<SensitivityClassifierSettings>(configuration.GetSection("SensitivityClassifier"));
             services.Configure<DatabaseSeedingOptions>(configuration.GetSection("DatabaseSeeding"));
 
 
@@ -83,6 +85,12 @@ namespace ActoEngine.WebApi.Shared.Extensions
             // ER Diagram Services
             services.AddScoped<IErDiagramRepository, ErDiagramRepository>();
             services.AddScoped<IErDiagramService, ErDiagramService>();
+            services.AddScoped<IErDiagramViewRepository, ErDiagramViewRepository>();
+            services.AddScoped<IErDiagramViewService, ErDiagramViewService>();
+
+            // Saved SP Builder configurations
+            services.AddScoped<ISpConfigRepository, SpConfigRepository>();
+            services.AddScoped<ISpConfigService, SpConfigService>();
 
             // Impact Analysis Services
             services.AddScoped<IImpactFacade, ImpactFacade>();
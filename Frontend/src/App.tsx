@@ -16,9 +16,15 @@ import ProjectSetup from "@/pages/ProjectSetup";
 import ProjectHub from "@/pages/ProjectHub";
 import ProjectSettings from "@/pages/ProjectSetting";
 import { ContextDashboard } from "@/pages/ContextDashboard";
+import BulkContextEditorPage from "@/pages/BulkContextEditor";
+import ContextReviewQueuePage from "@/pages/ContextReviewQueue";
+import SensitivityClassifierPage from "@/pages/SensitivityClassifier";
+import DeprecationBoardPage from "@/pages/DeprecationBoard";
 import EntityExplorer from "@/pages/EntityExplorer";
 import ImpactAnalysisPage from "@/pages/ImpactAnalysis";
+import ImpactChangeSetPage from "@/pages/ImpactChangeSet";
 import ERDiagramPage from "@/pages/ERDiagram";
+import LogicalFkReviewPage from "@/pages/LogicalFkReview";
 import UserManagementPage from "@/pages/UserManagement";
 import RoleManagementPage from "@/pages/RoleManagement";
 import EntityDetailPage from "@/pages/EntityDetailPage";
@@ -78,6 +84,38 @@ function AppRoutes() {
             </PermissionRoute>
           }
         />
+        <Route
+          path="context/bulk-edit"
+          element={
+            <PermissionRoute permission="Contexts:Read">
+              <BulkContextEditorPage />
+            </PermissionRoute>
+          }
+        />
+        <Route
+          path="context/review"
+          element={
+            <PermissionRoute permission="Contexts:Read">
+              <ContextReviewQueuePage />
+            </PermissionRoute>
+          }
+        />
+        <Route
+          path="context/sensitivity"
+          element={
+            <PermissionRoute permission="Contexts:Read">
+              <SensitivityClassifierPage />
+            </PermissionRoute>
+          }
+        />
+        <Route
+          path="context/deprecations"
+          element={
+            <PermissionRoute permission="Contexts:Read">
+              <DeprecationBoardPage />
+            </PermissionRoute>
+          }
+        />
         {/* Project routes */}
         <Route
           path="projects"
@@ -216,7 +254,15 @@ function AppRoutes() {
           }
         />
 
-        {/* Impact Analysis route */}
+        {/* Impact Analysis routes */}
+        <Route
+          path="project/:projectId/impact/change-set"
+          element={
+            <PermissionRoute permission="Contexts:Read">
+              <ImpactChangeSetPage />
+            </PermissionRoute>
+          }
+        />
         <Route
           path="project/:projectId/impact/:entityType/:entityId"
           element={
@@ -235,6 +281,14 @@ function AppRoutes() {
             </PermissionRoute>
           }
         />
+        <Route
+          path="project/:projectId/logical-fks/review"
+          element={
+            <PermissionRoute permission="Schema:Read">
+              <LogicalFkReviewPage />
+            </PermissionRoute>
+          }
+        />
         <Route path="access-denied" element={<AccessDenied />} />
         {/* Standalone column route for direct navigation from context dialogs */}
 
@@ -0,0 +1,778 @@
+// components/context/BulkContextGrid.tsx
+import {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  type ClipboardEvent,
+  type KeyboardEvent,
+} from "react";
+import {
+  type ColumnDef,
+  flexRender,
+  getCoreRowModel,
+  getFilteredRowModel,
+  useReactTable,
+} from "@tanstack/react-table";
+import { useVirtualizer } from "@tanstack/react-virtual";
+import { ArrowDownToLine } from "lucide-react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Popover, PopoverAnchor, PopoverContent } from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import type { ContextGridRow } from "@/types/context";
+import type { ProjectUser } from "@/types/project";
+import {
+  GRID_FIELDS,
+  type GridEdits,
+  type GridField,
+  type GridFieldDef,
+  type GridValue,
+  applyEdit,
+  formatCellValue,
+  getCellValue,
+  getRowKey,
+  parseCellInput,
+  parseClipboardGrid,
+  toClipboardText,
+} from "./contextGridEdits";
+
+const ROW_HEIGHT = 36;
+const ENTITY_COLUMN_WIDTH = 280;
+const PAGE_ROWS = 15;
+const NO_VALUE = "__none__";
+
+interface CellPosition {
+  row: number;
+  col: number;
+}
+
+interface EditingCell extends CellPosition {
+  /** Keystroke that started the edit, replaces the current text */
+  initial?: string;
+}
+
+interface CellChange {
+  row: ContextGridRow;
+  field: GridField;
+  value: GridValue;
+}
+
+type MoveAfterEdit = "down" | "right" | "left" | null;
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.max(min, Math.min(max, value));
+
+const ENTITY_TYPE_LABELS: Record<string, string> = {
+  TABLE: "Table",
+  COLUMN: "Column",
+  SP: "SP",
+  FUNCTION: "Function",
+  VIEW: "View",
+};
+
+const SHORTCUTS = [
+  { keys: "Ctrl+V", label: "Paste from Excel" },
+  { keys: "Ctrl+D", label: "Fill down" },
+  { keys: "Enter", label: "Edit" },
+  { keys: "Del", label: "Clear" },
+];
+
+interface BulkContextGridProps {
+  rows: ContextGridRow[];
+  edits: GridEdits;
+  onEditsChange: (update: (prev: GridEdits) => GridEdits) => void;
+  users: ProjectUser[];
+  /** Case-insensitive filter on entity (and parent table) name */
+  filter: string;
+  readOnly?: boolean;
+}
+
+/**
+ * Spreadsheet-style context editor.
+ *
+ * Rows are virtualized so whole schemas can be edited at once. Cells are selected
+ * with the mouse or keyboard; blocks copied from Excel paste from the active cell,
+ * a single copied value fills the whole selection, and Ctrl+D fills down. Edits are
+ * only recorded here - the owner decides when to save them.
+ */
+export function BulkContextGrid({
+  rows,
+  edits,
+  onEditsChange,
+  users,
+  filter,
+  readOnly = false,
+}: BulkContextGridProps) {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const isDragging = useRef(false);
+  const [active, setActive] = useState<CellPosition>({ row: 0, col: 0 });
+  const [anchor, setAnchor] = useState<CellPosition>({ row: 0, col: 0 });
+  const [editing, setEditing] = useState<EditingCell | null>(null);
+
+  const columns = useMemo<ColumnDef<ContextGridRow>[]>(
+    () => [
+      {
+        id: "entity",
+        header: "Entity",
+        size: ENTITY_COLUMN_WIDTH,
+        accessorFn: (row) =>
+          row.parentName ? `${row.parentName}.${row.entityName}` : row.entityName,
+      },
+      ...GRID_FIELDS.map<ColumnDef<ContextGridRow>>((def) => ({
+        id: def.field,
+        header: def.label,
+        size: def.width,
+        accessorFn: (row) => row[def.field],
+      })),
+    ],
+    [],
+  );
+
+  const table = useReactTable({
+    data: rows,
+    columns,
+    state: { globalFilter: filter },
+    globalFilterFn: "includesString",
+    getColumnCanGlobalFilter: (column) => column.id === "entity",
+    getCoreRowModel: getCoreRowModel(),
+    getFilteredRowModel: getFilteredRowModel(),
+  });
+
+  const tableRows = table.getRowModel().rows;
+  const totalWidth = table.getTotalSize();
+  const lastRow = tableRows.length - 1;
+  const lastCol = GRID_FIELDS.length - 1;
+
+  const virtualizer = useVirtualizer({
+    count: tableRows.length,
+    getScrollElement: () => scrollRef.current,
+    estimateSize: () => ROW_HEIGHT,
+    overscan: 12,
+    scrollPaddingStart: ROW_HEIGHT,
+  });
+
+  // Keep the selection inside the grid when filters shrink the row list
+  useEffect(() => {
+    setEditing(null);
+    setActive((prev) => ({ ...prev, row: clamp(prev.row, 0, Math.max(lastRow, 0)) }));
+    setAnchor((prev) => ({ ...prev, row: clamp(prev.row, 0, Math.max(lastRow, 0)) }));
+  }, [lastRow]);
+
+  useEffect(() => {
+    const stopDragging = () => {
+      isDragging.current = false;
+    };
+    window.addEventListener("mouseup", stopDragging);
+    return () => window.removeEventListener("mouseup", stopDragging);
+  }, []);
+
+  const range = {
+    top: Math.min(active.row, anchor.row),
+    bottom: Math.max(active.row, anchor.row),
+    left: Math.min(active.col, anchor.col),
+    right: Math.max(active.col, anchor.col),
+  };
+
+  const isInRange = (row: number, col: number) =>
+    row >= range.top && row <= range.bottom && col >= range.left && col <= range.right;
+
+  const focusGrid = () => scrollRef.current?.focus({ preventScroll: true });
+
+  const commitChanges = useCallback(
+    (changes: CellChange[]) => {
+      if (readOnly || changes.length === 0) return;
+      onEditsChange((prev) =>
+        changes.reduce((acc, change) => applyEdit(acc, change.row, change.field, change.value), prev),
+      );
+    },
+    [onEditsChange, readOnly],
+  );
+
+  const selectCell = (next: CellPosition, extend: boolean) => {
+    const cell = { row: clamp(next.row, 0, lastRow), col: clamp(next.col, 0, lastCol) };
+    setActive(cell);
+    if (!extend) setAnchor(cell);
+    virtualizer.scrollToIndex(cell.row);
+  };
+
+  const moveBy = (dRow: number, dCol: number, extend = false) =>
+    selectCell({ row: active.row + dRow, col: active.col + dCol }, extend);
+
+  const startEdit = (cell: CellPosition, initial?: string) => {
+    if (readOnly || !tableRows[cell.row]) return;
+    const def = GRID_FIELDS[cell.col];
+    const row = tableRows[cell.row].original;
+    if (def.kind === "boolean") {
+      commitChanges([{ row, field: def.field, value: !getCellValue(row, def.field, edits) }]);
+      return;
+    }
+    setEditing({ ...cell, initial: def.kind === "text" ? initial : undefined });
+  };
+
+  const finishEdit = (value: GridValue | undefined, move: MoveAfterEdit, commit: boolean) => {
+    if (!editing) return;
+    const row = tableRows[editing.row]?.original;
+    if (commit && row) {
+      commitChanges([{ row, field: GRID_FIELDS[editing.col].field, value }]);
+    }
+    setEditing(null);
+    if (move === "down") moveBy(1, 0);
+    if (move === "right") moveBy(0, 1);
+    if (move === "left") moveBy(0, -1);
+    focusGrid();
+  };
+
+  const cellsInRange = () => {
+    const cells: Array<{ row: ContextGridRow; def: GridFieldDef }> = [];
+    for (let r = range.top; r <= range.bottom; r++) {
+      for (let c = range.left; c <= range.right; c++) {
+        cells.push({ row: tableRows[r].original, def: GRID_FIELDS[c] });
+      }
+    }
+    return cells;
+  };
+
+  const clearSelection = () => {
+    commitChanges(
+      cellsInRange().map(({ row, def }) => ({
+        row,
+        field: def.field,
+        value: def.kind === "boolean" ? false : def.kind === "experts" ? [] : undefined,
+      })),
+    );
+  };
+
+  // Excel semantics: copy the top row of the selection down; a single row copies from the row above
+  const fillDown = () => {
+    if (readOnly || tableRows.length === 0) return;
+    const sourceIndex = range.top === range.bottom ? range.top - 1 : range.top;
+    if (sourceIndex < 0) return;
+    const source = tableRows[sourceIndex].original;
+    const firstTarget = range.top === range.bottom ? range.top : range.top + 1;
+
+    const changes: CellChange[] = [];
+    for (let c = range.left; c <= range.right; c++) {
+      const field = GRID_FIELDS[c].field;
+      const value = getCellValue(source, field, edits);
+      for (let r = firstTarget; r <= range.bottom; r++) {
+        changes.push({ row: tableRows[r].original, field, value });
+      }
+    }
+    commitChanges(changes);
+  };
+
+  const handleCopy = (e: ClipboardEvent<HTMLDivElement>) => {
+    if (editing || tableRows.length === 0) return;
+    e.preventDefault();
+    const values: string[][] = [];
+    for (let r = range.top; r <= range.bottom; r++) {
+      const row = tableRows[r].original;
+      const line: string[] = [];
+      for (let c = range.left; c <= range.right; c++) {
+        const def = GRID_FIELDS[c];
+        line.push(formatCellValue(def, getCellValue(row, def.field, edits), users));
+      }
+      values.push(line);
+    }
+    e.clipboardData.setData("text/plain", toClipboardText(values));
+  };
+
+  const handlePaste = (e: ClipboardEvent<HTMLDivElement>) => {
+    if (editing || readOnly || tableRows.length === 0) return;
+    const block = parseClipboardGrid(e.clipboardData.getData("text/plain"));
+    if (block.length === 0) return;
+    e.preventDefault();
+
+    // A single copied value fills the whole selection, a block pastes from its top-left cell
+    const single = block.length === 1 && block[0].length === 1;
+    const rowCount = single ? range.bottom - range.top + 1 : block.length;
+    const colCount = single
+      ? range.right - range.left + 1
+      : Math.max(...block.map((line) => line.length));
+
+    const changes: CellChange[] = [];
+    let rejected = 0;
+    let clipped = 0;
+    for (let i = 0; i < rowCount; i++) {
+      for (let j = 0; j < colCount; j++) {
+        const raw = single ? block[0][0] : block[i][j];
+        if (raw === undefined) continue;
+        const rowIndex = range.top + i;
+        const colIndex = range.left + j;
+        if (rowIndex > lastRow || colIndex > lastCol) {
+          clipped++;
+          continue;
+        }
+        const def = GRID_FIELDS[colIndex];
+        const parsed = parseCellInput(def, raw, users);
+        if (!parsed) {
+          rejected++;
+          continue;
+        }
+        changes.push({ row: tableRows[rowIndex].original, field: def.field, value: parsed.value });
+      }
+    }
+
+    commitChanges(changes);
+    setAnchor({ row: range.top, col: range.left });
+    setActive({
+      row: clamp(range.top + rowCount - 1, 0, lastRow),
+      col: clamp(range.left + colCount - 1, 0, lastCol),
+    });
+
+    if (rejected > 0) {
+      toast.warning(`${rejected} pasted value${rejected === 1 ? "" : "s"} skipped`, {
+        description: "Values must match the column's options, and experts must be project members.",
+      });
+    }
+    if (clipped > 0) {
+      toast.info(`${clipped} pasted cell${clipped === 1 ? "" : "s"} fell outside the grid`);
+    }
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLDivElement>) => {
+    // Editors (including portaled select/popover content) handle their own keys
+    if (editing || tableRows.length === 0) return;
+    const mod = e.ctrlKey || e.metaKey;
+
+    switch (e.key) {
+      case "ArrowDown":
+        e.preventDefault();
+        moveBy(1, 0, e.shiftKey);
+        return;
+      case "ArrowUp":
+        e.preventDefault();
+        moveBy(-1, 0, e.shiftKey);
+        return;
+      case "ArrowRight":
+        e.preventDefault();
+        moveBy(0, 1, e.shiftKey);
+        return;
+      case "ArrowLeft":
+        e.preventDefault();
+        moveBy(0, -1, e.shiftKey);
+        return;
+      case "Tab":
+        e.preventDefault();
+        moveBy(0, e.shiftKey ? -1 : 1);
+        return;
+      case "PageDown":
+        e.preventDefault();
+        moveBy(PAGE_ROWS, 0, e.shiftKey);
+        return;
+      case "PageUp":
+        e.preventDefault();
+        moveBy(-PAGE_ROWS, 0, e.shiftKey);
+        return;
+      case "Enter":
+      case "F2":
+        e.preventDefault();
+        startEdit(active);
+        return;
+      case " ":
+        if (GRID_FIELDS[active.col].kind === "boolean") {
+          e.preventDefault();
+          startEdit(active);
+        }
+        return;
+      case "Delete":
+      case "Backspace":
+        e.preventDefault();
+        clearSelection();
+        return;
+      case "Escape":
+        setAnchor(active);
+        return;
+    }
+
+    if (mod && e.key.toLowerCase() === "d") {
+      e.preventDefault();
+      fillDown();
+      return;
+    }
+    if (mod && e.key.toLowerCase() === "a") {
+      e.preventDefault();
+      setAnchor({ row: 0, col: 0 });
+      setActive({ row: lastRow, col: lastCol });
+      return;
+    }
+    // Typing over a text cell starts editing with that character
+    if (!mod && !e.altKey && e.key.length === 1 && GRID_FIELDS[active.col].kind === "text") {
+      e.preventDefault();
+      startEdit(active, e.key);
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-full min-h-0 gap-2">
+      <div className="flex items-center justify-between gap-4 text-xs text-muted-foreground">
+        <div className="flex flex-wrap items-center gap-3">
+          {SHORTCUTS.map((shortcut) => (
+            <span key={shortcut.keys} className="flex items-center gap-1.5">
+              <kbd className="rounded border bg-muted px-1.5 py-0.5 font-mono text-[10px]">
+                {shortcut.keys}
+              </kbd>
+              {shortcut.label}
+            </span>
+          ))}
+        </div>
+        <div className="flex items-center gap-3">
+          <span>
+            {tableRows.length.toLocaleString()} of {rows.length.toLocaleString()} entities
+          </span>
+          {!readOnly && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-7 text-xs"
+              disabled={tableRows.length === 0 || (range.top === range.bottom && range.top === 0)}
+              onClick={() => {
+                fillDown();
+                focusGrid();
+              }}
+            >
+              <ArrowDownToLine className="w-3.5 h-3.5 mr-1.5" />
+              Fill Down
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div
+        ref={scrollRef}
+        tabIndex={0}
+        role="grid"
+        aria-rowcount={tableRows.length}
+        aria-colcount={GRID_FIELDS.length + 1}
+        className="relative flex-1 min-h-0 overflow-auto rounded-lg border bg-background focus:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+        onKeyDown={handleKeyDown}
+        onCopy={handleCopy}
+        onPaste={handlePaste}
+      >
+        <div style={{ width: totalWidth }}>
+          {/* Header */}
+          {table.getHeaderGroups().map((headerGroup) => (
+            <div
+              key={headerGroup.id}
+              role="row"
+              className="sticky top-0 z-20 flex border-b bg-muted text-xs font-medium text-muted-foreground"
+              style={{ height: ROW_HEIGHT }}
+            >
+              {headerGroup.headers.map((header) => (
+                <div
+                  key={header.id}
+                  role="columnheader"
+                  className={cn(
+                    "flex items-center px-3 border-r last:border-r-0",
+                    header.column.id === "entity" && "sticky left-0 z-10 bg-muted",
+                  )}
+                  style={{ width: header.getSize() }}
+                >
+                  {flexRender(header.column.columnDef.header, header.getContext())}
+                </div>
+              ))}
+            </div>
+          ))}
+
+          {/* Body */}
+          <div className="relative" style={{ height: virtualizer.getTotalSize() }}>
+            {virtualizer.getVirtualItems().map((item) => {
+              const row = tableRows[item.index].original;
+              const rowEdits = edits.get(getRowKey(row));
+              return (
+                <div
+                  key={getRowKey(row)}
+                  role="row"
+                  className="absolute left-0 flex border-b text-sm"
+                  style={{ height: item.size, width: totalWidth, transform: `translateY(${item.start}px)` }}
+                >
+                  <div
+                    role="rowheader"
+                    className="sticky left-0 z-10 flex items-center gap-2 px-3 border-r bg-background"
+                    style={{ width: ENTITY_COLUMN_WIDTH }}
+                  >
+                    <Badge variant="outline" className="h-5 px-1.5 text-[10px] shrink-0">
+                      {ENTITY_TYPE_LABELS[row.entityType] ?? row.entityType}
+                    </Badge>
+                    <span className="truncate" title={row.parentName ? `${row.parentName}.${row.entityName}` : row.entityName}>
+                      {row.parentName && (
+                        <span className="text-muted-foreground">{row.parentName}.</span>
+                      )}
+                      <span className="font-medium">{row.entityName}</span>
+                    </span>
+                  </div>
+
+                  {GRID_FIELDS.map((def, col) => {
+                    const value = getCellValue(row, def.field, edits);
+                    const isActive = active.row === item.index && active.col === col;
+                    const isEditing = editing?.row === item.index && editing.col === col;
+                    const isDirty = !!rowEdits && def.field in rowEdits;
+                    return (
+                      <div
+                        key={def.field}
+                        role="gridcell"
+                        aria-selected={isInRange(item.index, col)}
+                        className={cn(
+                          "relative flex items-center px-3 border-r last:border-r-0 cursor-cell select-none",
+                          isDirty && "bg-amber-500/10",
+                          isInRange(item.index, col) && "bg-primary/10",
+                          isActive && "ring-2 ring-inset ring-primary",
+                        )}
+                        style={{ width: def.width }}
+                        onMouseDown={(e) => {
+                          if (e.button !== 0 || isEditing) return;
+                          isDragging.current = true;
+                          const cell = { row: item.index, col };
+                          setActive(cell);
+                          if (!e.shiftKey) setAnchor(cell);
+                        }}
+                        onMouseEnter={() => {
+                          if (isDragging.current) setActive({ row: item.index, col });
+                        }}
+                        onDoubleClick={() => {
+                          if (def.kind !== "boolean") startEdit({ row: item.index, col });
+                        }}
+                      >
+                        {isDirty && (
+                          <span className="absolute right-0 top-0 h-0 w-0 border-l-[6px] border-t-[6px] border-l-transparent border-t-amber-500" />
+                        )}
+                        {isEditing ? (
+                          <CellEditor
+                            def={def}
+                            value={value}
+                            initial={editing?.initial}
+                            users={users}
+                            lockedExperts={row.expertUserIds}
+                            onDone={finishEdit}
+                          />
+                        ) : def.kind === "boolean" ? (
+                          <Checkbox
+                            checked={!!value}
+                            disabled={readOnly}
+                            onMouseDown={(e) => e.stopPropagation()}
+                            onCheckedChange={(checked) =>
+                              commitChanges([{ row, field: def.field, value: checked === true }])
+                            }
+                          />
+                        ) : (
+                          <CellDisplay def={def} value={value} users={users} />
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              );
+            })}
+          </div>
+
+          {tableRows.length === 0 && (
+            <div className="p-12 text-center text-sm text-muted-foreground">
+              No entities match the current filters.
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function CellDisplay({
+  def,
+  value,
+  users,
+}: {
+  def: GridFieldDef;
+  value: GridValue;
+  users: ProjectUser[];
+}) {
+  const text = formatCellValue(def, value, users);
+  if (!text) return <span className="text-muted-foreground/50">—</span>;
+
+  const isSensitive = def.field === "sensitivity" && (value === "PII" || value === "FINANCIAL");
+  const isCritical = def.field === "criticalityLevel" && typeof value === "number" && value >= 4;
+  return (
+    <span
+      className={cn(
+        "truncate",
+        (isSensitive || isCritical) && "text-red-600 dark:text-red-400 font-medium",
+      )}
+      title={text}
+    >
+      {text}
+    </span>
+  );
+}
+
+interface CellEditorProps {
+  def: GridFieldDef;
+  value: GridValue;
+  initial?: string;
+  users: ProjectUser[];
+  lockedExperts: number[];
+  onDone: (value: GridValue | undefined, move: MoveAfterEdit, commit: boolean) => void;
+}
+
+function CellEditor({ def, value, initial, users, lockedExperts, onDone }: CellEditorProps) {
+  if (def.kind === "text") {
+    return <TextCellEditor initial={initial ?? (value as string | undefined) ?? ""} onDone={onDone} />;
+  }
+  if (def.kind === "experts") {
+    return (
+      <ExpertsCellEditor
+        value={(value as number[] | undefined) ?? []}
+        users={users}
+        lockedExperts={lockedExperts}
+        onDone={onDone}
+      />
+    );
+  }
+
+  return (
+    <Select
+      defaultOpen
+      value={value === undefined ? NO_VALUE : String(value)}
+      onValueChange={(next) => {
+        const option = def.options?.find((o) => String(o.value) === next);
+        onDone(option?.value, "down", true);
+      }}
+      onOpenChange={(open) => {
+        if (!open) onDone(undefined, null, false);
+      }}
+    >
+      <SelectTrigger className="absolute inset-0 h-full w-full rounded-none border-0 text-sm shadow-none focus:ring-0">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NO_VALUE}>
+          <span className="text-muted-foreground">Not set</span>
+        </SelectItem>
+        {def.options?.map((option) => (
+          <SelectItem key={option.value} value={String(option.value)}>
+            {option.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+function TextCellEditor({
+  initial,
+  onDone,
+}: {
+  initial: string;
+  onDone: CellEditorProps["onDone"];
+}) {
+  const [text, setText] = useState(initial);
+  // Enter/Tab unmount the input, which would otherwise commit a second time on blur
+  const done = useRef(false);
+
+  const finish = (move: MoveAfterEdit, commit: boolean) => {
+    if (done.current) return;
+    done.current = true;
+    onDone(text.trim() || undefined, move, commit);
+  };
+
+  return (
+    <input
+      autoFocus
+      className="absolute inset-0 w-full bg-background px-3 text-sm outline-none"
+      value={text}
+      maxLength={2000}
+      onChange={(e) => setText(e.target.value)}
+      onFocus={(e) => e.currentTarget.setSelectionRange(text.length, text.length)}
+      onBlur={() => finish(null, true)}
+      onKeyDown={(e) => {
+        if (e.key === "Enter") {
+          e.preventDefault();
+          finish("down", true);
+        } else if (e.key === "Tab") {
+          e.preventDefault();
+          finish(e.shiftKey ? "left" : "right", true);
+        } else if (e.key === "Escape") {
+          e.preventDefault();
+          finish(null, false);
+        }
+      }}
+    />
+  );
+}
+
+function ExpertsCellEditor({
+  value,
+  users,
+  lockedExperts,
+  onDone,
+}: {
+  value: number[];
+  users: ProjectUser[];
+  lockedExperts: number[];
+  onDone: CellEditorProps["onDone"];
+}) {
+  const [selected, setSelected] = useState<number[]>(value);
+
+  const toggle = (userId: number) =>
+    setSelected((prev) =>
+      prev.includes(userId) ? prev.filter((id) => id !== userId) : [...prev, userId],
+    );
+
+  return (
+    <Popover
+      open
+      onOpenChange={(open) => {
+        if (!open) onDone(selected, null, true);
+      }}
+    >
+      <PopoverAnchor asChild>
+        <div className="absolute inset-0" />
+      </PopoverAnchor>
+      <PopoverContent align="start" className="w-64 p-2">
+        <p className="px-2 pb-2 text-xs text-muted-foreground">
+          Add experts here. Existing experts can only be removed from the entity's Experts tab.
+        </p>
+        <div className="max-h-64 overflow-y-auto">
+          {users.length === 0 && (
+            <p className="px-2 py-4 text-center text-xs text-muted-foreground">
+              No project members
+            </p>
+          )}
+          {users.map((user) => {
+            const locked = lockedExperts.includes(user.userId);
+            return (
+              <label
+                key={user.userId}
+                className={cn(
+                  "flex items-center gap-2 rounded px-2 py-1.5 text-sm",
+                  locked ? "opacity-60" : "cursor-pointer hover:bg-muted",
+                )}
+              >
+                <Checkbox
+                  checked={selected.includes(user.userId)}
+                  disabled={locked}
+                  onCheckedChange={() => toggle(user.userId)}
+                />
+                <span className="truncate">{user.fullName || user.username}</span>
+              </label>
+            );
+          })}
+        </div>
+        <div className="flex justify-end pt-2">
+          <Button size="sm" className="h-7 text-xs" onClick={() => onDone(selected, null, true)}>
+            Done
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
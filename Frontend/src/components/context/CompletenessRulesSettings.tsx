@@ -0,0 +1,322 @@
+import React, { useMemo, useState } from "react";
+import { Loader2, RotateCcw, Save } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { FormSkeleton } from "@/components/ui/skeletons";
+import { useConfirm } from "@/hooks/useConfirm";
+import {
+  useCompletenessRules,
+  useResetCompletenessRules,
+  useSaveCompletenessRules,
+} from "@/hooks/useContext";
+import {
+  COMPLETENESS_FIELDS,
+  type CompletenessField,
+  type CompletenessFieldRule,
+  type ContextCompletenessRules,
+  type EntityType,
+} from "@/types/context";
+
+const ENTITY_TYPES: { value: EntityType; label: string }[] = [
+  { value: "TABLE", label: "Tables" },
+  { value: "COLUMN", label: "Columns" },
+  { value: "SP", label: "Procedures" },
+  { value: "FUNCTION", label: "Functions" },
+  { value: "VIEW", label: "Views" },
+];
+
+interface CompletenessRulesSettingsProps {
+  projectId: number;
+  canEdit: boolean;
+}
+
+/**
+ * Project settings card for the fields, weights and thresholds used to score context completeness
+ */
+export const CompletenessRulesSettings: React.FC<
+  CompletenessRulesSettingsProps
+> = ({ projectId, canEdit }) => {
+  const { data: settings, isLoading } = useCompletenessRules(projectId);
+  const saveMutation = useSaveCompletenessRules(projectId);
+  const resetMutation = useResetCompletenessRules(projectId);
+  const { confirm } = useConfirm();
+
+  // Local edits; null while the saved rules are shown unchanged
+  const [draft, setDraft] = useState<ContextCompletenessRules | null>(null);
+  const rules = draft ?? settings?.rules;
+
+  const errors = useMemo(() => (rules ? validateRules(rules) : []), [rules]);
+
+  if (isLoading || !rules) {
+    return (
+      <Card>
+        <CardContent className="pt-6">
+          <FormSkeleton fields={3} />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const updateFields = (
+    entityType: EntityType,
+    update: (fields: CompletenessFieldRule[]) => CompletenessFieldRule[],
+  ) => {
+    setDraft({
+      ...rules,
+      fields: {
+        ...rules.fields,
+        [entityType]: update(rules.fields[entityType] ?? []),
+      },
+    });
+  };
+
+  const toggleField = (
+    entityType: EntityType,
+    field: CompletenessField,
+    included: boolean,
+  ) => {
+    updateFields(entityType, (fields) =>
+      included
+        ? [...fields, { field, weight: 10, required: false }]
+        : fields.filter((f) => f.field !== field),
+    );
+  };
+
+  const changeField = (
+    entityType: EntityType,
+    field: CompletenessField,
+    change: Partial<CompletenessFieldRule>,
+  ) => {
+    updateFields(entityType, (fields) =>
+      fields.map((f) => (f.field === field ? { ...f, ...change } : f)),
+    );
+  };
+
+  const handleSave = () => {
+    saveMutation.mutate(rules, { onSuccess: () => setDraft(null) });
+  };
+
+  const handleReset = async () => {
+    const isConfirmed = await confirm({
+      title: "Reset Completeness Rules",
+      description:
+        "Scores and coverage will be calculated with the built-in rules again. Continue?",
+      confirmText: "Reset",
+      cancelText: "Cancel",
+    });
+    if (isConfirmed) {
+      resetMutation.mutate(undefined, { onSuccess: () => setDraft(null) });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle>Context Completeness</CardTitle>
+          {settings?.isDefault && draft == null && (
+            <Badge variant="secondary">Built-in rules</Badge>
+          )}
+        </div>
+        <CardDescription>
+          Choose which context fields count toward each entity's completeness
+          score, how much each one weighs, and which are required before an
+          entity counts as documented.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <Tabs defaultValue="TABLE">
+          <TabsList>
+            {ENTITY_TYPES.map((type) => (
+              <TabsTrigger key={type.value} value={type.value}>
+                {type.label}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+
+          {ENTITY_TYPES.map((type) => {
+            const fields = rules.fields[type.value] ?? [];
+            const totalWeight = fields.reduce((sum, f) => sum + f.weight, 0);
+
+            return (
+              <TabsContent
+                key={type.value}
+                value={type.value}
+                className="space-y-2"
+              >
+                <div className="grid grid-cols-[1fr_6rem_5rem_4rem] items-center gap-3 px-2 text-xs font-medium text-muted-foreground">
+                  <span>Field</span>
+                  <span>Weight</span>
+                  <span>Required</span>
+                  <span className="text-right">Share</span>
+                </div>
+                {COMPLETENESS_FIELDS.map(({ field, label }) => {
+                  const rule = fields.find((f) => f.field === field);
+                  const id = `completeness-${type.value}-${field}`;
+
+                  return (
+                    <div
+                      key={field}
+                      className="grid grid-cols-[1fr_6rem_5rem_4rem] items-center gap-3 rounded-md px-2 py-1.5 hover:bg-muted/40"
+                    >
+                      <div className="flex items-center gap-2">
+                        <Checkbox
+                          id={id}
+                          checked={!!rule}
+                          disabled={!canEdit}
+                          onCheckedChange={(checked) =>
+                            toggleField(type.value, field, checked === true)
+                          }
+                        />
+                        <Label htmlFor={id} className="font-normal">
+                          {label}
+                        </Label>
+                      </div>
+                      <Input
+                        type="number"
+                        min={0}
+                        max={100}
+                        className="h-8"
+                        aria-label={`${label} weight`}
+                        value={rule?.weight ?? ""}
+                        disabled={!canEdit || !rule}
+                        onChange={(e) =>
+                          changeField(type.value, field, {
+                            weight: Number(e.target.value) || 0,
+                          })
+                        }
+                      />
+                      <Switch
+                        aria-label={`${label} required`}
+                        checked={rule?.required ?? false}
+                        disabled={!canEdit || !rule}
+                        onCheckedChange={(required) =>
+                          changeField(type.value, field, { required })
+                        }
+                      />
+                      <span className="text-right text-xs text-muted-foreground">
+                        {rule && totalWeight > 0
+                          ? `${Math.round((rule.weight / totalWeight) * 100)}%`
+                          : "—"}
+                      </span>
+                    </div>
+                  );
+                })}
+              </TabsContent>
+            );
+          })}
+        </Tabs>
+
+        <div className="grid grid-cols-2 gap-4 max-w-md">
+          <div className="space-y-1.5">
+            <Label htmlFor="completeness-good">Good from (%)</Label>
+            <Input
+              id="completeness-good"
+              type="number"
+              min={1}
+              max={100}
+              value={rules.goodThreshold}
+              disabled={!canEdit}
+              onChange={(e) =>
+                setDraft({ ...rules, goodThreshold: Number(e.target.value) || 0 })
+              }
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="completeness-fair">Fair from (%)</Label>
+            <Input
+              id="completeness-fair"
+              type="number"
+              min={0}
+              max={99}
+              value={rules.fairThreshold}
+              disabled={!canEdit}
+              onChange={(e) =>
+                setDraft({ ...rules, fairThreshold: Number(e.target.value) || 0 })
+              }
+            />
+          </div>
+        </div>
+
+        {errors.length > 0 && (
+          <ul className="text-sm text-destructive list-disc pl-5 space-y-0.5">
+            {errors.map((error) => (
+              <li key={error}>{error}</li>
+            ))}
+          </ul>
+        )}
+
+        {canEdit && (
+          <div className="flex items-center gap-2">
+            <Button
+              onClick={handleSave}
+              disabled={
+                draft == null || errors.length > 0 || saveMutation.isPending
+              }
+            >
+              {saveMutation.isPending ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <Save className="w-4 h-4 mr-2" />
+              )}
+              Save Rules
+            </Button>
+            {draft != null && (
+              <Button variant="ghost" onClick={() => setDraft(null)}>
+                Discard
+              </Button>
+            )}
+            <Button
+              variant="outline"
+              onClick={handleReset}
+              disabled={settings?.isDefault || resetMutation.isPending}
+            >
+              <RotateCcw className="w-4 h-4 mr-2" />
+              Reset to Defaults
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+/**
+ * Client-side mirror of the server's checks, so problems show before saving
+ */
+function validateRules(rules: ContextCompletenessRules): string[] {
+  const errors: string[] = [];
+
+  if (rules.goodThreshold < 1 || rules.goodThreshold > 100) {
+    errors.push("Good threshold must be between 1 and 100");
+  }
+  if (rules.fairThreshold < 0 || rules.fairThreshold >= rules.goodThreshold) {
+    errors.push("Fair threshold must be at least 0 and below the good threshold");
+  }
+
+  for (const type of ENTITY_TYPES) {
+    const fields = rules.fields[type.value];
+    if (!fields) continue;
+
+    if (fields.some((f) => f.weight < 0 || f.weight > 100)) {
+      errors.push(`${type.label}: weights must be between 0 and 100`);
+    }
+    if (fields.reduce((sum, f) => sum + f.weight, 0) <= 0) {
+      errors.push(`${type.label}: at least one field needs a weight above 0`);
+    }
+  }
+
+  return errors;
+}
@@ -2,6 +2,7 @@
 import React from "react";
 import { useProject } from "@/hooks/useProject";
 import { useApi } from "@/hooks/useApi";
+import { useCompletenessRules } from "@/hooks/useContext";
 import { formatRelativeTime } from "@/lib/utils";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { CardSkeleton } from "@/components/ui/skeletons";
@@ -42,6 +43,7 @@ interface CoverageData {
  */
 export const ContextCoverageWidget: React.FC = () => {
   const { selectedProject, selectedProjectId, hasProject } = useProject();
+  const { thresholds } = useCompletenessRules();
 
   const {
     data: coverageData,
@@ -115,9 +117,9 @@ export const ContextCoverageWidget: React.FC = () => {
     }
 
     // Fallback to percentage-based trend
-    if (percentage >= 70)
+    if (percentage >= thresholds.goodThreshold)
       return <TrendingUp className="w-3 h-3 text-green-500" />;
-    if (percentage >= 40) return <Minus className="w-3 h-3 text-yellow-500" />;
+    if (percentage >= thresholds.fairThreshold) return <Minus className="w-3 h-3 text-yellow-500" />;
     return <TrendingDown className="w-3 h-3 text-red-500" />;
   };
 
@@ -131,8 +133,8 @@ export const ContextCoverageWidget: React.FC = () => {
     }
 
     // Fallback to percentage-based color
-    if (percentage >= 70) return "text-green-500";
-    if (percentage >= 40) return "text-yellow-500";
+    if (percentage >= thresholds.goodThreshold) return "text-green-500";
+    if (percentage >= thresholds.fairThreshold) return "text-yellow-500";
     return "text-red-500";
   };
 
@@ -145,8 +147,8 @@ export const ContextCoverageWidget: React.FC = () => {
     }
 
     // Fallback to status label
-    if (percentage >= 70) return "Good";
-    if (percentage >= 40) return "Fair";
+    if (percentage >= thresholds.goodThreshold) return "Good";
+    if (percentage >= thresholds.fairThreshold) return "Fair";
     return "Low";
   };
 
@@ -215,9 +217,9 @@ export const ContextCoverageWidget: React.FC = () => {
                   </span>
                   <Badge
                     variant={
-                      item.coveragePercentage >= 70
+                      item.coveragePercentage >= thresholds.goodThreshold
                         ? "default"
-                        : item.coveragePercentage >= 40
+                        : item.coveragePercentage >= thresholds.fairThreshold
                           ? "secondary"
                           : "outline"
                     }
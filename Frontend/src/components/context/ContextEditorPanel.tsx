@@ -5,6 +5,7 @@ import { debounce } from "lodash";
 import { Card, CardHeader, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
+import { Input } from "@/components/ui/input";
 import { FormSkeleton } from "@/components/ui/skeletons";
 import {
   Select,
@@ -26,7 +27,7 @@ import { Label } from "@/components/ui/label";
 import { Separator } from "@/components/ui/separator";
 import { Info, Check, AlertCircle, Edit, X } from "lucide-react";
 import { useApi } from "@/hooks/useApi";
-import { useSaveContext } from "@/hooks/useContext";
+import { useCompletenessRules, useSaveContext } from "@/hooks/useContext";
 import type { SaveContextRequest } from "@/types/context";
 import { useAuthorization } from "../../hooks/useAuth";
 
@@ -112,6 +113,7 @@ export const ContextEditor: React.FC<ContextEditorProps> = ({
 }) => {
   const canUpdate = useAuthorization("Contexts:Update");
   const effectiveReadOnly = isReadOnly || !canUpdate;
+  const { thresholds } = useCompletenessRules(projectId);
 
   const [isEditing, setIsEditing] = useState(false);
   const [localContext, setLocalContext] = useState<ContextData["context"]>({});
@@ -119,6 +121,9 @@ export const ContextEditor: React.FC<ContextEditorProps> = ({
     ContextData["context"] | null
   >(null);
   const hasUnsavedChanges = useRef(false);
+  // Optional note recorded in the change history with every save of this editing session
+  const [changeReason, setChangeReason] = useState("");
+  const changeReasonRef = useRef("");
 
   const {
     data: contextData,
@@ -159,7 +164,10 @@ export const ContextEditor: React.FC<ContextEditorProps> = ({
     debounce((data: ContextData["context"]) => {
       // call the latest saveContext from ref
       // Cast is safe - criticalityLevel values are always 1-5 from UI
-      saveContextRef.current(data as unknown as SaveContextRequest);
+      saveContextRef.current({
+        ...(data as unknown as SaveContextRequest),
+        changeReason: changeReasonRef.current.trim() || undefined,
+      });
     }, 3000), // Increased from 1s to 3s for better "Google Forms" style UX
   );
 
@@ -209,6 +217,11 @@ export const ContextEditor: React.FC<ContextEditorProps> = ({
     [isEditing],
   );
 
+  const handleChangeReason = (value: string) => {
+    changeReasonRef.current = value;
+    setChangeReason(value);
+  };
+
   const handleCriticalityClick = useCallback(
     (level: number) => {
       handleChange("criticalityLevel", level);
@@ -253,9 +266,9 @@ export const ContextEditor: React.FC<ContextEditorProps> = ({
                 </h3>
                 <Badge
                   variant={
-                    completeness >= 80
+                    completeness >= thresholds.goodThreshold
                       ? "default"
-                      : completeness >= 50
+                      : completeness >= thresholds.fairThreshold
                         ? "secondary"
                         : "destructive"
                   }
@@ -280,7 +293,10 @@ export const ContextEditor: React.FC<ContextEditorProps> = ({
               <Button
                 size="sm"
                 variant={isEditing ? "default" : "outline"}
-                onClick={() => setIsEditing(!isEditing)}
+                onClick={() => {
+                  if (isEditing) handleChangeReason("");
+                  setIsEditing(!isEditing);
+                }}
               >
                 {isEditing ? (
                   <>
@@ -300,6 +316,21 @@ export const ContextEditor: React.FC<ContextEditorProps> = ({
 
         <CardContent>
           <div className="space-y-6">
+            {isEditing && (
+              <div className="space-y-2">
+                <Label htmlFor="context-change-reason" className="text-sm">
+                  Reason for change
+                </Label>
+                <Input
+                  id="context-change-reason"
+                  placeholder="Optional - shown in the History tab"
+                  value={changeReason}
+                  maxLength={500}
+                  onChange={(e) => handleChangeReason(e.target.value)}
+                />
+              </div>
+            )}
+
             {/* Purpose - Always shown */}
             <div className="space-y-2">
               <Label className="flex items-center space-x-2">
@@ -0,0 +1,320 @@
+import { useState } from "react";
+import { Download, FileJson, FileSpreadsheet, FileText, Loader2, ShieldAlert } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { useExportContext } from "@/hooks/useContext";
+import { cn } from "@/lib/utils";
+import type {
+  BusinessDomain,
+  ContextExportFormat,
+  ContextExportOptions,
+  CriticalityLevel,
+  EntityType,
+  SensitivityLevel,
+} from "@/types/context";
+import { CRITICALITY_OPTIONS, DOMAIN_OPTIONS, SENSITIVITY_OPTIONS } from "./contextGridEdits";
+
+type Completeness = "any" | "undocumented" | "partial" | "complete";
+
+const ANY = "any";
+
+const FORMAT_OPTIONS: Array<{
+  value: ContextExportFormat;
+  label: string;
+  description: string;
+  icon: typeof FileText;
+}> = [
+  { value: "xlsx", label: "Excel", description: "Filterable sheets", icon: FileSpreadsheet },
+  { value: "csv", label: "CSV", description: "Re-importable", icon: FileText },
+  { value: "json", label: "JSON", description: "For scripts", icon: FileJson },
+];
+
+const ENTITY_TYPE_OPTIONS: Array<{ value: EntityType; label: string }> = [
+  { value: "TABLE", label: "Tables" },
+  { value: "COLUMN", label: "Columns" },
+  { value: "SP", label: "Stored procedures" },
+  { value: "FUNCTION", label: "Functions" },
+  { value: "VIEW", label: "Views" },
+];
+
+const COMPLETENESS_OPTIONS: Array<{ value: Completeness; label: string; min?: number; max?: number }> = [
+  { value: "any", label: "Any completeness" },
+  { value: "undocumented", label: "Undocumented (0%)", max: 0 },
+  { value: "partial", label: "Partially documented", min: 1, max: 99 },
+  { value: "complete", label: "Fully documented (100%)", min: 100 },
+];
+
+interface ExportState {
+  format: ContextExportFormat;
+  entityTypes: EntityType[];
+  domains: BusinessDomain[];
+  sensitivities: SensitivityLevel[];
+  minCriticality?: CriticalityLevel;
+  completeness: Completeness;
+  includeExperts: boolean;
+  includeHistory: boolean;
+}
+
+const DEFAULT_STATE: ExportState = {
+  format: "xlsx",
+  entityTypes: [],
+  domains: [],
+  sensitivities: [],
+  completeness: "any",
+  includeExperts: false,
+  includeHistory: false,
+};
+
+/** Quarterly audit request: every PII / FINANCIAL column with its owners */
+const SENSITIVE_COLUMN_INVENTORY: ExportState = {
+  ...DEFAULT_STATE,
+  entityTypes: ["COLUMN"],
+  sensitivities: ["PII", "FINANCIAL"],
+  includeExperts: true,
+};
+
+const toggle = <T,>(values: T[], value: T) =>
+  values.includes(value) ? values.filter((v) => v !== value) : [...values, value];
+
+interface ContextExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Export dialog for the context dashboard: pick a format and filters, then
+ * download the file generated by the context export endpoint.
+ */
+export function ContextExportDialog({ open, onOpenChange }: ContextExportDialogProps) {
+  const [state, setState] = useState<ExportState>(DEFAULT_STATE);
+  const exportContext = useExportContext();
+
+  const update = (patch: Partial<ExportState>) => setState((prev) => ({ ...prev, ...patch }));
+
+  const handleExport = () => {
+    const completeness = COMPLETENESS_OPTIONS.find((o) => o.value === state.completeness);
+    const options: ContextExportOptions = {
+      format: state.format,
+      entityTypes: state.entityTypes,
+      domains: state.domains,
+      sensitivities: state.sensitivities,
+      minCriticality: state.minCriticality,
+      minCompleteness: completeness?.min,
+      maxCompleteness: completeness?.max,
+      includeExperts: state.includeExperts,
+      includeHistory: state.includeHistory,
+    };
+    exportContext.mutate(options, { onSuccess: () => onOpenChange(false) });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Export Context</DialogTitle>
+          <DialogDescription>
+            Download documented context for this project. Leave a filter empty to include everything.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5 py-2">
+          <div className="flex items-center justify-between rounded-md border bg-muted/20 px-3 py-2">
+            <div className="flex items-center gap-2 text-xs text-muted-foreground">
+              <ShieldAlert className="h-4 w-4 text-amber-500" />
+              Sensitive data inventory: PII and financial columns with their experts
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-7 text-xs"
+              onClick={() => setState({ ...SENSITIVE_COLUMN_INVENTORY, format: state.format })}
+            >
+              Use preset
+            </Button>
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-xs text-muted-foreground">Format</Label>
+            <div className="grid grid-cols-3 gap-2">
+              {FORMAT_OPTIONS.map(({ value, label, description, icon: Icon }) => (
+                <button
+                  key={value}
+                  type="button"
+                  onClick={() => update({ format: value })}
+                  className={cn(
+                    "flex flex-col items-start gap-1 rounded-md border p-3 text-left transition-colors",
+                    state.format === value
+                      ? "border-primary bg-primary/5"
+                      : "hover:bg-muted/40",
+                  )}
+                >
+                  <span className="flex items-center gap-2 text-sm font-medium">
+                    <Icon className="h-4 w-4" />
+                    {label}
+                  </span>
+                  <span className="text-xs text-muted-foreground">{description}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <CheckboxGroup
+            label="Entity types"
+            options={ENTITY_TYPE_OPTIONS}
+            selected={state.entityTypes}
+            onToggle={(value) => update({ entityTypes: toggle(state.entityTypes, value) })}
+          />
+          <CheckboxGroup
+            label="Sensitivity"
+            options={SENSITIVITY_OPTIONS}
+            selected={state.sensitivities}
+            onToggle={(value) => update({ sensitivities: toggle(state.sensitivities, value) })}
+          />
+          <CheckboxGroup
+            label="Business domain"
+            options={DOMAIN_OPTIONS}
+            selected={state.domains}
+            onToggle={(value) => update({ domains: toggle(state.domains, value) })}
+          />
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label className="text-xs text-muted-foreground">Criticality</Label>
+              <Select
+                value={state.minCriticality ? String(state.minCriticality) : ANY}
+                onValueChange={(value) =>
+                  update({ minCriticality: value === ANY ? undefined : (Number(value) as CriticalityLevel) })
+                }
+              >
+                <SelectTrigger className="h-8 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Any criticality</SelectItem>
+                  {CRITICALITY_OPTIONS.filter((o) => o.value > 1).map((option) => (
+                    <SelectItem key={option.value} value={String(option.value)}>
+                      {option.label} ({option.value}) or higher
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label className="text-xs text-muted-foreground">Completeness</Label>
+              <Select
+                value={state.completeness}
+                onValueChange={(value) => update({ completeness: value as Completeness })}
+              >
+                <SelectTrigger className="h-8 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {COMPLETENESS_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex items-center gap-2">
+              <Switch
+                id="export-experts"
+                checked={state.includeExperts}
+                onCheckedChange={(checked) => update({ includeExperts: checked })}
+              />
+              <Label htmlFor="export-experts" className="text-sm font-normal">
+                Include experts
+              </Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch
+                id="export-history"
+                checked={state.includeHistory}
+                onCheckedChange={(checked) => update({ includeHistory: checked })}
+              />
+              <Label htmlFor="export-history" className="text-sm font-normal">
+                Include change history
+              </Label>
+              {state.includeHistory && state.format === "csv" && (
+                <span className="text-xs text-muted-foreground">(downloads a .zip with two CSV files)</span>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleExport} disabled={exportContext.isPending}>
+            {exportContext.isPending ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <Download className="w-4 h-4 mr-2" />
+            )}
+            Export
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function CheckboxGroup<T extends string>({
+  label,
+  options,
+  selected,
+  onToggle,
+}: {
+  label: string;
+  options: Array<{ value: T; label: string }>;
+  selected: T[];
+  onToggle: (value: T) => void;
+}) {
+  return (
+    <div className="space-y-2">
+      <Label className="text-xs text-muted-foreground">
+        {label}
+        {selected.length === 0 && <span className="ml-1 font-normal">(all)</span>}
+      </Label>
+      <div className="flex flex-wrap gap-x-4 gap-y-2">
+        {options.map((option) => {
+          const id = `export-${label}-${option.value}`.replace(/\s+/g, "-").toLowerCase();
+          return (
+            <div key={option.value} className="flex items-center gap-1.5">
+              <Checkbox
+                id={id}
+                checked={selected.includes(option.value)}
+                onCheckedChange={() => onToggle(option.value)}
+              />
+              <Label htmlFor={id} className="text-sm font-normal">
+                {option.label}
+              </Label>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
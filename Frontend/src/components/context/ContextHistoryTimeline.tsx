@@ -0,0 +1,228 @@
+// components/context/ContextHistoryTimeline.tsx
+import { useMemo, useState } from "react";
+import { format } from "date-fns";
+import { AlertCircle, ArrowRight, History, RotateCcw } from "lucide-react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { CardSkeleton } from "@/components/ui/skeletons";
+import { useAuthorization } from "@/hooks/useAuth";
+import { useContextHistory, useRestoreContextField } from "@/hooks/useContext";
+import { formatRelativeTime } from "@/lib/utils";
+import type { ContextHistory } from "@/types/context";
+import { diffWords } from "./contextHistoryDiff";
+
+const FIELD_LABELS: Record<string, string> = {
+  Purpose: "Purpose",
+  BusinessImpact: "Business Impact",
+  CriticalityLevel: "Criticality",
+  BusinessDomain: "Business Domain",
+  Sensitivity: "Sensitivity",
+  DataSource: "Data Source",
+  ValidationRules: "Validation Rules",
+  RetentionPolicy: "Retention Policy",
+  DataFlow: "Data Flow",
+  Frequency: "Frequency",
+  IsDeprecated: "Deprecated",
+  DeprecationReason: "Deprecation Reason",
+  ReplacedBy: "Replaced By",
+};
+
+/** Free-text fields get an inline word diff; the rest show old → new */
+const TEXT_FIELDS = new Set([
+  "Purpose",
+  "BusinessImpact",
+  "DataSource",
+  "ValidationRules",
+  "RetentionPolicy",
+  "DataFlow",
+  "DeprecationReason",
+]);
+
+const ALL_FIELDS = "__all__";
+
+const getFieldLabel = (fieldName: string) =>
+  FIELD_LABELS[fieldName] ?? fieldName.replace(/([a-z])([A-Z])/g, "$1 $2");
+
+interface ContextHistoryTimelineProps {
+  entityType: string;
+  entityId: number;
+}
+
+export function ContextHistoryTimeline({ entityType, entityId }: ContextHistoryTimelineProps) {
+  const canUpdate = useAuthorization("Contexts:Update");
+  const [fieldFilter, setFieldFilter] = useState(ALL_FIELDS);
+
+  const { data: history, isLoading, error } = useContextHistory(entityType, entityId);
+  const restoreMutation = useRestoreContextField(entityType, entityId);
+
+  const entries = useMemo(() => history ?? [], [history]);
+
+  const fieldCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const entry of entries) {
+      counts.set(entry.fieldName, (counts.get(entry.fieldName) ?? 0) + 1);
+    }
+    return counts;
+  }, [entries]);
+
+  // History is newest first, so the first entry per field holds its current value
+  const currentValues = useMemo(() => {
+    const values = new Map<string, string | undefined>();
+    for (const entry of entries) {
+      if (!values.has(entry.fieldName)) values.set(entry.fieldName, entry.newValue);
+    }
+    return values;
+  }, [entries]);
+
+  const visibleEntries =
+    fieldFilter === ALL_FIELDS
+      ? entries
+      : entries.filter((entry) => entry.fieldName === fieldFilter);
+
+  if (error) {
+    return (
+      <Alert variant="destructive">
+        <AlertCircle className="h-4 w-4" />
+        <AlertDescription>Failed to load history: {error.message}</AlertDescription>
+      </Alert>
+    );
+  }
+
+  if (isLoading) {
+    return <CardSkeleton />;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1">
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <History className="h-4 w-4" />
+              Change History
+            </CardTitle>
+            <CardDescription>
+              Who changed this entity's documentation, when, and why.
+            </CardDescription>
+          </div>
+          {entries.length > 0 && (
+            <Select value={fieldFilter} onValueChange={setFieldFilter}>
+              <SelectTrigger className="w-48 h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_FIELDS}>All fields ({entries.length})</SelectItem>
+                {Array.from(fieldCounts.entries()).map(([field, count]) => (
+                  <SelectItem key={field} value={field}>
+                    {getFieldLabel(field)} ({count})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+      </CardHeader>
+
+      <CardContent>
+        {visibleEntries.length === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">
+            No changes recorded yet. Edits to existing documentation appear here.
+          </p>
+        ) : (
+          <ol className="relative space-y-6 border-l border-border/60 ml-2">
+            {visibleEntries.map((entry) => {
+              const isCurrent = currentValues.get(entry.fieldName) === entry.oldValue;
+              return (
+                <li key={entry.historyId} className="ml-5">
+                  <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border-2 border-background bg-primary" />
+                  <div className="flex flex-wrap items-center gap-2 text-sm">
+                    <Badge variant="outline" className="text-xs">
+                      {getFieldLabel(entry.fieldName)}
+                    </Badge>
+                    <span className="font-medium">
+                      {entry.changedByFullName || entry.changedByUsername || `User #${entry.changedBy}`}
+                    </span>
+                    <span
+                      className="text-xs text-muted-foreground"
+                      title={format(new Date(entry.changedAt), "PPpp")}
+                    >
+                      {formatRelativeTime(entry.changedAt)}
+                    </span>
+                    {canUpdate && entry.isRestorable && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="ml-auto h-7 gap-1.5 text-xs"
+                        disabled={isCurrent || restoreMutation.isPending}
+                        title={isCurrent ? "This is already the current value" : "Restore the value from before this change"}
+                        onClick={() => restoreMutation.mutate({ historyId: entry.historyId })}
+                      >
+                        <RotateCcw className="h-3.5 w-3.5" />
+                        Restore previous
+                      </Button>
+                    )}
+                  </div>
+
+                  <p className="mt-1 text-xs text-muted-foreground italic">
+                    {entry.changeReason || "No reason given"}
+                  </p>
+
+                  <div className="mt-2 rounded-md border bg-muted/30 p-3 text-sm">
+                    <HistoryValueChange entry={entry} />
+                  </div>
+                </li>
+              );
+            })}
+          </ol>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function HistoryValueChange({ entry }: { entry: ContextHistory }) {
+  const oldValue = entry.oldValue ?? "";
+  const newValue = entry.newValue ?? "";
+
+  if (!TEXT_FIELDS.has(entry.fieldName)) {
+    return (
+      <div className="flex flex-wrap items-center gap-2">
+        <span className={oldValue ? "line-through text-red-600 dark:text-red-400" : "text-muted-foreground"}>
+          {oldValue || "(empty)"}
+        </span>
+        <ArrowRight className="h-3.5 w-3.5 text-muted-foreground" />
+        <span className={newValue ? "text-green-700 dark:text-green-400" : "text-muted-foreground"}>
+          {newValue || "(empty)"}
+        </span>
+      </div>
+    );
+  }
+
+  return (
+    <p className="whitespace-pre-wrap leading-6">
+      {diffWords(oldValue, newValue).map((segment, index) =>
+        segment.type === "same" ? (
+          <span key={index}>{segment.text}</span>
+        ) : segment.type === "removed" ? (
+          <del key={index} className="rounded-sm bg-red-500/15 text-red-700 dark:text-red-400">
+            {segment.text}
+          </del>
+        ) : (
+          <ins key={index} className="rounded-sm bg-green-500/15 text-green-700 no-underline dark:text-green-400">
+            {segment.text}
+          </ins>
+        ),
+      )}
+      {!oldValue && !newValue && <span className="text-muted-foreground">(empty)</span>}
+    </p>
+  );
+}
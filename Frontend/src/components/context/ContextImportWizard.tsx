@@ -0,0 +1,678 @@
+import { useMemo, useState } from "react";
+import {
+  AlertCircle,
+  ArrowLeft,
+  CheckCircle2,
+  Download,
+  FileSpreadsheet,
+  Loader2,
+  Upload,
+  XCircle,
+} from "lucide-react";
+import { useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Textarea } from "@/components/ui/textarea";
+import { useApi } from "@/hooks/useApi";
+import { useContextGrid } from "@/hooks/useContext";
+import { useProject } from "@/hooks/useProject";
+import { api, saveBlob } from "@/lib/api";
+import { cn } from "@/lib/utils";
+import type { BulkContextEntry, BulkImportResult } from "@/types/context";
+import type { ProjectUser } from "@/types/project";
+import {
+  type ColumnMapping,
+  type DefaultEntityType,
+  type ImportField,
+  type ImportPlanRow,
+  type ImportRowStatus,
+  IMPORT_FIELDS,
+  autoMapColumns,
+  buildEntityIndex,
+  buildImportPlan,
+  buildImportTemplate,
+  buildJsonImportPlan,
+} from "./contextImport";
+import { readSpreadsheetFile, toCsv, type SheetRow } from "./spreadsheetFile";
+
+type WizardStep = "upload" | "map" | "preview" | "results";
+
+type ImportSource =
+  | { kind: "file"; fileName: string; headers: string[]; rows: SheetRow[] }
+  | { kind: "json"; entries: BulkContextEntry[] };
+
+interface RowOutcome {
+  row: ImportPlanRow;
+  result?: BulkImportResult;
+}
+
+/** The grid endpoint's upper bound; entity names are resolved against this list */
+const ENTITY_LIMIT = 10000;
+/** Entries per bulk-import request, so large files report progress */
+const CHUNK_SIZE = 200;
+/** Rows rendered in the preview and results tables */
+const MAX_VISIBLE_ROWS = 500;
+const IGNORE = "__ignore__";
+
+const DEFAULT_TYPE_OPTIONS: Array<{ value: DefaultEntityType; label: string }> = [
+  { value: "AUTO", label: "Detect from name" },
+  { value: "TABLE", label: "Tables" },
+  { value: "COLUMN", label: "Columns" },
+  { value: "SP", label: "Stored procedures" },
+  { value: "FUNCTION", label: "Functions" },
+  { value: "VIEW", label: "Views" },
+];
+
+const STATUS_STYLES: Record<ImportRowStatus, { label: string; className: string }> = {
+  create: { label: "Create", className: "bg-emerald-500/15 text-emerald-700 dark:text-emerald-400" },
+  update: { label: "Update", className: "bg-blue-500/15 text-blue-700 dark:text-blue-400" },
+  unchanged: { label: "Unchanged", className: "bg-muted text-muted-foreground" },
+  error: { label: "Error", className: "bg-destructive/15 text-destructive" },
+};
+
+const FIELD_LABELS = Object.fromEntries(IMPORT_FIELDS.map((f) => [f.field, f.label])) as Record<
+  ImportField,
+  string
+>;
+
+interface ContextImportWizardProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Import wizard for context spreadsheets.
+ *
+ * Reads a CSV / XLSX file (or a JSON payload of bulk entries), lets the user map
+ * columns to context fields, resolves entity names against the project and shows a
+ * dry run of what will be created, updated or rejected before calling bulk-import.
+ */
+export function ContextImportWizard({ open, onOpenChange }: ContextImportWizardProps) {
+  const { selectedProjectId, selectedProject } = useProject();
+  const queryClient = useQueryClient();
+
+  const [step, setStep] = useState<WizardStep>("upload");
+  const [source, setSource] = useState<ImportSource | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>([]);
+  const [defaultEntityType, setDefaultEntityType] = useState<DefaultEntityType>("AUTO");
+  const [emptyCellsClear, setEmptyCellsClear] = useState(false);
+  const [jsonText, setJsonText] = useState("");
+  const [isReading, setIsReading] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const [statusFilter, setStatusFilter] = useState<ImportRowStatus | "all">("all");
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [outcomes, setOutcomes] = useState<RowOutcome[]>([]);
+
+  const {
+    data: entities,
+    isLoading: isLoadingEntities,
+    error: entitiesError,
+  } = useContextGrid([], { limit: ENTITY_LIMIT, enabled: open });
+
+  const { data: projectMembers } = useApi<ProjectUser[]>(
+    `/projects/${selectedProjectId}/users`,
+    {
+      enabled: open && !!selectedProjectId,
+      staleTime: 10 * 60 * 1000,
+    },
+  );
+
+  const users = useMemo(() => projectMembers ?? [], [projectMembers]);
+  const entityIndex = useMemo(() => buildEntityIndex(entities ?? []), [entities]);
+  const isTruncated = (entities?.length ?? 0) >= ENTITY_LIMIT;
+  const isImporting = progress !== null && step === "preview";
+
+  const plan = useMemo<ImportPlanRow[]>(() => {
+    if (!source || (step !== "preview" && step !== "results")) return [];
+    if (source.kind === "json") {
+      return buildJsonImportPlan(source.entries, entityIndex, users);
+    }
+    return buildImportPlan(
+      source.rows,
+      mapping,
+      { defaultEntityType, emptyCellsClear, changeReason: `Imported from ${source.fileName}` },
+      entityIndex,
+      users,
+    );
+  }, [source, step, mapping, defaultEntityType, emptyCellsClear, entityIndex, users]);
+
+  const counts = useMemo(() => {
+    const result: Record<ImportRowStatus, number> = { create: 0, update: 0, unchanged: 0, error: 0 };
+    plan.forEach((row) => result[row.status]++);
+    return result;
+  }, [plan]);
+
+  const visibleRows = useMemo(
+    () => plan.filter((row) => statusFilter === "all" || row.status === statusFilter),
+    [plan, statusFilter],
+  );
+
+  const isNameMapped = mapping.includes("entityName");
+
+  const reset = () => {
+    setStep("upload");
+    setSource(null);
+    setMapping([]);
+    setDefaultEntityType("AUTO");
+    setEmptyCellsClear(false);
+    setJsonText("");
+    setStatusFilter("all");
+    setProgress(null);
+    setOutcomes([]);
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next && isImporting) return;
+    if (!next) reset();
+    onOpenChange(next);
+  };
+
+  const handleFile = async (file: File) => {
+    setIsReading(true);
+    try {
+      const [headerRow, ...rows] = await readSpreadsheetFile(file);
+      const headers = headerRow?.cells ?? [];
+      if (rows.length === 0) {
+        toast.error("The file has no data rows below the header.");
+        return;
+      }
+      setSource({ kind: "file", fileName: file.name, headers, rows });
+      setMapping(autoMapColumns(headers));
+      setStep("map");
+    } catch (error) {
+      toast.error("Could not read file", {
+        description: error instanceof Error ? error.message : String(error),
+      });
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const handleJsonContinue = () => {
+    try {
+      const entries = JSON.parse(jsonText) as BulkContextEntry[];
+      if (!Array.isArray(entries) || entries.length === 0) {
+        toast.error("Invalid JSON format. Expected an array of entries.");
+        return;
+      }
+      setSource({ kind: "json", entries });
+      setStep("preview");
+    } catch (error) {
+      toast.error(`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const handleDownloadTemplate = () => {
+    const csv = toCsv(buildImportTemplate(entities ?? [], users));
+    const projectName = selectedProject?.projectName ?? "project";
+    saveBlob(
+      new Blob(["\uFEFF" + csv], { type: "text/csv;charset=utf-8" }),
+      `${projectName.replace(/[^\w-]+/g, "_")}_context.csv`,
+    );
+  };
+
+  const handleMappingChange = (columnIndex: number, value: string) => {
+    setMapping((prev) =>
+      prev.map((field, index) => {
+        if (index === columnIndex) return value === IGNORE ? null : (value as ImportField);
+        // A field can only come from one column
+        return field === value ? null : field;
+      }),
+    );
+  };
+
+  const handleImport = async () => {
+    const toImport = plan.filter((row) => row.entry);
+    const resultsByRow = new Map<ImportPlanRow, BulkImportResult>();
+    setProgress({ done: 0, total: toImport.length });
+
+    for (let start = 0; start < toImport.length; start += CHUNK_SIZE) {
+      const chunk = toImport.slice(start, start + CHUNK_SIZE);
+      try {
+        const results = await api.post<BulkImportResult[]>(
+          `/projects/${selectedProjectId}/context/bulk-import`,
+          chunk.map((row) => row.entry!),
+        );
+        // Results come back in request order
+        chunk.forEach((row, index) => {
+          resultsByRow.set(
+            row,
+            results[index] ?? { entityName: row.label, success: false, error: "No result returned" },
+          );
+        });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        chunk.forEach((row) => {
+          resultsByRow.set(row, { entityName: row.label, success: false, error: message });
+        });
+      }
+      setProgress({ done: Math.min(start + CHUNK_SIZE, toImport.length), total: toImport.length });
+    }
+
+    const nextOutcomes = plan.map((row) => ({ row, result: resultsByRow.get(row) }));
+    const succeeded = nextOutcomes.filter((o) => o.result?.success).length;
+    const failed = nextOutcomes.filter((o) => o.result && !o.result.success).length;
+    toast.success("Bulk import completed", {
+      description: `${succeeded} succeeded, ${failed} failed`,
+    });
+
+    queryClient.invalidateQueries({
+      queryKey: ["projects", String(selectedProjectId), "context"],
+    });
+    setOutcomes(nextOutcomes);
+    setStatusFilter("all");
+    setStep("results");
+  };
+
+  const importableCount = counts.create + counts.update;
+  const resultCounts = useMemo(() => {
+    const succeeded = outcomes.filter((o) => o.result?.success).length;
+    const failed = outcomes.filter((o) => o.result && !o.result.success).length;
+    return { succeeded, failed, skipped: outcomes.length - succeeded - failed };
+  }, [outcomes]);
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[960px] max-h-[90vh] overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Import Context</DialogTitle>
+          <DialogDescription>
+            {step === "upload" && "Upload a CSV or Excel sheet, or paste bulk entries as JSON."}
+            {step === "map" && source?.kind === "file" &&
+              `Map the columns of ${source.fileName} to context fields.`}
+            {step === "preview" && "Review what will change. Nothing is saved until you import."}
+            {step === "results" && "Import finished. Each row shows what happened."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {entitiesError && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>Failed to load project entities: {entitiesError.message}</AlertDescription>
+          </Alert>
+        )}
+        {isTruncated && step !== "upload" && (
+          <Alert>
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>
+              Only the first {ENTITY_LIMIT.toLocaleString()} entities of this project were loaded. Rows naming
+              other entities will show as not found.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <div className="flex-1 min-h-0 overflow-hidden flex flex-col">
+          {step === "upload" && (
+            <Tabs defaultValue="file" className="flex-1 flex flex-col">
+              <TabsList className="w-fit">
+                <TabsTrigger value="file">Spreadsheet</TabsTrigger>
+                <TabsTrigger value="json">JSON</TabsTrigger>
+              </TabsList>
+              <TabsContent value="file" className="space-y-4 pt-2">
+                <label
+                  className={cn(
+                    "flex flex-col items-center justify-center gap-2 rounded-md border-2 border-dashed p-10 text-center cursor-pointer transition-colors",
+                    isDragging ? "border-primary bg-primary/5" : "hover:bg-muted/40",
+                  )}
+                  onDragOver={(e) => {
+                    e.preventDefault();
+                    setIsDragging(true);
+                  }}
+                  onDragLeave={() => setIsDragging(false)}
+                  onDrop={(e) => {
+                    e.preventDefault();
+                    setIsDragging(false);
+                    const file = e.dataTransfer.files[0];
+                    if (file) handleFile(file);
+                  }}
+                >
+                  {isReading ? (
+                    <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+                  ) : (
+                    <FileSpreadsheet className="h-8 w-8 text-muted-foreground" />
+                  )}
+                  <span className="text-sm font-medium">Drop a file here or click to browse</span>
+                  <span className="text-xs text-muted-foreground">
+                    .csv, .tsv or .xlsx — the first row must contain column headers
+                  </span>
+                  <input
+                    type="file"
+                    accept=".csv,.tsv,.txt,.xlsx"
+                    className="hidden"
+                    disabled={isReading}
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      if (file) handleFile(file);
+                      e.target.value = "";
+                    }}
+                  />
+                </label>
+                <div className="flex items-center justify-between rounded-md border bg-muted/20 px-3 py-2">
+                  <p className="text-xs text-muted-foreground">
+                    Start from the current context of every entity in this project, edit it in Excel and import it back.
+                  </p>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={handleDownloadTemplate}
+                    disabled={isLoadingEntities}
+                  >
+                    <Download className="w-4 h-4 mr-2" />
+                    Download CSV
+                  </Button>
+                </div>
+              </TabsContent>
+              <TabsContent value="json" className="space-y-2 pt-2">
+                <Label htmlFor="bulkJson">JSON Payload</Label>
+                <Textarea
+                  id="bulkJson"
+                  value={jsonText}
+                  onChange={(e) => setJsonText(e.target.value)}
+                  placeholder={`[\n  {\n    "entityType": "TABLE",\n    "entityId": 1,\n    "entityName": "Users",\n    "context": {\n      "purpose": "Stores user information",\n      "businessDomain": "USERS"\n    }\n  }\n]`}
+                  className="font-mono text-sm resize-none h-[280px] bg-muted/20"
+                />
+                <p className="text-xs text-muted-foreground">
+                  Required fields:{" "}
+                  <code className="bg-muted px-1 rounded">entityType</code>,{" "}
+                  <code className="bg-muted px-1 rounded">entityId</code>,{" "}
+                  <code className="bg-muted px-1 rounded">context</code>. The context replaces the existing one.
+                </p>
+                <div className="flex justify-end">
+                  <Button size="sm" onClick={handleJsonContinue} disabled={!jsonText.trim()}>
+                    Preview
+                  </Button>
+                </div>
+              </TabsContent>
+            </Tabs>
+          )}
+
+          {step === "map" && source?.kind === "file" && (
+            <div className="flex-1 min-h-0 flex flex-col gap-3">
+              <div className="flex flex-wrap items-center gap-4">
+                <div className="flex items-center gap-2">
+                  <Label className="text-xs font-normal text-muted-foreground">Entity type</Label>
+                  <Select
+                    value={defaultEntityType}
+                    onValueChange={(value) => setDefaultEntityType(value as DefaultEntityType)}
+                    disabled={mapping.includes("entityType")}
+                  >
+                    <SelectTrigger className="w-44 h-8 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {DEFAULT_TYPE_OPTIONS.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id="empty-cells-clear"
+                    checked={emptyCellsClear}
+                    onCheckedChange={setEmptyCellsClear}
+                  />
+                  <Label htmlFor="empty-cells-clear" className="text-xs font-normal">
+                    Empty cells clear existing values
+                  </Label>
+                </div>
+                <span className="ml-auto text-xs text-muted-foreground">
+                  {source.rows.length.toLocaleString()} data row{source.rows.length === 1 ? "" : "s"}
+                </span>
+              </div>
+              <ScrollArea className="flex-1 min-h-0 border rounded-md">
+                <table className="w-full text-sm">
+                  <thead className="bg-muted/40 text-xs text-muted-foreground">
+                    <tr>
+                      <th className="text-left font-medium px-3 py-2">File column</th>
+                      <th className="text-left font-medium px-3 py-2">Sample values</th>
+                      <th className="text-left font-medium px-3 py-2 w-56">Import as</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {source.headers.map((header, index) => (
+                      <tr key={`${header}-${index}`} className="border-t">
+                        <td className="px-3 py-2 font-medium">{header || `Column ${index + 1}`}</td>
+                        <td className="px-3 py-2 text-xs text-muted-foreground max-w-[320px] truncate">
+                          {source.rows
+                            .slice(0, 3)
+                            .map((row) => row.cells[index])
+                            .filter(Boolean)
+                            .join(" · ")}
+                        </td>
+                        <td className="px-3 py-2">
+                          <Select
+                            value={mapping[index] ?? IGNORE}
+                            onValueChange={(value) => handleMappingChange(index, value)}
+                          >
+                            <SelectTrigger className="h-8 text-xs">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value={IGNORE}>Don't import</SelectItem>
+                              {IMPORT_FIELDS.map((f) => (
+                                <SelectItem key={f.field} value={f.field}>
+                                  {f.label}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </ScrollArea>
+              {!isNameMapped && (
+                <p className="text-xs text-destructive">Map a column to Name to identify the entities.</p>
+              )}
+            </div>
+          )}
+
+          {(step === "preview" || step === "results") && (
+            <div className="flex-1 min-h-0 flex flex-col gap-3">
+              <div className="flex flex-wrap items-center gap-2">
+                {step === "preview" ? (
+                  (["all", "create", "update", "unchanged", "error"] as const).map((status) => (
+                    <Button
+                      key={status}
+                      variant={statusFilter === status ? "secondary" : "ghost"}
+                      size="sm"
+                      className="h-7 text-xs"
+                      onClick={() => setStatusFilter(status)}
+                    >
+                      {status === "all" ? "All" : STATUS_STYLES[status].label}
+                      <Badge variant="outline" className="ml-1.5 text-[10px] px-1.5">
+                        {status === "all" ? plan.length : counts[status]}
+                      </Badge>
+                    </Button>
+                  ))
+                ) : (
+                  <>
+                    <Badge variant="secondary" className="bg-emerald-500/15 text-emerald-700 dark:text-emerald-400">
+                      {resultCounts.succeeded} saved
+                    </Badge>
+                    <Badge variant="secondary" className="bg-destructive/15 text-destructive">
+                      {resultCounts.failed} failed
+                    </Badge>
+                    <Badge variant="outline">{resultCounts.skipped} skipped</Badge>
+                  </>
+                )}
+                {isLoadingEntities && (
+                  <span className="ml-auto flex items-center text-xs text-muted-foreground">
+                    <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+                    Loading entities…
+                  </span>
+                )}
+              </div>
+
+              {progress && step === "preview" && (
+                <div className="space-y-1">
+                  <Progress value={(progress.done / Math.max(progress.total, 1)) * 100} />
+                  <p className="text-xs text-muted-foreground">
+                    Imported {progress.done} of {progress.total}…
+                  </p>
+                </div>
+              )}
+
+              <ScrollArea className="flex-1 min-h-0 border rounded-md">
+                <table className="w-full text-sm">
+                  <thead className="bg-muted/40 text-xs text-muted-foreground sticky top-0">
+                    <tr>
+                      <th className="text-left font-medium px-3 py-2 w-14">Row</th>
+                      <th className="text-left font-medium px-3 py-2">Entity</th>
+                      <th className="text-left font-medium px-3 py-2 w-24">
+                        {step === "preview" ? "Action" : "Outcome"}
+                      </th>
+                      <th className="text-left font-medium px-3 py-2">Details</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {(step === "preview" ? visibleRows.map((row) => ({ row }) as RowOutcome) : outcomes)
+                      .slice(0, MAX_VISIBLE_ROWS)
+                      .map(({ row, result }) => (
+                        <tr key={row.rowNumber} className="border-t align-top">
+                          <td className="px-3 py-2 text-xs text-muted-foreground">{row.rowNumber}</td>
+                          <td className="px-3 py-2">
+                            <div className="font-medium">{row.label}</div>
+                            {row.entity && (
+                              <div className="text-[11px] text-muted-foreground">
+                                {row.entity.entityType}
+                                {row.entity.parentName ? ` · ${row.entity.parentName}` : ""}
+                              </div>
+                            )}
+                          </td>
+                          <td className="px-3 py-2">
+                            {step === "results" && result ? (
+                              result.success ? (
+                                <span className="flex items-center gap-1 text-xs text-emerald-600">
+                                  <CheckCircle2 className="w-3.5 h-3.5" />
+                                  Saved
+                                </span>
+                              ) : (
+                                <span className="flex items-center gap-1 text-xs text-destructive">
+                                  <XCircle className="w-3.5 h-3.5" />
+                                  Failed
+                                </span>
+                              )
+                            ) : (
+                              <Badge
+                                variant="secondary"
+                                className={cn("text-[10px]", STATUS_STYLES[row.status].className)}
+                              >
+                                {step === "results" && row.status !== "error"
+                                  ? "Skipped"
+                                  : STATUS_STYLES[row.status].label}
+                              </Badge>
+                            )}
+                          </td>
+                          <td className="px-3 py-2 text-xs">
+                            {result && !result.success && (
+                              <p className="text-destructive">{result.error ?? "Import failed"}</p>
+                            )}
+                            {row.errors.map((error) => (
+                              <p key={error} className="text-destructive">
+                                {error}
+                              </p>
+                            ))}
+                            {row.changes.map((change) => (
+                              <p key={change.field} className="text-muted-foreground">
+                                <span className="font-medium text-foreground">{FIELD_LABELS[change.field]}:</span>{" "}
+                                {change.from && <span className="line-through">{change.from}</span>}
+                                {change.from && " → "}
+                                {change.to || <span className="italic">cleared</span>}
+                              </p>
+                            ))}
+                          </td>
+                        </tr>
+                      ))}
+                  </tbody>
+                </table>
+                {(step === "preview" ? visibleRows.length : outcomes.length) > MAX_VISIBLE_ROWS && (
+                  <p className="px-3 py-2 text-xs text-muted-foreground border-t">
+                    Showing the first {MAX_VISIBLE_ROWS} rows.
+                  </p>
+                )}
+              </ScrollArea>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          {step === "map" && (
+            <>
+              <Button variant="outline" onClick={reset}>
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Back
+              </Button>
+              <Button onClick={() => setStep("preview")} disabled={!isNameMapped || isLoadingEntities}>
+                Preview
+              </Button>
+            </>
+          )}
+          {step === "preview" && (
+            <>
+              <Button
+                variant="outline"
+                disabled={isImporting}
+                onClick={() => {
+                  setStatusFilter("all");
+                  setStep(source?.kind === "file" ? "map" : "upload");
+                }}
+              >
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Back
+              </Button>
+              <Button onClick={handleImport} disabled={importableCount === 0 || isImporting || isLoadingEntities}>
+                {isImporting ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <Upload className="w-4 h-4 mr-2" />
+                )}
+                Import {importableCount} {importableCount === 1 ? "Entity" : "Entities"}
+                {counts.error > 0 ? ` (skip ${counts.error} with errors)` : ""}
+              </Button>
+            </>
+          )}
+          {step === "results" && (
+            <>
+              <Button variant="outline" onClick={reset}>
+                Import Another File
+              </Button>
+              <Button onClick={() => handleOpenChange(false)}>Done</Button>
+            </>
+          )}
+          {step === "upload" && (
+            <Button variant="outline" onClick={() => handleOpenChange(false)}>
+              Cancel
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
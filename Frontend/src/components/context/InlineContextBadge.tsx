@@ -2,6 +2,7 @@
 import React from "react";
 import { useProject } from "@/hooks/useProject";
 import { useApi } from "@/hooks/useApi";
+import { useCompletenessRules } from "@/hooks/useContext";
 import { Badge } from "@/components/ui/badge";
 import {
   Tooltip,
@@ -81,6 +82,7 @@ export const InlineContextBadge: React.FC<InlineContextBadgeProps> = ({
   const { selectedProjectId, hasProject } = useProject();
   const effectiveProjectId = projectId ?? selectedProjectId ?? null;
   const hasEffectiveProject = effectiveProjectId != null && effectiveProjectId > 0;
+  const { thresholds } = useCompletenessRules(effectiveProjectId ?? undefined);
 
   const {
     data: fetchedContext,
@@ -155,9 +157,9 @@ export const InlineContextBadge: React.FC<InlineContextBadgeProps> = ({
     return (
       <Badge
         variant={
-          completeness >= 80
+          completeness >= thresholds.goodThreshold
             ? "default"
-            : completeness >= 50
+            : completeness >= thresholds.fairThreshold
               ? "secondary"
               : "outline"
         }
@@ -251,9 +253,9 @@ export const InlineContextBadge: React.FC<InlineContextBadgeProps> = ({
           <div className="flex items-center gap-1 cursor-pointer">
             <Badge
               variant={
-                completeness >= 80
+                completeness >= thresholds.goodThreshold
                   ? "default"
-                  : completeness >= 50
+                  : completeness >= thresholds.fairThreshold
                     ? "secondary"
                     : "outline"
               }
@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import type { ContextGridRow } from "@/types/context";
+import {
+  type GridEdits,
+  applyEdit,
+  buildBulkEntries,
+  getRowKey,
+  parseClipboardGrid,
+} from "./contextGridEdits";
+
+const orders: ContextGridRow = {
+  entityType: "TABLE",
+  entityId: 1,
+  entityName: "Orders",
+  contextId: 10,
+  purpose: "Customer orders",
+  businessDomain: "ORDERS",
+  dataSource: "Web shop",
+  isDeprecated: false,
+  expertUserIds: [7],
+};
+
+const customers: ContextGridRow = {
+  entityType: "TABLE",
+  entityId: 2,
+  entityName: "Customers",
+  expertUserIds: [],
+};
+
+describe("parseClipboardGrid", () => {
+  it("splits tab-separated rows and ignores the trailing newline", () => {
+    expect(parseClipboardGrid("a\tb\r\nc\t\n")).toEqual([
+      ["a", "b"],
+      ["c", ""],
+    ]);
+  });
+
+  it("unquotes cells holding tabs, newlines and doubled quotes", () => {
+    expect(parseClipboardGrid('"one\ttwo"\t"line 1\nline 2"\t"say ""hi"""')).toEqual([
+      ["one\ttwo", "line 1\nline 2", 'say "hi"'],
+    ]);
+  });
+
+  it("keeps quotes that do not open a cell", () => {
+    expect(parseClipboardGrid('5" pipe')).toEqual([['5" pipe']]);
+  });
+});
+
+describe("applyEdit", () => {
+  it("tracks a changed cell and drops it when set back to the server value", () => {
+    const edited = applyEdit(new Map(), orders, "purpose", "Open orders");
+    expect(edited.get(getRowKey(orders))).toEqual({ purpose: "Open orders" });
+
+    expect(applyEdit(edited, orders, "purpose", "Customer orders").size).toBe(0);
+  });
+
+  it("treats an empty cell as the same as a missing value", () => {
+    expect(applyEdit(new Map(), customers, "purpose", "").size).toBe(0);
+    expect(applyEdit(new Map(), customers, "isDeprecated", false).size).toBe(0);
+  });
+
+  it("keeps existing experts, since the server cannot remove them", () => {
+    expect(applyEdit(new Map(), orders, "expertUserIds", []).size).toBe(0);
+
+    const edited = applyEdit(new Map(), orders, "expertUserIds", [8]);
+    expect(edited.get(getRowKey(orders))).toEqual({ expertUserIds: [7, 8] });
+  });
+});
+
+describe("buildBulkEntries", () => {
+  it("sends only dirty rows, with untouched fields at their current values", () => {
+    const edits: GridEdits = new Map([[getRowKey(orders), { sensitivity: "INTERNAL" }]]);
+
+    const entries = buildBulkEntries([orders, customers], edits);
+
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({
+      entityType: "TABLE",
+      entityId: 1,
+      entityName: "Orders",
+      context: {
+        purpose: "Customer orders",
+        businessDomain: "ORDERS",
+        sensitivity: "INTERNAL",
+        dataSource: "Web shop",
+        isDeprecated: false,
+        changeReason: "Bulk edit",
+      },
+    });
+    expect(entries[0].context.expertUserIds).toBeUndefined();
+  });
+
+  it("sends only the experts added in the grid", () => {
+    const edits = applyEdit(new Map(), orders, "expertUserIds", [8, 9]);
+
+    const [entry] = buildBulkEntries([orders], edits);
+
+    expect(entry.context.expertUserIds).toEqual([8, 9]);
+  });
+});
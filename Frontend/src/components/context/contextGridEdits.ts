@@ -0,0 +1,305 @@
+// components/context/contextGridEdits.ts
+import type {
+  BulkContextEntry,
+  BusinessDomain,
+  ContextGridRow,
+  CriticalityLevel,
+  SensitivityLevel,
+} from "@/types/context";
+import type { ProjectUser } from "@/types/project";
+
+export type GridField =
+  | "purpose"
+  | "businessDomain"
+  | "sensitivity"
+  | "criticalityLevel"
+  | "isDeprecated"
+  | "expertUserIds";
+
+export type GridValue = string | number | boolean | number[] | undefined;
+
+export type GridCellKind = "text" | "select" | "boolean" | "experts";
+
+export interface GridFieldDef {
+  field: GridField;
+  label: string;
+  kind: GridCellKind;
+  width: number;
+  options?: Array<{ value: string | number; label: string }>;
+}
+
+export const DOMAIN_OPTIONS: Array<{ value: BusinessDomain; label: string }> = [
+  { value: "ORDERS", label: "Orders" },
+  { value: "FINANCE", label: "Finance" },
+  { value: "USERS", label: "Users" },
+  { value: "INVENTORY", label: "Inventory" },
+  { value: "REPORTING", label: "Reporting" },
+  { value: "INTEGRATION", label: "Integration" },
+  { value: "GENERAL", label: "General" },
+];
+
+export const SENSITIVITY_OPTIONS: Array<{ value: SensitivityLevel; label: string }> = [
+  { value: "PUBLIC", label: "Public" },
+  { value: "INTERNAL", label: "Internal" },
+  { value: "PII", label: "PII" },
+  { value: "FINANCIAL", label: "Financial" },
+  { value: "SENSITIVE", label: "Sensitive" },
+];
+
+export const CRITICALITY_OPTIONS: Array<{ value: CriticalityLevel; label: string }> = [
+  { value: 1, label: "Low" },
+  { value: 2, label: "Moderate" },
+  { value: 3, label: "Standard" },
+  { value: 4, label: "High" },
+  { value: 5, label: "Critical" },
+];
+
+/** Editable columns, in display order */
+export const GRID_FIELDS: GridFieldDef[] = [
+  { field: "purpose", label: "Purpose", kind: "text", width: 360 },
+  { field: "businessDomain", label: "Domain", kind: "select", width: 140, options: DOMAIN_OPTIONS },
+  { field: "sensitivity", label: "Sensitivity", kind: "select", width: 130, options: SENSITIVITY_OPTIONS },
+  { field: "criticalityLevel", label: "Criticality", kind: "select", width: 130, options: CRITICALITY_OPTIONS },
+  { field: "isDeprecated", label: "Deprecated", kind: "boolean", width: 110 },
+  { field: "expertUserIds", label: "Experts", kind: "experts", width: 220 },
+];
+
+/** Pending edits keyed by row key, holding only the fields that differ from the server */
+export type GridEdits = Map<string, Partial<Record<GridField, GridValue>>>;
+
+export const getRowKey = (row: Pick<ContextGridRow, "entityType" | "entityId">) =>
+  `${row.entityType}:${row.entityId}`;
+
+export function getOriginalValue(row: ContextGridRow, field: GridField): GridValue {
+  const value = row[field];
+  return value === null ? undefined : (value as GridValue);
+}
+
+export function getCellValue(row: ContextGridRow, field: GridField, edits: GridEdits): GridValue {
+  const rowEdits = edits.get(getRowKey(row));
+  return rowEdits && field in rowEdits ? rowEdits[field] : getOriginalValue(row, field);
+}
+
+export function isSameValue(a: GridValue, b: GridValue): boolean {
+  if (Array.isArray(a) || Array.isArray(b)) {
+    const left = [...((a as number[] | undefined) ?? [])].sort((x, y) => x - y);
+    const right = [...((b as number[] | undefined) ?? [])].sort((x, y) => x - y);
+    return left.length === right.length && left.every((id, i) => id === right[i]);
+  }
+  if (typeof a === "boolean" || typeof b === "boolean") return Boolean(a) === Boolean(b);
+  return (a ?? "") === (b ?? "");
+}
+
+/**
+ * Returns a new edits map with the value applied. Setting a cell back to its
+ * server value drops the edit, so only genuinely dirty cells are tracked.
+ * Existing experts are kept: bulk import can add experts but not remove them.
+ */
+export function applyEdit(
+  edits: GridEdits,
+  row: ContextGridRow,
+  field: GridField,
+  value: GridValue,
+): GridEdits {
+  if (field === "expertUserIds") {
+    const added = ((value as number[] | undefined) ?? []).filter(
+      (id) => !row.expertUserIds.includes(id),
+    );
+    value = [...row.expertUserIds, ...added];
+  }
+
+  const key = getRowKey(row);
+  const next = new Map(edits);
+  const rowEdits = { ...(next.get(key) ?? {}) };
+
+  if (isSameValue(value, getOriginalValue(row, field))) {
+    delete rowEdits[field];
+  } else {
+    rowEdits[field] = value;
+  }
+
+  if (Object.keys(rowEdits).length === 0) next.delete(key);
+  else next.set(key, rowEdits);
+  return next;
+}
+
+export function countDirtyCells(edits: GridEdits): number {
+  let count = 0;
+  edits.forEach((rowEdits) => {
+    count += Object.keys(rowEdits).length;
+  });
+  return count;
+}
+
+/**
+ * Parses clipboard text copied from Excel / Google Sheets (tab-separated, rows
+ * separated by newlines, cells containing tabs or newlines wrapped in quotes).
+ */
+export function parseClipboardGrid(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === "") {
+      inQuotes = true;
+    } else if (char === "\t") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+
+  // Spreadsheets end the copied block with a newline; don't treat it as an empty row
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+}
+
+/** Serializes a block of display values the way spreadsheets expect on paste */
+export function toClipboardText(values: string[][]): string {
+  const quote = (value: string) =>
+    /[\t\n\r"]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  return values.map((row) => row.map(quote).join("\t")).join("\n");
+}
+
+const matchOption = (def: GridFieldDef, raw: string) => {
+  const needle = raw.trim().toLowerCase();
+  return def.options?.find(
+    (option) =>
+      String(option.value).toLowerCase() === needle ||
+      option.label.toLowerCase() === needle,
+  );
+};
+
+const userMatches = (user: ProjectUser, needle: string) =>
+  [user.username, user.fullName, user.email]
+    .filter(Boolean)
+    .some((candidate) => candidate!.toLowerCase() === needle);
+
+/**
+ * Converts pasted text into a cell value. Returns `null` when the text
+ * doesn't fit the column (unknown option, unknown user, ...).
+ */
+export function parseCellInput(
+  def: GridFieldDef,
+  raw: string,
+  users: ProjectUser[],
+): { value: GridValue } | null {
+  const text = raw.trim();
+
+  switch (def.kind) {
+    case "text":
+      return { value: text || undefined };
+    case "select": {
+      if (!text) return { value: undefined };
+      const option = matchOption(def, text);
+      return option ? { value: option.value } : null;
+    }
+    case "boolean": {
+      const normalized = text.toLowerCase();
+      if (["true", "yes", "y", "1", "x", "deprecated"].includes(normalized)) return { value: true };
+      if (["", "false", "no", "n", "0"].includes(normalized)) return { value: false };
+      return null;
+    }
+    case "experts": {
+      if (!text) return { value: [] };
+      const ids: number[] = [];
+      for (const name of text.split(/[,;]/).map((part) => part.trim().toLowerCase()).filter(Boolean)) {
+        const user = users.find((candidate) => userMatches(candidate, name));
+        if (!user) return null;
+        if (!ids.includes(user.userId)) ids.push(user.userId);
+      }
+      return { value: ids };
+    }
+  }
+}
+
+/** Display text for a cell; also what gets copied to the clipboard */
+export function formatCellValue(
+  def: GridFieldDef,
+  value: GridValue,
+  users: ProjectUser[],
+): string {
+  if (value === undefined || value === null) return "";
+  switch (def.kind) {
+    case "text":
+      return String(value);
+    case "select":
+      return def.options?.find((option) => option.value === value)?.label ?? String(value);
+    case "boolean":
+      return value ? "Yes" : "No";
+    case "experts":
+      return (value as number[])
+        .map((id) => {
+          const user = users.find((candidate) => candidate.userId === id);
+          return user ? user.fullName || user.username : `#${id}`;
+        })
+        .join(", ");
+  }
+}
+
+/**
+ * Builds the bulk-import payload for every dirty row. The endpoint replaces the
+ * whole context, so untouched fields are sent back with their current values.
+ * Experts are additive on the server: only newly added users are sent.
+ */
+export function buildBulkEntries(rows: ContextGridRow[], edits: GridEdits): BulkContextEntry[] {
+  const entries: BulkContextEntry[] = [];
+
+  for (const row of rows) {
+    const rowEdits = edits.get(getRowKey(row));
+    if (!rowEdits) continue;
+
+    const value = <K extends GridField>(field: K) =>
+      field in rowEdits ? rowEdits[field] : getOriginalValue(row, field);
+
+    const experts = (value("expertUserIds") as number[] | undefined) ?? [];
+    const addedExperts = experts.filter((id) => !row.expertUserIds.includes(id));
+
+    entries.push({
+      entityType: row.entityType,
+      entityId: row.entityId,
+      entityName: row.entityName,
+      context: {
+        purpose: value("purpose") as string | undefined,
+        businessImpact: row.businessImpact ?? undefined,
+        criticalityLevel: value("criticalityLevel") as CriticalityLevel | undefined,
+        businessDomain: value("businessDomain") as BusinessDomain | undefined,
+        sensitivity: value("sensitivity") as SensitivityLevel | undefined,
+        dataSource: row.dataSource ?? undefined,
+        validationRules: row.validationRules ?? undefined,
+        retentionPolicy: row.retentionPolicy ?? undefined,
+        dataFlow: row.dataFlow ?? undefined,
+        frequency: row.frequency ?? undefined,
+        isDeprecated: Boolean(value("isDeprecated")),
+        deprecationReason: row.deprecationReason ?? undefined,
+        replacedBy: row.replacedBy ?? undefined,
+        expertUserIds: addedExperts.length > 0 ? addedExperts : undefined,
+        changeReason: "Bulk edit",
+      },
+    });
+  }
+
+  return entries;
+}
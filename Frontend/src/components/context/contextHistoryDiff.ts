@@ -0,0 +1,71 @@
+// components/context/contextHistoryDiff.ts
+
+export interface DiffSegment {
+  type: "same" | "added" | "removed";
+  text: string;
+}
+
+/** Above this many token pairs the LCS table gets expensive; fall back to a whole-value replace */
+const MAX_DIFF_CELLS = 250_000;
+
+/**
+ * Word-level diff of two texts (whitespace is kept as its own token).
+ * Adjacent segments of the same type are merged.
+ */
+export function diffWords(oldText: string, newText: string): DiffSegment[] {
+  const a = oldText ? oldText.split(/(\s+)/).filter(Boolean) : [];
+  const b = newText ? newText.split(/(\s+)/).filter(Boolean) : [];
+
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return mergeSegments([
+      { type: "removed", text: oldText },
+      { type: "added", text: newText },
+    ]);
+  }
+
+  // lcs[i][j] = length of the longest common subsequence of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0),
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] =
+        a[i] === b[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      segments.push({ type: "same", text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      segments.push({ type: "removed", text: a[i++] });
+    } else {
+      segments.push({ type: "added", text: b[j++] });
+    }
+  }
+  while (i < a.length) segments.push({ type: "removed", text: a[i++] });
+  while (j < b.length) segments.push({ type: "added", text: b[j++] });
+
+  return mergeSegments(segments);
+}
+
+function mergeSegments(segments: DiffSegment[]): DiffSegment[] {
+  const merged: DiffSegment[] = [];
+  for (const segment of segments) {
+    if (!segment.text) continue;
+    const last = merged[merged.length - 1];
+    if (last && last.type === segment.type) {
+      last.text += segment.text;
+    } else {
+      merged.push({ ...segment });
+    }
+  }
+  return merged;
+}
@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+import type { ContextGridRow } from "@/types/context";
+import type { ProjectUser } from "@/types/project";
+import { autoMapColumns, buildEntityIndex, buildImportPlan, type ColumnMapping, type ImportOptions } from "./contextImport";
+import type { SheetRow } from "./spreadsheetFile";
+
+const entities: ContextGridRow[] = [
+  { entityType: "TABLE", entityId: 1, entityName: "Orders", contextId: 10, purpose: "Customer orders", expertUserIds: [] },
+  { entityType: "TABLE", entityId: 2, entityName: "Customers", contextId: 20, expertUserIds: [7] },
+  { entityType: "COLUMN", entityId: 11, entityName: "CustomerId", parentName: "Orders", expertUserIds: [] },
+  { entityType: "COLUMN", entityId: 21, entityName: "CustomerId", parentName: "Customers", expertUserIds: [] },
+  { entityType: "SP", entityId: 5, entityName: "Orders", expertUserIds: [] },
+];
+
+const users: ProjectUser[] = [
+  { userId: 7, username: "jdoe", fullName: "Jamie Doe", email: "jamie@example.com" },
+  { userId: 8, username: "asmith", fullName: "Alex Smith", email: "alex@example.com" },
+];
+
+const options: ImportOptions = { defaultEntityType: "AUTO", emptyCellsClear: false };
+
+function plan(rows: string[][], mapping: ColumnMapping, importOptions = options) {
+  const sheetRows: SheetRow[] = rows.map((cells, i) => ({ rowNumber: i + 2, cells }));
+  return buildImportPlan(sheetRows, mapping, importOptions, buildEntityIndex(entities), users);
+}
+
+describe("autoMapColumns", () => {
+  it("maps headers by field name, label or alias and ignores the rest", () => {
+    expect(autoMapColumns(["Entity Type", "Table", "Column Name", "Description", "Owner", "Notes"])).toEqual([
+      "entityType",
+      "parentName",
+      "entityName",
+      "purpose",
+      "experts",
+      null,
+    ]);
+  });
+
+  it("treats a lone Table column as the entity name", () => {
+    expect(autoMapColumns(["Table", "Purpose"])).toEqual(["entityName", "purpose"]);
+  });
+
+  it("maps each field from one column only", () => {
+    expect(autoMapColumns(["Purpose", "Description"])).toEqual(["purpose", null]);
+  });
+});
+
+describe("buildImportPlan", () => {
+  const mapping: ColumnMapping = ["entityType", "parentName", "entityName", "purpose", "experts"];
+
+  it("resolves columns through their table and tables by bare or schema-qualified name", () => {
+    const rows = plan(
+      [
+        ["COLUMN", "Customers", "CustomerId", "Customer key", ""],
+        ["TABLE", "", "[dbo].[Customers]", "People who order", ""],
+      ],
+      mapping,
+    );
+
+    expect(rows.map((row) => [row.status, row.entity?.entityId])).toEqual([
+      ["create", 21],
+      ["update", 2],
+    ]);
+  });
+
+  it("reports a name that matches entities of several types as ambiguous", () => {
+    const [row] = plan([["", "", "Orders", "x", ""]], mapping);
+
+    expect(row.status).toBe("error");
+    expect(row.errors[0]).toMatch(/ambiguous \(2 matches: TABLE, SP\)/);
+  });
+
+  it("flags later rows naming an entity already imported, by their sheet row", () => {
+    const sheetRows: SheetRow[] = [
+      { rowNumber: 2, cells: ["TABLE", "", "Customers", "First", ""] },
+      { rowNumber: 5, cells: ["TABLE", "", "dbo.Customers", "Second", ""] },
+    ];
+
+    const rows = buildImportPlan(sheetRows, mapping, options, buildEntityIndex(entities), users);
+
+    expect(rows[1]).toMatchObject({ rowNumber: 5, status: "error", errors: ["Same entity as row 2"] });
+  });
+
+  it("resolves experts by username, full name or email and adds only new ones", () => {
+    const [row] = plan([["TABLE", "", "Customers", "", "jdoe; Alex Smith, alex@example.com"]], mapping);
+
+    expect(row.status).toBe("update");
+    expect(row.entry?.context.expertUserIds).toEqual([8]);
+    expect(row.changes).toEqual([{ field: "experts", from: "Jamie Doe", to: "Jamie Doe, Alex Smith" }]);
+  });
+
+  it("rejects experts who are not project members", () => {
+    const [row] = plan([["TABLE", "", "Orders", "", "nobody"]], mapping);
+
+    expect(row.errors).toEqual(['Expert "nobody" is not a member of this project']);
+  });
+
+  it("leaves fields with empty cells untouched unless empty cells clear", () => {
+    const keep = plan([["TABLE", "", "Orders", "", ""]], mapping);
+    const clear = plan([["TABLE", "", "Orders", "", ""]], mapping, { ...options, emptyCellsClear: true });
+
+    expect(keep[0].status).toBe("unchanged");
+    expect(clear[0].changes).toEqual([{ field: "purpose", from: "Customer orders", to: "" }]);
+  });
+});
@@ -0,0 +1,595 @@
+// components/context/contextImport.ts
+import type {
+  BulkContextEntry,
+  ContextGridRow,
+  CriticalityLevel,
+  EntityType,
+  FrequencyLevel,
+  SaveContextRequest,
+} from "@/types/context";
+import type { ProjectUser } from "@/types/project";
+import type { SheetRow } from "./spreadsheetFile";
+import {
+  CRITICALITY_OPTIONS,
+  DOMAIN_OPTIONS,
+  SENSITIVITY_OPTIONS,
+  getRowKey,
+} from "./contextGridEdits";
+
+export type ContextImportField =
+  | "purpose"
+  | "businessImpact"
+  | "criticalityLevel"
+  | "businessDomain"
+  | "sensitivity"
+  | "dataSource"
+  | "validationRules"
+  | "retentionPolicy"
+  | "dataFlow"
+  | "frequency"
+  | "isDeprecated"
+  | "deprecationReason"
+  | "replacedBy"
+  | "experts";
+
+export type ImportField = "entityType" | "entityName" | "parentName" | ContextImportField;
+
+/** File column index → target field (null = ignored) */
+export type ColumnMapping = Array<ImportField | null>;
+
+export type DefaultEntityType = EntityType | "AUTO";
+
+export interface ImportOptions {
+  /** Used when the file has no entity type column */
+  defaultEntityType: DefaultEntityType;
+  /** When true an empty cell clears the existing value, otherwise it is left untouched */
+  emptyCellsClear: boolean;
+  changeReason?: string;
+}
+
+export type ImportRowStatus = "create" | "update" | "unchanged" | "error";
+
+export interface ImportFieldChange {
+  field: ContextImportField;
+  from: string;
+  to: string;
+}
+
+export interface ImportPlanRow {
+  /** 1-based row in the source sheet, or entry in a JSON payload */
+  rowNumber: number;
+  /** Entity as written in the file */
+  label: string;
+  status: ImportRowStatus;
+  entity?: ContextGridRow;
+  changes: ImportFieldChange[];
+  errors: string[];
+  entry?: BulkContextEntry;
+}
+
+export const FREQUENCY_OPTIONS: Array<{ value: FrequencyLevel; label: string }> = [
+  { value: "REALTIME", label: "Real-time" },
+  { value: "HOURLY", label: "Hourly" },
+  { value: "DAILY", label: "Daily" },
+  { value: "BATCH", label: "Batch" },
+  { value: "ADHOC", label: "Ad hoc" },
+];
+
+const ENTITY_TYPE_ALIASES: Record<string, EntityType> = {
+  table: "TABLE",
+  tables: "TABLE",
+  column: "COLUMN",
+  columns: "COLUMN",
+  sp: "SP",
+  proc: "SP",
+  procedure: "SP",
+  storedprocedure: "SP",
+  storedprocedures: "SP",
+  function: "FUNCTION",
+  functions: "FUNCTION",
+  fn: "FUNCTION",
+  view: "VIEW",
+  views: "VIEW",
+};
+
+export const IMPORT_FIELDS: Array<{ field: ImportField; label: string; aliases: string[] }> = [
+  { field: "entityType", label: "Entity type", aliases: ["type", "objecttype", "kind"] },
+  { field: "parentName", label: "Table", aliases: ["tablename", "parent", "parenttable"] },
+  {
+    field: "entityName",
+    label: "Name",
+    aliases: ["entity", "entityname", "object", "objectname", "column", "columnname", "procedure", "procedurename", "spname"],
+  },
+  { field: "purpose", label: "Purpose", aliases: ["description", "desc", "definition", "businesspurpose"] },
+  { field: "businessImpact", label: "Business impact", aliases: ["impact", "operationalimpact"] },
+  { field: "criticalityLevel", label: "Criticality", aliases: ["criticalitylevel", "priority"] },
+  { field: "businessDomain", label: "Domain", aliases: ["businessdomain"] },
+  { field: "sensitivity", label: "Sensitivity", aliases: ["classification", "dataclassification"] },
+  { field: "dataSource", label: "Data source", aliases: ["source"] },
+  { field: "validationRules", label: "Validation rules", aliases: ["validation", "rules"] },
+  { field: "retentionPolicy", label: "Retention policy", aliases: ["retention"] },
+  { field: "dataFlow", label: "Data flow", aliases: ["flow"] },
+  { field: "frequency", label: "Frequency", aliases: ["schedule"] },
+  { field: "isDeprecated", label: "Deprecated", aliases: ["isdeprecated"] },
+  { field: "deprecationReason", label: "Deprecation reason", aliases: [] },
+  { field: "replacedBy", label: "Replaced by", aliases: ["replacement"] },
+  { field: "experts", label: "Experts", aliases: ["expert", "owners", "owner", "sme"] },
+];
+
+const CONTEXT_FIELDS = IMPORT_FIELDS.map((f) => f.field).filter(
+  (field): field is ContextImportField =>
+    field !== "entityType" && field !== "entityName" && field !== "parentName",
+);
+
+const normalizeHeader = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+/**
+ * Maps file headers to fields by name. A lone "Table" column is the entity
+ * name (tables sheet); next to a "Column"/"Name" column it is the parent table.
+ */
+export function autoMapColumns(headers: string[]): ColumnMapping {
+  const mapping: ColumnMapping = headers.map(() => null);
+  const taken = new Set<ImportField>();
+
+  headers.forEach((header, index) => {
+    const normalized = normalizeHeader(header);
+    if (!normalized) return;
+    const match = IMPORT_FIELDS.find(
+      (f) =>
+        !taken.has(f.field) &&
+        (normalizeHeader(f.field) === normalized ||
+          normalizeHeader(f.label) === normalized ||
+          f.aliases.includes(normalized)),
+    );
+    if (match) {
+      mapping[index] = match.field;
+      taken.add(match.field);
+    }
+  });
+
+  if (!taken.has("entityName") && taken.has("parentName")) {
+    mapping[mapping.indexOf("parentName")] = "entityName";
+  }
+  return mapping;
+}
+
+// --- Entity resolution ---
+
+export interface EntityIndex {
+  byName: Map<string, ContextGridRow[]>;
+  byKey: Map<string, ContextGridRow>;
+}
+
+const nameKey = (type: EntityType, parent: string | undefined, name: string) =>
+  `${type}|${(parent ?? "").toLowerCase()}|${name.toLowerCase()}`;
+
+/** Strips [brackets], "quotes" and `backticks` around each dotted part */
+const cleanName = (value: string) =>
+  value
+    .split(".")
+    .map((part) => part.trim().replace(/^[[`"]|[\]`"]$/g, ""))
+    .filter(Boolean)
+    .join(".");
+
+export function buildEntityIndex(entities: ContextGridRow[]): EntityIndex {
+  const byName = new Map<string, ContextGridRow[]>();
+  const byKey = new Map<string, ContextGridRow>();
+  for (const entity of entities) {
+    const key = nameKey(entity.entityType, entity.parentName, entity.entityName);
+    byName.set(key, [...(byName.get(key) ?? []), entity]);
+    byKey.set(getRowKey(entity), entity);
+  }
+  return { byName, byKey };
+}
+
+export function parseEntityType(raw: string): EntityType | null {
+  const normalized = normalizeHeader(raw);
+  if (!normalized) return null;
+  const upper = raw.trim().toUpperCase();
+  if (["TABLE", "COLUMN", "SP", "FUNCTION", "VIEW"].includes(upper)) return upper as EntityType;
+  return ENTITY_TYPE_ALIASES[normalized] ?? null;
+}
+
+function lookup(index: EntityIndex, type: EntityType, name: string, parent?: string): ContextGridRow[] {
+  const direct = index.byName.get(nameKey(type, parent, name));
+  if (direct) return direct;
+
+  // Retry without a schema prefix ("dbo.Orders" → "Orders")
+  const parts = name.split(".");
+  if (parts.length > 1) {
+    return index.byName.get(nameKey(type, parent, parts[parts.length - 1])) ?? [];
+  }
+  return [];
+}
+
+function resolveEntity(
+  index: EntityIndex,
+  types: EntityType[],
+  rawName: string,
+  rawParent: string,
+): { entity?: ContextGridRow; error?: string } {
+  const name = cleanName(rawName);
+  const parent = cleanName(rawParent) || undefined;
+  const matches: ContextGridRow[] = [];
+
+  for (const type of types) {
+    if (type === "COLUMN") {
+      if (parent) {
+        matches.push(...lookup(index, type, name, parent.split(".").pop()));
+      } else if (name.includes(".")) {
+        // "Orders.CustomerId" or "dbo.Orders.CustomerId"
+        const parts = name.split(".");
+        matches.push(...lookup(index, type, parts[parts.length - 1], parts[parts.length - 2]));
+      }
+    } else {
+      matches.push(...lookup(index, type, name));
+    }
+  }
+
+  if (matches.length === 1) return { entity: matches[0] };
+
+  const display = parent ? `${parent}.${name}` : name;
+  if (matches.length === 0) {
+    const typeLabel = types.length === 1 ? types[0] : "entity";
+    return { error: `No ${typeLabel} named "${display}" in this project` };
+  }
+  const foundTypes = Array.from(new Set(matches.map((m) => m.entityType))).join(", ");
+  return {
+    error: `"${display}" is ambiguous (${matches.length} matches: ${foundTypes}). Add an entity type or table column.`,
+  };
+}
+
+// --- Value parsing ---
+
+const matchOption = <T extends string | number>(
+  options: Array<{ value: T; label: string }>,
+  raw: string,
+) => {
+  const needle = raw.trim().toLowerCase();
+  return options.find(
+    (option) =>
+      String(option.value).toLowerCase() === needle || option.label.toLowerCase() === needle,
+  );
+};
+
+const optionList = (options: Array<{ value: string | number }>) =>
+  options.map((o) => o.value).join(", ");
+
+type ParsedValue = string | number | boolean | number[] | undefined;
+
+function parseFieldValue(
+  field: ContextImportField,
+  raw: string,
+  users: ProjectUser[],
+): { value: ParsedValue } | { error: string } {
+  const text = raw.trim();
+  if (!text) {
+    return { value: field === "isDeprecated" ? false : field === "experts" ? [] : undefined };
+  }
+
+  switch (field) {
+    case "criticalityLevel": {
+      const option = matchOption(CRITICALITY_OPTIONS, text);
+      return option
+        ? { value: option.value }
+        : { error: `Criticality "${text}" must be 1-5 or ${CRITICALITY_OPTIONS.map((o) => o.label).join(", ")}` };
+    }
+    case "businessDomain": {
+      const option = matchOption(DOMAIN_OPTIONS, text);
+      return option
+        ? { value: option.value }
+        : { error: `Domain "${text}" must be one of ${optionList(DOMAIN_OPTIONS)}` };
+    }
+    case "sensitivity": {
+      const option = matchOption(SENSITIVITY_OPTIONS, text);
+      return option
+        ? { value: option.value }
+        : { error: `Sensitivity "${text}" must be one of ${optionList(SENSITIVITY_OPTIONS)}` };
+    }
+    case "frequency": {
+      const option = matchOption(FREQUENCY_OPTIONS, text);
+      return option
+        ? { value: option.value }
+        : { error: `Frequency "${text}" must be one of ${optionList(FREQUENCY_OPTIONS)}` };
+    }
+    case "isDeprecated": {
+      const normalized = text.toLowerCase();
+      if (["true", "yes", "y", "1", "x"].includes(normalized)) return { value: true };
+      if (["false", "no", "n", "0"].includes(normalized)) return { value: false };
+      return { error: `Deprecated "${text}" must be yes or no` };
+    }
+    case "experts": {
+      const ids: number[] = [];
+      for (const name of text.split(/[,;]/).map((part) => part.trim()).filter(Boolean)) {
+        const needle = name.toLowerCase();
+        const user = users.find((u) =>
+          [u.username, u.fullName, u.email].some((candidate) => candidate?.toLowerCase() === needle),
+        );
+        if (!user) return { error: `Expert "${name}" is not a member of this project` };
+        if (!ids.includes(user.userId)) ids.push(user.userId);
+      }
+      return { value: ids };
+    }
+    default:
+      return { value: text };
+  }
+}
+
+// --- Planning ---
+
+type ContextValues = Record<Exclude<ContextImportField, "experts">, ParsedValue>;
+
+function currentValues(entity: ContextGridRow): ContextValues {
+  return {
+    purpose: entity.purpose ?? undefined,
+    businessImpact: entity.businessImpact ?? undefined,
+    criticalityLevel: entity.criticalityLevel ?? undefined,
+    businessDomain: entity.businessDomain ?? undefined,
+    sensitivity: entity.sensitivity ?? undefined,
+    dataSource: entity.dataSource ?? undefined,
+    validationRules: entity.validationRules ?? undefined,
+    retentionPolicy: entity.retentionPolicy ?? undefined,
+    dataFlow: entity.dataFlow ?? undefined,
+    frequency: entity.frequency ?? undefined,
+    isDeprecated: entity.isDeprecated ?? false,
+    deprecationReason: entity.deprecationReason ?? undefined,
+    replacedBy: entity.replacedBy ?? undefined,
+  };
+}
+
+const displayValue = (value: ParsedValue, users: ProjectUser[]) => {
+  if (value === undefined || value === null || value === "") return "";
+  if (Array.isArray(value)) {
+    return value
+      .map((id) => {
+        const user = users.find((u) => u.userId === id);
+        return user ? user.fullName || user.username : `#${id}`;
+      })
+      .join(", ");
+  }
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  return String(value);
+};
+
+/**
+ * Turns merged values into a plan row. bulk-import replaces the whole context,
+ * so the request always carries every field; experts are additive on the server.
+ */
+function finalizeRow(
+  row: Omit<ImportPlanRow, "status" | "changes" | "entry">,
+  entity: ContextGridRow,
+  values: ContextValues,
+  experts: number[],
+  users: ProjectUser[],
+  changeReason: string | undefined,
+): ImportPlanRow {
+  const before = currentValues(entity);
+  const changes: ImportFieldChange[] = [];
+  for (const field of Object.keys(values) as Array<keyof ContextValues>) {
+    const from = displayValue(before[field], users);
+    const to = displayValue(values[field], users);
+    if (from !== to) changes.push({ field, from, to });
+  }
+
+  const addedExperts = experts.filter((id) => !entity.expertUserIds.includes(id));
+  if (addedExperts.length > 0) {
+    changes.push({
+      field: "experts",
+      from: displayValue(entity.expertUserIds, users),
+      to: displayValue([...entity.expertUserIds, ...addedExperts], users),
+    });
+  }
+
+  if (changes.length === 0) {
+    return { ...row, entity, status: "unchanged", changes };
+  }
+
+  const context: SaveContextRequest = {
+    purpose: values.purpose as string | undefined,
+    businessImpact: values.businessImpact as string | undefined,
+    criticalityLevel: values.criticalityLevel as CriticalityLevel | undefined,
+    businessDomain: values.businessDomain as SaveContextRequest["businessDomain"],
+    sensitivity: values.sensitivity as SaveContextRequest["sensitivity"],
+    dataSource: values.dataSource as string | undefined,
+    validationRules: values.validationRules as string | undefined,
+    retentionPolicy: values.retentionPolicy as string | undefined,
+    dataFlow: values.dataFlow as string | undefined,
+    frequency: values.frequency as FrequencyLevel | undefined,
+    isDeprecated: Boolean(values.isDeprecated),
+    deprecationReason: values.deprecationReason as string | undefined,
+    replacedBy: values.replacedBy as string | undefined,
+    expertUserIds: addedExperts.length > 0 ? addedExperts : undefined,
+    changeReason,
+  };
+
+  return {
+    ...row,
+    entity,
+    status: entity.contextId ? "update" : "create",
+    changes,
+    entry: {
+      entityType: entity.entityType,
+      entityId: entity.entityId,
+      entityName: entity.entityName,
+      context,
+    },
+  };
+}
+
+const errorRow = (rowNumber: number, label: string, errors: string[], entity?: ContextGridRow): ImportPlanRow => ({
+  rowNumber,
+  label,
+  status: "error",
+  entity,
+  changes: [],
+  errors,
+});
+
+/**
+ * Dry run of a spreadsheet import: resolves every data row to an entity, validates
+ * the mapped values and works out whether it creates, updates or leaves the context alone.
+ */
+export function buildImportPlan(
+  dataRows: SheetRow[],
+  mapping: ColumnMapping,
+  options: ImportOptions,
+  index: EntityIndex,
+  users: ProjectUser[],
+): ImportPlanRow[] {
+  const cell = (row: string[], field: ImportField) => {
+    const column = mapping.indexOf(field);
+    return column >= 0 ? (row[column] ?? "").trim() : "";
+  };
+  const mappedContextFields = CONTEXT_FIELDS.filter((field) => mapping.includes(field));
+  const seen = new Map<string, number>();
+
+  return dataRows.map(({ rowNumber, cells: row }) => {
+    let name = cell(row, "entityName");
+    let parent = cell(row, "parentName");
+    // In a mixed sheet a row with only the table filled in describes the table itself
+    const isTableRow = !name && !!parent;
+    if (isTableRow) {
+      name = parent;
+      parent = "";
+    }
+    const label = parent ? `${parent}.${name}` : name;
+
+    if (!name) return errorRow(rowNumber, "(blank)", ["Name is empty"]);
+
+    let types: EntityType[];
+    const rawType = cell(row, "entityType");
+    if (rawType) {
+      const type = parseEntityType(rawType);
+      if (!type) return errorRow(rowNumber, label, [`Unknown entity type "${rawType}"`]);
+      types = [type];
+    } else if (options.defaultEntityType !== "AUTO") {
+      types = [options.defaultEntityType];
+    } else if (isTableRow) {
+      types = ["TABLE"];
+    } else {
+      types = parent ? ["COLUMN"] : ["TABLE", "SP", "FUNCTION", "VIEW", "COLUMN"];
+    }
+
+    const { entity, error } = resolveEntity(index, types, name, parent);
+    if (!entity) return errorRow(rowNumber, label, [error!]);
+
+    const key = getRowKey(entity);
+    const firstRow = seen.get(key);
+    if (firstRow !== undefined) {
+      return errorRow(rowNumber, label, [`Same entity as row ${firstRow}`], entity);
+    }
+    seen.set(key, rowNumber);
+
+    const values = currentValues(entity);
+    let experts: number[] = [];
+    const errors: string[] = [];
+    for (const field of mappedContextFields) {
+      const raw = cell(row, field);
+      if (!raw && !options.emptyCellsClear) continue;
+      const parsed = parseFieldValue(field, raw, users);
+      if ("error" in parsed) {
+        errors.push(parsed.error);
+      } else if (field === "experts") {
+        experts = parsed.value as number[];
+      } else {
+        values[field] = parsed.value;
+      }
+    }
+    if (errors.length > 0) return errorRow(rowNumber, label, errors, entity);
+
+    return finalizeRow({ rowNumber, label, entity, errors: [] }, entity, values, experts, users, options.changeReason);
+  });
+}
+
+/**
+ * Dry run of a JSON payload of BulkContextEntry objects. Entries carry entity ids
+ * and a full context, which replaces the existing one as before.
+ */
+export function buildJsonImportPlan(
+  entries: BulkContextEntry[],
+  index: EntityIndex,
+  users: ProjectUser[],
+): ImportPlanRow[] {
+  return entries.map((entry, i) => {
+    const rowNumber = i + 1;
+    const label = entry?.entityName || `${entry?.entityType} #${entry?.entityId}`;
+    if (!entry?.entityType || !entry.entityId || typeof entry.context !== "object" || !entry.context) {
+      return errorRow(rowNumber, label, ["entityType, entityId and context are required"]);
+    }
+
+    const entity = index.byKey.get(getRowKey(entry));
+    if (!entity) return errorRow(rowNumber, label, [`${entry.entityType} #${entry.entityId} not found in this project`]);
+
+    const context = entry.context;
+    const errors: string[] = [];
+    const check = <T extends string | number>(
+      field: string,
+      value: T | undefined,
+      options: Array<{ value: T }>,
+    ) => {
+      if (value !== undefined && value !== null && !options.some((o) => o.value === value)) {
+        errors.push(`${field} "${value}" must be one of ${optionList(options)}`);
+      }
+    };
+    check("criticalityLevel", context.criticalityLevel, CRITICALITY_OPTIONS);
+    check("businessDomain", context.businessDomain, DOMAIN_OPTIONS);
+    check("sensitivity", context.sensitivity, SENSITIVITY_OPTIONS);
+    check("frequency", context.frequency, FREQUENCY_OPTIONS);
+    if (errors.length > 0) return errorRow(rowNumber, label, errors, entity);
+
+    const values: ContextValues = {
+      purpose: context.purpose,
+      businessImpact: context.businessImpact,
+      criticalityLevel: context.criticalityLevel,
+      businessDomain: context.businessDomain,
+      sensitivity: context.sensitivity,
+      dataSource: context.dataSource,
+      validationRules: context.validationRules,
+      retentionPolicy: context.retentionPolicy,
+      dataFlow: context.dataFlow,
+      frequency: context.frequency,
+      isDeprecated: context.isDeprecated ?? false,
+      deprecationReason: context.deprecationReason,
+      replacedBy: context.replacedBy,
+    };
+    return finalizeRow(
+      { rowNumber, label, entity, errors: [] },
+      entity,
+      values,
+      context.expertUserIds ?? [],
+      users,
+      context.changeReason,
+    );
+  });
+}
+
+/**
+ * Current context as import rows, using the headers the auto-mapper recognizes,
+ * so a downloaded file can be edited and imported back.
+ */
+export function buildImportTemplate(entities: ContextGridRow[], users: ProjectUser[]): string[][] {
+  const header = IMPORT_FIELDS.map((f) => f.label);
+  const rows = entities.map((entity) => {
+    const values = currentValues(entity);
+    return IMPORT_FIELDS.map(({ field }) => {
+      switch (field) {
+        case "entityType":
+          return entity.entityType;
+        case "parentName":
+          return entity.parentName ?? "";
+        case "entityName":
+          return entity.entityName;
+        case "experts":
+          return entity.expertUserIds
+            .map((id) => users.find((u) => u.userId === id)?.username ?? "")
+            .filter(Boolean)
+            .join(", ");
+        case "isDeprecated":
+          return values.isDeprecated ? "Yes" : "No";
+        default:
+          return displayValue(values[field], users);
+      }
+    });
+  });
+  return [header, ...rows];
+}
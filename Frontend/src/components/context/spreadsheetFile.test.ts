@@ -0,0 +1,157 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from "vitest";
+import {
+  neutraliseFormulaText,
+  parseDelimited,
+  readSpreadsheetFile,
+  restoreFormulaText,
+  toCsv,
+} from "./spreadsheetFile";
+
+/** jsdom's File has no text()/arrayBuffer(); the reader needs nothing else */
+function file(name: string, content: string | Uint8Array): File {
+  const bytes = typeof content === "string" ? new TextEncoder().encode(content) : content;
+  return {
+    name,
+    text: async () => new TextDecoder().decode(bytes),
+    arrayBuffer: async () => bytes.slice().buffer,
+  } as unknown as File;
+}
+
+/** Stored (uncompressed) zip; the reader does not check CRCs */
+function zip(files: Record<string, string>): Uint8Array {
+  const encoder = new TextEncoder();
+  const locals: Uint8Array[] = [];
+  const centrals: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(files)) {
+    const nameBytes = encoder.encode(name);
+    const data = encoder.encode(content);
+
+    const local = new Uint8Array(30 + nameBytes.length + data.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, 0x04034b50, true);
+    localView.setUint32(18, data.length, true);
+    localView.setUint32(22, data.length, true);
+    localView.setUint16(26, nameBytes.length, true);
+    local.set(nameBytes, 30);
+    local.set(data, 30 + nameBytes.length);
+
+    const central = new Uint8Array(46 + nameBytes.length);
+    const centralView = new DataView(central.buffer);
+    centralView.setUint32(0, 0x02014b50, true);
+    centralView.setUint32(20, data.length, true);
+    centralView.setUint32(24, data.length, true);
+    centralView.setUint16(28, nameBytes.length, true);
+    centralView.setUint32(42, offset, true);
+    central.set(nameBytes, 46);
+
+    locals.push(local);
+    centrals.push(central);
+    offset += local.length;
+  }
+
+  const centralSize = centrals.reduce((sum, c) => sum + c.length, 0);
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, 0x06054b50, true);
+  endView.setUint16(8, centrals.length, true);
+  endView.setUint16(10, centrals.length, true);
+  endView.setUint32(12, centralSize, true);
+  endView.setUint32(16, offset, true);
+
+  const result = new Uint8Array(offset + centralSize + end.length);
+  let position = 0;
+  for (const part of [...locals, ...centrals, end]) {
+    result.set(part, position);
+    position += part.length;
+  }
+  return result;
+}
+
+const workbook = (sheetXml: string, sharedStrings?: string) =>
+  zip({
+    "xl/workbook.xml":
+      '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets><sheet name="Context" sheetId="1" r:id="rId1"/></sheets></workbook>',
+    "xl/_rels/workbook.xml.rels":
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Target="worksheets/data.xml"/></Relationships>',
+    "xl/worksheets/data.xml": `<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>${sheetXml}</sheetData></worksheet>`,
+    ...(sharedStrings
+      ? {
+        "xl/sharedStrings.xml": `<sst xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">${sharedStrings}</sst>`,
+      }
+      : {}),
+  });
+
+describe("parseDelimited", () => {
+  it("unquotes fields with delimiters, doubled quotes and line breaks", () => {
+    const rows = parseDelimited('Name,Purpose\r\nOrders,"Holds ""open"", paid\nand shipped orders"\r\n');
+
+    expect(rows.map((row) => row.cells)).toEqual([
+      ["Name", "Purpose"],
+      ["Orders", 'Holds "open", paid\nand shipped orders'],
+    ]);
+  });
+
+  it("detects semicolon and tab delimiters from the header and drops the BOM", () => {
+    expect(parseDelimited("\uFEFFName;Purpose\nOrders;Sales")[0].cells).toEqual(["Name", "Purpose"]);
+    expect(parseDelimited("Name\tPurpose\nOrders\tSales")[1].cells).toEqual(["Orders", "Sales"]);
+  });
+
+  it("drops blank rows but keeps the row numbers of the rest", () => {
+    const rows = parseDelimited("Name\n\nOrders\n ,\nCustomers");
+
+    expect(rows.map((row) => [row.rowNumber, row.cells[0]])).toEqual([
+      [1, "Name"],
+      [3, "Orders"],
+      [5, "Customers"],
+    ]);
+  });
+});
+
+describe("formula neutralisation", () => {
+  it.each(["=SUM(A1)", "+1", "- legacy, do not use", "@user", "\tindented"])("round-trips %j", (value) => {
+    expect(neutraliseFormulaText(value)).toBe(`'${value}`);
+    expect(restoreFormulaText(neutraliseFormulaText(value))).toBe(value);
+  });
+
+  it("leaves other text, including a leading quote of its own, alone", () => {
+    expect(neutraliseFormulaText("Orders")).toBe("Orders");
+    expect(restoreFormulaText("'quoted'")).toBe("'quoted'");
+  });
+
+  it("is applied by toCsv to text cells only", () => {
+    expect(toCsv([["-1", -1, "a,b", null, true]])).toBe("'-1,-1,\"a,b\",,true");
+  });
+});
+
+describe("readSpreadsheetFile", () => {
+  it("reads shared, inline and boolean cells from the first sheet at their row numbers", async () => {
+    const bytes = workbook(
+      '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c></row>' +
+      '<row r="3"><c r="A3" t="inlineStr"><is><t>Orders</t></is></c><c r="C3" t="b"><v>1</v></c></row>' +
+      '<row r="4"><c r="B4"><v>42</v></c></row>',
+      "<si><t>Name</t></si><si><r><t>Pur</t></r><r><t>pose</t></r></si>",
+    );
+
+    const rows = await readSpreadsheetFile(file("context.xlsx", bytes));
+
+    expect(rows).toEqual([
+      { rowNumber: 1, cells: ["Name", "Purpose"] },
+      { rowNumber: 3, cells: ["Orders", "", "TRUE"] },
+      { rowNumber: 4, cells: ["", "42"] },
+    ]);
+  });
+
+  it("strips the formula guard an exported CSV adds", async () => {
+    const rows = await readSpreadsheetFile(file("context.csv", "Name,Purpose\nOrders,'- legacy"));
+
+    expect(rows[1].cells).toEqual(["Orders", "- legacy"]);
+  });
+
+  it("rejects legacy .xls and files that are not zips", async () => {
+    await expect(readSpreadsheetFile(file("old.xls", "x"))).rejects.toThrow(/not supported/);
+    await expect(readSpreadsheetFile(file("bad.xlsx", "not a zip"))).rejects.toThrow(/not a valid/);
+  });
+});
@@ -0,0 +1,258 @@
+// components/context/spreadsheetFile.ts
+
+/** A non-blank row of cell text and where it sits in the sheet */
+export interface SheetRow {
+  /** 1-based row in the spreadsheet; blank rows are dropped but still counted */
+  rowNumber: number;
+  cells: string[];
+}
+
+/**
+ * Reads the first sheet of a CSV / TSV / XLSX file into its non-blank rows.
+ * XLSX is read natively (zip + XML) so no spreadsheet library is needed.
+ */
+export async function readSpreadsheetFile(file: File): Promise<SheetRow[]> {
+  const extension = file.name.split(".").pop()?.toLowerCase();
+  if (extension === "xls") {
+    throw new Error("Legacy .xls files are not supported. Save the sheet as .xlsx or .csv.");
+  }
+  const rows = extension === "xlsx"
+    ? await readXlsx(await file.arrayBuffer())
+    : parseDelimited(await file.text());
+  // A CSV export opened and saved as .xlsx keeps the quote too
+  return rows.map((row) => ({ ...row, cells: row.cells.map(restoreFormulaText) }));
+}
+
+/** Text spreadsheet apps evaluate as a formula; same rule as the backend's ContextExportWriter */
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+/** Prefixes a quote so spreadsheet apps show formula-like text instead of evaluating it */
+export function neutraliseFormulaText(value: string): string {
+  return FORMULA_START.test(value) ? `'${value}` : value;
+}
+
+/**
+ * Undoes {@link neutraliseFormulaText} (and the backend's CSV export of the same rule),
+ * so an exported file imports back unchanged.
+ */
+export function restoreFormulaText(value: string): string {
+  return value.startsWith("'") && FORMULA_START.test(value.slice(1)) ? value.slice(1) : value;
+}
+
+/** Parses CSV/TSV text (RFC 4180 quoting). The delimiter is detected from the header line. */
+export function parseDelimited(text: string): SheetRow[] {
+  const source = text.replace(/^\uFEFF/, "");
+  const delimiter = detectDelimiter(source);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === "") {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && source[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return withoutBlankRows(rows);
+}
+
+function withoutBlankRows(rows: Array<string[] | undefined>): SheetRow[] {
+  return Array.from(rows, (cells, index) => ({ rowNumber: index + 1, cells: cells ?? [] })).filter((row) =>
+    row.cells.some((value) => value.trim() !== ""),
+  );
+}
+
+function detectDelimiter(text: string): string {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  const candidates = [",", ";", "\t"];
+  return candidates.reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best,
+  );
+}
+
+/** Serializes rows as CSV, quoting only where needed and neutralising formula-like text */
+export function toCsv(rows: Array<Array<string | number | boolean | undefined | null>>): string {
+  const quote = (value: string | number | boolean | undefined | null) => {
+    const text =
+      typeof value === "string"
+        ? neutraliseFormulaText(value)
+        : value === undefined || value === null
+          ? ""
+          : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  return rows.map((row) => row.map(quote).join(",")).join("\r\n");
+}
+
+// --- XLSX ---
+
+interface ZipEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+async function readXlsx(buffer: ArrayBuffer): Promise<SheetRow[]> {
+  const entries = readZipDirectory(buffer);
+  const readText = async (name: string) => {
+    const entry = entries.get(name);
+    return entry ? inflateEntry(buffer, entry) : null;
+  };
+
+  const sheetPath = await resolveFirstSheetPath(readText);
+  const sheetXml = await readText(sheetPath);
+  if (!sheetXml) {
+    throw new Error("The workbook doesn't contain any worksheets.");
+  }
+
+  const sharedStringsXml = await readText("xl/sharedStrings.xml");
+  const sharedStrings = sharedStringsXml
+    ? Array.from(parseXml(sharedStringsXml).getElementsByTagName("si"), (si) =>
+      Array.from(si.getElementsByTagName("t"), (t) => t.textContent ?? "").join(""),
+    )
+    : [];
+
+  const rows: string[][] = [];
+  for (const rowElement of Array.from(parseXml(sheetXml).getElementsByTagName("row"))) {
+    const rowIndex = Number(rowElement.getAttribute("r") ?? rows.length + 1) - 1;
+    const values: string[] = [];
+    let nextColumn = 0;
+    for (const cellElement of Array.from(rowElement.getElementsByTagName("c"))) {
+      const reference = cellElement.getAttribute("r");
+      const column = reference ? columnIndex(reference) : nextColumn;
+      values[column] = readCellText(cellElement, sharedStrings);
+      nextColumn = column + 1;
+    }
+    rows[rowIndex] = Array.from(values, (value) => value ?? "");
+  }
+
+  return withoutBlankRows(rows);
+}
+
+async function resolveFirstSheetPath(
+  readText: (name: string) => Promise<string | null>,
+): Promise<string> {
+  const fallback = "xl/worksheets/sheet1.xml";
+  const workbookXml = await readText("xl/workbook.xml");
+  const relsXml = await readText("xl/_rels/workbook.xml.rels");
+  if (!workbookXml || !relsXml) return fallback;
+
+  const sheet = parseXml(workbookXml).getElementsByTagName("sheet")[0];
+  const relationId =
+    sheet?.getAttribute("r:id") ??
+    sheet?.getAttributeNS("http://schemas.openxmlformats.org/officeDocument/2006/relationships", "id");
+  if (!relationId) return fallback;
+
+  const relation = Array.from(parseXml(relsXml).getElementsByTagName("Relationship")).find(
+    (r) => r.getAttribute("Id") === relationId,
+  );
+  const target = relation?.getAttribute("Target");
+  if (!target) return fallback;
+  return target.startsWith("/") ? target.slice(1) : `xl/${target}`;
+}
+
+function readCellText(cell: Element, sharedStrings: string[]): string {
+  const type = cell.getAttribute("t");
+  if (type === "inlineStr") {
+    return Array.from(cell.getElementsByTagName("t"), (t) => t.textContent ?? "").join("");
+  }
+  const raw = cell.getElementsByTagName("v")[0]?.textContent ?? "";
+  if (type === "s") return sharedStrings[Number(raw)] ?? "";
+  if (type === "b") return raw === "1" ? "TRUE" : "FALSE";
+  return raw;
+}
+
+/** "C12" → 2 */
+function columnIndex(reference: string): number {
+  const letters = reference.match(/^[A-Z]+/i)?.[0].toUpperCase() ?? "A";
+  let index = 0;
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+function parseXml(xml: string): Document {
+  return new DOMParser().parseFromString(xml, "application/xml");
+}
+
+function readZipDirectory(buffer: ArrayBuffer): Map<string, ZipEntry> {
+  const view = new DataView(buffer);
+  const decoder = new TextDecoder();
+
+  // End of central directory record: scan backwards past an optional comment
+  let eocd = -1;
+  for (let i = buffer.byteLength - 22; i >= Math.max(0, buffer.byteLength - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) {
+    throw new Error("This file is not a valid .xlsx workbook.");
+  }
+
+  const entryCount = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  const entries = new Map<string, ZipEntry>();
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) break;
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localHeaderOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(new Uint8Array(buffer, offset + 46, nameLength));
+    entries.set(name, { name, method, compressedSize, localHeaderOffset });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+async function inflateEntry(buffer: ArrayBuffer, entry: ZipEntry): Promise<string> {
+  const view = new DataView(buffer);
+  const nameLength = view.getUint16(entry.localHeaderOffset + 26, true);
+  const extraLength = view.getUint16(entry.localHeaderOffset + 28, true);
+  const start = entry.localHeaderOffset + 30 + nameLength + extraLength;
+  const data = new Uint8Array(buffer, start, entry.compressedSize);
+
+  if (entry.method === 0) {
+    return new TextDecoder().decode(data);
+  }
+  if (entry.method !== 8) {
+    throw new Error(`Unsupported compression in ${entry.name}.`);
+  }
+
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream("deflate-raw"));
+  return new Response(stream).text();
+}
@@ -0,0 +1,91 @@
+/**
+ * ErDiagramExportMenu — Download or copy the current ER diagram
+ *
+ * Images (SVG, PNG) mirror the canvas; Mermaid and DBML are generated from the loaded schema data.
+ */
+import { useState } from "react";
+import { Copy, Download, FileCode2, FileImage, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+    DropdownMenu,
+    DropdownMenuContent,
+    DropdownMenuItem,
+    DropdownMenuLabel,
+    DropdownMenuSeparator,
+    DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+    buildErText,
+    exportErDiagram,
+    type ErDiagramExportFormat,
+    type ErDiagramExportInput,
+} from "./erDiagramExport";
+
+interface ErDiagramExportMenuProps {
+    /** Read at export time so the latest positions are used */
+    getInput: () => ErDiagramExportInput;
+    disabled?: boolean;
+}
+
+const DOWNLOADS: { format: ErDiagramExportFormat; label: string; icon: typeof FileImage }[] = [
+    { format: "svg", label: "SVG image", icon: FileImage },
+    { format: "png", label: "PNG image", icon: FileImage },
+    { format: "mermaid", label: "Mermaid (erDiagram)", icon: FileCode2 },
+    { format: "dbml", label: "DBML", icon: FileCode2 },
+];
+
+export default function ErDiagramExportMenu({ getInput, disabled }: ErDiagramExportMenuProps) {
+    const [isExporting, setIsExporting] = useState(false);
+
+    const handleDownload = async (exportFormat: ErDiagramExportFormat) => {
+        setIsExporting(true);
+        try {
+            const fileName = await exportErDiagram(getInput(), exportFormat);
+            toast.success(`Exported ${fileName}`);
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : "Failed to export diagram");
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    const handleCopy = async (exportFormat: "mermaid" | "dbml") => {
+        try {
+            await navigator.clipboard.writeText(buildErText(getInput(), exportFormat));
+            toast.success(`${exportFormat === "mermaid" ? "Mermaid" : "DBML"} copied to clipboard`);
+        } catch {
+            toast.error("Failed to copy to clipboard");
+        }
+    };
+
+    return (
+        <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+                <Button variant="outline" size="sm" className="gap-1.5" disabled={disabled || isExporting}>
+                    {isExporting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+                    Export
+                </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" className="w-56">
+                <DropdownMenuLabel>Download</DropdownMenuLabel>
+                {DOWNLOADS.map(({ format, label, icon: Icon }) => (
+                    <DropdownMenuItem key={format} onSelect={() => handleDownload(format)}>
+                        <Icon className="h-4 w-4" />
+                        {label}
+                    </DropdownMenuItem>
+                ))}
+                <DropdownMenuSeparator />
+                <DropdownMenuLabel>Copy</DropdownMenuLabel>
+                <DropdownMenuItem onSelect={() => handleCopy("mermaid")}>
+                    <Copy className="h-4 w-4" />
+                    Mermaid
+                </DropdownMenuItem>
+                <DropdownMenuItem onSelect={() => handleCopy("dbml")}>
+                    <Copy className="h-4 w-4" />
+                    DBML
+                </DropdownMenuItem>
+            </DropdownMenuContent>
+        </DropdownMenu>
+    );
+}
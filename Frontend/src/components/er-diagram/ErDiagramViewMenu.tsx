@@ -0,0 +1,268 @@
+/**
+ * ErDiagramViewMenu — Open, save and share named ER diagram views
+ *
+ * A view captures the canvas (focus tables, depth, direction, node positions, hidden tables)
+ * so curated subject-area diagrams can be reopened later or shared as a `?view=<id>` link.
+ */
+import { useState } from "react";
+import {
+    Bookmark,
+    ChevronDown,
+    Check,
+    Link2,
+    Save,
+    SaveAll,
+    Trash2,
+} from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import {
+    DropdownMenu,
+    DropdownMenuContent,
+    DropdownMenuItem,
+    DropdownMenuLabel,
+    DropdownMenuSeparator,
+    DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { queryKeys, useApiMutation } from "@/hooks/useApi";
+import type {
+    ErDiagramView,
+    ErDiagramViewLayout,
+    SaveErDiagramViewRequest,
+} from "@/types/er-diagram";
+
+interface ErDiagramViewMenuProps {
+    projectId: number;
+    views: ErDiagramView[];
+    activeView?: ErDiagramView;
+    /** False until a focus table is on the canvas */
+    canSave: boolean;
+    /** Snapshot of the current canvas, read at save time */
+    getLayout: () => ErDiagramViewLayout;
+    onOpenView: (viewId: number) => void;
+    onViewSaved: (view: ErDiagramView) => void;
+    onViewDeleted: () => void;
+}
+
+function getErDiagramViewUrl(projectId: number, viewId: number): string {
+    return `${window.location.origin}/project/${projectId}/er-diagram?view=${viewId}`;
+}
+
+export default function ErDiagramViewMenu({
+    projectId,
+    views,
+    activeView,
+    canSave,
+    getLayout,
+    onOpenView,
+    onViewSaved,
+    onViewDeleted,
+}: ErDiagramViewMenuProps) {
+    const [isDialogOpen, setIsDialogOpen] = useState(false);
+    const [name, setName] = useState("");
+    const [description, setDescription] = useState("");
+
+    const invalidateKeys = [Array.from(queryKeys.erDiagram.views(projectId))];
+
+    const createMutation = useApiMutation<
+        ErDiagramView,
+        SaveErDiagramViewRequest & { projectId: number }
+    >("/er-diagram/projects/:projectId/views", "POST", {
+        successMessage: "View saved",
+        invalidateKeys,
+    });
+
+    const updateMutation = useApiMutation<
+        ErDiagramView,
+        SaveErDiagramViewRequest & { projectId: number; viewId: number }
+    >("/er-diagram/projects/:projectId/views/:viewId", "PUT", {
+        successMessage: "View updated",
+        invalidateKeys,
+    });
+
+    const deleteMutation = useApiMutation<
+        unknown,
+        { projectId: number; viewId: number }
+    >("/er-diagram/projects/:projectId/views/:viewId", "DELETE", {
+        successMessage: "View deleted",
+        invalidateKeys,
+    });
+
+    const openSaveAsDialog = () => {
+        setName(activeView ? `${activeView.name} copy` : "");
+        setDescription(activeView?.description ?? "");
+        setIsDialogOpen(true);
+    };
+
+    const handleSaveAs = () => {
+        const trimmed = name.trim();
+        if (!trimmed) return;
+        createMutation.mutate(
+            {
+                projectId,
+                name: trimmed,
+                description: description.trim() || undefined,
+                layout: getLayout(),
+            },
+            {
+                onSuccess: (view) => {
+                    setIsDialogOpen(false);
+                    onViewSaved(view);
+                },
+            }
+        );
+    };
+
+    const handleSave = () => {
+        if (!activeView) return;
+        updateMutation.mutate(
+            {
+                projectId,
+                viewId: activeView.viewId,
+                name: activeView.name,
+                description: activeView.description,
+                layout: getLayout(),
+            },
+            { onSuccess: onViewSaved }
+        );
+    };
+
+    const handleDelete = () => {
+        if (!activeView) return;
+        if (!window.confirm(`Delete the view "${activeView.name}"?`)) return;
+        deleteMutation.mutate(
+            { projectId, viewId: activeView.viewId },
+            { onSuccess: onViewDeleted }
+        );
+    };
+
+    const handleCopyLink = async () => {
+        if (!activeView) return;
+        try {
+            await navigator.clipboard.writeText(getErDiagramViewUrl(projectId, activeView.viewId));
+            toast.success("View link copied to clipboard");
+        } catch {
+            toast.error("Failed to copy link");
+        }
+    };
+
+    const isSaving = createMutation.isPending || updateMutation.isPending;
+
+    return (
+        <>
+            <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                    <Button variant="outline" size="sm" className="gap-1.5 max-w-56">
+                        <Bookmark className="h-4 w-4 shrink-0" />
+                        <span className="truncate">{activeView ? activeView.name : "Views"}</span>
+                        <ChevronDown className="h-3.5 w-3.5 shrink-0 opacity-60" />
+                    </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end" className="w-64">
+                    <DropdownMenuLabel>Saved views</DropdownMenuLabel>
+                    {views.length === 0 ? (
+                        <div className="px-2 py-1.5 text-xs text-muted-foreground">
+                            No saved views yet
+                        </div>
+                    ) : (
+                        views.map((view) => (
+                            <DropdownMenuItem
+                                key={view.viewId}
+                                onSelect={() => onOpenView(view.viewId)}
+                                className="flex items-start gap-2"
+                            >
+                                <Check
+                                    className={`h-4 w-4 mt-0.5 shrink-0 ${view.viewId === activeView?.viewId ? "opacity-100" : "opacity-0"}`}
+                                />
+                                <div className="min-w-0">
+                                    <div className="truncate">{view.name}</div>
+                                    <div className="text-[10px] text-muted-foreground truncate">
+                                        {view.description || `by ${view.createdByName}`}
+                                    </div>
+                                </div>
+                            </DropdownMenuItem>
+                        ))
+                    )}
+                    <DropdownMenuSeparator />
+                    <DropdownMenuItem disabled={!activeView || !canSave || isSaving} onSelect={handleSave}>
+                        <Save className="h-4 w-4" />
+                        Save view
+                    </DropdownMenuItem>
+                    <DropdownMenuItem disabled={!canSave || isSaving} onSelect={openSaveAsDialog}>
+                        <SaveAll className="h-4 w-4" />
+                        Save as new view...
+                    </DropdownMenuItem>
+                    <DropdownMenuItem disabled={!activeView} onSelect={handleCopyLink}>
+                        <Link2 className="h-4 w-4" />
+                        Copy link
+                    </DropdownMenuItem>
+                    <DropdownMenuItem
+                        disabled={!activeView || deleteMutation.isPending}
+                        onSelect={handleDelete}
+                        className="text-destructive focus:text-destructive"
+                    >
+                        <Trash2 className="h-4 w-4" />
+                        Delete view
+                    </DropdownMenuItem>
+                </DropdownMenuContent>
+            </DropdownMenu>
+
+            <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+                <DialogContent className="sm:max-w-[440px]">
+                    <DialogHeader>
+                        <DialogTitle>Save diagram view</DialogTitle>
+                        <DialogDescription>
+                            Saves the focus table, depth, layout and hidden tables so the diagram
+                            can be reopened or shared with a link.
+                        </DialogDescription>
+                    </DialogHeader>
+                    <div className="space-y-4">
+                        <div className="space-y-2">
+                            <Label htmlFor="er-view-name">Name</Label>
+                            <Input
+                                id="er-view-name"
+                                value={name}
+                                maxLength={100}
+                                placeholder="e.g. Billing core"
+                                onChange={(e) => setName(e.target.value)}
+                                onKeyDown={(e) => {
+                                    if (e.key === "Enter") handleSaveAs();
+                                }}
+                            />
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="er-view-description">Description</Label>
+                            <Textarea
+                                id="er-view-description"
+                                value={description}
+                                maxLength={500}
+                                rows={3}
+                                placeholder="What this diagram covers (optional)"
+                                onChange={(e) => setDescription(e.target.value)}
+                            />
+                        </div>
+                    </div>
+                    <DialogFooter>
+                        <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+                            Cancel
+                        </Button>
+                        <Button onClick={handleSaveAs} disabled={!name.trim() || createMutation.isPending}>
+                            Save view
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+        </>
+    );
+}
@@ -0,0 +1,234 @@
+/**
+ * ErJoinQueryPanel — Generated SELECT ... JOIN for the tables selected on the ER canvas
+ *
+ * Each join can be switched between INNER and LEFT. The statement stays editable,
+ * and can be copied or saved to the snippet library.
+ */
+import { useEffect, useMemo, useState } from "react";
+import { AlertCircle, Copy, Save } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+    Sheet,
+    SheetContent,
+    SheetDescription,
+    SheetHeader,
+    SheetTitle,
+} from "@/components/ui/sheet";
+import { Textarea } from "@/components/ui/textarea";
+import SPPreviewPane from "@/components/spgen/SPPreviewPanel";
+import { queryKeys, useApiPost } from "@/hooks/useApi";
+import type { ErEdgeData, ErNodeData } from "@/types/er-diagram";
+import type { CreateSnippetRequest, SnippetDetail } from "@/types/snippet";
+import { buildJoinQuery, planJoinQuery, type ErJoinType } from "./erJoinQuery";
+
+interface ErJoinQueryPanelProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    /** Selected tables; the first one becomes the FROM table */
+    selectedTableIds: number[];
+    tables: ErNodeData[];
+    edges: ErEdgeData[];
+}
+
+export default function ErJoinQueryPanel({
+    open,
+    onOpenChange,
+    selectedTableIds,
+    tables,
+    edges,
+}: ErJoinQueryPanelProps) {
+    const [joinTypes, setJoinTypes] = useState<Record<string, ErJoinType>>({});
+    const [sql, setSql] = useState("");
+    const [isSaveDialogOpen, setIsSaveDialogOpen] = useState(false);
+    const [title, setTitle] = useState("");
+    const [description, setDescription] = useState("");
+    const [tagsInput, setTagsInput] = useState("");
+
+    const tablesById = useMemo(() => new Map(tables.map((t) => [t.tableId, t])), [tables]);
+    const plan = useMemo(() => planJoinQuery(selectedTableIds, edges), [selectedTableIds, edges]);
+    const generatedSql = useMemo(
+        () => (plan ? buildJoinQuery(plan, tables, joinTypes) : ""),
+        [plan, tables, joinTypes]
+    );
+
+    // Changing the selection or a join type regenerates the query and drops manual edits
+    useEffect(() => {
+        setSql(generatedSql);
+    }, [generatedSql]);
+
+    const createMutation = useApiPost<SnippetDetail, CreateSnippetRequest>("/Snippet", {
+        successMessage: "Snippet created successfully",
+        invalidateKeys: [Array.from(queryKeys.snippets.all()), Array.from(queryKeys.snippets.filters())],
+    });
+
+    const getTableName = (tableId: number) => tablesById.get(tableId)?.tableName ?? `#${tableId}`;
+
+    const handleCopy = async () => {
+        try {
+            await navigator.clipboard.writeText(sql);
+            toast.success("Query copied to clipboard");
+        } catch {
+            toast.error("Failed to copy to clipboard");
+        }
+    };
+
+    const openSaveDialog = () => {
+        const names = plan
+            ? [plan.rootTableId, ...plan.steps.map((s) => s.tableId)].map(getTableName)
+            : [];
+        setTitle(names.length > 0 ? `Join ${names.join(", ")}` : "");
+        setDescription("");
+        setTagsInput("join, er-diagram");
+        setIsSaveDialogOpen(true);
+    };
+
+    const handleSaveSnippet = () => {
+        const trimmed = title.trim();
+        if (!trimmed || !sql.trim()) return;
+        createMutation.mutate(
+            {
+                title: trimmed,
+                code: sql,
+                language: "SQL",
+                description: description.trim() || undefined,
+                tags: tagsInput.split(",").map((t) => t.trim()).filter(Boolean),
+            },
+            { onSuccess: () => setIsSaveDialogOpen(false) }
+        );
+    };
+
+    return (
+        <>
+            <Sheet open={open} onOpenChange={onOpenChange}>
+                <SheetContent className="w-full sm:max-w-2xl flex flex-col">
+                    <SheetHeader>
+                        <SheetTitle>Generated JOIN query</SheetTitle>
+                        <SheetDescription>
+                            Joins follow physical FKs and confirmed logical FKs between the selected tables.
+                        </SheetDescription>
+                    </SheetHeader>
+
+                    <div className="flex-1 min-h-0 flex flex-col gap-3 px-4 pb-4">
+                        {plan && plan.steps.length > 0 && (
+                            <div className="space-y-1.5 text-xs">
+                                {plan.steps.map((step) => {
+                                    const joinType = joinTypes[step.key] ?? "INNER";
+                                    return (
+                                        <div key={step.key} className="flex items-center gap-2">
+                                            <div className="flex rounded-md border overflow-hidden shrink-0">
+                                                {(["INNER", "LEFT"] as const).map((type) => (
+                                                    <button
+                                                        key={type}
+                                                        onClick={() => setJoinTypes((prev) => ({ ...prev, [step.key]: type }))}
+                                                        className={`px-2 py-0.5 transition-colors ${joinType === type
+                                                            ? "bg-primary text-primary-foreground"
+                                                            : "hover:bg-muted"
+                                                            }`}
+                                                    >
+                                                        {type}
+                                                    </button>
+                                                ))}
+                                            </div>
+                                            <span className="font-mono truncate">
+                                                {getTableName(step.tableId)}
+                                                <span className="text-muted-foreground"> on </span>
+                                                {getTableName(step.parentTableId)}
+                                            </span>
+                                            {step.edges.some((e) => e.relationshipType === "LOGICAL") && (
+                                                <span className="text-green-600 shrink-0">(logical)</span>
+                                            )}
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        )}
+
+                        {plan && plan.unconnectedTableIds.length > 0 && (
+                            <div className="flex items-start gap-2 rounded-md border border-amber-500/40 bg-amber-500/10 px-3 py-2 text-xs text-amber-700 dark:text-amber-400">
+                                <AlertCircle className="h-3.5 w-3.5 mt-0.5 shrink-0" />
+                                <span>
+                                    Not joined: {plan.unconnectedTableIds.map(getTableName).join(", ")}. They have no
+                                    physical or confirmed logical FK to the other selected tables.
+                                </span>
+                            </div>
+                        )}
+
+                        <div className="flex-1 min-h-[320px]">
+                            <SPPreviewPane sqlCode={sql} onChange={setSql} />
+                        </div>
+
+                        <div className="flex justify-end gap-2">
+                            <Button variant="outline" size="sm" onClick={handleCopy} disabled={!sql.trim()}>
+                                <Copy className="h-4 w-4" />
+                                Copy
+                            </Button>
+                            <Button size="sm" onClick={openSaveDialog} disabled={!sql.trim()}>
+                                <Save className="h-4 w-4" />
+                                Save as snippet
+                            </Button>
+                        </div>
+                    </div>
+                </SheetContent>
+            </Sheet>
+
+            <Dialog open={isSaveDialogOpen} onOpenChange={setIsSaveDialogOpen}>
+                <DialogContent className="sm:max-w-[440px]">
+                    <DialogHeader>
+                        <DialogTitle>Save as snippet</DialogTitle>
+                        <DialogDescription>
+                            Adds the query to the snippet library as a SQL snippet.
+                        </DialogDescription>
+                    </DialogHeader>
+                    <div className="space-y-4">
+                        <div className="space-y-2">
+                            <Label htmlFor="er-join-snippet-title">Title</Label>
+                            <Input
+                                id="er-join-snippet-title"
+                                value={title}
+                                onChange={(e) => setTitle(e.target.value)}
+                            />
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="er-join-snippet-description">Description</Label>
+                            <Textarea
+                                id="er-join-snippet-description"
+                                value={description}
+                                rows={3}
+                                placeholder="What this query is for (optional)"
+                                onChange={(e) => setDescription(e.target.value)}
+                            />
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="er-join-snippet-tags">Tags</Label>
+                            <Input
+                                id="er-join-snippet-tags"
+                                value={tagsInput}
+                                placeholder="Comma separated"
+                                onChange={(e) => setTagsInput(e.target.value)}
+                            />
+                        </div>
+                    </div>
+                    <DialogFooter>
+                        <Button variant="outline" onClick={() => setIsSaveDialogOpen(false)}>
+                            Cancel
+                        </Button>
+                        <Button onClick={handleSaveSnippet} disabled={!title.trim() || createMutation.isPending}>
+                            Save snippet
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+        </>
+    );
+}
@@ -9,6 +9,7 @@ import {
     KeyRound,
     Link2,
     CircleDot,
+    EyeOff,
 } from "lucide-react";
 import type { ErColumnData } from "@/types/er-diagram";
 
@@ -19,17 +20,21 @@ export interface TableNodeData {
     columns: ErColumnData[];
     depth: number;
     isFocus: boolean;
+    /** Removes the table from the canvas; omitted for the focus table */
+    onHide?: (tableId: number) => void;
+    /** Columns used by a highlighted join path */
+    highlightedColumnIds?: number[];
     [key: string]: unknown;
 }
 
-const TableNode = memo(({ data }: NodeProps) => {
-    const { label, schemaName, columns, isFocus } = data as TableNodeData;
+const TableNode = memo(({ data, selected }: NodeProps) => {
+    const { tableId, label, schemaName, columns, isFocus, onHide, highlightedColumnIds } = data as TableNodeData;
 
     return (
         <div
             className={`
         rounded-lg border shadow-md bg-card text-card-foreground min-w-[220px] overflow-hidden
-        ${isFocus ? "ring-2 ring-primary border-primary" : "border-border"}
+        ${isFocus ? "ring-2 ring-primary border-primary" : selected ? "ring-2 ring-blue-500/60 border-blue-500" : "border-border"}
       `}
         >
             {/* Table header */}
@@ -46,6 +51,20 @@ const TableNode = memo(({ data }: NodeProps) => {
                         {schemaName}
                     </span>
                 )}
+                {onHide && !isFocus && (
+                    <button
+                        type="button"
+                        onClick={(e) => {
+                            e.stopPropagation();
+                            onHide(tableId);
+                        }}
+                        className={`nodrag p-0.5 rounded text-muted-foreground hover:text-foreground hover:bg-muted transition-colors ${schemaName ? "" : "ml-auto"}`}
+                        title="Hide table"
+                        aria-label={`Hide ${label}`}
+                    >
+                        <EyeOff className="h-3 w-3" />
+                    </button>
+                )}
             </div>
 
             {/* Columns */}
@@ -53,7 +72,10 @@ const TableNode = memo(({ data }: NodeProps) => {
                 {(columns as ErColumnData[]).map((col, idx) => (
                     <div
                         key={col.columnId}
-                        className="relative px-3 py-1.5 text-xs flex items-center gap-2 hover:bg-muted/30 transition-colors"
+                        className={`relative px-3 py-1.5 text-xs flex items-center gap-2 transition-colors ${highlightedColumnIds?.includes(col.columnId)
+                            ? "bg-blue-500/10 text-blue-700 dark:text-blue-300"
+                            : "hover:bg-muted/30"
+                            }`}
                     >
                         {/* Left handle (target) */}
                         <Handle
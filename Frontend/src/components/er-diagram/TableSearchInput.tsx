@@ -0,0 +1,118 @@
+/**
+ * TableSearchInput — Type-ahead table picker for the ER diagram toolbar
+ *
+ * Filters the project's table list by name and closes when clicking outside.
+ * With `onAdd`, each result also offers a button to add it alongside the current selection.
+ */
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Plus, Search } from "lucide-react";
+import type { TableListItem } from "@/types/er-diagram";
+
+interface TableSearchInputProps {
+    tables: TableListItem[] | undefined;
+    placeholder: string;
+    ariaLabel: string;
+    /** Name of the currently picked table, shown while the input is empty */
+    selectedLabel?: string;
+    onSelect: (table: TableListItem) => void;
+    onAdd?: (table: TableListItem) => void;
+    /** Tables already selected; they are not offered for adding again */
+    excludeTableIds?: number[];
+    className?: string;
+}
+
+export default function TableSearchInput({
+    tables,
+    placeholder,
+    ariaLabel,
+    selectedLabel,
+    onSelect,
+    onAdd,
+    excludeTableIds,
+    className = "w-80",
+}: TableSearchInputProps) {
+    const [query, setQuery] = useState("");
+    const [isOpen, setIsOpen] = useState(false);
+    const containerRef = useRef<HTMLDivElement | null>(null);
+
+    const filteredTables = useMemo(() => {
+        if (!tables || !query.trim()) return tables?.slice(0, 20) ?? [];
+        const q = query.toLowerCase();
+        return tables.filter((t) => t.tableName.toLowerCase().includes(q)).slice(0, 20);
+    }, [tables, query]);
+
+    // Close dropdown when clicking outside the container
+    useEffect(() => {
+        const handleDocumentMouseDown = (event: MouseEvent) => {
+            if (!containerRef.current) return;
+            if (!containerRef.current.contains(event.target as globalThis.Node)) {
+                setIsOpen(false);
+            }
+        };
+
+        document.addEventListener("mousedown", handleDocumentMouseDown);
+        return () => document.removeEventListener("mousedown", handleDocumentMouseDown);
+    }, []);
+
+    const close = () => {
+        setQuery("");
+        setIsOpen(false);
+    };
+
+    return (
+        <div ref={containerRef} className={`relative ${className}`}>
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <input
+                type="text"
+                aria-label={ariaLabel}
+                placeholder={selectedLabel ?? placeholder}
+                value={query}
+                onChange={(e) => {
+                    setQuery(e.target.value);
+                    setIsOpen(true);
+                }}
+                onFocus={() => setIsOpen(true)}
+                className={`w-full pl-9 pr-3 py-2 text-sm rounded-md border bg-background focus:outline-none focus:ring-2 focus:ring-primary/50 ${selectedLabel ? "placeholder:text-foreground placeholder:font-mono" : ""}`}
+            />
+
+            {isOpen && query.trim() && filteredTables.length > 0 && (
+                <div className="absolute z-50 top-full mt-1 w-full rounded-md border bg-popover shadow-lg max-h-60 overflow-auto">
+                    {filteredTables.map((table) => {
+                        const canAdd = onAdd && !excludeTableIds?.includes(table.tableId);
+                        return (
+                            <div key={table.tableId} className="flex items-center hover:bg-muted transition-colors">
+                                <button
+                                    className="flex-1 min-w-0 text-left px-3 py-2 text-sm flex items-center gap-2"
+                                    onClick={() => {
+                                        onSelect(table);
+                                        close();
+                                    }}
+                                >
+                                    <span className="font-mono truncate">{table.tableName}</span>
+                                    {table.schemaName && (
+                                        <span className="text-xs text-muted-foreground">
+                                            ({table.schemaName})
+                                        </span>
+                                    )}
+                                </button>
+                                {canAdd && (
+                                    <button
+                                        className="mr-2 p-1 rounded text-muted-foreground hover:text-foreground hover:bg-background transition-colors"
+                                        title="Add to canvas"
+                                        aria-label={`Add ${table.tableName} to canvas`}
+                                        onClick={() => {
+                                            onAdd(table);
+                                            close();
+                                        }}
+                                    >
+                                        <Plus className="h-3.5 w-3.5" />
+                                    </button>
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,361 @@
+/**
+ * ER diagram export: images of the current canvas and text schemas for docs and wikis.
+ *
+ * Images are drawn from the React Flow node positions so they match what is on screen.
+ * Text formats are generated from the loaded ErNodeData / ErEdgeData; logical FKs are
+ * marked separately from physical ones, and PK/FK/nullability flags are kept.
+ */
+import { format } from "date-fns";
+import type { Edge, Node } from "@xyflow/react";
+import { saveBlob } from "@/lib/api";
+import type { ErColumnData, ErEdgeData, ErNodeData } from "@/types/er-diagram";
+import type { TableNodeData } from "./TableNode";
+
+export type ErDiagramExportFormat = "svg" | "png" | "mermaid" | "dbml";
+
+const FORMAT_META: Record<ErDiagramExportFormat, { extension: string; mimeType: string }> = {
+    svg: { extension: "svg", mimeType: "image/svg+xml;charset=utf-8" },
+    png: { extension: "png", mimeType: "image/png" },
+    mermaid: { extension: "mmd", mimeType: "text/plain;charset=utf-8" },
+    dbml: { extension: "dbml", mimeType: "text/plain;charset=utf-8" },
+};
+
+// --- SHARED ---
+
+function getQualifiedName(node: ErNodeData): string {
+    return node.schemaName ? `${node.schemaName}.${node.tableName}` : node.tableName;
+}
+
+function getColumn(node: ErNodeData | undefined, columnId: number): ErColumnData | undefined {
+    return node?.columns.find((c) => c.columnId === columnId);
+}
+
+function describeLogicalEdge(edge: ErEdgeData): string {
+    const confidence = edge.confidenceScore != null
+        ? `, ${Math.round(edge.confidenceScore * 100)}%`
+        : "";
+    return `logical FK, ${(edge.status ?? "SUGGESTED").toLowerCase()}${confidence}`;
+}
+
+// --- MERMAID ---
+
+/** Mermaid entity names only allow word characters and hyphens */
+function toMermaidName(value: string): string {
+    return value.replace(/[^A-Za-z0-9_-]+/g, "_");
+}
+
+function toMermaidType(dataType: string): string {
+    return dataType.replace(/[^A-Za-z0-9_()[\]-]+/g, "_") || "unknown";
+}
+
+/**
+ * Builds a Mermaid `erDiagram`. Physical FKs use identifying (solid) relationships,
+ * logical FKs use non-identifying (dashed) ones and say so in their label.
+ */
+export function buildErMermaid(nodes: ErNodeData[], edges: ErEdgeData[]): string {
+    const nameCounts = new Map<string, number>();
+    for (const node of nodes) {
+        nameCounts.set(node.tableName, (nameCounts.get(node.tableName) ?? 0) + 1);
+    }
+    // Schema-qualify only when the same table name appears in several schemas
+    const entityNames = new Map(
+        nodes.map((node) => [
+            node.tableId,
+            toMermaidName((nameCounts.get(node.tableName) ?? 0) > 1 ? getQualifiedName(node) : node.tableName),
+        ])
+    );
+    const nodesById = new Map(nodes.map((n) => [n.tableId, n]));
+
+    const lines = ["erDiagram"];
+
+    for (const node of nodes) {
+        lines.push(`    ${entityNames.get(node.tableId)} {`);
+        for (const col of node.columns) {
+            const keys = [col.isPrimaryKey && "PK", col.isForeignKey && "FK"].filter(Boolean).join(", ");
+            const comment = col.isNullable ? ` "nullable"` : "";
+            lines.push(`        ${toMermaidType(col.dataType)} ${toMermaidName(col.columnName)}${keys ? ` ${keys}` : ""}${comment}`);
+        }
+        lines.push("    }");
+    }
+
+    for (const edge of edges) {
+        const source = entityNames.get(edge.sourceTableId);
+        const target = entityNames.get(edge.targetTableId);
+        if (!source || !target) continue;
+
+        // The referenced (target) side is optional when the FK column allows NULL
+        const sourceColumn = getColumn(nodesById.get(edge.sourceTableId), edge.sourceColumnId);
+        const targetCardinality = sourceColumn?.isNullable ? "|o" : "||";
+        const line = edge.relationshipType === "LOGICAL" ? ".." : "--";
+        const label = edge.relationshipType === "LOGICAL"
+            ? `${edge.sourceColumnName} (${describeLogicalEdge(edge)})`
+            : edge.sourceColumnName;
+
+        lines.push(`    ${target} ${targetCardinality}${line}o{ ${source} : "${label.replace(/"/g, "'")}"`);
+    }
+
+    return lines.join("\n") + "\n";
+}
+
+// --- DBML ---
+
+function quoteDbml(value: string): string {
+    return `"${value.replace(/"/g, '\\"')}"`;
+}
+
+function toDbmlTableName(node: ErNodeData): string {
+    return node.schemaName
+        ? `${quoteDbml(node.schemaName)}.${quoteDbml(node.tableName)}`
+        : quoteDbml(node.tableName);
+}
+
+function toDbmlType(dataType: string): string {
+    return /\s/.test(dataType) ? quoteDbml(dataType) : dataType;
+}
+
+/**
+ * Builds a DBML schema. DBML has no notion of an unenforced reference,
+ * so logical FKs are named `logical_<id>` and preceded by a comment.
+ */
+export function buildErDbml(nodes: ErNodeData[], edges: ErEdgeData[]): string {
+    const nodesById = new Map(nodes.map((n) => [n.tableId, n]));
+    const lines: string[] = [];
+
+    for (const node of nodes) {
+        lines.push(`Table ${toDbmlTableName(node)} {`);
+        for (const col of node.columns) {
+            const settings = [
+                col.isPrimaryKey && "pk",
+                col.isNullable ? "null" : "not null",
+            ].filter(Boolean);
+            lines.push(`  ${quoteDbml(col.columnName)} ${toDbmlType(col.dataType)} [${settings.join(", ")}]`);
+        }
+        lines.push("}", "");
+    }
+
+    for (const edge of edges) {
+        const source = nodesById.get(edge.sourceTableId);
+        const target = nodesById.get(edge.targetTableId);
+        if (!source || !target) continue;
+
+        const ref = `${toDbmlTableName(source)}.${quoteDbml(edge.sourceColumnName)} > ${toDbmlTableName(target)}.${quoteDbml(edge.targetColumnName)}`;
+        if (edge.relationshipType === "LOGICAL") {
+            lines.push(`// ${describeLogicalEdge(edge)}`);
+            lines.push(`Ref logical_${edge.logicalFkId ?? edge.id.replace(/\W+/g, "_")}: ${ref}`);
+        } else {
+            lines.push(`Ref: ${ref}`);
+        }
+    }
+
+    return lines.join("\n").trimEnd() + "\n";
+}
+
+// --- SVG / PNG ---
+
+const SVG_PADDING = 40;
+const SVG_NODE_WIDTH = 260;
+const SVG_HEADER_HEIGHT = 32;
+const SVG_ROW_HEIGHT = 22;
+const SVG_FONT = `-apple-system, "Segoe UI", Roboto, sans-serif`;
+
+function escapeXml(value: string): string {
+    return value
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;")
+        .replace(/'/g, "&apos;");
+}
+
+interface SvgTableBox {
+    x: number;
+    y: number;
+    width: number;
+    data: TableNodeData;
+}
+
+function getRowCenterY(box: SvgTableBox, columnId: number): number {
+    const index = Math.max(0, box.data.columns.findIndex((c) => c.columnId === columnId));
+    return box.y + SVG_HEADER_HEIGHT + index * SVG_ROW_HEIGHT + SVG_ROW_HEIGHT / 2;
+}
+
+/**
+ * Draws the canvas as a standalone SVG using the current node positions and edge styles.
+ * Returns the markup with its pixel size so it can also be rasterized.
+ */
+export function buildErSvg(nodes: Node[], edges: Edge[]): { svg: string; width: number; height: number } {
+    const boxes = new Map<string, SvgTableBox>();
+    for (const node of nodes) {
+        boxes.set(node.id, {
+            x: node.position.x,
+            y: node.position.y,
+            width: node.measured?.width ?? SVG_NODE_WIDTH,
+            data: node.data as TableNodeData,
+        });
+    }
+
+    const all = Array.from(boxes.values());
+    const minX = Math.min(...all.map((b) => b.x), 0);
+    const minY = Math.min(...all.map((b) => b.y), 0);
+    const maxX = Math.max(...all.map((b) => b.x + b.width), 0);
+    const maxY = Math.max(...all.map((b) => b.y + SVG_HEADER_HEIGHT + b.data.columns.length * SVG_ROW_HEIGHT), 0);
+    const width = Math.ceil(maxX - minX + SVG_PADDING * 2);
+    const height = Math.ceil(maxY - minY + SVG_PADDING * 2);
+
+    const parts: string[] = [];
+
+    for (const edge of edges) {
+        const source = boxes.get(edge.source);
+        const target = boxes.get(edge.target);
+        const data = edge.data as unknown as ErEdgeData | undefined;
+        if (!source || !target || !data) continue;
+
+        // Leave from whichever side faces the other table
+        const leftToRight = source.x + source.width / 2 <= target.x + target.width / 2;
+        const x1 = leftToRight ? source.x + source.width : source.x;
+        const x2 = leftToRight ? target.x : target.x + target.width;
+        const y1 = getRowCenterY(source, data.sourceColumnId);
+        const y2 = getRowCenterY(target, data.targetColumnId);
+        const bend = Math.max(40, Math.abs(x2 - x1) / 2) * (leftToRight ? 1 : -1);
+
+        const stroke = String(edge.style?.stroke ?? "#6b7280");
+        const strokeWidth = Number(edge.style?.strokeWidth ?? 1.5);
+        const dash = edge.style?.strokeDasharray ? ` stroke-dasharray="${edge.style.strokeDasharray}"` : "";
+        parts.push(
+            `<path d="M ${x1} ${y1} C ${x1 + bend} ${y1}, ${x2 - bend} ${y2}, ${x2} ${y2}" fill="none" stroke="${stroke}" stroke-width="${strokeWidth}"${dash} />`
+        );
+        if (typeof edge.label === "string") {
+            parts.push(
+                `<text x="${(x1 + x2) / 2}" y="${(y1 + y2) / 2 - 4}" text-anchor="middle" font-size="10" fill="${stroke}">${escapeXml(edge.label)}</text>`
+            );
+        }
+    }
+
+    for (const box of all) {
+        const { data } = box;
+        const boxHeight = SVG_HEADER_HEIGHT + data.columns.length * SVG_ROW_HEIGHT;
+        const border = data.isFocus ? "#0f172a" : "#cbd5e1";
+        parts.push(`<g transform="translate(${box.x}, ${box.y})">`);
+        parts.push(`<rect width="${box.width}" height="${boxHeight}" rx="8" fill="#ffffff" stroke="${border}" stroke-width="${data.isFocus ? 2 : 1}" />`);
+        parts.push(`<path d="M 0 8 Q 0 0 8 0 L ${box.width - 8} 0 Q ${box.width} 0 ${box.width} 8 L ${box.width} ${SVG_HEADER_HEIGHT} L 0 ${SVG_HEADER_HEIGHT} Z" fill="#f1f5f9" />`);
+        parts.push(`<text x="12" y="21" font-size="13" font-weight="600" fill="#0f172a">${escapeXml(data.label)}</text>`);
+        if (data.schemaName) {
+            parts.push(`<text x="${box.width - 12}" y="21" text-anchor="end" font-size="10" fill="#64748b">${escapeXml(data.schemaName)}</text>`);
+        }
+
+        data.columns.forEach((col, idx) => {
+            const y = SVG_HEADER_HEIGHT + idx * SVG_ROW_HEIGHT;
+            const highlighted = data.highlightedColumnIds?.includes(col.columnId);
+            if (highlighted) {
+                parts.push(`<rect y="${y}" width="${box.width}" height="${SVG_ROW_HEIGHT}" fill="#3b82f6" fill-opacity="0.1" />`);
+            }
+            const marker = col.isPrimaryKey ? "PK" : col.isForeignKey ? "FK" : "";
+            const markerColor = col.isPrimaryKey ? "#f59e0b" : "#3b82f6";
+            if (marker) {
+                parts.push(`<text x="12" y="${y + 15}" font-size="9" font-weight="600" fill="${markerColor}">${marker}</text>`);
+            }
+            parts.push(
+                `<text x="34" y="${y + 15}" font-size="11" font-family="ui-monospace, monospace" font-weight="${col.isPrimaryKey ? 600 : 400}" fill="#0f172a">${escapeXml(col.columnName)}</text>`
+            );
+            parts.push(
+                `<text x="${box.width - 12}" y="${y + 15}" text-anchor="end" font-size="10" font-family="ui-monospace, monospace" fill="#64748b">${escapeXml(col.dataType)}${col.isNullable ? "?" : ""}</text>`
+            );
+            if (idx > 0) {
+                parts.push(`<line x1="0" y1="${y}" x2="${box.width}" y2="${y}" stroke="#e2e8f0" />`);
+            }
+        });
+        parts.push("</g>");
+    }
+
+    const svg = [
+        `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="${minX - SVG_PADDING} ${minY - SVG_PADDING} ${width} ${height}" font-family='${SVG_FONT}'>`,
+        `<rect x="${minX - SVG_PADDING}" y="${minY - SVG_PADDING}" width="${width}" height="${height}" fill="#ffffff" />`,
+        ...parts,
+        "</svg>",
+    ].join("\n");
+
+    return { svg, width, height };
+}
+
+/** Rasterizes an SVG at `scale`x for crisp images in docs */
+function svgToPngBlob(svg: string, width: number, height: number, scale = 2): Promise<Blob> {
+    return new Promise((resolve, reject) => {
+        const image = new Image();
+        image.onload = () => {
+            const canvas = document.createElement("canvas");
+            canvas.width = width * scale;
+            canvas.height = height * scale;
+            const context = canvas.getContext("2d");
+            if (!context) {
+                reject(new Error("Canvas is not supported in this browser"));
+                return;
+            }
+            context.scale(scale, scale);
+            context.drawImage(image, 0, 0, width, height);
+            canvas.toBlob(
+                (blob) => (blob ? resolve(blob) : reject(new Error("Failed to render PNG"))),
+                "image/png"
+            );
+        };
+        image.onerror = () => reject(new Error("Failed to render diagram image"));
+        image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+    });
+}
+
+// --- EXPORT ENTRY POINT ---
+
+export interface ErDiagramExportInput {
+    /** Nodes and edges currently on the canvas */
+    nodes: Node[];
+    edges: Edge[];
+    /** Loaded diagram data for the same canvas */
+    tables: ErNodeData[];
+    relationships: ErEdgeData[];
+    /** Used in the file name, e.g. a view name or the focus table */
+    name: string;
+}
+
+/** Text formats are built from the data on the canvas, so hidden tables stay out */
+function getVisibleData(input: ErDiagramExportInput): { tables: ErNodeData[]; relationships: ErEdgeData[] } {
+    const visibleTableIds = new Set(input.nodes.map((n) => (n.data as TableNodeData).tableId));
+    const visibleEdgeIds = new Set(input.edges.map((e) => e.id));
+    return {
+        tables: input.tables.filter((t) => visibleTableIds.has(t.tableId)),
+        relationships: input.relationships.filter((e) => visibleEdgeIds.has(e.id)),
+    };
+}
+
+export function buildErText(input: ErDiagramExportInput, exportFormat: "mermaid" | "dbml"): string {
+    const { tables, relationships } = getVisibleData(input);
+    return exportFormat === "mermaid"
+        ? buildErMermaid(tables, relationships)
+        : buildErDbml(tables, relationships);
+}
+
+/**
+ * Builds the export on the client and downloads it.
+ * Returns the file name that was written.
+ */
+export async function exportErDiagram(
+    input: ErDiagramExportInput,
+    exportFormat: ErDiagramExportFormat
+): Promise<string> {
+    const { extension, mimeType } = FORMAT_META[exportFormat];
+    const safeName = input.name
+        .replace(/[^A-Za-z0-9_.-]+/g, "_")
+        .replace(/^_+|_+$/g, "");
+    const fileName = `er-diagram-${safeName || "schema"}-${format(new Date(), "yyyyMMdd-HHmm")}.${extension}`;
+
+    let blob: Blob;
+    if (exportFormat === "svg" || exportFormat === "png") {
+        const { svg, width, height } = buildErSvg(input.nodes, input.edges);
+        blob = exportFormat === "svg"
+            ? new Blob([svg], { type: mimeType })
+            : await svgToPngBlob(svg, width, height);
+    } else {
+        blob = new Blob([buildErText(input, exportFormat)], { type: mimeType });
+    }
+
+    saveBlob(blob, fileName);
+    return fileName;
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import type { ErEdgeData, ErNodeData } from "@/types/er-diagram";
+import { buildJoinQuery, planJoinQuery } from "./erJoinQuery";
+
+function node(tableId: number, tableName: string, columnNames: string[]): ErNodeData {
+  return {
+    tableId,
+    tableName,
+    schemaName: "dbo",
+    depth: 0,
+    columns: columnNames.map((columnName, i) => ({
+      columnId: tableId * 100 + i,
+      columnName,
+      dataType: "int",
+      isPrimaryKey: i === 0,
+      isForeignKey: false,
+      isNullable: false,
+    })),
+  };
+}
+
+function edge(sourceTableId: number, sourceColumnName: string, targetTableId: number, targetColumnName: string): ErEdgeData {
+  return {
+    id: `${sourceTableId}-${targetTableId}`,
+    sourceTableId,
+    sourceColumnId: sourceTableId * 100,
+    sourceColumnName,
+    targetTableId,
+    targetColumnId: targetTableId * 100,
+    targetColumnName,
+    relationshipType: "PHYSICAL",
+  };
+}
+
+describe("buildJoinQuery", () => {
+  it("never uses a T-SQL reserved word as a table alias", () => {
+    const nodes = [
+      node(1, "OrderRequests", ["OrderRequestId"]),
+      node(2, "AccountStatus", ["AccountStatusId", "OrderRequestId"]),
+      node(3, "OrderNumbers", ["OrderNumberId", "OrderRequestId"]),
+    ];
+    const plan = planJoinQuery([1, 2, 3], [edge(2, "OrderRequestId", 1, "OrderRequestId"), edge(3, "OrderRequestId", 1, "OrderRequestId")])!;
+
+    const sql = buildJoinQuery(plan, nodes, {});
+
+    expect(sql).toContain("FROM [dbo].[OrderRequests] AS or2");
+    expect(sql).toContain("INNER JOIN [dbo].[AccountStatus] AS as2");
+    expect(sql).toContain("INNER JOIN [dbo].[OrderNumbers] AS on2");
+    expect(sql).toContain("ON as2.[OrderRequestId] = or2.[OrderRequestId]");
+    expect(sql).not.toMatch(/\b(or|as|on)\./);
+  });
+
+  it("keeps short capital aliases that are not reserved", () => {
+    const nodes = [node(1, "OrderItems", ["OrderItemId"])];
+    const plan = planJoinQuery([1], [])!;
+
+    expect(buildJoinQuery(plan, nodes, {})).toContain("FROM [dbo].[OrderItems] AS oi");
+  });
+});
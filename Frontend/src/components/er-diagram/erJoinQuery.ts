@@ -0,0 +1,191 @@
+/**
+ * Builds a T-SQL `SELECT ... JOIN` statement for a set of tables selected on the ER canvas.
+ *
+ * Tables are joined along a spanning tree of the relationships between them. Only physical
+ * FKs and CONFIRMED logical FKs are used; suggested or rejected ones never become joins.
+ */
+import type { ErEdgeData, ErNodeData } from "@/types/er-diagram";
+
+export type ErJoinType = "INNER" | "LEFT";
+
+/** One JOIN clause: `table` is joined onto the already joined `parentTableId` */
+export interface ErJoinStep {
+    /** Key for the join type choice; the id of the first edge used */
+    key: string;
+    tableId: number;
+    parentTableId: number;
+    /** Every usable edge between the two tables, e.g. both columns of a composite FK */
+    edges: ErEdgeData[];
+}
+
+export interface ErJoinPlan {
+    rootTableId: number;
+    steps: ErJoinStep[];
+    /** Selected tables with no usable relationship to the rest of the selection */
+    unconnectedTableIds: number[];
+}
+
+export function isJoinableEdge(edge: ErEdgeData): boolean {
+    return edge.relationshipType === "PHYSICAL" || edge.status === "CONFIRMED";
+}
+
+/**
+ * Plans the joins with a breadth-first walk from the first selected table,
+ * so each table is joined onto the closest table already in the query.
+ */
+export function planJoinQuery(selectedTableIds: number[], edges: ErEdgeData[]): ErJoinPlan | null {
+    const selected = Array.from(new Set(selectedTableIds));
+    if (selected.length === 0) return null;
+
+    const selectedSet = new Set(selected);
+    const usable = edges.filter(
+        (e) => isJoinableEdge(e)
+            && e.sourceTableId !== e.targetTableId
+            && selectedSet.has(e.sourceTableId)
+            && selectedSet.has(e.targetTableId)
+    );
+
+    const rootTableId = selected[0];
+    const joined = new Set([rootTableId]);
+    const queue = [rootTableId];
+    const steps: ErJoinStep[] = [];
+
+    while (queue.length > 0) {
+        const current = queue.shift()!;
+        for (const edge of usable) {
+            const other = edge.sourceTableId === current
+                ? edge.targetTableId
+                : edge.targetTableId === current ? edge.sourceTableId : undefined;
+            if (other === undefined || joined.has(other)) continue;
+
+            const pairEdges = usable.filter(
+                (e) => (e.sourceTableId === current && e.targetTableId === other)
+                    || (e.sourceTableId === other && e.targetTableId === current)
+            );
+            steps.push({ key: edge.id, tableId: other, parentTableId: current, edges: pairEdges });
+            joined.add(other);
+            queue.push(other);
+        }
+    }
+
+    return {
+        rootTableId,
+        steps,
+        unconnectedTableIds: selected.filter((id) => !joined.has(id)),
+    };
+}
+
+function quoteName(value: string): string {
+    return `[${value.replace(/]/g, "]]")}]`;
+}
+
+function toTableReference(node: ErNodeData): string {
+    return node.schemaName
+        ? `${quoteName(node.schemaName)}.${quoteName(node.tableName)}`
+        : quoteName(node.tableName);
+}
+
+/** T-SQL reserved keywords; an alias like `or` or `as` would not parse */
+const RESERVED_WORDS = new Set(
+    ("add all alter and any as asc authorization backup begin between break browse bulk by cascade case check "
+        + "checkpoint close clustered coalesce collate column commit compute constraint contains containstable "
+        + "continue convert create cross current current_date current_time current_timestamp current_user cursor "
+        + "database dbcc deallocate declare default delete deny desc disk distinct distributed double drop dump "
+        + "else end errlvl escape except exec execute exists exit external fetch file fillfactor for foreign "
+        + "freetext freetexttable from full function goto grant group having holdlock identity identity_insert "
+        + "identitycol if in index inner insert intersect into is join key kill left like lineno load merge "
+        + "national nocheck nonclustered not null nullif of off offsets on open opendatasource openquery "
+        + "openrowset openxml option or order outer over percent pivot plan precision primary print proc "
+        + "procedure public raiserror read readtext reconfigure references replication restore restrict return "
+        + "revert revoke right rollback rowcount rowguidcol rule save schema securityaudit select "
+        + "semantickeyphrasetable semanticsimilaritydetailstable semanticsimilaritytable session_user set setuser "
+        + "shutdown some statistics system_user table tablesample textsize then to top tran transaction trigger "
+        + "truncate try_convert tsequal union unique unpivot update updatetext use user values varying view "
+        + "waitfor when where while with within writetext").split(" ")
+);
+
+/** Short aliases from the capitals in the table name: OrderItems → oi, OrderRequests → or2 */
+function createAliases(nodes: ErNodeData[]): Map<number, string> {
+    const aliases = new Map<number, string>();
+    const used = new Set<string>();
+    for (const node of nodes) {
+        const capitals = node.tableName.match(/[A-Z]/g)?.join("") ?? "";
+        const base = (capitals.length > 0 ? capitals : node.tableName.replace(/[^A-Za-z]/g, "").charAt(0) || "t").toLowerCase();
+        let alias = base;
+        for (let i = 2; used.has(alias) || RESERVED_WORDS.has(alias); i++) alias = `${base}${i}`;
+        used.add(alias);
+        aliases.set(node.tableId, alias);
+    }
+    return aliases;
+}
+
+/**
+ * Renders the plan as T-SQL. Column names that appear in more than one table
+ * are aliased as `<alias>_<column>` so the result set has unique names.
+ */
+export function buildJoinQuery(
+    plan: ErJoinPlan,
+    nodes: ErNodeData[],
+    joinTypes: Record<string, ErJoinType>
+): string {
+    const nodesById = new Map(nodes.map((n) => [n.tableId, n]));
+    const orderedIds = [plan.rootTableId, ...plan.steps.map((s) => s.tableId)];
+    const ordered = orderedIds
+        .map((id) => nodesById.get(id))
+        .filter((n): n is ErNodeData => !!n);
+    const aliases = createAliases(ordered);
+
+    const columnCounts = new Map<string, number>();
+    for (const node of ordered) {
+        for (const col of node.columns) {
+            const key = col.columnName.toLowerCase();
+            columnCounts.set(key, (columnCounts.get(key) ?? 0) + 1);
+        }
+    }
+
+    const selectList = ordered.flatMap((node) => {
+        const alias = aliases.get(node.tableId)!;
+        return node.columns.map((col) => {
+            const ref = `${alias}.${quoteName(col.columnName)}`;
+            return (columnCounts.get(col.columnName.toLowerCase()) ?? 0) > 1
+                ? `${ref} AS ${quoteName(`${alias}_${col.columnName}`)}`
+                : ref;
+        });
+    });
+
+    const root = nodesById.get(plan.rootTableId);
+    if (!root) return "";
+
+    const lines = [
+        "SELECT",
+        selectList.map((item) => `    ${item}`).join(",\n"),
+        `FROM ${toTableReference(root)} AS ${aliases.get(root.tableId)}`,
+    ];
+
+    for (const step of plan.steps) {
+        const node = nodesById.get(step.tableId);
+        if (!node) continue;
+
+        const conditions = step.edges.map((edge) => {
+            const source = `${aliases.get(edge.sourceTableId)}.${quoteName(edge.sourceColumnName)}`;
+            const target = `${aliases.get(edge.targetTableId)}.${quoteName(edge.targetColumnName)}`;
+            // Write the joined table's column first
+            return edge.sourceTableId === step.tableId ? `${source} = ${target}` : `${target} = ${source}`;
+        });
+        const logical = step.edges.some((e) => e.relationshipType === "LOGICAL");
+
+        lines.push(`${joinTypes[step.key] ?? "INNER"} JOIN ${toTableReference(node)} AS ${aliases.get(node.tableId)}${logical ? " -- confirmed logical FK" : ""}`);
+        lines.push(`    ON ${conditions.join("\n    AND ")}`);
+    }
+
+    lines[lines.length - 1] += ";";
+
+    const unconnected = plan.unconnectedTableIds
+        .map((id) => nodesById.get(id)?.tableName)
+        .filter(Boolean);
+    if (unconnected.length > 0) {
+        lines.push("", `-- Not joined (no physical or confirmed logical FK to the other tables): ${unconnected.join(", ")}`);
+    }
+
+    return lines.join("\n") + "\n";
+}
@@ -44,7 +44,7 @@ export function EmptyDetailsState() {
           <div>
             <p className="text-sm font-medium">Quick Tip</p>
             <p className="text-xs text-muted-foreground">
-              Use Ctrl+K to search
+              Use Ctrl+K to search across the project
             </p>
           </div>
         </div>
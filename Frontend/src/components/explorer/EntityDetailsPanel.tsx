@@ -9,14 +9,16 @@ import {
   Code2,
   Users,
   FileText,
+  History,
 } from "lucide-react";
 import { Skeleton } from "@/components/ui/skeletons";
 import { ExpertManagement } from "@/components/context/ExpertManagement";
 import { ContextEditor } from "@/components/context/ContextEditorPanel";
+import { ContextHistoryTimeline } from "@/components/context/ContextHistoryTimeline";
 import { EntityOverviewTab } from "./EntityOverviewTab";
 import type { UnifiedEntity, EntityType } from "./EntityListPanel";
 
-export type EntityTab = "overview" | "experts" | "documentation";
+export type EntityTab = "overview" | "experts" | "documentation" | "history";
 
 interface EntityDetailsPanelProps {
   projectId: number;
@@ -135,6 +137,10 @@ export function EntityDetailsPanel({
               <FileText className="h-3.5 w-3.5" />
               Documentation
             </TabsTrigger>
+            <TabsTrigger value="history" className="gap-2">
+              <History className="h-3.5 w-3.5" />
+              History
+            </TabsTrigger>
           </TabsList>
 
           <div className="flex-1 overflow-auto p-4">
@@ -170,6 +176,13 @@ export function EntityDetailsPanel({
                 </div>
               )}
             </TabsContent>
+
+            <TabsContent value="history" className="mt-0 h-full">
+              <ContextHistoryTimeline
+                entityType={entity.entityType}
+                entityId={entity.entityId}
+              />
+            </TabsContent>
           </div>
         </Tabs>
       </div>
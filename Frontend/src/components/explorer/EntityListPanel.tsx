@@ -134,7 +134,7 @@ const EntityRow = memo(function EntityRow({
             <Checkbox
               checked={isCheckedForResync}
               onCheckedChange={(checked) => onToggleResync?.(entity, checked === true)}
-              aria-label={`Select ${entity.entityName} for resync`}
+              aria-label={`Select ${entity.entityName}`}
             />
           </div>
         </TableCell>
@@ -200,7 +200,6 @@ export function EntityListPanel({
   const [focusedIndex, setFocusedIndex] = useState<number>(-1);
   const pageSize = 50;
 
-  const searchInputRef = useRef<HTMLInputElement>(null);
   const listContainerRef = useRef<HTMLDivElement>(null);
   const itemRefs = useRef<(HTMLTableRowElement | null)[]>([]);
 
@@ -435,17 +434,6 @@ export function EntityListPanel({
     }
   }, [focusedIndex]);
 
-  useEffect(() => {
-    const handleGlobalK = (e: KeyboardEvent) => {
-      if ((e.ctrlKey || e.metaKey) && e.key === "k") {
-        e.preventDefault();
-        searchInputRef.current?.focus();
-      }
-    };
-    window.addEventListener("keydown", handleGlobalK);
-    return () => window.removeEventListener("keydown", handleGlobalK);
-  }, []);
-
   if (isLoading && !allEntities.length) {
     return (
       <div className="space-y-4">
@@ -461,10 +449,9 @@ export function EntityListPanel({
         <div className="relative">
           <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
           <Input
-            ref={searchInputRef}
             value={searchQuery}
             onChange={(e) => setSearchQuery(e.target.value)}
-            placeholder="Search entities... (Ctrl+K)"
+            placeholder="Search entities..."
             className="pl-10"
           />
         </div>
@@ -30,6 +30,7 @@ import {
   Network,
 } from "lucide-react";
 import { Skeleton } from "@/components/ui/skeletons";
+import { EntityImpactPreview } from "@/components/impact-analysis/ImpactPreview";
 import type { UnifiedEntity } from "./EntityListPanel";
 
 interface TableDetails {
@@ -294,6 +295,25 @@ export function EntityOverviewTab({
           </Card>
         )}
 
+      {(entity.entityType === "TABLE" || entity.entityType === "SP") && (
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base">Change Impact</CardTitle>
+            <CardDescription>
+              What breaks downstream if this {entity.entityType === "SP" ? "procedure" : "table"} is modified
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <EntityImpactPreview
+              projectId={projectId}
+              entityType={entity.entityType}
+              entityId={entity.entityId}
+              entityName={entity.entityName}
+            />
+          </CardContent>
+        </Card>
+      )}
+
       {/* Quick Actions */}
       <div className="flex gap-2 pt-4 border-t">
         {detailRoute ? (
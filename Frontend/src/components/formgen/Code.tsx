@@ -4,13 +4,19 @@
 import { lazy, useEffect, useRef, useState } from "react";
 import { Button } from "../ui/button";
 import { cn } from "../../lib/utils";
+import {
+  SQL_DIALECT_LABELS,
+  SQL_DIALECT_LANGUAGES,
+} from "../../lib/schema-utils";
 import { toast } from "sonner";
 import { Copy } from "lucide-react";
 import type { GeneratedCode } from "../../hooks/useFormBuilder";
 const MonacoEditor = lazy(() => import("@monaco-editor/react"));
 
+type CodeView = "html" | "javascript" | "sql";
+
 export default function CodeTab({ code }: { code: GeneratedCode }) {
-  const [showHtml, setShowHtml] = useState(true);
+  const [view, setView] = useState<CodeView>("html");
   const containerRef = useRef<HTMLDivElement | null>(null);
   const [editorHeight, setEditorHeight] = useState(480);
 
@@ -36,8 +42,18 @@ export default function CodeTab({ code }: { code: GeneratedCode }) {
     };
   }, []);
 
+  const dialect = code.dialect ?? "SqlServer";
+  const sql = (code.storedProcedures ?? [])
+    .map((sp) => `-- ${sp.fileName}\n${sp.code}`)
+    .join("\n\n");
+  const views: Record<CodeView, { value: string; language: string }> = {
+    html: { value: code.html, language: "html" },
+    javascript: { value: code.javaScript, language: "javascript" },
+    sql: { value: sql, language: SQL_DIALECT_LANGUAGES[dialect] },
+  };
+
   const handleCopy = async () => {
-    const codeToCopy = showHtml ? code.html : code.javaScript;
+    const codeToCopy = views[view].value;
     try {
       await navigator.clipboard.writeText(codeToCopy);
       toast.success("Code copied to clipboard");
@@ -71,27 +87,40 @@ export default function CodeTab({ code }: { code: GeneratedCode }) {
       <div className="border-b p-2 flex-shrink-0">
         <div className="flex gap-2">
           <Button
-            onClick={() => setShowHtml(true)}
-            variant={showHtml ? "default" : "outline"}
+            onClick={() => setView("html")}
+            variant={view === "html" ? "default" : "outline"}
             size="sm"
             className={cn(
               "text-sm",
-              showHtml && "bg-blue-600 hover:bg-blue-700",
+              view === "html" && "bg-blue-600 hover:bg-blue-700",
             )}
           >
             HTML
           </Button>
           <Button
-            onClick={() => setShowHtml(false)}
-            variant={!showHtml ? "default" : "outline"}
+            onClick={() => setView("javascript")}
+            variant={view === "javascript" ? "default" : "outline"}
             size="sm"
             className={cn(
               "text-sm",
-              !showHtml && "bg-blue-600 hover:bg-blue-700",
+              view === "javascript" && "bg-blue-600 hover:bg-blue-700",
             )}
           >
             JavaScript
           </Button>
+          {sql && (
+            <Button
+              onClick={() => setView("sql")}
+              variant={view === "sql" ? "default" : "outline"}
+              size="sm"
+              className={cn(
+                "text-sm",
+                view === "sql" && "bg-blue-600 hover:bg-blue-700",
+              )}
+            >
+              SQL ({SQL_DIALECT_LABELS[dialect]})
+            </Button>
+          )}
           <Button
             onClick={handleCopy}
             variant="outline"
@@ -107,9 +136,9 @@ export default function CodeTab({ code }: { code: GeneratedCode }) {
       <div ref={containerRef} className="flex-1 min-h-0">
         <MonacoEditor
           height={editorHeight}
-          language={showHtml ? "html" : "javascript"}
+          language={views[view].language}
           theme="vs-dark"
-          value={showHtml ? code.html : code.javaScript}
+          value={views[view].value}
           options={{
             minimap: { enabled: false },
             fontSize: 13,
@@ -0,0 +1,204 @@
+/**
+ * Impact Dependency Graph
+ *
+ * Merges every ImpactEntity path into one directed graph and lays it out with dagre.
+ * Nodes are colored by worst-case impact level, edges labeled with the dependency type.
+ * Clicking a node opens that entity's detail page.
+ */
+import { useCallback, useEffect, useMemo } from "react";
+import { useNavigate } from "react-router-dom";
+import {
+  ReactFlow,
+  Background,
+  Controls,
+  MiniMap,
+  useNodesState,
+  useEdgesState,
+  type Node,
+  type Edge,
+  type NodeMouseHandler,
+  BackgroundVariant,
+  MarkerType,
+  Panel,
+} from "@xyflow/react";
+import "@xyflow/react/dist/style.css";
+import { Activity } from "lucide-react";
+import { getLayoutedElements } from "@/components/er-diagram/useAutoLayout";
+import type { ImpactDecisionResponse } from "@/types/impact-analysis";
+import ImpactGraphNode, { type ImpactGraphNodeData } from "./ImpactGraphNode";
+import {
+  IMPACT_LEVEL_CONFIG,
+  getDependencyTypeLabel,
+  getEntityRoute,
+  parseStableKey,
+} from "./impactConfig";
+
+const nodeTypes = { impactEntity: ImpactGraphNode };
+
+/** MiniMap needs raw colors; keep in step with IMPACT_LEVEL_CONFIG */
+const IMPACT_LEVEL_HEX: Record<number, string> = {
+  1: "#94a3b8",
+  2: "#f59e0b",
+  3: "#f59e0b",
+  4: "#dc2626",
+};
+
+/**
+ * Flattens all entity paths into unique nodes and edges.
+ * Parallel edges between the same pair collapse into one, labeled with every dependency type seen.
+ */
+function buildImpactGraph(response: ImpactDecisionResponse): {
+  nodes: Node[];
+  edges: Edge[];
+} {
+  const rootKey =
+    response.summary.rootEntity?.stableKey ??
+    response.summary.triggeringEntity?.stableKey;
+  const levelByKey = new Map(
+    response.entities.map((e) => [e.entity.stableKey, e.worstCaseImpactLevel]),
+  );
+
+  const nodeMap = new Map<string, ImpactGraphNodeData>();
+  const edgeLabels = new Map<string, Set<string>>();
+
+  for (const item of response.entities) {
+    for (const path of item.paths ?? []) {
+      path.nodes.forEach((pathNode, idx) => {
+        if (!nodeMap.has(pathNode.stableKey)) {
+          nodeMap.set(pathNode.stableKey, {
+            stableKey: pathNode.stableKey,
+            label: pathNode.name || pathNode.stableKey,
+            entityType: parseStableKey(pathNode.stableKey)?.type ?? "FILE",
+            impactLevel: levelByKey.get(pathNode.stableKey) ?? null,
+            isRoot: pathNode.stableKey === rootKey,
+          });
+        }
+
+        if (idx === 0) return;
+        const edgeKey = `${path.nodes[idx - 1].stableKey}->${pathNode.stableKey}`;
+        const labels = edgeLabels.get(edgeKey) ?? new Set<string>();
+        const depType = path.edges?.[idx - 1];
+        if (depType != null) labels.add(getDependencyTypeLabel(depType));
+        edgeLabels.set(edgeKey, labels);
+      });
+    }
+  }
+
+  const nodes: Node[] = Array.from(nodeMap.values()).map((data) => ({
+    id: data.stableKey,
+    type: "impactEntity",
+    position: { x: 0, y: 0 }, // dagre will overwrite
+    data,
+  }));
+
+  const edges: Edge[] = Array.from(edgeLabels.entries()).map(
+    ([key, labels]) => {
+      const [source, target] = key.split("->");
+      const targetLevel = nodeMap.get(target)?.impactLevel;
+      const stroke =
+        (targetLevel != null && IMPACT_LEVEL_HEX[targetLevel]) || "#6b7280";
+      return {
+        id: key,
+        source,
+        target,
+        type: "smoothstep",
+        label: labels.size > 0 ? Array.from(labels).join(", ") : undefined,
+        labelStyle: { fontSize: 10 },
+        style: { stroke, strokeWidth: 1.5 },
+        markerEnd: { type: MarkerType.ArrowClosed, color: stroke },
+      };
+    },
+  );
+
+  return getLayoutedElements(nodes, edges, {
+    direction: "LR",
+    focusNodeId: rootKey,
+  });
+}
+
+interface ImpactDependencyGraphProps {
+  projectId: string;
+  response: ImpactDecisionResponse;
+}
+
+export function ImpactDependencyGraph({
+  projectId,
+  response,
+}: ImpactDependencyGraphProps) {
+  const navigate = useNavigate();
+  const layouted = useMemo(() => buildImpactGraph(response), [response]);
+
+  const [nodes, setNodes, onNodesChange] = useNodesState<Node>([]);
+  const [edges, setEdges, onEdgesChange] = useEdgesState<Edge>([]);
+
+  useEffect(() => {
+    setNodes(layouted.nodes);
+    setEdges(layouted.edges);
+  }, [layouted, setNodes, setEdges]);
+
+  const onNodeClick: NodeMouseHandler<Node> = useCallback(
+    (_event: React.MouseEvent, node: Node) => {
+      const parsed = parseStableKey(node.id);
+      if (!parsed) return;
+      navigate(getEntityRoute(projectId, parsed.type, parsed.id));
+    },
+    [navigate, projectId],
+  );
+
+  if (layouted.nodes.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center py-16 text-center space-y-3 bg-muted/20 rounded-xl border border-dashed">
+        <Activity className="w-10 h-10 text-muted-foreground/30" />
+        <p className="text-sm text-muted-foreground">
+          No dependency path data available to graph.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-[600px] rounded-xl border bg-card overflow-hidden">
+      <ReactFlow
+        nodes={nodes}
+        edges={edges}
+        onNodesChange={onNodesChange}
+        onEdgesChange={onEdgesChange}
+        onNodeClick={onNodeClick}
+        nodeTypes={nodeTypes}
+        fitView
+        fitViewOptions={{ padding: 0.3 }}
+        minZoom={0.3}
+        maxZoom={2}
+        proOptions={{ hideAttribution: true }}
+      >
+        <Background variant={BackgroundVariant.Dots} gap={20} size={1} />
+        <Controls />
+        <MiniMap
+          nodeStrokeWidth={3}
+          nodeColor={(node) => {
+            const level = (node.data as ImpactGraphNodeData).impactLevel;
+            return (level != null && IMPACT_LEVEL_HEX[level]) || "#6b7280";
+          }}
+          className="!bg-card !border-border"
+        />
+
+        {/* Legend */}
+        <Panel position="bottom-left">
+          <div className="bg-card border rounded-lg p-3 shadow-sm text-xs space-y-2">
+            <div className="font-semibold text-sm mb-1">Impact Level</div>
+            {Object.entries(IMPACT_LEVEL_CONFIG).map(([level, config]) => (
+              <div key={level} className="flex items-center gap-2">
+                <div className={`w-3 h-3 rounded-sm ${config.color}`} />
+                <span>{config.label}</span>
+              </div>
+            ))}
+            <div className="flex items-center gap-2">
+              <div className="w-3 h-3 rounded-sm ring-2 ring-primary" />
+              <span>Changed entity</span>
+            </div>
+          </div>
+        </Panel>
+      </ReactFlow>
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+/**
+ * Custom entity node for the impact dependency graph.
+ * Colored by the entity's worst-case impact level; the root entity is outlined.
+ */
+import { memo } from "react";
+import { Handle, Position, type NodeProps } from "@xyflow/react";
+import { cn } from "@/lib/utils";
+import { IMPACT_LEVEL_CONFIG, getEntityTypeLabel } from "./impactConfig";
+import { EntityTypeIcon } from "./ImpactIndicators";
+
+export interface ImpactGraphNodeData {
+  stableKey: string;
+  label: string;
+  entityType: string;
+  /** Worst-case impact level, or null when the node is not in the ranked entity list */
+  impactLevel: number | null;
+  isRoot: boolean;
+  [key: string]: unknown;
+}
+
+const ImpactGraphNode = memo(({ data }: NodeProps) => {
+  const { label, entityType, impactLevel, isRoot } =
+    data as ImpactGraphNodeData;
+  const levelConfig =
+    impactLevel != null ? IMPACT_LEVEL_CONFIG[impactLevel] : undefined;
+
+  return (
+    <div
+      className={cn(
+        "rounded-lg border shadow-md bg-card text-card-foreground w-[220px] overflow-hidden cursor-pointer hover:shadow-lg transition-shadow",
+        isRoot ? "ring-2 ring-primary border-primary" : "border-border",
+      )}
+    >
+      <Handle
+        type="target"
+        position={Position.Left}
+        className="!w-2 !h-2 !bg-muted-foreground/40 !border-0"
+      />
+
+      <div className="flex items-center gap-2 px-3 py-2">
+        <span
+          className={cn(
+            "w-1.5 self-stretch rounded-full shrink-0",
+            isRoot ? "bg-primary" : (levelConfig?.color ?? "bg-muted"),
+          )}
+        />
+        <EntityTypeIcon
+          type={entityType}
+          className="h-4 w-4 text-muted-foreground shrink-0"
+        />
+        <div className="min-w-0">
+          <div className="text-sm font-semibold truncate">{label}</div>
+          <div className="text-[10px] text-muted-foreground">
+            {getEntityTypeLabel(entityType)}
+            {isRoot
+              ? " · Changed"
+              : levelConfig
+                ? ` · ${levelConfig.label}`
+                : ""}
+          </div>
+        </div>
+      </div>
+
+      <Handle
+        type="source"
+        position={Position.Right}
+        className="!w-2 !h-2 !bg-muted-foreground/40 !border-0"
+      />
+    </div>
+  );
+});
+
+ImpactGraphNode.displayName = "ImpactGraphNode";
+export default ImpactGraphNode;
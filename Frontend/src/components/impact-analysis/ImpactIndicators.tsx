@@ -0,0 +1,72 @@
+import React from "react";
+import { Database, FileCode, Table2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Separator } from "@/components/ui/separator";
+import { IMPACT_LEVEL_CONFIG, RISK_CONFIG } from "./impactConfig";
+
+export const EntityTypeIcon = ({
+  type,
+  className,
+}: {
+  type: string;
+  className?: string;
+}) => {
+  const iconMap: Record<string, React.ComponentType<{ className?: string }>> = {
+    SP: Database,
+    TABLE: Table2,
+  };
+  const Icon = iconMap[type] || FileCode;
+  return <Icon className={className} />;
+};
+
+export const RiskBadge = ({
+  riskLevel,
+  score,
+}: {
+  riskLevel: number;
+  score: number;
+}) => {
+  const config = RISK_CONFIG[riskLevel] || RISK_CONFIG[1];
+  const Icon = config.icon;
+
+  return (
+    <div
+      className={cn(
+        "inline-flex items-center gap-1.5 px-3 py-1 rounded-full text-sm font-medium border shadow-sm",
+        config.color,
+      )}
+    >
+      <Icon className="w-4 h-4" />
+      {config.label}
+      <Separator
+        orientation="vertical"
+        className="h-4 mx-1 bg-current opacity-20"
+      />
+      <span className="opacity-80 font-mono text-xs">Score: {score}</span>
+    </div>
+  );
+};
+
+export const ImpactMeter = ({ level }: { level: number }) => {
+  return (
+    <div
+      className="flex gap-1 items-end h-5"
+      aria-label={`Impact Level ${level}`}
+    >
+      {[1, 2, 3].map((step) => {
+        const isActive = step <= level;
+        const activeColor = IMPACT_LEVEL_CONFIG[level]?.color || "bg-slate-400";
+        return (
+          <div
+            key={step}
+            className={cn(
+              "w-1.5 rounded-sm transition-all duration-300",
+              isActive ? activeColor : "bg-muted/60",
+              step === 1 ? "h-2" : step === 2 ? "h-3" : "h-4",
+            )}
+          />
+        );
+      })}
+    </div>
+  );
+};
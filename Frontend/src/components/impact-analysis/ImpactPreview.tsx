@@ -0,0 +1,202 @@
+/**
+ * Compact impact renderer for embedded widgets (entity detail panels, hover cards).
+ * Shows the same verdict, reasons and paths as the full report page, in less space.
+ */
+import { useMemo } from "react";
+import { Link } from "react-router-dom";
+import { AlertCircle, ArrowRight, ShieldAlert } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeletons";
+import { queryKeys, useApi } from "@/hooks/useApi";
+import { useProject } from "@/hooks/useProject";
+import type {
+  ImpactAnalysisResponse,
+  ImpactChangeType,
+  ImpactDecisionResponse,
+} from "@/types/impact-analysis";
+import {
+  IMPACT_LEVEL_CONFIG,
+  formatImpactPath,
+  getEntityRoute,
+  getVerdictScore,
+  parseStableKey,
+} from "./impactConfig";
+import { EntityTypeIcon, ImpactMeter, RiskBadge } from "./ImpactIndicators";
+import { normalizeImpactResponse, toImpactEntityRef } from "./impactAdapter";
+
+interface ImpactVerdictPreviewProps {
+  projectId: string | number;
+  response: ImpactDecisionResponse;
+  /** Number of affected entities to list before collapsing into a count */
+  maxEntities?: number;
+}
+
+export function ImpactVerdictPreview({
+  projectId,
+  response,
+  maxEntities = 3,
+}: ImpactVerdictPreviewProps) {
+  const { verdict, entities } = response;
+  const primaryReason = verdict.reasons[0];
+  const shown = entities.slice(0, maxEntities);
+  const hiddenCount = entities.length - shown.length;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <RiskBadge riskLevel={verdict.risk} score={getVerdictScore(verdict)} />
+        {verdict.requiresApproval && (
+          <Badge variant="destructive" className="gap-1">
+            <ShieldAlert className="w-3 h-3" />
+            Approval required
+          </Badge>
+        )}
+      </div>
+
+      <p className="text-sm font-medium leading-snug">{verdict.summary}</p>
+
+      {primaryReason && (
+        <div className="text-xs space-y-0.5 border-l-2 border-muted pl-3">
+          <div className="text-foreground">{primaryReason.statement}</div>
+          <div className="text-muted-foreground">
+            {primaryReason.implication}
+          </div>
+        </div>
+      )}
+
+      {shown.length > 0 && (
+        <ul className="space-y-2">
+          {shown.map((item) => {
+            const parsed = parseStableKey(item.entity.stableKey);
+            const levelConfig = IMPACT_LEVEL_CONFIG[item.worstCaseImpactLevel];
+            return (
+              <li key={item.entity.stableKey} className="space-y-1">
+                <div className="flex items-center gap-2">
+                  <EntityTypeIcon
+                    type={parsed?.type || "FILE"}
+                    className="w-3.5 h-3.5 text-muted-foreground shrink-0"
+                  />
+                  {parsed ? (
+                    <Link
+                      to={getEntityRoute(
+                        String(projectId),
+                        parsed.type,
+                        parsed.id,
+                      )}
+                      className="text-xs font-medium truncate hover:text-primary hover:underline underline-offset-4"
+                    >
+                      {item.entity.name || `Entity #${parsed.id}`}
+                    </Link>
+                  ) : (
+                    <span className="text-xs font-medium truncate">
+                      {item.entity.name || "Unknown"}
+                    </span>
+                  )}
+                  <div className="ml-auto flex items-center gap-2 shrink-0">
+                    <ImpactMeter level={item.worstCaseImpactLevel} />
+                    <span className="text-[10px] text-muted-foreground">
+                      {levelConfig?.label || "Unknown"}
+                    </span>
+                  </div>
+                </div>
+                {item.paths[0] && (
+                  <div className="text-[10px] font-mono text-muted-foreground truncate pl-5">
+                    {formatImpactPath(item.paths[0])}
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+      {hiddenCount > 0 && (
+        <p className="text-[10px] text-muted-foreground">
+          +{hiddenCount} more affected
+        </p>
+      )}
+    </div>
+  );
+}
+
+interface EntityImpactPreviewProps {
+  projectId: string | number;
+  entityType: string;
+  entityId: number;
+  entityName?: string;
+  changeType?: ImpactChangeType;
+  maxEntities?: number;
+}
+
+/**
+ * Fetches and renders the impact verdict for one entity.
+ * Accepts either impact response shape; legacy payloads are adapted before rendering.
+ */
+export function EntityImpactPreview({
+  projectId,
+  entityType,
+  entityId,
+  entityName,
+  changeType = "MODIFY",
+  maxEntities,
+}: EntityImpactPreviewProps) {
+  const { hasProject } = useProject();
+  const { data, isLoading, error } = useApi<
+    ImpactDecisionResponse | ImpactAnalysisResponse
+  >(
+    `/projects/${projectId}/impact/${entityType}/${entityId}?changeType=${changeType}`,
+    {
+      queryKey: Array.from(
+        queryKeys.impact.decision(projectId, entityType, entityId, changeType),
+      ),
+      enabled: hasProject && !!projectId && !!entityId,
+      showErrorToast: false,
+    },
+  );
+
+  const response = useMemo(
+    () =>
+      data
+        ? normalizeImpactResponse(
+            data,
+            toImpactEntityRef(entityType, entityId, entityName ?? null),
+          )
+        : undefined,
+    [data, entityType, entityId, entityName],
+  );
+
+  if (isLoading) {
+    return (
+      <div className="space-y-2">
+        <Skeleton className="h-7 w-48 rounded-full" />
+        <Skeleton className="h-4 w-full" />
+        <Skeleton className="h-4 w-3/4" />
+      </div>
+    );
+  }
+
+  if (error || !response) {
+    return (
+      <div className="flex items-center gap-2 text-xs text-destructive">
+        <AlertCircle className="w-3.5 h-3.5" />
+        {error?.message || "Unable to retrieve impact data."}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <ImpactVerdictPreview
+        projectId={projectId}
+        response={response}
+        maxEntities={maxEntities}
+      />
+      <Link
+        to={`/project/${projectId}/impact/${entityType}/${entityId}`}
+        className="inline-flex items-center gap-1 text-xs font-medium text-primary hover:underline underline-offset-4"
+      >
+        Open full analysis
+        <ArrowRight className="w-3 h-3" />
+      </Link>
+    </div>
+  );
+}
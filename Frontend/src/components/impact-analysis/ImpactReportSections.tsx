@@ -0,0 +1,464 @@
+/**
+ * Verdict reasoning, affected-entity table and dependency trace shared by
+ * the single-entity impact report and the change set report.
+ */
+import React from "react";
+import { Link } from "react-router-dom";
+import {
+  FileCode,
+  ArrowRight,
+  Activity,
+  Server,
+  ChevronRight,
+  GitPullRequest,
+  Layers,
+} from "lucide-react";
+import * as Icons from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import {
+  Accordion,
+  AccordionContent,
+  AccordionItem,
+  AccordionTrigger,
+} from "@/components/ui/accordion";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "@/components/ui/sheet";
+import type {
+  EntityRef,
+  ImpactEntity,
+  ImpactPath,
+  ImpactReason,
+} from "@/types/impact-analysis";
+import {
+  IMPACT_LEVEL_CONFIG,
+  getDependencyTypeLabel,
+  getEntityRoute,
+  getEntityTypeLabel,
+  parseStableKey,
+} from "./impactConfig";
+import { EntityTypeIcon, ImpactMeter } from "./ImpactIndicators";
+
+const EntityLink = ({
+  projectId,
+  entity,
+  className,
+}: {
+  projectId: string;
+  entity: EntityRef;
+  className?: string;
+}) => {
+  const parsed = parseStableKey(entity.stableKey);
+  if (!parsed) {
+    return <span className="text-sm">{entity.name || "Unknown"}</span>;
+  }
+  return (
+    <Link
+      to={getEntityRoute(projectId, parsed.type, parsed.id)}
+      className={className}
+    >
+      {entity.name || `Entity #${parsed.id}`}
+    </Link>
+  );
+};
+
+export const DependencyTrace = ({
+  paths,
+  riskScore,
+}: {
+  paths: ImpactPath[];
+  riskScore: number;
+}) => {
+  if (!paths || paths.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center py-12 text-center space-y-3 bg-muted/20 rounded-xl border border-dashed">
+        <Activity className="w-10 h-10 text-muted-foreground/30" />
+        <p className="text-sm text-muted-foreground">
+          No direct dependency path data available.
+        </p>
+      </div>
+    );
+  }
+
+  const primaryPath = paths[0];
+  const sourceNode = primaryPath?.nodes?.[0];
+  const targetNode = primaryPath?.nodes?.[1];
+
+  if (!sourceNode || !targetNode) return null;
+
+  return (
+    <div className="space-y-8 pr-4 py-4">
+      {/* Changed space-y-10 to space-y-24 for more height */}
+      <div className="relative pl-8 border-l-2 border-dashed border-border/60 space-y-24 ml-3">
+        {/* Source Node */}
+        <div className="relative">
+          <div className="absolute -left-[43px] top-0 bg-blue-50 dark:bg-blue-900/40 text-blue-600 dark:text-blue-400 p-2 rounded-lg border border-blue-200 dark:border-blue-800 shadow-sm z-10">
+            {sourceNode.iconName && (Icons as any)[sourceNode.iconName] ? (
+              React.createElement((Icons as any)[sourceNode.iconName], {
+                className: "w-5 h-5",
+              })
+            ) : (
+              <Server className="w-5 h-5" />
+            )}
+          </div>
+          <div className="space-y-2">
+            <div className="text-xs font-bold text-muted-foreground uppercase tracking-wider">
+              Source (Trigger)
+            </div>
+            <div className="p-4 bg-background border rounded-lg shadow-sm">
+              <div className="font-semibold text-sm">
+                {sourceNode.name || "Source Entity"}
+              </div>
+              <div className="text-xs text-muted-foreground mt-1">
+                Initiates the change
+              </div>
+            </div>
+          </div>
+        </div>
+
+        {/* Connection/Edge - Centered Vertically */}
+        <div className="absolute left-[-12px] top-1/2 -translate-y-1/2 bg-background border rounded-full p-1 text-muted-foreground z-10">
+          <ArrowRight className="w-3 h-3" />
+        </div>
+
+        {/* Connection Label - Centered Vertically */}
+        <div className="absolute left-4 top-1/2 -translate-y-1/2">
+          {primaryPath?.edges?.[0] != null && (
+            <Badge
+              variant="outline"
+              className="text-[10px] font-medium bg-muted/50"
+            >
+              {getDependencyTypeLabel(primaryPath.edges[0])}
+            </Badge>
+          )}
+        </div>
+
+        {/* Target Node */}
+        <div className="relative">
+          <div className="absolute -left-[43px] top-0 bg-amber-50 dark:bg-amber-900/40 text-amber-600 dark:text-amber-400 p-2 rounded-lg border border-amber-200 dark:border-amber-800 shadow-sm z-10">
+            {targetNode.iconName && (Icons as any)[targetNode.iconName] ? (
+              React.createElement((Icons as any)[targetNode.iconName], {
+                className: "w-5 h-5",
+              })
+            ) : (
+              <FileCode className="w-5 h-5" />
+            )}
+          </div>
+          <div className="space-y-2">
+            <div className="text-xs font-bold text-muted-foreground uppercase tracking-wider">
+              Target (Impacted)
+            </div>
+            <div className="p-4 bg-amber-50/30 dark:bg-amber-950/10 border border-amber-100 dark:border-amber-900/50 rounded-lg shadow-sm">
+              <div className="font-semibold text-sm">
+                {targetNode.name || "Target Entity"}
+              </div>
+              <div className="flex items-center gap-2 mt-3">
+                <Badge
+                  variant="secondary"
+                  className="text-[10px] h-5 px-1.5 bg-amber-100 dark:bg-amber-900/40 text-amber-700 dark:text-amber-300 border-amber-200 dark:border-amber-800"
+                >
+                  Risk Score: {riskScore}
+                </Badge>
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+interface ImpactReasonsSectionProps {
+  projectId: string;
+  reasons: ImpactReason[];
+  /** Used to resolve evidence stable keys to entity names */
+  entities: ImpactEntity[];
+}
+
+export function ImpactReasonsSection({
+  projectId,
+  reasons,
+  entities,
+}: ImpactReasonsSectionProps) {
+  return (
+    <section className="space-y-4">
+      <div className="flex items-center gap-2 mb-2">
+        <Layers className="w-5 h-5 text-primary" />
+        <h3 className="text-lg font-semibold tracking-tight">
+          Analysis & Reasoning
+        </h3>
+      </div>
+
+      <div className="grid gap-3">
+        <Accordion type="single" collapsible className="w-full space-y-3">
+          {reasons.map((reason, idx) => (
+            <AccordionItem
+              key={idx}
+              value={`item-${idx}`}
+              className="border rounded-xl bg-card px-2 shadow-sm"
+            >
+              <AccordionTrigger className="hover:no-underline py-4 px-4">
+                <div className="flex flex-col md:flex-row md:items-center gap-4 w-full text-left pr-4">
+                  <span className="font-medium flex-1 text-sm md:text-base">
+                    {reason.statement}
+                  </span>
+                  <div className="flex items-center gap-2 text-xs bg-muted/50 text-muted-foreground px-3 py-1.5 rounded-full whitespace-nowrap border">
+                    <span className="font-semibold text-foreground">
+                      Implication:
+                    </span>
+                    <span className="truncate max-w-[150px] md:max-w-[250px]">
+                      {reason.implication}
+                    </span>
+                  </div>
+                </div>
+              </AccordionTrigger>
+              <AccordionContent className="px-4 pb-4">
+                <div className="pt-2 pl-4 border-l-2 border-muted ml-1 space-y-3">
+                  <h4 className="text-[10px] uppercase tracking-wider font-bold text-muted-foreground">
+                    Supporting Evidence
+                  </h4>
+                  {reason.evidence && reason.evidence.length > 0 ? (
+                    <div className="flex flex-wrap gap-2">
+                      {reason.evidence.map((ev) => {
+                        const parsed = parseStableKey(ev);
+                        if (!parsed)
+                          return (
+                            <Badge
+                              key={ev}
+                              variant="outline"
+                              className="font-mono text-xs"
+                            >
+                              {ev}
+                            </Badge>
+                          );
+
+                        const matchingEntity = entities.find(
+                          (e) => e.entity.stableKey === ev,
+                        );
+                        const entityName = matchingEntity?.entity.name;
+                        const displayType = getEntityTypeLabel(parsed.type);
+
+                        return (
+                          <Link
+                            key={ev}
+                            to={getEntityRoute(
+                              projectId,
+                              parsed.type,
+                              parsed.id,
+                            )}
+                          >
+                            <Badge
+                              variant="secondary"
+                              className="gap-1.5 hover:bg-primary/10 transition-colors py-1 pl-2 pr-3 cursor-pointer border-transparent hover:border-primary/20 border"
+                            >
+                              <EntityTypeIcon
+                                type={parsed.type}
+                                className="w-3 h-3 text-muted-foreground"
+                              />
+                              {entityName || `${displayType} #${parsed.id}`}
+                            </Badge>
+                          </Link>
+                        );
+                      })}
+                    </div>
+                  ) : (
+                    <p className="text-sm text-muted-foreground italic">
+                      Based on system heuristics and rule engine logic.
+                    </p>
+                  )}
+                </div>
+              </AccordionContent>
+            </AccordionItem>
+          ))}
+        </Accordion>
+      </div>
+    </section>
+  );
+}
+
+interface ImpactEntitiesSectionProps {
+  projectId: string;
+  entities: ImpactEntity[];
+  /**
+   * Changed entities that reach each affected entity, keyed by stable key.
+   * When provided, a "Caused By" column is shown.
+   */
+  causedBy?: Record<string, EntityRef[]>;
+}
+
+export function ImpactEntitiesSection({
+  projectId,
+  entities,
+  causedBy,
+}: ImpactEntitiesSectionProps) {
+  return (
+    <section className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Activity className="w-5 h-5 text-primary" />
+          <h3 className="text-lg font-semibold tracking-tight">
+            Affected Downstream Entities
+          </h3>
+          <Badge variant="secondary" className="ml-2">
+            {entities.length}
+          </Badge>
+        </div>
+      </div>
+
+      <Card className="overflow-hidden border-border/60 shadow-sm">
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader className="bg-muted/30">
+              <TableRow className="hover:bg-transparent border-b-border/60">
+                <TableHead className="w-[80px] text-center text-xs uppercase h-10">
+                  Type
+                </TableHead>
+                <TableHead className="text-xs uppercase h-10 min-w-[200px]">
+                  Entity Name
+                </TableHead>
+                {causedBy && (
+                  <TableHead className="text-xs uppercase h-10 min-w-[160px]">
+                    Caused By
+                  </TableHead>
+                )}
+                <TableHead className="text-xs uppercase h-10">
+                  Operation
+                </TableHead>
+                <TableHead className="text-xs uppercase h-10">
+                  Impact Severity
+                </TableHead>
+                <TableHead className="text-right text-xs uppercase h-10 pr-6">
+                  Trace Analysis
+                </TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {entities.map((item) => (
+                <TableRow
+                  key={item.entity.stableKey}
+                  className="group h-12 border-b-border/40 hover:bg-muted/20"
+                >
+                  <TableCell className="text-center py-3">
+                    <div className="inline-flex items-center justify-center w-8 h-8 rounded-full bg-background border shadow-sm">
+                      <EntityTypeIcon
+                        type={
+                          parseStableKey(item.entity.stableKey)?.type || "FILE"
+                        }
+                        className="w-4 h-4 text-muted-foreground"
+                      />
+                    </div>
+                  </TableCell>
+                  <TableCell className="font-medium py-3">
+                    <EntityLink
+                      projectId={projectId}
+                      entity={item.entity}
+                      className="text-sm hover:text-primary transition-colors hover:underline underline-offset-4 decoration-primary/30"
+                    />
+                  </TableCell>
+                  {causedBy && (
+                    <TableCell className="py-3">
+                      <div className="flex flex-wrap gap-1.5">
+                        {(causedBy[item.entity.stableKey] ?? []).map(
+                          (source) => (
+                            <Badge
+                              key={source.stableKey}
+                              variant="outline"
+                              className="gap-1 text-[10px] font-medium"
+                            >
+                              <EntityTypeIcon
+                                type={
+                                  parseStableKey(source.stableKey)?.type ||
+                                  "FILE"
+                                }
+                                className="w-3 h-3 text-muted-foreground"
+                              />
+                              <EntityLink
+                                projectId={projectId}
+                                entity={source}
+                                className="hover:text-primary"
+                              />
+                            </Badge>
+                          ),
+                        )}
+                      </div>
+                    </TableCell>
+                  )}
+                  <TableCell className="py-3">
+                    <Badge
+                      variant="outline"
+                      className="font-mono text-[10px] uppercase bg-slate-50 text-slate-600 border-slate-200"
+                    >
+                      {item.dominantOperation}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="py-3">
+                    <div className="flex items-center gap-3">
+                      <ImpactMeter level={item.worstCaseImpactLevel} />
+                      <span
+                        className={cn(
+                          "text-xs font-medium",
+                          (
+                            IMPACT_LEVEL_CONFIG[item.worstCaseImpactLevel]
+                              ?.bg || "text-slate-600 bg-slate-100"
+                          ).split(" ")[0],
+                        )}
+                      >
+                        {IMPACT_LEVEL_CONFIG[item.worstCaseImpactLevel]
+                          ?.label || "Unknown"}
+                      </span>
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-right py-3 pr-6">
+                    <Sheet>
+                      <SheetTrigger asChild>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-8 text-xs hover:bg-primary/10 hover:text-primary group-hover:opacity-100 opacity-70 transition-all"
+                        >
+                          Inspect Path <ChevronRight className="w-3 h-3 ml-1" />
+                        </Button>
+                      </SheetTrigger>
+                      <SheetContent className="w-full sm:max-w-lg">
+                        <SheetHeader className="mb-8 border-b pb-4">
+                          <SheetTitle className="text-lg font-semibold flex items-center gap-2">
+                            <GitPullRequest className="w-5 h-5 text-primary" />
+                            Dependency Trace
+                          </SheetTitle>
+                          <SheetDescription>
+                            Visualizing the propagation path from the root
+                            change to <strong>{item.entity.name}</strong>.
+                          </SheetDescription>
+                        </SheetHeader>
+                        <DependencyTrace
+                          paths={item.paths}
+                          riskScore={item.riskScore}
+                        />
+                      </SheetContent>
+                    </Sheet>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </Card>
+    </section>
+  );
+}
@@ -0,0 +1,343 @@
+import { useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { AlertCircle, GitCompare, Loader2, ShieldAlert } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  useImpactScenarios,
+  type ImpactScenarioResult,
+} from "@/hooks/useImpactAnalysis";
+import type {
+  EntityRef,
+  ImpactChangeType,
+  ImpactEntity,
+} from "@/types/impact-analysis";
+import {
+  CHANGE_TYPE_OPTIONS,
+  IMPACT_LEVEL_CONFIG,
+  getChangeTypeLabel,
+  getEntityRoute,
+  getVerdictScore,
+  parseStableKey,
+} from "./impactConfig";
+import { EntityTypeIcon, ImpactMeter, RiskBadge } from "./ImpactIndicators";
+
+const MIN_SCENARIOS = 2;
+
+interface ComparisonRow {
+  entity: EntityRef;
+  byScenario: Partial<Record<ImpactChangeType, ImpactEntity>>;
+  presentIn: ImpactChangeType[];
+  worstLevel: number;
+}
+
+/**
+ * Builds one row per affected entity across all loaded scenarios,
+ * keyed by stable key so the same entity lines up in every column.
+ */
+function buildComparisonRows(
+  scenarios: ImpactScenarioResult[],
+): ComparisonRow[] {
+  const rows = new Map<string, ComparisonRow>();
+
+  for (const scenario of scenarios) {
+    for (const item of scenario.data?.entities ?? []) {
+      const key = item.entity.stableKey;
+      const row = rows.get(key) ?? {
+        entity: item.entity,
+        byScenario: {},
+        presentIn: [],
+        worstLevel: 0,
+      };
+      row.byScenario[scenario.changeType] = item;
+      row.presentIn.push(scenario.changeType);
+      row.worstLevel = Math.max(row.worstLevel, item.worstCaseImpactLevel);
+      rows.set(key, row);
+    }
+  }
+
+  return Array.from(rows.values()).sort(
+    (a, b) =>
+      b.worstLevel - a.worstLevel ||
+      (a.entity.name ?? "").localeCompare(b.entity.name ?? ""),
+  );
+}
+
+interface ImpactScenarioComparisonProps {
+  projectId: string;
+  entityType: string;
+  entityId: string;
+}
+
+export function ImpactScenarioComparison({
+  projectId,
+  entityType,
+  entityId,
+}: ImpactScenarioComparisonProps) {
+  const [selected, setSelected] = useState<ImpactChangeType[]>([
+    "MODIFY",
+    "DELETE",
+  ]);
+  const [differencesOnly, setDifferencesOnly] = useState(false);
+
+  // Keep columns in the canonical option order regardless of click order
+  const changeTypes = useMemo(
+    () =>
+      CHANGE_TYPE_OPTIONS.map((o) => o.value).filter((v) =>
+        selected.includes(v),
+      ),
+    [selected],
+  );
+
+  const scenarios = useImpactScenarios(
+    projectId,
+    entityType,
+    entityId,
+    changeTypes,
+  );
+
+  const rows = useMemo(() => buildComparisonRows(scenarios), [scenarios]);
+  const visibleRows = differencesOnly
+    ? rows.filter((r) => r.presentIn.length < changeTypes.length)
+    : rows;
+  const isAnyLoading = scenarios.some((s) => s.isLoading);
+
+  const toggleScenario = (changeType: ImpactChangeType) => {
+    setSelected((prev) => {
+      if (prev.includes(changeType)) {
+        return prev.length > MIN_SCENARIOS
+          ? prev.filter((c) => c !== changeType)
+          : prev;
+      }
+      return [...prev, changeType];
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Scenario picker */}
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <GitCompare className="w-5 h-5 text-primary" />
+          <h3 className="text-lg font-semibold tracking-tight">
+            What-If Comparison
+          </h3>
+          {isAnyLoading && (
+            <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          <span className="text-sm text-muted-foreground">Scenarios:</span>
+          {CHANGE_TYPE_OPTIONS.map((option) => {
+            const isSelected = selected.includes(option.value);
+            return (
+              <Button
+                key={option.value}
+                size="sm"
+                variant={isSelected ? "default" : "outline"}
+                aria-pressed={isSelected}
+                disabled={isSelected && selected.length <= MIN_SCENARIOS}
+                onClick={() => toggleScenario(option.value)}
+              >
+                {option.label}
+              </Button>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Verdict cards */}
+      <div
+        className="grid gap-4"
+        style={{
+          gridTemplateColumns: `repeat(${changeTypes.length}, minmax(0, 1fr))`,
+        }}
+      >
+        {scenarios.map((scenario) => (
+          <Card key={scenario.changeType} className="p-4 space-y-3 shadow-sm">
+            <div className="flex items-center justify-between">
+              <span className="text-xs font-bold uppercase tracking-wider text-muted-foreground">
+                {getChangeTypeLabel(scenario.changeType)}
+              </span>
+              {scenario.data?.verdict.requiresApproval && (
+                <Badge variant="destructive" className="gap-1">
+                  <ShieldAlert className="w-3 h-3" />
+                  Approval required
+                </Badge>
+              )}
+            </div>
+            {scenario.isLoading ? (
+              <div className="h-20 rounded-lg bg-muted/30 animate-pulse" />
+            ) : scenario.error || !scenario.data ? (
+              <div className="flex items-center gap-2 text-sm text-destructive">
+                <AlertCircle className="w-4 h-4" />
+                {scenario.error?.message || "Unable to retrieve impact data."}
+              </div>
+            ) : (
+              <>
+                <RiskBadge
+                  riskLevel={scenario.data.verdict.risk}
+                  score={getVerdictScore(scenario.data.verdict)}
+                />
+                <p className="text-sm font-medium leading-snug">
+                  {scenario.data.verdict.summary}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {scenario.data.entities.length} downstream entities
+                </p>
+              </>
+            )}
+          </Card>
+        ))}
+      </div>
+
+      {/* Entity matrix */}
+      <section className="space-y-3">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <h4 className="font-semibold">Affected Entities</h4>
+            <Badge variant="secondary">{rows.length}</Badge>
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch
+              id="impact-differences-only"
+              checked={differencesOnly}
+              onCheckedChange={setDifferencesOnly}
+            />
+            <Label htmlFor="impact-differences-only" className="text-sm">
+              Differences only
+            </Label>
+          </div>
+        </div>
+
+        <Card className="overflow-hidden border-border/60 shadow-sm">
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader className="bg-muted/30">
+                <TableRow className="hover:bg-transparent">
+                  <TableHead className="text-xs uppercase h-10 min-w-[220px]">
+                    Entity Name
+                  </TableHead>
+                  {changeTypes.map((changeType) => (
+                    <TableHead
+                      key={changeType}
+                      className="text-xs uppercase h-10"
+                    >
+                      {getChangeTypeLabel(changeType)}
+                    </TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visibleRows.length === 0 ? (
+                  <TableRow>
+                    <TableCell
+                      colSpan={changeTypes.length + 1}
+                      className="py-10 text-center text-sm text-muted-foreground"
+                    >
+                      {isAnyLoading
+                        ? "Loading scenarios..."
+                        : differencesOnly
+                          ? "Every scenario affects the same entities."
+                          : "No downstream entities are affected."}
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  visibleRows.map((row) => {
+                    const parsed = parseStableKey(row.entity.stableKey);
+                    const isUnique = row.presentIn.length === 1;
+                    return (
+                      <TableRow
+                        key={row.entity.stableKey}
+                        className={cn(
+                          "h-12",
+                          isUnique &&
+                            "bg-amber-50/60 hover:bg-amber-50 dark:bg-amber-950/20 dark:hover:bg-amber-950/30",
+                        )}
+                      >
+                        <TableCell className="py-3">
+                          <div className="flex items-center gap-2">
+                            <EntityTypeIcon
+                              type={parsed?.type || "FILE"}
+                              className="w-4 h-4 text-muted-foreground shrink-0"
+                            />
+                            {parsed ? (
+                              <Link
+                                to={getEntityRoute(
+                                  projectId,
+                                  parsed.type,
+                                  parsed.id,
+                                )}
+                                className="text-sm font-medium hover:text-primary hover:underline underline-offset-4"
+                              >
+                                {row.entity.name || `Entity #${parsed.id}`}
+                              </Link>
+                            ) : (
+                              <span className="text-sm font-medium">
+                                {row.entity.name || "Unknown"}
+                              </span>
+                            )}
+                            {isUnique && (
+                              <Badge
+                                variant="outline"
+                                className="text-[10px] border-amber-300 text-amber-700 dark:text-amber-400"
+                              >
+                                Only in {getChangeTypeLabel(row.presentIn[0])}
+                              </Badge>
+                            )}
+                          </div>
+                        </TableCell>
+                        {changeTypes.map((changeType) => {
+                          const item = row.byScenario[changeType];
+                          if (!item) {
+                            return (
+                              <TableCell
+                                key={changeType}
+                                className="py-3 text-xs text-muted-foreground"
+                              >
+                                Not affected
+                              </TableCell>
+                            );
+                          }
+                          return (
+                            <TableCell key={changeType} className="py-3">
+                              <div className="flex items-center gap-3">
+                                <ImpactMeter
+                                  level={item.worstCaseImpactLevel}
+                                />
+                                <span className="text-xs font-medium">
+                                  {IMPACT_LEVEL_CONFIG[
+                                    item.worstCaseImpactLevel
+                                  ]?.label || "Unknown"}
+                                </span>
+                                <span className="text-[10px] font-mono text-muted-foreground">
+                                  {item.riskScore}
+                                </span>
+                              </div>
+                            </TableCell>
+                          );
+                        })}
+                      </TableRow>
+                    );
+                  })
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </Card>
+      </section>
+    </div>
+  );
+}
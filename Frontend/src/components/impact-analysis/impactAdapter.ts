@@ -0,0 +1,185 @@
+import type {
+  AffectedEntity,
+  EntityRef,
+  ImpactAnalysisResponse,
+  ImpactDecisionResponse,
+  ImpactEntity,
+  ImpactLevel,
+  ImpactReason,
+} from "@/types/impact-analysis";
+import { parseStableKey } from "./impactConfig";
+
+/** Backend EntityType enum order */
+const ENTITY_TYPE_INDEX: Record<string, number> = {
+  TABLE: 0,
+  VIEW: 1,
+  SP: 2,
+  FUNCTION: 3,
+  API: 4,
+  JOB: 5,
+};
+
+/** Backend DependencyType enum order */
+const DEPENDENCY_TYPE_NAMES = [
+  "unknown",
+  "select",
+  "insert",
+  "update",
+  "delete",
+  "schemadependency",
+  "apicall",
+  "logicalfk",
+];
+
+/** Legacy labels map onto the same 1-4 scale as ImpactLevel and RiskLevel */
+const LEGACY_LEVEL: Record<ImpactLevel, number> = {
+  LOW: 1,
+  MEDIUM: 2,
+  HIGH: 3,
+  CRITICAL: 4,
+};
+
+export function isLegacyImpactResponse(
+  value: ImpactDecisionResponse | ImpactAnalysisResponse,
+): value is ImpactAnalysisResponse {
+  return Array.isArray((value as ImpactAnalysisResponse).affectedEntities);
+}
+
+export function toImpactEntityRef(
+  type: string,
+  id: number,
+  name: string | null,
+): EntityRef {
+  const upper = type.toUpperCase();
+  return {
+    type: ENTITY_TYPE_INDEX[upper] ?? 0,
+    id,
+    name,
+    stableKey: `${upper}:${id}`,
+  };
+}
+
+function toDependencyType(edgeType: string | undefined): string | undefined {
+  if (!edgeType) return undefined;
+  const index = DEPENDENCY_TYPE_NAMES.indexOf(edgeType.toLowerCase());
+  return String(index >= 0 ? index : 0);
+}
+
+function adaptAffectedEntity(
+  item: AffectedEntity,
+  root: EntityRef,
+  legacy: ImpactAnalysisResponse,
+): ImpactEntity {
+  const entity = toImpactEntityRef(
+    item.entityType,
+    item.entityId,
+    item.entityName,
+  );
+  const edge = legacy.graphEdges.find(
+    (e) => e.target.toUpperCase() === entity.stableKey,
+  );
+  const edgeType = toDependencyType(edge?.type);
+
+  return {
+    entity,
+    worstCaseImpactLevel: LEGACY_LEVEL[item.impactLevel] ?? 1,
+    riskScore: item.riskScore,
+    dominantOperation: edge?.type ?? "Unknown",
+    paths: [
+      {
+        nodes: [
+          { type: root.type, name: root.name, stableKey: root.stableKey },
+          { type: entity.type, name: entity.name, stableKey: entity.stableKey },
+        ],
+        edges: edgeType != null ? [edgeType] : [],
+      },
+    ],
+  };
+}
+
+/**
+ * Converts the pre-verdict response shape into an ImpactDecisionResponse.
+ * Risk is the worst impact level, matching how the backend verdict builder maps it,
+ * and every distinct legacy reason becomes a verdict reason with its entities as evidence.
+ */
+export function adaptLegacyImpactResponse(
+  legacy: ImpactAnalysisResponse,
+  root: EntityRef,
+): ImpactDecisionResponse {
+  const parsedRoot = parseStableKey(legacy.rootId);
+  const rootRef = parsedRoot
+    ? toImpactEntityRef(parsedRoot.type, parsedRoot.id, root.name)
+    : root;
+
+  const entities = legacy.affectedEntities
+    .map((item) => adaptAffectedEntity(item, rootRef, legacy))
+    .sort(
+      (a, b) =>
+        b.worstCaseImpactLevel - a.worstCaseImpactLevel ||
+        b.riskScore - a.riskScore,
+    );
+  const worstLevel = entities.reduce(
+    (acc, e) => Math.max(acc, e.worstCaseImpactLevel),
+    1,
+  );
+
+  const reasonsByText = new Map<string, AffectedEntity[]>();
+  for (const item of legacy.affectedEntities) {
+    const text = item.reason || "Depends on this entity";
+    reasonsByText.set(text, [...(reasonsByText.get(text) ?? []), item]);
+  }
+  const reasons: ImpactReason[] =
+    reasonsByText.size === 0
+      ? [
+          {
+            priority: 1,
+            statement: "No dependent entities detected",
+            implication:
+              "Either the entity is unused or dependency metadata is incomplete",
+            evidence: [],
+          },
+        ]
+      : Array.from(reasonsByText.entries()).map(([text, items], idx) => ({
+          priority: idx + 1,
+          statement: `${items.length} ${items.length === 1 ? "entity" : "entities"}: ${text}`,
+          implication: items.some((i) => LEGACY_LEVEL[i.impactLevel] >= 3)
+            ? "IMPORTANT: High-impact dependents are affected"
+            : "Review dependent components during testing",
+          evidence: items.map(
+            (i) => `${i.entityType.toUpperCase()}:${i.entityId}`,
+          ),
+        }));
+
+  const rootLabel = rootRef.name || "this entity";
+
+  return {
+    verdict: {
+      risk: worstLevel,
+      requiresApproval: legacy.requiresApproval,
+      summary:
+        entities.length === 0
+          ? `No downstream impact detected for ${rootLabel}`
+          : `${entities.length} downstream entities depend on ${rootLabel}`,
+      reasons,
+      generatedAt: new Date().toISOString(),
+    },
+    summary: {
+      triggeringEntity: rootRef,
+      rootEntity: rootRef,
+      environment: "Unknown",
+      analysisType: "Legacy analysis",
+      action: "Modify",
+    },
+    entities,
+  };
+}
+
+/** Accepts either response shape and returns the one the shared renderers expect */
+export function normalizeImpactResponse(
+  value: ImpactDecisionResponse | ImpactAnalysisResponse,
+  root: EntityRef,
+): ImpactDecisionResponse {
+  return isLegacyImpactResponse(value)
+    ? adaptLegacyImpactResponse(value, root)
+    : value;
+}
@@ -0,0 +1,166 @@
+import type {
+  EntityRef,
+  ImpactChangeSetItem,
+  ImpactChangeSetReport,
+  ImpactChangeType,
+  ImpactDecisionResponse,
+  ImpactEntity,
+  ImpactPath,
+  ImpactReason,
+} from "@/types/impact-analysis";
+import { getChangeTypeLabel } from "./impactConfig";
+
+// --- URL ENCODING ---
+// Change sets live in the `items` search param as "TABLE:5:MODIFY,SP:12:DELETE"
+// so a reviewed set can be shared as a link.
+
+const ITEM_PATTERN = /^(TABLE|SP):([0-9]+):(MODIFY|DELETE|RENAME)$/;
+
+export function getChangeSetItemKey(item: {
+  entityType: string;
+  entityId: number;
+}): string {
+  return `${item.entityType}:${item.entityId}`;
+}
+
+export function parseChangeSetParam(
+  value: string | null,
+): ImpactChangeSetItem[] {
+  if (!value) return [];
+  const items = new Map<string, ImpactChangeSetItem>();
+  for (const token of value.split(",")) {
+    const match = ITEM_PATTERN.exec(token.trim().toUpperCase());
+    if (!match) continue;
+    const item: ImpactChangeSetItem = {
+      entityType: match[1],
+      entityId: parseInt(match[2], 10),
+      changeType: match[3] as ImpactChangeType,
+    };
+    items.set(getChangeSetItemKey(item), item);
+  }
+  return Array.from(items.values());
+}
+
+export function serializeChangeSetParam(items: ImpactChangeSetItem[]): string {
+  return items
+    .map((i) => `${i.entityType}:${i.entityId}:${i.changeType}`)
+    .join(",");
+}
+
+export function getChangeSetRoute(
+  projectId: string | number,
+  items: ImpactChangeSetItem[],
+): string {
+  const base = `/project/${projectId}/impact/change-set`;
+  return items.length > 0
+    ? `${base}?items=${serializeChangeSetParam(items)}`
+    : base;
+}
+
+// --- MERGING ---
+
+function getRootRef(response: ImpactDecisionResponse): EntityRef {
+  return response.summary.rootEntity ?? response.summary.triggeringEntity;
+}
+
+function getPathKey(path: ImpactPath): string {
+  return path.nodes.map((n) => n.stableKey).join(">");
+}
+
+/** Higher impact level wins; risk score breaks ties */
+function isWorse(candidate: ImpactEntity, current: ImpactEntity): boolean {
+  return (
+    candidate.worstCaseImpactLevel > current.worstCaseImpactLevel ||
+    (candidate.worstCaseImpactLevel === current.worstCaseImpactLevel &&
+      candidate.riskScore > current.riskScore)
+  );
+}
+
+/**
+ * Merges the impact results of every item in a change set into one report.
+ * Affected entities are deduplicated by stable key, keep their highest impact level,
+ * and record which changed entities reach them. Returns null until at least one result is loaded.
+ */
+export function mergeChangeSetImpact(
+  results: { item: ImpactChangeSetItem; data?: ImpactDecisionResponse }[],
+): ImpactChangeSetReport | null {
+  const loaded = results.filter(
+    (r): r is { item: ImpactChangeSetItem; data: ImpactDecisionResponse } =>
+      !!r.data,
+  );
+  if (loaded.length === 0) return null;
+
+  const entities = new Map<string, ImpactEntity>();
+  const causedBy: Record<string, EntityRef[]> = {};
+  const reasons: ImpactReason[] = [];
+
+  for (const { item, data } of loaded) {
+    const root = getRootRef(data);
+
+    for (const impact of data.entities) {
+      const key = impact.entity.stableKey;
+      const sources = causedBy[key] ?? [];
+      if (!sources.some((s) => s.stableKey === root.stableKey)) {
+        sources.push(root);
+      }
+      causedBy[key] = sources;
+
+      const existing = entities.get(key);
+      if (!existing) {
+        entities.set(key, { ...impact, paths: [...impact.paths] });
+        continue;
+      }
+
+      const seenPaths = new Set(existing.paths.map(getPathKey));
+      const paths = [
+        ...existing.paths,
+        ...impact.paths.filter((p) => !seenPaths.has(getPathKey(p))),
+      ];
+      entities.set(
+        key,
+        isWorse(impact, existing)
+          ? { ...impact, paths }
+          : { ...existing, paths },
+      );
+    }
+
+    const prefix = `${root.name || root.stableKey} (${getChangeTypeLabel(item.changeType)})`;
+    for (const reason of data.verdict.reasons) {
+      reasons.push({ ...reason, statement: `${prefix}: ${reason.statement}` });
+    }
+  }
+
+  const worst = loaded.reduce((acc, r) =>
+    r.data.verdict.risk > acc.data.verdict.risk ? r : acc,
+  ).data;
+  const generatedAt = loaded
+    .map((r) => r.data.verdict.generatedAt)
+    .reduce((a, b) => (new Date(b) > new Date(a) ? b : a));
+
+  return {
+    response: {
+      verdict: {
+        risk: worst.verdict.risk,
+        requiresApproval: loaded.some((r) => r.data.verdict.requiresApproval),
+        summary:
+          loaded.length === 1
+            ? worst.verdict.summary
+            : `${loaded.length} changes combined. Worst: ${worst.verdict.summary}`,
+        reasons: reasons.sort((a, b) => b.priority - a.priority),
+        generatedAt,
+      },
+      summary: {
+        triggeringEntity: getRootRef(worst),
+        environment: worst.summary.environment,
+        analysisType: worst.summary.analysisType,
+        action: "Change set",
+      },
+      entities: Array.from(entities.values()).sort(
+        (a, b) =>
+          b.worstCaseImpactLevel - a.worstCaseImpactLevel ||
+          b.riskScore - a.riskScore,
+      ),
+    },
+    causedBy,
+  };
+}
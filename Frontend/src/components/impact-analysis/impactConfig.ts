@@ -0,0 +1,163 @@
+import type React from "react";
+import { AlertTriangle, CheckCircle2, ShieldAlert } from "lucide-react";
+import type {
+  ImpactChangeType,
+  ImpactPath,
+  ImpactVerdict,
+} from "@/types/impact-analysis";
+
+// --- HELPER FUNCTIONS ---
+
+export function parseStableKey(
+  stableKey: string,
+): { type: string; id: number } | null {
+  const match = stableKey.match(/^([A-Za-z]+):([0-9]+)$/);
+  if (!match) return null;
+  return { type: match[1].toUpperCase(), id: parseInt(match[2], 10) };
+}
+
+export function getEntityRoute(
+  projectId: string | undefined,
+  type: string,
+  id: number,
+): string {
+  if (!projectId) return "#";
+  const entityTypeSlug = type === "TABLE" ? "tables" : "stored-procedures";
+  return `/project/${projectId}/${entityTypeSlug}/${id}/detail`;
+}
+
+export function getEntityTypeLabel(type: string): string {
+  switch (type) {
+    case "SP":
+      return "Procedure";
+    case "TABLE":
+      return "Table";
+    default:
+      return type;
+  }
+}
+
+export function getDependencyTypeLabel(depType: number | string): string {
+  const labels: Record<number, string> = {
+    0: "Unknown",
+    1: "SELECT",
+    2: "INSERT",
+    3: "UPDATE",
+    4: "DELETE",
+    5: "Schema",
+    6: "API",
+    7: "Logical FK",
+  };
+  const typeNum = typeof depType === "string" ? parseInt(depType, 10) : depType;
+  return labels[typeNum] || `Type ${depType}`;
+}
+
+/** Renders a path as "A -[SELECT]-> B -[UPDATE]-> C" */
+export function formatImpactPath(path: ImpactPath): string {
+  return path.nodes
+    .map((node, idx) => {
+      const name = node.name || node.stableKey;
+      if (idx === 0) return name;
+      const edge = path.edges?.[idx - 1];
+      const label = edge != null ? getDependencyTypeLabel(edge) : "depends";
+      return `-[${label}]-> ${name}`;
+    })
+    .join(" ");
+}
+
+/**
+ * Headline score shown next to the verdict badge.
+ * Derived from reason priorities so every view of a verdict shows the same number.
+ */
+export function getVerdictScore(verdict: ImpactVerdict): number {
+  return verdict.reasons.reduce((acc, r) => acc + r.priority, 0) * 8;
+}
+
+// --- DOMAIN CONFIGURATION ---
+
+export const RISK_CONFIG: Record<
+  number,
+  {
+    label: string;
+    color: string;
+    icon: React.ComponentType<{ className?: string }>;
+    barColor: string;
+    borderColor: string;
+    bgGradient: string;
+  }
+> = {
+  1: {
+    label: "Low Risk",
+    color:
+      "text-emerald-700 bg-emerald-50 border-emerald-200 dark:text-emerald-400 dark:bg-emerald-950/50 dark:border-emerald-900",
+    icon: CheckCircle2,
+    barColor: "bg-emerald-500",
+    borderColor: "border-l-emerald-500",
+    bgGradient: "from-emerald-50/50 to-background dark:from-emerald-950/20",
+  },
+  2: {
+    label: "Medium Risk",
+    color:
+      "text-amber-700 bg-amber-50 border-amber-200 dark:text-amber-400 dark:bg-amber-950/50 dark:border-amber-900",
+    icon: AlertTriangle,
+    barColor: "bg-amber-500",
+    borderColor: "border-l-amber-500",
+    bgGradient: "from-amber-50/50 to-background dark:from-amber-950/20",
+  },
+  3: {
+    label: "High Risk",
+    color:
+      "text-red-700 bg-red-50 border-red-200 dark:text-red-400 dark:bg-red-950/50 dark:border-red-900",
+    icon: ShieldAlert,
+    barColor: "bg-red-600",
+    borderColor: "border-l-red-600",
+    bgGradient: "from-red-50/50 to-background dark:from-red-950/20",
+  },
+  4: {
+    label: "Critical Risk",
+    color:
+      "text-red-700 bg-red-50 border-red-200 dark:text-red-400 dark:bg-red-950/50 dark:border-red-900",
+    icon: ShieldAlert,
+    barColor: "bg-red-600",
+    borderColor: "border-l-red-600",
+    bgGradient: "from-red-50/50 to-background dark:from-red-950/20",
+  },
+};
+
+export const IMPACT_LEVEL_CONFIG: Record<
+  number,
+  { label: string; color: string; bg: string }
+> = {
+  1: {
+    label: "Low",
+    color: "bg-slate-300 dark:bg-slate-700",
+    bg: "text-slate-600 bg-slate-100",
+  },
+  2: {
+    label: "Medium",
+    color: "bg-amber-500",
+    bg: "text-amber-700 bg-amber-100",
+  },
+  3: {
+    label: "High",
+    color: "bg-amber-500",
+    bg: "text-amber-700 bg-amber-100",
+  },
+  4: { label: "Severe", color: "bg-red-600", bg: "text-red-700 bg-red-100" },
+};
+
+/** Change scenarios offered for what-if comparison, in display order */
+export const CHANGE_TYPE_OPTIONS: {
+  value: ImpactChangeType;
+  label: string;
+}[] = [
+  { value: "MODIFY", label: "Modify" },
+  { value: "DELETE", label: "Drop" },
+  { value: "RENAME", label: "Rename" },
+];
+
+export function getChangeTypeLabel(changeType: ImpactChangeType): string {
+  return (
+    CHANGE_TYPE_OPTIONS.find((o) => o.value === changeType)?.label ?? changeType
+  );
+}
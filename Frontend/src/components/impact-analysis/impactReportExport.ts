@@ -0,0 +1,272 @@
+import { format } from "date-fns";
+import { saveBlob } from "@/lib/api";
+import { utcToLocal } from "@/lib/utils";
+import type {
+  ImpactDecisionResponse,
+  ImpactEntity,
+} from "@/types/impact-analysis";
+import {
+  IMPACT_LEVEL_CONFIG,
+  RISK_CONFIG,
+  formatImpactPath,
+  getEntityTypeLabel,
+  getVerdictScore,
+  parseStableKey,
+} from "./impactConfig";
+
+export type ImpactReportFormat = "markdown" | "html" | "json";
+
+const FORMAT_META: Record<
+  ImpactReportFormat,
+  { extension: string; mimeType: string }
+> = {
+  markdown: { extension: "md", mimeType: "text/markdown;charset=utf-8" },
+  html: { extension: "html", mimeType: "text/html;charset=utf-8" },
+  json: { extension: "json", mimeType: "application/json;charset=utf-8" },
+};
+
+// --- SHARED FORMATTING ---
+
+function describeEntity(stableKey: string, entities: ImpactEntity[]): string {
+  const parsed = parseStableKey(stableKey);
+  const name = entities.find((e) => e.entity.stableKey === stableKey)?.entity
+    .name;
+  if (!parsed) return name || stableKey;
+  return `${name || `#${parsed.id}`} (${getEntityTypeLabel(parsed.type)})`;
+}
+
+function getImpactLevelLabel(level: number): string {
+  return IMPACT_LEVEL_CONFIG[level]?.label || "Unknown";
+}
+
+function getRootName(response: ImpactDecisionResponse): string {
+  const root = response.summary.rootEntity ?? response.summary.triggeringEntity;
+  return root?.name || root?.stableKey || "entity";
+}
+
+// --- MARKDOWN ---
+
+function escapeMarkdownCell(value: string): string {
+  return value.replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
+}
+
+export function buildImpactMarkdown(response: ImpactDecisionResponse): string {
+  const { verdict, summary, entities } = response;
+  const riskLabel = (RISK_CONFIG[verdict.risk] || RISK_CONFIG[1]).label;
+  const lines: string[] = [];
+
+  lines.push(`# Impact Report: ${getRootName(response)}`);
+  lines.push("");
+  lines.push(`- **Change:** ${summary.action}`);
+  lines.push(`- **Analysis:** ${summary.analysisType}`);
+  lines.push(`- **Environment:** ${summary.environment}`);
+  lines.push(`- **Generated:** ${utcToLocal(verdict.generatedAt)}`);
+  lines.push("");
+
+  lines.push("## Verdict");
+  lines.push("");
+  lines.push(`**${verdict.summary}**`);
+  lines.push("");
+  lines.push(`- **Risk:** ${riskLabel} (score ${getVerdictScore(verdict)})`);
+  lines.push(
+    `- **Requires approval:** ${verdict.requiresApproval ? "Yes" : "No"}`,
+  );
+  lines.push(`- **Affected entities:** ${entities.length}`);
+  lines.push("");
+
+  lines.push("## Reasons");
+  lines.push("");
+  if (verdict.reasons.length === 0) {
+    lines.push("_No reasons recorded._");
+    lines.push("");
+  }
+  verdict.reasons.forEach((reason, idx) => {
+    lines.push(`### ${idx + 1}. ${reason.statement}`);
+    lines.push("");
+    lines.push(`- **Priority:** ${reason.priority}`);
+    lines.push(`- **Implication:** ${reason.implication}`);
+    if (reason.evidence.length > 0) {
+      lines.push("- **Evidence:**");
+      for (const ev of reason.evidence) {
+        lines.push(`  - ${describeEntity(ev, entities)} \`${ev}\``);
+      }
+    }
+    lines.push("");
+  });
+
+  lines.push("## Affected Entities");
+  lines.push("");
+  if (entities.length === 0) {
+    lines.push("_No downstream entities are affected._");
+    lines.push("");
+  } else {
+    lines.push("| Entity | Type | Operation | Impact | Risk Score |");
+    lines.push("| --- | --- | --- | --- | --- |");
+    for (const item of entities) {
+      const parsed = parseStableKey(item.entity.stableKey);
+      lines.push(
+        `| ${escapeMarkdownCell(item.entity.name || item.entity.stableKey)} | ${parsed ? getEntityTypeLabel(parsed.type) : "-"} | ${item.dominantOperation} | ${getImpactLevelLabel(item.worstCaseImpactLevel)} | ${item.riskScore} |`,
+      );
+    }
+    lines.push("");
+
+    lines.push("## Dependency Paths");
+    lines.push("");
+    for (const item of entities) {
+      lines.push(`### ${item.entity.name || item.entity.stableKey}`);
+      lines.push("");
+      if (item.paths.length === 0) {
+        lines.push("_No path data available._");
+      }
+      for (const path of item.paths) {
+        lines.push(`- \`${formatImpactPath(path)}\``);
+      }
+      lines.push("");
+    }
+  }
+
+  return lines.join("\n");
+}
+
+// --- HTML ---
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+const REPORT_STYLES = `
+  body { font-family: -apple-system, "Segoe UI", Roboto, sans-serif; color: #0f172a; max-width: 960px; margin: 2rem auto; padding: 0 1.5rem; line-height: 1.5; }
+  h1 { font-size: 1.6rem; margin-bottom: 0.25rem; }
+  h2 { font-size: 1.2rem; border-bottom: 1px solid #e2e8f0; padding-bottom: 0.25rem; margin-top: 2rem; }
+  h3 { font-size: 1rem; margin-bottom: 0.25rem; }
+  .meta { color: #64748b; font-size: 0.85rem; }
+  .verdict { border: 1px solid #e2e8f0; border-left: 4px solid #f59e0b; border-radius: 6px; padding: 1rem; }
+  .verdict.approval { border-left-color: #dc2626; }
+  .pill { display: inline-block; border: 1px solid #cbd5e1; border-radius: 999px; padding: 0 0.5rem; font-size: 0.75rem; margin-right: 0.25rem; }
+  table { width: 100%; border-collapse: collapse; font-size: 0.85rem; }
+  th, td { text-align: left; border-bottom: 1px solid #e2e8f0; padding: 0.4rem 0.5rem; }
+  th { background: #f8fafc; text-transform: uppercase; font-size: 0.7rem; color: #475569; }
+  code { font-family: ui-monospace, Consolas, monospace; font-size: 0.8rem; background: #f1f5f9; padding: 0 0.25rem; border-radius: 3px; }
+  ul { padding-left: 1.25rem; }
+  @media print { body { margin: 0; } h2 { break-after: avoid; } tr, li { break-inside: avoid; } }
+`;
+
+export function buildImpactHtml(response: ImpactDecisionResponse): string {
+  const { verdict, summary, entities } = response;
+  const riskLabel = (RISK_CONFIG[verdict.risk] || RISK_CONFIG[1]).label;
+  const title = `Impact Report: ${getRootName(response)}`;
+
+  const reasonsHtml =
+    verdict.reasons.length === 0
+      ? "<p><em>No reasons recorded.</em></p>"
+      : verdict.reasons
+          .map((reason, idx) => {
+            const evidence =
+              reason.evidence.length > 0
+                ? `<p><strong>Evidence:</strong></p><ul>${reason.evidence
+                    .map(
+                      (ev) =>
+                        `<li>${escapeHtml(describeEntity(ev, entities))} <code>${escapeHtml(ev)}</code></li>`,
+                    )
+                    .join("")}</ul>`
+                : "";
+            return `<h3>${idx + 1}. ${escapeHtml(reason.statement)}</h3>
+<p><span class="pill">Priority ${reason.priority}</span> <strong>Implication:</strong> ${escapeHtml(reason.implication)}</p>
+${evidence}`;
+          })
+          .join("\n");
+
+  const entitiesHtml =
+    entities.length === 0
+      ? "<p><em>No downstream entities are affected.</em></p>"
+      : `<table>
+<thead><tr><th>Entity</th><th>Type</th><th>Operation</th><th>Impact</th><th>Risk Score</th></tr></thead>
+<tbody>
+${entities
+  .map((item) => {
+    const parsed = parseStableKey(item.entity.stableKey);
+    return `<tr><td>${escapeHtml(item.entity.name || item.entity.stableKey)}</td><td>${parsed ? getEntityTypeLabel(parsed.type) : "-"}</td><td>${escapeHtml(item.dominantOperation)}</td><td>${getImpactLevelLabel(item.worstCaseImpactLevel)}</td><td>${item.riskScore}</td></tr>`;
+  })
+  .join("\n")}
+</tbody>
+</table>
+<h2>Dependency Paths</h2>
+${entities
+  .map((item) => {
+    const paths =
+      item.paths.length === 0
+        ? "<p><em>No path data available.</em></p>"
+        : `<ul>${item.paths.map((path) => `<li><code>${escapeHtml(formatImpactPath(path))}</code></li>`).join("")}</ul>`;
+    return `<h3>${escapeHtml(item.entity.name || item.entity.stableKey)}</h3>\n${paths}`;
+  })
+  .join("\n")}`;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8" />
+<title>${escapeHtml(title)}</title>
+<style>${REPORT_STYLES}</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<p class="meta">Change: ${escapeHtml(summary.action)} &middot; ${escapeHtml(summary.analysisType)} &middot; ${escapeHtml(summary.environment)} &middot; Generated ${escapeHtml(utcToLocal(verdict.generatedAt))}</p>
+
+<h2>Verdict</h2>
+<div class="verdict${verdict.requiresApproval ? " approval" : ""}">
+<p><strong>${escapeHtml(verdict.summary)}</strong></p>
+<p><span class="pill">${riskLabel}</span><span class="pill">Score ${getVerdictScore(verdict)}</span><span class="pill">${verdict.requiresApproval ? "Requires approval" : "No approval required"}</span><span class="pill">${entities.length} affected entities</span></p>
+</div>
+
+<h2>Reasons</h2>
+${reasonsHtml}
+
+<h2>Affected Entities</h2>
+${entitiesHtml}
+</body>
+</html>
+`;
+}
+
+// --- EXPORT ENTRY POINT ---
+
+export function buildImpactReport(
+  response: ImpactDecisionResponse,
+  reportFormat: ImpactReportFormat,
+): string {
+  switch (reportFormat) {
+    case "markdown":
+      return buildImpactMarkdown(response);
+    case "html":
+      return buildImpactHtml(response);
+    case "json":
+      return JSON.stringify(response, null, 2);
+  }
+}
+
+/**
+ * Builds the report on the client and downloads it.
+ * Returns the file name that was written.
+ */
+export function exportImpactReport(
+  response: ImpactDecisionResponse,
+  reportFormat: ImpactReportFormat,
+): string {
+  const { extension, mimeType } = FORMAT_META[reportFormat];
+  const safeName = getRootName(response)
+    .replace(/[^A-Za-z0-9_.-]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+  const action = response.summary.action?.toLowerCase() || "change";
+  const fileName = `impact-${safeName || "entity"}-${action}-${format(new Date(), "yyyyMMdd-HHmm")}.${extension}`;
+
+  saveBlob(
+    new Blob([buildImpactReport(response, reportFormat)], { type: mimeType }),
+    fileName,
+  );
+  return fileName;
+}
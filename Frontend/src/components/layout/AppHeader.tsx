@@ -1,9 +1,15 @@
+import { Search } from "lucide-react";
+import { Button } from "../ui/button";
 import { Separator } from "../ui/separator";
 import ThemeToggle from "./ThemeToggle";
 import { SidebarTrigger } from "../ui/sidebar";
 import NotificationDropdown from "./NotificationDropdown";
 
-export default function AppHeader() {
+interface AppHeaderProps {
+  onOpenCommandPalette: () => void;
+}
+
+export default function AppHeader({ onOpenCommandPalette }: AppHeaderProps) {
   return (
     <header className="w-full border-b bg-background sticky top-0 z-50">
       <div className="mx-auto px-4 py-3 flex items-center justify-between">
@@ -16,6 +22,20 @@ export default function AppHeader() {
 
         {/* Right: Actions */}
         <div className="flex items-center gap-2">
+          {/* Command Palette */}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={onOpenCommandPalette}
+            className="gap-2 text-muted-foreground"
+          >
+            <Search className="h-4 w-4" />
+            <span className="hidden sm:inline">Search...</span>
+            <kbd className="hidden sm:inline rounded border bg-muted px-1.5 text-[10px]">
+              Ctrl K
+            </kbd>
+          </Button>
+
           {/* Theme Toggle */}
           <ThemeToggle />
 
@@ -16,6 +16,7 @@ import {
   GitBranch,
   Code,
   BookOpen,
+  ListChecks,
 } from "lucide-react";
 import { NavLink, useLocation, useNavigate } from "react-router-dom";
 import {
@@ -253,6 +254,20 @@ export default function AppSidebar() {
                       </NavLink>
                     </SidebarMenuButton>
                   </SidebarMenuItem>
+                  <SidebarMenuItem>
+                    <SidebarMenuButton
+                      asChild
+                      isActive={location.pathname.includes("/logical-fks/review")}
+                      tooltip="FK Review"
+                    >
+                      <NavLink
+                        to={`/project/${selectedProject.projectId}/logical-fks/review`}
+                      >
+                        <ListChecks />
+                        <span>FK Review</span>
+                      </NavLink>
+                    </SidebarMenuButton>
+                  </SidebarMenuItem>
                   <SidebarMenuItem>
                     <SidebarMenuButton
                       asChild
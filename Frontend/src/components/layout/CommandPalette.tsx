@@ -0,0 +1,387 @@
+/**
+ * CommandPalette — Ctrl/Cmd+K search across the selected project's schema
+ *
+ * Finds tables, columns, SPs, functions and views by name or by their documented
+ * purpose, domain and sensitivity, showing the snippets that matched. Also offers
+ * jump-to actions (ER diagram, impact, SP generation) and the main pages.
+ */
+import { useEffect, useMemo, useRef, useState, type KeyboardEvent as ReactKeyboardEvent, type ReactNode } from "react";
+import { useNavigate } from "react-router-dom";
+import {
+  BookOpen,
+  Binary,
+  Code,
+  Columns3,
+  Eye,
+  FileCode,
+  GitBranch,
+  Home,
+  ListChecks,
+  Network,
+  Search,
+  Sparkles,
+  SquareFunction,
+  Table2,
+  type LucideIcon,
+} from "lucide-react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogTitle } from "@/components/ui/dialog";
+import { useAuthorization } from "@/hooks/useAuth";
+import {
+  useContextSearch,
+  type ContextSearchEntityType,
+  type ContextSearchResult,
+} from "@/hooks/useContext";
+import { useProject } from "@/hooks/useProject";
+import { cn } from "@/lib/utils";
+
+interface CommandPaletteProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+type PaletteGroup = "Entities" | "Actions" | "Pages";
+
+interface PaletteItem {
+  id: string;
+  group: PaletteGroup;
+  label: string;
+  icon: LucideIcon;
+  result?: ContextSearchResult;
+  run: () => void;
+}
+
+const ENTITY_TYPE_META: Record<ContextSearchEntityType, { label: string; icon: LucideIcon }> = {
+  TABLE: { label: "Table", icon: Table2 },
+  COLUMN: { label: "Column", icon: Columns3 },
+  SP: { label: "Stored Procedure", icon: FileCode },
+  FUNCTION: { label: "Function", icon: SquareFunction },
+  VIEW: { label: "View", icon: Eye },
+};
+
+/** Entities whose jump-to actions are listed; keeps the Actions group short */
+const ACTION_RESULT_LIMIT = 3;
+
+function getEntityRoute(projectId: number, result: ContextSearchResult): string | null {
+  switch (result.entityType) {
+    case "TABLE":
+      return `/project/${projectId}/tables/${result.entityId}/detail`;
+    case "SP":
+      return `/project/${projectId}/stored-procedures/${result.entityId}/detail`;
+    case "COLUMN":
+      return `/project/${projectId}/entities/column/${result.entityId}/overview`;
+    default:
+      return null;
+  }
+}
+
+/** Wraps case-insensitive occurrences of the query in <mark> */
+function HighlightedText({ text, query }: { text: string; query: string }) {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return <>{text}</>;
+
+  const parts: ReactNode[] = [];
+  const haystack = text.toLowerCase();
+  let cursor = 0;
+  let index = haystack.indexOf(needle);
+  while (index >= 0) {
+    if (index > cursor) parts.push(text.slice(cursor, index));
+    parts.push(
+      <mark key={index} className="rounded-sm bg-yellow-200/70 text-inherit dark:bg-yellow-500/30">
+        {text.slice(index, index + needle.length)}
+      </mark>,
+    );
+    cursor = index + needle.length;
+    index = haystack.indexOf(needle, cursor);
+  }
+  if (cursor < text.length) parts.push(text.slice(cursor));
+  return <>{parts}</>;
+}
+
+export default function CommandPalette({ open, onOpenChange }: CommandPaletteProps) {
+  const navigate = useNavigate();
+  const { selectedProject } = useProject();
+  const canReadContext = useAuthorization("Contexts:Read");
+  const canReadSchema = useAuthorization("Schema:Read");
+  const canReadSps = useAuthorization("StoredProcedures:Read");
+  const canCreateSps = useAuthorization("StoredProcedures:Create");
+  const canReadSnippets = useAuthorization("Snippets:Read");
+
+  const [query, setQuery] = useState("");
+  const [debouncedQuery, setDebouncedQuery] = useState("");
+  const [activeIndex, setActiveIndex] = useState(0);
+  const listRef = useRef<HTMLDivElement | null>(null);
+
+  const projectId = selectedProject?.projectId;
+  const term = debouncedQuery.trim();
+
+  // Ctrl/Cmd+K toggles the palette from anywhere
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === "k") {
+        event.preventDefault();
+        onOpenChange(!open);
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [open, onOpenChange]);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedQuery(query), 200);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  const { data: results, isFetching } = useContextSearch(canReadContext ? term : "", { limit: 12 });
+
+  const items = useMemo<PaletteItem[]>(() => {
+    const go = (path: string) => () => navigate(path);
+    const list: PaletteItem[] = [];
+
+    if (projectId && term.length >= 2) {
+      for (const result of results ?? []) {
+        const route = getEntityRoute(projectId, result);
+        list.push({
+          id: `entity-${result.entityType}-${result.entityId}`,
+          group: "Entities",
+          label: result.entityName,
+          icon: ENTITY_TYPE_META[result.entityType].icon,
+          result,
+          run: route
+            ? go(route)
+            : () => {
+              // Functions and views have no detail page yet
+              void navigator.clipboard
+                .writeText(result.entityName)
+                .then(() => toast.success(`Copied ${result.entityName}`))
+                .catch(() => toast.error("Failed to copy to clipboard"));
+            },
+        });
+      }
+
+      const actionable = (results ?? [])
+        .filter((r) => r.entityType === "TABLE" || r.entityType === "SP")
+        .slice(0, ACTION_RESULT_LIMIT);
+      for (const result of actionable) {
+        const key = `${result.entityType}-${result.entityId}`;
+        if (result.entityType === "TABLE" && canReadSchema) {
+          list.push({
+            id: `er-${key}`,
+            group: "Actions",
+            label: `Open ER diagram for ${result.entityName}`,
+            icon: GitBranch,
+            run: go(`/project/${projectId}/er-diagram?table=${result.entityId}`),
+          });
+        }
+        list.push({
+          id: `impact-${key}`,
+          group: "Actions",
+          label: `Impact of ${result.entityName}`,
+          icon: Network,
+          run: go(`/project/${projectId}/impact/${result.entityType}/${result.entityId}`),
+        });
+        if (result.entityType === "TABLE" && canReadSps) {
+          list.push({
+            id: `sp-${key}`,
+            group: "Actions",
+            label: `Generate SP for ${result.entityName}`,
+            icon: Binary,
+            run: go(`/sp-builder?table=${encodeURIComponent(result.entityName)}`),
+          });
+        }
+      }
+    }
+
+    const pages: Array<{ label: string; icon: LucideIcon; href: string; allowed: boolean }> = [
+      { label: "Dashboard", icon: Home, href: "/", allowed: true },
+      { label: "Projects", icon: Sparkles, href: "/projects", allowed: true },
+      ...(projectId
+        ? [
+          { label: "Entity Explorer", icon: Search, href: `/project/${projectId}/entities`, allowed: canReadContext },
+          { label: "Bulk Context Editor", icon: Table2, href: "/context/bulk-edit", allowed: canReadContext },
+          { label: "ER Diagram", icon: GitBranch, href: `/project/${projectId}/er-diagram`, allowed: canReadSchema },
+          { label: "FK Review", icon: ListChecks, href: `/project/${projectId}/logical-fks/review`, allowed: canReadSchema },
+          { label: "Change-set Impact", icon: Network, href: `/project/${projectId}/impact/change-set`, allowed: canReadContext },
+          { label: "Patcher", icon: Code, href: `/project/${projectId}/patcher`, allowed: canCreateSps },
+        ]
+        : []),
+      { label: "SP Generator", icon: Binary, href: "/sp-builder", allowed: canReadSps },
+      { label: "Snippet Library", icon: BookOpen, href: "/snippets", allowed: canReadSnippets },
+    ];
+    const needle = query.trim().toLowerCase();
+    for (const page of pages) {
+      if (!page.allowed || (needle && !page.label.toLowerCase().includes(needle))) continue;
+      list.push({ id: `page-${page.href}`, group: "Pages", label: page.label, icon: page.icon, run: go(page.href) });
+    }
+
+    return list;
+  }, [navigate, projectId, term, results, query, canReadContext, canReadSchema, canReadSps, canCreateSps, canReadSnippets]);
+
+  // Results change under the cursor; start again from the top
+  useEffect(() => {
+    setActiveIndex(0);
+  }, [items]);
+
+  useEffect(() => {
+    listRef.current
+      ?.querySelector(`[data-index="${activeIndex}"]`)
+      ?.scrollIntoView({ block: "nearest" });
+  }, [activeIndex]);
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) {
+      setQuery("");
+      setDebouncedQuery("");
+    }
+    onOpenChange(next);
+  };
+
+  const runItem = (item: PaletteItem) => {
+    handleOpenChange(false);
+    item.run();
+  };
+
+  const handleInputKeyDown = (event: ReactKeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "ArrowDown") {
+      event.preventDefault();
+      setActiveIndex((i) => Math.min(i + 1, items.length - 1));
+    } else if (event.key === "ArrowUp") {
+      event.preventDefault();
+      setActiveIndex((i) => Math.max(i - 1, 0));
+    } else if (event.key === "Enter" && items[activeIndex]) {
+      event.preventDefault();
+      runItem(items[activeIndex]);
+    }
+  };
+
+  const isSearching = term.length >= 2 && isFetching;
+  const hasEntityResults = items.some((item) => item.group === "Entities");
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent showCloseButton={false} className="top-[15%] translate-y-0 gap-0 overflow-hidden p-0 sm:max-w-2xl">
+        <DialogTitle className="sr-only">Command palette</DialogTitle>
+        <DialogDescription className="sr-only">
+          Search tables, columns, procedures, functions and views, or jump to a page.
+        </DialogDescription>
+
+        <div className="flex items-center gap-2 border-b px-3">
+          <Search className="h-4 w-4 shrink-0 text-muted-foreground" />
+          <input
+            autoFocus
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={handleInputKeyDown}
+            placeholder={
+              selectedProject
+                ? `Search ${selectedProject.projectName} by name, purpose, domain or sensitivity...`
+                : "Jump to a page..."
+            }
+            className="h-12 flex-1 bg-transparent text-sm outline-none placeholder:text-muted-foreground"
+          />
+          <kbd className="rounded border bg-muted px-1.5 py-0.5 text-[10px] text-muted-foreground">Esc</kbd>
+        </div>
+
+        <div ref={listRef} className="max-h-[60vh] overflow-y-auto p-2">
+          {!selectedProject && (
+            <p className="px-2 py-1.5 text-xs text-muted-foreground">
+              Select a project to search its schema.
+            </p>
+          )}
+          {selectedProject && term.length >= 2 && !isSearching && !hasEntityResults && canReadContext && (
+            <p className="px-2 py-1.5 text-xs text-muted-foreground">No entities match "{term}".</p>
+          )}
+          {isSearching && !hasEntityResults && (
+            <p className="px-2 py-1.5 text-xs text-muted-foreground">Searching...</p>
+          )}
+
+          {(["Entities", "Actions", "Pages"] as const).map((group) => {
+            const groupItems = items
+              .map((item, index) => ({ item, index }))
+              .filter(({ item }) => item.group === group);
+            if (groupItems.length === 0) return null;
+
+            return (
+              <div key={group} className="mb-2 last:mb-0">
+                <div className="px-2 py-1 text-[11px] font-medium uppercase tracking-wide text-muted-foreground">
+                  {group}
+                </div>
+                {groupItems.map(({ item, index }) => (
+                  <button
+                    key={item.id}
+                    type="button"
+                    data-index={index}
+                    onMouseMove={() => setActiveIndex(index)}
+                    onClick={() => runItem(item)}
+                    className={cn(
+                      "flex w-full items-start gap-3 rounded-md px-2 py-2 text-left text-sm",
+                      index === activeIndex && "bg-accent text-accent-foreground",
+                    )}
+                  >
+                    <item.icon className="mt-0.5 h-4 w-4 shrink-0 text-muted-foreground" />
+                    {item.result ? (
+                      <EntityResultRow result={item.result} query={term} />
+                    ) : (
+                      <span className="truncate">{item.label}</span>
+                    )}
+                  </button>
+                ))}
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex items-center gap-3 border-t px-3 py-2 text-[11px] text-muted-foreground">
+          <span>↑↓ to navigate</span>
+          <span>↵ to open</span>
+          <span className="ml-auto">Ctrl+K to toggle</span>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function EntityResultRow({ result, query }: { result: ContextSearchResult; query: string }) {
+  const { context } = result;
+
+  return (
+    <div className="min-w-0 flex-1 space-y-1">
+      <div className="flex items-center gap-2">
+        <span className="truncate font-medium">
+          {result.parentName && <span className="text-muted-foreground">{result.parentName}.</span>}
+          <HighlightedText text={result.entityName} query={query} />
+        </span>
+        <Badge variant="outline" className="shrink-0 text-[10px]">
+          {ENTITY_TYPE_META[result.entityType].label}
+        </Badge>
+        {context?.businessDomain && (
+          <Badge variant="secondary" className="shrink-0 text-[10px]">
+            {context.businessDomain}
+          </Badge>
+        )}
+        {context?.sensitivity && context.sensitivity !== "PUBLIC" && (
+          <Badge variant="destructive" className="shrink-0 text-[10px]">
+            {context.sensitivity}
+          </Badge>
+        )}
+        <span className="ml-auto shrink-0 text-[10px] text-muted-foreground" title="Match score">
+          {result.matchScore}%
+        </span>
+      </div>
+      {result.highlights.slice(0, 2).map((highlight) => {
+        // Highlights are "Label: excerpt"
+        const separator = highlight.indexOf(": ");
+        return (
+          <p key={highlight} className="truncate text-xs text-muted-foreground">
+            {separator > 0 && <span className="font-medium">{highlight.slice(0, separator + 1)} </span>}
+            <HighlightedText text={separator > 0 ? highlight.slice(separator + 2) : highlight} query={query} />
+          </p>
+        );
+      })}
+      {result.highlights.length === 0 && context?.purpose && (
+        <p className="truncate text-xs text-muted-foreground">{context.purpose}</p>
+      )}
+    </div>
+  );
+}
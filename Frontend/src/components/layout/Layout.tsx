@@ -1,6 +1,8 @@
+import { useState } from "react";
 import { Outlet } from "react-router-dom";
 import AppHeader from "./AppHeader";
 import AppSidebar from "./AppSidebar";
+import CommandPalette from "./CommandPalette";
 import { ConfirmDialog } from "./ConfirmDialog";
 import { SidebarProvider, SidebarInset } from "../ui/sidebar";
 
@@ -9,6 +11,7 @@ import { useFullscreen } from "@/hooks/useFullscreen";
 // components/layout/AppLayout.tsx
 export default function AppLayout() {
   const { isFullscreen } = useFullscreen();
+  const [isCommandPaletteOpen, setIsCommandPaletteOpen] = useState(false);
 
   return (
     <SidebarProvider defaultOpen={true}>
@@ -19,11 +22,17 @@ export default function AppLayout() {
         {/* Main content area */}
         <SidebarInset>
           {/* Global Header */}
-          {!isFullscreen && <AppHeader />}
+          {!isFullscreen && (
+            <AppHeader onOpenCommandPalette={() => setIsCommandPaletteOpen(true)} />
+          )}
 
           {/* Feature content area */}
           <main className="flex-1">
             <ConfirmDialog />
+            <CommandPalette
+              open={isCommandPaletteOpen}
+              onOpenChange={setIsCommandPaletteOpen}
+            />
             <div className={isFullscreen ? "" : "p-6"}>
               <Outlet />
             </div>
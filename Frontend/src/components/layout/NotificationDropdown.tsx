@@ -53,6 +53,7 @@ export default function NotificationDropdown() {
     switch (type) {
       case "LFK_DETECTION_COMPLETE": return "bg-blue-500";
       case "ENTITY_RESYNC_COMPLETE": return "bg-green-500";
+      case "CONTEXT_REVIEW_DIGEST": return "bg-amber-500";
       case "ERROR": return "bg-red-500";
       default: return "bg-yellow-500";
     }
@@ -9,12 +9,15 @@ import {
 } from "../ui/dropdown-menu";
 import { ChevronDown, Clipboard, Download } from "lucide-react";
 import { ButtonGroup, ButtonGroupSeparator } from "../ui/button-group";
+import { SQL_DIALECT_LABELS, type SqlDialect } from "@/lib/schema-utils";
 
 export default function CodeExportButton({
   onExport,
+  dialect,
 }: {
   // TODO: keep parent handlers narrowed to this union until ZIP support is reintroduced.
   onExport: (format: "sql" | "copy") => void;
+  dialect?: SqlDialect;
 }) {
   return (
     <ButtonGroup>
@@ -25,6 +28,11 @@ export default function CodeExportButton({
       >
         <Download className="h-4 w-4 mr-2" />
         Download .sql
+        {dialect && (
+          <span className="ml-2 rounded bg-primary-foreground/20 px-1.5 py-0.5 text-[10px] font-semibold">
+            {SQL_DIALECT_LABELS[dialect]}
+          </span>
+        )}
       </Button>
       <ButtonGroupSeparator />
       <DropdownMenu>
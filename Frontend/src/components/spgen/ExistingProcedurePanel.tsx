@@ -0,0 +1,55 @@
+import { Link } from "react-router-dom";
+import { AlertTriangle, ExternalLink } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { EntityImpactPreview } from "@/components/impact-analysis/ImpactPreview";
+import { useProject, type StoredProcedureListItem } from "@/hooks/useProject";
+import { getDefaultSchema } from "@/lib/schema-utils";
+
+/**
+ * Side panel shown when the generated name matches a procedure in the synced metadata,
+ * with the impact verdict for modifying it
+ */
+export default function ExistingProcedurePanel({
+  projectId,
+  procedure,
+}: {
+  projectId: number;
+  procedure: StoredProcedureListItem;
+}) {
+  const { databaseType } = useProject();
+  const qualifiedName = `${procedure.schemaName || getDefaultSchema(databaseType) || "dbo"}.${procedure.procedureName}`;
+
+  return (
+    <div className="h-full overflow-y-auto custom-scrollbar space-y-4 bg-card p-4 rounded-2xl border border-border/40 shadow-sm">
+      <Alert className="border-amber-500/40 bg-amber-500/5">
+        <AlertTriangle className="h-4 w-4 text-amber-600" />
+        <AlertTitle>Procedure already exists</AlertTitle>
+        <AlertDescription>
+          <span>
+            <span className="font-mono">{qualifiedName}</span> is in the synced
+            metadata. Compare with the live definition before deploying so
+            hand-tuned changes are not overwritten.
+          </span>
+          <Link
+            to={`/project/${projectId}/stored-procedures/${procedure.spId}/detail`}
+            className="inline-flex items-center gap-1 text-xs font-medium text-primary hover:underline underline-offset-4"
+          >
+            View current procedure
+            <ExternalLink className="w-3 h-3" />
+          </Link>
+        </AlertDescription>
+      </Alert>
+
+      <div className="space-y-2">
+        <h3 className="text-sm font-semibold">Impact of modifying</h3>
+        <EntityImpactPreview
+          projectId={projectId}
+          entityType="SP"
+          entityId={procedure.spId}
+          entityName={procedure.procedureName}
+          changeType="MODIFY"
+        />
+      </div>
+    </div>
+  );
+}
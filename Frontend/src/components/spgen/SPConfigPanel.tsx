@@ -1,6 +1,6 @@
-import { useEffect } from "react";
+import { useEffect, useRef } from "react";
 import { useForm, useFieldArray } from "react-hook-form";
-import { Settings2, ArrowRight, Plus, SlidersHorizontal, Trash2 } from "lucide-react";
+import { Settings2, ArrowRight, ArrowUpDown, Plus, SlidersHorizontal, Trash2 } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Checkbox } from "@/components/ui/checkbox";
@@ -14,8 +14,17 @@ import {
 } from "@/components/ui/select";
 import SPTypeCard, { type SPType } from "./SPTypeCard";
 import TableSchemaViewer, { type TableSchema } from "@/components/database/TableSchemaViewer";
+import SelectJoinsPanel from "./SelectJoinsPanel";
 import type { SPConfigValues } from "@/schema/spBuilderSchema";
-import { getDefaultSpConfig } from "./spConfigDefaults";
+import { getDefaultSpConfig, SP_TYPES, usesColumnIncludes } from "./spConfigDefaults";
+
+type SelectConfig = Extract<SPConfigValues, { mode: "SELECT" }>;
+type FilterOperator = SelectConfig["filters"][number]["operator"];
+
+/** Fields of any SP type holding a value of type V, for the inputs shared across types */
+type FieldsOfType<T, V> = T extends unknown ? { [K in keyof T]: T[K] extends V ? K : never }[keyof T] : never;
+type TextField = Exclude<FieldsOfType<SPConfigValues, string>, "mode">;
+type ToggleField = FieldsOfType<SPConfigValues, boolean>;
 
 const getDefaultColumnConfigs = (schema: TableSchema) => {
   return schema.columns.reduce(
@@ -38,12 +47,15 @@ export default function SPConfigPanel({
   onSubmit,
   schema,
   onChangeType,
+  onValuesChange,
 }: {
   spType: SPType;
   config: SPConfigValues;
   onSubmit: (values: SPConfigValues) => void;
   schema: TableSchema;
   onChangeType: (type: SPType) => void;
+  /** Called on every edit, so unsubmitted values can be saved */
+  onValuesChange?: (values: SPConfigValues) => void;
 }) {
   const form = useForm<SPConfigValues>({
     defaultValues: config,
@@ -51,39 +63,97 @@ export default function SPConfigPanel({
   });
 
   const { fields, append, remove } = useFieldArray({
-    control: form.control as any,
-    name: "filters" as any,
+    control: form.control,
+    name: "filters",
   });
 
-  // Full reset only when the SP type is switched (CUD ↔ SELECT)
+  // Full reset only when the SP type is switched; on mount `config` is kept,
+  // so submitted or loaded values survive navigating back to this step.
+  const resetTypeRef = useRef(spType);
   useEffect(() => {
-    if (spType === "CUD") {
-      form.reset(getDefaultSpConfig("CUD") as any);
-    } else {
-      form.reset(getDefaultSpConfig("SELECT") as any);
-    }
+    if (resetTypeRef.current === spType) return;
+    resetTypeRef.current = spType;
+    form.reset(getDefaultSpConfig(spType));
   }, [spType]); // eslint-disable-line react-hooks/exhaustive-deps
 
   // Only refresh column include-maps when the selected table actually changes.
+  const includesTableRef = useRef<string | null>(null);
   useEffect(() => {
-    if (spType === "CUD" && schema.columns.length > 0) {
+    if (usesColumnIncludes(spType) && schema.columns.length > 0) {
+      const isFirstLoad = includesTableRef.current === null;
+      includesTableRef.current = schema.tableName;
+      const existing = form.getValues("includeInCreate");
+      if (isFirstLoad && existing && Object.keys(existing).length > 0) return;
+
       const defaultCols = getDefaultColumnConfigs(schema);
-      form.setValue("includeInCreate" as any, defaultCols.create);
-      form.setValue("includeInUpdate" as any, defaultCols.update);
+      form.setValue("includeInCreate", defaultCols.create);
+      form.setValue("includeInUpdate", defaultCols.update);
     }
   }, [schema.tableName, spType]); // eslint-disable-line react-hooks/exhaustive-deps
 
+  useEffect(() => {
+    if (!onValuesChange) return;
+    const subscription = form.watch((values) => onValuesChange(values as SPConfigValues));
+    return () => subscription.unsubscribe();
+  }, [form, onValuesChange]);
+
   const submit = form.handleSubmit((values) => {
     if (values.mode === "SELECT") {
       const ob = (form.getValues("orderBy") || []) as string[];
       const normalized = ob.flatMap((v) => v.split(",")).map((s) => s.trim()).filter(Boolean);
-      onSubmit({ ...values, orderBy: normalized });
+      // Drop sort columns whose output column was removed after they were picked
+      const sortableColumns = (values.sortableColumns ?? []).filter((name) => outputNames.includes(name));
+      onSubmit({ ...values, orderBy: normalized, sortableColumns });
     } else {
       onSubmit(values); // This will now naturally include includeInCreate/includeInUpdate!
     }
   });
 
   const availableColumns = schema.columns.map((c) => c.name);
+  const mode = form.watch("mode");
+
+  // Names the SELECT returns; dynamic sorting may only use these
+  const selectOutputs = (form.watch("outputColumns") as { kind: string; column: string; alias: string }[]) ?? [];
+  const outputNames = selectOutputs.length === 0
+    ? availableColumns
+    : selectOutputs.map((o) => o.alias || (o.kind === "column" ? o.column : "")).filter(Boolean);
+  const isKeyset = Boolean(form.watch("includePagination")) && form.watch("paginationMode") === "KEYSET";
+
+  // Blank names are allowed (column not used); anything else should exist on the table
+  const missingColumnHint = (field: TextField) => {
+    const value = (form.watch(field) ?? "").trim();
+    return value && !availableColumns.some((c) => c.toLowerCase() === value.toLowerCase())
+      ? `Not found on ${schema.tableName}; it will be skipped`
+      : undefined;
+  };
+
+  const renderTextOption = (field: TextField, label: string, opts: { placeholder?: string; hint?: string } = {}) => (
+    <div className="space-y-2">
+      <Label className="text-xs font-semibold text-foreground/80" htmlFor={field}>{label}</Label>
+      <Input
+        id={field}
+        className="bg-background h-10 transition-colors focus-visible:ring-primary/30"
+        placeholder={opts.placeholder}
+        value={form.watch(field) ?? ""}
+        onChange={(e) => form.setValue(field, e.target.value)}
+      />
+      {opts.hint && <p className="text-xs text-amber-600 dark:text-amber-400">{opts.hint}</p>}
+    </div>
+  );
+
+  const renderToggleOption = (field: ToggleField, title: string, desc: string) => (
+    <label key={field} className="flex items-start gap-3 p-4 rounded-xl border border-border/40 bg-background hover:border-primary/40 hover:shadow-sm transition-all cursor-pointer group">
+      <Checkbox
+        className="mt-0.5 data-[state=checked]:bg-primary"
+        checked={form.watch(field) ?? false}
+        onCheckedChange={(v) => form.setValue(field, Boolean(v))}
+      />
+      <div className="space-y-1">
+        <span className="text-sm font-bold block leading-none group-hover:text-primary transition-colors">{title}</span>
+        <span className="text-xs text-muted-foreground block">{desc}</span>
+      </div>
+    </label>
+  );
 
   return (
     <div className="flex flex-col gap-8 animate-in fade-in slide-in-from-bottom-4 duration-500">
@@ -93,16 +163,16 @@ export default function SPConfigPanel({
         <TableSchemaViewer
           schema={schema}
           selectedTable={schema.tableName}
-          showCrudCheckboxes={spType === "CUD"}
+          showCrudCheckboxes={usesColumnIncludes(spType)}
           includeInCreate={(form.watch("includeInCreate") as Record<string, boolean>) || {}}
           includeInUpdate={(form.watch("includeInUpdate") as Record<string, boolean>) || {}}
           onToggleCreate={(colName, checked) => {
             const current = (form.getValues("includeInCreate") as Record<string, boolean>) || {};
-            form.setValue("includeInCreate" as any, { ...current, [colName]: checked }, { shouldDirty: true });
+            form.setValue("includeInCreate", { ...current, [colName]: checked }, { shouldDirty: true });
           }}
           onToggleUpdate={(colName, checked) => {
             const current = (form.getValues("includeInUpdate") as Record<string, boolean>) || {};
-            form.setValue("includeInUpdate" as any, { ...current, [colName]: checked }, { shouldDirty: true });
+            form.setValue("includeInUpdate", { ...current, [colName]: checked }, { shouldDirty: true });
           }}
         />
       </div>
@@ -113,15 +183,16 @@ export default function SPConfigPanel({
           <Settings2 className="h-5 w-5 text-primary" />
           <h3 className="text-base font-semibold tracking-tight">Procedure Type</h3>
         </div>
-        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-          <SPTypeCard type="CUD" selected={spType === "CUD"} onChange={onChangeType} />
-          <SPTypeCard type="SELECT" selected={spType === "SELECT"} onChange={onChangeType} />
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+          {SP_TYPES.map((type) => (
+            <SPTypeCard key={type} type={type} selected={spType === type} onChange={onChangeType} />
+          ))}
         </div>
       </div>
 
       {/* Form Configuration */}
       <form onSubmit={submit} className="space-y-8">
-        {form.watch("mode") === "CUD" ? (
+        {mode === "CUD" ? (
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
             {/* General Settings */}
             <div className="bg-card border border-border/40 shadow-sm rounded-2xl p-6 space-y-6">
@@ -137,7 +208,7 @@ export default function SPConfigPanel({
                     id="spPrefix"
                     className="bg-background h-10 transition-colors focus-visible:ring-primary/30"
                     value={(form.watch("spPrefix") as string) ?? ""}
-                    onChange={(e) => form.setValue("spPrefix" as any, e.target.value as any)}
+                    onChange={(e) => form.setValue("spPrefix", e.target.value)}
                   />
                 </div>
                 <div className="space-y-2">
@@ -146,7 +217,7 @@ export default function SPConfigPanel({
                     id="actionParamName"
                     className="bg-background h-10 transition-colors focus-visible:ring-primary/30"
                     value={(form.watch("actionParamName") as string) ?? ""}
-                    onChange={(e) => form.setValue("actionParamName" as any, e.target.value as any)}
+                    onChange={(e) => form.setValue("actionParamName", e.target.value)}
                   />
                 </div>
               </div>
@@ -155,14 +226,14 @@ export default function SPConfigPanel({
                 <label className="flex flex-1 items-center gap-3 p-3 rounded-xl border border-border/40 bg-muted/20 cursor-pointer hover:bg-muted/40 transition-colors group">
                   <Checkbox
                     checked={(form.watch("includeErrorHandling") as boolean) ?? false}
-                    onCheckedChange={(v) => form.setValue("includeErrorHandling" as any, Boolean(v) as any)}
+                    onCheckedChange={(v) => form.setValue("includeErrorHandling", Boolean(v))}
                   />
                   <span className="text-sm font-medium group-hover:text-primary transition-colors">Error Handling</span>
                 </label>
                 <label className="flex flex-1 items-center gap-3 p-3 rounded-xl border border-border/40 bg-muted/20 cursor-pointer hover:bg-muted/40 transition-colors group">
                   <Checkbox
                     checked={(form.watch("includeTransaction") as boolean) ?? false}
-                    onCheckedChange={(v) => form.setValue("includeTransaction" as any, Boolean(v) as any)}
+                    onCheckedChange={(v) => form.setValue("includeTransaction", Boolean(v))}
                   />
                   <span className="text-sm font-medium group-hover:text-primary transition-colors">Transaction Wrap</span>
                 </label>
@@ -187,8 +258,8 @@ export default function SPConfigPanel({
                     <label key={key} className="flex items-start gap-3 p-4 rounded-xl border border-border/40 bg-background hover:border-primary/40 hover:shadow-sm transition-all cursor-pointer group">
                       <Checkbox
                         className="mt-0.5 data-[state=checked]:bg-primary"
-                        checked={(form.watch(key as any) as boolean) ?? true}
-                        onCheckedChange={(v) => form.setValue(key as any, Boolean(v) as any)}
+                        checked={form.watch(key) ?? true}
+                        onCheckedChange={(v) => form.setValue(key, Boolean(v))}
                       />
                       <div className="space-y-1">
                         <span className="text-sm font-bold block leading-none group-hover:text-primary transition-colors">{labels[key].title}</span>
@@ -200,7 +271,7 @@ export default function SPConfigPanel({
               </div>
             </div>
           </div>
-        ) : (
+        ) : mode === "SELECT" ? (
           <div className="space-y-6">
             {/* SELECT Configuration */}
             <div className="bg-card border border-border/40 shadow-sm rounded-2xl p-6 grid grid-cols-1 md:grid-cols-2 gap-8">
@@ -214,7 +285,7 @@ export default function SPConfigPanel({
                     className="bg-background h-10 pl-4 pr-4 transition-colors focus-visible:ring-primary/30"
                     placeholder="e.g. created_at DESC, email ASC"
                     value={(form.watch("orderBy") as string[]).join(", ")}
-                    onChange={(e) => form.setValue("orderBy" as any, [e.target.value] as any)}
+                    onChange={(e) => form.setValue("orderBy", [e.target.value])}
                   />
                   <span className="absolute right-3 top-2.5 text-[10px] text-muted-foreground uppercase font-semibold pointer-events-none">CSV</span>
                 </div>
@@ -226,13 +297,79 @@ export default function SPConfigPanel({
                   <Checkbox
                     className="mt-0.5"
                     checked={(form.watch("includePagination") as boolean) ?? false}
-                    onCheckedChange={(v) => form.setValue("includePagination" as any, Boolean(v) as any)}
+                    onCheckedChange={(v) => form.setValue("includePagination", Boolean(v))}
                   />
                   <div className="space-y-1">
                     <span className="text-sm font-bold block leading-none group-hover:text-primary transition-colors">Include Pagination</span>
-                    <span className="text-xs text-muted-foreground block">Appends OFFSET and FETCH NEXT logic to the query.</span>
+                    <span className="text-xs text-muted-foreground block">
+                      {isKeyset
+                        ? "Seeks past @After* values of the ORDER BY columns, then the primary key, with TOP (@PageSize)."
+                        : "Appends OFFSET and FETCH NEXT logic to the query."}
+                    </span>
                   </div>
                 </label>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 pt-3">
+                  <Select
+                    value={(form.watch("paginationMode") as string) ?? "OFFSET"}
+                    disabled={!form.watch("includePagination")}
+                    onValueChange={(v) => {
+                      form.setValue("paginationMode", v as SelectConfig["paginationMode"]);
+                      // Seeking needs a fixed order, so dynamic sorting is dropped
+                      if (v === "KEYSET") form.setValue("sortableColumns", []);
+                    }}
+                  >
+                    <SelectTrigger aria-label="Pagination mode" className="rounded-lg bg-background h-10"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="OFFSET">Offset (page number)</SelectItem>
+                      <SelectItem value="KEYSET">Keyset (seek)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <label className="flex items-center gap-2.5 px-3 h-10 rounded-lg border border-border/40 bg-muted/20 cursor-pointer group">
+                    <Checkbox
+                      checked={(form.watch("includeTotalCount") as boolean) ?? true}
+                      onCheckedChange={(v) => form.setValue("includeTotalCount", Boolean(v))}
+                    />
+                    <span className="text-sm font-medium group-hover:text-primary transition-colors">Total count result set</span>
+                  </label>
+                </div>
+              </div>
+            </div>
+
+            {/* Joins & output columns */}
+            <SelectJoinsPanel form={form} schema={schema} />
+
+            {/* Dynamic sorting */}
+            <div className="bg-card border border-border/40 shadow-sm rounded-2xl p-6 space-y-5">
+              <div className="space-y-1 pb-2 border-b border-border/40">
+                <Label className="text-base font-bold text-foreground flex items-center gap-2">
+                  <ArrowUpDown className="h-4 w-4 text-primary" />
+                  Dynamic Sorting
+                </Label>
+                <p className="text-xs text-muted-foreground">
+                  {isKeyset
+                    ? "Not available with keyset pagination, which seeks on the fixed ORDER BY columns."
+                    : "Columns callers may pass as @SortColumn (with @SortDirection ASC/DESC). Anything else is rejected."}
+                </p>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {outputNames.map((name) => {
+                  const sortable = (form.watch("sortableColumns") as string[]) ?? [];
+                  return (
+                    <label key={name} className="flex items-center gap-2 px-3 py-1.5 rounded-lg border border-border/40 bg-muted/20 cursor-pointer hover:bg-muted/40 transition-colors">
+                      <Checkbox
+                        disabled={isKeyset}
+                        checked={sortable.includes(name)}
+                        onCheckedChange={(v) =>
+                          form.setValue(
+                            "sortableColumns",
+                            v ? [...sortable, name] : sortable.filter((s) => s !== name),
+                          )
+                        }
+                      />
+                      <span className="text-sm font-mono">{name}</span>
+                    </label>
+                  );
+                })}
               </div>
             </div>
 
@@ -264,7 +401,7 @@ export default function SPConfigPanel({
                       <Label className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">Column</Label>
                       <Select
                         value={(form.watch(`filters.${idx}.column`) as string) ?? ""}
-                        onValueChange={(v) => form.setValue(`filters.${idx}.column` as any, v as any)}
+                        onValueChange={(v) => form.setValue(`filters.${idx}.column`, v)}
                       >
                         <SelectTrigger className="rounded-lg bg-background h-10 border-border/60 shadow-sm"><SelectValue placeholder="Select column" /></SelectTrigger>
                         <SelectContent>
@@ -275,8 +412,8 @@ export default function SPConfigPanel({
                     <div className="space-y-2">
                       <Label className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">Operator</Label>
                       <Select
-                        value={(form.watch(`filters.${idx}.operator`) as any) ?? "="}
-                        onValueChange={(v) => form.setValue(`filters.${idx}.operator` as any, v as any)}
+                        value={form.watch(`filters.${idx}.operator`) ?? "="}
+                        onValueChange={(v) => form.setValue(`filters.${idx}.operator`, v as FilterOperator)}
                       >
                         <SelectTrigger className="rounded-lg bg-background h-10 border-border/60 shadow-sm font-mono text-sm"><SelectValue /></SelectTrigger>
                         <SelectContent>
@@ -290,7 +427,7 @@ export default function SPConfigPanel({
                       <label className="flex items-center gap-2.5 cursor-pointer group">
                         <Checkbox
                           checked={(form.watch(`filters.${idx}.optional`) as boolean) ?? false}
-                          onCheckedChange={(v) => form.setValue(`filters.${idx}.optional` as any, Boolean(v) as any)}
+                          onCheckedChange={(v) => form.setValue(`filters.${idx}.optional`, Boolean(v))}
                         />
                         <span className="text-sm font-medium group-hover:text-primary transition-colors">Optional</span>
                       </label>
@@ -310,6 +447,120 @@ export default function SPConfigPanel({
               </div>
             </div>
           </div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {/* General Settings */}
+            <div className="bg-card border border-border/40 shadow-sm rounded-2xl p-6 space-y-6">
+              <div className="space-y-1">
+                <h4 className="text-sm font-bold uppercase tracking-wider text-muted-foreground">General Configuration</h4>
+                <p className="text-xs text-muted-foreground/80">Configure naming conventions and wrappers.</p>
+              </div>
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-5">
+                {renderTextOption("spPrefix", "SP Prefix")}
+                {mode === "AUDIT" && renderTextOption("actionParamName", "Action Param Name")}
+                {mode === "AUDIT" && renderTextOption("userParamName", "User Param Name")}
+                {mode === "BULK_TVP" && renderTextOption("tableTypeName", "Table Type Name", { placeholder: `${schema.tableName}TableType` })}
+              </div>
+
+              <div className="flex flex-col gap-3 pt-2">
+                {renderToggleOption("includeErrorHandling", "Error Handling", "Wrap the body in TRY/CATCH and rethrow")}
+                {renderToggleOption("includeTransaction", "Transaction Wrap", "Run the body inside a transaction")}
+                {mode === "AUDIT" && renderToggleOption("useUtc", "UTC Timestamps", "Stamp with SYSUTCDATETIME() instead of SYSDATETIME()")}
+              </div>
+            </div>
+
+            {/* Upsert */}
+            {mode === "UPSERT" && (
+              <div className="bg-card border border-border/40 shadow-sm rounded-2xl p-6 space-y-6">
+                <div className="space-y-1">
+                  <h4 className="text-sm font-bold uppercase tracking-wider text-muted-foreground">MERGE Behaviour</h4>
+                  <p className="text-xs text-muted-foreground/80">Choose the columns that identify a row and what happens on a match.</p>
+                </div>
+
+                <div className="space-y-2">
+                  <Label className="text-xs font-semibold text-foreground/80">Match Columns</Label>
+                  <div className="flex flex-wrap gap-2">
+                    {availableColumns.map((c) => {
+                      const matchColumns = (form.watch("matchColumns") as string[]) ?? [];
+                      return (
+                        <label key={c} className="flex items-center gap-2 px-3 py-1.5 rounded-lg border border-border/40 bg-muted/20 cursor-pointer hover:bg-muted/40 transition-colors">
+                          <Checkbox
+                            checked={matchColumns.includes(c)}
+                            onCheckedChange={(v) =>
+                              form.setValue(
+                                "matchColumns",
+                                v ? [...matchColumns, c] : matchColumns.filter((m) => m !== c),
+                              )
+                            }
+                          />
+                          <span className="text-sm font-mono">{c}</span>
+                        </label>
+                      );
+                    })}
+                  </div>
+                  <p className="text-xs text-muted-foreground">Leave empty to match on the primary key.</p>
+                </div>
+
+                <div className="flex flex-col gap-3">
+                  {renderToggleOption("updateWhenMatched", "Update When Matched", "Update existing rows with the incoming values")}
+                  {renderToggleOption("insertWhenNotMatched", "Insert When Not Matched", "Insert rows that do not exist yet")}
+                  {renderToggleOption("outputAction", "Output Action", "Return $action (INSERT/UPDATE) as MergeAction")}
+                </div>
+              </div>
+            )}
+
+            {/* Soft Delete */}
+            {mode === "SOFT_DELETE" && (
+              <div className="bg-card border border-border/40 shadow-sm rounded-2xl p-6 space-y-6">
+                <div className="space-y-1">
+                  <h4 className="text-sm font-bold uppercase tracking-wider text-muted-foreground">Soft Delete Columns</h4>
+                  <p className="text-xs text-muted-foreground/80">At least one of the flag or timestamp columns must exist on the table.</p>
+                </div>
+
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-5">
+                  {renderTextOption("isDeletedColumn", "Deleted Flag Column", { hint: missingColumnHint("isDeletedColumn") })}
+                  {renderTextOption("deletedAtColumn", "Deleted At Column", { hint: missingColumnHint("deletedAtColumn") })}
+                  {renderTextOption("deletedByColumn", "Deleted By Column", { placeholder: "Optional", hint: missingColumnHint("deletedByColumn") })}
+                </div>
+
+                {renderToggleOption("generateRestore", "Generate Restore", "Adds @Restore = 1 to undo a soft delete")}
+              </div>
+            )}
+
+            {/* Bulk TVP */}
+            {mode === "BULK_TVP" && (
+              <div className="bg-card border border-border/40 shadow-sm rounded-2xl p-6 space-y-6">
+                <div className="space-y-1">
+                  <h4 className="text-sm font-bold uppercase tracking-wider text-muted-foreground">Bulk Operations</h4>
+                  <p className="text-xs text-muted-foreground/80">Rows are passed in as a READONLY table-valued parameter.</p>
+                </div>
+
+                <div className="flex flex-col gap-3">
+                  {renderToggleOption("generateTableType", "Create Table Type", "Generate the CREATE TYPE ... AS TABLE script to run before the procedure")}
+                  {renderToggleOption("generateInsert", "Bulk Insert", "Insert rows that do not exist yet")}
+                  {renderToggleOption("generateUpdate", "Bulk Update", "Update existing rows matched on the primary key")}
+                </div>
+              </div>
+            )}
+
+            {/* Audit */}
+            {mode === "AUDIT" && (
+              <div className="bg-card border border-border/40 shadow-sm rounded-2xl p-6 space-y-6">
+                <div className="space-y-1">
+                  <h4 className="text-sm font-bold uppercase tracking-wider text-muted-foreground">Audit Columns</h4>
+                  <p className="text-xs text-muted-foreground/80">Stamped automatically on create and update; leave blank to skip one.</p>
+                </div>
+
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-5">
+                  {renderTextOption("createdByColumn", "Created By", { hint: missingColumnHint("createdByColumn") })}
+                  {renderTextOption("createdAtColumn", "Created At", { hint: missingColumnHint("createdAtColumn") })}
+                  {renderTextOption("modifiedByColumn", "Modified By", { hint: missingColumnHint("modifiedByColumn") })}
+                  {renderTextOption("modifiedAtColumn", "Modified At", { hint: missingColumnHint("modifiedAtColumn") })}
+                </div>
+              </div>
+            )}
+          </div>
         )}
 
         <div className="pt-6 flex justify-between items-center border-t border-border/40">
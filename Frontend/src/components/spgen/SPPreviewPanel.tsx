@@ -2,6 +2,9 @@ import { lazy } from "react";
 import { Skeleton } from "@/components/ui/skeletons";
 
 const MonacoEditor = lazy(() => import("@monaco-editor/react"));
+const MonacoDiffEditor = lazy(() =>
+  import("@monaco-editor/react").then((m) => ({ default: m.DiffEditor })),
+);
 
 const SKELETON_WIDTHS = [65, 82, 45, 78, 56, 90, 40, 70, 85, 50, 75, 60];
 
@@ -9,10 +12,16 @@ export default function SPPreviewPane({
   sqlCode,
   onChange,
   isLoading = false,
+  originalCode,
+  language = "sql",
 }: {
   sqlCode: string;
   onChange: (value: string) => void;
   isLoading?: boolean;
+  /** Live definition to compare against; shows a read-only diff instead of the editor when set */
+  originalCode?: string;
+  /** Monaco language id for the generated dialect */
+  language?: string;
 }) {
   return (
     <div className="border border-border/40 rounded-2xl overflow-hidden h-full bg-[#1e1e1e] shadow-inner">
@@ -26,10 +35,27 @@ export default function SPPreviewPane({
             />
           ))}
         </div>
+      ) : originalCode !== undefined ? (
+        <MonacoDiffEditor
+          height="100%"
+          language={language}
+          theme="vs-dark"
+          original={originalCode}
+          modified={sqlCode}
+          options={{
+            readOnly: true,
+            renderSideBySide: true,
+            minimap: { enabled: false },
+            fontSize: 13,
+            fontFamily: "'JetBrains Mono', 'Fira Code', monospace",
+            scrollBeyondLastLine: false,
+            lineHeight: 21,
+          }}
+        />
       ) : (
         <MonacoEditor
           height="100%"
-          defaultLanguage="sql"
+          language={language}
           theme="vs-dark"
           value={sqlCode}
           onChange={(v) => onChange(v || "")}
@@ -2,8 +2,9 @@
 
 import { Card } from "../ui/card";
 import { cn } from "../../lib/utils";
+import { SP_TYPE_INFO } from "./spConfigDefaults";
 
-export type SPType = "CUD" | "SELECT";
+export type SPType = "CUD" | "SELECT" | "UPSERT" | "SOFT_DELETE" | "BULK_TVP" | "AUDIT";
 
 export default function SPTypeCard({
   type,
@@ -27,11 +28,9 @@ export default function SPTypeCard({
           selected ? "ring-2 ring-primary bg-accent" : "hover:bg-accent/50",
         )}
       >
-        <div className="text-lg font-semibold">{type}</div>
+        <div className="text-lg font-semibold">{SP_TYPE_INFO[type].title}</div>
         <div className="text-sm text-muted-foreground">
-          {type === "CUD"
-            ? "Generate Insert, Update, Delete procedures"
-            : "Generate SELECT procedure with filtering & paging"}
+          {SP_TYPE_INFO[type].description}
         </div>
       </Card>
     </button>
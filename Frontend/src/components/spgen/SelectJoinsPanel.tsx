@@ -0,0 +1,336 @@
+import { useMemo } from "react";
+import type { UseFormReturn } from "react-hook-form";
+import { Calculator, Link2, Loader2, Trash2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useApi, queryKeys } from "@/hooks/useApi";
+import { useProject } from "@/hooks/useProject";
+import { isJoinableEdge } from "@/components/er-diagram/erJoinQuery";
+import type { TableSchema } from "@/components/database/TableSchemaViewer";
+import type { SPConfigValues } from "@/schema/spBuilderSchema";
+import type { ErDiagramResponse, ErNodeData, TableListItem } from "@/types/er-diagram";
+
+type SelectConfig = Extract<SPConfigValues, { mode: "SELECT" }>;
+type SelectJoin = SelectConfig["joins"][number];
+type OutputColumn = SelectConfig["outputColumns"][number];
+
+/** A relationship of the base table that can become a JOIN */
+interface JoinCandidate {
+  key: string;
+  node: ErNodeData;
+  baseColumn: string;
+  joinColumn: string;
+  relationshipType: "PHYSICAL" | "LOGICAL";
+}
+
+/** Base table alias used by the backend renderer once joins are present */
+const BASE_ALIAS = "t";
+
+/** Short alias from the capitals in the table name (OrderItems → oi), unique among the joins */
+function suggestAlias(tableName: string, used: string[]): string {
+  const capitals = tableName.match(/[A-Z]/g)?.join("") ?? "";
+  const base = (capitals || tableName.replace(/[^A-Za-z]/g, "").charAt(0) || "j").toLowerCase();
+  const taken = new Set([BASE_ALIAS, ...used.map((a) => a.toLowerCase())]);
+  let alias = base;
+  for (let i = 2; taken.has(alias); i++) alias = `${base}${i}`;
+  return alias;
+}
+
+/**
+ * Joins, output columns and computed columns for the SELECT generator.
+ * Only physical FKs and CONFIRMED logical FKs of the selected table are offered as joins.
+ */
+export default function SelectJoinsPanel({
+  form,
+  schema,
+}: {
+  form: UseFormReturn<SPConfigValues>;
+  schema: TableSchema;
+}) {
+  const { selectedProjectId } = useProject();
+  const pid = selectedProjectId ?? 0;
+
+  const { data: tables } = useApi<TableListItem[]>(
+    pid ? `/DatabaseBrowser/projects/${pid}/tables` : "",
+    {
+      queryKey: pid ? Array.from(queryKeys.tables.all(pid)) : [],
+      staleTime: 5 * 60 * 1000,
+    }
+  );
+
+  const baseTable = useMemo(() => {
+    const wantedSchema = (schema.schemaName || "dbo").toLowerCase();
+    return tables?.find(
+      (t) =>
+        t.tableName.toLowerCase() === schema.tableName.toLowerCase() &&
+        (t.schemaName || "dbo").toLowerCase() === wantedSchema
+    );
+  }, [tables, schema.tableName, schema.schemaName]);
+
+  const { data: erData, isLoading } = useApi<ErDiagramResponse>(
+    baseTable ? `/er-diagram/projects/${pid}/neighborhood?tableIds=${baseTable.tableId}&hops=1` : "",
+    {
+      queryKey: baseTable
+        ? Array.from(queryKeys.erDiagram.neighborhood(pid, [baseTable.tableId], 1))
+        : [],
+      enabled: !!baseTable,
+    }
+  );
+
+  const candidates = useMemo<JoinCandidate[]>(() => {
+    if (!erData || !baseTable) return [];
+    const nodesById = new Map(erData.nodes.map((n) => [n.tableId, n]));
+
+    return erData.edges.flatMap((edge) => {
+      if (!isJoinableEdge(edge) || edge.sourceTableId === edge.targetTableId) return [];
+      const isSource = edge.sourceTableId === baseTable.tableId;
+      if (!isSource && edge.targetTableId !== baseTable.tableId) return [];
+
+      const node = nodesById.get(isSource ? edge.targetTableId : edge.sourceTableId);
+      if (!node) return [];
+
+      return [{
+        key: edge.id,
+        node,
+        baseColumn: isSource ? edge.sourceColumnName : edge.targetColumnName,
+        joinColumn: isSource ? edge.targetColumnName : edge.sourceColumnName,
+        relationshipType: edge.relationshipType,
+      }];
+    });
+  }, [erData, baseTable]);
+
+  const joins = (form.watch("joins") as SelectJoin[]) ?? [];
+  const outputColumns = (form.watch("outputColumns") as OutputColumn[]) ?? [];
+  const setJoins = (next: SelectJoin[]) => form.setValue("joins", next, { shouldDirty: true });
+  const setOutputColumns = (next: OutputColumn[]) => form.setValue("outputColumns", next, { shouldDirty: true });
+
+  const toggleJoin = (candidate: JoinCandidate, checked: boolean) => {
+    if (checked) {
+      setJoins([
+        ...joins,
+        {
+          key: candidate.key,
+          tableName: candidate.node.tableName,
+          schemaName: candidate.node.schemaName || "dbo",
+          alias: suggestAlias(candidate.node.tableName, joins.map((j) => j.alias)),
+          joinType: "INNER",
+          relationshipType: candidate.relationshipType,
+          on: [{ baseColumn: candidate.baseColumn, joinColumn: candidate.joinColumn }],
+        },
+      ]);
+      return;
+    }
+    const removed = joins.find((j) => j.key === candidate.key);
+    setJoins(joins.filter((j) => j.key !== candidate.key));
+    if (removed) setOutputColumns(outputColumns.filter((o) => o.kind !== "column" || o.source !== removed.alias));
+  };
+
+  const updateJoin = (key: string, change: Partial<SelectJoin>) => {
+    const current = joins.find((j) => j.key === key);
+    setJoins(joins.map((j) => (j.key === key ? { ...j, ...change } : j)));
+    // Keep picked output columns pointing at the renamed alias
+    if (current && change.alias !== undefined) {
+      setOutputColumns(outputColumns.map((o) =>
+        o.kind === "column" && o.source === current.alias ? { ...o, source: change.alias! } : o
+      ));
+    }
+  };
+
+  const isOutputSelected = (source: string, column: string) =>
+    outputColumns.some((o) => o.kind === "column" && o.source === source && o.column === column);
+
+  const findJoinNode = (join: SelectJoin) =>
+    erData?.nodes.find((n) => n.tableName === join.tableName && (n.schemaName || "dbo") === join.schemaName);
+
+  const toggleOutput = (source: string, column: string, checked: boolean) => {
+    // Joined column types are declared in PostgreSQL RETURNS TABLE; base columns are resolved server-side
+    const join = source ? joins.find((j) => j.alias === source) : undefined;
+    const dataType = (join && findJoinNode(join)?.columns.find((c) => c.columnName === column)?.dataType) || "";
+    setOutputColumns(
+      checked
+        ? [...outputColumns, { kind: "column", source, column, expression: "", alias: "", dataType }]
+        : outputColumns.filter((o) => o.kind !== "column" || o.source !== source || o.column !== column)
+    );
+  };
+
+  const updateOutput = (index: number, change: Partial<OutputColumn>) => {
+    setOutputColumns(outputColumns.map((o, i) => (i === index ? { ...o, ...change } : o)));
+  };
+
+  const columnSources: { source: string; label: string; columns: string[] }[] = [
+    { source: "", label: schema.tableName, columns: schema.columns.map((c) => c.name) },
+    ...joins.map((j) => ({
+      source: j.alias,
+      label: `${j.tableName} (${j.alias})`,
+      columns: findJoinNode(j)?.columns.map((c) => c.columnName) ?? [],
+    })),
+  ];
+
+  return (
+    <div className="space-y-6">
+      {/* Joins */}
+      <div className="bg-card border border-border/40 shadow-sm rounded-2xl p-6 space-y-5">
+        <div className="space-y-1 pb-2 border-b border-border/40">
+          <Label className="text-base font-bold text-foreground flex items-center gap-2">
+            <Link2 className="h-4 w-4 text-primary" />
+            Related Tables
+          </Label>
+          <p className="text-xs text-muted-foreground">
+            Join through physical FKs or confirmed logical FKs of {schema.tableName}. Base table columns are aliased as <code>{BASE_ALIAS}</code>.
+          </p>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground py-4">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading relationships...
+          </div>
+        ) : candidates.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-4 text-center">
+            No physical or confirmed logical FKs found for this table.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {candidates.map((candidate) => {
+              const join = joins.find((j) => j.key === candidate.key);
+              return (
+                <div key={candidate.key} className="grid grid-cols-1 md:grid-cols-[1fr_140px_120px] items-center gap-4 bg-muted/20 p-4 rounded-xl border border-border/40">
+                  <label className="flex items-center gap-3 cursor-pointer group">
+                    <Checkbox checked={!!join} onCheckedChange={(v) => toggleJoin(candidate, Boolean(v))} />
+                    <div className="space-y-1">
+                      <span className="text-sm font-bold block group-hover:text-primary transition-colors">
+                        {candidate.node.schemaName ? `${candidate.node.schemaName}.` : ""}{candidate.node.tableName}
+                      </span>
+                      <span className="text-xs text-muted-foreground font-mono block">
+                        {candidate.baseColumn} → {candidate.joinColumn}
+                      </span>
+                    </div>
+                    <Badge variant="outline" className="ml-auto text-[10px]">
+                      {candidate.relationshipType === "PHYSICAL" ? "Physical FK" : "Logical FK"}
+                    </Badge>
+                  </label>
+                  <Select
+                    value={join?.joinType ?? "INNER"}
+                    disabled={!join}
+                    onValueChange={(v) => updateJoin(candidate.key, { joinType: v as SelectJoin["joinType"] })}
+                  >
+                    <SelectTrigger className="rounded-lg bg-background h-10 font-mono text-sm"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="INNER" className="font-mono">INNER JOIN</SelectItem>
+                      <SelectItem value="LEFT" className="font-mono">LEFT JOIN</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    aria-label={`Alias for ${candidate.node.tableName}`}
+                    className="bg-background h-10 font-mono"
+                    placeholder="Alias"
+                    disabled={!join}
+                    value={join?.alias ?? ""}
+                    onChange={(e) => updateJoin(candidate.key, { alias: e.target.value.trim() })}
+                  />
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {/* Output columns */}
+      <div className="bg-card border border-border/40 shadow-sm rounded-2xl p-6 space-y-5">
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 pb-2 border-b border-border/40">
+          <div className="space-y-1">
+            <Label className="text-base font-bold text-foreground">Output Columns</Label>
+            <p className="text-xs text-muted-foreground">
+              {outputColumns.length === 0
+                ? "Nothing picked: every column of the base table is returned."
+                : "Only the picked columns are returned, in the order they were picked."}
+            </p>
+          </div>
+          <Button
+            type="button" size="sm" variant="secondary" className="h-9 px-4 rounded-lg bg-primary/10 text-primary hover:bg-primary/20 hover:text-primary"
+            onClick={() => setOutputColumns([...outputColumns, { kind: "computed", source: "", column: "", expression: "", alias: "", dataType: "" }])}
+          >
+            <Calculator className="h-4 w-4 mr-1.5" />
+            Add Computed Column
+          </Button>
+        </div>
+
+        <div className="space-y-4">
+          {columnSources.map(({ source, label, columns }) => (
+            <div key={source || "base"} className="space-y-2">
+              <span className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">{label}</span>
+              <div className="flex flex-wrap gap-2">
+                {columns.map((column) => (
+                  <label key={column} className="flex items-center gap-2 px-3 py-1.5 rounded-lg border border-border/40 bg-muted/20 cursor-pointer hover:bg-muted/40 transition-colors">
+                    <Checkbox
+                      checked={isOutputSelected(source, column)}
+                      onCheckedChange={(v) => toggleOutput(source, column, Boolean(v))}
+                    />
+                    <span className="text-sm font-mono">{column}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {outputColumns.length > 0 && (
+          <div className="space-y-2 pt-2">
+            <span className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">Selected</span>
+            {outputColumns.map((output, idx) => {
+              const isComputed = output.kind === "computed";
+              return (
+                <div key={idx} className="grid grid-cols-1 md:grid-cols-[1fr_200px_auto] items-center gap-3">
+                  {isComputed ? (
+                    <Input
+                      aria-label={`Expression ${idx + 1}`}
+                      className="bg-background h-9 font-mono text-sm"
+                      placeholder={`e.g. CONCAT(${BASE_ALIAS}.[FirstName], ' ', ${BASE_ALIAS}.[LastName])`}
+                      value={output.expression}
+                      onChange={(e) => updateOutput(idx, { expression: e.target.value })}
+                    />
+                  ) : (
+                    <span className="text-sm font-mono px-3">
+                      {output.source ? `${output.source}.` : ""}{output.column}
+                    </span>
+                  )}
+                  <Input
+                    aria-label={`Alias ${idx + 1}`}
+                    className="bg-background h-9 font-mono text-sm"
+                    placeholder={isComputed ? "Alias (required)" : "Alias"}
+                    value={output.alias}
+                    onChange={(e) => updateOutput(idx, { alias: e.target.value.trim() })}
+                  />
+                  <Button
+                    type="button" size="icon" variant="ghost"
+                    className="text-muted-foreground hover:text-destructive hover:bg-destructive/10 rounded-lg h-9 w-9"
+                    onClick={() => setOutputColumns(outputColumns.filter((_, i) => i !== idx))}
+                    aria-label={`Remove output column ${idx + 1}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {outputColumns.length === 0 && joins.length > 0 && (
+          <p className="text-xs text-muted-foreground">
+            Pick columns from the joined tables to include them in the result.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,330 @@
+/**
+ * SpConfigMenu — Load, save and version named SP Builder configurations
+ *
+ * A configuration is saved per table; each save of an existing one appends a version,
+ * so earlier option sets can be reloaded from the history.
+ */
+import { useState } from "react";
+import {
+  Bookmark,
+  Check,
+  ChevronDown,
+  History,
+  RefreshCw,
+  Save,
+  SaveAll,
+  Trash2,
+} from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { queryKeys, useApi, useApiMutation } from "@/hooks/useApi";
+import { useAuthorization } from "@/hooks/useAuth";
+import { api } from "@/lib/api";
+import { safeFormatDate } from "@/lib/utils";
+import type {
+  SaveSpConfigRequest,
+  SavedSpConfig,
+  SpConfig,
+  SpConfigListItem,
+  SpConfigVersion,
+} from "@/types/sp-builder";
+
+interface SpConfigMenuProps {
+  projectId: number;
+  schemaName: string;
+  tableName: string;
+  activeConfig?: SpConfig;
+  /** Snapshot of the current options, read at save time */
+  getConfig: () => SavedSpConfig;
+  onLoad: (config: SpConfig) => void;
+  onSaved: (config: SpConfig) => void;
+  onDeleted: () => void;
+  onRegenerate: () => void;
+}
+
+export default function SpConfigMenu({
+  projectId,
+  schemaName,
+  tableName,
+  activeConfig,
+  getConfig,
+  onLoad,
+  onSaved,
+  onDeleted,
+  onRegenerate,
+}: SpConfigMenuProps) {
+  const canCreate = useAuthorization("StoredProcedures:Create");
+  const canUpdate = useAuthorization("StoredProcedures:Update");
+  const canDelete = useAuthorization("StoredProcedures:Delete");
+
+  const [saveMode, setSaveMode] = useState<"new" | "version" | null>(null);
+  const [name, setName] = useState("");
+  const [note, setNote] = useState("");
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+
+  const tableKey = Array.from(queryKeys.spBuilder.tableConfigs(projectId, schemaName, tableName));
+  const invalidateKeys = [Array.from(queryKeys.spBuilder.configs(projectId))];
+
+  const { data: configs = [] } = useApi<SpConfigListItem[]>(
+    `/SpBuilder/projects/${projectId}/configs?schemaName=${encodeURIComponent(schemaName)}&tableName=${encodeURIComponent(tableName)}`,
+    { queryKey: tableKey }
+  );
+
+  const { data: versions = [], isLoading: isLoadingVersions } = useApi<SpConfigVersion[]>(
+    isHistoryOpen && activeConfig ? `/SpBuilder/projects/${projectId}/configs/${activeConfig.configId}/versions` : "",
+    {
+      queryKey: activeConfig ? Array.from(queryKeys.spBuilder.versions(projectId, activeConfig.configId)) : [],
+      enabled: isHistoryOpen && !!activeConfig,
+    }
+  );
+
+  const createMutation = useApiMutation<SpConfig, SaveSpConfigRequest & { projectId: number }>(
+    "/SpBuilder/projects/:projectId/configs",
+    "POST",
+    { successMessage: "Configuration saved", invalidateKeys }
+  );
+
+  const versionMutation = useApiMutation<SpConfig, SaveSpConfigRequest & { projectId: number; configId: number }>(
+    "/SpBuilder/projects/:projectId/configs/:configId/versions",
+    "POST",
+    { successMessage: "New version saved", invalidateKeys }
+  );
+
+  const deleteMutation = useApiMutation<unknown, { projectId: number; configId: number }>(
+    "/SpBuilder/projects/:projectId/configs/:configId",
+    "DELETE",
+    { successMessage: "Configuration deleted", invalidateKeys }
+  );
+
+  const loadConfig = async (configId: number, version?: number) => {
+    try {
+      const config = await api.get<SpConfig>(
+        `/SpBuilder/projects/${projectId}/configs/${configId}${version ? `?version=${version}` : ""}`
+      );
+      onLoad(config);
+      setIsHistoryOpen(false);
+      toast.success(`Loaded ${config.name} (v${config.version})`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to load configuration");
+    }
+  };
+
+  const openSaveDialog = (mode: "new" | "version") => {
+    setName(mode === "version" && activeConfig ? activeConfig.name : "");
+    setNote("");
+    setSaveMode(mode);
+  };
+
+  const handleSave = () => {
+    const trimmed = name.trim();
+    if (!trimmed || !saveMode) return;
+    const request = {
+      projectId,
+      name: trimmed,
+      schemaName,
+      tableName,
+      note: note.trim() || undefined,
+      config: getConfig(),
+    };
+    const onSuccess = (config: SpConfig) => {
+      setSaveMode(null);
+      onSaved(config);
+    };
+
+    if (saveMode === "version" && activeConfig) {
+      versionMutation.mutate({ ...request, configId: activeConfig.configId }, { onSuccess });
+    } else {
+      createMutation.mutate(request, { onSuccess });
+    }
+  };
+
+  const handleDelete = () => {
+    if (!activeConfig) return;
+    if (!window.confirm(`Delete the configuration "${activeConfig.name}" and all its versions?`)) return;
+    deleteMutation.mutate(
+      { projectId, configId: activeConfig.configId },
+      { onSuccess: onDeleted }
+    );
+  };
+
+  const isSaving = createMutation.isPending || versionMutation.isPending;
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" className="gap-1.5 max-w-64">
+            <Bookmark className="h-4 w-4 shrink-0" />
+            <span className="truncate">
+              {activeConfig ? `${activeConfig.name} · v${activeConfig.version}` : "Saved configs"}
+            </span>
+            <ChevronDown className="h-3.5 w-3.5 shrink-0 opacity-60" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-72">
+          <DropdownMenuLabel className="truncate">Saved for {schemaName}.{tableName}</DropdownMenuLabel>
+          {configs.length === 0 ? (
+            <div className="px-2 py-1.5 text-xs text-muted-foreground">
+              No saved configurations yet
+            </div>
+          ) : (
+            configs.map((config) => (
+              <DropdownMenuItem
+                key={config.configId}
+                onSelect={() => loadConfig(config.configId)}
+                className="flex items-start gap-2"
+              >
+                <Check
+                  className={`h-4 w-4 mt-0.5 shrink-0 ${config.configId === activeConfig?.configId ? "opacity-100" : "opacity-0"}`}
+                />
+                <div className="min-w-0 flex-1">
+                  <div className="truncate">{config.name}</div>
+                  <div className="text-[10px] text-muted-foreground truncate">
+                    {config.type} · v{config.currentVersion} · by {config.updatedByName || config.createdByName}
+                  </div>
+                </div>
+              </DropdownMenuItem>
+            ))
+          )}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem disabled={!activeConfig || !canUpdate || isSaving} onSelect={() => openSaveDialog("version")}>
+            <Save className="h-4 w-4" />
+            Save new version...
+          </DropdownMenuItem>
+          <DropdownMenuItem disabled={!canCreate || isSaving} onSelect={() => openSaveDialog("new")}>
+            <SaveAll className="h-4 w-4" />
+            Save as new configuration...
+          </DropdownMenuItem>
+          <DropdownMenuItem disabled={!activeConfig} onSelect={() => setIsHistoryOpen(true)}>
+            <History className="h-4 w-4" />
+            Version history
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            disabled={!activeConfig || !canDelete || deleteMutation.isPending}
+            onSelect={handleDelete}
+            className="text-destructive focus:text-destructive"
+          >
+            <Trash2 className="h-4 w-4" />
+            Delete configuration
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem disabled={!canCreate} onSelect={onRegenerate}>
+            <RefreshCw className="h-4 w-4" />
+            Regenerate all saved...
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={saveMode !== null} onOpenChange={(open) => !open && setSaveMode(null)}>
+        <DialogContent className="sm:max-w-[440px]">
+          <DialogHeader>
+            <DialogTitle>{saveMode === "version" ? "Save new version" : "Save configuration"}</DialogTitle>
+            <DialogDescription>
+              {saveMode === "version"
+                ? `Adds version ${(activeConfig?.currentVersion ?? 0) + 1}; earlier versions stay in the history.`
+                : `Saves the current options for ${schemaName}.${tableName} so they can be reloaded and regenerated later.`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="sp-config-name">Name</Label>
+              <Input
+                id="sp-config-name"
+                value={name}
+                maxLength={100}
+                placeholder="e.g. Orders search"
+                onChange={(e) => setName(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") handleSave();
+                }}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="sp-config-note">Note</Label>
+              <Textarea
+                id="sp-config-note"
+                value={note}
+                maxLength={500}
+                rows={3}
+                placeholder="What changed in this version (optional)"
+                onChange={(e) => setNote(e.target.value)}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSaveMode(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={!name.trim() || isSaving}>
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={isHistoryOpen} onOpenChange={setIsHistoryOpen}>
+        <DialogContent className="sm:max-w-[520px]">
+          <DialogHeader>
+            <DialogTitle>Version history</DialogTitle>
+            <DialogDescription>
+              {activeConfig ? `${activeConfig.name} · ${activeConfig.schemaName}.${activeConfig.tableName}` : ""}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="max-h-80 overflow-y-auto space-y-2">
+            {isLoadingVersions ? (
+              <p className="text-sm text-muted-foreground">Loading versions...</p>
+            ) : (
+              versions.map((version) => (
+                <div
+                  key={version.versionNumber}
+                  className="flex items-start justify-between gap-3 rounded-lg border border-border/40 p-3"
+                >
+                  <div className="min-w-0 space-y-1">
+                    <div className="flex items-center gap-2">
+                      <Badge variant="outline" className="font-mono">v{version.versionNumber}</Badge>
+                      {version.versionNumber === activeConfig?.currentVersion && (
+                        <Badge variant="secondary">Current</Badge>
+                      )}
+                    </div>
+                    {version.note && <p className="text-sm break-words">{version.note}</p>}
+                    <p className="text-xs text-muted-foreground">
+                      {version.createdByName} · {safeFormatDate(version.createdAt)}
+                    </p>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={version.versionNumber === activeConfig?.version}
+                    onClick={() => activeConfig && loadConfig(activeConfig.configId, version.versionNumber)}
+                  >
+                    {version.versionNumber === activeConfig?.version ? "Loaded" : "Load"}
+                  </Button>
+                </div>
+              ))
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
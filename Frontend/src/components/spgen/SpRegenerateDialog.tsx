@@ -0,0 +1,175 @@
+/**
+ * SpRegenerateDialog — Regenerate every saved SP Builder configuration
+ *
+ * Run after a schema resync: each configuration is rebuilt against the current columns,
+ * and the ones that reference dropped columns or tables are reported instead of generated.
+ */
+import { useEffect, useMemo } from "react";
+import { AlertTriangle, CheckCircle2, Download, RefreshCw, XCircle } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useApiMutation } from "@/hooks/useApi";
+import { saveBlob } from "@/lib/api";
+import { SQL_DIALECT_LABELS } from "@/lib/schema-utils";
+import type {
+  RegenerateSpConfigsResponse,
+  SpConfigRegenerationResult,
+  SpConfigRegenerationStatus,
+} from "@/types/sp-builder";
+
+interface SpRegenerateDialogProps {
+  projectId: number;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const STATUS_BADGES: Record<SpConfigRegenerationStatus, { label: string; className: string; icon: typeof CheckCircle2 }> = {
+  Ok: { label: "Up to date", className: "bg-green-500/10 text-green-700 border-green-500/30", icon: CheckCircle2 },
+  Changed: { label: "Columns changed", className: "bg-amber-500/10 text-amber-700 border-amber-500/30", icon: AlertTriangle },
+  Invalid: { label: "Fails validation", className: "bg-destructive/10 text-destructive border-destructive/30", icon: XCircle },
+};
+
+// Invalid first, then changed, so what needs attention is on top
+const STATUS_ORDER: Record<SpConfigRegenerationStatus, number> = { Invalid: 0, Changed: 1, Ok: 2 };
+
+function ColumnChanges({ label, columns }: { label: string; columns: string[] }) {
+  if (columns.length === 0) return null;
+  return (
+    <p className="text-xs">
+      <span className="font-semibold text-muted-foreground">{label}: </span>
+      <span className="font-mono">{columns.join(", ")}</span>
+    </p>
+  );
+}
+
+function ResultRow({ result }: { result: SpConfigRegenerationResult }) {
+  const badge = STATUS_BADGES[result.status];
+  const Icon = badge.icon;
+  return (
+    <div className="rounded-lg border border-border/40 p-3 space-y-2">
+      <div className="flex items-start justify-between gap-3">
+        <div className="min-w-0">
+          <div className="font-medium truncate">{result.name}</div>
+          <div className="text-xs text-muted-foreground truncate">
+            {result.schemaName}.{result.tableName} · {result.type} · v{result.version}
+          </div>
+        </div>
+        <Badge variant="outline" className={`gap-1 shrink-0 ${badge.className}`}>
+          <Icon className="h-3 w-3" />
+          {badge.label}
+        </Badge>
+      </div>
+      <ColumnChanges label="Added" columns={result.addedColumns} />
+      <ColumnChanges label="Removed" columns={result.removedColumns} />
+      <ColumnChanges label="Retyped" columns={result.retypedColumns} />
+      {result.errors.map((error) => (
+        <p key={error} className="text-xs text-destructive">{error}</p>
+      ))}
+      {result.warnings.map((warning) => (
+        <p key={warning} className="text-xs text-muted-foreground">{warning}</p>
+      ))}
+    </div>
+  );
+}
+
+export default function SpRegenerateDialog({ projectId, open, onOpenChange }: SpRegenerateDialogProps) {
+  const regenerateMutation = useApiMutation<
+    RegenerateSpConfigsResponse,
+    { projectId: number; configIds: number[] }
+  >("/SpBuilder/projects/:projectId/configs/regenerate", "POST", {
+    showSuccessToast: false,
+  });
+  const { mutate, reset, data, isPending } = regenerateMutation;
+
+  // Regenerate on open; results are dropped on close so a reopen reflects the latest sync
+  useEffect(() => {
+    if (open) {
+      mutate({ projectId, configIds: [] });
+    } else {
+      reset();
+    }
+  }, [open, projectId, mutate, reset]);
+
+  const results = useMemo(
+    () => [...(data?.results ?? [])].sort((a, b) => STATUS_ORDER[a.status] - STATUS_ORDER[b.status]),
+    [data]
+  );
+  const generated = results.filter((r) => r.storedProcedure);
+  const invalidCount = results.filter((r) => r.status === "Invalid").length;
+  const changedCount = results.filter((r) => r.status === "Changed").length;
+
+  const handleDownload = () => {
+    if (!data || generated.length === 0) return;
+    const separator = data.dialect === "PostgreSql" ? "\n\n" : "\nGO\n\n";
+    const script = generated
+      .map((r) => {
+        const code = [r.tableType?.code, r.storedProcedure?.code].filter(Boolean).join(separator);
+        return `-- ${r.name} (${r.schemaName}.${r.tableName}, v${r.version})\n${code}`;
+      })
+      .join(separator);
+    saveBlob(new Blob([script], { type: "text/sql" }), `regenerated-procedures-${projectId}.sql`);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[640px]">
+        <DialogHeader>
+          <DialogTitle>Regenerate saved configurations</DialogTitle>
+          <DialogDescription>
+            Rebuilds every saved configuration against the current schema. Configurations that
+            reference dropped columns are not generated.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isPending ? (
+          <div className="flex items-center gap-2 py-8 justify-center text-sm text-muted-foreground">
+            <RefreshCw className="h-4 w-4 animate-spin" />
+            Regenerating...
+          </div>
+        ) : results.length === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">
+            {data ? "No saved configurations in this project yet." : "Nothing regenerated."}
+          </p>
+        ) : (
+          <>
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <span>{generated.length} of {results.length} generated</span>
+              {invalidCount > 0 && <Badge variant="outline" className={STATUS_BADGES.Invalid.className}>{invalidCount} failing</Badge>}
+              {changedCount > 0 && <Badge variant="outline" className={STATUS_BADGES.Changed.className}>{changedCount} changed</Badge>}
+              {data && <Badge variant="outline" className="font-mono">{SQL_DIALECT_LABELS[data.dialect]}</Badge>}
+            </div>
+            <div className="max-h-96 overflow-y-auto space-y-2 pr-1">
+              {results.map((result) => (
+                <ResultRow key={result.configId} result={result} />
+              ))}
+            </div>
+          </>
+        )}
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            className="gap-2"
+            disabled={isPending}
+            onClick={() => mutate({ projectId, configIds: [] })}
+          >
+            <RefreshCw className="h-4 w-4" />
+            Run again
+          </Button>
+          <Button className="gap-2" disabled={isPending || generated.length === 0} onClick={handleDownload}>
+            <Download className="h-4 w-4" />
+            Download SQL
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -2,6 +2,7 @@ import { Table2, SlidersHorizontal, Code2, Check, ChevronRight } from "lucide-re
 import { Badge } from "@/components/ui/badge";
 import { cn } from "@/lib/utils";
 import type { SPType } from "./SPTypeCard";
+import { SP_TYPE_INFO } from "./spConfigDefaults";
 import { Card, CardContent } from "../ui/card";
 import { Button } from "../ui/button";
 
@@ -136,7 +137,7 @@ export default function StepperHeader({
                                     : "bg-violet-50 text-violet-700 hover:bg-violet-50 border border-violet-200 dark:bg-violet-900/30 dark:text-violet-400 dark:border-violet-800"
                             )}
                         >
-                            {spType === "CUD" ? "CUD Generator" : "SELECT Generator"}
+                            {SP_TYPE_INFO[spType].title} Generator
                         </Badge>
                     </>
                 )}
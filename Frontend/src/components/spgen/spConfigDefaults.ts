@@ -1,6 +1,27 @@
 import type { SPConfigValues } from "@/schema/spBuilderSchema";
 import type { SPType } from "./SPTypeCard";
 
+export const SP_TYPES: SPType[] = ["CUD", "SELECT", "UPSERT", "SOFT_DELETE", "BULK_TVP", "AUDIT"];
+
+export const SP_TYPE_INFO: Record<SPType, { title: string; description: string }> = {
+  CUD: { title: "CUD", description: "Generate Insert, Update, Delete procedures" },
+  SELECT: { title: "SELECT", description: "Generate SELECT procedure with filtering & paging" },
+  UPSERT: { title: "Upsert", description: "MERGE-based insert or update in one call" },
+  SOFT_DELETE: { title: "Soft Delete", description: "Flag rows via IsDeleted/DeletedAt instead of deleting" },
+  BULK_TVP: { title: "Bulk TVP", description: "Bulk insert/update from a table-valued parameter" },
+  AUDIT: { title: "Audit", description: "Create/Update that stamps CreatedBy/ModifiedAt columns" },
+};
+
+/** Backend SpType enum names for each mode */
+export const SP_TYPE_REQUEST_NAMES: Record<SPType, string> = {
+  CUD: "Cud",
+  SELECT: "Select",
+  UPSERT: "Upsert",
+  SOFT_DELETE: "SoftDelete",
+  BULK_TVP: "BulkTvp",
+  AUDIT: "Audit",
+};
+
 export const CUD_SP_CONFIG_DEFAULTS: Extract<SPConfigValues, { mode: "CUD" }> = {
   mode: "CUD",
   generateCreate: true,
@@ -17,19 +38,85 @@ export const CUD_SP_CONFIG_DEFAULTS: Extract<SPConfigValues, { mode: "CUD" }> =
 export const SELECT_SP_CONFIG_DEFAULTS: Extract<SPConfigValues, { mode: "SELECT" }> = {
   mode: "SELECT",
   includePagination: true,
+  paginationMode: "OFFSET",
+  includeTotalCount: true,
   orderBy: [],
   filters: [],
+  joins: [],
+  outputColumns: [],
+  sortableColumns: [],
+};
+
+export const UPSERT_SP_CONFIG_DEFAULTS: Extract<SPConfigValues, { mode: "UPSERT" }> = {
+  mode: "UPSERT",
+  spPrefix: "usp",
+  includeErrorHandling: true,
+  includeTransaction: true,
+  matchColumns: [],
+  updateWhenMatched: true,
+  insertWhenNotMatched: true,
+  outputAction: false,
+  includeInCreate: {},
+  includeInUpdate: {},
+};
+
+export const SOFT_DELETE_SP_CONFIG_DEFAULTS: Extract<SPConfigValues, { mode: "SOFT_DELETE" }> = {
+  mode: "SOFT_DELETE",
+  spPrefix: "usp",
+  includeErrorHandling: true,
+  includeTransaction: true,
+  isDeletedColumn: "IsDeleted",
+  deletedAtColumn: "DeletedAt",
+  deletedByColumn: "",
+  generateRestore: true,
+};
+
+export const BULK_TVP_SP_CONFIG_DEFAULTS: Extract<SPConfigValues, { mode: "BULK_TVP" }> = {
+  mode: "BULK_TVP",
+  spPrefix: "usp",
+  includeErrorHandling: true,
+  includeTransaction: true,
+  tableTypeName: "",
+  generateTableType: true,
+  generateInsert: true,
+  generateUpdate: true,
+  includeInCreate: {},
+  includeInUpdate: {},
+};
+
+export const AUDIT_SP_CONFIG_DEFAULTS: Extract<SPConfigValues, { mode: "AUDIT" }> = {
+  mode: "AUDIT",
+  spPrefix: "usp",
+  includeErrorHandling: true,
+  includeTransaction: true,
+  actionParamName: "Action",
+  userParamName: "UserId",
+  createdByColumn: "CreatedBy",
+  createdAtColumn: "CreatedAt",
+  modifiedByColumn: "ModifiedBy",
+  modifiedAtColumn: "ModifiedAt",
+  useUtc: true,
+  includeInCreate: {},
+  includeInUpdate: {},
+};
+
+export const getDefaultSpConfig = (type: SPType): SPConfigValues => {
+  switch (type) {
+    case "CUD":
+      return { ...CUD_SP_CONFIG_DEFAULTS, includeInCreate: {}, includeInUpdate: {} };
+    case "SELECT":
+      return { ...SELECT_SP_CONFIG_DEFAULTS, orderBy: [], filters: [], joins: [], outputColumns: [], sortableColumns: [] };
+    case "UPSERT":
+      return { ...UPSERT_SP_CONFIG_DEFAULTS, matchColumns: [], includeInCreate: {}, includeInUpdate: {} };
+    case "SOFT_DELETE":
+      return { ...SOFT_DELETE_SP_CONFIG_DEFAULTS };
+    case "BULK_TVP":
+      return { ...BULK_TVP_SP_CONFIG_DEFAULTS, includeInCreate: {}, includeInUpdate: {} };
+    case "AUDIT":
+      return { ...AUDIT_SP_CONFIG_DEFAULTS, includeInCreate: {}, includeInUpdate: {} };
+  }
 };
 
-export const getDefaultSpConfig = (type: SPType): SPConfigValues =>
-  type === "CUD"
-    ? {
-      ...CUD_SP_CONFIG_DEFAULTS,
-      includeInCreate: {},
-      includeInUpdate: {},
-    }
-    : {
-      ...SELECT_SP_CONFIG_DEFAULTS,
-      orderBy: [],
-      filters: [],
-    };
+/** Modes that generate INSERT/UPDATE statements and use the per-column include maps */
+export const usesColumnIncludes = (type: SPType): boolean =>
+  type === "CUD" || type === "UPSERT" || type === "BULK_TVP" || type === "AUDIT";
@@ -0,0 +1,154 @@
+import type { ColumnSchema, TableSchemaResponse } from "@/hooks/useProject";
+import { getDefaultSchema } from "@/lib/schema-utils";
+import type { SPConfigValues } from "@/schema/spBuilderSchema";
+import type { SavedSpColumn, SavedSpConfig, SpTypeName } from "@/types/sp-builder";
+import type { SPType } from "./SPTypeCard";
+import { SP_TYPE_REQUEST_NAMES } from "./spConfigDefaults";
+
+/** Backend FilterOperator enum names for each operator in the form */
+const FILTER_OPERATOR_NAMES: Record<string, string> = {
+  "=": "Equals",
+  LIKE: "Like",
+  ">": "GreaterThan",
+  "<": "LessThan",
+  IN: "In",
+  BETWEEN: "Between",
+};
+
+/** The schema and table the request targets, with `schema.table` selections split */
+export const resolveSpTarget = (
+  tableSchema: Pick<TableSchemaResponse, "schemaName" | "tableName"> | undefined,
+  selectedTable: string,
+  databaseType?: string,
+): { schemaName: string; tableName: string } => {
+  let schemaName = (tableSchema?.schemaName || "").trim();
+  let tableName = tableSchema?.tableName || selectedTable;
+  if (!schemaName && selectedTable.includes(".")) {
+    const parts = selectedTable.split(".");
+    schemaName = parts[0];
+    tableName = parts.slice(1).join(".");
+  }
+  if (!schemaName) {
+    schemaName = getDefaultSchema(databaseType) || "dbo";
+  }
+  return { schemaName, tableName };
+};
+
+const includeFlags = (values: SPConfigValues, columnName: string) => ({
+  includeInCreate: "includeInCreate" in values ? (values.includeInCreate[columnName] ?? true) : true,
+  includeInUpdate: "includeInUpdate" in values ? (values.includeInUpdate[columnName] ?? true) : true,
+});
+
+/** Request columns for /SpBuilder/generate */
+export const buildSpColumns = (columns: ColumnSchema[], values: SPConfigValues) =>
+  columns.map((col) => ({
+    columnName: col.columnName,
+    dataType: col.dataType,
+    maxLength: col.maxLength,
+    precision: col.precision,
+    scale: col.scale,
+    isNullable: col.isNullable,
+    isPrimaryKey: col.isPrimaryKey,
+    isIdentity: col.isIdentity,
+    ...includeFlags(values, col.columnName),
+    defaultValue: col.defaultValue || "",
+  }));
+
+/** Per-type options for /SpBuilder/generate; only the selected mode's options are set */
+export const buildSpOptions = (values: SPConfigValues) => ({
+  cudOptions: values.mode === "CUD" ? {
+    spPrefix: values.spPrefix || "usp",
+    includeErrorHandling: values.includeErrorHandling ?? true,
+    includeTransaction: values.includeTransaction ?? true,
+    actionParamName: values.actionParamName || "Action",
+    generateCreate: values.generateCreate ?? true,
+    generateUpdate: values.generateUpdate ?? true,
+    generateDelete: values.generateDelete ?? true,
+  } : undefined,
+  selectOptions: values.mode === "SELECT" ? {
+    spPrefix: "usp",
+    filters: values.filters?.map((f) => ({
+      columnName: f.column,
+      operator: FILTER_OPERATOR_NAMES[f.operator] ?? "Between",
+      isOptional: f.optional,
+    })) || [],
+    // The order-by input holds raw comma-separated text until the form is submitted
+    orderByColumns: (values.orderBy || []).flatMap((v) => v.split(",")).map((s) => s.trim()).filter(Boolean),
+    includePagination: values.includePagination ?? true,
+    useKeysetPagination: values.paginationMode === "KEYSET",
+    includeTotalCount: values.includeTotalCount,
+    joins: values.joins.map((j) => ({
+      tableName: j.tableName,
+      schemaName: j.schemaName,
+      alias: j.alias,
+      joinType: j.joinType === "LEFT" ? "Left" : "Inner",
+      on: j.on,
+    })),
+    outputColumns: values.outputColumns.map((o) => ({
+      source: o.kind === "column" ? o.source || null : null,
+      columnName: o.kind === "column" ? o.column : null,
+      expression: o.kind === "computed" ? o.expression : null,
+      alias: o.alias || null,
+      dataType: o.kind === "column" && o.source ? o.dataType || null : null,
+    })),
+    sortableColumns: values.paginationMode === "KEYSET" ? [] : values.sortableColumns,
+  } : undefined,
+  upsertOptions: values.mode === "UPSERT" ? {
+    spPrefix: values.spPrefix || "usp",
+    includeErrorHandling: values.includeErrorHandling,
+    includeTransaction: values.includeTransaction,
+    matchColumns: values.matchColumns,
+    updateWhenMatched: values.updateWhenMatched,
+    insertWhenNotMatched: values.insertWhenNotMatched,
+    outputAction: values.outputAction,
+  } : undefined,
+  softDeleteOptions: values.mode === "SOFT_DELETE" ? {
+    spPrefix: values.spPrefix || "usp",
+    includeErrorHandling: values.includeErrorHandling,
+    includeTransaction: values.includeTransaction,
+    isDeletedColumn: values.isDeletedColumn.trim(),
+    deletedAtColumn: values.deletedAtColumn.trim(),
+    deletedByColumn: values.deletedByColumn.trim() || null,
+    generateRestore: values.generateRestore,
+  } : undefined,
+  bulkTvpOptions: values.mode === "BULK_TVP" ? {
+    spPrefix: values.spPrefix || "usp",
+    includeErrorHandling: values.includeErrorHandling,
+    includeTransaction: values.includeTransaction,
+    tableTypeName: values.tableTypeName.trim() || null,
+    generateTableType: values.generateTableType,
+    generateInsert: values.generateInsert,
+    generateUpdate: values.generateUpdate,
+  } : undefined,
+  auditOptions: values.mode === "AUDIT" ? {
+    spPrefix: values.spPrefix || "usp",
+    includeErrorHandling: values.includeErrorHandling,
+    includeTransaction: values.includeTransaction,
+    actionParamName: values.actionParamName || "Action",
+    userParamName: values.userParamName || "UserId",
+    createdByColumn: values.createdByColumn.trim() || null,
+    createdAtColumn: values.createdAtColumn.trim() || null,
+    modifiedByColumn: values.modifiedByColumn.trim() || null,
+    modifiedAtColumn: values.modifiedAtColumn.trim() || null,
+    useUtc: values.useUtc,
+  } : undefined,
+});
+
+/**
+ * A saved configuration: the generate options, the column snapshot they were built
+ * against (so a later regeneration can report drift) and the raw form values.
+ */
+export const buildSavedSpConfig = (columns: ColumnSchema[], values: SPConfigValues): SavedSpConfig => ({
+  type: SP_TYPE_REQUEST_NAMES[values.mode] as SpTypeName,
+  columns: columns.map<SavedSpColumn>((col) => ({
+    columnName: col.columnName,
+    dataType: col.dataType,
+    ...includeFlags(values, col.columnName),
+  })),
+  ...buildSpOptions(values),
+  editorState: values,
+});
+
+/** SP Builder mode for a backend SpType name */
+export const spTypeFromRequestName = (name: string): SPType | undefined =>
+  (Object.keys(SP_TYPE_REQUEST_NAMES) as SPType[]).find((type) => SP_TYPE_REQUEST_NAMES[type] === name);
@@ -210,14 +210,46 @@ export const queryKeys = {
     grouped: () => ["permissions", "grouped"] as const,
   },
   erDiagram: {
-    neighborhood: (projectId: number, tableId: number, hops?: number) =>
-      hops == null
-        ? (["er-diagram", projectId, tableId] as const)
-        : (["er-diagram", projectId, tableId, hops] as const),
+    all: (projectId: number) => ["er-diagram", projectId] as const,
+    neighborhood: (projectId: number, tableIds: number[], hops: number) =>
+      ["er-diagram", projectId, "neighborhood", tableIds.join(","), hops] as const,
+    joinPath: (projectId: number, fromTableId: number, toTableId: number) =>
+      ["er-diagram", projectId, "join-path", fromTableId, toTableId] as const,
+    views: (projectId: number) => ["er-diagram", projectId, "views"] as const,
+    view: (projectId: number, viewId: number) =>
+      ["er-diagram", projectId, "views", viewId] as const,
+  },
+  spBuilder: {
+    configs: (projectId: number) => ["sp-builder", projectId, "configs"] as const,
+    tableConfigs: (projectId: number, schemaName: string, tableName: string) =>
+      ["sp-builder", projectId, "configs", "table", schemaName, tableName] as const,
+    versions: (projectId: number, configId: number) =>
+      ["sp-builder", projectId, "configs", configId, "versions"] as const,
+  },
+  impact: {
+    decision: (
+      projectId: number | string,
+      entityType: string,
+      entityId: number | string,
+      changeType: string,
+    ) =>
+      [
+        "projects",
+        String(projectId),
+        "impact",
+        entityType,
+        String(entityId),
+        changeType,
+      ] as const,
   },
   logicalFks: {
+    all: (projectId: number) => ["logical-fks", projectId] as const,
     byTable: (projectId: number, tableId: number) =>
       ["logical-fks", projectId, "table", tableId] as const,
+    reviewQueue: (projectId: number) =>
+      ["logical-fks", projectId, "review-queue"] as const,
+    pendingCounts: (projectId: number) =>
+      ["logical-fks", projectId, "pending-counts"] as const,
   },
   snippets: {
     all: () => ["snippets"] as const,
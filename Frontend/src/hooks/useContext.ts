@@ -1,11 +1,27 @@
 import { useCallback } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { useApi, useApiPost, useApiPut, useApiDelete, api } from "./useApi";
+import { downloadApiFile } from "../lib/api";
 import { useProject } from "./useProject";
 import { toast } from "sonner";
 import {
+  ContextExportOptions,
+  ContextGridRow,
+  ContextHistory,
+  ContextReviewDigestResult,
+  ContextCompletenessRules,
+  ContextCompletenessSettings,
+  ContextReviewItem,
+  DEFAULT_COMPLETENESS_THRESHOLDS,
+  DeprecationBoard,
+  DeprecationBoardItem,
+  DeprecationStatus,
   EntityContext,
+  EntityType,
+  QuickSaveResponse,
   SaveContextRequest,
+  SensitivityDecision,
+  SensitivityScanResult,
 } from "../types/context";
 
 // Types
@@ -187,22 +203,71 @@ export function useSaveContext(
   );
 }
 
+/**
+ * Hook to fetch the field-level change history of an entity's context
+ */
+export function useContextHistory(
+  entityType: string,
+  entityId: number,
+  options?: { enabled?: boolean },
+) {
+  const { selectedProjectId, hasProject } = useProject();
+
+  return useApi<ContextHistory[]>(
+    `/projects/${selectedProjectId}/context/${entityType}/${entityId}/history`,
+    {
+      enabled:
+        hasProject &&
+        !!selectedProjectId &&
+        !!entityId &&
+        options?.enabled !== false,
+      staleTime: 30 * 1000,
+    },
+  );
+}
+
+/**
+ * Hook to restore the value a field had before a recorded change
+ */
+export function useRestoreContextField(entityType: string, entityId: number) {
+  const { selectedProjectId } = useProject();
+
+  return useApiPost<EntityContext, { historyId: number }>(
+    `/projects/${selectedProjectId}/context/${entityType}/${entityId}/history/:historyId/restore`,
+    {
+      successMessage: "Previous value restored",
+      invalidateKeys:
+        selectedProjectId != null
+          ? [
+            [
+              "projects",
+              String(selectedProjectId),
+              "context",
+              entityType,
+              String(entityId),
+            ],
+            ["projects", String(selectedProjectId), "context", "dashboard"],
+          ]
+          : [],
+    },
+  );
+}
+
 export function useQuickSaveContext(onSuccess?: (data: EntityContext) => void) {
   const { selectedProjectId } = useProject();
 
   const handleSuccess = useCallback(
-    (data: EntityContext) => {
-      const completeness = calculateCompleteness(data);
+    (data: QuickSaveResponse) => {
       toast.success("Context saved", {
-        description: `Documentation is ${completeness}% complete`,
+        description: `Documentation is ${data.completenessScore}% complete`,
       });
-      onSuccess?.(data);
+      onSuccess?.(data.context);
     },
     [onSuccess],
   );
 
   return useApiPost<
-    EntityContext,
+    QuickSaveResponse,
     {
       entityType: string;
       entityId: number;
@@ -232,17 +297,6 @@ export function useQuickSaveContext(onSuccess?: (data: EntityContext) => void) {
   );
 }
 
-// Helper function
-function calculateCompleteness(context: EntityContext): number {
-  const fields = [
-    context.purpose,
-    context.businessImpact,
-    context.businessDomain,
-  ];
-  const filled = fields.filter((f) => f && f.trim().length > 0).length;
-  return Math.round((filled / fields.length) * 100);
-}
-
 /**
  * Hook to fetch context suggestions
  */
@@ -320,6 +374,218 @@ export function useStaleEntities() {
   });
 }
 
+/**
+ * Hook to fetch the stale-context review queue, most urgent first
+ */
+export function useContextReviewQueue() {
+  const { selectedProjectId, hasProject } = useProject();
+
+  return useApi<ContextReviewItem[]>(
+    `/projects/${selectedProjectId}/context/review-queue`,
+    {
+      enabled: hasProject && !!selectedProjectId,
+      staleTime: 30 * 1000,
+    },
+  );
+}
+
+const reviewQueueKeys = (projectId: number | null | undefined) =>
+  projectId != null
+    ? [
+      ["projects", String(projectId), "context", "review-queue"],
+      ["projects", String(projectId), "context", "statistics"],
+    ]
+    : [];
+
+/**
+ * Hook to confirm an entity's context is still accurate without editing it
+ */
+export function useConfirmContextAccurate() {
+  const { selectedProjectId } = useProject();
+
+  return useApiPost<unknown, { entityType: EntityType; entityId: number }>(
+    `/projects/${selectedProjectId}/context/:entityType/:entityId/review/confirm`,
+    { showSuccessToast: false, invalidateKeys: reviewQueueKeys(selectedProjectId) },
+  );
+}
+
+/**
+ * Hook to snooze an entity out of the review queue for a number of days
+ */
+export function useSnoozeContextReview() {
+  const { selectedProjectId } = useProject();
+
+  return useApiPost<
+    { snoozedUntil: string },
+    { entityType: EntityType; entityId: number; days: number }
+  >(
+    `/projects/${selectedProjectId}/context/:entityType/:entityId/review/snooze`,
+    { showSuccessToast: false, invalidateKeys: reviewQueueKeys(selectedProjectId) },
+  );
+}
+
+/**
+ * Hook to send each owner of a stale entity a digest notification
+ */
+export function useSendReviewDigest() {
+  const { selectedProjectId } = useProject();
+
+  return useApiPost<ContextReviewDigestResult, void>(
+    `/projects/${selectedProjectId}/context/review-queue/notify`,
+    { showSuccessToast: false },
+  );
+}
+
+/**
+ * Hook to scan the project's columns for proposed sensitivity tags
+ */
+export function useSensitivityProposals() {
+  const { selectedProjectId, hasProject } = useProject();
+
+  return useApi<SensitivityScanResult>(
+    `/projects/${selectedProjectId}/context/sensitivity/proposals`,
+    {
+      enabled: hasProject && !!selectedProjectId,
+      staleTime: 60 * 1000,
+    },
+  );
+}
+
+// Accepted tags change column context, so the grid and coverage widgets refetch too
+const sensitivityKeys = (projectId: number | null | undefined) =>
+  projectId != null
+    ? [
+      ["projects", String(projectId), "context", "sensitivity"],
+      ["projects", String(projectId), "context", "grid"],
+      ["projects", String(projectId), "context", "statistics"],
+      ["projects", String(projectId), "context", "dashboard"],
+    ]
+    : [];
+
+/**
+ * Hook to save accepted sensitivity proposals as column context
+ */
+export function useAcceptSensitivityProposals() {
+  const { selectedProjectId } = useProject();
+
+  return useApiPost<BulkImportResult[], { decisions: SensitivityDecision[] }>(
+    `/projects/${selectedProjectId}/context/sensitivity/proposals/accept`,
+    { showSuccessToast: false, invalidateKeys: sensitivityKeys(selectedProjectId) },
+  );
+}
+
+/**
+ * Hook to reject sensitivity proposals so they are not proposed again
+ */
+export function useRejectSensitivityProposals() {
+  const { selectedProjectId } = useProject();
+
+  return useApiPost<{ rejected: number }, { decisions: SensitivityDecision[] }>(
+    `/projects/${selectedProjectId}/context/sensitivity/proposals/reject`,
+    {
+      showSuccessToast: false,
+      invalidateKeys:
+        selectedProjectId != null
+          ? [["projects", String(selectedProjectId), "context", "sensitivity"]]
+          : [],
+    },
+  );
+}
+
+/**
+ * Hook to fetch the completeness rules in effect for a project (defaults to the selected one)
+ */
+export function useCompletenessRules(projectId?: number) {
+  const { selectedProjectId } = useProject();
+  const pid = projectId ?? selectedProjectId;
+
+  const query = useApi<ContextCompletenessSettings>(
+    `/projects/${pid}/context/completeness-rules`,
+    {
+      queryKey: ["projects", String(pid), "context", "completeness-rules"],
+      enabled: !!pid,
+      staleTime: 10 * 60 * 1000, // 10 minutes
+    },
+  );
+
+  return {
+    ...query,
+    thresholds: query.data?.rules ?? DEFAULT_COMPLETENESS_THRESHOLDS,
+  };
+}
+
+// Scores, coverage and dashboards are all derived from the rules
+const completenessRuleKeys = (projectId: number) => [
+  ["projects", String(projectId), "context", "completeness-rules"],
+  ["projects", String(projectId), "context", "statistics"],
+  ["projects", String(projectId), "context", "dashboard"],
+  ["projects", String(projectId), "context", "grid"],
+];
+
+/**
+ * Hook to save a project's completeness rules
+ */
+export function useSaveCompletenessRules(projectId: number) {
+  return useApiPut<ContextCompletenessSettings, ContextCompletenessRules>(
+    `/projects/${projectId}/context/completeness-rules`,
+    {
+      successMessage: "Completeness rules saved",
+      invalidateKeys: completenessRuleKeys(projectId),
+    },
+  );
+}
+
+/**
+ * Hook to drop a project's completeness rules and go back to the built-in ones
+ */
+export function useResetCompletenessRules(projectId: number) {
+  return useApiDelete<ContextCompletenessSettings, void>(
+    `/projects/${projectId}/context/completeness-rules`,
+    {
+      successMessage: "Completeness rules reset to defaults",
+      invalidateKeys: completenessRuleKeys(projectId),
+    },
+  );
+}
+
+/**
+ * Hook to fetch the deprecation board: deprecated entities with their remaining references
+ */
+export function useDeprecationBoard() {
+  const { selectedProjectId, hasProject } = useProject();
+
+  return useApi<DeprecationBoard>(
+    `/projects/${selectedProjectId}/context/deprecations`,
+    {
+      enabled: hasProject && !!selectedProjectId,
+      staleTime: 60 * 1000,
+    },
+  );
+}
+
+/**
+ * Hook to move a deprecated entity to another lifecycle stage or change its removal date
+ */
+export function useUpdateDeprecation() {
+  const { selectedProjectId } = useProject();
+
+  return useApiPut<
+    DeprecationBoardItem,
+    {
+      entityType: EntityType;
+      entityId: number;
+      status: DeprecationStatus;
+      targetRemovalDate?: string | null;
+    }
+  >(`/projects/${selectedProjectId}/context/:entityType/:entityId/deprecation`, {
+    showSuccessToast: false,
+    invalidateKeys:
+      selectedProjectId != null
+        ? [["projects", String(selectedProjectId), "context", "deprecations"]]
+        : [],
+  });
+}
+
 /**
  * Hook to fetch critical undocumented entities
  */
@@ -454,6 +720,7 @@ export function useBulkImportContext(
     Array<{
       entityType: string;
       entityId: number;
+      entityName: string;
       context: ContextData;
     }>
   >(`/projects/${selectedProjectId}/context/bulk-import`, {
@@ -477,19 +744,95 @@ export function useBulkImportContext(
 }
 
 /**
- * Hook to export context data
+ * Hook to fetch entities with their full context for the bulk editor grid
  */
-export function useExportContext() {
+export function useContextGrid(
+  entityTypes: EntityType[],
+  options?: { undocumentedOnly?: boolean; limit?: number; enabled?: boolean },
+) {
   const { selectedProjectId, hasProject } = useProject();
+  const undocumentedOnly = options?.undocumentedOnly ?? false;
+  const limit = options?.limit;
 
-  return useApi<{
-    format: "json" | "csv" | "xlsx";
-    data: any[];
-    downloadUrl?: string;
-  }>(`/projects/${selectedProjectId}/context/export`, {
-    enabled: false, // Only fetch when explicitly triggered
-    staleTime: 0, // Always fresh for exports
-    retry: 1,
+  const searchParams = new URLSearchParams();
+  entityTypes.forEach((type) => searchParams.append("type", type));
+  if (undocumentedOnly) searchParams.append("undocumentedOnly", "true");
+  if (limit) searchParams.append("limit", String(limit));
+
+  const query = searchParams.toString();
+
+  return useApi<ContextGridRow[]>(
+    `/projects/${selectedProjectId}/context/grid${query ? `?${query}` : ""}`,
+    {
+      queryKey: [
+        "projects",
+        String(selectedProjectId),
+        "context",
+        "grid",
+        entityTypes.join(","),
+        undocumentedOnly,
+        limit ?? "default",
+      ],
+      enabled: hasProject && !!selectedProjectId && (options?.enabled ?? true),
+      staleTime: 60 * 1000,
+    },
+  );
+}
+
+/**
+ * Hook to download a context export (JSON, CSV or XLSX) with the given filters
+ */
+export function useExportContext() {
+  const { selectedProjectId } = useProject();
+
+  return useMutation({
+    mutationFn: (options: ContextExportOptions) => {
+      const params = new URLSearchParams({ format: options.format });
+      options.entityTypes.forEach((type) => params.append("type", type));
+      options.domains.forEach((domain) => params.append("domain", domain));
+      options.sensitivities.forEach((level) => params.append("sensitivity", level));
+      if (options.minCriticality) params.append("minCriticality", String(options.minCriticality));
+      if (options.minCompleteness !== undefined) params.append("minCompleteness", String(options.minCompleteness));
+      if (options.maxCompleteness !== undefined) params.append("maxCompleteness", String(options.maxCompleteness));
+      if (options.includeExperts) params.append("includeExperts", "true");
+      if (options.includeHistory) params.append("includeHistory", "true");
+
+      const extension = options.format === "csv" && options.includeHistory ? "zip" : options.format;
+      return downloadApiFile(
+        `/projects/${selectedProjectId}/context/export?${params.toString()}`,
+        `context-export.${extension}`,
+      );
+    },
+    onSuccess: (fileName) => {
+      toast.success(`Downloaded ${fileName}`);
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to export context");
+    },
+  });
+}
+
+/**
+ * Hook to download the published data dictionary: a zipped static HTML site of every
+ * table, column and SP that can be shared with people who have no account
+ */
+export function usePublishDataDictionary() {
+  const { selectedProjectId } = useProject();
+
+  return useMutation({
+    mutationFn: () =>
+      downloadApiFile(
+        `/projects/${selectedProjectId}/context/data-dictionary`,
+        "data-dictionary.zip",
+      ),
+    onSuccess: (fileName) => {
+      toast.success(`Downloaded ${fileName}`, {
+        description: "Unzip and open index.html to browse the dictionary.",
+      });
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to publish data dictionary");
+    },
   });
 }
 
@@ -513,15 +856,32 @@ export function useContextStats() {
   });
 }
 
+export type ContextSearchEntityType = "TABLE" | "COLUMN" | "SP" | "FUNCTION" | "VIEW";
+
+export interface ContextSearchResult {
+  entityType: ContextSearchEntityType;
+  entityId: number;
+  entityName: string;
+  /** Owning table for columns */
+  parentName?: string | null;
+  /** Null when the entity has no documentation yet */
+  context: ContextData | null;
+  completenessScore: number;
+  matchScore: number;
+  /** "Label: excerpt" snippets of the context fields that matched */
+  highlights: string[];
+}
+
 /**
- * Hook to search entities by context content
+ * Hook to search entities by name and context content
  */
 export function useContextSearch(
   query: string,
   options?: {
-    entityTypes?: ("TABLE" | "COLUMN" | "SP")[];
+    entityTypes?: ContextSearchEntityType[];
     domains?: string[];
     minCompleteness?: number;
+    limit?: number;
   },
 ) {
   const { selectedProjectId, hasProject } = useProject();
@@ -537,21 +897,14 @@ export function useContextSearch(
   if (options?.minCompleteness !== undefined) {
     searchParams.append("minCompleteness", options.minCompleteness.toString());
   }
+  if (options?.limit !== undefined) {
+    searchParams.append("limit", options.limit.toString());
+  }
 
   const endpoint = `/projects/${selectedProjectId}/context/search${searchParams.toString() ? `?${searchParams.toString()}` : ""
     }`;
 
-  return useApi<
-    Array<{
-      entityType: "TABLE" | "COLUMN" | "SP";
-      entityId: number;
-      entityName: string;
-      context: ContextData;
-      completenessScore: number;
-      matchScore: number;
-      highlights: string[];
-    }>
-  >(endpoint, {
+  return useApi<ContextSearchResult[]>(endpoint, {
     enabled: hasProject && !!selectedProjectId && !!query && query.length >= 2,
     staleTime: 30 * 1000, // 30 seconds
     retry: 1,
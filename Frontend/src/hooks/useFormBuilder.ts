@@ -4,6 +4,7 @@ import { persist } from "zustand/middleware";
 import { nanoid } from "nanoid";
 import { toast } from "sonner";
 import { useApiPost } from "./useApi";
+import type { SqlDialect } from "../lib/schema-utils";
 
 export type InputType =
   | "text"
@@ -101,12 +102,21 @@ export interface FormConfig {
   updatedAt?: string;
 }
 
+export interface GeneratedSpInfo {
+  spName: string;
+  spType: string;
+  code: string;
+  fileName: string;
+  description?: string;
+}
+
 export interface GeneratedCode {
   success: boolean;
   warnings?: string[];
   html: string;
   javaScript: string;
-  storedProcedures?: string[];
+  storedProcedures?: GeneratedSpInfo[];
+  dialect?: SqlDialect; // From the project's database type
   fileName?: string;
   message?: string;
 }
@@ -490,6 +500,7 @@ export function useFormBuilder() {
       if (!store.config) return;
       generateCodeMutation.mutate({
         config: store.config,
+        generateStoredProcedures: true,
       });
     },
 
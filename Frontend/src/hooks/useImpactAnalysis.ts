@@ -0,0 +1,93 @@
+import { useQueries } from "@tanstack/react-query";
+import { api, queryKeys } from "./useApi";
+import { useProject } from "./useProject";
+import type {
+  ImpactChangeSetItem,
+  ImpactChangeType,
+  ImpactDecisionResponse,
+} from "../types/impact-analysis";
+
+export interface ImpactScenarioResult {
+  changeType: ImpactChangeType;
+  data?: ImpactDecisionResponse;
+  isLoading: boolean;
+  error: Error | null;
+}
+
+/**
+ * Runs the impact analysis for one entity under several change types in parallel.
+ * Results come back in the same order as `changeTypes`.
+ */
+export function useImpactScenarios(
+  projectId: string | number,
+  entityType: string,
+  entityId: string | number,
+  changeTypes: ImpactChangeType[],
+): ImpactScenarioResult[] {
+  const { hasProject } = useProject();
+
+  return useQueries({
+    queries: changeTypes.map((changeType) => ({
+      queryKey: Array.from(
+        queryKeys.impact.decision(projectId, entityType, entityId, changeType),
+      ),
+      queryFn: () =>
+        api.get<ImpactDecisionResponse>(
+          `/projects/${projectId}/impact/${entityType}/${entityId}?changeType=${changeType}`,
+        ),
+      enabled: hasProject && !!projectId && !!entityType && !!entityId,
+      staleTime: 60 * 1000,
+    })),
+    combine: (results) =>
+      results.map((result, idx) => ({
+        changeType: changeTypes[idx],
+        data: result.data,
+        isLoading: result.isLoading,
+        error: result.error,
+      })),
+  });
+}
+
+export interface ImpactChangeSetResult {
+  item: ImpactChangeSetItem;
+  data?: ImpactDecisionResponse;
+  isLoading: boolean;
+  error: Error | null;
+}
+
+/**
+ * Runs the impact analysis for every item in a change set in parallel.
+ * Shares cache entries with the impact preview and scenario comparison.
+ */
+export function useImpactChangeSet(
+  projectId: string | number,
+  items: ImpactChangeSetItem[],
+): ImpactChangeSetResult[] {
+  const { hasProject } = useProject();
+
+  return useQueries({
+    queries: items.map((item) => ({
+      queryKey: Array.from(
+        queryKeys.impact.decision(
+          projectId,
+          item.entityType,
+          item.entityId,
+          item.changeType,
+        ),
+      ),
+      queryFn: () =>
+        api.get<ImpactDecisionResponse>(
+          `/projects/${projectId}/impact/${item.entityType}/${item.entityId}?changeType=${item.changeType}`,
+        ),
+      enabled: hasProject && !!projectId,
+      staleTime: 60 * 1000,
+    })),
+    combine: (results) =>
+      results.map((result, idx) => ({
+        item: items[idx],
+        data: result.data,
+        isLoading: result.isLoading,
+        error: result.error,
+      })),
+  });
+}
@@ -12,6 +12,7 @@ import type {
 } from "../types/project";
 import { useMutation } from "@tanstack/react-query";
 import { api } from "@/lib/api";
+import { getDefaultSchema, parseQualifiedName } from "@/lib/schema-utils";
 import { ApiError } from "@/types/api";
 
 // ============================================
@@ -44,6 +45,21 @@ export interface ColumnSchema {
   columnOrder?: number;
 }
 
+export interface StoredProcedureListItem {
+  spId: number;
+  procedureName: string;
+  schemaName?: string;
+}
+
+export interface StoredProcedureDetailResponse {
+  storedProcedureId: number;
+  procedureName: string;
+  schemaName: string;
+  definition?: string;
+  createdDate?: string;
+  modifiedDate?: string;
+}
+
 // Sanitized project for display (no sensitive data)
 export type SafeProject = Project;
 
@@ -91,6 +107,10 @@ export const projectQueryKeys = {
   all: () => ["projects"] as const,
   detail: (id: number) => ["projects", id] as const,
   tables: (id: number) => ["projects", id, "tables"] as const,
+  storedProcedures: (id: number) =>
+    ["projects", id, "stored-procedures"] as const,
+  storedProcedure: (id: number, spId: number) =>
+    ["projects", id, "stored-procedures", spId] as const,
 };
 
 // ============================================
@@ -450,6 +470,55 @@ export function useTableSchema(
   } as const;
 }
 
+// ============================================
+// Hook - useExistingProcedure (synced metadata lookup)
+// ============================================
+export function useExistingProcedure(qualifiedName: string | undefined) {
+  const { selectedProjectId, hasProject, databaseType } = useProject();
+
+  // Generated names come back quoted per dialect
+  const defaultSchema = getDefaultSchema(databaseType) || "dbo";
+  const { schemaName, objectName: procedureName } = parseQualifiedName(qualifiedName ?? "", databaseType);
+
+  // stored-procedures-metadata is the id/name/schema list; /stored-procedures carries every definition
+  const { data: procedures, isLoading: isLoadingList } = useApi<
+    StoredProcedureListItem[]
+  >(`/DatabaseBrowser/projects/${selectedProjectId}/stored-procedures-metadata`, {
+    queryKey: [...projectQueryKeys.storedProcedures(selectedProjectId!)],
+    enabled: hasProject && !!selectedProjectId && !!procedureName,
+    staleTime: 2 * 60 * 1000,
+  });
+
+  const match = useMemo(() => {
+    if (!procedureName || !procedures) return undefined;
+    return procedures.find(
+      (sp) =>
+        sp.procedureName.toLowerCase() === procedureName.toLowerCase() &&
+        (sp.schemaName || defaultSchema).toLowerCase() === schemaName.toLowerCase(),
+    );
+  }, [procedures, procedureName, schemaName, defaultSchema]);
+
+  const { data: detail, isLoading: isLoadingDetail } =
+    useApi<StoredProcedureDetailResponse>(
+      match
+        ? `/DatabaseBrowser/projects/${selectedProjectId}/stored-procedures/${match.spId}`
+        : "",
+      {
+        queryKey: match
+          ? [...projectQueryKeys.storedProcedure(selectedProjectId!, match.spId)]
+          : [],
+        enabled: hasProject && !!match,
+        staleTime: 60 * 1000,
+      },
+    );
+
+  return {
+    procedure: match,
+    definition: detail?.definition,
+    isLoading: isLoadingList || isLoadingDetail,
+  } as const;
+}
+
 // ============================================
 // Helper: Parse dates from API
 // ============================================
@@ -79,6 +79,25 @@ function getDownloadFileName(
   return plainMatch?.[1]?.trim() || fallbackFileName;
 }
 
+/**
+ * Triggers a browser download for an in-memory blob.
+ * Shared by API downloads and files built on the client.
+ */
+export function saveBlob(blob: Blob, fileName: string): void {
+  const objectUrl = URL.createObjectURL(blob);
+
+  try {
+    const link = document.createElement("a");
+    link.href = objectUrl;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+  } finally {
+    URL.revokeObjectURL(objectUrl);
+  }
+}
+
 // ============================================
 // API Client Class
 // ============================================
@@ -295,19 +314,8 @@ class ApiClient {
     }
 
     const blob = await response.blob();
-    const objectUrl = URL.createObjectURL(blob);
     const fileName = getDownloadFileName(response, fallbackFileName);
-
-    try {
-      const link = document.createElement("a");
-      link.href = objectUrl;
-      link.download = fileName;
-      document.body.appendChild(link);
-      link.click();
-      link.remove();
-    } finally {
-      URL.revokeObjectURL(objectUrl);
-    }
+    saveBlob(blob, fileName);
 
     return fileName;
   }
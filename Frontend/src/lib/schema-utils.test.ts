@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest";
+import { parseQualifiedName } from "./schema-utils";
+
+describe("parseQualifiedName", () => {
+  it("splits a bracketed SQL Server name", () => {
+    expect(parseQualifiedName("[dbo].[usp_Orders_Select]", "sqlserver")).toEqual({
+      schemaName: "dbo",
+      objectName: "usp_Orders_Select",
+    });
+  });
+
+  it("splits a double-quoted PostgreSQL name", () => {
+    expect(parseQualifiedName('"sales"."usp_Orders_Select"', "postgresql")).toEqual({
+      schemaName: "sales",
+      objectName: "usp_Orders_Select",
+    });
+  });
+
+  it("keeps dots and escaped quotes inside quoted identifiers", () => {
+    expect(parseQualifiedName('[dbo].[usp_a.b]]c]', "sqlserver").objectName).toBe("usp_a.b]c");
+    expect(parseQualifiedName('"public"."usp_""x"""', "postgresql").objectName).toBe('usp_"x"');
+  });
+
+  it("falls back to the dialect's default schema for unqualified names", () => {
+    expect(parseQualifiedName("usp_Orders_Select", "sqlserver").schemaName).toBe("dbo");
+    expect(parseQualifiedName('"usp_Orders_Select"', "postgresql").schemaName).toBe("public");
+  });
+});
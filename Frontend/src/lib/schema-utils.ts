@@ -14,4 +14,69 @@ export function getDefaultSchema(dbType?: string): string {
     // For other databases (MySQL, Oracle, etc.), return empty string
     // as they may not have a default schema concept or it varies
     return "";
-}
\ No newline at end of file
+}
+
+/**
+ * Splits a schema-qualified name quoted for either dialect, e.g. [dbo].[usp_Orders_Select]
+ * or "public"."usp_Orders_Select". Unqualified names get the database's default schema.
+ */
+export function parseQualifiedName(
+    qualifiedName: string,
+    dbType?: string
+): { schemaName: string; objectName: string } {
+    const parts: string[] = [];
+    let current = "";
+    let closingQuote: string | null = null;
+
+    for (let i = 0; i < qualifiedName.length; i++) {
+        const ch = qualifiedName[i];
+        if (closingQuote) {
+            if (ch !== closingQuote) {
+                current += ch;
+            } else if (qualifiedName[i + 1] === closingQuote) {
+                // Escaped quote inside an identifier: ]] or ""
+                current += ch;
+                i++;
+            } else {
+                closingQuote = null;
+            }
+        } else if (ch === "[") {
+            closingQuote = "]";
+        } else if (ch === '"') {
+            closingQuote = '"';
+        } else if (ch === ".") {
+            parts.push(current.trim());
+            current = "";
+        } else {
+            current += ch;
+        }
+    }
+    parts.push(current.trim());
+
+    const names = parts.filter(Boolean);
+    return {
+        schemaName: names.length > 1 ? names[names.length - 2] : getDefaultSchema(dbType) || "dbo",
+        objectName: names[names.length - 1] ?? "",
+    };
+}
+
+export type SqlDialect = "SqlServer" | "PostgreSql";
+
+export const SQL_DIALECT_LABELS: Record<SqlDialect, string> = {
+    SqlServer: "T-SQL",
+    PostgreSql: "PL/pgSQL",
+};
+
+// Monaco language ids
+export const SQL_DIALECT_LANGUAGES: Record<SqlDialect, string> = {
+    SqlServer: "sql",
+    PostgreSql: "pgsql",
+};
+
+/** Mirrors the server's dialect resolution from a project's databaseType */
+export function getSqlDialect(dbType?: string): SqlDialect {
+    const normalized = (dbType || "").toLowerCase();
+    return normalized === "postgres" || normalized === "postgresql" || normalized === "npgsql"
+        ? "PostgreSql"
+        : "SqlServer";
+}
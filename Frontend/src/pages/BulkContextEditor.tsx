@@ -0,0 +1,352 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import {
+  AlertCircle,
+  LayoutDashboard,
+  Loader2,
+  Save,
+  Search,
+  Table2,
+  Undo2,
+} from "lucide-react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { BulkContextGrid } from "@/components/context/BulkContextGrid";
+import {
+  type GridEdits,
+  buildBulkEntries,
+  countDirtyCells,
+  getRowKey,
+} from "@/components/context/contextGridEdits";
+import { useApi } from "@/hooks/useApi";
+import { useAuthorization } from "@/hooks/useAuth";
+import { useConfirm } from "@/hooks/useConfirm";
+import { useBulkImportContext, useContextGrid } from "@/hooks/useContext";
+import { useProject } from "@/hooks/useProject";
+import type { EntityType } from "@/types/context";
+import type { ProjectUser } from "@/types/project";
+
+const ALL = "all";
+
+const ENTITY_TYPE_FILTERS: Array<{ value: EntityType | typeof ALL; label: string }> = [
+  { value: "COLUMN", label: "Columns" },
+  { value: "TABLE", label: "Tables" },
+  { value: "SP", label: "Stored procedures" },
+  { value: "FUNCTION", label: "Functions" },
+  { value: "VIEW", label: "Views" },
+  { value: ALL, label: "All entities" },
+];
+
+const ROW_LIMIT = 5000;
+
+/**
+ * Bulk context editor.
+ *
+ * Loads every entity of the chosen type with its context into a spreadsheet-style
+ * grid, tracks edited cells locally and saves all dirty rows in one call to the
+ * bulk-import endpoint. Rows that fail to save stay dirty so they can be retried.
+ */
+export default function BulkContextEditorPage() {
+  const { selectedProject, selectedProjectId, hasProject } = useProject();
+  const canEdit = useAuthorization("Contexts:Create");
+  const { confirm } = useConfirm();
+  const queryClient = useQueryClient();
+
+  const [entityType, setEntityType] = useState<EntityType | typeof ALL>("COLUMN");
+  const [undocumentedOnly, setUndocumentedOnly] = useState(false);
+  const [nameFilter, setNameFilter] = useState("");
+  const [edits, setEdits] = useState<GridEdits>(new Map());
+  const [failures, setFailures] = useState<Array<{ entityName: string; error?: string }>>([]);
+
+  const entityTypes = useMemo<EntityType[]>(
+    () => (entityType === ALL ? [] : [entityType]),
+    [entityType],
+  );
+
+  const {
+    data: rows,
+    isLoading,
+    isFetching,
+    error,
+  } = useContextGrid(entityTypes, { undocumentedOnly, limit: ROW_LIMIT });
+
+  const { data: projectMembers } = useApi<ProjectUser[]>(
+    `/projects/${selectedProjectId}/users`,
+    {
+      enabled: hasProject && !!selectedProjectId,
+      staleTime: 10 * 60 * 1000,
+    },
+  );
+
+  const gridRows = useMemo(() => rows ?? [], [rows]);
+  // The name filter only searches loaded rows, so say when some were left out
+  const isTruncated = gridRows.length >= ROW_LIMIT;
+  const users = useMemo(() => projectMembers ?? [], [projectMembers]);
+  const dirtyRowCount = edits.size;
+  const dirtyCellCount = countDirtyCells(edits);
+
+  const bulkImport = useBulkImportContext();
+
+  // Warn before leaving the page with unsaved edits
+  useEffect(() => {
+    if (dirtyRowCount === 0) return;
+    const handleBeforeUnload = (e: BeforeUnloadEvent) => {
+      e.preventDefault();
+    };
+    window.addEventListener("beforeunload", handleBeforeUnload);
+    return () => window.removeEventListener("beforeunload", handleBeforeUnload);
+  }, [dirtyRowCount]);
+
+  const handleEditsChange = useCallback(
+    (update: (prev: GridEdits) => GridEdits) => setEdits(update),
+    [],
+  );
+
+  // Edits only live for loaded rows, so changing the server-side filters discards them
+  const confirmDiscard = async () => {
+    if (dirtyRowCount === 0) return true;
+    return confirm({
+      title: "Discard unsaved changes?",
+      description: `${dirtyCellCount} edited cell${dirtyCellCount === 1 ? "" : "s"} on ${dirtyRowCount} entit${dirtyRowCount === 1 ? "y" : "ies"} will be lost.`,
+      confirmText: "Discard",
+      cancelText: "Keep editing",
+      variant: "destructive",
+    });
+  };
+
+  const handleEntityTypeChange = async (value: string) => {
+    if (!(await confirmDiscard())) return;
+    setEdits(new Map());
+    setFailures([]);
+    setEntityType(value as EntityType | typeof ALL);
+  };
+
+  const handleUndocumentedChange = async (checked: boolean) => {
+    if (!(await confirmDiscard())) return;
+    setEdits(new Map());
+    setFailures([]);
+    setUndocumentedOnly(checked);
+  };
+
+  const handleDiscard = async () => {
+    if (!(await confirmDiscard())) return;
+    setEdits(new Map());
+    setFailures([]);
+  };
+
+  const handleSave = () => {
+    const entries = buildBulkEntries(gridRows, edits);
+    if (entries.length === 0) return;
+
+    bulkImport.mutate(entries, {
+      onSuccess: (results) => {
+        // Results come back in request order; keep the edits of rows that failed
+        const failedKeys = new Set<string>();
+        const failed: Array<{ entityName: string; error?: string }> = [];
+        results.forEach((result, index) => {
+          if (!result.success && entries[index]) {
+            failedKeys.add(getRowKey(entries[index]));
+            failed.push({ entityName: result.entityName, error: result.error });
+          }
+        });
+
+        setEdits((prev) => {
+          const next: GridEdits = new Map();
+          prev.forEach((rowEdits, key) => {
+            if (failedKeys.has(key)) next.set(key, rowEdits);
+          });
+          return next;
+        });
+        setFailures(failed);
+        queryClient.invalidateQueries({
+          queryKey: ["projects", String(selectedProjectId), "context", "grid"],
+        });
+      },
+    });
+  };
+
+  if (!hasProject || !selectedProjectId) {
+    return (
+      <div className="flex flex-col items-center justify-center h-[60vh] p-6 text-center">
+        <h2 className="text-xl font-semibold mb-2">No Project Selected</h2>
+        <p className="text-muted-foreground mb-6">
+          Please select a project to edit context in bulk.
+        </p>
+        <Button asChild variant="outline">
+          <Link to="/projects">Select Project</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col h-[calc(100vh-7rem)] bg-background">
+      {/* Header */}
+      <div className="px-6 py-3 border-b flex items-center justify-between bg-background/95 backdrop-blur z-30 supports-[backdrop-filter]:bg-background/60">
+        <div className="flex items-center gap-4">
+          <Button
+            variant="ghost"
+            size="sm"
+            asChild
+            className="-ml-2 text-muted-foreground"
+          >
+            <Link to="/">
+              <LayoutDashboard className="w-4 h-4 mr-2" />
+              Context Dashboard
+            </Link>
+          </Button>
+          <Separator orientation="vertical" className="h-4" />
+          <div className="flex items-center gap-2">
+            <Table2 className="w-4 h-4 text-primary" />
+            <span className="text-sm font-semibold">Bulk Context Editor</span>
+            <Badge variant="outline" className="font-normal text-xs">
+              {selectedProject?.projectName}
+            </Badge>
+            {isFetching && (
+              <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+            )}
+          </div>
+        </div>
+        {canEdit && (
+          <div className="flex items-center gap-2">
+            {dirtyCellCount > 0 && (
+              <Badge variant="secondary" className="text-xs bg-amber-500/15 text-amber-700 dark:text-amber-400">
+                {dirtyCellCount} unsaved cell{dirtyCellCount === 1 ? "" : "s"}
+              </Badge>
+            )}
+            <Button
+              variant="ghost"
+              size="sm"
+              disabled={dirtyRowCount === 0 || bulkImport.isPending}
+              onClick={handleDiscard}
+            >
+              <Undo2 className="w-4 h-4 mr-2" />
+              Discard
+            </Button>
+            <Button
+              size="sm"
+              disabled={dirtyRowCount === 0 || bulkImport.isPending}
+              onClick={handleSave}
+            >
+              {bulkImport.isPending ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <Save className="w-4 h-4 mr-2" />
+              )}
+              Save {dirtyRowCount > 0 ? `${dirtyRowCount} ` : ""}
+              {dirtyRowCount === 1 ? "Entity" : "Entities"}
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {/* Filters */}
+      <div className="px-6 py-3 border-b flex flex-wrap items-center gap-3">
+        <Select value={entityType} onValueChange={handleEntityTypeChange}>
+          <SelectTrigger className="w-48 h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {ENTITY_TYPE_FILTERS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <div className="relative w-64">
+          <Search className="absolute left-2.5 top-2 h-4 w-4 text-muted-foreground" />
+          <Input
+            value={nameFilter}
+            onChange={(e) => setNameFilter(e.target.value)}
+            placeholder="Filter by name…"
+            className="h-8 pl-8 text-xs"
+          />
+        </div>
+        <div className="flex items-center gap-2">
+          <Switch
+            id="undocumented-only"
+            checked={undocumentedOnly}
+            onCheckedChange={handleUndocumentedChange}
+          />
+          <Label htmlFor="undocumented-only" className="text-xs font-normal">
+            Undocumented only
+          </Label>
+        </div>
+        {!canEdit && (
+          <Badge variant="outline" className="ml-auto text-xs">
+            Read only
+          </Badge>
+        )}
+      </div>
+
+      <div className="flex-1 min-h-0 p-4 flex flex-col gap-3">
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>Failed to load entities: {error.message}</AlertDescription>
+          </Alert>
+        )}
+
+        {isTruncated && (
+          <Alert>
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>
+              Only the first {ROW_LIMIT.toLocaleString()} entities were loaded, and the name filter only searches
+              those. Pick a single entity type or turn on "Undocumented only" to see the rest.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {failures.length > 0 && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>
+              <p className="font-medium">
+                {failures.length} entit{failures.length === 1 ? "y was" : "ies were"} not saved. Their edits are still highlighted.
+              </p>
+              <ul className="mt-1 list-disc pl-4 text-xs">
+                {failures.slice(0, 5).map((failure, index) => (
+                  <li key={`${failure.entityName}-${index}`}>
+                    {failure.entityName}
+                    {failure.error ? `: ${failure.error}` : ""}
+                  </li>
+                ))}
+                {failures.length > 5 && <li>…and {failures.length - 5} more</li>}
+              </ul>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {isLoading ? (
+          <div className="flex flex-1 items-center justify-center text-sm text-muted-foreground">
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            Loading entities…
+          </div>
+        ) : (
+          <BulkContextGrid
+            rows={gridRows}
+            edits={edits}
+            onEditsChange={handleEditsChange}
+            users={users}
+            filter={nameFilter}
+            readOnly={!canEdit}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
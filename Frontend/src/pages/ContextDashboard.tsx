@@ -2,7 +2,8 @@ import React, { useMemo, useState } from "react";
 import { useProject } from "@/hooks/useProject";
 import { useApi } from "@/hooks/useApi";
 import {
-  useBulkImportContext,
+  useCompletenessRules,
+  usePublishDataDictionary,
 } from "@/hooks/useContext";
 import { utcToLocal } from "@/lib/utils";
 import { Link, useSearchParams } from "react-router-dom";
@@ -38,31 +39,32 @@ import {
   ChevronLeft,
   ChevronRight,
   Upload,
+  Download,
   Crown,
   Star,
   LayoutDashboard,
   Calendar,
   ArrowUpRight,
   Sparkles,
+  Table2,
+  BookOpen,
+  Loader2,
+  ClipboardCheck,
+  ShieldCheck,
+  Archive,
 } from "lucide-react";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
-import { ExpertSummary } from "@/types/context";
-import { GridSkeleton } from "@/components/ui/skeletons";
 import {
-  Dialog,
-  DialogContent,
-  DialogDescription,
-  DialogFooter,
-  DialogHeader,
-  DialogTitle,
-} from "@/components/ui/dialog";
-import { Textarea } from "@/components/ui/textarea";
-import { Label } from "@/components/ui/label";
+  CompletenessThresholds,
+  ExpertSummary,
+  getCompletenessColor,
+} from "@/types/context";
+import { GridSkeleton } from "@/components/ui/skeletons";
 import { Separator } from "@/components/ui/separator";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { cn } from "@/lib/utils";
-import type { BulkContextEntry } from "@/types/context";
-import { toast } from "sonner";
+import { ContextImportWizard } from "@/components/context/ContextImportWizard";
+import { ContextExportDialog } from "@/components/context/ContextExportDialog";
 
 // Types
 interface CoverageItem {
@@ -215,7 +217,9 @@ export const ContextDashboard: React.FC = () => {
   const [gapsPage, setGapsPage] = React.useState(1);
   const [topPage, setTopPage] = React.useState(1);
   const [isBulkImportOpen, setIsBulkImportOpen] = useState(false);
-  const [bulkImportJson, setBulkImportJson] = useState("");
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const publishDataDictionary = usePublishDataDictionary();
+  const { thresholds } = useCompletenessRules();
   const pageSize = 10;
   const ALLOWED_TABS = ["coverage", "experts", "gaps", "top"];
   const rawTab = searchParams.get("tab");
@@ -247,14 +251,6 @@ export const ContextDashboard: React.FC = () => {
     showErrorToast: false,
   });
 
-  // Bulk import
-  const bulkImportMutation = useBulkImportContext((results) => {
-    setIsBulkImportOpen(false);
-    setBulkImportJson("");
-    refetch();
-    toast.success("Bulk context import completed successfully");
-  });
-
   React.useEffect(() => {
     if (!isLoadingExperts && activeTab === "experts" && (!expertSummary || expertSummary.length === 0)) {
       const nextParams = new URLSearchParams(searchParams);
@@ -273,25 +269,6 @@ export const ContextDashboard: React.FC = () => {
     setSearchParams(nextParams, { replace: true });
   };
 
-  const handleBulkImport = () => {
-    try {
-      const entries: BulkContextEntry[] = JSON.parse(bulkImportJson);
-      if (!Array.isArray(entries) || entries.length === 0) {
-        toast.error("Invalid JSON format. Expected an array of entries.");
-        return;
-      }
-      const formattedEntries = entries.map((entry) => ({
-        entityType: entry.entityType,
-        entityId: entry.entityId,
-        entityName: entry.entityName,
-        context: entry.context,
-      }));
-      bulkImportMutation.mutate(formattedEntries);
-    } catch (error: any) {
-      toast.error(`Invalid JSON: ${error.message}`);
-    }
-  };
-
   const coverage = dashboard?.coverage || [];
   const topDocumented = dashboard?.topDocumented || [];
   const criticalUndocumented = dashboard?.criticalUndocumented || [];
@@ -386,6 +363,30 @@ export const ContextDashboard: React.FC = () => {
           </Badge>
         </div>
         <div className="flex items-center gap-2">
+          <Button variant="ghost" size="sm" asChild>
+            <Link to="/context/bulk-edit">
+              <Table2 className="w-4 h-4 mr-2" />
+              Bulk Edit
+            </Link>
+          </Button>
+          <Button variant="ghost" size="sm" asChild>
+            <Link to="/context/review">
+              <ClipboardCheck className="w-4 h-4 mr-2" />
+              Review Queue
+            </Link>
+          </Button>
+          <Button variant="ghost" size="sm" asChild>
+            <Link to="/context/sensitivity">
+              <ShieldCheck className="w-4 h-4 mr-2" />
+              Classify Sensitivity
+            </Link>
+          </Button>
+          <Button variant="ghost" size="sm" asChild>
+            <Link to="/context/deprecations">
+              <Archive className="w-4 h-4 mr-2" />
+              Deprecations
+            </Link>
+          </Button>
           <Button
             variant="ghost"
             size="sm"
@@ -394,6 +395,28 @@ export const ContextDashboard: React.FC = () => {
             <Upload className="w-4 h-4 mr-2" />
             Bulk Import
           </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setIsExportOpen(true)}
+          >
+            <Download className="w-4 h-4 mr-2" />
+            Export
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => publishDataDictionary.mutate()}
+            disabled={publishDataDictionary.isPending}
+            title="Download a static HTML site of all documented tables, columns and procedures"
+          >
+            {publishDataDictionary.isPending ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <BookOpen className="w-4 h-4 mr-2" />
+            )}
+            Publish Data Dictionary
+          </Button>
         </div>
       </div>
 
@@ -546,7 +569,9 @@ export const ContextDashboard: React.FC = () => {
                                   <span className="flex items-center gap-1 text-muted-foreground">
                                     <Sparkles className="w-3 h-3 text-amber-500" />
                                     Quality:{" "}
-                                    <span className="font-medium text-foreground">
+                                    <span
+                                      className={`font-medium ${getCompletenessTextClass(item.avgCompleteness, thresholds)}`}
+                                    >
                                       {Math.round(item.avgCompleteness)}%
                                     </span>
                                   </span>
@@ -789,7 +814,9 @@ export const ContextDashboard: React.FC = () => {
                                       value={item.completenessScore}
                                       className="w-16 h-2"
                                     />
-                                    <span className="text-xs font-medium">
+                                    <span
+                                      className={`text-xs font-medium ${getCompletenessTextClass(item.completenessScore, thresholds)}`}
+                                    >
                                       {item.completenessScore}%
                                     </span>
                                   </div>
@@ -949,62 +976,32 @@ export const ContextDashboard: React.FC = () => {
         </div>
       </ScrollArea>
 
-      {/* Bulk Import Dialog */}
-      <Dialog open={isBulkImportOpen} onOpenChange={setIsBulkImportOpen}>
-        <DialogContent className="sm:max-w-[700px] max-h-[85vh] overflow-hidden flex flex-col">
-          <DialogHeader>
-            <DialogTitle>Bulk Import Context</DialogTitle>
-            <DialogDescription>
-              Import multiple context entries via JSON. Existing entries will be
-              updated.
-            </DialogDescription>
-          </DialogHeader>
-
-          <div className="grid gap-4 py-4 flex-1 overflow-hidden">
-            <div className="space-y-2 h-full flex flex-col">
-              <Label htmlFor="bulkJson">JSON Payload</Label>
-              <div className="flex-1 border rounded-md relative">
-                <Textarea
-                  id="bulkJson"
-                  value={bulkImportJson}
-                  onChange={(e) => setBulkImportJson(e.target.value)}
-                  placeholder={`[\n  {\n    "entityType": "TABLE",\n    "entityId": 1,\n    "entityName": "Users",\n    "context": {\n      "businessDomain": "User Management",\n      "description": "Stores user information"\n    }\n  }\n]`}
-                  className="font-mono text-sm resize-none border-0 focus-visible:ring-0 h-[300px] bg-muted/20"
-                />
-              </div>
-              <p className="text-xs text-muted-foreground">
-                Required fields:{" "}
-                <code className="bg-muted px-1 rounded">entityType</code>,{" "}
-                <code className="bg-muted px-1 rounded">entityId</code>,{" "}
-                <code className="bg-muted px-1 rounded">context</code>
-              </p>
-            </div>
-          </div>
-
-          <DialogFooter>
-            <Button
-              variant="outline"
-              onClick={() => {
-                setIsBulkImportOpen(false);
-                setBulkImportJson("");
-              }}
-            >
-              Cancel
-            </Button>
-            <Button
-              onClick={handleBulkImport}
-              disabled={bulkImportMutation.isPending || !bulkImportJson.trim()}
-            >
-              {bulkImportMutation.isPending ? "Importing..." : "Import Context"}
-            </Button>
-          </DialogFooter>
-        </DialogContent>
-      </Dialog>
+      <ContextImportWizard
+        open={isBulkImportOpen}
+        onOpenChange={setIsBulkImportOpen}
+      />
+      <ContextExportDialog
+        open={isExportOpen}
+        onOpenChange={setIsExportOpen}
+      />
     </div>
   );
 };
 
 // Helper functions (kept same logic, polished return types if needed)
+const COMPLETENESS_TEXT_CLASSES: Record<string, string> = {
+  green: "text-green-600",
+  yellow: "text-yellow-600",
+  red: "text-red-600",
+};
+
+function getCompletenessTextClass(
+  score: number,
+  thresholds: CompletenessThresholds,
+): string {
+  return COMPLETENESS_TEXT_CLASSES[getCompletenessColor(score, thresholds)];
+}
+
 function getEntityIcon(entityType: string) {
   switch (entityType) {
     case "TABLE":
@@ -0,0 +1,487 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import {
+  BellRing,
+  CheckCheck,
+  Clock,
+  Keyboard,
+  LayoutDashboard,
+  Loader2,
+  Pencil,
+  RefreshCw,
+  Users,
+} from "lucide-react";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Separator } from "@/components/ui/separator";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useAuthorization } from "@/hooks/useAuth";
+import {
+  useConfirmContextAccurate,
+  useContextReviewQueue,
+  useSendReviewDigest,
+  useSnoozeContextReview,
+} from "@/hooks/useContext";
+import { useProject } from "@/hooks/useProject";
+import type { ContextReviewItem, EntityType } from "@/types/context";
+
+const ALL = "all";
+
+const ENTITY_TYPE_FILTERS: Array<{ value: EntityType | typeof ALL; label: string }> = [
+  { value: ALL, label: "All entities" },
+  { value: "TABLE", label: "Tables" },
+  { value: "COLUMN", label: "Columns" },
+  { value: "SP", label: "Stored procedures" },
+  { value: "FUNCTION", label: "Functions" },
+  { value: "VIEW", label: "Views" },
+];
+
+const SNOOZE_OPTIONS = [7, 30, 90];
+
+const SHORTCUTS = [
+  { keys: "J / ↓", label: "Next" },
+  { keys: "K / ↑", label: "Previous" },
+  { keys: "A", label: "Still accurate" },
+  { keys: "E", label: "Edit" },
+  { keys: "S", label: "Snooze" },
+];
+
+const itemKey = (item: Pick<ContextReviewItem, "entityType" | "entityId">) =>
+  `${item.entityType}:${item.entityId}`;
+
+function isTypingTarget(target: EventTarget | null): boolean {
+  const element = target as HTMLElement | null;
+  if (!element) return false;
+  return (
+    element.isContentEditable ||
+    ["INPUT", "TEXTAREA", "SELECT"].includes(element.tagName) ||
+    element.getAttribute("role") === "combobox"
+  );
+}
+
+/**
+ * Stale-context review queue.
+ *
+ * Lists documented entities whose context has not been updated or confirmed for a
+ * while, most critical and most referenced first. Each one can be confirmed as still
+ * accurate (resetting staleness without an edit), opened for editing, or snoozed.
+ * "Notify owners" sends every entity owner or expert one digest notification;
+ * digests are only sent from here, never on a schedule.
+ */
+export default function ContextReviewQueuePage() {
+  const { selectedProject, selectedProjectId, hasProject } = useProject();
+  const navigate = useNavigate();
+  const canUpdate = useAuthorization("Contexts:Update");
+
+  const [entityType, setEntityType] = useState<EntityType | typeof ALL>(ALL);
+  const [snoozeDays, setSnoozeDays] = useState(SNOOZE_OPTIONS[1]);
+  // Hidden right away so the queue advances before the refetch lands
+  const [handledKeys, setHandledKeys] = useState<Set<string>>(new Set());
+  const [cursor, setCursor] = useState(0);
+  const rowRefs = useRef(new Map<string, HTMLDivElement>());
+
+  const { data: queue, isLoading, isFetching, refetch } = useContextReviewQueue();
+  const confirmMutation = useConfirmContextAccurate();
+  const snoozeMutation = useSnoozeContextReview();
+  const digestMutation = useSendReviewDigest();
+
+  const visibleItems = useMemo(
+    () =>
+      (queue ?? []).filter(
+        (item) =>
+          !handledKeys.has(itemKey(item)) &&
+          (entityType === ALL || item.entityType === entityType),
+      ),
+    [queue, handledKeys, entityType],
+  );
+
+  const activeIndex = Math.min(cursor, Math.max(visibleItems.length - 1, 0));
+  const activeItem = visibleItems[activeIndex];
+
+  useEffect(() => {
+    if (!activeItem) return;
+    rowRefs.current.get(itemKey(activeItem))?.scrollIntoView({ block: "nearest" });
+  }, [activeItem]);
+
+  const setHandled = useCallback((key: string, handled: boolean) => {
+    setHandledKeys((prev) => {
+      const next = new Set(prev);
+      if (handled) next.add(key);
+      else next.delete(key);
+      return next;
+    });
+  }, []);
+
+  const confirmAccurate = useCallback(
+    (item: ContextReviewItem) => {
+      const key = itemKey(item);
+      setHandled(key, true);
+      confirmMutation.mutate(
+        { entityType: item.entityType, entityId: item.entityId },
+        {
+          onSuccess: () => toast.success(`Confirmed ${displayName(item)} is still accurate`),
+          onError: () => setHandled(key, false),
+        },
+      );
+    },
+    [confirmMutation, setHandled],
+  );
+
+  const snooze = useCallback(
+    (item: ContextReviewItem) => {
+      const key = itemKey(item);
+      setHandled(key, true);
+      snoozeMutation.mutate(
+        { entityType: item.entityType, entityId: item.entityId, days: snoozeDays },
+        {
+          onSuccess: () =>
+            toast.success(`Snoozed ${displayName(item)} for ${snoozeDays} days`),
+          onError: () => setHandled(key, false),
+        },
+      );
+    },
+    [snoozeMutation, snoozeDays, setHandled],
+  );
+
+  const edit = useCallback(
+    (item: ContextReviewItem) => navigate(getEditRoute(item, selectedProjectId)),
+    [navigate, selectedProjectId],
+  );
+
+  const notifyOwners = () => {
+    digestMutation.mutate(undefined, {
+      onSuccess: (result) => {
+        if (result.staleEntities === 0) {
+          toast.info("Nothing is stale, so no one was notified");
+          return;
+        }
+        toast.success(`Notified ${result.notifiedOwners} owner(s)`, {
+          description:
+            result.entitiesWithoutOwner > 0
+              ? `${result.entitiesWithoutOwner} stale entit${result.entitiesWithoutOwner === 1 ? "y has" : "ies have"} no owner or expert.`
+              : undefined,
+        });
+      },
+    });
+  };
+
+  const handleRefresh = () => {
+    setHandledKeys(new Set());
+    refetch();
+  };
+
+  // ─── Keyboard shortcuts ─────────────────────────────────────────────
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.ctrlKey || event.metaKey || event.altKey) return;
+      if (isTypingTarget(event.target)) return;
+
+      const key = event.key.toLowerCase();
+      if (key === "j" || key === "arrowdown") {
+        event.preventDefault();
+        setCursor(Math.min(activeIndex + 1, visibleItems.length - 1));
+      } else if (key === "k" || key === "arrowup") {
+        event.preventDefault();
+        setCursor(Math.max(activeIndex - 1, 0));
+      } else if (!activeItem || !canUpdate) {
+        return;
+      } else if (key === "a") {
+        event.preventDefault();
+        confirmAccurate(activeItem);
+      } else if (key === "e") {
+        event.preventDefault();
+        edit(activeItem);
+      } else if (key === "s") {
+        event.preventDefault();
+        snooze(activeItem);
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [activeIndex, activeItem, visibleItems.length, canUpdate, confirmAccurate, edit, snooze]);
+
+  if (!hasProject) {
+    return (
+      <div className="flex flex-col items-center justify-center h-[60vh] p-6 text-center">
+        <h2 className="text-xl font-semibold mb-2">No Project Selected</h2>
+        <p className="text-muted-foreground mb-6">
+          Please select a project to review its context.
+        </p>
+        <Button asChild variant="outline">
+          <Link to="/projects">Select Project</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  const remaining = (queue ?? []).filter((i) => !handledKeys.has(itemKey(i))).length;
+
+  return (
+    <div className="flex flex-col h-auto bg-background">
+      {/* Header */}
+      <div className="px-6 py-3 border-b flex items-center justify-between bg-background/95 backdrop-blur z-30 sticky top-0 supports-[backdrop-filter]:bg-background/60">
+        <div className="flex items-center gap-4">
+          <Button
+            variant="ghost"
+            size="sm"
+            asChild
+            className="-ml-2 text-muted-foreground"
+          >
+            <Link to="/">
+              <LayoutDashboard className="w-4 h-4 mr-2" />
+              Context Dashboard
+            </Link>
+          </Button>
+          <Separator orientation="vertical" className="h-4" />
+          <div className="flex items-center gap-2">
+            <Clock className="w-4 h-4 text-primary" />
+            <span className="text-sm font-semibold">Context Review Queue</span>
+            <Badge variant="outline" className="text-[10px] h-5 px-1.5">
+              {queue ? remaining : "…"} STALE
+            </Badge>
+            <Badge variant="outline" className="font-normal text-xs">
+              {selectedProject?.projectName}
+            </Badge>
+            {isFetching && (
+              <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+            )}
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="ghost" size="sm" onClick={handleRefresh}>
+            <RefreshCw className="w-3.5 h-3.5 mr-1.5" />
+            Refresh
+          </Button>
+          {canUpdate && (
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={digestMutation.isPending || remaining === 0}
+              onClick={notifyOwners}
+              title="Send every owner and expert one notification listing their stale entities"
+            >
+              {digestMutation.isPending ? (
+                <Loader2 className="w-3.5 h-3.5 mr-1.5 animate-spin" />
+              ) : (
+                <BellRing className="w-3.5 h-3.5 mr-1.5" />
+              )}
+              Notify Owners
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="px-6 py-3 border-b flex flex-wrap items-center gap-3">
+        <Select
+          value={entityType}
+          onValueChange={(value) => {
+            setEntityType(value as EntityType | typeof ALL);
+            setCursor(0);
+          }}
+        >
+          <SelectTrigger className="w-48 h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {ENTITY_TYPE_FILTERS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <div className="flex items-center gap-2 text-xs text-muted-foreground">
+          Snooze for
+          <Select
+            value={String(snoozeDays)}
+            onValueChange={(value) => setSnoozeDays(Number(value))}
+          >
+            <SelectTrigger className="w-28 h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SNOOZE_OPTIONS.map((days) => (
+                <SelectItem key={days} value={String(days)}>
+                  {days} days
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="ml-auto flex items-center gap-3 text-[11px] text-muted-foreground">
+          <Keyboard className="w-3.5 h-3.5" />
+          {SHORTCUTS.map((s) => (
+            <span key={s.keys}>
+              <kbd className="font-mono px-1 py-0.5 rounded border bg-muted">
+                {s.keys}
+              </kbd>{" "}
+              {s.label}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      {/* Queue */}
+      <div className="flex-1">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-16">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : visibleItems.length === 0 ? (
+          <div className="px-6 py-16 text-center">
+            <CheckCheck className="h-8 w-8 mx-auto mb-3 text-green-500" />
+            <p className="text-sm text-muted-foreground">
+              {remaining === 0
+                ? "All documented context is up to date"
+                : "No stale entities match the current filter"}
+            </p>
+          </div>
+        ) : (
+          <div className="divide-y">
+            {visibleItems.map((item, idx) => {
+              const key = itemKey(item);
+              const isActive = idx === activeIndex;
+              return (
+                <div
+                  key={key}
+                  ref={(el) => {
+                    if (el) rowRefs.current.set(key, el);
+                    else rowRefs.current.delete(key);
+                  }}
+                  onClick={() => setCursor(idx)}
+                  className={cn(
+                    "px-6 py-3 flex items-start gap-4 cursor-default transition-colors",
+                    isActive
+                      ? "bg-primary/5 border-l-2 border-l-primary"
+                      : "border-l-2 border-l-transparent hover:bg-muted/20",
+                  )}
+                >
+                  <div
+                    className="w-10 shrink-0 text-center"
+                    title="Priority: criticality × (references + 1)"
+                  >
+                    <div className="text-lg font-semibold tabular-nums leading-tight">
+                      {item.priorityScore}
+                    </div>
+                    <div className="text-[10px] text-muted-foreground uppercase">
+                      priority
+                    </div>
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2 min-w-0 text-sm">
+                      <Badge variant="secondary" className="text-[10px] h-5 px-1.5 shrink-0">
+                        {item.entityType}
+                      </Badge>
+                      <span className="font-medium truncate">{displayName(item)}</span>
+                      <Badge
+                        variant="outline"
+                        className={cn(
+                          "text-[10px] h-5 px-1.5 shrink-0",
+                          item.criticalityLevel >= 4 &&
+                            "border-red-300 text-red-600 dark:text-red-400",
+                        )}
+                      >
+                        Criticality {item.criticalityLevel}
+                      </Badge>
+                    </div>
+                    {item.purpose && (
+                      <p
+                        className={cn(
+                          "mt-1 text-xs text-muted-foreground",
+                          !isActive && "line-clamp-1",
+                        )}
+                      >
+                        {item.purpose}
+                      </p>
+                    )}
+                    <div className="flex flex-wrap items-center gap-3 mt-1.5 text-[11px] text-muted-foreground">
+                      <span>Not verified for {item.daysSinceVerified} days</span>
+                      <span>•</span>
+                      <span>
+                        {item.referenceCount} reference{item.referenceCount === 1 ? "" : "s"}
+                      </span>
+                      {item.lastReviewedAt && item.lastReviewedByName && (
+                        <>
+                          <span>•</span>
+                          <span>Last confirmed by {item.lastReviewedByName}</span>
+                        </>
+                      )}
+                      <span>•</span>
+                      <span className="flex items-center gap-1">
+                        <Users className="h-3 w-3" />
+                        {item.ownerNames.length > 0 ? (
+                          item.ownerNames.join(", ")
+                        ) : (
+                          <span className="text-amber-600 dark:text-amber-400">No owner or expert</span>
+                        )}
+                      </span>
+                    </div>
+                  </div>
+                  {canUpdate && (
+                    <div className="flex items-center gap-1.5 shrink-0">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 px-2 text-green-600 hover:text-green-700 hover:bg-green-50 dark:hover:bg-green-950/30"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          confirmAccurate(item);
+                        }}
+                      >
+                        <CheckCheck className="h-3.5 w-3.5 mr-1" />
+                        Still accurate
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 px-2"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          edit(item);
+                        }}
+                      >
+                        <Pencil className="h-3.5 w-3.5 mr-1" />
+                        Edit
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 px-2 text-muted-foreground"
+                        title={`Snooze for ${snoozeDays} days`}
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          snooze(item);
+                        }}
+                      >
+                        <Clock className="h-3.5 w-3.5 mr-1" />
+                        Snooze
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function displayName(item: ContextReviewItem): string {
+  return item.parentName ? `${item.parentName}.${item.entityName}` : item.entityName;
+}
+
+function getEditRoute(item: ContextReviewItem, projectId: number | null): string {
+  return `/project/${projectId}/entities/${item.entityType.toLowerCase()}/${item.entityId}/documentation`;
+}
@@ -0,0 +1,449 @@
+import { useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import {
+  AlertTriangle,
+  Archive,
+  ArrowRight,
+  CalendarClock,
+  FileCode,
+  GitBranch,
+  LayoutDashboard,
+  Loader2,
+  RefreshCw,
+} from "lucide-react";
+import { toast } from "sonner";
+import { cn, utcToLocal } from "@/lib/utils";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Separator } from "@/components/ui/separator";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useAuthorization } from "@/hooks/useAuth";
+import { useDeprecationBoard, useUpdateDeprecation } from "@/hooks/useContext";
+import { useProject } from "@/hooks/useProject";
+import {
+  DEPRECATION_STATUSES,
+  type DeprecationBoardItem,
+  type DeprecationStatus,
+} from "@/types/context";
+
+const DEPENDENTS_SHOWN = 5;
+
+const STATUS_ACCENTS: Record<DeprecationStatus, string> = {
+  ANNOUNCED: "border-t-blue-400",
+  MIGRATING: "border-t-amber-400",
+  READY_TO_DROP: "border-t-green-500",
+  DROPPED: "border-t-muted-foreground/40",
+};
+
+const itemKey = (item: Pick<DeprecationBoardItem, "entityType" | "entityId">) =>
+  `${item.entityType}:${item.entityId}`;
+
+/**
+ * Deprecation lifecycle board.
+ *
+ * One column per stage (announced → migrating → ready to drop → dropped). Each card
+ * shows the replacement, the target removal date, the entities that still depend on it
+ * and, for procedures, the Patcher page mappings still pointing at it. Cards that are
+ * past their removal date (or dropped) while still referenced carry a warning.
+ */
+export default function DeprecationBoardPage() {
+  const { selectedProject, selectedProjectId, hasProject } = useProject();
+  const canUpdate = useAuthorization("Contexts:Update");
+
+  const { data: board, isLoading, isFetching, refetch } = useDeprecationBoard();
+  const updateMutation = useUpdateDeprecation();
+  const [pendingKey, setPendingKey] = useState<string | null>(null);
+
+  const columns = useMemo(
+    () =>
+      DEPRECATION_STATUSES.map((status) => ({
+        ...status,
+        items: (board?.items ?? []).filter((item) => item.status === status.value),
+      })),
+    [board],
+  );
+  const warnings = (board?.items ?? []).filter((item) => item.warning);
+
+  const update = (
+    item: DeprecationBoardItem,
+    change: { status?: DeprecationStatus; targetRemovalDate?: string | null },
+  ) => {
+    const key = itemKey(item);
+    setPendingKey(key);
+    updateMutation.mutate(
+      {
+        entityType: item.entityType,
+        entityId: item.entityId,
+        status: change.status ?? item.status,
+        targetRemovalDate:
+          change.targetRemovalDate !== undefined
+            ? change.targetRemovalDate
+            : toDateInput(item.targetRemovalDate) || null,
+      },
+      {
+        onSuccess: (updated) => {
+          if (updated.warning) {
+            toast.warning(`${displayName(updated)}: ${updated.warning}`);
+          } else {
+            toast.success(`Updated ${displayName(updated)}`);
+          }
+        },
+        onSettled: () => setPendingKey(null),
+      },
+    );
+  };
+
+  if (!hasProject) {
+    return (
+      <div className="flex flex-col items-center justify-center h-[60vh] p-6 text-center">
+        <h2 className="text-xl font-semibold mb-2">No Project Selected</h2>
+        <p className="text-muted-foreground mb-6">
+          Please select a project to track its deprecations.
+        </p>
+        <Button asChild variant="outline">
+          <Link to="/projects">Select Project</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col h-auto bg-background">
+      {/* Header */}
+      <div className="px-6 py-3 border-b flex items-center justify-between bg-background/95 backdrop-blur z-30 sticky top-0 supports-[backdrop-filter]:bg-background/60">
+        <div className="flex items-center gap-4">
+          <Button
+            variant="ghost"
+            size="sm"
+            asChild
+            className="-ml-2 text-muted-foreground"
+          >
+            <Link to="/">
+              <LayoutDashboard className="w-4 h-4 mr-2" />
+              Context Dashboard
+            </Link>
+          </Button>
+          <Separator orientation="vertical" className="h-4" />
+          <div className="flex items-center gap-2">
+            <Archive className="w-4 h-4 text-primary" />
+            <span className="text-sm font-semibold">Deprecation Board</span>
+            <Badge variant="outline" className="text-[10px] h-5 px-1.5">
+              {board ? board.items.length : "…"} DEPRECATED
+            </Badge>
+            <Badge variant="outline" className="font-normal text-xs">
+              {selectedProject?.projectName}
+            </Badge>
+            {isFetching && (
+              <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+            )}
+          </div>
+        </div>
+        <Button variant="ghost" size="sm" onClick={() => refetch()}>
+          <RefreshCw className="w-3.5 h-3.5 mr-1.5" />
+          Refresh
+        </Button>
+      </div>
+
+      {warnings.length > 0 && (
+        <div className="px-6 pt-4">
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>
+              {warnings.length} deprecated entit{warnings.length === 1 ? "y is" : "ies are"} still
+              in use past the plan
+            </AlertTitle>
+            <AlertDescription>
+              <ul className="mt-1 space-y-0.5 text-xs">
+                {warnings.map((item) => (
+                  <li key={itemKey(item)}>
+                    <span className="font-medium">{displayName(item)}</span>: {item.warning}
+                  </li>
+                ))}
+              </ul>
+            </AlertDescription>
+          </Alert>
+        </div>
+      )}
+
+      {/* Board */}
+      {isLoading ? (
+        <div className="flex items-center justify-center py-16">
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        </div>
+      ) : !board || board.items.length === 0 ? (
+        <div className="px-6 py-16 text-center">
+          <Archive className="h-8 w-8 mx-auto mb-3 text-muted-foreground" />
+          <p className="text-sm text-muted-foreground">
+            Nothing is deprecated. Mark an entity as deprecated in its context to track it here.
+          </p>
+        </div>
+      ) : (
+        <div className="p-6 grid gap-4 md:grid-cols-2 xl:grid-cols-4 items-start">
+          {columns.map((column) => (
+            <div
+              key={column.value}
+              className={cn(
+                "rounded-lg border border-t-4 bg-muted/20",
+                STATUS_ACCENTS[column.value],
+              )}
+            >
+              <div className="px-3 py-2 flex items-center justify-between border-b">
+                <span className="text-sm font-semibold">{column.label}</span>
+                <Badge variant="secondary" className="text-[10px] h-5 px-1.5">
+                  {column.items.length}
+                </Badge>
+              </div>
+              <div className="p-2 space-y-2">
+                {column.items.length === 0 ? (
+                  <p className="px-1 py-4 text-center text-xs text-muted-foreground">
+                    Nothing here
+                  </p>
+                ) : (
+                  column.items.map((item) => (
+                    <DeprecationCard
+                      key={itemKey(item)}
+                      item={item}
+                      projectId={selectedProjectId}
+                      canUpdate={canUpdate}
+                      isUpdating={pendingKey === itemKey(item)}
+                      onUpdate={(change) => update(item, change)}
+                    />
+                  ))
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface DeprecationCardProps {
+  item: DeprecationBoardItem;
+  projectId: number | null;
+  canUpdate: boolean;
+  isUpdating: boolean;
+  onUpdate: (change: {
+    status?: DeprecationStatus;
+    targetRemovalDate?: string | null;
+  }) => void;
+}
+
+function DeprecationCard({
+  item,
+  projectId,
+  canUpdate,
+  isUpdating,
+  onUpdate,
+}: DeprecationCardProps) {
+  const [showAllDependents, setShowAllDependents] = useState(false);
+  const blockingDependents = item.dependents.filter((d) => !d.isDeprecated).length;
+  const dependents = showAllDependents
+    ? item.dependents
+    : item.dependents.slice(0, DEPENDENTS_SHOWN);
+
+  return (
+    <div
+      className={cn(
+        "rounded-md border bg-background p-3 space-y-2.5 text-sm",
+        item.warning && "border-red-300 dark:border-red-800",
+      )}
+    >
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0">
+          <div className="flex items-center gap-1.5 min-w-0">
+            <Badge variant="secondary" className="text-[10px] h-5 px-1.5 shrink-0">
+              {item.entityType}
+            </Badge>
+            <Link
+              to={`/project/${projectId}/entities/${item.entityType.toLowerCase()}/${item.entityId}/overview`}
+              className="font-medium truncate hover:underline"
+            >
+              {displayName(item)}
+            </Link>
+          </div>
+          {item.replacedBy && (
+            <p className="mt-1 flex items-center gap-1 text-xs text-muted-foreground">
+              <ArrowRight className="h-3 w-3 shrink-0" />
+              Replaced by <span className="font-medium text-foreground">{item.replacedBy}</span>
+            </p>
+          )}
+        </div>
+        {isUpdating && (
+          <Loader2 className="h-3.5 w-3.5 animate-spin text-muted-foreground shrink-0" />
+        )}
+      </div>
+
+      {item.deprecationReason && (
+        <p className="text-xs text-muted-foreground line-clamp-2">
+          {item.deprecationReason}
+        </p>
+      )}
+
+      {item.warning && (
+        <div className="flex items-start gap-1.5 rounded bg-red-50 dark:bg-red-950/30 px-2 py-1.5 text-xs text-red-700 dark:text-red-300">
+          <AlertTriangle className="h-3.5 w-3.5 mt-0.5 shrink-0" />
+          {item.warning}
+        </div>
+      )}
+
+      {/* Lifecycle */}
+      <div className="grid grid-cols-2 gap-2">
+        <Select
+          value={item.status}
+          disabled={!canUpdate || isUpdating}
+          onValueChange={(value) => onUpdate({ status: value as DeprecationStatus })}
+        >
+          <SelectTrigger className="h-7 text-xs" aria-label="Status">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {DEPRECATION_STATUSES.map((status) => (
+              <SelectItem key={status.value} value={status.value}>
+                {status.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <div className="relative">
+          <CalendarClock
+            className={cn(
+              "absolute left-2 top-1/2 -translate-y-1/2 h-3.5 w-3.5 pointer-events-none",
+              item.isOverdue ? "text-red-500" : "text-muted-foreground",
+            )}
+          />
+          <Input
+            type="date"
+            aria-label="Target removal date"
+            title="Target removal date"
+            className={cn("h-7 pl-7 text-xs", item.isOverdue && "text-red-600")}
+            value={toDateInput(item.targetRemovalDate)}
+            disabled={!canUpdate || isUpdating}
+            onChange={(e) => onUpdate({ targetRemovalDate: e.target.value || null })}
+          />
+        </div>
+      </div>
+
+      {/* Dependents */}
+      <div>
+        <div className="flex items-center justify-between text-xs">
+          <span className="flex items-center gap-1 font-medium">
+            <GitBranch className="h-3 w-3" />
+            {blockingDependents} remaining dependent{blockingDependents === 1 ? "" : "s"}
+          </span>
+          <Link
+            to={`/project/${projectId}/impact/${item.entityType}/${item.entityId}`}
+            className="text-muted-foreground hover:text-foreground hover:underline"
+          >
+            Impact
+          </Link>
+        </div>
+        {dependents.length > 0 && (
+          <ul className="mt-1 space-y-0.5">
+            {dependents.map((dependent) => (
+              <li
+                key={`${dependent.entityType}:${dependent.entityId}`}
+                className={cn(
+                  "flex items-center gap-1.5 text-xs",
+                  dependent.isDeprecated && "text-muted-foreground line-through",
+                )}
+                title={
+                  dependent.isDeprecated
+                    ? "Deprecated too"
+                    : dependent.depth > 1
+                      ? `Indirect: ${dependent.depth} hops away, through another dependent`
+                      : dependent.dependencyTypes.join(", ")
+                }
+              >
+                <span className="text-[10px] text-muted-foreground w-12 shrink-0">
+                  {dependent.entityType}
+                </span>
+                <Link
+                  to={`/project/${projectId}/entities/${dependent.entityType.toLowerCase()}/${dependent.entityId}/overview`}
+                  className="truncate hover:underline"
+                >
+                  {dependent.entityName}
+                </Link>
+                {dependent.depth > 1 && (
+                  <span className="text-[10px] text-muted-foreground shrink-0">
+                    indirect
+                  </span>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+        {item.dependents.length > DEPENDENTS_SHOWN && (
+          <button
+            type="button"
+            className="mt-1 text-xs text-primary hover:underline"
+            onClick={() => setShowAllDependents((v) => !v)}
+          >
+            {showAllDependents
+              ? "Show fewer"
+              : `Show ${item.dependents.length - DEPENDENTS_SHOWN} more`}
+          </button>
+        )}
+      </div>
+
+      {/* Page mappings */}
+      {item.entityType === "SP" && (
+        <div>
+          <div className="flex items-center justify-between text-xs">
+            <span className="flex items-center gap-1 font-medium">
+              <FileCode className="h-3 w-3" />
+              {item.pageMappings.length} page mapping{item.pageMappings.length === 1 ? "" : "s"}
+            </span>
+            {item.pageMappings.length > 0 && (
+              <Link
+                to={`/project/${projectId}/patcher`}
+                className="text-muted-foreground hover:text-foreground hover:underline"
+              >
+                Patcher
+              </Link>
+            )}
+          </div>
+          {item.pageMappings.length > 0 && (
+            <ul className="mt-1 space-y-0.5">
+              {item.pageMappings.map((mapping) => (
+                <li key={mapping.mappingId} className="flex items-center gap-1.5 text-xs">
+                  <span className="truncate">
+                    {mapping.domainName}/{mapping.pageName}
+                  </span>
+                  {mapping.status === "candidate" && (
+                    <Badge variant="outline" className="text-[10px] h-4 px-1">
+                      candidate
+                    </Badge>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {item.statusUpdatedAt && (
+        <p className="text-[11px] text-muted-foreground">
+          Stage changed {utcToLocal(item.statusUpdatedAt, "PPP")}
+        </p>
+      )}
+    </div>
+  );
+}
+
+function displayName(item: Pick<DeprecationBoardItem, "entityName" | "parentName">): string {
+  return item.parentName ? `${item.parentName}.${item.entityName}` : item.entityName;
+}
+
+function toDateInput(value?: string): string {
+  return value ? value.slice(0, 10) : "";
+}
@@ -2,12 +2,16 @@
  * ER Diagram Page
  *
  * Interactive schema visualization using React Flow.
- * Search-first workflow: user searches for a table, then sees a 2-hop neighborhood.
+ * Search-first workflow: user searches for one or more tables, then sees their combined neighborhood.
+ * Join-path mode shows the shortest chain of joins between two tables.
  * Physical FKs shown as solid lines, logical FKs as dashed lines.
  * Click a dashed edge to confirm/reject a logical FK suggestion.
+ * Arrangements can be saved as named views and reopened via `?view=<id>`.
+ * `?table=<id>` opens a fresh diagram around one table (used by the command palette).
+ * Shift-drag or Ctrl-click tables to select them and generate a JOIN query.
  */
 import { useState, useCallback, useMemo, useEffect, useRef } from "react";
-import { useParams } from "react-router-dom";
+import { useParams, useSearchParams } from "react-router-dom";
 import {
     ReactFlow,
     Background,
@@ -20,6 +24,7 @@ import {
     type EdgeMouseHandler,
     BackgroundVariant,
     Panel,
+    SelectionMode,
 } from "@xyflow/react";
 import "@xyflow/react/dist/style.css";
 import {
@@ -34,16 +39,32 @@ import {
     Undo2,
     Maximize2,
     Minimize2,
+    Eye,
+    RotateCcw,
+    Route,
+    FileCode2,
+    ArrowLeftRight,
+    X,
 } from "lucide-react";
 import { toast } from "sonner";
 import { api } from "@/lib/api";
 import { utcToLocal } from "@/lib/utils";
 import { queryKeys, useApi, useApiMutation } from "@/hooks/useApi";
 import TableNode, { type TableNodeData } from "@/components/er-diagram/TableNode";
+import TableSearchInput from "@/components/er-diagram/TableSearchInput";
 import { getLayoutedElements, type LayoutOptions } from "@/components/er-diagram/useAutoLayout";
+import ErDiagramViewMenu from "@/components/er-diagram/ErDiagramViewMenu";
+import ErDiagramExportMenu from "@/components/er-diagram/ErDiagramExportMenu";
+import type { ErDiagramExportInput } from "@/components/er-diagram/erDiagramExport";
+import ErJoinQueryPanel from "@/components/er-diagram/ErJoinQueryPanel";
 import type {
     ErDiagramResponse,
+    ErDiagramView,
+    ErDiagramViewLayout,
+    ErJoinPathResponse,
+    ErLayoutDirection,
     ErNodeData,
+    ErNodePosition,
     ErEdgeData,
     TableListItem,
 } from "@/types/er-diagram";
@@ -52,20 +73,37 @@ import { useFullscreen } from "@/hooks/useFullscreen";
 // Register custom node types
 const nodeTypes = { table: TableNode };
 
+type DiagramMode = "explore" | "path";
+
+/** Matches the backend cap on focus tables per request */
+const MAX_FOCUS_TABLES = 10;
+const PATH_EDGE_COLOR = "#3b82f6";
+
+/** Changes whenever a view is saved, so a refetched view is only applied once */
+const getViewVersion = (view: ErDiagramView) =>
+    `${view.viewId}:${view.updatedAt ?? view.createdAt}`;
+
 export default function ERDiagramPage() {
     const { projectId } = useParams<{ projectId: string }>();
     const pid = Number(projectId);
+    const [searchParams, setSearchParams] = useSearchParams();
+    const activeViewId = Number(searchParams.get("view")) || null;
+    const linkedTableId = Number(searchParams.get("table")) || null;
 
     // State
     const { isFullscreen, toggleFullscreen } = useFullscreen();
-    const [searchQuery, setSearchQuery] = useState("");
-    const [isSearchOpen, setIsSearchOpen] = useState(false);
-    const [selectedTableId, setSelectedTableId] = useState<number | null>(null);
+    const [mode, setMode] = useState<DiagramMode>("explore");
+    const [focusTableIds, setFocusTableIds] = useState<number[]>([]);
+    const [pathFromTable, setPathFromTable] = useState<TableListItem | null>(null);
+    const [pathToTable, setPathToTable] = useState<TableListItem | null>(null);
     const [hops, setHops] = useState(1);
-    const [layoutDirection, setLayoutDirection] = useState<"LR" | "TB">("LR");
+    const [layoutDirection, setLayoutDirection] = useState<ErLayoutDirection>("LR");
+    const [positionOverrides, setPositionOverrides] = useState<Record<number, ErNodePosition>>({});
+    const [hiddenTableIds, setHiddenTableIds] = useState<number[]>([]);
+    const appliedViewVersionRef = useRef<string | null>(null);
     const [selectedEdge, setSelectedEdge] = useState<ErEdgeData | null>(null);
     const [isModalOpen, setIsModalOpen] = useState(false);
-    const searchContainerRef = useRef<HTMLDivElement | null>(null);
+    const [isJoinQueryOpen, setIsJoinQueryOpen] = useState(false);
     const modalRef = useRef<HTMLDivElement | null>(null);
     const previouslyFocusedElementRef = useRef<HTMLElement | null>(null);
 
@@ -73,6 +111,11 @@ export default function ERDiagramPage() {
     const [nodes, setNodes, onNodesChange] = useNodesState<Node>([]);
     const [edges, setEdges, onEdgesChange] = useEdgesState<Edge>([]);
 
+    const selectedTableIds = useMemo(
+        () => nodes.filter((node) => node.selected).map((node) => (node.data as TableNodeData).tableId),
+        [nodes]
+    );
+
     // Fetch tables list for search
     const { data: tables } = useApi<TableListItem[]>(
         projectId ? `/DatabaseBrowser/projects/${pid}/tables` : "",
@@ -82,26 +125,84 @@ export default function ERDiagramPage() {
         }
     );
 
-    // Fetch ER diagram data for selected table
+    // Fetch saved views, and the one named in the URL
+    const { data: views } = useApi<ErDiagramView[]>(
+        projectId ? `/er-diagram/projects/${pid}/views` : "",
+        {
+            queryKey: projectId ? Array.from(queryKeys.erDiagram.views(pid)) : [],
+            enabled: !!projectId,
+        }
+    );
+
+    const { data: activeView } = useApi<ErDiagramView>(
+        activeViewId ? `/er-diagram/projects/${pid}/views/${activeViewId}` : "",
+        {
+            queryKey: activeViewId
+                ? Array.from(queryKeys.erDiagram.view(pid, activeViewId))
+                : [],
+            enabled: !!activeViewId,
+        }
+    );
+
+    // Fetch the combined neighborhood of the focus tables
+    const isExploreReady = mode === "explore" && focusTableIds.length > 0;
     const {
         data: erData,
-        isLoading: isLoadingDiagram,
-        error: diagramError,
+        isLoading: isLoadingNeighborhood,
+        error: neighborhoodError,
     } = useApi<ErDiagramResponse>(
-        selectedTableId
-            ? `/er-diagram/projects/${pid}/neighborhood/${selectedTableId}?hops=${hops}`
+        isExploreReady
+            ? `/er-diagram/projects/${pid}/neighborhood?${focusTableIds.map((id) => `tableIds=${id}`).join("&")}&hops=${hops}`
             : "",
         {
-            queryKey: selectedTableId
-                ? Array.from(queryKeys.erDiagram.neighborhood(pid, selectedTableId, hops))
+            queryKey: isExploreReady
+                ? Array.from(queryKeys.erDiagram.neighborhood(pid, focusTableIds, hops))
                 : [],
-            enabled: !!selectedTableId,
+            enabled: isExploreReady,
         }
     );
 
-    const erDiagramInvalidateKey = selectedTableId
-        ? Array.from(queryKeys.erDiagram.neighborhood(pid, selectedTableId))
-        : [];
+    // Fetch the shortest join path between the two picked tables
+    const isPathReady = mode === "path" && !!pathFromTable && !!pathToTable;
+    const {
+        data: joinPath,
+        isLoading: isLoadingPath,
+        error: pathError,
+    } = useApi<ErJoinPathResponse>(
+        isPathReady
+            ? `/er-diagram/projects/${pid}/join-path?fromTableId=${pathFromTable.tableId}&toTableId=${pathToTable.tableId}`
+            : "",
+        {
+            queryKey: isPathReady
+                ? Array.from(queryKeys.erDiagram.joinPath(pid, pathFromTable.tableId, pathToTable.tableId))
+                : [],
+            enabled: isPathReady,
+        }
+    );
+
+    const diagram = mode === "path"
+        ? (isPathReady ? joinPath?.diagram : undefined)
+        : (isExploreReady ? erData : undefined);
+    const isLoadingDiagram = mode === "path" ? isLoadingPath : isLoadingNeighborhood;
+    const diagramError = mode === "path" ? pathError : neighborhoodError;
+    const hasCanvas = mode === "path" ? isPathReady : isExploreReady;
+
+    // Join columns per table and the edges to emphasise for the current path
+    const pathHighlight = useMemo(() => {
+        const edgeIds = new Set<string>();
+        const columnsByTable = new Map<number, number[]>();
+        if (mode !== "path" || !joinPath) return { edgeIds, columnsByTable };
+
+        for (const hop of joinPath.hops) {
+            edgeIds.add(hop.edgeId);
+            columnsByTable.set(hop.fromTableId, [...(columnsByTable.get(hop.fromTableId) ?? []), hop.fromColumnId]);
+            columnsByTable.set(hop.toTableId, [...(columnsByTable.get(hop.toTableId) ?? []), hop.toColumnId]);
+        }
+        return { edgeIds, columnsByTable };
+    }, [mode, joinPath]);
+
+    // Confirming or rejecting a logical FK changes both neighborhoods and join paths
+    const erDiagramInvalidateKey = Array.from(queryKeys.erDiagram.all(pid));
 
     // Confirm/reject mutations
     const confirmMutation = useApiMutation<unknown, { id: number; projectId: number; notes?: string }>(
@@ -122,25 +223,107 @@ export default function ERDiagramPage() {
         }
     );
 
-    // Filter tables by search
-    const filteredTables = useMemo(() => {
-        if (!tables || !searchQuery.trim()) return tables?.slice(0, 20) ?? [];
-        const q = searchQuery.toLowerCase();
-        return tables.filter((t) => t.tableName.toLowerCase().includes(q)).slice(0, 20);
-    }, [tables, searchQuery]);
+    const tableNamesById = useMemo(
+        () => new Map((tables ?? []).map((t) => [t.tableId, t.tableName])),
+        [tables]
+    );
 
-    // Close search dropdown when clicking outside search container
+    // Restore the canvas from a saved view
     useEffect(() => {
-        const handleDocumentMouseDown = (event: MouseEvent) => {
-            if (!searchContainerRef.current) return;
-            if (!searchContainerRef.current.contains(event.target as globalThis.Node)) {
-                setIsSearchOpen(false);
-            }
+        if (!activeView || activeView.viewId !== activeViewId) return;
+        const version = getViewVersion(activeView);
+        if (appliedViewVersionRef.current === version) return;
+        appliedViewVersionRef.current = version;
+
+        const { layout } = activeView;
+        setMode("explore");
+        setFocusTableIds(layout.focusTableIds);
+        setHops(layout.hops);
+        setLayoutDirection(layout.direction);
+        setPositionOverrides(layout.positions ?? {});
+        setHiddenTableIds(layout.hiddenTableIds ?? []);
+    }, [activeView, activeViewId]);
+
+    // Start a fresh diagram around a table linked from elsewhere
+    useEffect(() => {
+        if (!linkedTableId) return;
+        setMode("explore");
+        setFocusTableIds([linkedTableId]);
+        setPositionOverrides({});
+        setHiddenTableIds([]);
+    }, [linkedTableId]);
+
+    const handleHideTable = useCallback((tableId: number) => {
+        setHiddenTableIds((prev) => (prev.includes(tableId) ? prev : [...prev, tableId]));
+    }, []);
+
+    // Picking a table from search starts a fresh diagram around it
+    const handleSelectFocusTable = (table: TableListItem) => {
+        setFocusTableIds([table.tableId]);
+        setPositionOverrides({});
+        setHiddenTableIds([]);
+    };
+
+    const handleAddFocusTable = (table: TableListItem) => {
+        setFocusTableIds((prev) => (prev.includes(table.tableId) ? prev : [...prev, table.tableId]));
+        setHiddenTableIds((prev) => prev.filter((id) => id !== table.tableId));
+    };
+
+    const handleRemoveFocusTable = (tableId: number) => {
+        setFocusTableIds((prev) => prev.filter((id) => id !== tableId));
+    };
+
+    const handleSwapPathEnds = () => {
+        setPathFromTable(pathToTable);
+        setPathToTable(pathFromTable);
+    };
+
+    const getCurrentLayout = useCallback(
+        (): ErDiagramViewLayout => ({
+            focusTableIds,
+            hops,
+            direction: layoutDirection,
+            positions: Object.fromEntries(
+                nodes.map((node) => [
+                    (node.data as TableNodeData).tableId,
+                    { x: Math.round(node.position.x), y: Math.round(node.position.y) },
+                ])
+            ),
+            hiddenTableIds,
+        }),
+        [focusTableIds, hops, layoutDirection, nodes, hiddenTableIds]
+    );
+
+    // Exports cover what is on the canvas, named after the open view or the focus tables
+    const getExportInput = useCallback((): ErDiagramExportInput => {
+        const focusNames = mode === "path"
+            ? [pathFromTable?.tableName, pathToTable?.tableName]
+            : focusTableIds.map((id) => tableNamesById.get(id));
+        return {
+            nodes,
+            edges,
+            tables: diagram?.nodes ?? [],
+            relationships: diagram?.edges ?? [],
+            name: (activeView?.viewId === activeViewId && mode === "explore" ? activeView?.name : undefined)
+                ?? focusNames.filter(Boolean).join("-"),
         };
+    }, [mode, pathFromTable, pathToTable, focusTableIds, tableNamesById, nodes, edges, diagram, activeView, activeViewId]);
 
-        document.addEventListener("mousedown", handleDocumentMouseDown);
-        return () => document.removeEventListener("mousedown", handleDocumentMouseDown);
-    }, []);
+    const handleOpenView = (viewId: number) => {
+        // Reopening the active view discards unsaved changes
+        appliedViewVersionRef.current = null;
+        setSearchParams({ view: String(viewId) }, { replace: true });
+    };
+
+    const handleViewSaved = (view: ErDiagramView) => {
+        appliedViewVersionRef.current = getViewVersion(view);
+        setSearchParams({ view: String(view.viewId) }, { replace: true });
+    };
+
+    const handleViewDeleted = () => {
+        appliedViewVersionRef.current = null;
+        setSearchParams({}, { replace: true });
+    };
 
     // Modal focus management + Escape close + Tab trapping
     useEffect(() => {
@@ -210,9 +393,18 @@ export default function ERDiagramPage() {
 
     // Convert API data to React Flow nodes/edges
     useEffect(() => {
-        if (!erData) return;
+        if (!diagram) return;
+
+        // Hiding tables and manual positions belong to explore mode; paths are always auto-laid out
+        const isExplore = mode === "explore";
+        const hidden = new Set(isExplore ? hiddenTableIds : []);
+        const focusIds = new Set(diagram.focusTableIds ?? [diagram.focusTableId]);
+        const visibleNodes = diagram.nodes.filter((node) => !hidden.has(node.tableId));
+        const visibleEdges = diagram.edges.filter(
+            (edge) => !hidden.has(edge.sourceTableId) && !hidden.has(edge.targetTableId)
+        );
 
-        const rfNodes: Node[] = erData.nodes.map((node) => ({
+        const rfNodes: Node[] = visibleNodes.map((node) => ({
             id: `table-${node.tableId}`,
             type: "table",
             position: { x: 0, y: 0 }, // dagre will overwrite
@@ -222,11 +414,29 @@ export default function ERDiagramPage() {
                 schemaName: node.schemaName,
                 columns: node.columns,
                 depth: node.depth,
-                isFocus: node.tableId === erData.focusTableId,
+                isFocus: focusIds.has(node.tableId),
+                onHide: isExplore ? handleHideTable : undefined,
+                highlightedColumnIds: pathHighlight.columnsByTable.get(node.tableId),
             } satisfies TableNodeData,
         }));
 
-        const rfEdges: Edge[] = erData.edges.map((edge) => ({
+        const rfEdges: Edge[] = visibleEdges.map((edge) => pathHighlight.edgeIds.has(edge.id) ? ({
+            id: edge.id,
+            source: `table-${edge.sourceTableId}`,
+            target: `table-${edge.targetTableId}`,
+            sourceHandle: `${edge.sourceColumnId}-source`,
+            targetHandle: `${edge.targetColumnId}-target`,
+            type: "smoothstep",
+            animated: true,
+            style: {
+                stroke: PATH_EDGE_COLOR,
+                strokeWidth: 2.5,
+                strokeDasharray: edge.relationshipType === "LOGICAL" ? "6 4" : undefined,
+            },
+            label: `${edge.sourceColumnName} = ${edge.targetColumnName}`,
+            labelStyle: { fontSize: 10, fill: PATH_EDGE_COLOR, fontWeight: 600 },
+            data: { ...edge } as Record<string, unknown>,
+        }) : ({
             id: edge.id,
             source: `table-${edge.sourceTableId}`,
             target: `table-${edge.targetTableId}`,
@@ -259,12 +469,28 @@ export default function ERDiagramPage() {
         const { nodes: layoutedNodes, edges: layoutedEdges } = getLayoutedElements(
             rfNodes,
             rfEdges,
-            { direction: layoutDirection, focusNodeId: `table-${erData.focusTableId}` }
+            { direction: layoutDirection, focusNodeId: `table-${diagram.focusTableId}` }
         );
 
-        setNodes(layoutedNodes);
+        // Manually placed tables keep their position; new ones fall back to dagre
+        setNodes(
+            layoutedNodes.map((node) => {
+                const saved = isExplore ? positionOverrides[(node.data as TableNodeData).tableId] : undefined;
+                return saved ? { ...node, position: { x: saved.x, y: saved.y } } : node;
+            })
+        );
         setEdges(layoutedEdges);
-    }, [erData, layoutDirection, setNodes, setEdges]);
+    }, [diagram, mode, layoutDirection, hiddenTableIds, positionOverrides, pathHighlight, handleHideTable, setNodes, setEdges]);
+
+    // Remember dragged positions so hiding tables or changing depth keeps the arrangement
+    const onNodeDragStop = useCallback((_event: React.MouseEvent, node: Node) => {
+        if (mode !== "explore") return;
+        const { tableId } = node.data as TableNodeData;
+        setPositionOverrides((prev) => ({
+            ...prev,
+            [tableId]: { x: Math.round(node.position.x), y: Math.round(node.position.y) },
+        }));
+    }, [mode]);
 
     // Handle edge click for logical FK modal
     const onEdgeClick: EdgeMouseHandler<Edge> = useCallback(
@@ -320,54 +546,73 @@ export default function ERDiagramPage() {
                 <GitBranch className="h-5 w-5 text-primary" />
                 <h1 className="text-lg font-semibold">ER Diagram</h1>
 
-                {/* Search */}
-                <div ref={searchContainerRef} className="relative ml-4 w-80">
-                    <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-                    <input
-                        type="text"
-                        aria-label="Search tables"
-                        placeholder="Search tables..."
-                        value={searchQuery}
-                        onChange={(e) => {
-                            setSearchQuery(e.target.value);
-                            setIsSearchOpen(true);
-                        }}
-                        onFocus={() => setIsSearchOpen(true)}
-                        className="w-full pl-9 pr-3 py-2 text-sm rounded-md border bg-background focus:outline-none focus:ring-2 focus:ring-primary/50"
-                    />
-
-                    {/* Search dropdown */}
-                    {isSearchOpen && searchQuery.trim() && filteredTables.length > 0 && (
-                        <div className="absolute z-50 top-full mt-1 w-full rounded-md border bg-popover shadow-lg max-h-60 overflow-auto">
-                            {filteredTables.map((table) => (
-                                <button
-                                    key={table.tableId}
-                                    className="w-full text-left px-3 py-2 text-sm hover:bg-muted transition-colors flex items-center gap-2"
-                                    onClick={() => {
-                                        setSelectedTableId(table.tableId);
-                                        setSearchQuery("");
-                                        setIsSearchOpen(false);
-                                    }}
-                                >
-                                    <span className="font-mono">{table.tableName}</span>
-                                    {table.schemaName && (
-                                        <span className="text-xs text-muted-foreground">
-                                            ({table.schemaName})
-                                        </span>
-                                    )}
-                                </button>
-                            ))}
-                        </div>
-                    )}
+                {/* Mode toggle */}
+                <div className="ml-4 flex items-center rounded-md border p-0.5 text-sm" role="group" aria-label="Diagram mode">
+                    {([
+                        { value: "explore", label: "Explore", icon: Search },
+                        { value: "path", label: "Join path", icon: Route },
+                    ] as const).map(({ value, label, icon: Icon }) => (
+                        <button
+                            key={value}
+                            onClick={() => setMode(value)}
+                            aria-pressed={mode === value}
+                            className={`flex items-center gap-1.5 px-2.5 py-1 rounded transition-colors ${mode === value
+                                ? "bg-primary text-primary-foreground"
+                                : "text-muted-foreground hover:bg-muted"
+                                }`}
+                        >
+                            <Icon className="h-3.5 w-3.5" />
+                            {label}
+                        </button>
+                    ))}
                 </div>
 
+                {mode === "explore" ? (
+                    <TableSearchInput
+                        tables={tables}
+                        placeholder={focusTableIds.length > 0 ? "Search or add tables..." : "Search tables..."}
+                        ariaLabel="Search tables"
+                        onSelect={handleSelectFocusTable}
+                        onAdd={focusTableIds.length > 0 && focusTableIds.length < MAX_FOCUS_TABLES ? handleAddFocusTable : undefined}
+                        excludeTableIds={focusTableIds}
+                    />
+                ) : (
+                    <div className="flex items-center gap-2">
+                        <TableSearchInput
+                            tables={tables}
+                            placeholder="From table..."
+                            ariaLabel="Join path start table"
+                            selectedLabel={pathFromTable?.tableName}
+                            onSelect={setPathFromTable}
+                            className="w-56"
+                        />
+                        <button
+                            onClick={handleSwapPathEnds}
+                            disabled={!pathFromTable && !pathToTable}
+                            className="p-1.5 rounded-md text-muted-foreground hover:bg-muted hover:text-foreground disabled:opacity-50 transition-colors"
+                            title="Swap tables"
+                            aria-label="Swap start and end tables"
+                        >
+                            <ArrowLeftRight className="h-4 w-4" />
+                        </button>
+                        <TableSearchInput
+                            tables={tables}
+                            placeholder="To table..."
+                            ariaLabel="Join path end table"
+                            selectedLabel={pathToTable?.tableName}
+                            onSelect={setPathToTable}
+                            className="w-56"
+                        />
+                    </div>
+                )}
+
                 {isLoadingDiagram && (
                     <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
                 )}
 
                 {/* Hop depth selector */}
                 <div className="ml-auto flex items-center gap-3 text-sm">
-                    {selectedTableId && (
+                    {hasCanvas && (
                         <>
                             {/* Direction toggle */}
                             <div className="flex items-center gap-1.5">
@@ -375,7 +620,10 @@ export default function ERDiagramPage() {
                                 {(["LR", "TB"] as const).map((dir) => (
                                     <button
                                         key={dir}
-                                        onClick={() => setLayoutDirection(dir)}
+                                        onClick={() => {
+                                            setLayoutDirection(dir);
+                                            setPositionOverrides({});
+                                        }}
                                         className={`px-2 py-1 rounded-md border transition-colors ${layoutDirection === dir
                                             ? "bg-primary text-primary-foreground border-primary"
                                             : "hover:bg-muted border-border"
@@ -387,7 +635,11 @@ export default function ERDiagramPage() {
                             </div>
 
                             <div className="w-px h-5 bg-border" />
+                        </>
+                    )}
 
+                    {isExploreReady && (
+                        <>
                             {/* Depth selector */}
                             <div className="flex items-center gap-1.5">
                                 <span className="text-muted-foreground">Depth:</span>
@@ -406,9 +658,56 @@ export default function ERDiagramPage() {
                             </div>
 
                             <div className="w-px h-5 bg-border" />
+
+                            {hiddenTableIds.length > 0 && (
+                                <button
+                                    onClick={() => setHiddenTableIds([])}
+                                    className="flex items-center gap-1.5 px-2 py-1 rounded-md border hover:bg-muted transition-colors"
+                                    title="Show hidden tables"
+                                >
+                                    <Eye className="h-3.5 w-3.5" />
+                                    {hiddenTableIds.length} hidden
+                                </button>
+                            )}
+                            {Object.keys(positionOverrides).length > 0 && (
+                                <button
+                                    onClick={() => setPositionOverrides({})}
+                                    className="p-1 rounded-md text-muted-foreground hover:bg-muted hover:text-foreground transition-colors"
+                                    title="Reset layout"
+                                    aria-label="Reset layout"
+                                >
+                                    <RotateCcw className="h-4 w-4" />
+                                </button>
+                            )}
                         </>
                     )}
 
+                    <ErDiagramViewMenu
+                        projectId={pid}
+                        views={views ?? []}
+                        activeView={activeView?.viewId === activeViewId ? activeView : undefined}
+                        canSave={isExploreReady}
+                        getLayout={getCurrentLayout}
+                        onOpenView={handleOpenView}
+                        onViewSaved={handleViewSaved}
+                        onViewDeleted={handleViewDeleted}
+                    />
+
+                    {hasCanvas && selectedTableIds.length >= 2 && (
+                        <button
+                            onClick={() => setIsJoinQueryOpen(true)}
+                            className="flex items-center gap-1.5 px-2 py-1 rounded-md border hover:bg-muted transition-colors"
+                            title="Generate a JOIN query for the selected tables"
+                        >
+                            <FileCode2 className="h-3.5 w-3.5" />
+                            JOIN query ({selectedTableIds.length})
+                        </button>
+                    )}
+
+                    {hasCanvas && (
+                        <ErDiagramExportMenu getInput={getExportInput} disabled={!diagram || nodes.length === 0} />
+                    )}
+
                     {/* Fullscreen toggle */}
                     <button
                         onClick={toggleFullscreen}
@@ -422,17 +721,52 @@ export default function ERDiagramPage() {
                 </div>
             </div>
 
+            {/* Focus tables */}
+            {mode === "explore" && focusTableIds.length > 1 && (
+                <div className="flex flex-wrap items-center gap-2 px-4 py-2 border-b bg-card text-xs">
+                    <span className="text-muted-foreground">Focus tables:</span>
+                    {focusTableIds.map((id) => {
+                        const name = tableNamesById.get(id) ?? `#${id}`;
+                        return (
+                            <span
+                                key={id}
+                                className="inline-flex items-center gap-1 rounded-full border border-primary/30 bg-primary/10 text-primary pl-2.5 pr-1 py-0.5 font-mono"
+                            >
+                                {name}
+                                <button
+                                    onClick={() => handleRemoveFocusTable(id)}
+                                    className="p-0.5 rounded-full hover:bg-primary/20 transition-colors"
+                                    aria-label={`Remove ${name} from focus`}
+                                >
+                                    <X className="h-3 w-3" />
+                                </button>
+                            </span>
+                        );
+                    })}
+                </div>
+            )}
+
             {/* Diagram canvas */}
             <div className="flex-1 relative">
-                {!selectedTableId ? (
+                {!hasCanvas ? (
                     <div className="flex items-center justify-center h-full text-muted-foreground">
-                        <div className="text-center">
-                            <GitBranch className="h-12 w-12 mx-auto mb-4 opacity-30" />
-                            <p className="text-lg font-medium">Search for a table to explore</p>
-                            <p className="text-sm mt-1">
-                                Select a table from the search above to view its relationships
-                            </p>
-                        </div>
+                        {mode === "explore" ? (
+                            <div className="text-center">
+                                <GitBranch className="h-12 w-12 mx-auto mb-4 opacity-30" />
+                                <p className="text-lg font-medium">Search for a table to explore</p>
+                                <p className="text-sm mt-1">
+                                    Select a table from the search above to view its relationships
+                                </p>
+                            </div>
+                        ) : (
+                            <div className="text-center">
+                                <Route className="h-12 w-12 mx-auto mb-4 opacity-30" />
+                                <p className="text-lg font-medium">Pick two tables to see how they join</p>
+                                <p className="text-sm mt-1">
+                                    The shortest path follows physical FKs and confirmed logical FKs
+                                </p>
+                            </div>
+                        )}
                     </div>
                 ) : diagramError ? (
                     <div className="flex items-center justify-center h-full text-destructive">
@@ -443,11 +777,16 @@ export default function ERDiagramPage() {
                     </div>
                 ) : (
                     <ReactFlow
+                        key={mode}
                         nodes={nodes}
                         edges={edges}
                         onNodesChange={onNodesChange}
                         onEdgesChange={onEdgesChange}
                         onEdgeClick={onEdgeClick}
+                        onNodeDragStop={onNodeDragStop}
+                        selectionMode={SelectionMode.Partial}
+                        multiSelectionKeyCode={["Control", "Meta"]}
+                        deleteKeyCode={null}
                         nodeTypes={nodeTypes}
                         fitView
                         fitViewOptions={{ padding: 0.3 }}
@@ -462,6 +801,38 @@ export default function ERDiagramPage() {
                             className="!bg-card !border-border"
                         />
 
+                        {/* Join path steps */}
+                        {mode === "path" && joinPath && (
+                            <Panel position="top-right">
+                                <div className="bg-card border rounded-lg p-3 shadow-sm text-xs w-72 space-y-2">
+                                    <div className="font-semibold text-sm">Join path</div>
+                                    {joinPath.hops.length === 0 ? (
+                                        <p className="text-muted-foreground">
+                                            {joinPath.fromTableId === joinPath.toTableId
+                                                ? "Both ends are the same table."
+                                                : "No join path found. These tables are not connected by physical or confirmed logical FKs."}
+                                        </p>
+                                    ) : (
+                                        <ol className="space-y-1.5">
+                                            {joinPath.hops.map((hop, idx) => (
+                                                <li key={hop.edgeId} className="flex gap-2">
+                                                    <span className="text-muted-foreground">{idx + 1}.</span>
+                                                    <span className="font-mono break-all">
+                                                        {tableNamesById.get(hop.fromTableId) ?? hop.fromTableId}.{hop.fromColumnName}
+                                                        {" = "}
+                                                        {tableNamesById.get(hop.toTableId) ?? hop.toTableId}.{hop.toColumnName}
+                                                        {hop.relationshipType === "LOGICAL" && (
+                                                            <span className="ml-1 font-sans text-green-600">(logical)</span>
+                                                        )}
+                                                    </span>
+                                                </li>
+                                            ))}
+                                        </ol>
+                                    )}
+                                </div>
+                            </Panel>
+                        )}
+
                         {/* Legend */}
                         <Panel position="bottom-left">
                             <div className="bg-card border rounded-lg p-3 shadow-sm text-xs space-y-2">
@@ -470,6 +841,12 @@ export default function ERDiagramPage() {
                                     <div className="w-6 h-0.5 bg-gray-500" />
                                     <span>Physical FK</span>
                                 </div>
+                                {mode === "path" && (
+                                    <div className="flex items-center gap-2">
+                                        <div className="w-6 h-0.5 bg-blue-500" />
+                                        <span>Join path</span>
+                                    </div>
+                                )}
                                 <div className="flex items-center gap-2">
                                     <div
                                         className="w-6 h-0.5 bg-amber-500"
@@ -490,6 +867,14 @@ export default function ERDiagramPage() {
                 )}
             </div>
 
+            <ErJoinQueryPanel
+                open={isJoinQueryOpen}
+                onOpenChange={setIsJoinQueryOpen}
+                selectedTableIds={selectedTableIds}
+                tables={diagram?.nodes ?? []}
+                edges={diagram?.edges ?? []}
+            />
+
             {/* Logical FK Action Modal */}
             {isModalOpen && selectedEdge && (
                 <div
@@ -44,6 +44,7 @@ import {
   Code2,
   Copy,
   FileText,
+  History,
   Info,
   Layers,
   Mail,
@@ -68,7 +69,14 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { Sheet, SheetContent } from "@/components/ui/sheet";
 import { ExpertManagement } from "@/components/context/ExpertManagement";
 import { ContextEditor } from "@/components/context/ContextEditorPanel";
+import { ContextHistoryTimeline } from "@/components/context/ContextHistoryTimeline";
 import { ResyncEntityDialog } from "@/components/project/ResyncEntityDialog";
+import {
+  HoverCard,
+  HoverCardContent,
+  HoverCardTrigger,
+} from "@/components/ui/hover-card";
+import { EntityImpactPreview } from "@/components/impact-analysis/ImpactPreview";
 
 const Editor = lazy(() => import("@monaco-editor/react"));
 
@@ -551,14 +559,26 @@ const EntityDetailPage: React.FC = () => {
               entityName={name}
             />
 
-            <Button size="sm" variant="default" asChild className="h-8">
-              <Link
-                to={`/project/${parsedProjectId}/impact/${entityType}/${parsedEntityId}`}
-              >
-                <Network className="h-3.5 w-3.5 mr-2" />
-                Impact Analysis
-              </Link>
-            </Button>
+            <HoverCard openDelay={300}>
+              <HoverCardTrigger asChild>
+                <Button size="sm" variant="default" asChild className="h-8">
+                  <Link
+                    to={`/project/${parsedProjectId}/impact/${entityType}/${parsedEntityId}`}
+                  >
+                    <Network className="h-3.5 w-3.5 mr-2" />
+                    Impact Analysis
+                  </Link>
+                </Button>
+              </HoverCardTrigger>
+              <HoverCardContent className="w-96" align="end">
+                <EntityImpactPreview
+                  projectId={parsedProjectId}
+                  entityType={entityType}
+                  entityId={parsedEntityId}
+                  entityName={name}
+                />
+              </HoverCardContent>
+            </HoverCard>
           </div>
         </div>
 
@@ -667,6 +687,9 @@ const EntityDetailPage: React.FC = () => {
                     <TabsTrigger value="documentation" className="gap-2 text-xs data-[state=active]:bg-background data-[state=active]:shadow-sm">
                       <FileText className="h-3.5 w-3.5" /> Documentation
                     </TabsTrigger>
+                    <TabsTrigger value="history" className="gap-2 text-xs data-[state=active]:bg-background data-[state=active]:shadow-sm">
+                      <History className="h-3.5 w-3.5" /> History
+                    </TabsTrigger>
                   </TabsList>
 
                   <span className="text-xs font-medium text-muted-foreground flex items-center gap-2 bg-muted/30 px-3 py-1.5 rounded-full border border-border/40">
@@ -1010,6 +1033,11 @@ const EntityDetailPage: React.FC = () => {
                     <DocumentationEmptyState entityName={name || "this entity"} onAddClick={() => setIsDocSheetOpen(true)} />
                   )}
                 </TabsContent>
+
+                {/* History Tab */}
+                <TabsContent value="history" className="mt-0 focus-visible:outline-none">
+                  <ContextHistoryTimeline entityType={entityType} entityId={parsedEntityId} />
+                </TabsContent>
               </Tabs>
             </div>
           </div>
@@ -4,7 +4,7 @@ import { useParams, useNavigate, Link } from "react-router-dom";
 import { useProject } from "@/hooks/useProject";
 import { Button } from "@/components/ui/button";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { AlertCircle, Database, ExternalLink, X } from "lucide-react";
+import { AlertCircle, Boxes, Database, ExternalLink, X } from "lucide-react";
 import {
   EntityListPanel,
   EntityDetailsPanel,
@@ -18,6 +18,7 @@ import type { PendingFkCount } from "@/types/er-diagram";
 import { TableMetadataDto, StoredProcedureMetadataDto } from "@/types/context";
 import { getDefaultSchema } from "@/lib/schema-utils";
 import { ResyncEntityDialog } from "@/components/project/ResyncEntityDialog";
+import { getChangeSetRoute } from "@/components/impact-analysis/impactChangeSet";
 
 // Map URL slugs to entity types
 type EntityTypeSlug = "table" | "sp" | "column";
@@ -104,7 +105,7 @@ export default function EntityExplorer() {
     : undefined;
 
   // Validate activeTab against allowed EntityTab values
-  const validTabs: EntityTab[] = ["overview", "experts", "documentation"];
+  const validTabs: EntityTab[] = ["overview", "experts", "documentation", "history"];
   const activeTab: EntityTab =
     tab && validTabs.includes(tab as EntityTab)
       ? (tab as EntityTab)
@@ -337,19 +338,10 @@ export default function EntityExplorer() {
   // Keyboard navigation
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-      // Escape to close details panel
+      // Escape to close details panel; Ctrl/Cmd+K belongs to the command palette
       if (e.key === "Escape" && selectedEntity) {
         handleCloseDetails();
       }
-
-      // Ctrl+K to focus search (handled globally or by list panel, but keep safety here)
-      if ((e.ctrlKey || e.metaKey) && e.key === "k") {
-        e.preventDefault();
-        const searchInput = document.querySelector(
-          'input[placeholder*="Search"]',
-        ) as HTMLInputElement;
-        if (searchInput) searchInput.focus();
-      }
     };
 
     window.addEventListener("keydown", handleKeyDown);
@@ -435,6 +427,31 @@ export default function EntityExplorer() {
             }
           />
 
+          <Button
+            variant="outline"
+            disabled={
+              selectedResyncEntities.length === 0 || !effectiveProjectId
+            }
+            onClick={() =>
+              navigate(
+                getChangeSetRoute(
+                  effectiveProjectId,
+                  selectedResyncEntities.map((entity) => ({
+                    entityType: entity.entityType,
+                    entityId: entity.entityId,
+                    changeType: "MODIFY",
+                  })),
+                ),
+              )
+            }
+          >
+            <Boxes className="w-4 h-4 mr-2" />
+            Analyze Impact
+            {selectedResyncEntities.length > 0
+              ? ` (${selectedResyncEntities.length})`
+              : ""}
+          </Button>
+
           <Button asChild>
             <Link to="/">
               <ExternalLink className="w-4 h-4 mr-2" />
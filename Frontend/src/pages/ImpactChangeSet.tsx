@@ -0,0 +1,443 @@
+import { useCallback, useMemo, useState } from "react";
+import { useParams, useSearchParams, Link } from "react-router-dom";
+import {
+  AlertCircle,
+  Boxes,
+  LayoutDashboard,
+  Loader2,
+  Plus,
+  ShieldAlert,
+  Trash2,
+  X,
+} from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Separator } from "@/components/ui/separator";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "@/components/ui/sheet";
+import { EntityListPanel, type UnifiedEntity } from "@/components/explorer";
+import { useApi } from "@/hooks/useApi";
+import { useImpactChangeSet } from "@/hooks/useImpactAnalysis";
+import type {
+  TableMetadataDto,
+  StoredProcedureMetadataDto,
+} from "@/types/context";
+import type {
+  ImpactChangeSetItem,
+  ImpactChangeType,
+} from "@/types/impact-analysis";
+import {
+  CHANGE_TYPE_OPTIONS,
+  RISK_CONFIG,
+  getEntityRoute,
+  getEntityTypeLabel,
+  getVerdictScore,
+} from "@/components/impact-analysis/impactConfig";
+import {
+  EntityTypeIcon,
+  RiskBadge,
+} from "@/components/impact-analysis/ImpactIndicators";
+import {
+  ImpactEntitiesSection,
+  ImpactReasonsSection,
+} from "@/components/impact-analysis/ImpactReportSections";
+import {
+  getChangeSetItemKey,
+  mergeChangeSetImpact,
+  parseChangeSetParam,
+  serializeChangeSetParam,
+} from "@/components/impact-analysis/impactChangeSet";
+
+/**
+ * Change set impact page.
+ *
+ * Several tables and procedures are changed together; each item is analyzed on its own
+ * and the results are merged into one report. The set itself lives in the `items`
+ * search param so it can be shared.
+ */
+export default function ImpactChangeSetPage() {
+  const { projectId } = useParams<{ projectId: string }>();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [viewMode, setViewMode] = useState<"tree" | "list">("list");
+  const numericProjectId = Number(projectId) || 0;
+
+  const itemsParam = searchParams.get("items");
+  const items = useMemo(() => parseChangeSetParam(itemsParam), [itemsParam]);
+  const itemKeys = useMemo(
+    () => new Set(items.map(getChangeSetItemKey)),
+    [items],
+  );
+
+  const updateItems = useCallback(
+    (next: ImpactChangeSetItem[]) => {
+      const nextParams = new URLSearchParams(searchParams);
+      if (next.length === 0) {
+        nextParams.delete("items");
+      } else {
+        nextParams.set("items", serializeChangeSetParam(next));
+      }
+      setSearchParams(nextParams, { replace: true });
+    },
+    [searchParams, setSearchParams],
+  );
+
+  const {
+    data: tablesData,
+    isLoading: isLoadingTables,
+    refetch: refetchTables,
+  } = useApi<TableMetadataDto[]>(
+    `/DatabaseBrowser/projects/${projectId}/tables`,
+    { enabled: numericProjectId > 0, staleTime: 5 * 60 * 1000 },
+  );
+  const {
+    data: proceduresData,
+    isLoading: isLoadingSPs,
+    refetch: refetchProcedures,
+  } = useApi<StoredProcedureMetadataDto[]>(
+    `/DatabaseBrowser/projects/${projectId}/sp-metadata`,
+    { enabled: numericProjectId > 0, staleTime: 5 * 60 * 1000 },
+  );
+
+  const entityNames = useMemo(() => {
+    const names = new Map<string, string>();
+    tablesData?.forEach((t) => names.set(`TABLE:${t.tableId}`, t.tableName));
+    proceduresData?.forEach((sp) =>
+      names.set(`SP:${sp.spId}`, sp.procedureName),
+    );
+    return names;
+  }, [tablesData, proceduresData]);
+
+  const results = useImpactChangeSet(projectId ?? "", items);
+  const report = useMemo(() => mergeChangeSetImpact(results), [results]);
+  const isAnyLoading = results.some((r) => r.isLoading);
+  const failures = results.filter((r) => r.error);
+
+  // --- Builder actions ---
+
+  const addEntity = useCallback(
+    (entity: UnifiedEntity | null) => {
+      if (!entity || entity.entityType === "COLUMN") return;
+      if (itemKeys.has(getChangeSetItemKey(entity))) return;
+      updateItems([
+        ...items,
+        {
+          entityType: entity.entityType,
+          entityId: entity.entityId,
+          changeType: "MODIFY",
+        },
+      ]);
+    },
+    [items, itemKeys, updateItems],
+  );
+
+  const toggleEntity = useCallback(
+    (entity: UnifiedEntity, checked: boolean) => {
+      if (checked) {
+        addEntity(entity);
+        return;
+      }
+      const key = getChangeSetItemKey(entity);
+      updateItems(items.filter((i) => getChangeSetItemKey(i) !== key));
+    },
+    [addEntity, items, updateItems],
+  );
+
+  const toggleAllEntities = useCallback(
+    (entities: UnifiedEntity[], checked: boolean) => {
+      const keys = new Set(entities.map(getChangeSetItemKey));
+      if (!checked) {
+        updateItems(items.filter((i) => !keys.has(getChangeSetItemKey(i))));
+        return;
+      }
+      const added = entities
+        .filter((e) => e.entityType !== "COLUMN")
+        .filter((e) => !itemKeys.has(getChangeSetItemKey(e)))
+        .map<ImpactChangeSetItem>((e) => ({
+          entityType: e.entityType,
+          entityId: e.entityId,
+          changeType: "MODIFY",
+        }));
+      updateItems([...items, ...added]);
+    },
+    [items, itemKeys, updateItems],
+  );
+
+  const setChangeType = (key: string, changeType: ImpactChangeType) => {
+    updateItems(
+      items.map((i) =>
+        getChangeSetItemKey(i) === key ? { ...i, changeType } : i,
+      ),
+    );
+  };
+
+  const removeItem = (key: string) => {
+    updateItems(items.filter((i) => getChangeSetItemKey(i) !== key));
+  };
+
+  const verdict = report?.response.verdict;
+  const verdictStyle = verdict
+    ? RISK_CONFIG[verdict.risk] || RISK_CONFIG[1]
+    : undefined;
+
+  return (
+    <div className="flex flex-col h-auto bg-background overflow-hidden">
+      {/* 1. Sticky Header */}
+      <div className="px-6 py-3 border-b flex items-center justify-between bg-background/95 backdrop-blur z-30 sticky top-0 supports-[backdrop-filter]:bg-background/60">
+        <div className="flex items-center gap-4">
+          <Button
+            variant="ghost"
+            size="sm"
+            asChild
+            className="-ml-2 text-muted-foreground"
+          >
+            <Link to={`/project/${projectId}/entities`}>
+              <LayoutDashboard className="w-4 h-4 mr-2" />
+              Explorer
+            </Link>
+          </Button>
+          <Separator orientation="vertical" className="h-4" />
+          <div className="flex items-center gap-2">
+            <Boxes className="w-4 h-4 text-primary" />
+            <span className="text-sm font-semibold">Change Set Impact</span>
+            <Badge variant="outline" className="text-[10px] h-5 px-1.5">
+              {items.length} {items.length === 1 ? "ENTITY" : "ENTITIES"}
+            </Badge>
+            {isAnyLoading && (
+              <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+            )}
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2">
+          {items.length > 0 && (
+            <Button variant="ghost" size="sm" onClick={() => updateItems([])}>
+              <X className="w-3.5 h-3.5 mr-1.5" />
+              Clear
+            </Button>
+          )}
+          <Sheet>
+            <SheetTrigger asChild>
+              <Button size="sm" className="h-8">
+                <Plus className="w-3.5 h-3.5 mr-1.5" />
+                Add Entities
+              </Button>
+            </SheetTrigger>
+            <SheetContent className="w-full sm:max-w-xl flex flex-col">
+              <SheetHeader>
+                <SheetTitle>Add to Change Set</SheetTitle>
+                <SheetDescription>
+                  Check entities in the list, or click a table or procedure in
+                  the tree. New entries default to Modify.
+                </SheetDescription>
+              </SheetHeader>
+              <div className="flex-1 min-h-0 px-4 pb-4">
+                <EntityListPanel
+                  projectId={numericProjectId}
+                  onSelectEntity={addEntity}
+                  selectedForResync={itemKeys}
+                  onToggleResyncSelection={toggleEntity}
+                  onToggleAllFilteredResync={toggleAllEntities}
+                  viewMode={viewMode}
+                  onViewModeChange={setViewMode}
+                  keepSelectedVisible={false}
+                  tablesData={tablesData}
+                  proceduresData={proceduresData}
+                  isLoadingTables={isLoadingTables}
+                  isLoadingSPs={isLoadingSPs}
+                  onRefresh={() => {
+                    refetchTables();
+                    refetchProcedures();
+                  }}
+                />
+              </div>
+            </SheetContent>
+          </Sheet>
+        </div>
+      </div>
+
+      {/* 2. Scrollable Content */}
+      <ScrollArea className="flex-1">
+        <div className="flex flex-col min-h-full pb-20">
+          {/* Hero Section */}
+          {verdict && verdictStyle && (
+            <header
+              className={cn(
+                "px-8 py-10 border-b bg-gradient-to-b",
+                verdictStyle.bgGradient,
+              )}
+            >
+              <div className="max-w-6xl mx-auto w-full flex flex-col md:flex-row md:items-start justify-between gap-6">
+                <div className="space-y-2">
+                  <h1 className="text-3xl font-bold tracking-tight text-foreground">
+                    {verdict.summary}
+                  </h1>
+                  <p className="text-muted-foreground text-lg max-w-2xl leading-relaxed">
+                    Together these changes affect{" "}
+                    <span className="font-medium text-foreground">
+                      {report.response.entities.length} downstream entities
+                    </span>
+                    . Review the reasoning below before proceeding.
+                  </p>
+                </div>
+                <div className="flex flex-col items-end gap-2 flex-shrink-0">
+                  <div className="bg-background/80 backdrop-blur p-1 rounded-full border shadow-sm">
+                    <RiskBadge
+                      riskLevel={verdict.risk}
+                      score={getVerdictScore(verdict)}
+                    />
+                  </div>
+                  {verdict.requiresApproval && (
+                    <Badge variant="destructive" className="gap-1">
+                      <ShieldAlert className="w-3 h-3" />
+                      Approval required
+                    </Badge>
+                  )}
+                </div>
+              </div>
+            </header>
+          )}
+
+          <div className="max-w-6xl mx-auto w-full px-8 py-8 space-y-10">
+            {/* Change set builder */}
+            <section className="space-y-4">
+              <h3 className="text-lg font-semibold tracking-tight">
+                Changed Entities
+              </h3>
+              {items.length === 0 ? (
+                <div className="flex flex-col items-center justify-center py-12 text-center space-y-3 bg-muted/20 rounded-xl border border-dashed">
+                  <Boxes className="w-10 h-10 text-muted-foreground/30" />
+                  <p className="text-sm text-muted-foreground max-w-sm">
+                    Add the tables and stored procedures this deployment touches
+                    to see their combined downstream impact.
+                  </p>
+                </div>
+              ) : (
+                <Card className="divide-y border-border/60 shadow-sm py-0 gap-0">
+                  {results.map(({ item, data, isLoading, error }) => {
+                    const key = getChangeSetItemKey(item);
+                    const name =
+                      entityNames.get(key) ??
+                      data?.summary.rootEntity?.name ??
+                      `${getEntityTypeLabel(item.entityType)} #${item.entityId}`;
+                    return (
+                      <div
+                        key={key}
+                        className="flex flex-wrap items-center gap-3 px-4 py-3"
+                      >
+                        <EntityTypeIcon
+                          type={item.entityType}
+                          className="w-4 h-4 text-muted-foreground shrink-0"
+                        />
+                        <Link
+                          to={getEntityRoute(
+                            projectId,
+                            item.entityType,
+                            item.entityId,
+                          )}
+                          className="text-sm font-medium hover:text-primary hover:underline underline-offset-4"
+                        >
+                          {name}
+                        </Link>
+                        <Badge variant="outline" className="text-[10px]">
+                          {getEntityTypeLabel(item.entityType)}
+                        </Badge>
+                        <div className="ml-auto flex items-center gap-3">
+                          {isLoading ? (
+                            <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+                          ) : error ? (
+                            <span className="flex items-center gap-1 text-xs text-destructive">
+                              <AlertCircle className="w-3.5 h-3.5" />
+                              Failed
+                            </span>
+                          ) : data ? (
+                            <span className="text-xs text-muted-foreground">
+                              {data.entities.length} affected
+                            </span>
+                          ) : null}
+                          <Select
+                            value={item.changeType}
+                            onValueChange={(v) =>
+                              setChangeType(key, v as ImpactChangeType)
+                            }
+                          >
+                            <SelectTrigger className="w-[120px] h-8">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {CHANGE_TYPE_OPTIONS.map((option) => (
+                                <SelectItem
+                                  key={option.value}
+                                  value={option.value}
+                                >
+                                  {option.label}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8 text-muted-foreground"
+                            aria-label={`Remove ${name}`}
+                            onClick={() => removeItem(key)}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </Card>
+              )}
+
+              {failures.length > 0 && (
+                <Alert variant="destructive">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertTitle>
+                    {failures.length} of {items.length} analyses failed
+                  </AlertTitle>
+                  <AlertDescription>
+                    The merged report below only covers the entities that could
+                    be analyzed.
+                  </AlertDescription>
+                </Alert>
+              )}
+            </section>
+
+            {report && (
+              <>
+                <ImpactReasonsSection
+                  projectId={projectId!}
+                  reasons={report.response.verdict.reasons}
+                  entities={report.response.entities}
+                />
+                <ImpactEntitiesSection
+                  projectId={projectId!}
+                  entities={report.response.entities}
+                  causedBy={report.causedBy}
+                />
+              </>
+            )}
+          </div>
+        </div>
+      </ScrollArea>
+    </div>
+  );
+}
@@ -0,0 +1,656 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import {
+  ArrowDownWideNarrow,
+  ArrowRight,
+  ArrowUpNarrowWide,
+  Check,
+  GitBranch,
+  Keyboard,
+  ListChecks,
+  Loader2,
+  SkipForward,
+  Sparkles,
+  TriangleAlert,
+  X,
+} from "lucide-react";
+import { useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import { api } from "@/lib/api";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Separator } from "@/components/ui/separator";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { queryKeys, useApi, useApiPut } from "@/hooks/useApi";
+import { useAuthorization } from "@/hooks/useAuth";
+import type {
+  BulkLogicalFkStatusResult,
+  BulkUpdateLogicalFkStatusRequest,
+  LogicalFkReviewItem,
+  PendingFkCount,
+} from "@/types/er-diagram";
+
+type SortOrder = "desc" | "asc";
+
+const ALL = "all";
+
+const SHORTCUTS = [
+  { keys: "J / ↓", label: "Next" },
+  { keys: "K / ↑", label: "Previous" },
+  { keys: "C", label: "Confirm" },
+  { keys: "R", label: "Reject" },
+  { keys: "S", label: "Skip" },
+  { keys: "X", label: "Select" },
+];
+
+function isTypingTarget(target: EventTarget | null): boolean {
+  const element = target as HTMLElement | null;
+  if (!element) return false;
+  return (
+    element.isContentEditable ||
+    ["INPUT", "TEXTAREA", "SELECT"].includes(element.tagName) ||
+    element.getAttribute("role") === "combobox"
+  );
+}
+
+/**
+ * Logical FK review queue.
+ *
+ * Lists every SUGGESTED logical FK in the project so detection results can be worked
+ * through in one place: filter, sort by confidence, step through with the keyboard,
+ * or confirm/reject a selection in bulk. Progress comes from the pending-counts endpoint.
+ */
+export default function LogicalFkReviewPage() {
+  const { projectId } = useParams<{ projectId: string }>();
+  const numericProjectId = Number(projectId) || 0;
+  const queryClient = useQueryClient();
+  const canUpdate = useAuthorization("Schema:Update");
+
+  const [tableFilter, setTableFilter] = useState<string>(ALL);
+  const [methodFilter, setMethodFilter] = useState<string>(ALL);
+  const [ambiguousOnly, setAmbiguousOnly] = useState(false);
+  const [sortOrder, setSortOrder] = useState<SortOrder>("desc");
+  const [notes, setNotes] = useState("");
+  const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
+  const [skippedIds, setSkippedIds] = useState<Set<number>>(new Set());
+  // Hidden right away so the queue advances before the refetch lands
+  const [handledIds, setHandledIds] = useState<Set<number>>(new Set());
+  const [cursor, setCursor] = useState(0);
+  const [initialPending, setInitialPending] = useState<number | null>(null);
+  const rowRefs = useRef(new Map<number, HTMLDivElement>());
+
+  const {
+    data: queue,
+    isLoading,
+    refetch: refetchQueue,
+  } = useApi<LogicalFkReviewItem[]>(
+    `/logical-fks/${numericProjectId}/review-queue`,
+    {
+      queryKey: Array.from(queryKeys.logicalFks.reviewQueue(numericProjectId)),
+      enabled: numericProjectId > 0,
+    },
+  );
+
+  const { data: pendingCounts } = useApi<PendingFkCount[]>(
+    `/logical-fks/${numericProjectId}/pending-counts`,
+    {
+      queryKey: Array.from(queryKeys.logicalFks.pendingCounts(numericProjectId)),
+      enabled: numericProjectId > 0,
+    },
+  );
+
+  const invalidateKeys = [
+    Array.from(queryKeys.logicalFks.all(numericProjectId)),
+    Array.from(queryKeys.erDiagram.all(numericProjectId)),
+  ];
+
+  const confirmMutation = useApiPut<unknown, { id: number; notes?: string }>(
+    `/logical-fks/${numericProjectId}/:id/confirm`,
+    { showSuccessToast: false, invalidateKeys },
+  );
+  const rejectMutation = useApiPut<unknown, { id: number; notes?: string }>(
+    `/logical-fks/${numericProjectId}/:id/reject`,
+    { showSuccessToast: false, invalidateKeys },
+  );
+  const bulkConfirmMutation = useApiPut<
+    BulkLogicalFkStatusResult,
+    BulkUpdateLogicalFkStatusRequest
+  >(`/logical-fks/${numericProjectId}/bulk/confirm`, {
+    showSuccessToast: false,
+    invalidateKeys,
+  });
+  const bulkRejectMutation = useApiPut<
+    BulkLogicalFkStatusResult,
+    BulkUpdateLogicalFkStatusRequest
+  >(`/logical-fks/${numericProjectId}/bulk/reject`, {
+    showSuccessToast: false,
+    invalidateKeys,
+  });
+
+  // ─── Derived data ───────────────────────────────────────────────────
+  const pendingByTable = useMemo(
+    () => new Map((pendingCounts ?? []).map((c) => [c.tableId, c.pendingCount])),
+    [pendingCounts],
+  );
+
+  const tableOptions = useMemo(() => {
+    const names = new Map<number, string>();
+    for (const item of queue ?? []) {
+      names.set(item.sourceTableId, item.sourceTableName);
+      names.set(item.targetTableId, item.targetTableName);
+    }
+    return Array.from(names, ([tableId, tableName]) => ({ tableId, tableName }))
+      .sort((a, b) => a.tableName.localeCompare(b.tableName));
+  }, [queue]);
+
+  const methodOptions = useMemo(
+    () =>
+      Array.from(new Set((queue ?? []).flatMap((i) => i.discoveryMethods))).sort(),
+    [queue],
+  );
+
+  const visibleItems = useMemo(() => {
+    const tableId = tableFilter === ALL ? null : Number(tableFilter);
+    const items = (queue ?? []).filter(
+      (item) =>
+        !handledIds.has(item.logicalFkId) &&
+        (tableId === null ||
+          item.sourceTableId === tableId ||
+          item.targetTableId === tableId) &&
+        (methodFilter === ALL || item.discoveryMethods.includes(methodFilter)) &&
+        (!ambiguousOnly || item.isAmbiguous),
+    );
+    return items.sort((a, b) =>
+      sortOrder === "desc"
+        ? b.confidenceScore - a.confidenceScore
+        : a.confidenceScore - b.confidenceScore,
+    );
+  }, [queue, handledIds, tableFilter, methodFilter, ambiguousOnly, sortOrder]);
+
+  const activeIndex = Math.min(cursor, Math.max(visibleItems.length - 1, 0));
+  const activeItem = visibleItems[activeIndex];
+
+  // Pending-counts lists every FK under both of its tables; halve the total to count
+  // each suggestion once, keeping self-references whole.
+  const pendingTotal = useMemo(() => {
+    if (!pendingCounts || !queue) return null;
+    const selfReferences = queue.filter(
+      (i) => i.sourceTableId === i.targetTableId,
+    ).length;
+    const sum = pendingCounts.reduce((acc, c) => acc + c.pendingCount, 0);
+    return (sum + selfReferences) / 2;
+  }, [pendingCounts, queue]);
+
+  useEffect(() => {
+    if (initialPending === null && pendingTotal !== null) {
+      setInitialPending(pendingTotal);
+    }
+  }, [initialPending, pendingTotal]);
+
+  const reviewedCount =
+    initialPending !== null && pendingTotal !== null
+      ? Math.max(initialPending - pendingTotal, 0)
+      : 0;
+  const progressValue =
+    initialPending ? Math.round((reviewedCount / initialPending) * 100) : 0;
+
+  // Keep the active row in view while stepping with the keyboard
+  useEffect(() => {
+    if (!activeItem) return;
+    rowRefs.current
+      .get(activeItem.logicalFkId)
+      ?.scrollIntoView({ block: "nearest" });
+  }, [activeItem]);
+
+  // ─── Actions ────────────────────────────────────────────────────────
+  const markHandled = useCallback((ids: number[]) => {
+    setHandledIds((prev) => new Set([...prev, ...ids]));
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      ids.forEach((id) => next.delete(id));
+      return next;
+    });
+  }, []);
+
+  const unmarkHandled = useCallback((ids: number[]) => {
+    setHandledIds((prev) => {
+      const next = new Set(prev);
+      ids.forEach((id) => next.delete(id));
+      return next;
+    });
+  }, []);
+
+  const reviewOne = useCallback(
+    (item: LogicalFkReviewItem, action: "confirm" | "reject") => {
+      const id = item.logicalFkId;
+      const mutation = action === "confirm" ? confirmMutation : rejectMutation;
+      markHandled([id]);
+      mutation.mutate(
+        { id, notes: notes.trim() || undefined },
+        {
+          onSuccess: () =>
+            toast.success(
+              `${action === "confirm" ? "Confirmed" : "Rejected"} ${item.sourceTableName} → ${item.targetTableName}`,
+            ),
+          onError: () => unmarkHandled([id]),
+        },
+      );
+    },
+    [confirmMutation, rejectMutation, notes, markHandled, unmarkHandled],
+  );
+
+  const reviewSelected = (action: "confirm" | "reject") => {
+    const ids = Array.from(selectedIds);
+    if (ids.length === 0) return;
+    const mutation =
+      action === "confirm" ? bulkConfirmMutation : bulkRejectMutation;
+    markHandled(ids);
+    mutation.mutate(
+      { logicalFkIds: ids, notes: notes.trim() || undefined },
+      {
+        onSuccess: (result) => {
+          const verb = action === "confirm" ? "Confirmed" : "Rejected";
+          toast.success(`${verb} ${result.updatedIds.length} relationship(s)`);
+          if (result.notFoundIds.length > 0) {
+            toast.warning(
+              `${result.notFoundIds.length} suggestion(s) no longer exist`,
+            );
+          }
+          setNotes("");
+        },
+        onError: () => unmarkHandled(ids),
+      },
+    );
+  };
+
+  const skip = useCallback((item: LogicalFkReviewItem, index: number) => {
+    setSkippedIds((prev) => new Set(prev).add(item.logicalFkId));
+    setCursor(index + 1);
+  }, []);
+
+  const toggleSelected = useCallback((id: number) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  }, []);
+
+  const allVisibleSelected =
+    visibleItems.length > 0 &&
+    visibleItems.every((i) => selectedIds.has(i.logicalFkId));
+
+  const toggleAllVisible = () => {
+    setSelectedIds(
+      allVisibleSelected
+        ? new Set()
+        : new Set(visibleItems.map((i) => i.logicalFkId)),
+    );
+  };
+
+  const handleRunDetection = async () => {
+    try {
+      await api.get(`/logical-fks/${numericProjectId}/detect-candidates`);
+      await queryClient.invalidateQueries({
+        queryKey: Array.from(queryKeys.logicalFks.all(numericProjectId)),
+      });
+      setHandledIds(new Set());
+      setInitialPending(null);
+      toast.success("Detection complete");
+    } catch {
+      toast.error("Detection failed");
+    }
+  };
+
+  // ─── Keyboard shortcuts ─────────────────────────────────────────────
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.ctrlKey || event.metaKey || event.altKey) return;
+      if (isTypingTarget(event.target)) return;
+
+      const key = event.key.toLowerCase();
+      if (key === "j" || key === "arrowdown") {
+        event.preventDefault();
+        setCursor(Math.min(activeIndex + 1, visibleItems.length - 1));
+      } else if (key === "k" || key === "arrowup") {
+        event.preventDefault();
+        setCursor(Math.max(activeIndex - 1, 0));
+      } else if (!activeItem) {
+        return;
+      } else if (key === "x") {
+        event.preventDefault();
+        toggleSelected(activeItem.logicalFkId);
+      } else if (key === "s") {
+        event.preventDefault();
+        skip(activeItem, activeIndex);
+      } else if (canUpdate && key === "c") {
+        event.preventDefault();
+        reviewOne(activeItem, "confirm");
+      } else if (canUpdate && key === "r") {
+        event.preventDefault();
+        reviewOne(activeItem, "reject");
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [activeIndex, activeItem, visibleItems.length, canUpdate, reviewOne, skip, toggleSelected]);
+
+  const isBulkPending =
+    bulkConfirmMutation.isPending || bulkRejectMutation.isPending;
+
+  return (
+    <div className="flex flex-col h-auto bg-background">
+      {/* Header */}
+      <div className="px-6 py-3 border-b flex items-center justify-between bg-background/95 backdrop-blur z-30 sticky top-0 supports-[backdrop-filter]:bg-background/60">
+        <div className="flex items-center gap-4">
+          <Button
+            variant="ghost"
+            size="sm"
+            asChild
+            className="-ml-2 text-muted-foreground"
+          >
+            <Link to={`/project/${projectId}/er-diagram`}>
+              <GitBranch className="w-4 h-4 mr-2" />
+              ER Diagram
+            </Link>
+          </Button>
+          <Separator orientation="vertical" className="h-4" />
+          <div className="flex items-center gap-2">
+            <ListChecks className="w-4 h-4 text-primary" />
+            <span className="text-sm font-semibold">Logical FK Review</span>
+            <Badge variant="outline" className="text-[10px] h-5 px-1.5">
+              {pendingTotal ?? "…"} PENDING
+            </Badge>
+            {isLoading && (
+              <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+            )}
+          </div>
+        </div>
+        <div className="flex items-center gap-4">
+          <div className="flex items-center gap-2 w-64">
+            <Progress value={progressValue} className="h-1.5" />
+            <span className="text-xs text-muted-foreground whitespace-nowrap">
+              {reviewedCount} / {initialPending ?? "…"} reviewed
+            </span>
+          </div>
+          <Button variant="outline" size="sm" onClick={handleRunDetection}>
+            <Sparkles className="w-3.5 h-3.5 mr-1.5" />
+            Run Detection
+          </Button>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="px-6 py-3 border-b flex flex-wrap items-center gap-3">
+        <Select
+          value={tableFilter}
+          onValueChange={(v) => {
+            setTableFilter(v);
+            setCursor(0);
+          }}
+        >
+          <SelectTrigger className="w-60 h-8 text-xs">
+            <SelectValue placeholder="All tables" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All tables</SelectItem>
+            {tableOptions.map((t) => (
+              <SelectItem key={t.tableId} value={String(t.tableId)}>
+                {t.tableName}
+                <span className="ml-1 text-muted-foreground">
+                  ({pendingByTable.get(t.tableId) ?? 0})
+                </span>
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select
+          value={methodFilter}
+          onValueChange={(v) => {
+            setMethodFilter(v);
+            setCursor(0);
+          }}
+        >
+          <SelectTrigger className="w-48 h-8 text-xs">
+            <SelectValue placeholder="All methods" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All methods</SelectItem>
+            {methodOptions.map((m) => (
+              <SelectItem key={m} value={m}>
+                {m.toLowerCase().replace(/_/g, " ")}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <div className="flex items-center gap-2">
+          <Switch
+            id="lfk-ambiguous-only"
+            checked={ambiguousOnly}
+            onCheckedChange={(checked) => {
+              setAmbiguousOnly(checked);
+              setCursor(0);
+            }}
+          />
+          <Label htmlFor="lfk-ambiguous-only" className="text-xs">
+            Ambiguous only
+          </Label>
+        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-8 text-xs"
+          onClick={() => setSortOrder((o) => (o === "desc" ? "asc" : "desc"))}
+        >
+          {sortOrder === "desc" ? (
+            <ArrowDownWideNarrow className="w-3.5 h-3.5 mr-1.5" />
+          ) : (
+            <ArrowUpNarrowWide className="w-3.5 h-3.5 mr-1.5" />
+          )}
+          Confidence
+        </Button>
+        <div className="ml-auto flex items-center gap-3 text-[11px] text-muted-foreground">
+          <Keyboard className="w-3.5 h-3.5" />
+          {SHORTCUTS.map((s) => (
+            <span key={s.keys}>
+              <kbd className="font-mono px-1 py-0.5 rounded border bg-muted">
+                {s.keys}
+              </kbd>{" "}
+              {s.label}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      {/* Bulk bar */}
+      <div className="px-6 py-2 border-b flex items-center gap-3 bg-muted/30">
+        <Checkbox
+          checked={allVisibleSelected}
+          onCheckedChange={toggleAllVisible}
+          aria-label="Select all visible suggestions"
+        />
+        <span className="text-xs text-muted-foreground w-24">
+          {selectedIds.size} selected
+        </span>
+        <Input
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          maxLength={500}
+          placeholder="Notes for the next confirm / reject (optional)"
+          className="h-8 text-xs max-w-md"
+        />
+        <Button
+          size="sm"
+          className="h-8"
+          disabled={!canUpdate || selectedIds.size === 0 || isBulkPending}
+          onClick={() => reviewSelected("confirm")}
+        >
+          <Check className="w-3.5 h-3.5 mr-1.5" />
+          Confirm {selectedIds.size > 0 ? selectedIds.size : ""}
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-8 text-destructive hover:bg-destructive/10"
+          disabled={!canUpdate || selectedIds.size === 0 || isBulkPending}
+          onClick={() => reviewSelected("reject")}
+        >
+          <X className="w-3.5 h-3.5 mr-1.5" />
+          Reject {selectedIds.size > 0 ? selectedIds.size : ""}
+        </Button>
+        {isBulkPending && (
+          <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+        )}
+      </div>
+
+      {/* Queue */}
+      <div className="flex-1">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-16">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : visibleItems.length === 0 ? (
+          <div className="px-6 py-16 text-center">
+            <p className="text-sm text-muted-foreground mb-2">
+              {(queue ?? []).length === 0
+                ? "No suggestions waiting for review"
+                : "No suggestions match the current filters"}
+            </p>
+            {(queue ?? []).length === 0 && (
+              <Button variant="link" size="sm" onClick={() => refetchQueue()}>
+                Refresh
+              </Button>
+            )}
+          </div>
+        ) : (
+          <div className="divide-y">
+            {visibleItems.map((item, idx) => {
+              const isActive = idx === activeIndex;
+              return (
+                <div
+                  key={item.logicalFkId}
+                  ref={(el) => {
+                    if (el) rowRefs.current.set(item.logicalFkId, el);
+                    else rowRefs.current.delete(item.logicalFkId);
+                  }}
+                  onClick={() => setCursor(idx)}
+                  className={cn(
+                    "px-6 py-3 flex items-start gap-3 cursor-default transition-colors",
+                    isActive
+                      ? "bg-primary/5 border-l-2 border-l-primary"
+                      : "border-l-2 border-l-transparent hover:bg-muted/20",
+                    skippedIds.has(item.logicalFkId) && !isActive && "opacity-60",
+                  )}
+                >
+                  <Checkbox
+                    className="mt-0.5"
+                    checked={selectedIds.has(item.logicalFkId)}
+                    onCheckedChange={() => toggleSelected(item.logicalFkId)}
+                    onClick={(e) => e.stopPropagation()}
+                    aria-label={`Select ${item.sourceTableName} to ${item.targetTableName}`}
+                  />
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2 min-w-0 text-sm">
+                      <code className="text-xs font-mono bg-muted px-1.5 py-0.5 rounded truncate">
+                        {item.sourceTableName}.{item.sourceColumnNames.join(", ")}
+                      </code>
+                      <ArrowRight className="h-3.5 w-3.5 text-muted-foreground shrink-0" />
+                      <code className="text-xs font-mono text-amber-600 dark:text-amber-400 bg-amber-50 dark:bg-amber-950/30 px-1.5 py-0.5 rounded border border-amber-200 dark:border-amber-900 truncate">
+                        {item.targetTableName}.{item.targetColumnNames.join(", ")}
+                      </code>
+                      {item.isAmbiguous && (
+                        <Badge
+                          variant="outline"
+                          className="text-[10px] h-5 px-1.5 border-orange-300 text-orange-600 dark:text-orange-400 shrink-0"
+                        >
+                          <TriangleAlert className="h-3 w-3 mr-1" />
+                          Ambiguous
+                        </Badge>
+                      )}
+                      {skippedIds.has(item.logicalFkId) && (
+                        <span className="text-[10px] text-muted-foreground shrink-0">
+                          skipped
+                        </span>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-3 mt-1.5 text-[11px] text-muted-foreground">
+                      <span>
+                        Confidence: {Math.round(item.confidenceScore * 100)}%
+                      </span>
+                      <span>•</span>
+                      <span>
+                        {item.discoveryMethods
+                          .map((m) => m.toLowerCase().replace(/_/g, " "))
+                          .join(", ")}
+                      </span>
+                    </div>
+                    {isActive && item.reason && (
+                      <p className="mt-1.5 text-xs text-muted-foreground">
+                        {item.reason}
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-1.5 shrink-0">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 px-2 text-green-600 hover:text-green-700 hover:bg-green-50 dark:hover:bg-green-950/30"
+                      disabled={!canUpdate}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        reviewOne(item, "confirm");
+                      }}
+                    >
+                      <Check className="h-3.5 w-3.5 mr-1" />
+                      Confirm
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 px-2 text-destructive hover:bg-destructive/10"
+                      disabled={!canUpdate}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        reviewOne(item, "reject");
+                      }}
+                    >
+                      <X className="h-3.5 w-3.5 mr-1" />
+                      Reject
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 px-2 text-muted-foreground"
+                      aria-label="Skip"
+                      title="Skip"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        skip(item, idx);
+                      }}
+                    >
+                      <SkipForward className="h-3.5 w-3.5" />
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
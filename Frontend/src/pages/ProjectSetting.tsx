@@ -40,6 +40,7 @@ import type {
   ProjectResponse,
 } from "../types/project";
 import { SchemaDiffPanel } from "../components/project/SchemaDiffPanel";
+import { CompletenessRulesSettings } from "../components/context/CompletenessRulesSettings";
 import { useConfirm } from "../hooks/useConfirm";
 import {
   Breadcrumb,
@@ -734,6 +735,12 @@ export default function ProjectSettings() {
         <SchemaDiffPanel projectId={Number(projectId)} />
       )}
 
+      {/* Context Completeness Rules */}
+      <CompletenessRulesSettings
+        projectId={Number(projectId)}
+        canEdit={canUpdateProjects}
+      />
+
       {/* Danger Zone */}
       {canDeleteProjects && (
         <Card className="border-destructive">
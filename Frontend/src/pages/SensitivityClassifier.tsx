@@ -0,0 +1,465 @@
+import { useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import {
+  Check,
+  LayoutDashboard,
+  Loader2,
+  RefreshCw,
+  Search,
+  ShieldCheck,
+  X,
+} from "lucide-react";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Separator } from "@/components/ui/separator";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { TableSkeleton } from "@/components/ui/skeletons";
+import { SENSITIVITY_OPTIONS } from "@/components/context/contextGridEdits";
+import { useAuthorization } from "@/hooks/useAuth";
+import {
+  useAcceptSensitivityProposals,
+  useRejectSensitivityProposals,
+  useSensitivityProposals,
+} from "@/hooks/useContext";
+import { useProject } from "@/hooks/useProject";
+import type {
+  SensitivityDecision,
+  SensitivityLevel,
+  SensitivityProposal,
+} from "@/types/context";
+
+const ALL = "all";
+
+const LEVEL_STYLES: Record<SensitivityLevel, string> = {
+  PUBLIC: "border-green-300 text-green-700 dark:text-green-400",
+  INTERNAL: "border-blue-300 text-blue-700 dark:text-blue-400",
+  PII: "border-red-300 text-red-700 dark:text-red-400",
+  FINANCIAL: "border-red-300 text-red-700 dark:text-red-400",
+  SENSITIVE: "border-orange-300 text-orange-700 dark:text-orange-400",
+};
+
+/**
+ * Project-wide sensitivity classifier review.
+ *
+ * The backend matches every column's name and data type against the configured rule
+ * packs and proposes a sensitivity tag with its reasons. Proposals are accepted (saved
+ * as the column's context, with history) or rejected (never proposed again), one by one
+ * or in bulk; the proposed level can be changed before accepting.
+ */
+export default function SensitivityClassifierPage() {
+  const { selectedProject, selectedProjectId, hasProject } = useProject();
+  const canUpdate = useAuthorization("Contexts:Update");
+
+  const [search, setSearch] = useState("");
+  const [levelFilter, setLevelFilter] = useState<SensitivityLevel | typeof ALL>(ALL);
+  const [packFilter, setPackFilter] = useState<string>(ALL);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  // Per-column override of the proposed level
+  const [overrides, setOverrides] = useState<Map<number, SensitivityLevel>>(new Map());
+  // Hidden right away so the list shrinks before the rescan lands
+  const [handledIds, setHandledIds] = useState<Set<number>>(new Set());
+
+  const { data: scan, isLoading, isFetching, refetch } = useSensitivityProposals();
+  const acceptMutation = useAcceptSensitivityProposals();
+  const rejectMutation = useRejectSensitivityProposals();
+  const isSaving = acceptMutation.isPending || rejectMutation.isPending;
+
+  const pending = useMemo(
+    () => (scan?.proposals ?? []).filter((p) => !handledIds.has(p.columnId)),
+    [scan, handledIds],
+  );
+
+  const visible = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    return pending.filter(
+      (p) =>
+        (levelFilter === ALL || levelFilter === levelOf(p, overrides)) &&
+        (packFilter === ALL || p.rulePack === packFilter) &&
+        (!term ||
+          p.columnName.toLowerCase().includes(term) ||
+          p.tableName.toLowerCase().includes(term)),
+    );
+  }, [pending, search, levelFilter, packFilter, overrides]);
+
+  const selectedVisible = visible.filter((p) => selected.has(p.columnId));
+  const allVisibleSelected = visible.length > 0 && selectedVisible.length === visible.length;
+
+  const toggleSelected = (columnId: number) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(columnId)) next.delete(columnId);
+      else next.add(columnId);
+      return next;
+    });
+  };
+
+  const toggleAllVisible = () => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      visible.forEach((p) => (allVisibleSelected ? next.delete(p.columnId) : next.add(p.columnId)));
+      return next;
+    });
+  };
+
+  const setProposalsHandled = (columnIds: number[], handled: boolean) => {
+    setHandledIds((prev) => {
+      const next = new Set(prev);
+      columnIds.forEach((id) => (handled ? next.add(id) : next.delete(id)));
+      return next;
+    });
+    if (handled) {
+      setSelected((prev) => {
+        const next = new Set(prev);
+        columnIds.forEach((id) => next.delete(id));
+        return next;
+      });
+    }
+  };
+
+  const accept = (proposals: SensitivityProposal[]) => {
+    if (proposals.length === 0) return;
+    const decisions: SensitivityDecision[] = proposals.map((p) => ({
+      columnId: p.columnId,
+      sensitivity: levelOf(p, overrides),
+    }));
+    const ids = proposals.map((p) => p.columnId);
+    setProposalsHandled(ids, true);
+
+    acceptMutation.mutate(
+      { decisions },
+      {
+        onSuccess: (results) => {
+          const failed = results.filter((r) => !r.success);
+          if (failed.length === 0) {
+            toast.success(`Tagged ${results.length} column(s)`);
+            return;
+          }
+          toast.warning(`Tagged ${results.length - failed.length} of ${results.length} column(s)`, {
+            description: failed.map((r) => `${r.entityName}: ${r.error}`).join("\n"),
+          });
+        },
+        onError: () => setProposalsHandled(ids, false),
+      },
+    );
+  };
+
+  const reject = (proposals: SensitivityProposal[]) => {
+    if (proposals.length === 0) return;
+    const decisions: SensitivityDecision[] = proposals.map((p) => ({
+      columnId: p.columnId,
+      sensitivity: p.proposedSensitivity,
+    }));
+    const ids = proposals.map((p) => p.columnId);
+    setProposalsHandled(ids, true);
+
+    rejectMutation.mutate(
+      { decisions },
+      {
+        onSuccess: () => toast.success(`Rejected ${proposals.length} proposal(s)`),
+        onError: () => setProposalsHandled(ids, false),
+      },
+    );
+  };
+
+  const handleRescan = () => {
+    setHandledIds(new Set());
+    setSelected(new Set());
+    setOverrides(new Map());
+    refetch();
+  };
+
+  if (!hasProject) {
+    return (
+      <div className="flex flex-col items-center justify-center h-[60vh] p-6 text-center">
+        <h2 className="text-xl font-semibold mb-2">No Project Selected</h2>
+        <p className="text-muted-foreground mb-6">
+          Please select a project to classify its columns.
+        </p>
+        <Button asChild variant="outline">
+          <Link to="/projects">Select Project</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col h-auto bg-background">
+      {/* Header */}
+      <div className="px-6 py-3 border-b flex items-center justify-between bg-background/95 backdrop-blur z-30 sticky top-0 supports-[backdrop-filter]:bg-background/60">
+        <div className="flex items-center gap-4">
+          <Button
+            variant="ghost"
+            size="sm"
+            asChild
+            className="-ml-2 text-muted-foreground"
+          >
+            <Link to="/">
+              <LayoutDashboard className="w-4 h-4 mr-2" />
+              Context Dashboard
+            </Link>
+          </Button>
+          <Separator orientation="vertical" className="h-4" />
+          <div className="flex items-center gap-2">
+            <ShieldCheck className="w-4 h-4 text-primary" />
+            <span className="text-sm font-semibold">Sensitivity Classifier</span>
+            <Badge variant="outline" className="text-[10px] h-5 px-1.5">
+              {scan ? pending.length : "…"} PROPOSED
+            </Badge>
+            <Badge variant="outline" className="font-normal text-xs">
+              {selectedProject?.projectName}
+            </Badge>
+            {isFetching && (
+              <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+            )}
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="ghost" size="sm" onClick={handleRescan}>
+            <RefreshCw className="w-3.5 h-3.5 mr-1.5" />
+            Rescan
+          </Button>
+          {canUpdate && (
+            <>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={isSaving || selectedVisible.length === 0}
+                onClick={() => reject(selectedVisible)}
+              >
+                <X className="w-3.5 h-3.5 mr-1.5" />
+                Reject ({selectedVisible.length})
+              </Button>
+              <Button
+                size="sm"
+                disabled={isSaving || selectedVisible.length === 0}
+                onClick={() => accept(selectedVisible)}
+              >
+                {acceptMutation.isPending ? (
+                  <Loader2 className="w-3.5 h-3.5 mr-1.5 animate-spin" />
+                ) : (
+                  <Check className="w-3.5 h-3.5 mr-1.5" />
+                )}
+                Accept ({selectedVisible.length})
+              </Button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="px-6 py-3 border-b flex flex-wrap items-center gap-3">
+        <div className="relative w-64">
+          <Search className="absolute left-2.5 top-2 h-4 w-4 text-muted-foreground" />
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Filter by table or column"
+            className="h-8 pl-8 text-xs"
+          />
+        </div>
+        <Select
+          value={levelFilter}
+          onValueChange={(value) => setLevelFilter(value as SensitivityLevel | typeof ALL)}
+        >
+          <SelectTrigger className="w-40 h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All levels</SelectItem>
+            {SENSITIVITY_OPTIONS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={packFilter} onValueChange={setPackFilter}>
+          <SelectTrigger className="w-48 h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All rule packs</SelectItem>
+            {(scan?.rulePacks ?? []).map((pack) => (
+              <SelectItem key={pack} value={pack}>
+                {pack}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {scan && (
+          <span className="ml-auto text-xs text-muted-foreground">
+            {scan.scannedColumns} columns scanned
+            {scan.rejectedProposals > 0 && ` · ${scan.rejectedProposals} previously rejected hidden`}
+          </span>
+        )}
+      </div>
+
+      {/* Proposals */}
+      <div className="flex-1">
+        {isLoading ? (
+          <div className="p-6">
+            <TableSkeleton columns={6} rows={8} />
+          </div>
+        ) : visible.length === 0 ? (
+          <div className="px-6 py-16 text-center">
+            <ShieldCheck className="h-8 w-8 mx-auto mb-3 text-green-500" />
+            <p className="text-sm text-muted-foreground">
+              {pending.length === 0
+                ? "No sensitivity tags to propose"
+                : "No proposals match the current filters"}
+            </p>
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                {canUpdate && (
+                  <TableHead className="w-10 pl-6">
+                    <Checkbox
+                      checked={allVisibleSelected}
+                      onCheckedChange={toggleAllVisible}
+                      aria-label="Select all"
+                    />
+                  </TableHead>
+                )}
+                <TableHead>Column</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Current</TableHead>
+                <TableHead>Proposed</TableHead>
+                <TableHead>Why</TableHead>
+                {canUpdate && <TableHead className="w-40 pr-6" />}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visible.map((proposal) => {
+                const level = levelOf(proposal, overrides);
+                return (
+                  <TableRow
+                    key={proposal.columnId}
+                    data-state={selected.has(proposal.columnId) ? "selected" : undefined}
+                  >
+                    {canUpdate && (
+                      <TableCell className="pl-6">
+                        <Checkbox
+                          checked={selected.has(proposal.columnId)}
+                          onCheckedChange={() => toggleSelected(proposal.columnId)}
+                          aria-label={`Select ${proposal.tableName}.${proposal.columnName}`}
+                        />
+                      </TableCell>
+                    )}
+                    <TableCell className="font-medium">
+                      <Link
+                        to={`/project/${selectedProjectId}/entities/column/${proposal.columnId}/documentation`}
+                        className="hover:underline"
+                      >
+                        <span className="text-muted-foreground">{proposal.tableName}.</span>
+                        {proposal.columnName}
+                      </Link>
+                    </TableCell>
+                    <TableCell className="font-mono text-xs text-muted-foreground">
+                      {proposal.dataType}
+                    </TableCell>
+                    <TableCell>
+                      {proposal.currentSensitivity ? (
+                        <LevelBadge level={proposal.currentSensitivity} />
+                      ) : (
+                        <span className="text-xs text-muted-foreground">—</span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {canUpdate ? (
+                        <Select
+                          value={level}
+                          onValueChange={(value) =>
+                            setOverrides((prev) => new Map(prev).set(proposal.columnId, value as SensitivityLevel))
+                          }
+                        >
+                          <SelectTrigger className={cn("w-32 h-7 text-xs", LEVEL_STYLES[level])}>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {SENSITIVITY_OPTIONS.map((option) => (
+                              <SelectItem key={option.value} value={option.value}>
+                                {option.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      ) : (
+                        <LevelBadge level={level} />
+                      )}
+                    </TableCell>
+                    <TableCell className="text-xs text-muted-foreground">
+                      {proposal.reasons.map((reason) => (
+                        <div key={reason}>{reason}</div>
+                      ))}
+                    </TableCell>
+                    {canUpdate && (
+                      <TableCell className="pr-6">
+                        <div className="flex items-center justify-end gap-1.5">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-7 px-2 text-green-600 hover:text-green-700 hover:bg-green-50 dark:hover:bg-green-950/30"
+                            disabled={isSaving}
+                            onClick={() => accept([proposal])}
+                          >
+                            <Check className="h-3.5 w-3.5 mr-1" />
+                            Accept
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-7 px-2 text-muted-foreground"
+                            disabled={isSaving}
+                            onClick={() => reject([proposal])}
+                          >
+                            <X className="h-3.5 w-3.5 mr-1" />
+                            Reject
+                          </Button>
+                        </div>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function LevelBadge({ level }: { level: SensitivityLevel }) {
+  return (
+    <Badge variant="outline" className={cn("text-[10px] h-5 px-1.5", LEVEL_STYLES[level])}>
+      {level}
+    </Badge>
+  );
+}
+
+function levelOf(
+  proposal: SensitivityProposal,
+  overrides: Map<number, SensitivityLevel>,
+): SensitivityLevel {
+  return overrides.get(proposal.columnId) ?? proposal.proposedSensitivity;
+}
@@ -1,4 +1,5 @@
-import { useCallback, useEffect, useMemo, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useSearchParams } from "react-router-dom";
 import { useToast } from "../hooks/useToast";
 import { useAuthorization } from "../hooks/useAuth";
 import { ArrowLeft } from "lucide-react";
@@ -8,8 +9,11 @@ import type { SPType } from "@/components/spgen/SPTypeCard";
 
 import { Skeleton, FormSkeleton } from "../components/ui/skeletons";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { cn } from "../lib/utils";
-import { useProject, useProjectTables, useTableSchema } from "../hooks/useProject";
+import { getSqlDialect, SQL_DIALECT_LABELS, SQL_DIALECT_LANGUAGES, type SqlDialect } from "../lib/schema-utils";
+import { useExistingProcedure, useProject, useProjectTables, useTableSchema } from "../hooks/useProject";
 import { useApiMutation } from "../hooks/useApi";
 
 // modular imports
@@ -17,8 +21,19 @@ import StepperHeader, { type Step } from "@/components/spgen/StepperHeader";
 import StepSelectTable from "@/components/spgen/StepSelectTable";
 import SPConfigPanel from "@/components/spgen/SPConfigPanel";
 import SPPreviewPane from "@/components/spgen/SPPreviewPanel";
-import { getDefaultSpConfig } from "@/components/spgen/spConfigDefaults";
-import type { SPConfigValues, TreeNode } from "@/schema/spBuilderSchema";
+import ExistingProcedurePanel from "@/components/spgen/ExistingProcedurePanel";
+import SpConfigMenu from "@/components/spgen/SpConfigMenu";
+import SpRegenerateDialog from "@/components/spgen/SpRegenerateDialog";
+import { getDefaultSpConfig, SP_TYPE_REQUEST_NAMES } from "@/components/spgen/spConfigDefaults";
+import {
+  buildSavedSpConfig,
+  buildSpColumns,
+  buildSpOptions,
+  resolveSpTarget,
+  spTypeFromRequestName,
+} from "@/components/spgen/spRequestBuilder";
+import { ConfigSchema, type SPConfigValues, type TreeNode } from "@/schema/spBuilderSchema";
+import type { SpConfig } from "@/types/sp-builder";
 
 export default function SpBuilder() {
   const { showToast: toast } = useToast();
@@ -30,28 +45,51 @@ export default function SpBuilder() {
   const [spType, setSpType] = useState<SPType>("CUD");
   const [sqlCode, setSqlCode] = useState<string>("-- Generated SQL will appear here");
   const [isGenerating, setIsGenerating] = useState(false);
+  const [generatedSpName, setGeneratedSpName] = useState<string | undefined>(undefined);
+  const [previewView, setPreviewView] = useState<"code" | "diff" | "type">("code");
+  // Bulk TVP: the CREATE TYPE script is a separate batch from the procedure
+  const [tableTypeCode, setTableTypeCode] = useState<string | undefined>(undefined);
+  const [generatedDialect, setGeneratedDialect] = useState<SqlDialect | undefined>(undefined);
   const [isFullscreen, setIsFullscreen] = useState(false); // Used in layout wrappers if any
 
+  const [searchParams] = useSearchParams();
+  const linkedTable = searchParams.get("table");
+  const appliedLinkedTableRef = useRef<string | null>(null);
+
   const { selectedProject } = useProject();
   const { tables, isLoading: isLoadingTables } = useProjectTables();
   const { schema: tableSchema, isLoading: isLoadingSchema, error: schemaError } = useTableSchema(selectedTable || undefined);
+  const { procedure: existingProcedure, definition: existingDefinition } = useExistingProcedure(generatedSpName);
 
   const generateMutation = useApiMutation("/SpBuilder/generate", "POST", {
     onSuccess: (result: any) => {
       const generatedCode = result.storedProcedure?.code || "-- No code generated";
       setSqlCode(generatedCode);
+      setGeneratedSpName(result.storedProcedure?.spName);
+      setTableTypeCode(result.tableType?.code);
+      setGeneratedDialect(result.dialect);
+      setPreviewView("code");
       // Advance to preview
       setStep(2);
       setCompletedUpTo(2);
-      toast({ title: "Success", description: `Generated ${spType} stored procedure` });
+      const kind = result.dialect === "PostgreSql" ? "function" : "stored procedure";
+      toast({ title: "Success", description: `Generated ${spType} ${kind}` });
     },
     onError: (error) => {
       setSqlCode(`-- Error generating SQL: ${error.message}`);
+      setGeneratedSpName(undefined);
+      setTableTypeCode(undefined);
       toast({ title: "Error", description: "Failed to generate stored procedure", type: "error" });
     },
   });
 
   const [config, setConfig] = useState<SPConfigValues>(getDefaultSpConfig("CUD"));
+  // Bumped when a saved configuration is loaded, so SPConfigPanel re-mounts with it
+  const [configRevision, setConfigRevision] = useState(0);
+  // Latest unsubmitted form values, read when saving a configuration
+  const draftConfigRef = useRef<SPConfigValues | null>(null);
+  const [activeConfig, setActiveConfig] = useState<SpConfig | undefined>(undefined);
+  const [isRegenerateOpen, setIsRegenerateOpen] = useState(false);
 
   const treeData = useMemo<TreeNode[]>(() => {
     if (!selectedProject || !tables.length) return [];
@@ -105,9 +143,32 @@ export default function SpBuilder() {
     };
   }, [tableSchema, selectedTable]);
 
+  // Preselect a table linked via `?table=<name>`, with or without its schema prefix
+  useEffect(() => {
+    if (!linkedTable || !tables.length || appliedLinkedTableRef.current === linkedTable) return;
+    appliedLinkedTableRef.current = linkedTable;
+    const wanted = linkedTable.toLowerCase();
+    const match = tables.find((t) => t.toLowerCase() === wanted || t.toLowerCase().endsWith(`.${wanted}`));
+    if (match) setSelectedTable(match);
+  }, [linkedTable, tables]);
+
   const handleTreeSelect = useCallback((node: TreeNode) => {
-    if (node.type === "table") setSelectedTable(node.name);
-  }, []);
+    if (node.type !== "table" || node.name === selectedTable) return;
+    setSelectedTable(node.name);
+    // Include maps and the loaded configuration belong to the previous table
+    setConfig(getDefaultSpConfig(spType));
+    setActiveConfig(undefined);
+    draftConfigRef.current = null;
+  }, [selectedTable, spType]);
+
+  const spTarget = useMemo(
+    () => (selectedTable ? resolveSpTarget(tableSchema, selectedTable, selectedProject?.databaseType) : undefined),
+    [tableSchema, selectedTable, selectedProject?.databaseType]
+  );
+  const tableColumns = useMemo(
+    () => tableSchema?.schema?.columns || tableSchema?.columns || [],
+    [tableSchema]
+  );
 
   const handleTableNext = useCallback(() => {
     if (!selectedTable) return;
@@ -131,80 +192,54 @@ export default function SpBuilder() {
       }
       setIsGenerating(true);
 
-      let schemaName = (tableSchema.schemaName || "").trim();
-      let actualTableName = tableSchema.tableName || selectedTable;
-      if (!schemaName && selectedTable.includes(".")) {
-        const parts = selectedTable.split(".");
-        schemaName = parts[0];
-        actualTableName = parts.slice(1).join(".");
-      }
-      if (!schemaName) {
-        schemaName = "dbo";
-      }
-
+      const { schemaName, tableName } = resolveSpTarget(tableSchema, selectedTable, selectedProject.databaseType);
       const requestData = {
         projectId: selectedProject.projectId,
-        tableName: actualTableName,
-        schemaName: schemaName,
-        type: values.mode === "CUD" ? "Cud" : "Select",
-        columns: (tableSchema.schema?.columns || tableSchema.columns || []).map((col: any) => ({
-          columnName: col.columnName,
-          dataType: col.dataType,
-          maxLength: col.maxLength,
-          precision: col.precision,
-          scale: col.scale,
-          isNullable: col.isNullable,
-          isPrimaryKey: col.isPrimaryKey,
-          isIdentity: col.isIdentity,
-          includeInCreate: values.mode === "CUD" ? (values.includeInCreate[col.columnName] ?? true) : true,
-          includeInUpdate: values.mode === "CUD" ? (values.includeInUpdate[col.columnName] ?? true) : true,
-          defaultValue: col.defaultValue || "",
-        })),
-        cudOptions: values.mode === "CUD" ? {
-          spPrefix: values.spPrefix || "usp",
-          includeErrorHandling: values.includeErrorHandling ?? true,
-          includeTransaction: values.includeTransaction ?? true,
-          actionParamName: values.actionParamName || "Action",
-          generateCreate: values.generateCreate ?? true,
-          generateUpdate: values.generateUpdate ?? true,
-          generateDelete: values.generateDelete ?? true,
-        } : undefined,
-        selectOptions: values.mode === "SELECT" ? {
-          spPrefix: "usp",
-          filters: (values as any).filters?.map((f: any) => ({
-            columnName: f.column,
-            operator:
-              f.operator === "="
-                ? "Equals"
-                : f.operator === "LIKE"
-                  ? "Like"
-                  : f.operator === ">"
-                    ? "GreaterThan"
-                    : f.operator === "<"
-                      ? "LessThan"
-                      : f.operator === "IN"
-                        ? "In"
-                        : "Between",
-            isOptional: f.optional,
-          })) || [],
-          orderByColumns: (values as any).orderBy || [],
-          includePagination: (values as any).includePagination ?? true,
-        } : undefined,
+        tableName,
+        schemaName,
+        type: SP_TYPE_REQUEST_NAMES[values.mode],
+        columns: buildSpColumns(tableColumns, values),
+        ...buildSpOptions(values),
       };
 
       generateMutation.mutate(requestData as any, { onSettled: () => setIsGenerating(false) });
     },
-    [selectedProject, selectedTable, tableSchema, toast, generateMutation, canCreate]
+    [selectedProject, selectedTable, tableSchema, tableColumns, toast, generateMutation, canCreate]
   );
 
+  const getSavedConfig = useCallback(
+    () => buildSavedSpConfig(tableColumns, draftConfigRef.current ?? config),
+    [tableColumns, config]
+  );
+
+  const handleDraftChange = useCallback((values: SPConfigValues) => {
+    draftConfigRef.current = values;
+  }, []);
+
+  const handleLoadConfig = useCallback((loaded: SpConfig) => {
+    const type = spTypeFromRequestName(loaded.type);
+    const parsed = ConfigSchema.safeParse(loaded.config.editorState);
+    if (!type || !parsed.success || parsed.data.mode !== type) {
+      toast({ title: "Error", description: `The saved options of "${loaded.name}" could not be restored`, type: "error" });
+      return;
+    }
+    setActiveConfig(loaded);
+    setSpType(type);
+    setConfig(parsed.data);
+    draftConfigRef.current = null;
+    setConfigRevision((revision) => revision + 1);
+    setStep(1);
+  }, [toast]);
+
   const handleExport = useCallback(async (format: "sql" | "copy") => {
+    const exportedCode = previewView === "type" && tableTypeCode !== undefined ? tableTypeCode : sqlCode;
     switch (format) {
       case "sql": {
-        const blob = new Blob([sqlCode], { type: "text/sql" });
+        const blob = new Blob([exportedCode], { type: "text/sql" });
         const url = URL.createObjectURL(blob);
         const a = document.createElement("a");
         a.href = url;
-        const safeFileName = selectedTable ?? "export";
+        const safeFileName = `${selectedTable ?? "export"}${previewView === "type" ? "_type" : ""}`;
         a.download = `${safeFileName}.sql`;
         document.body.appendChild(a);
         a.click();
@@ -215,7 +250,7 @@ export default function SpBuilder() {
       }
       case "copy": {
         try {
-          await navigator.clipboard.writeText(sqlCode);
+          await navigator.clipboard.writeText(exportedCode);
           toast({ title: "Export", description: `Successfully copied to clipboard` });
         } catch {
           toast({ title: "Export", description: "Failed to copy to clipboard", type: "error" });
@@ -223,13 +258,28 @@ export default function SpBuilder() {
         break;
       }
     }
-  }, [selectedTable, sqlCode, toast]);
+  }, [selectedTable, sqlCode, tableTypeCode, previewView, toast]);
 
   const onChangeType = useCallback((t: SPType) => {
     setSpType(t);
     setConfig(getDefaultSpConfig(t));
+    draftConfigRef.current = null;
   }, []);
 
+  const configMenu = selectedProject && spTarget && (
+    <SpConfigMenu
+      projectId={selectedProject.projectId}
+      schemaName={spTarget.schemaName}
+      tableName={spTarget.tableName}
+      activeConfig={activeConfig}
+      getConfig={getSavedConfig}
+      onLoad={handleLoadConfig}
+      onSaved={setActiveConfig}
+      onDeleted={() => setActiveConfig(undefined)}
+      onRegenerate={() => setIsRegenerateOpen(true)}
+    />
+  );
+
   useEffect(() => {
     if (schemaError) {
       console.error("Failed to load schema in SpBuilder", schemaError);
@@ -278,10 +328,15 @@ export default function SpBuilder() {
                   <ArrowLeft className="w-4 h-4" />
                   Back to selection
                 </Button>
-                <h2 className="text-2xl font-bold tracking-tight text-foreground">Configure Procedure</h2>
-                <p className="text-sm text-muted-foreground mt-1">
-                  Adjust options for your stored procedure generation. Your schema is loaded below.
-                </p>
+                <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-4">
+                  <div>
+                    <h2 className="text-2xl font-bold tracking-tight text-foreground">Configure Procedure</h2>
+                    <p className="text-sm text-muted-foreground mt-1">
+                      Adjust options for your stored procedure generation. Your schema is loaded below.
+                    </p>
+                  </div>
+                  {!isLoadingSchema && !schemaError && configMenu}
+                </div>
               </div>
 
               {isLoadingSchema ? (
@@ -300,11 +355,13 @@ export default function SpBuilder() {
               ) : (
                 <div className="max-w-5xl">
                   <SPConfigPanel
+                    key={configRevision}
                     spType={spType}
                     config={config}
                     schema={schema as any}
                     onSubmit={handleConfigSubmit}
                     onChangeType={onChangeType}
+                    onValuesChange={handleDraftChange}
                   />
                 </div>
               )}
@@ -327,23 +384,63 @@ export default function SpBuilder() {
                 Back to Config
               </Button>
               <div className="flex w-full sm:w-auto items-center gap-2">
+                {generatedDialect && (
+                  <Badge variant="outline" className="font-mono" title="Dialect follows the project's database type">
+                    {SQL_DIALECT_LABELS[generatedDialect]}
+                  </Badge>
+                )}
+                {(existingProcedure || tableTypeCode !== undefined) && (
+                  <Tabs value={previewView} onValueChange={(v) => setPreviewView(v as "code" | "diff" | "type")}>
+                    <TabsList>
+                      <TabsTrigger value="code">Generated</TabsTrigger>
+                      {tableTypeCode !== undefined && <TabsTrigger value="type">Table type</TabsTrigger>}
+                      {existingProcedure && (
+                        <TabsTrigger value="diff" disabled={existingDefinition === undefined}>
+                          Diff vs. live
+                        </TabsTrigger>
+                      )}
+                    </TabsList>
+                  </Tabs>
+                )}
+                {configMenu}
                 <CodeExportButton
                   onExport={handleExport}
+                  dialect={generatedDialect}
                 />
               </div>
             </div>
 
-            <div className="flex-1 min-h-0 relative rounded-2xl overflow-hidden border border-border/40 shadow-xl">
-              <SPPreviewPane
-                sqlCode={sqlCode}
-                onChange={setSqlCode}
-                isLoading={isGenerating}
-              />
+            <div className="flex-1 min-h-0 flex flex-col lg:flex-row gap-4">
+              <div className="flex-1 min-w-0 relative rounded-2xl overflow-hidden border border-border/40 shadow-xl">
+                <SPPreviewPane
+                  sqlCode={previewView === "type" && tableTypeCode !== undefined ? tableTypeCode : sqlCode}
+                  onChange={previewView === "type" ? setTableTypeCode : setSqlCode}
+                  isLoading={isGenerating}
+                  originalCode={previewView === "diff" ? existingDefinition : undefined}
+                  language={SQL_DIALECT_LANGUAGES[generatedDialect ?? getSqlDialect(selectedProject?.databaseType)]}
+                />
+              </div>
+              {existingProcedure && selectedProject && (
+                <div className="shrink-0 max-h-72 lg:max-h-none lg:w-80">
+                  <ExistingProcedurePanel
+                    projectId={selectedProject.projectId}
+                    procedure={existingProcedure}
+                  />
+                </div>
+              )}
             </div>
           </div>
         )}
 
       </main>
+
+      {selectedProject && (
+        <SpRegenerateDialog
+          projectId={selectedProject.projectId}
+          open={isRegenerateOpen}
+          onOpenChange={setIsRegenerateOpen}
+        />
+      )}
     </div>
   );
 }
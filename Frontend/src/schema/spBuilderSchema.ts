@@ -30,13 +30,97 @@ export const FilterSchema = z.object({
     optional: z.boolean().default(false),
 });
 
+export const JoinSchema = z.object({
+    key: z.string(), // ER edge the join was picked from
+    tableName: z.string().min(1),
+    schemaName: z.string().default("dbo"),
+    alias: z.string().min(1, "Alias required"),
+    joinType: z.enum(["INNER", "LEFT"]).default("INNER"),
+    relationshipType: z.enum(["PHYSICAL", "LOGICAL"]),
+    on: z.array(z.object({ baseColumn: z.string(), joinColumn: z.string() })).min(1),
+});
+
+export const OutputColumnSchema = z.object({
+    kind: z.enum(["column", "computed"]).default("column"),
+    source: z.string().default(""), // join alias; empty = base table
+    column: z.string().default(""),
+    expression: z.string().default(""), // computed column
+    alias: z.string().default(""),
+    dataType: z.string().default(""), // joined column type, for PostgreSQL RETURNS TABLE
+});
+
 export const SELECTSchema = z.object({
     mode: z.literal("SELECT"),
     includePagination: z.boolean().default(true),
+    paginationMode: z.enum(["OFFSET", "KEYSET"]).default("OFFSET"),
+    includeTotalCount: z.boolean().default(true),
     orderBy: z.array(z.string()).default([]),
     filters: z.array(FilterSchema).default([]),
+    joins: z.array(JoinSchema).default([]),
+    outputColumns: z.array(OutputColumnSchema).default([]),
+    sortableColumns: z.array(z.string()).default([]),
+});
+
+export const UPSERTSchema = z.object({
+    mode: z.literal("UPSERT"),
+    spPrefix: z.string().min(1).default("usp"),
+    includeErrorHandling: z.boolean().default(true),
+    includeTransaction: z.boolean().default(true),
+    matchColumns: z.array(z.string()).default([]), // empty = primary key
+    updateWhenMatched: z.boolean().default(true),
+    insertWhenNotMatched: z.boolean().default(true),
+    outputAction: z.boolean().default(false),
+    includeInCreate: z.record(z.string(), z.boolean()).default({}),
+    includeInUpdate: z.record(z.string(), z.boolean()).default({}),
+});
+
+export const SOFTDELETESchema = z.object({
+    mode: z.literal("SOFT_DELETE"),
+    spPrefix: z.string().min(1).default("usp"),
+    includeErrorHandling: z.boolean().default(true),
+    includeTransaction: z.boolean().default(true),
+    isDeletedColumn: z.string().default("IsDeleted"),
+    deletedAtColumn: z.string().default("DeletedAt"),
+    deletedByColumn: z.string().default(""),
+    generateRestore: z.boolean().default(true),
+});
+
+export const BULKTVPSchema = z.object({
+    mode: z.literal("BULK_TVP"),
+    spPrefix: z.string().min(1).default("usp"),
+    includeErrorHandling: z.boolean().default(true),
+    includeTransaction: z.boolean().default(true),
+    tableTypeName: z.string().default(""), // empty = {Table}TableType
+    generateTableType: z.boolean().default(true),
+    generateInsert: z.boolean().default(true),
+    generateUpdate: z.boolean().default(true),
+    includeInCreate: z.record(z.string(), z.boolean()).default({}),
+    includeInUpdate: z.record(z.string(), z.boolean()).default({}),
+});
+
+export const AUDITSchema = z.object({
+    mode: z.literal("AUDIT"),
+    spPrefix: z.string().min(1).default("usp"),
+    includeErrorHandling: z.boolean().default(true),
+    includeTransaction: z.boolean().default(true),
+    actionParamName: z.string().min(1).default("Action"),
+    userParamName: z.string().min(1).default("UserId"),
+    createdByColumn: z.string().default("CreatedBy"),
+    createdAtColumn: z.string().default("CreatedAt"),
+    modifiedByColumn: z.string().default("ModifiedBy"),
+    modifiedAtColumn: z.string().default("ModifiedAt"),
+    useUtc: z.boolean().default(true),
+    includeInCreate: z.record(z.string(), z.boolean()).default({}),
+    includeInUpdate: z.record(z.string(), z.boolean()).default({}),
 });
 
-export const ConfigSchema = z.discriminatedUnion("mode", [CUDSchema, SELECTSchema]);
+export const ConfigSchema = z.discriminatedUnion("mode", [
+    CUDSchema,
+    SELECTSchema,
+    UPSERTSchema,
+    SOFTDELETESchema,
+    BULKTVPSchema,
+    AUDITSchema,
+]);
 
 export type SPConfigValues = z.infer<typeof ConfigSchema>;
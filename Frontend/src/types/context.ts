@@ -150,6 +150,10 @@ export interface ContextHistory {
   changedBy: number;
   changedAt: string;
   changeReason?: string;
+  changedByUsername?: string;
+  changedByFullName?: string;
+  /** False for fields that cannot be written back (e.g. retired fields) */
+  isRestorable: boolean;
 }
 
 // Request/Response DTOs
@@ -170,6 +174,8 @@ export interface SaveContextRequest {
   deprecationReason?: string;
   replacedBy?: string;
   expertUserIds?: number[];
+  /** Recorded in the history of every field this save changes */
+  changeReason?: string;
 }
 
 export interface ContextResponse {
@@ -180,6 +186,13 @@ export interface ContextResponse {
   dependencyCount: number;
 }
 
+export interface QuickSaveResponse {
+  context: EntityContext;
+  /** Scored with the project's completeness rules */
+  completenessScore: number;
+  message: string;
+}
+
 export interface ContextSuggestions {
   purpose?: string;
   businessDomain?: BusinessDomain;
@@ -215,6 +228,214 @@ export interface BulkImportResult {
   error?: string;
 }
 
+/** Row of the bulk context editor: entity metadata with its full context */
+export interface ContextGridRow {
+  entityType: EntityType;
+  entityId: number;
+  entityName: string;
+  /** Owning table for columns */
+  parentName?: string;
+
+  /** Null when the entity has no context yet */
+  contextId?: number;
+  purpose?: string;
+  businessImpact?: string;
+  criticalityLevel?: CriticalityLevel;
+  businessDomain?: BusinessDomain;
+  sensitivity?: SensitivityLevel;
+  dataSource?: string;
+  validationRules?: string;
+  retentionPolicy?: string;
+  dataFlow?: string;
+  frequency?: FrequencyLevel;
+  isDeprecated?: boolean;
+  deprecationReason?: string;
+  replacedBy?: string;
+  lastContextUpdate?: string;
+
+  expertUserIds: number[];
+}
+
+export type ContextExportFormat = "json" | "csv" | "xlsx";
+
+export interface ContextExportOptions {
+  format: ContextExportFormat;
+  /** Empty lists export every type / domain / sensitivity */
+  entityTypes: EntityType[];
+  domains: BusinessDomain[];
+  sensitivities: SensitivityLevel[];
+  minCriticality?: CriticalityLevel;
+  /** Completeness score range (0-100) */
+  minCompleteness?: number;
+  maxCompleteness?: number;
+  includeExperts: boolean;
+  includeHistory: boolean;
+}
+
+/** Stale documented entity in the review queue */
+export interface ContextReviewItem {
+  entityType: EntityType;
+  entityId: number;
+  entityName: string;
+  /** Owning table for columns */
+  parentName?: string;
+  purpose?: string;
+  criticalityLevel: CriticalityLevel;
+  referenceCount: number;
+  /** criticality × (references + 1) */
+  priorityScore: number;
+  lastContextUpdate?: string;
+  lastReviewedAt?: string;
+  lastReviewedByName?: string;
+  /** Days since the later of the last update and the last "still accurate" confirmation */
+  daysSinceVerified: number;
+  ownerNames: string[];
+}
+
+export interface ContextReviewDigestResult {
+  staleEntities: number;
+  notifiedOwners: number;
+  entitiesWithoutOwner: number;
+}
+
+/** Column tag proposed by the sensitivity classifier */
+export interface SensitivityProposal {
+  columnId: number;
+  columnName: string;
+  tableName: string;
+  dataType: string;
+  currentSensitivity?: SensitivityLevel;
+  proposedSensitivity: SensitivityLevel;
+  /** Highest-precedence matching rule pack */
+  rulePack: string;
+  reasons: string[];
+}
+
+export interface SensitivityScanResult {
+  scannedColumns: number;
+  /** Matches hidden because they were rejected before */
+  rejectedProposals: number;
+  rulePacks: string[];
+  proposals: SensitivityProposal[];
+}
+
+export interface SensitivityDecision {
+  columnId: number;
+  sensitivity: SensitivityLevel;
+}
+
+export type DeprecationStatus =
+  | "ANNOUNCED"
+  | "MIGRATING"
+  | "READY_TO_DROP"
+  | "DROPPED";
+
+export const DEPRECATION_STATUSES: { value: DeprecationStatus; label: string }[] = [
+  { value: "ANNOUNCED", label: "Announced" },
+  { value: "MIGRATING", label: "Migrating" },
+  { value: "READY_TO_DROP", label: "Ready to drop" },
+  { value: "DROPPED", label: "Dropped" },
+];
+
+/** Entity that still depends on a deprecated one */
+export interface DeprecationDependent {
+  entityType: EntityType;
+  entityId: number;
+  entityName: string;
+  dependencyTypes: string[];
+  /** 1 = references it directly; higher = through other dependents */
+  depth: number;
+  /** Going away too, so it doesn't block removal on its own */
+  isDeprecated: boolean;
+}
+
+/** Patcher page mapping that still names a deprecated procedure */
+export interface DeprecationPageMapping {
+  mappingId: number;
+  domainName: string;
+  pageName: string;
+  storedProcedure: string;
+  status: "candidate" | "approved";
+}
+
+export interface DeprecationBoardItem {
+  entityType: EntityType;
+  entityId: number;
+  entityName: string;
+  parentName?: string;
+  deprecationReason?: string;
+  replacedBy?: string;
+  status: DeprecationStatus;
+  targetRemovalDate?: string;
+  statusUpdatedAt?: string;
+  dependents: DeprecationDependent[];
+  pageMappings: DeprecationPageMapping[];
+  /** Past its target removal date and not dropped */
+  isOverdue: boolean;
+  /** Set when overdue or dropped while still referenced */
+  warning?: string;
+}
+
+export interface DeprecationBoard {
+  items: DeprecationBoardItem[];
+  statusCounts: Record<DeprecationStatus, number>;
+  warningCount: number;
+}
+
+/** Context field counted toward an entity type's completeness score */
+export interface CompletenessFieldRule {
+  field: CompletenessField;
+  weight: number;
+  /** Every required field must be filled for the entity to count as documented */
+  required: boolean;
+}
+
+export interface ContextCompletenessRules {
+  fields: Partial<Record<EntityType, CompletenessFieldRule[]>>;
+  goodThreshold: number;
+  fairThreshold: number;
+}
+
+export interface ContextCompletenessSettings {
+  rules: ContextCompletenessRules;
+  /** True when the project has no saved rules and the built-in ones apply */
+  isDefault: boolean;
+  updatedAt?: string;
+}
+
+export type CompletenessField =
+  | "Purpose"
+  | "BusinessImpact"
+  | "BusinessDomain"
+  | "Sensitivity"
+  | "DataSource"
+  | "ValidationRules"
+  | "RetentionPolicy"
+  | "DataFlow"
+  | "Frequency";
+
+export const COMPLETENESS_FIELDS: { field: CompletenessField; label: string }[] = [
+  { field: "Purpose", label: "Purpose" },
+  { field: "BusinessImpact", label: "Business Impact" },
+  { field: "BusinessDomain", label: "Business Domain" },
+  { field: "Sensitivity", label: "Sensitivity" },
+  { field: "DataSource", label: "Data Source" },
+  { field: "ValidationRules", label: "Validation Rules" },
+  { field: "RetentionPolicy", label: "Retention Policy" },
+  { field: "DataFlow", label: "Data Flow" },
+  { field: "Frequency", label: "Frequency" },
+];
+
+export type CompletenessThresholds = Pick<
+  ContextCompletenessRules,
+  "goodThreshold" | "fairThreshold"
+>;
+
+export const DEFAULT_COMPLETENESS_THRESHOLDS: CompletenessThresholds = {
+  goodThreshold: 80,
+  fairThreshold: 50,
+};
+
 export interface ContextCoverageStats {
   entityType: string;
   total: number;
@@ -320,9 +541,12 @@ export const SENSITIVITY_COLORS: Record<SensitivityLevel, string> = {
 
 // Helper functions (can be in a separate utils file)
 
-export function getCompletenessColor(score: number): string {
-  if (score >= 80) return "green";
-  if (score >= 50) return "yellow";
+export function getCompletenessColor(
+  score: number,
+  thresholds: CompletenessThresholds = DEFAULT_COMPLETENESS_THRESHOLDS,
+): string {
+  if (score >= thresholds.goodThreshold) return "green";
+  if (score >= thresholds.fairThreshold) return "yellow";
   return "red";
 }
 
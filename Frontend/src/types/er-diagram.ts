@@ -7,10 +7,32 @@
 
 export interface ErDiagramResponse {
     focusTableId: number;
+    /** All focus tables in request order; focusTableId is the first */
+    focusTableIds: number[];
     nodes: ErNodeData[];
     edges: ErEdgeData[];
 }
 
+/** One join along a path, oriented in walking direction */
+export interface ErJoinHop {
+    edgeId: string;
+    fromTableId: number;
+    fromColumnId: number;
+    fromColumnName: string;
+    toTableId: number;
+    toColumnId: number;
+    toColumnName: string;
+    relationshipType: "PHYSICAL" | "LOGICAL";
+}
+
+export interface ErJoinPathResponse {
+    fromTableId: number;
+    toTableId: number;
+    /** Empty when the tables are not connected */
+    hops: ErJoinHop[];
+    diagram: ErDiagramResponse;
+}
+
 export interface ErNodeData {
     tableId: number;
     tableName: string;
@@ -66,6 +88,24 @@ export interface LogicalFkDto {
     createdAt: string;
 }
 
+/** SUGGESTED logical FK with detection evidence, as listed by the review queue */
+export interface LogicalFkReviewItem extends LogicalFkDto {
+    reason?: string;
+    discoveryMethods: string[];
+    /** The same source column also has suggestions for other columns of the target table */
+    isAmbiguous: boolean;
+}
+
+export interface BulkUpdateLogicalFkStatusRequest {
+    logicalFkIds: number[];
+    notes?: string;
+}
+
+export interface BulkLogicalFkStatusResult {
+    updatedIds: number[];
+    notFoundIds: number[];
+}
+
 export interface LogicalFkCandidate {
     sourceTableId: number;
     sourceTableName: string;
@@ -102,3 +142,42 @@ export interface PendingFkCount {
     tableId: number;
     pendingCount: number;
 }
+
+// ============================================
+// Saved views
+// ============================================
+
+export type ErLayoutDirection = "LR" | "TB";
+
+export interface ErNodePosition {
+    x: number;
+    y: number;
+}
+
+/** Canvas state captured by a saved view */
+export interface ErDiagramViewLayout {
+    focusTableIds: number[];
+    hops: number;
+    direction: ErLayoutDirection;
+    /** Manual node positions keyed by table id */
+    positions: Record<number, ErNodePosition>;
+    hiddenTableIds: number[];
+}
+
+export interface ErDiagramView {
+    viewId: number;
+    projectId: number;
+    name: string;
+    description?: string;
+    layout: ErDiagramViewLayout;
+    createdBy: number;
+    createdByName: string;
+    createdAt: string;
+    updatedAt?: string;
+}
+
+export interface SaveErDiagramViewRequest {
+    name: string;
+    description?: string;
+    layout: ErDiagramViewLayout;
+}
@@ -5,6 +5,9 @@ export interface EntityRef {
   stableKey: string;
 }
 
+/** Values accepted by the impact endpoint's `changeType` query parameter */
+export type ImpactChangeType = "CREATE" | "MODIFY" | "DELETE" | "RENAME";
+
 export interface ImpactReason {
   priority: number;
   statement: string;
@@ -54,8 +57,23 @@ export interface ImpactDecisionResponse {
   entities: ImpactEntity[];
 }
 
+/** One changed entity in a multi-entity change set */
+export interface ImpactChangeSetItem {
+  entityType: string; // "TABLE" | "SP"
+  entityId: number;
+  changeType: ImpactChangeType;
+}
+
+/** Per-item impact results merged into one report */
+export interface ImpactChangeSetReport {
+  response: ImpactDecisionResponse;
+  /** Changed entities that reach each affected entity, keyed by stable key */
+  causedBy: Record<string, EntityRef[]>;
+}
+
 // --- LEGACY TYPES ---
-// These are used by existing components like src/components/impact-analysis/impact-analysis.tsx
+// Pre-verdict response shape. Only read by components/impact-analysis/impactAdapter.ts,
+// which converts it to ImpactDecisionResponse for the shared renderers.
 
 export type ImpactLevel = "CRITICAL" | "HIGH" | "MEDIUM" | "LOW";
 
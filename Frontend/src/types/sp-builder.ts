@@ -0,0 +1,104 @@
+/**
+ * SP Builder Types
+ *
+ * Frontend types for saved SP Builder configurations.
+ * Backend source: Features/SpBuilder/SpTemplateModels.cs
+ */
+
+import type { SqlDialect } from "@/lib/schema-utils";
+
+/** Backend SpType enum names */
+export type SpTypeName = "Cud" | "Select" | "Upsert" | "SoftDelete" | "BulkTvp" | "Audit";
+
+/** Column snapshot a configuration was saved against, used to detect drift */
+export interface SavedSpColumn {
+    columnName: string;
+    dataType: string;
+    includeInCreate: boolean;
+    includeInUpdate: boolean;
+}
+
+export interface SavedSpConfig {
+    type: SpTypeName;
+    columns: SavedSpColumn[];
+    cudOptions?: Record<string, unknown> | null;
+    selectOptions?: Record<string, unknown> | null;
+    upsertOptions?: Record<string, unknown> | null;
+    softDeleteOptions?: Record<string, unknown> | null;
+    bulkTvpOptions?: Record<string, unknown> | null;
+    auditOptions?: Record<string, unknown> | null;
+    /** SP Builder form values, restored as-is when the configuration is loaded */
+    editorState?: unknown;
+}
+
+export interface SaveSpConfigRequest {
+    name: string;
+    schemaName: string;
+    tableName: string;
+    /** What changed in this version */
+    note?: string;
+    config: SavedSpConfig;
+}
+
+export interface SpConfigListItem {
+    configId: number;
+    schemaName: string;
+    tableName: string;
+    name: string;
+    type: SpTypeName;
+    currentVersion: number;
+    createdByName: string;
+    updatedByName?: string | null;
+    createdAt: string;
+    updatedAt?: string | null;
+}
+
+export interface SpConfig extends SpConfigListItem {
+    projectId: number;
+    /** The version `config` was loaded from */
+    version: number;
+    note?: string | null;
+    config: SavedSpConfig;
+}
+
+export interface SpConfigVersion {
+    versionNumber: number;
+    note?: string | null;
+    createdByName: string;
+    createdAt: string;
+}
+
+export type SpConfigRegenerationStatus = "Ok" | "Changed" | "Invalid";
+
+export interface GeneratedSpItem {
+    spName: string;
+    spType: string;
+    code: string;
+    fileName: string;
+    description: string;
+}
+
+export interface SpConfigRegenerationResult {
+    configId: number;
+    name: string;
+    schemaName: string;
+    tableName: string;
+    type: SpTypeName;
+    version: number;
+    status: SpConfigRegenerationStatus;
+    addedColumns: string[];
+    removedColumns: string[];
+    /** e.g. "Amount (int → decimal)" */
+    retypedColumns: string[];
+    errors: string[];
+    warnings: string[];
+    storedProcedure?: GeneratedSpItem | null;
+    /** Bulk TVP only: the CREATE TYPE script, deployed before the procedure */
+    tableType?: GeneratedSpItem | null;
+}
+
+export interface RegenerateSpConfigsResponse {
+    dialect: SqlDialect;
+    results: SpConfigRegenerationResult[];
+    generatedAt: string;
+}